@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+// Build output check: the library bundle and the iframe embed page exist, every
+// script and stylesheet the embed page loads was emitted, and the compute worker is
+// inlined into the library bundle (a worker file loaded by URL fails cross-origin)
+// Usage: node scripts/check-build.js (runs at the end of npm run build)
+
+import { existsSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const dist = join(__dirname, '..', 'dist');
+
+const required = ['configurator.umd.cjs', 'style.css', 'embed/embed.html'];
+const missing = required.filter((file) => !existsSync(join(dist, file)));
+
+const bundle = join(dist, 'configurator.umd.cjs');
+if (existsSync(bundle) && !readFileSync(bundle, 'utf8').includes('data:application/javascript;base64,')) {
+  missing.push('configurator.umd.cjs inline compute worker');
+}
+
+const embedPage = join(dist, 'embed', 'embed.html');
+if (existsSync(embedPage)) {
+  const html = readFileSync(embedPage, 'utf8');
+  const references = [...html.matchAll(/(?:src|href)="(\.\/[^"]+)"/g)].map((match) => match[1]);
+  if (!references.some((reference) => reference.endsWith('.js'))) {
+    missing.push('embed/embed.html script');
+  }
+  for (const reference of references) {
+    if (!existsSync(join(dist, 'embed', reference))) missing.push(`embed/${reference.slice(2)}`);
+  }
+}
+
+if (missing.length > 0) {
+  console.error(`❌ Build output incomplete, missing: ${missing.join(', ')}`);
+  process.exit(1);
+}
+
+console.log(`✅ Build output complete: ${required.join(', ')}`);
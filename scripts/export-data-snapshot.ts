@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+
+/**
+ * Export Data Snapshot (Supabase)
+ *
+ * Dumps every table the configurator reads into a single JSON file that the snapshot
+ * data provider (src/services/data-provider.ts) can serve offline:
+ * 1. Loads environment variables from .env.local / .env when available
+ * 2. Reads product lines, products, rules, default options, product overrides,
+ *    option tables, sku_code_order and sku_generation_rules
+ *    (and sku_index with --with-sku-index, for the SKU coverage report)
+ * 3. Writes the snapshot to --out (default: data-snapshot.json)
+ *
+ * Usage: npm run snapshot:export -- [--out public/data-snapshot.json] [--with-sku-index]
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadEnvFiles() {
+  const candidates = ['.env.local', '.env'];
+  for (const candidate of candidates) {
+    const fullPath = join(__dirname, '..', candidate);
+    if (!existsSync(fullPath)) continue;
+    const contents = readFileSync(fullPath, 'utf8');
+    for (const line of contents.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const [key, ...rest] = trimmed.split('=');
+      if (!key || rest.length === 0) continue;
+      if (process.env[key] === undefined) {
+        process.env[key] = rest.join('=').trim();
+      }
+    }
+  }
+}
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+loadEnvFiles();
+
+const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.VITE_SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_KEY) {
+  console.error('❌ Missing VITE_SUPABASE_URL or a Supabase key – ensure your environment variables are configured.');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false },
+  global: { headers: { 'X-Client-Info': 'export-data-snapshot' } }
+});
+
+async function selectAll(table: string, columns = '*') {
+  const { data, error } = await supabase.from(table).select(columns);
+  if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+  return (data ?? []) as unknown as Record<string, any>[];
+}
+
+// sku_index is larger than the default row limit; read it in pages
+async function selectPaged(table: string, columns: string, pageSize = 1000) {
+  const rows: Record<string, any>[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase.from(table).select(columns).order('id').range(from, from + pageSize - 1);
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    rows.push(...((data ?? []) as unknown as Record<string, any>[]));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
+
+async function main() {
+  const outPath = readFlag('--out') ?? 'data-snapshot.json';
+  const withSkuIndex = process.argv.includes('--with-sku-index');
+  const { COLLECTION_TO_TABLE } = await import('../src/services/product-options-builder.ts');
+  const { DATA_SNAPSHOT_VERSION } = await import('../src/services/data-provider.ts');
+
+  console.log(`== Exporting data snapshot from ${SUPABASE_URL} ==`);
+
+  const [productLines, products, rules, productLineDefaultOptions, productOptionOverrides, skuCodeOrder, skuGenerationRules] =
+    await Promise.all([
+      selectAll('product_lines', 'id, name, sku_code, active, sort'),
+      selectAll('products'),
+      selectAll('rules'),
+      selectAll('product_lines_default_options', 'product_lines_id, collection, item'),
+      selectAll('products_options_overrides', 'products_id, collection, item'),
+      selectAll('sku_code_order', 'id, order, sku_code_item'),
+      selectAll('sku_generation_rules', 'attribute_code, rule_order, separator, sku_segment_template, is_active'),
+    ]);
+
+  const options: Record<string, Record<string, any>[]> = {};
+  for (const [collection, table] of Object.entries(COLLECTION_TO_TABLE)) {
+    options[collection] = await selectAll(table);
+  }
+
+  const snapshot = {
+    version: DATA_SNAPSHOT_VERSION,
+    generatedAt: new Date().toISOString(),
+    productLines,
+    products,
+    rules,
+    productLineDefaultOptions,
+    productOptionOverrides,
+    options,
+    skuCodeOrder: skuCodeOrder.map((row) => ({
+      id: row.id,
+      order: row.order ?? 0,
+      sku_code_item: row.sku_code_item ?? '',
+    })),
+    skuGenerationRules,
+    ...(withSkuIndex
+      ? {
+          skuIndex: await selectPaged(
+            'sku_index',
+            'sku_code, product_id, product_line_id, mirror_style_id, frame_thickness_id, light_direction_id, frame_color_id, mounting_option_id, hanging_technique_id, color_temperature_id, light_output_id, driver_id, size_id, accessory_id'
+          ),
+        }
+      : {}),
+  };
+
+  writeFileSync(outPath, JSON.stringify(snapshot, null, 2) + '\n');
+
+  console.log(`✅ Snapshot written to ${outPath}`);
+  console.log(`📊 Data summary:
+    - Product Lines: ${productLines.length}
+    - Products: ${products.length}
+    - Rules: ${rules.length}
+    - Option collections: ${Object.keys(options).length}${snapshot.skuIndex ? `
+    - SKU index rows: ${snapshot.skuIndex.length}` : ''}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Snapshot export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rules Analyzer (Supabase)
+ *
+ * Static checks over the rules table:
+ * 1. Loads environment variables from .env.local / .env when available
+ * 2. Fetches rules, product_lines and product_lines_default_options
+ * 3. Enumerates each product line's option space and reports contradictory allow/deny
+ *    sets, collections left without options, unreachable rules and shadowed rules
+ * 4. Prints a JSON report to stdout (or --out <file>) and exits 1 when errors are found
+ *
+ * Usage: npm run rules:analyze -- [--out report.json] [--strict] [--max-contexts 50000]
+ *   --strict        also exit 1 on warnings
+ *   --max-contexts  per-product-line enumeration cap
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadEnvFiles() {
+  const candidates = ['.env.local', '.env'];
+  for (const candidate of candidates) {
+    const fullPath = join(__dirname, '..', candidate);
+    if (!existsSync(fullPath)) continue;
+    const contents = readFileSync(fullPath, 'utf8');
+    for (const line of contents.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const [key, ...rest] = trimmed.split('=');
+      if (!key || rest.length === 0) continue;
+      if (process.env[key] === undefined) {
+        process.env[key] = rest.join('=').trim();
+      }
+    }
+  }
+}
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+loadEnvFiles();
+
+const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.VITE_SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_KEY) {
+  console.error('❌ Missing VITE_SUPABASE_URL or a Supabase key – ensure your environment variables are configured.');
+  process.exit(2);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false },
+  global: { headers: { 'X-Client-Info': 'rules-analyze' } }
+});
+
+async function main() {
+  const outPath = readFlag('--out');
+  const strict = process.argv.includes('--strict');
+  const maxContexts = readFlag('--max-contexts');
+
+  const [rulesResult, linesResult, defaultsResult] = await Promise.all([
+    supabase.from('rules').select('*').order('priority', { ascending: true, nullsFirst: false }),
+    supabase.from('product_lines').select('id, name'),
+    supabase.from('product_lines_default_options').select('product_lines_id, collection, item'),
+  ]);
+
+  for (const [table, result] of [
+    ['rules', rulesResult],
+    ['product_lines', linesResult],
+    ['product_lines_default_options', defaultsResult],
+  ] as const) {
+    if (result.error) throw new Error(`Failed to load ${table}: ${result.error.message}`);
+  }
+
+  const { analyzeRules } = await import('../src/services/rule-analyzer.ts');
+  const report = analyzeRules(
+    {
+      rules: rulesResult.data ?? [],
+      productLines: linesResult.data ?? [],
+      defaultOptions: defaultsResult.data ?? [],
+    },
+    { maxContextsPerLine: maxContexts ? parseInt(maxContexts, 10) : undefined }
+  );
+
+  const json = JSON.stringify(report, null, 2);
+  if (outPath) {
+    writeFileSync(outPath, json + '\n');
+    console.error(`📝 Report written to ${outPath}`);
+  } else {
+    console.log(json);
+  }
+
+  const { errors, warnings, truncatedProductLines } = report.summary;
+  console.error(`${errors ? '❌' : '✅'} ${errors} error(s), ${warnings} warning(s)`);
+  if (truncatedProductLines.length > 0) {
+    console.error(`⚠️ Enumeration truncated for product line(s) ${truncatedProductLines.join(', ')}; unreachable-rule checks skipped for those lines`);
+  }
+
+  process.exit(errors > 0 || (strict && warnings > 0) ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Rules analysis failed:', error);
+  process.exit(2);
+});
@@ -0,0 +1,72 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rules Simulation Sandbox (offline)
+ *
+ * Evaluates a proposed rule against a data snapshot and diffs option availability
+ * before and after, without a live Supabase:
+ * 1. Reads the snapshot exported by scripts/export-data-snapshot.ts
+ * 2. Reads the proposed rule JSON (a rule object or an array of them; a rule whose id
+ *    matches an existing rule replaces it)
+ * 3. Runs every option combination of each product line through the disabled-option
+ *    pipeline with and without the proposed rules
+ * 4. Prints a JSON report of options that become disabled / enabled
+ *
+ * Usage: npm run rules:simulate -- --snapshot data-snapshot.json --rule proposed-rule.json
+ *          [--out report.json] [--max-contexts 20000]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// The service modules create a Supabase client on import; the snapshot never reaches it
+process.env.VITE_SUPABASE_URL ??= 'http://localhost:54321';
+process.env.VITE_SUPABASE_ANON_KEY ??= 'offline';
+
+async function main() {
+  const snapshotPath = readFlag('--snapshot') ?? 'data-snapshot.json';
+  const rulePath = readFlag('--rule');
+  const outPath = readFlag('--out');
+  const maxContexts = readFlag('--max-contexts');
+
+  if (!rulePath) {
+    console.error('❌ Missing --rule <file> with the proposed rule JSON');
+    process.exit(1);
+  }
+
+  const { parseDataSnapshot } = await import('../src/services/data-provider.ts');
+  const { simulateRuleChange } = await import('../src/services/rule-simulator.ts');
+
+  const snapshot = parseDataSnapshot(JSON.parse(readFileSync(snapshotPath, 'utf8')));
+  const proposed = JSON.parse(readFileSync(rulePath, 'utf8'));
+
+  const report = await simulateRuleChange(
+    snapshot,
+    Array.isArray(proposed) ? proposed : [proposed],
+    { maxContextsPerLine: maxContexts ? parseInt(maxContexts, 10) : undefined }
+  );
+
+  const json = JSON.stringify(report, null, 2);
+  if (outPath) {
+    writeFileSync(outPath, json + '\n');
+    console.error(`📝 Report written to ${outPath}`);
+  } else {
+    console.log(json);
+  }
+
+  const { contextsEvaluated, contextsChanged, changes } = report.summary;
+  console.error(`📊 ${changes} availability change(s) across ${contextsChanged} of ${contextsEvaluated} configuration(s)`);
+  const truncated = report.productLines.filter((line) => line.truncated).map((line) => line.productLineId);
+  if (truncated.length > 0) {
+    console.error(`⚠️ Enumeration truncated for product line(s) ${truncated.join(', ')}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Rules simulation failed:', error);
+  process.exit(1);
+});
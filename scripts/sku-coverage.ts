@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+
+/**
+ * SKU Coverage Report
+ *
+ * Enumerates every valid configuration of a product line and diffs it against sku_index:
+ * 1. Loads environment variables from .env.local / .env when available
+ * 2. Reads the catalog from Supabase, or from --snapshot (exported with
+ *    `npm run snapshot:export -- --with-sku-index`)
+ * 3. Walks each product's option space (product overrides, rule constraints and
+ *    product availability applied) and generates its SKUs
+ * 4. Prints a JSON report of valid-but-missing and present-but-invalid SKUs and exits 1
+ *    when either is found
+ *
+ * Usage: npm run sku:coverage -- [--product-line 1] [--snapshot data-snapshot.json]
+ *          [--out report.json] [--max-configurations 1000000] [--max-examples 50]
+ *   --product-line  only this product line (default: every product line)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadEnvFiles() {
+  const candidates = ['.env.local', '.env'];
+  for (const candidate of candidates) {
+    const fullPath = join(__dirname, '..', candidate);
+    if (!existsSync(fullPath)) continue;
+    const contents = readFileSync(fullPath, 'utf8');
+    for (const line of contents.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const [key, ...rest] = trimmed.split('=');
+      if (!key || rest.length === 0) continue;
+      if (process.env[key] === undefined) {
+        process.env[key] = rest.join('=').trim();
+      }
+    }
+  }
+}
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const snapshotPath = readFlag('--snapshot');
+
+if (snapshotPath) {
+  // The service modules create a Supabase client on import; the snapshot never reaches it
+  process.env.VITE_SUPABASE_URL ??= 'http://localhost:54321';
+  process.env.VITE_SUPABASE_ANON_KEY ??= 'offline';
+} else {
+  loadEnvFiles();
+}
+
+async function loadSkuIndex() {
+  const url = process.env.VITE_SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.VITE_SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!url || !key) {
+    console.error('❌ Missing VITE_SUPABASE_URL or a Supabase key – ensure your environment variables are configured.');
+    process.exit(2);
+  }
+
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false },
+    global: { headers: { 'X-Client-Info': 'sku-coverage' } }
+  });
+
+  const rows: any[] = [];
+  const pageSize = 1000;
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase.from('sku_index').select('*').order('id').range(from, from + pageSize - 1);
+    if (error) throw new Error(`Failed to load sku_index: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
+
+async function main() {
+  const productLineFlag = readFlag('--product-line');
+  const outPath = readFlag('--out');
+  const maxConfigurations = readFlag('--max-configurations');
+  const maxExamples = readFlag('--max-examples');
+
+  const { createSnapshotDataProvider, parseDataSnapshot, setDataProvider } = await import('../src/services/data-provider.ts');
+  const { getProducts, getRules } = await import('../src/services/supabase.ts');
+  const { fetchProductLines, fetchProductOptions } = await import('../src/services/product-options.ts');
+  const { loadSkuGrammar } = await import('../src/services/sku-generator.ts');
+  const { buildSkuCoverageReport } = await import('../src/services/sku-coverage.ts');
+
+  let skuIndex;
+  if (snapshotPath) {
+    const snapshot = parseDataSnapshot(JSON.parse(readFileSync(snapshotPath, 'utf8')));
+    if (!snapshot.skuIndex) {
+      console.error('❌ Snapshot has no sku_index rows – export it with --with-sku-index');
+      process.exit(2);
+    }
+    setDataProvider(createSnapshotDataProvider(snapshot));
+    skuIndex = snapshot.skuIndex;
+  } else {
+    skuIndex = await loadSkuIndex();
+  }
+
+  const [productLines, products, rules, grammar] = await Promise.all([
+    fetchProductLines(),
+    getProducts(),
+    getRules(),
+    loadSkuGrammar(),
+  ]);
+
+  const selectedLines = productLineFlag
+    ? productLines.filter((line) => line.id === parseInt(productLineFlag, 10))
+    : productLines;
+  if (selectedLines.length === 0) {
+    console.error(`❌ Unknown product line ${productLineFlag}`);
+    process.exit(2);
+  }
+
+  const reports = [];
+  for (const line of selectedLines) {
+    const started = Date.now();
+    const report = await buildSkuCoverageReport(
+      {
+        productLine: { id: line.id, name: line.name },
+        products,
+        rules,
+        grammar,
+        getProductOptions: (productId) => fetchProductOptions(line.id, productId),
+      },
+      skuIndex,
+      {
+        maxConfigurations: maxConfigurations ? parseInt(maxConfigurations, 10) : undefined,
+        maxExamples: maxExamples ? parseInt(maxExamples, 10) : undefined,
+      }
+    );
+    const { validConfigurations, validMissing, presentInvalid, truncated } = report.summary;
+    console.error(
+      `📊 ${line.name}: ${validConfigurations} valid configuration(s), ${validMissing} missing, ${presentInvalid} invalid (${Date.now() - started}ms)${truncated ? ' ⚠️ truncated' : ''}`
+    );
+    reports.push(report);
+  }
+
+  const json = JSON.stringify(reports, null, 2);
+  if (outPath) {
+    writeFileSync(outPath, json + '\n');
+    console.error(`📝 Report written to ${outPath}`);
+  } else {
+    console.log(json);
+  }
+
+  const issues = reports.reduce((sum, report) => sum + report.summary.validMissing + report.summary.presentInvalid, 0);
+  console.error(`${issues ? '❌' : '✅'} ${issues} coverage issue(s)`);
+  process.exit(issues > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ SKU coverage failed:', error);
+  process.exit(2);
+});
@@ -13,18 +13,25 @@ import {
   useQuoteActions,
   useComputedValues,
   useConfiguratorStore,
+  usePriceBreakdown,
+  useTheme,
+  useSizeUnit,
+  useSizeValidation,
 } from "./store";
 import { useSkuUrlSync } from "./hooks/useSkuUrlSync";
 import type {
   ProductLine,
   ProductConfig,
   ProductOption,
+  ProductOptions,
   DecoProduct,
   FrameThickness,
   MirrorStyle,
   LightDirection,
   MountingOption,
-  ConfigurationUIItem
+  ConfigurationUIItem,
+  QuoteItem,
+  CustomerInfo
 } from "./store/types";
 import { Button } from "./components/ui/button";
 import { Card } from "./components/ui/card";
@@ -49,22 +56,56 @@ import {
   ChevronLeft,
   ChevronRight,
   Search,
+  Copy,
+  Pencil,
+  Printer,
+  ListPlus,
+  Upload,
 } from "lucide-react";
 
 // Import Dynamic Supabase service layer
 import { fetchProductLines } from "./services/product-options";
 import { findBestMatchingProduct } from "./services/product-matcher";
 import { selectProductImage, constructProductAssetUrl } from "./services/image-selector";
+import { calculateQuoteTotal } from "./services/pricing-engine";
+import {
+  detectQuoteExchangeFormat,
+  exportQuote,
+  getQuoteExchangeFormats,
+  importQuote,
+  loadQuoteSkuSegments,
+  QuoteImportError,
+} from "./services/quote-exchange";
+import {
+  findEmbedProductLine,
+  isFeatureEnabled,
+  type ConfiguratorEmbed,
+} from "./embed/embed-options";
+import { loadTheme } from "./services/theme";
+import { detectLocale, useI18n } from "./i18n";
+import { getStoredLengthUnit } from "./services/units";
+import { getDefaultThemeSource } from "./utils/environment";
+import { ThemeBrand, ThemeRoot } from "./components/ThemeRoot";
 
 // Import API validation and test suite
 // Dev-only validators are noisy; omit in production build
 
 // Import components
 import { ProductLineSelector } from "./components/ui/product-line-selector";
+import { LanguageSelector } from "./components/ui/language-selector";
 import { CurrentConfiguration } from "./components/ui/current-configuration";
 import { EnvironmentIndicator } from "./components/ui/environment-indicator";
 import { DynamicConfigurationRenderer } from "./components/DynamicConfigurationRenderer";
+import { PrintableDocument, QuoteDocumentView, SpecSheetView } from "./components/QuoteDocument";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./components/ui/dropdown-menu";
+import type { QuoteDocument, SpecSheet } from "./services/quote-document";
 import { SkuSearchInput } from "./components/ui/sku-search-input";
+import { SkuBulkImportDialog } from "./components/ui/sku-bulk-import-dialog";
 import {
   Sheet,
   SheetContent,
@@ -73,7 +114,12 @@ import {
   SheetTitle,
 } from "./components/ui/sheet";
 
-const App: React.FC = () => {
+interface AppProps {
+  // Set when mounted by <mtx-configurator> (see src/embed)
+  embed?: ConfiguratorEmbed;
+}
+
+const App: React.FC<AppProps> = ({ embed }) => {
   // Zustand store state
   const { currentConfig, currentProduct, currentProductLine } = useConfigurationState();
   const {
@@ -94,22 +140,63 @@ const App: React.FC = () => {
     error,
     ruleImageOverrides
   } = useAPIState();
-  const { quoteItems, customerInfo } = useQuoteState();
+  const { quoteItems, editingQuoteItemId, customerInfo } = useQuoteState();
+  const priceBreakdown = usePriceBreakdown();
+  const sizeValidation = useSizeValidation();
+  const isSizeInvalid = sizeValidation?.valid === false;
 
   // Local component state
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [generatedSku, setGeneratedSku] = useState<string | null>(null);
   const [isSkuSearchOpen, setIsSkuSearchOpen] = useState(false);
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
   const [hasAppliedInitialSku, setHasAppliedInitialSku] = useState(false);
+  const [isSubmittingQuote, setIsSubmittingQuote] = useState(false);
+  // Reused when a failed submission is retried so the server can dedupe it
+  const quoteSubmissionKeyRef = React.useRef<string | null>(null);
+  // Document currently shown in the print dialog
+  const [printView, setPrintView] = useState<
+    { kind: "quote"; document: QuoteDocument } | { kind: "specSheet"; sheet: SpecSheet } | null
+  >(null);
+  const [isPreparingDocument, setIsPreparingDocument] = useState(false);
 
   // Get SKU generator from store
   const getGeneratedSKU = useConfiguratorStore((state) => state.getGeneratedSKU);
   const searchBySku = useConfiguratorStore((state) => state.searchBySku);
   const applySkuResult = useConfiguratorStore((state) => state.applySkuResult);
+  const restorePendingConfiguration = useConfiguratorStore((state) => state.restorePendingConfiguration);
+  const discardPendingConfiguration = useConfiguratorStore((state) => state.discardPendingConfiguration);
+  const revalidateQuoteItems = useConfiguratorStore((state) => state.revalidateQuoteItems);
 
   // URL synchronization using nuqs
   const { skuParam, updateSkuInUrl, getInitialSku, hasInitialSku } = useSkuUrlSync();
 
+  // Features a host page can turn off
+  const embedOptions = embed?.options;
+  const canSearchSku = isFeatureEnabled(embedOptions, 'sku-search');
+  const canBulkImport = isFeatureEnabled(embedOptions, 'bulk-import');
+  const canQuote = isFeatureEnabled(embedOptions, 'quote');
+  const canImportQuote = canQuote && isFeatureEnabled(embedOptions, 'quote-import');
+  const canExportQuote = canQuote && isFeatureEnabled(embedOptions, 'quote-export');
+  const canPrint = isFeatureEnabled(embedOptions, 'print');
+  const syncsUrl = isFeatureEnabled(embedOptions, 'url-sync');
+
+  // An embed's sku attribute wins over the URL; replaced when the attribute changes
+  const startingSkuRef = React.useRef<string | null>(
+    embedOptions?.sku ?? (syncsUrl ? getInitialSku() : null)
+  );
+  const embedProductLineRef = React.useRef(embedOptions?.productLine);
+
+  // Dealer theme from the embed's theme attribute, or the deployment's VITE_THEME
+  const theme = useTheme();
+  const themeSource = embedOptions?.theme ?? getDefaultThemeSource();
+
+  // Language from the embed's locale attribute (or ?locale=), else the visitor's choice or browser
+  const { t, locale, formatPrice, formatSize, localizeOption } = useI18n();
+  const localeOverride =
+    embedOptions?.locale ?? (syncsUrl ? new URLSearchParams(window.location.search).get("locale") : null);
+  const sizeUnit = useSizeUnit();
+
   // Zustand store actions
   const {
     updateConfiguration,
@@ -128,6 +215,9 @@ const App: React.FC = () => {
     closeLightbox,
     setScrollState,
     setCustomSizeEnabled,
+    setTheme,
+    setLocale,
+    setSizeUnit,
   } = useUIActions();
 
   const {
@@ -142,10 +232,18 @@ const App: React.FC = () => {
 
   const {
     addToQuote,
+    importQuoteItems,
+    repriceQuoteItems,
+    updateQuoteItem,
+    reopenQuoteItem,
+    cancelQuoteItemEdit,
+    duplicateQuoteItem,
+    updateQuoteItemDetails,
     removeFromQuote,
     updateQuoteItemQuantity,
     clearQuote,
     updateCustomerInfo,
+    setCustomerInfo,
     resetCustomerInfo,
   } = useQuoteActions();
 
@@ -159,11 +257,30 @@ const App: React.FC = () => {
     initializeApp();
   }, []);
 
+  // Load the theme at init and again whenever the host switches it
+  useEffect(() => {
+    let cancelled = false;
+    void loadTheme(themeSource).then((loaded) => {
+      if (!cancelled) setTheme(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [themeSource, setTheme]);
+
+  useEffect(() => {
+    void setLocale(detectLocale({ override: localeOverride }));
+  }, [localeOverride, setLocale]);
+
+  useEffect(() => {
+    setSizeUnit(embedOptions?.units ?? getStoredLengthUnit() ?? "in");
+  }, [embedOptions?.units, setSizeUnit]);
+
   // Apply SKU from URL on initial load (after app is initialized)
   // CRITICAL: Only run this ONCE when app first loads with a SKU parameter
   useEffect(() => {
     const applySku = async () => {
-      const initialSku = getInitialSku();
+      const initialSku = startingSkuRef.current;
 
       // Only apply if:
       // 1. We have an initial SKU from URL
@@ -194,6 +311,14 @@ const App: React.FC = () => {
     applySku();
   }, [currentProductLine, productOptions, hasAppliedInitialSku]); // Include hasAppliedInitialSku in deps
 
+  // Follow the embed's sku attribute when the host changes it
+  useEffect(() => {
+    const sku = embedOptions?.sku;
+    if (!sku || sku === startingSkuRef.current) return;
+    startingSkuRef.current = sku;
+    setHasAppliedInitialSku(false);
+  }, [embedOptions?.sku]);
+
   // Update product when configuration changes
   useEffect(() => {
     const updateProduct = async () => {
@@ -296,7 +421,7 @@ const App: React.FC = () => {
           setGeneratedSku(sku);
           // Update URL with the new SKU
           // nuqs handles throttling automatically via throttleMs option
-          if (sku) {
+          if (sku && syncsUrl) {
             updateSkuInUrl(sku);
           }
         }
@@ -307,7 +432,7 @@ const App: React.FC = () => {
     };
     generateSku();
     return () => { mounted = false; };
-  }, [currentConfig, currentProduct, getGeneratedSKU, updateSkuInUrl]);
+  }, [currentConfig, currentProduct, getGeneratedSKU, updateSkuInUrl, syncsUrl]);
 
   // Build thumbnail URLs from additional_images only (excluding primary vertical/horizontal images)
   const getProductThumbnails = (product: DecoProduct | null): string[] => {
@@ -413,6 +538,21 @@ const App: React.FC = () => {
         defaultProductLine = decoProductLine;
       }
 
+      // Resume the product line of the configuration saved by the last session
+      const pendingRestore = useConfiguratorStore.getState().pendingConfigurationRestore;
+      const savedProductLine = pendingRestore
+        ? productLines.find(pl => pl.id === pendingRestore.productLineId)
+        : undefined;
+      if (savedProductLine) {
+        defaultProductLine = savedProductLine;
+      }
+
+      // An embed asking for a product line overrides both
+      const embedProductLine = findEmbedProductLine(productLines, embedOptions?.productLine);
+      if (embedProductLine) {
+        defaultProductLine = embedProductLine;
+      }
+
       if (!defaultProductLine) {
         throw new Error('No product lines available');
       }
@@ -423,6 +563,15 @@ const App: React.FC = () => {
       // Load filtered options for the default product line
       await loadProductLineOptions(defaultProductLine);
 
+      // A SKU in the URL (or embed) takes precedence over the saved configuration
+      if (startingSkuRef.current || (embedProductLine && embedProductLine !== savedProductLine)) {
+        discardPendingConfiguration();
+      } else {
+        await restorePendingConfiguration();
+      }
+      void revalidateQuoteItems();
+      embed?.emit('ready', { productLine: defaultProductLine });
+
     } catch (err) {
       console.error("Failed to load product data:", err);
       setError(err instanceof Error ? err.message : "Failed to load product data");
@@ -432,7 +581,7 @@ const App: React.FC = () => {
   };
 
   // Handle product line change
-  const handleProductLineChange = async (newProductLine: ProductLine) => {
+  const handleProductLineChange = React.useCallback(async (newProductLine: ProductLine) => {
     console.log(`handleProductLineChange called with:`, newProductLine);
     console.log(`Current isLoadingProductLine state:`, isLoadingProductLine);
 
@@ -462,7 +611,27 @@ const App: React.FC = () => {
       console.log(`Setting loading state to false`);
       setLoadingProductLine(false);
     }
-  };
+  }, [
+    currentProductLine?.sku_code,
+    isLoadingProductLine,
+    setLoadingProductLine,
+    setCurrentProduct,
+    setCurrentProductLine,
+    loadProductLineOptions,
+    setError,
+  ]);
+
+  // Follow the embed's product-line attribute when the host changes it
+  useEffect(() => {
+    const requested = embedOptions?.productLine;
+    if (isLoadingApp || requested === embedProductLineRef.current) return;
+    embedProductLineRef.current = requested;
+
+    const productLine = findEmbedProductLine(availableProductLines, requested);
+    if (productLine) {
+      void handleProductLineChange(productLine);
+    }
+  }, [embedOptions?.productLine, isLoadingApp, availableProductLines, handleProductLineChange]);
 
 
   const handleConfigChange = async (field: any, value: any) => {
@@ -477,6 +646,18 @@ const App: React.FC = () => {
     }
   };
 
+  // Both dimensions at once (e.g. the suggested nearest valid size), filtered once
+  const handleCustomSizeChange = async (width: string, height: string) => {
+    if (!currentConfig) return;
+
+    updateConfiguration("width", width);
+    updateConfiguration("height", height);
+
+    if (currentProductLine) {
+      await recomputeFiltering(currentProductLine, { ...currentConfig, width, height });
+    }
+  };
+
   // computeAvailableOptions function moved to store/slices/apiSlice.ts as recomputeFiltering
 
   const handleSizePresetSelectLocal = (size: ProductOption) => {
@@ -497,6 +678,12 @@ const App: React.FC = () => {
       return;
     }
 
+    // The inline size errors explain what to fix
+    if (isSizeInvalid) {
+      document.getElementById("custom-size-width")?.focus();
+      return;
+    }
+
     // Generate SKU directly using the service function
     let sku: string;
     try {
@@ -512,11 +699,19 @@ const App: React.FC = () => {
       sku = generateProductName();
     }
 
-    // Add to quote using store action with the generated SKU as ID
-    addToQuote({
-      ...currentConfig,
-      id: sku,
-    });
+    // A reopened line is updated in place; otherwise the configuration becomes a new line
+    let itemId: string;
+    if (editingQuoteItemId) {
+      updateQuoteItem(editingQuoteItemId, currentConfig, sku);
+      itemId = editingQuoteItemId;
+    } else {
+      itemId = addToQuote(currentConfig, sku);
+    }
+
+    const item = useConfiguratorStore.getState().quoteItems.find((line) => line.id === itemId);
+    if (item) {
+      embed?.emit('addtoquote', { item, updated: editingQuoteItemId !== null });
+    }
 
     // Reset configuration using store action
     resetConfiguration();
@@ -525,62 +720,190 @@ const App: React.FC = () => {
     setCustomSizeEnabled(false);
   };
 
-  const removeFromQuoteLocal = (configId: string) => {
-    removeFromQuote(configId);
+  const removeFromQuoteLocal = (itemId: string) => {
+    removeFromQuote(itemId);
+  };
+
+  const reopenQuoteItemLocal = async (itemId: string) => {
+    const reopened = await reopenQuoteItem(itemId);
+    if (reopened) {
+      scrollToTop();
+    }
   };
 
-  const downloadConfiguration = () => {
-    if (!productOptions || !currentProductLine) return;
+  const cancelQuoteItemEditLocal = () => {
+    cancelQuoteItemEdit();
+    resetConfiguration();
+    setCustomSizeEnabled(false);
+  };
 
-    const configData = {
-      productLine: currentProductLine.name,
-      configuration: currentConfig,
-      quoteItems: quoteItems.map((item) => ({
-        ...item,
-        description: getConfigDescription(item),
-      })),
-      totalItems: quoteItems.length,
-      totalPrice: quoteItems.reduce((sum, item) => sum + (item.quantity || 1), 0) * 100,
-      date: new Date().toISOString(),
-    };
+  const downloadQuote = async (formatId: string) => {
+    if (quoteItems.length === 0) return;
 
-    const dataStr = JSON.stringify(configData, null, 2);
-    const dataUri =
-      "data:application/json;charset=utf-8," + encodeURIComponent(dataStr);
+    try {
+      // Without the catalog the export still works, only without SKU segment columns
+      const skuSegments = await loadQuoteSkuSegments(quoteItems).catch((error) => {
+        console.error('[App.downloadQuote] Failed to read SKU segments:', error);
+        return {};
+      });
+      const { content, fileName, mimeType } = exportQuote(formatId, quoteItems, customerInfo, new Date(), skuSegments);
+      const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+      const linkElement = document.createElement("a");
+      linkElement.setAttribute("href", url);
+      linkElement.setAttribute("download", fileName);
+      linkElement.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('[App.downloadQuote] Failed to export quote:', error);
+      alert(t("quote.exportFailed"));
+    }
+  };
+
+  const handleQuoteFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const format = detectQuoteExchangeFormat(file.name, text);
+      if (!format) throw new QuoteImportError(t("quote.unrecognisedFormat"));
 
-    const exportFileDefaultName = `mirror-config-${Date.now()}.json`;
+      const imported = importQuote(text, format);
+      if (imported.items.length === 0) {
+        alert(t("quote.importEmpty"));
+        return;
+      }
 
-    const linkElement = document.createElement("a");
-    linkElement.setAttribute("href", dataUri);
-    linkElement.setAttribute("download", exportFileDefaultName);
-    linkElement.click();
+      const replace =
+        quoteItems.length > 0 &&
+        window.confirm(t("quote.importReplace", { count: quoteItems.length }));
+      const importedIds = importQuoteItems(imported.items, { replace });
+      if (imported.customerInfo && (replace || !customerInfo.email)) {
+        setCustomerInfo(imported.customerInfo);
+      }
+      // Prices in the file may be stale; reprice the lines and flag retired options
+      void repriceQuoteItems(importedIds);
+      void revalidateQuoteItems();
+    } catch (error) {
+      console.error('[App.handleQuoteFileImport] Failed to import quote:', error);
+      alert(
+        error instanceof QuoteImportError
+          ? t("quote.importFailed", { reason: error.message })
+          : t("quote.unreadableFile"),
+      );
+    }
   };
 
-  const submitQuote = () => {
-    // In a real app, this would send the quote to a server
-    const quoteData = {
-      items: quoteItems,
-      customerInfo,
+  // Only a change to what is priced (SKUs, configurations, quantities) makes the next
+  // submission a new quote; editing notes, rooms or contact details retries the same one
+  const pricedQuoteContent = React.useMemo(
+    () => JSON.stringify(quoteItems.map((item) => [item.sku, item.config, item.quantity])),
+    [quoteItems],
+  );
+  useEffect(() => {
+    quoteSubmissionKeyRef.current = null;
+  }, [pricedQuoteContent]);
+
+  const printQuote = async (
+    items: QuoteItem[] = quoteItems,
+    customer: CustomerInfo = customerInfo,
+    quoteNumber: string | null = null
+  ) => {
+    if (isPreparingDocument || items.length === 0) return;
+
+    setIsPreparingDocument(true);
+    try {
+      const { buildQuoteDocument, loadQuoteDocumentData } = await import('./services/quote-document');
+      const data = await loadQuoteDocumentData(items);
+      setPrintView({ kind: "quote", document: buildQuoteDocument(items, customer, data, {
+          quoteNumber,
+          formatSize: (width, height) => formatSize(width, height, sizeUnit),
+        }) });
+    } catch (error) {
+      console.error('[App.printQuote] Failed to prepare quote document:', error);
+      alert(t("quote.documentFailed"));
+    } finally {
+      setIsPreparingDocument(false);
+    }
+  };
+
+  const printSpecSheet = async (sku: string) => {
+    if (!currentConfig || !currentProductLine || !productOptions) return;
+
+    const { buildSpecSheet } = await import('./services/quote-document');
+    setPrintView({
+      kind: "specSheet",
+      sheet: buildSpecSheet({
+        config: currentConfig,
+        productLine: currentProductLine,
+        product: currentProduct,
+        sku,
+        productOptions,
+        formatSize: (width, height) => formatSize(width, height, sizeUnit),
+      }),
+    });
+  };
+
+  const submitQuote = async () => {
+    if (isSubmittingQuote) return;
+
+    const { buildQuoteSubmission, createSubmissionKey, submitQuote: submitQuoteRequest } = await import('./services/quote-submission');
+
+    quoteSubmissionKeyRef.current ??= createSubmissionKey();
+    const submission = buildQuoteSubmission(quoteItems, customerInfo, {
+      submissionKey: quoteSubmissionKeyRef.current,
       productLine: currentProductLine?.name,
-    };
+    });
 
-    // Clear quote and customer info using store actions
-    clearQuote();
-    resetCustomerInfo();
-    setQuoteFormVisible(false);
+    setIsSubmittingQuote(true);
+    try {
+      const result = await submitQuoteRequest(submission);
+      quoteSubmissionKeyRef.current = null;
+      // The server reprices every line; its items come back in submission order
+      const submittedItems = quoteItems.map((item, index) => ({
+        ...item,
+        unitPrice: result.quote.items[index]?.unitPrice ?? null,
+      }));
+      const submittedCustomer = customerInfo;
+      embed?.emit('quotesubmit', {
+        quoteNumber: result.quoteNumber,
+        items: submittedItems,
+        customer: submittedCustomer,
+        total: result.totalPrice,
+      });
+
+      // Clear quote and customer info using store actions
+      clearQuote();
+      resetCustomerInfo();
+      setQuoteFormVisible(false);
+
+      const confirmation = t("quote.submitted", { quoteNumber: result.quoteNumber });
+      if (!canPrint) {
+        alert(confirmation);
+      } else if (window.confirm(`${confirmation}\n\n${t("quote.printNow")}`)) {
+        void printQuote(submittedItems, submittedCustomer, result.quoteNumber);
+      }
+    } catch (error) {
+      console.error('[App.submitQuote] Quote submission failed:', error);
+      alert(t("quote.submitFailed"));
+    } finally {
+      setIsSubmittingQuote(false);
+    }
+  };
 
-    console.log("Quote submitted:", quoteData);
-    alert("Your quote request has been submitted!");
+  // Selected option's name in the current language
+  const getOptionName = (field: keyof ProductOptions, id: string) => {
+    const option = productOptions?.[field].find((o) => o.id.toString() === id);
+    return option ? localizeOption(field, option).name : undefined;
   };
 
   const getConfigDescription = (config: ProductConfig) => {
     if (!productOptions) return "";
 
-    const mirrorStyle = productOptions.mirrorStyles.find(
-      (ms) => ms.id.toString() === config.mirrorStyle
-    )?.name;
+    const mirrorStyle = getOptionName("mirrorStyles", config.mirrorStyle);
 
-    return `${config.productLineName} ${mirrorStyle || ""} ${config.width}"×${config.height}"`;
+    return `${config.productLineName} ${mirrorStyle || ""} ${formatSize(config.width, config.height, sizeUnit)}`;
   };
 
   const scrollToTop = () => {
@@ -594,13 +917,11 @@ const App: React.FC = () => {
   // Loading state for initial app load
   if (isLoadingApp || !productOptions || !currentProductLine) {
     return (
-      <div className="min-h-screen bg-white">
+      <ThemeRoot theme={theme} className="min-h-screen bg-white" lang={locale}>
         <nav className="border-b border-gray-200 bg-white">
           <div className="max-w-7xl mx-auto px-6 py-4">
             <div className="flex items-center justify-between">
-              <div className="text-2xl font-bold tracking-tight">
-                Product Configurator
-              </div>
+              <ThemeBrand theme={theme} className="text-2xl font-bold tracking-tight" />
               <div className="flex items-center space-x-4">
                 <Spinner size="md" />
               </div>
@@ -612,20 +933,20 @@ const App: React.FC = () => {
           <div className="text-center">
             <Loader2 className="w-8 h-8 animate-spin mx-auto mb-6 text-gray-400" />
             <h2 className="text-xl font-semibold text-gray-900 mb-2">
-              Loading Product Configurator
+              {t("app.loading")}
             </h2>
             <p className="text-gray-600">
-              Preparing your custom mirror configuration experience...
+              {t("app.loadingHint")}
             </p>
           </div>
         </div>
-      </div>
+      </ThemeRoot>
     );
   }
 
   // Main configurator view
   return (
-    <div className="min-h-screen bg-white">
+    <ThemeRoot theme={theme} className="min-h-screen bg-white" lang={locale}>
       {/* Navigation */}
       <Sheet open={isSkuSearchOpen} onOpenChange={setIsSkuSearchOpen}>
         <SheetContent
@@ -644,13 +965,13 @@ const App: React.FC = () => {
         </SheetContent>
       </Sheet>
 
+      <SkuBulkImportDialog open={isBulkImportOpen} onOpenChange={setIsBulkImportOpen} />
+
       <nav className="border-b border-gray-200 bg-white sticky top-0 z-40">
         <div className="max-w-7xl mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
-              <div className="text-2xl font-bold tracking-tight">
-                Product Configurator
-              </div>
+              <ThemeBrand theme={theme} className="text-2xl font-bold tracking-tight" />
               <div className="ml-6">
                 <ProductLineSelector
                   productLines={availableProductLines}
@@ -661,26 +982,55 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <Button
-                variant="outline"
-                onClick={() => setIsSkuSearchOpen(true)}
-                className="flex items-center gap-2 border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
-              >
-                <Search className="h-4 w-4" />
-                Search by SKU
-              </Button>
-              <Button
-                onClick={() => setQuoteFormVisible(true)}
-                disabled={quoteItems.length === 0}
-                className={`${
-                  quoteItems.length === 0
-                    ? "bg-gray-300 text-gray-500 cursor-not-allowed hover:bg-gray-300"
-                    : "bg-amber-500 hover:bg-amber-600 text-white"
-                }`}
-              >
-                <ShoppingCart className="w-4 h-4 mr-2" />
-                Request Quote <span className="text-gray-700">({quoteItems.length})</span>
-              </Button>
+              {!embedOptions?.locale && <LanguageSelector />}
+              {canSearchSku && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsSkuSearchOpen(true)}
+                  className="flex items-center gap-2 border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+                >
+                  <Search className="h-4 w-4" />
+                  {t("nav.searchBySku")}
+                </Button>
+              )}
+              {canQuote && canBulkImport && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsBulkImportOpen(true)}
+                  className="flex items-center gap-2 border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+                >
+                  <ListPlus className="h-4 w-4" />
+                  {t("nav.importSkus")}
+                </Button>
+              )}
+              {canImportQuote && (
+                <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50">
+                  <Upload className="h-4 w-4" />
+                  {t("nav.importQuote")}
+                  <input
+                    type="file"
+                    accept={getQuoteExchangeFormats()
+                      .map((format) => `.${format.extension}`)
+                      .join(",")}
+                    onChange={handleQuoteFileImport}
+                    className="sr-only"
+                  />
+                </label>
+              )}
+              {canQuote && (
+                <Button
+                  onClick={() => setQuoteFormVisible(true)}
+                  disabled={quoteItems.length === 0}
+                  className={`${
+                    quoteItems.length === 0
+                      ? "bg-gray-300 text-gray-500 cursor-not-allowed hover:bg-gray-300"
+                      : "bg-cta hover:bg-cta-hover text-cta-foreground"
+                  }`}
+                >
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  {theme.ctaLabels.requestQuote ?? t("cta.requestQuote")} <span className="text-gray-700">({quoteItems.length})</span>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -938,31 +1288,44 @@ const App: React.FC = () => {
 
 
             {/* Quote Summary */}
-            {quoteItems.length > 0 && (
+            {canQuote && quoteItems.length > 0 && (
               <div className="bg-gray-50 rounded-lg p-6">
                 <h4 className="text-lg font-semibold text-gray-900 mb-4">
-                  Current Quote ({quoteItems.length} items)
+                  {t("quote.currentQuote", { count: quoteItems.length })}
                 </h4>
                 <div className="space-y-3">
                   {quoteItems.map((item) => (
                     <div
                       key={item.id}
-                      className="p-4 bg-white rounded border"
+                      className={`p-4 bg-white rounded border ${
+                        item.id === editingQuoteItemId ? "border-amber-400 ring-1 ring-amber-400" : ""
+                      }`}
                     >
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1 space-y-2">
                           {/* SKU - First line */}
                           <div className="font-mono text-sm font-semibold text-gray-900">
-                            SKU: {item.id}
+                            {t("quote.sku", { sku: item.sku })}
                           </div>
                           {/* Description - Second line */}
                           <p className="text-sm text-gray-600">
-                            {getConfigDescription(item)}
+                            {getConfigDescription(item.config)}
+                            {item.productLine.id !== currentProductLine.id && (
+                              <span className="text-gray-400"> · {item.productLine.name}</span>
+                            )}
                           </p>
+                          {item.id === editingQuoteItemId && (
+                            <Badge variant="secondary">{t("quote.editing")}</Badge>
+                          )}
+                          {item.unavailableOptions && item.unavailableOptions.length > 0 && (
+                            <p className="text-xs text-amber-700">
+                              {t("quote.unavailableOptions")}
+                            </p>
+                          )}
                           {/* Quantity - Editable */}
                           <div className="flex items-center space-x-3 pt-1">
                             <Label htmlFor={`qty-${item.id}`} className="text-xs font-medium text-gray-600">
-                              Quantity:
+                              {t("quote.quantity")}
                             </Label>
                             <div className="flex items-center space-x-2">
                               <Button
@@ -1003,15 +1366,52 @@ const App: React.FC = () => {
                               </Button>
                             </div>
                           </div>
+                          {/* Room tag and note */}
+                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pt-1">
+                            <Input
+                              aria-label={t("quote.room")}
+                              placeholder={t("quote.roomPlaceholder")}
+                              value={item.room}
+                              onChange={(e) => updateQuoteItemDetails(item.id, { room: e.target.value })}
+                              className="text-sm h-8"
+                            />
+                            <Input
+                              aria-label={t("quote.note")}
+                              placeholder={t("quote.note")}
+                              value={item.note}
+                              onChange={(e) => updateQuoteItemDetails(item.id, { note: e.target.value })}
+                              className="text-sm h-8 sm:col-span-2"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex flex-col items-end space-y-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => reopenQuoteItemLocal(item.id)}
+                            disabled={item.id === editingQuoteItemId}
+                            title={t("quote.reopen")}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => duplicateQuoteItem(item.id)}
+                            title={t("quote.duplicate")}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeFromQuoteLocal(item.id)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            title={t("quote.remove")}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeFromQuoteLocal(item.id)}
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
                       </div>
                     </div>
                   ))}
@@ -1019,22 +1419,49 @@ const App: React.FC = () => {
 
                 {/* Action buttons */}
                 <div className="flex justify-end space-x-3 mt-4 pt-4 border-t border-gray-200">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={downloadConfiguration}
-                    className="flex items-center space-x-2"
-                  >
-                    <Download className="w-4 h-4" />
-                    <span>Download Config</span>
-                  </Button>
+                  {canExportQuote && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center space-x-2"
+                        >
+                          <Download className="w-4 h-4" />
+                          <span>{t("nav.exportQuote")}</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {getQuoteExchangeFormats().map((format) => (
+                          <DropdownMenuItem
+                            key={format.id}
+                            onSelect={() => void downloadQuote(format.id)}
+                          >
+                            {format.label} (.{format.extension})
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {canPrint && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => void printQuote()}
+                      disabled={isPreparingDocument}
+                      className="flex items-center space-x-2"
+                    >
+                      <Printer className="w-4 h-4" />
+                      <span>{isPreparingDocument ? t("quote.preparing") : t("quote.print")}</span>
+                    </Button>
+                  )}
                   <Button
                     size="sm"
                     onClick={() => setQuoteFormVisible(true)}
-                    className="bg-amber-500 hover:bg-amber-600 text-white flex items-center space-x-2"
+                    className="bg-cta hover:bg-cta-hover text-cta-foreground flex items-center space-x-2"
                   >
                     <Send className="w-4 h-4" />
-                    <span>Request Quote</span>
+                    <span>{theme.ctaLabels.requestQuote ?? t("cta.requestQuote")}</span>
                   </Button>
                 </div>
               </div>
@@ -1079,7 +1506,10 @@ const App: React.FC = () => {
                   config={currentConfig}
                   productOptions={productOptions}
                   onQuantityChange={(quantity) => handleConfigChange("quantity", quantity)}
-                  onAddToQuote={addToQuoteLocal}
+                  onAddToQuote={canQuote ? addToQuoteLocal : undefined}
+                  isEditingQuoteItem={editingQuoteItemId !== null}
+                  onCancelEdit={cancelQuoteItemEditLocal}
+                  onExportSpecSheet={canPrint ? printSpecSheet : undefined}
                 />
               )}
             </div>
@@ -1090,6 +1520,7 @@ const App: React.FC = () => {
                 configurationUI={configurationUI}
                 onConfigChange={handleConfigChange}
                 onSizePresetSelect={handleSizePresetSelectLocal}
+                onCustomSizeChange={handleCustomSizeChange}
                 useCustomSize={useCustomSize}
                 setCustomSizeEnabled={setCustomSizeEnabled}
               />
@@ -1115,22 +1546,18 @@ const App: React.FC = () => {
                     className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
                   >
                     <ChevronUp className="w-4 h-4" />
-                    <span className="text-sm font-medium">View Details</span>
+                    <span className="text-sm font-medium">{t("nav.viewDetails")}</span>
                   </button>
 
                   <div className="hidden sm:flex items-center space-x-4 text-sm">
                     <span className="font-medium text-gray-900">
-                      {currentConfig.width}" × {currentConfig.height}"
+                      {formatSize(currentConfig.width, currentConfig.height, sizeUnit)}
                     </span>
                     <span className="text-gray-600">
-                      {productOptions.frameColors.find(
-                        (c) => c.id.toString() === currentConfig.frameColor
-                      )?.name}
+                      {getOptionName("frameColors", currentConfig.frameColor)}
                     </span>
                     <span className="text-gray-600">
-                      {productOptions.lightingOptions.find(
-                        (l) => l.id.toString() === currentConfig.lighting
-                      )?.name}
+                      {getOptionName("lightingOptions", currentConfig.lighting)}
                     </span>
                     {generatedSku && (
                       <>
@@ -1145,6 +1572,11 @@ const App: React.FC = () => {
 
                 {/* Right side - Quantity and Add to Quote */}
                 <div className="flex items-center space-x-4">
+                  {priceBreakdown?.isComplete && (
+                    <span className="text-sm font-semibold text-gray-900">
+                      {formatPrice(priceBreakdown.total, priceBreakdown.currency)}
+                    </span>
+                  )}
                   <div className="flex items-center space-x-2">
                     <Button
                       variant="outline"
@@ -1156,7 +1588,7 @@ const App: React.FC = () => {
                       <Minus className="w-3 h-3" />
                     </Button>
                     <span className="text-sm font-medium min-w-[3rem] text-center">
-                      Qty: {currentConfig.quantity}
+                      {t("configuration.quantity", { quantity: currentConfig.quantity })}
                     </span>
                     <Button
                       variant="outline"
@@ -1169,13 +1601,18 @@ const App: React.FC = () => {
                     </Button>
                   </div>
 
-                  <Button
-                    onClick={addToQuoteLocal}
-                    className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-2 h-10"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add to Quote
-                  </Button>
+                  {canQuote && (
+                    <Button
+                      onClick={addToQuoteLocal}
+                      disabled={isSizeInvalid}
+                      className="bg-cta hover:bg-cta-hover text-cta-foreground px-6 py-2 h-10"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      {editingQuoteItemId
+                        ? theme.ctaLabels.updateQuoteLine ?? t("cta.updateQuoteLine")
+                        : theme.ctaLabels.addToQuote ?? t("cta.addToQuote")}
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -1188,22 +1625,22 @@ const App: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white">
             <div className="p-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-6">Request Quote</h2>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{theme.ctaLabels.requestQuote ?? t("cta.requestQuote")}</h2>
 
               {quoteItems.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-gray-600 mb-6">
-                    No items in quote. Please add some configurations first.
+                    {t("quote.empty")}
                   </p>
                   <Button onClick={() => setQuoteFormVisible(false)} variant="outline">
-                    Close
+                    {t("cta.close")}
                   </Button>
                 </div>
               ) : (
                 <>
                   {/* Quote Summary */}
                   <div className="mb-8">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Quote Summary</h3>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">{t("quote.summary")}</h3>
                     <div className="space-y-3">
                       {quoteItems.map((item, index) => (
                         <div
@@ -1212,25 +1649,49 @@ const App: React.FC = () => {
                         >
                           <div>
                             <span className="font-medium text-gray-900">
-                              {getConfigDescription(item)}
+                              {getConfigDescription(item.config)}
                             </span>
                             <span className="text-gray-600 ml-2">(x{item.quantity})</span>
+                            {item.room && (
+                              <span className="text-gray-500 ml-2">· {item.room}</span>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            {item.unitPrice != null ? (
+                              <span className="text-sm font-semibold text-gray-900">
+                                {formatPrice(item.unitPrice * item.quantity)}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-gray-600">{t("quote.priceOnRequest")}</span>
+                            )}
+                            <Badge variant="secondary">{t("quote.item", { index: index + 1 })}</Badge>
                           </div>
-                          <Badge variant="secondary">Item {index + 1}</Badge>
                         </div>
                       ))}
                     </div>
+                    {quoteItems.some((item) => item.unitPrice != null) && (
+                      <div className="flex justify-between items-center mt-4 px-4">
+                        <span className="font-semibold text-gray-900">{t("quote.total")}</span>
+                        <span className="text-xl font-bold text-gray-900">
+                          {formatPrice(calculateQuoteTotal(quoteItems))}
+                        </span>
+                      </div>
+                    )}
+                    {quoteItems.some((item) => item.unitPrice != null) &&
+                      quoteItems.some((item) => item.unitPrice == null) && (
+                        <p className="text-sm text-gray-600 mt-1 px-4">{t("quote.unpricedExcluded")}</p>
+                      )}
                   </div>
 
                   <Separator className="my-8" />
 
                   {/* Customer Information */}
                   <div className="space-y-6">
-                    <h3 className="text-lg font-semibold text-gray-900">Contact Information</h3>
+                    <h3 className="text-lg font-semibold text-gray-900">{t("customer.contactTitle")}</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div className="space-y-2">
                         <Label htmlFor="customerName" className="text-gray-700">
-                          Name *
+                          {t("customer.required", { label: t("customer.name") })}
                         </Label>
                         <Input
                           id="customerName"
@@ -1244,7 +1705,7 @@ const App: React.FC = () => {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="customerEmail" className="text-gray-700">
-                          Email *
+                          {t("customer.required", { label: t("customer.email") })}
                         </Label>
                         <Input
                           id="customerEmail"
@@ -1259,7 +1720,7 @@ const App: React.FC = () => {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="customerCompany" className="text-gray-700">
-                          Company
+                          {t("customer.company")}
                         </Label>
                         <Input
                           id="customerCompany"
@@ -1272,7 +1733,7 @@ const App: React.FC = () => {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="customerPhone" className="text-gray-700">
-                          Phone
+                          {t("customer.phone")}
                         </Label>
                         <Input
                           id="customerPhone"
@@ -1288,15 +1749,15 @@ const App: React.FC = () => {
 
                   <div className="flex justify-end space-x-4 mt-8">
                     <Button variant="outline" onClick={() => setQuoteFormVisible(false)}>
-                      Cancel
+                      {t("cta.cancel")}
                     </Button>
                     <Button
                       onClick={submitQuote}
-                      disabled={!customerInfo.name || !customerInfo.email}
-                      className="bg-amber-500 hover:bg-amber-600 text-white"
+                      disabled={!customerInfo.name || !customerInfo.email || isSubmittingQuote}
+                      className="bg-cta hover:bg-cta-hover text-cta-foreground"
                     >
                       <Send className="w-4 h-4 mr-2" />
-                      Submit Quote Request
+                      {isSubmittingQuote ? t("cta.submitting") : theme.ctaLabels.submitQuote ?? t("cta.submitQuote")}
                     </Button>
                   </div>
                 </>
@@ -1306,12 +1767,23 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Printable quote / spec sheet */}
+      {printView && (
+        <PrintableDocument onClose={() => setPrintView(null)}>
+          {printView.kind === "quote" ? (
+            <QuoteDocumentView document={printView.document} />
+          ) : (
+            <SpecSheetView sheet={printView.sheet} />
+          )}
+        </PrintableDocument>
+      )}
+
       {/* Environment Indicator */}
       <EnvironmentIndicator />
 
       {/* Adjustment Notifications */}
       {/* <AdjustmentNotificationBar /> */}
-    </div>
+    </ThemeRoot>
   );
 }
 
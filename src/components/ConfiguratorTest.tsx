@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { simplifiedDirectSupabaseClient } from '../utils/supabase/directClientSimplified';
 import { createClient } from '@supabase/supabase-js';
-import { browserCache } from '../utils/cache/browserCache';
+import { clearDataCache } from '../services/data-layer';
 import { toast } from 'sonner';
 
 // Create direct supabase client for testing
@@ -29,8 +29,7 @@ export const ConfiguratorTest: React.FC = () => {
     try {
       // Clear cache to force fresh queries
       console.log('🧹 Clearing cache to force fresh queries...');
-      browserCache.clear(false); // Clear session cache
-      browserCache.clear(true);  // Clear persistent cache
+      clearDataCache();
       console.log('✅ Cache cleared successfully');
       // Test 0: Check if junction tables have any data at all
       console.log('🔍 Test 0: Checking junction table data');
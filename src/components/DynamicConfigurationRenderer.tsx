@@ -8,11 +8,15 @@
  */
 
 import React, { useMemo } from 'react';
-import { useAPIState, useConfigurationState } from '../store';
+import { useAPIState, useConfigurationState, useSizeUnit, useSizeValidation, useUIActions } from '../store';
+import { useI18n, type Translator } from '../i18n';
+import { en } from '../i18n/messages/en';
 import { OptionButton } from './OptionButton';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
-import { Input } from './ui/input';
+import { DimensionInput } from './ui/dimension-input';
+import { LENGTH_UNITS, fromInches, storeLengthUnit, type LengthUnit } from '../services/units';
+import type { SizeIssue, SizeValidation } from '../services/size-envelope';
 import { Zap, Lightbulb, RotateCcw, RotateCw } from 'lucide-react';
 
 interface ConfigUIItem {
@@ -26,6 +30,7 @@ interface DynamicConfigurationRendererProps {
   configurationUI: ConfigUIItem[];
   onConfigChange: (field: string, value: any) => void;
   onSizePresetSelect: (size: any) => void;
+  onCustomSizeChange: (width: string, height: string) => void;
   useCustomSize: boolean;
   setCustomSizeEnabled: (enabled: boolean) => void;
 }
@@ -41,6 +46,65 @@ const iconMapping: { [key: string]: any } = {
   landscape: RotateCw,
 };
 
+// Message for a size envelope issue, with lengths in the unit the customer is using
+const describeSizeIssue = (issue: SizeIssue, translator: Translator, unit: LengthUnit): string => {
+  if (issue.code === 'requirement' && issue.message) return issue.message;
+  const length = `${translator.formatNumber(fromInches(issue.limit, unit))} ${translator.t(`size.symbols.${unit}`)}`;
+  const ratio = translator.formatNumber(issue.limit, { maximumFractionDigits: 2 });
+  return translator.t(`size.issues.${issue.code}`, { length, ratio });
+};
+
+const dimensionError = (
+  validation: SizeValidation | null,
+  dimension: 'width' | 'height',
+  translator: Translator,
+  unit: LengthUnit,
+): string | null =>
+  validation?.issues
+    .filter((issue) => issue.dimension === dimension)
+    .map((issue) => describeSizeIssue(issue, translator, unit))
+    .join('. ') || null;
+
+interface SizeEnvelopeNoticeProps {
+  validation: SizeValidation | null;
+  unit: LengthUnit;
+  translator: Translator;
+  onApply: (width: string, height: string) => void;
+}
+
+// Issues about the size as a whole (aspect ratio, requirements) and the nearest valid size
+const SizeEnvelopeNotice = ({ validation, unit, translator, onApply }: SizeEnvelopeNoticeProps) => {
+  if (!validation || validation.valid) return null;
+  const { t } = translator;
+  const sizeIssues = validation.issues.filter((issue) => issue.dimension === null);
+  const { suggestion } = validation;
+  if (sizeIssues.length === 0 && !suggestion) return null;
+
+  return (
+    <div role="alert" className="space-y-2 rounded-md border border-destructive/30 bg-destructive/5 p-3 text-sm">
+      {sizeIssues.map((issue) => (
+        <p key={`${issue.code}-${issue.limit}`} className="text-destructive">
+          {describeSizeIssue(issue, translator, unit)}
+        </p>
+      ))}
+      {suggestion && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-gray-700">
+            {t('size.suggestion', { size: translator.formatSize(suggestion.width, suggestion.height, unit) })}
+          </span>
+          <button
+            type="button"
+            onClick={() => onApply(suggestion.width, suggestion.height)}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm font-medium text-gray-900 hover:bg-gray-50"
+          >
+            {t('size.useSuggestion')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Collection to product options mapping
 const COLLECTION_MAPPINGS = {
   mirror_styles: 'mirrorStyles',
@@ -137,14 +201,20 @@ const UITypeRenderers = {
     useCustomSize,
     setCustomSizeEnabled,
     onSizePresetSelect,
-    onConfigChange
+    onConfigChange,
+    sizeUnit,
+    onSizeUnitChange,
+    sizeValidation,
+    onCustomSizeChange,
+    translator,
+    t
   }: any) => (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h3 className="text-xl font-semibold text-gray-900">{title}</h3>
         <div className="flex items-center space-x-3">
           <Label htmlFor="custom-size-toggle" className="text-sm text-gray-700">
-            Custom Size
+            {t('size.customSize')}
           </Label>
           <Switch
             id="custom-size-toggle"
@@ -155,42 +225,54 @@ const UITypeRenderers = {
       </div>
 
       {useCustomSize ? (
-        // Custom size inputs
-        <div className="grid grid-cols-2 gap-6">
-          <div className="space-y-2">
-            <Label className="text-gray-700">Width (inches)</Label>
-            <div className="relative">
-              <Input
-                type="number"
-                step="0.25"
-                value={currentConfig.width}
-                onChange={(e) => onConfigChange("width", e.target.value)}
-                min="12"
-                max="120"
-                className="text-center text-lg font-medium h-12 bg-gray-50 border-gray-200"
-              />
-              <div className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">
-                in
-              </div>
-            </div>
+        // Custom size inputs, entered in the chosen unit and stored in inches
+        <div className="space-y-4">
+          <div
+            role="radiogroup"
+            aria-label={t('size.unitPicker')}
+            className="inline-flex rounded-md border border-gray-200 p-0.5"
+          >
+            {LENGTH_UNITS.map((unit) => (
+              <button
+                key={unit}
+                type="button"
+                role="radio"
+                aria-checked={sizeUnit === unit}
+                title={t(`size.units.${unit}`)}
+                onClick={() => onSizeUnitChange(unit)}
+                className={`rounded px-3 py-1 text-sm font-medium transition-colors ${
+                  sizeUnit === unit ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {t(`size.symbols.${unit}`)}
+              </button>
+            ))}
           </div>
-          <div className="space-y-2">
-            <Label className="text-gray-700">Height (inches)</Label>
-            <div className="relative">
-              <Input
-                type="number"
-                step="0.25"
-                value={currentConfig.height}
-                onChange={(e) => onConfigChange("height", e.target.value)}
-                min="12"
-                max="120"
-                className="text-center text-lg font-medium h-12 bg-gray-50 border-gray-200"
-              />
-              <div className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">
-                in
+          <div className="grid grid-cols-2 gap-6">
+            {(['width', 'height'] as const).map((dimension) => (
+              <div key={dimension} className="space-y-2">
+                <Label htmlFor={`custom-size-${dimension}`} className="text-gray-700">
+                  {t(`size.${dimension}`, { unit: t(`size.units.${sizeUnit as LengthUnit}`) })}
+                </Label>
+                <DimensionInput
+                  id={`custom-size-${dimension}`}
+                  value={currentConfig[dimension]}
+                  unit={sizeUnit}
+                  unitSymbol={t(`size.symbols.${sizeUnit as LengthUnit}`)}
+                  invalidMessage={t('size.invalid')}
+                  error={dimensionError(sizeValidation, dimension, translator, sizeUnit)}
+                  onChange={(inches) => onConfigChange(dimension, inches)}
+                  className="text-center text-lg font-medium h-12 bg-gray-50 border-gray-200"
+                />
               </div>
-            </div>
+            ))}
           </div>
+          <SizeEnvelopeNotice
+            validation={sizeValidation}
+            unit={sizeUnit}
+            translator={translator}
+            onApply={onCustomSizeChange}
+          />
         </div>
       ) : (
         // Size presets using OptionButton with size variant
@@ -217,36 +299,31 @@ const UITypeRenderers = {
 };
 
 // Helper function to get human-readable title from collection name
-const getCollectionTitle = (collection: string): string => {
-  const titleMappings = {
-    mirror_styles: 'Mirror Style',
-    frame_colors: 'Frame Color',
-    frame_thicknesses: 'Frame Thickness',
-    light_directions: 'Light Direction',
-    mounting_options: 'Orientation',
-    drivers: 'Driver Options',
-    color_temperatures: 'Color Temperature',
-    light_outputs: 'Light Output',
-    sizes: 'Size',
-    accessories: 'Accessories',
-    hanging_techniques: 'Hanging Technique',
-  };
-  
-  return titleMappings[collection as keyof typeof titleMappings] || 
-         collection.split('_').map(word => 
-           word.charAt(0).toUpperCase() + word.slice(1)
-         ).join(' ');
+const getCollectionTitle = (collection: string, t: Translator['t']): string => {
+  if (collection in en.collections) {
+    return t(`collections.${collection as keyof typeof en.collections}`);
+  }
+
+  return collection.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
 };
 
 export const DynamicConfigurationRenderer: React.FC<DynamicConfigurationRendererProps> = ({
   configurationUI,
   onConfigChange,
   onSizePresetSelect,
+  onCustomSizeChange,
   useCustomSize,
   setCustomSizeEnabled
 }) => {
   const { productOptions } = useAPIState();
   const { currentConfig } = useConfigurationState();
+  const translator = useI18n();
+  const { t, localizeOption } = translator;
+  const sizeUnit = useSizeUnit();
+  const sizeValidation = useSizeValidation();
+  const { setSizeUnit } = useUIActions();
 
   // Sort configuration UI by sort order from database
   const sortedConfigUI = useMemo(() => {
@@ -290,14 +367,14 @@ export const DynamicConfigurationRenderer: React.FC<DynamicConfigurationRenderer
         const configField = CONFIG_FIELD_MAPPINGS[collection as keyof typeof CONFIG_FIELD_MAPPINGS];
         
         // Get human-readable title
-        const title = getCollectionTitle(collection);
+        const title = getCollectionTitle(collection, t);
 
         // Render the UI component
         return (
           <div key={configItem.id}>
             <UIRenderer
               collection={productOptionsKey}
-              options={options}
+              options={options.map((option) => localizeOption(productOptionsKey, option))}
               currentConfig={currentConfig}
               onSelect={(id: number) => {
                 if (configField) {
@@ -309,6 +386,15 @@ export const DynamicConfigurationRenderer: React.FC<DynamicConfigurationRenderer
               setCustomSizeEnabled={setCustomSizeEnabled}
               onSizePresetSelect={onSizePresetSelect}
               onConfigChange={onConfigChange}
+              onCustomSizeChange={onCustomSizeChange}
+              sizeUnit={sizeUnit}
+              sizeValidation={sizeValidation}
+              translator={translator}
+              onSizeUnitChange={(unit: LengthUnit) => {
+                storeLengthUnit(unit);
+                setSizeUnit(unit);
+              }}
+              t={t}
               columns={collection === 'mirror_styles' ? 2 : 1}
             />
           </div>
@@ -3,6 +3,8 @@ import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Plus, Minus, Eye } from 'lucide-react';
+import { usePriceBreakdown } from '../store';
+import { useI18n } from '../i18n';
 
 interface FloatingConfigBarProps {
   show: boolean;
@@ -13,6 +15,8 @@ interface FloatingConfigBarProps {
 export function FloatingConfigBar({ show, configuration, onAddToQuote }: FloatingConfigBarProps) {
   const [quantity, setQuantity] = useState(1);
   const [showDetails, setShowDetails] = useState(false);
+  const priceBreakdown = usePriceBreakdown();
+  const { formatPrice } = useI18n();
 
   if (!show) return null;
 
@@ -67,6 +71,11 @@ export function FloatingConfigBar({ show, configuration, onAddToQuote }: Floatin
             </div>
 
             <div className="flex items-center space-x-4">
+              {priceBreakdown?.isComplete && (
+                <span className="text-sm font-semibold text-gray-900">
+                  {formatPrice(priceBreakdown.unitPrice * quantity, priceBreakdown.currency)}
+                </span>
+              )}
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-600">Qty:</span>
                 <div className="flex items-center border border-gray-300 rounded">
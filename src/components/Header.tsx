@@ -3,6 +3,8 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Switch } from './ui/switch';
+import { ThemeBrand } from './ThemeRoot';
+import { useTheme } from '../store';
 import { ShoppingCart, BarChart3 } from 'lucide-react';
 
 interface ProductLine {
@@ -48,6 +50,7 @@ export function Header({
 }: HeaderProps) {
   // Use only dynamic product lines from database - no fallback data
   const displayProductLines = productLines;
+  const theme = useTheme();
 
   return (
     <header className="sticky top-0 left-0 right-0 z-50 bg-white border-b border-gray-200 shadow-sm">
@@ -67,7 +70,7 @@ export function Header({
                 ? '🚀 Dynamic Configurator V2'
                 : currentPage === 'dynamic-v3'
                   ? '⚡ Dynamic Configurator V3'
-                  : 'Product Configurator'}
+                  : <ThemeBrand theme={theme} />}
             </h1>
           </div>
 
@@ -112,7 +115,7 @@ export function Header({
                             </span>
                           )}
                           {option.count > 0 && (
-                            <span className="text-xs text-[#F59E0B] mt-1">{option.count} SKUs available</span>
+                            <span className="text-xs text-cta mt-1">{option.count} SKUs available</span>
                           )}
                         </div>
                       </SelectItem>
@@ -166,7 +169,7 @@ export function Header({
             <ShoppingCart className="w-4 h-4 mr-2" />
             Quote
             {quoteItems.length > 0 && (
-              <Badge className="fixed -top-2 -right-2 bg-[#F59E0B] text-white min-w-5 h-5 flex items-center justify-center text-xs">
+              <Badge className="fixed -top-2 -right-2 bg-cta text-cta-foreground min-w-5 h-5 flex items-center justify-center text-xs">
                 {quoteItems.length}
               </Badge>
             )}
@@ -5,10 +5,20 @@
  * State is driven entirely by API data, no hard-coded logic
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Badge } from './ui/badge';
-import { Check } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Check, Info } from 'lucide-react';
 import { useOptionState } from '../hooks/useOptionState';
+import { useCurrentConfig, useCurrentProductLine, useProductOptions } from '../store';
+import { useI18n } from '../i18n';
+import {
+  formatDisabledReason,
+  formatEnablingChange,
+  loadEnablingChanges,
+  type EnablingChange,
+} from '../services/option-explainer';
+import type { DisabledReason } from '../store/types';
 
 interface OptionButtonProps {
   // Option data (from API)
@@ -41,7 +51,8 @@ export const OptionButton: React.FC<OptionButtonProps> = ({
   icon
 }) => {
   const optionManager = useOptionState(currentSelection);
-  const { isDisabled, isSelected } = optionManager.getOptionState(collection, option.id);
+  const { isDisabled, isSelected, reasons, disabledKey, productCount } = optionManager.getOptionState(collection, option.id);
+  const { t } = useI18n();
 
   const handleClick = () => {
     if (!isDisabled) {
@@ -65,75 +76,163 @@ export const OptionButton: React.FC<OptionButtonProps> = ({
   const nameClasses = `font-medium mb-1 ${textClasses}`;
 
   return (
-    <button
-      onClick={handleClick}
-      disabled={isDisabled}
-      className={baseClasses}
-    >
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-3 flex-1">
+    <div className="relative">
+      <button
+        onClick={handleClick}
+        disabled={isDisabled}
+        className={baseClasses}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 flex-1">
           
-          {/* Color indicator for color options */}
-          {variant === 'color' && option.hex_code && (
-            <div
-              className="w-6 h-6 rounded-full border border-gray-300 flex-shrink-0"
-              style={{
-                backgroundColor: option.hex_code,
-                borderColor: option.hex_code === "#FFFFFF" ? "#e5e5e5" : option.hex_code
-              }}
-            />
-          )}
+            {/* Color indicator for color options */}
+            {variant === 'color' && option.hex_code && (
+              <div
+                className="w-6 h-6 rounded-full border border-gray-300 flex-shrink-0"
+                style={{
+                  backgroundColor: option.hex_code,
+                  borderColor: option.hex_code === "#FFFFFF" ? "#e5e5e5" : option.hex_code
+                }}
+              />
+            )}
           
-          {/* Icon for other option types */}
-          {icon && variant !== 'color' && (
-            <div className={`w-5 h-5 flex-shrink-0 ${isDisabled ? 'text-gray-400' : 'text-gray-600'}`}>
-              {icon}
-            </div>
-          )}
+            {/* Icon for other option types */}
+            {icon && variant !== 'color' && (
+              <div className={`w-5 h-5 flex-shrink-0 ${isDisabled ? 'text-gray-400' : 'text-gray-600'}`}>
+                {icon}
+              </div>
+            )}
           
-          {/* Option content */}
-          <div className="flex-1">
-            <div className={nameClasses}>
-              {option.name}
-              {isDisabled && <span className="text-xs ml-2">(Not available)</span>}
-            </div>
+            {/* Option content */}
+            <div className="flex-1">
+              <div className={nameClasses}>
+                {option.name}
+                {isDisabled && <span className="text-xs ml-2">(Not available)</span>}
+              </div>
             
-            {/* Description or size info */}
-            {option.description && (
-              <div className="text-sm text-gray-600">{option.description}</div>
-            )}
+              {/* Description or size info */}
+              {option.description && (
+                <div className="text-sm text-gray-600">{option.description}</div>
+              )}
             
-            {/* Size dimensions */}
-            {variant === 'size' && option.width && option.height && (
-              <div className="text-sm text-gray-600">{option.width}" × {option.height}"</div>
-            )}
+              {/* Size dimensions */}
+              {variant === 'size' && option.width && option.height && (
+                <div className="text-sm text-gray-600">{option.width}" × {option.height}"</div>
+              )}
             
-            {/* SKU for non-size options */}
-            {variant !== 'size' && !option.description && (
-              <div className="text-sm text-gray-600">{option.sku_code}</div>
-            )}
+              {/* SKU for non-size options */}
+              {variant !== 'size' && !option.description && (
+                <div className="text-sm text-gray-600">{option.sku_code}</div>
+              )}
+
+              {/* Products offering this option under the current selections */}
+              {!isDisabled && productCount !== null && (
+                <div className="text-xs text-gray-500 mt-1">{t('option.productCount', { count: productCount })}</div>
+              )}
+            </div>
           </div>
-        </div>
         
-        {/* SKU Badge */}
-        <Badge variant="outline" className={variant === 'accessory' ? 'mr-3' : ''}>
-          {option.sku_code}
-        </Badge>
+          {/* SKU Badge */}
+          <Badge variant="outline" className={variant === 'accessory' ? 'mr-3' : ''}>
+            {option.sku_code}
+          </Badge>
         
-        {/* Checkbox for multi-select options (accessories) */}
-        {variant === 'accessory' && (
-          <div
-            className={`w-5 h-5 rounded-full flex items-center justify-center transition-colors ml-3 ${
-              isSelected
-                ? "bg-amber-500 text-white"
-                : "border-2 border-gray-300"
-            }`}
-          >
-            {isSelected && <Check className="w-3 h-3" />}
-          </div>
-        )}
-      </div>
-    </button>
+          {/* Checkbox for multi-select options (accessories) */}
+          {variant === 'accessory' && (
+            <div
+              className={`w-5 h-5 rounded-full flex items-center justify-center transition-colors ml-3 ${
+                isSelected
+                  ? "bg-cta text-cta-foreground"
+                  : "border-2 border-gray-300"
+              }`}
+            >
+              {isSelected && <Check className="w-3 h-3" />}
+            </div>
+          )}
+        </div>
+      </button>
+
+      {/* Disabled buttons swallow clicks, so the explanation lives in a sibling trigger */}
+      {isDisabled && disabledKey && (
+        <DisabledReasonPopover
+          optionName={option.name}
+          optionId={option.id}
+          disabledKey={disabledKey}
+          reasons={reasons}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * "Why is this unavailable?" popover: recorded reasons plus single-change hints,
+ * computed on first open
+ */
+const DisabledReasonPopover: React.FC<{
+  optionName: string;
+  optionId: number;
+  disabledKey: string;
+  reasons: DisabledReason[];
+}> = ({ optionName, optionId, disabledKey, reasons }) => {
+  const productOptions = useProductOptions();
+  const currentConfig = useCurrentConfig();
+  const currentProductLine = useCurrentProductLine();
+  const translator = useI18n();
+  const { t } = translator;
+  const [changes, setChanges] = useState<EnablingChange[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || changes !== null) return;
+    if (!currentConfig || !currentProductLine || !productOptions) {
+      setChanges([]);
+      return;
+    }
+    setChanges(
+      await loadEnablingChanges(currentProductLine.id, currentConfig, productOptions, disabledKey, optionId)
+    );
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={t('option.whyUnavailable', { option: optionName })}
+          className="absolute top-2 right-2 p-1 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+        >
+          <Info className="w-4 h-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="text-sm space-y-3">
+        <div>
+          <div className="font-medium text-gray-900 mb-1">{t('option.unavailableTitle')}</div>
+          {reasons.length > 0 ? (
+            <ul className="list-disc pl-4 text-gray-600 space-y-1">
+              {reasons.map((reason, index) => (
+                <li key={index}>{formatDisabledReason(reason, productOptions, translator)}</li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-gray-600">{t('option.noReason')}</div>
+          )}
+        </div>
+        <div>
+          <div className="font-medium text-gray-900 mb-1">{t('option.toEnable')}</div>
+          {changes === null ? (
+            <div className="text-gray-500">{t('option.checkingAlternatives')}</div>
+          ) : changes.length > 0 ? (
+            <ul className="list-disc pl-4 text-gray-600 space-y-1">
+              {changes.map((change) => (
+                <li key={change.field}>{formatEnablingChange(change, productOptions, translator)}</li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-gray-600">{t('option.noEnablingChange')}</div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
   );
 };
 
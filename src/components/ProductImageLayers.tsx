@@ -1,17 +1,12 @@
 import React, { useEffect, useState } from "react";
+import {
+  evaluateImageRule as evaluateRule,
+  type ConfigImageRule,
+  type ConfigurationImage,
+} from "../services/image-layers";
+import { getComputeService } from "../services/compute-service";
 
-// Types for configuration_images and rules
-export interface ConfigImageRule {
-  [key: string]: any;
-}
-
-export interface ConfigurationImage {
-  id: string;
-  name: string;
-  image: string; // Supabase storage file ID (directus_files table)
-  z_index: number | string; // API returns as string, convert to number during processing
-  image_rules: ConfigImageRule;
-}
+export type { ConfigImageRule, ConfigurationImage };
 
 interface ProductImageLayersProps {
   config: Record<string, any>; // Current product config, e.g. { frameThickness: ..., mounting: ... }
@@ -19,191 +14,6 @@ interface ProductImageLayersProps {
   fetchSvg: (fileId: string) => Promise<string>; // Helper to fetch SVG markup by file ID
 }
 
-// --- Rules Evaluator ---
-function evaluateRule(rule: ConfigImageRule, config: Record<string, any>): boolean {
-  try {
-    // If no rule or empty rule object, always show the layer
-    if (!rule || Object.keys(rule).length === 0) {
-      return true;
-    }
-    
-    if (typeof rule !== "object") {
-      console.error('Rule is not an object, returning false');
-      return false;
-    }
-    
-    // Create a normalized config object with standardized field names
-    const normalizedConfig: Record<string, any> = {
-      // Handle product_line mapping - use productLineId if available
-      product_lines: config.productLineId || config.productLine?.id || config.product_lines || null,
-      // Convert string values to their appropriate types - ensure they're numbers
-      frame_thicknesses: parseInt(config.frameThickness) || config.frame_thicknesses || null,
-      mounting_options: parseInt(config.mounting) || config.mounting_options || null,
-      light_directions: parseInt(config.lighting) || config.light_directions || null, // Map lighting to light_directions
-      mirror_styles: parseInt(config.mirrorStyle) || config.mirror_styles || null,
-      mirror_controls: parseInt(config.mirrorControls) || parseInt(config.mirrorControl) || config.mirror_controls || null,
-      // Add missing field mappings
-      frame_colors: parseInt(config.frameColor) || config.frame_colors || null,
-      color_temperatures: parseInt(config.colorTemperature) || config.color_temperatures || null,
-      light_outputs: parseInt(config.lightOutput) || config.light_outputs || null,
-      drivers: parseInt(config.driver) || config.drivers || null,
-      sizes: parseInt(config.size) || config.sizes || null,
-      accessories: config.accessories || []
-    };
-
-    // Handle NaN values (parseInt returns NaN for invalid strings)
-    Object.keys(normalizedConfig).forEach(key => {
-      if (typeof normalizedConfig[key] === 'number' && isNaN(normalizedConfig[key])) {
-        normalizedConfig[key] = null;
-      }
-    });
-    
-    // Use normalized config with numeric IDs for rule evaluation
-    // Don't override with name mappings as rules expect numeric comparisons
-    const enhancedConfig = { ...config, ...normalizedConfig };
-    
-    // Debug logging for rule evaluation
-    console.log('Original config:', config);
-    console.log('Normalized config for rule evaluation (using numeric IDs):', normalizedConfig);
-    console.log('Enhanced config for rule evaluation:', enhancedConfig);
-    
-    if (rule._and) {
-      const results = rule._and.map((r: any) => evaluateRule(r, enhancedConfig));
-      return results.every(Boolean);
-    }
-    
-    if (rule._or) {
-      const results = rule._or.map((r: any) => evaluateRule(r, enhancedConfig));
-      return results.some(Boolean);
-    }
-    
-    // Field comparison (e.g., { frame_thicknesses: { name: { _contains: "Thin" } } })
-    for (const field in rule) {
-      if (field.startsWith("_")) continue;
-      
-      // Try different case formats for field names
-      const camelCaseField = toCamelCase(field);
-      const snakeCaseField = toSnakeCase(field);
-      
-      // Use the normalized config which has numeric IDs for proper rule evaluation
-      let value = normalizedConfig[field];
-      
-      // If not found in normalized config, check enhanced config
-      if (value === undefined) {
-        value = enhancedConfig[field];
-      }
-      
-      // If still not found, try case variations
-      if (value === undefined) {
-        value = enhancedConfig[camelCaseField] || enhancedConfig[snakeCaseField];
-      }
-      
-      // Handle expanded relation fields from Supabase (directus_files relation)
-      if (typeof value === 'object' && value !== null) {
-        // Always use the id property for rule evaluation, not name
-        if ('id' in value) {
-          value = value.id;
-        }
-      }
-      
-      const condition = rule[field];
-      
-      console.log(`Evaluating field "${field}": value=${value} (type: ${typeof value}), condition=`, condition);
-      const fieldResult = evaluateFieldCondition(value, condition);
-      console.log(`Field "${field}" result: ${fieldResult}`);
-      
-      if (!fieldResult) {
-        return false;
-      }
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Error evaluating rule:', error);
-    return false;
-  }
-}
-
-// Helper functions for case conversion
-function toCamelCase(s: string): string {
-  return s.replace(/(_[a-z])/g, (g) => g[1].toUpperCase());
-}
-
-function toSnakeCase(s: string): string {
-  return s.replace(/[A-Z]/g, (g) => "_" + g.toLowerCase());
-}
-
-function evaluateFieldCondition(value: any, condition: any): boolean {
-  try {
-    // Special case for undefined/null values
-    if (value === undefined || value === null) {
-      return false;
-    }
-    
-    // Equal comparison with type coercion for numeric strings
-    if (condition._eq !== undefined) {
-      // Handle object values (get the id property if available)
-      let actualValue = value;
-      if (typeof value === 'object' && value !== null && 'id' in value) {
-        actualValue = value.id;
-      }
-      
-      // Use loose equality to handle string/number comparisons
-      return actualValue == condition._eq;
-    }
-    
-    if (condition._in !== undefined && Array.isArray(condition._in)) {
-      // Handle both direct value and object.id for array inclusion
-      let actualValue = value;
-      if (typeof value === 'object' && value !== null && 'id' in value) {
-        actualValue = value.id;
-      }
-      
-      // Convert all values to strings for comparison to handle number/string mismatches
-      const stringValues = condition._in.map((v: any) => String(v));
-      return stringValues.includes(String(actualValue));
-    }
-    
-    if (condition._contains !== undefined && value) {
-      // Handle array of objects for contains check
-      if (Array.isArray(value)) {
-        return value.some(item => {
-          const itemValue = typeof item === 'object' && item !== null && 'name' in item ? item.name : item;
-          const valueStr = String(itemValue).toLowerCase();
-          const conditionStr = String(condition._contains).toLowerCase();
-          return valueStr.includes(conditionStr);
-        });
-      }
-      
-      // Handle object with name property for contains check
-      if (typeof value === 'object' && value !== null && 'name' in value) {
-        const valueStr = String(value.name).toLowerCase();
-        const conditionStr = String(condition._contains).toLowerCase();
-        return valueStr.includes(conditionStr);
-      }
-      
-      // Default string contains check
-      const valueStr = String(value).toLowerCase();
-      const conditionStr = String(condition._contains).toLowerCase();
-      return valueStr.includes(conditionStr);
-    }
-    
-    // Nested (e.g., name: { _contains: ... })
-    for (const key in condition) {
-      if (typeof condition[key] === "object") {
-        if (!evaluateFieldCondition(value?.[key], condition[key])) {
-          return false;
-        }
-      }
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Error in field condition evaluation:', error);
-    return false;
-  }
-}
-
 // Enhanced debug function to investigate specific configuration images
 function debugConfigurationImages(config: any, configurationImages: ConfigurationImage[] | undefined) {
   if (!configurationImages || !Array.isArray(configurationImages)) {
@@ -557,65 +367,10 @@ export const ProductImageLayers: React.FC<ProductImageLayersProps> = ({
 
         console.log(`🖼️ Processing ${configurationImages.length} configuration images with config:`, config);
         
-        // Filter layers based on rules
-        const visibleLayers = configurationImages.filter(layer => {
-          try {
-            if (!layer || typeof layer !== 'object') {
-              console.error('Invalid layer object:', layer);
-              return false;
-            }
-            
-            if (!layer.image_rules) {
-              console.warn(`Layer ${layer.id || 'unknown'} has no image_rules, defaulting to visible`);
-              return true;
-            }
-            
-            // Parse image_rules if it's a string (GraphQL might return JSON as string)
-            let parsedRules = layer.image_rules;
-            if (typeof layer.image_rules === 'string') {
-              try {
-                parsedRules = JSON.parse(layer.image_rules);
-                console.log(`Parsed string rules for layer ${layer.id}:`, parsedRules);
-              } catch (parseError) {
-                console.error(`Failed to parse image_rules for layer ${layer.id}:`, parseError);
-                return false;
-              }
-            }
-            
-            console.log(`Evaluating rules for layer ${layer.id} (${layer.name}):`, parsedRules, 'with config:', config);
-            const isVisible = evaluateRule(parsedRules, config);
-            console.log(`Layer "${layer.name || 'unnamed'}" (${layer.id || 'unknown'}) visibility: ${isVisible}`);
-            return isVisible;
-          } catch (error) {
-            console.error(`Error evaluating rules for layer:`, layer, error);
-            return false;
-          }
-        });
-        
-        // Sort by z-index, with secondary sort for frost layers to ensure consistent stacking
-        const sortedLayers = [...visibleLayers].sort((a, b) => {
-          const zIndexA = typeof a.z_index === 'string' ? parseInt(a.z_index) : (a.z_index || 0);
-          const zIndexB = typeof b.z_index === 'string' ? parseInt(b.z_index) : (b.z_index || 0);
-
-          // Primary sort by z-index
-          if (zIndexA !== zIndexB) {
-            return zIndexA - zIndexB;
-          }
-
-          // Secondary sort for layers with same z-index: frost layers in specific order
-          const isFrostA = a.name && a.name.toLowerCase().includes('frost');
-          const isFrostB = b.name && b.name.toLowerCase().includes('frost');
-
-          if (isFrostA && isFrostB) {
-            // Ensure frost layers render in a consistent order: Bottom, Left, Top, Right
-            const frostOrder = ['bottom', 'left', 'top', 'right'];
-            const orderA = frostOrder.findIndex(dir => a.name.toLowerCase().includes(dir));
-            const orderB = frostOrder.findIndex(dir => b.name.toLowerCase().includes(dir));
-            return orderA - orderB;
-          }
-
-          return 0;
-        });
+        // Visibility and stacking are computed off the main thread (see image-layers)
+        const visible = await getComputeService().request('layers', { config, images: configurationImages });
+        if (!isMounted) return;
+        const sortedLayers = visible.map((position) => configurationImages[position]);
         
         console.log(`${sortedLayers.length} layers sorted by z-index`);
         
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { ProductImageLayers, type ConfigurationImage } from './ProductImageLayers';
+import { useI18n } from '../i18n';
+import type { QuoteDocument, QuoteDocumentOption, SpecSheet } from '../services/quote-document';
+import type { ProductConfig } from '../store/types';
+
+// When configuration images are available, documents show the layered render instead
+// of the product photo
+export interface DocumentImageLayers {
+  configurationImages: ConfigurationImage[];
+  fetchSvg: (fileId: string) => Promise<string>;
+}
+
+// Longest we wait for document images before opening the print dialog anyway
+const IMAGE_LOAD_TIMEOUT_MS = 5000;
+
+const formatDate = (value: string | null, locale: string) =>
+  value ? new Date(value).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' }) : '';
+
+function waitForImages(container: HTMLElement) {
+  const pending = Array.from(container.querySelectorAll('img'))
+    .filter((image) => !image.complete)
+    .map(
+      (image) =>
+        new Promise<void>((resolve) => {
+          image.addEventListener('load', () => resolve(), { once: true });
+          image.addEventListener('error', () => resolve(), { once: true });
+        })
+    );
+  const timeout = new Promise<void>((resolve) => setTimeout(resolve, IMAGE_LOAD_TIMEOUT_MS));
+  return Promise.race([Promise.all(pending).then(() => undefined), timeout]);
+}
+
+interface PrintableDocumentProps {
+  children: React.ReactNode;
+  onClose: () => void;
+}
+
+/**
+ * Renders a document outside the app root and opens the print dialog for it. The
+ * print stylesheet (styles/globals.css) hides everything else, so "Save as PDF"
+ * produces just the document. onClose fires once the dialog is dismissed.
+ */
+export function PrintableDocument({ children, onClose }: PrintableDocumentProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    let cancelled = false;
+    const handleAfterPrint = () => onCloseRef.current();
+    window.addEventListener('afterprint', handleAfterPrint);
+
+    if (containerRef.current) {
+      waitForImages(containerRef.current).then(() => {
+        if (!cancelled) window.print();
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
+  return createPortal(
+    <div ref={containerRef} className="print-document bg-white text-gray-900">
+      {children}
+    </div>,
+    document.body
+  );
+}
+
+function DocumentImage({
+  config,
+  imageUrl,
+  alt,
+  layers,
+  className,
+}: {
+  config: ProductConfig;
+  imageUrl: string | null;
+  alt: string;
+  layers?: DocumentImageLayers;
+  className: string;
+}) {
+  if (layers && layers.configurationImages.length > 0) {
+    return (
+      <div className={`relative ${className}`}>
+        <ProductImageLayers
+          config={config}
+          configurationImages={layers.configurationImages}
+          fetchSvg={layers.fetchSvg}
+        />
+      </div>
+    );
+  }
+
+  if (!imageUrl) {
+    return <div className={`bg-gray-100 ${className}`} />;
+  }
+
+  return <img src={imageUrl} alt={alt} className={`object-contain ${className}`} />;
+}
+
+function OptionList({ options }: { options: QuoteDocumentOption[] }) {
+  return (
+    <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+      {options.map((option) => (
+        <div key={option.label} className="flex justify-between border-b border-gray-100 py-0.5">
+          <dt className="text-gray-500">{option.label}</dt>
+          <dd className="font-medium text-right">
+            {option.name}
+            {option.skuCode && <span className="ml-2 font-mono text-gray-500">{option.skuCode}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface QuoteDocumentViewProps {
+  document: QuoteDocument;
+  layers?: DocumentImageLayers;
+}
+
+export function QuoteDocumentView({ document: quote, layers }: QuoteDocumentViewProps) {
+  const { customer } = quote;
+  const { t, locale, formatPrice } = useI18n();
+
+  return (
+    <article className="mx-auto max-w-3xl p-8 text-sm">
+      <header className="flex items-start justify-between border-b border-gray-300 pb-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{t('document.quote')}</h1>
+          <p className="text-gray-600">{quote.quoteNumber ?? t('document.draft')}</p>
+        </div>
+        <div className="text-right text-gray-600">
+          <p>{t('document.issued', { date: formatDate(quote.issuedAt, locale) })}</p>
+          {quote.validUntil && <p>{t('document.validUntil', { date: formatDate(quote.validUntil, locale) })}</p>}
+        </div>
+      </header>
+
+      <section className="border-b border-gray-300 py-4">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('document.preparedFor')}</h2>
+        <p className="font-medium">{customer.name || '—'}</p>
+        {customer.company && <p>{customer.company}</p>}
+        {customer.email && <p>{customer.email}</p>}
+        {customer.phone && <p>{customer.phone}</p>}
+      </section>
+
+      <section>
+        {quote.lines.map((line, index) => (
+          <div key={line.id} className="flex gap-4 border-b border-gray-200 py-4 break-inside-avoid">
+            <DocumentImage
+              config={line.config}
+              imageUrl={line.imageUrl}
+              alt={line.productName}
+              layers={layers}
+              className="h-28 w-28 shrink-0"
+            />
+            <div className="flex-1 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold">
+                    {index + 1}. {line.productName}
+                  </h3>
+                  <p className="font-mono text-xs text-gray-600">{line.sku}</p>
+                  <p className="text-gray-600">{line.description}</p>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p>
+                    {line.quantity} × {line.unitPrice !== null ? formatPrice(line.unitPrice) : t('quote.priceOnRequest')}
+                  </p>
+                  {line.lineTotal !== null && <p className="font-semibold">{formatPrice(line.lineTotal)}</p>}
+                </div>
+              </div>
+              <OptionList options={line.options} />
+              {(line.room || line.note) && (
+                <p className="text-xs text-gray-600">
+                  {line.room && <span className="font-medium">{line.room}</span>}
+                  {line.room && line.note && ' — '}
+                  {line.note}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="flex justify-end py-4">
+        <div className="text-right">
+          <p className="text-lg font-bold">{t('document.total', { amount: formatPrice(quote.total) })}</p>
+          {quote.hasUnpricedLines && (
+            <p className="text-xs text-gray-600">{t('document.excludesUnpriced')}</p>
+          )}
+        </div>
+      </section>
+
+      <footer className="border-t border-gray-300 pt-4 text-xs text-gray-600 break-inside-avoid">
+        <h2 className="mb-1 font-semibold uppercase tracking-wide text-gray-500">{t('document.terms')}</h2>
+        <ul className="list-disc space-y-0.5 pl-4">
+          {quote.validUntil && <li>{t('document.pricingValidUntil', { date: formatDate(quote.validUntil, locale) })}</li>}
+          {quote.terms.map((term) => (
+            <li key={term}>{term}</li>
+          ))}
+        </ul>
+      </footer>
+    </article>
+  );
+}
+
+interface SpecSheetViewProps {
+  sheet: SpecSheet;
+  layers?: DocumentImageLayers;
+}
+
+export function SpecSheetView({ sheet, layers }: SpecSheetViewProps) {
+  const { t, locale } = useI18n();
+
+  return (
+    <article className="mx-auto max-w-3xl p-8 text-sm">
+      <header className="border-b border-gray-300 pb-4">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('document.specSheet')}</p>
+        <h1 className="text-2xl font-bold tracking-tight">{sheet.productName}</h1>
+        <p className="font-mono text-gray-600">{sheet.sku}</p>
+      </header>
+
+      <section className="grid grid-cols-2 gap-8 py-6">
+        <DocumentImage
+          config={sheet.config}
+          imageUrl={sheet.imageUrl}
+          alt={sheet.productName}
+          layers={layers}
+          className="aspect-square w-full"
+        />
+        <div className="space-y-4">
+          <p className="text-gray-600">{sheet.description}</p>
+          <OptionList options={sheet.options} />
+        </div>
+      </section>
+
+      <footer className="flex items-end justify-between border-t border-gray-300 pt-4 text-xs">
+        <div className="space-y-1">
+          {sheet.specSheetUrl && (
+            <p>
+              {t('document.productSpecSheet')} <a href={sheet.specSheetUrl} className="underline">{sheet.specSheetUrl}</a>
+            </p>
+          )}
+          {sheet.revitUrl && (
+            <p>
+              {t('document.revitFamily')} <a href={sheet.revitUrl} className="underline">{sheet.revitUrl}</a>
+            </p>
+          )}
+        </div>
+        <p className="text-gray-500">{t('document.generated', { date: formatDate(sheet.issuedAt, locale) })}</p>
+      </footer>
+    </article>
+  );
+}
@@ -6,6 +6,8 @@ import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Card } from './ui/card';
 import { X, Send } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { useSizeUnit, useTheme } from '../store';
 
 interface QuoteModalProps {
   quoteItems: any[];
@@ -15,6 +17,9 @@ interface QuoteModalProps {
 }
 
 export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }: QuoteModalProps) {
+  const { t, formatPrice, formatSize } = useI18n();
+  const { ctaLabels } = useTheme();
+  const sizeUnit = useSizeUnit();
   const [customerInfo, setCustomerInfo] = useState({
     firstName: '',
     lastName: '',
@@ -36,17 +41,19 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
 
   const totalValue = quoteItems.reduce((sum, item) => sum + item.price, 0);
 
+  const titleCase = (value: string) => value.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-bold text-gray-900">Request Quote</DialogTitle>
+          <DialogTitle className="text-2xl font-bold text-gray-900">{ctaLabels.requestQuote ?? t('cta.requestQuote')}</DialogTitle>
         </DialogHeader>
 
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Quote Items */}
           <div>
-            <h3 className="font-semibold text-gray-900 mb-4">Quote Items ({quoteItems.length})</h3>
+            <h3 className="font-semibold text-gray-900 mb-4">{t('quote.items', { count: quoteItems.length })}</h3>
             <div className="space-y-4 mb-6">
               {quoteItems.map((item) => (
                 <Card key={item.id} className="p-4">
@@ -54,25 +61,37 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
                     <h4 className="font-medium text-gray-900">
                       {item.product.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                     </h4>
-                    <span className="font-semibold text-gray-900">${item.price}</span>
+                    <span className="font-semibold text-gray-900">{formatPrice(item.price)}</span>
                   </div>
                   <div className="text-sm text-gray-600 space-y-1">
-                    <p>Size: {item.configuration.useCustomSize 
-                      ? `${item.configuration.customWidth || 'N/A'}" × ${item.configuration.customHeight || 'N/A'}"`
-                      : (item.configuration.size || 'Not specified')
-                    }</p>
-                    <p>Frame Color: {item.configuration.frameColor 
-                      ? item.configuration.frameColor.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Not specified'}</p>
-                    <p>Light Output: {item.configuration.lightOutput 
-                      ? item.configuration.lightOutput.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Not specified'}</p>
-                    <p>Color Temperature: {item.configuration.colorTemperature 
-                      ? item.configuration.colorTemperature.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Not specified'}</p>
-                    <p>Mounting: {item.configuration.mounting 
-                      ? item.configuration.mounting.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Not specified'}</p>
+                    <p>{t('quote.detail', {
+                      label: t('collections.sizes'),
+                      value: item.configuration.useCustomSize
+                        ? formatSize(
+                            item.configuration.customWidth || t('configuration.notAvailable'),
+                            item.configuration.customHeight || t('configuration.notAvailable'),
+                            sizeUnit
+                          )
+                        : (item.configuration.size || t('quote.notSpecified')),
+                    })}</p>
+                    <p>{t('quote.detail', {
+                      label: t('collections.frame_colors'),
+                      value: item.configuration.frameColor ? titleCase(item.configuration.frameColor) : t('quote.notSpecified'),
+                    })}</p>
+                    <p>{t('quote.detail', {
+                      label: t('collections.light_outputs'),
+                      value: item.configuration.lightOutput ? titleCase(item.configuration.lightOutput) : t('quote.notSpecified'),
+                    })}</p>
+                    <p>{t('quote.detail', {
+                      label: t('collections.color_temperatures'),
+                      value: item.configuration.colorTemperature
+                        ? titleCase(item.configuration.colorTemperature)
+                        : t('quote.notSpecified'),
+                    })}</p>
+                    <p>{t('quote.detail', {
+                      label: t('configuration.mounting'),
+                      value: item.configuration.mounting ? titleCase(item.configuration.mounting) : t('quote.notSpecified'),
+                    })}</p>
                   </div>
                 </Card>
               ))}
@@ -80,22 +99,22 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
             
             <Card className="p-4 bg-gray-50">
               <div className="flex justify-between items-center">
-                <span className="font-semibold text-gray-900">Total Estimated Value:</span>
-                <span className="text-xl font-bold text-gray-900">${totalValue.toLocaleString()}</span>
+                <span className="font-semibold text-gray-900">{t('quote.total')}</span>
+                <span className="text-xl font-bold text-gray-900">{formatPrice(totalValue)}</span>
               </div>
               <p className="text-sm text-gray-600 mt-1">
-                Final pricing may vary based on customizations and installation requirements.
+                {t('quote.totalDisclaimer')}
               </p>
             </Card>
           </div>
 
           {/* Customer Information Form */}
           <div>
-            <h3 className="font-semibold text-gray-900 mb-4">Customer Information</h3>
+            <h3 className="font-semibold text-gray-900 mb-4">{t('customer.title')}</h3>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="firstName">First Name *</Label>
+                  <Label htmlFor="firstName">{t('customer.required', { label: t('customer.firstName') })}</Label>
                   <Input
                     id="firstName"
                     required
@@ -105,7 +124,7 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
                   />
                 </div>
                 <div>
-                  <Label htmlFor="lastName">Last Name *</Label>
+                  <Label htmlFor="lastName">{t('customer.required', { label: t('customer.lastName') })}</Label>
                   <Input
                     id="lastName"
                     required
@@ -117,7 +136,7 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
               </div>
 
               <div>
-                <Label htmlFor="email">Email Address *</Label>
+                <Label htmlFor="email">{t('customer.required', { label: t('customer.emailAddress') })}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -129,7 +148,7 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
               </div>
 
               <div>
-                <Label htmlFor="phone">Phone Number</Label>
+                <Label htmlFor="phone">{t('customer.phoneNumber')}</Label>
                 <Input
                   id="phone"
                   type="tel"
@@ -140,7 +159,7 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
               </div>
 
               <div>
-                <Label htmlFor="company">Company</Label>
+                <Label htmlFor="company">{t('customer.company')}</Label>
                 <Input
                   id="company"
                   value={customerInfo.company}
@@ -150,7 +169,7 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
               </div>
 
               <div>
-                <Label htmlFor="projectName">Project Name</Label>
+                <Label htmlFor="projectName">{t('customer.projectName')}</Label>
                 <Input
                   id="projectName"
                   value={customerInfo.projectName}
@@ -160,11 +179,11 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
               </div>
 
               <div>
-                <Label htmlFor="notes">Additional Notes</Label>
+                <Label htmlFor="notes">{t('customer.notes')}</Label>
                 <Textarea
                   id="notes"
                   rows={4}
-                  placeholder="Any specific requirements, installation details, or questions..."
+                  placeholder={t('customer.notesPlaceholder')}
                   value={customerInfo.notes}
                   onChange={(e) => updateField('notes', e.target.value)}
                   className="mt-1"
@@ -178,15 +197,15 @@ export function QuoteModal({ quoteItems, onClose, onSubmit, isLoading = false }:
                   onClick={onClose}
                   className="flex-1"
                 >
-                  Cancel
+                  {t('cta.cancel')}
                 </Button>
                 <Button
                   type="submit"
                   disabled={isLoading}
-                  className="flex-1 bg-amber-500 hover:bg-amber-600 text-white disabled:opacity-50"
+                  className="flex-1 bg-cta hover:bg-cta-hover text-cta-foreground disabled:opacity-50"
                 >
                   <Send className="w-4 h-4 mr-2" />
-                  {isLoading ? 'Submitting...' : 'Submit Quote Request'}
+                  {isLoading ? t('cta.submitting') : ctaLabels.submitQuote ?? t('cta.submitQuote')}
                 </Button>
               </div>
             </form>
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PortalContainerContext } from './ui/portal-container';
+import { themeToCssVariables, type ConfiguratorTheme } from '../services/theme';
+import { cn } from './ui/utils';
+import { useI18n } from '../i18n';
+
+interface ThemeRootProps extends React.HTMLAttributes<HTMLDivElement> {
+  theme: ConfiguratorTheme;
+}
+
+/**
+ * Root element of the configurator. Sets the theme's CSS variables on itself (scoped by
+ * the .mtx-theme class rather than :root) and on a matching container in document.body
+ * that overlays portal into, so dialogs and menus are themed without touching the host page.
+ */
+export function ThemeRoot({ theme, className, style, lang, children, ...props }: ThemeRootProps) {
+  const variables = useMemo(() => themeToCssVariables(theme), [theme]);
+  const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const container = document.createElement('div');
+    container.className = 'mtx-theme';
+    container.dataset.mtxPortals = '';
+    document.body.appendChild(container);
+    setPortalContainer(container);
+
+    return () => {
+      container.remove();
+      setPortalContainer(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!portalContainer) return;
+    for (const [name, value] of Object.entries(variables)) {
+      portalContainer.style.setProperty(name, value);
+    }
+    portalContainer.dataset.theme = theme.name;
+    if (lang) portalContainer.lang = lang;
+    else portalContainer.removeAttribute('lang');
+  }, [portalContainer, variables, theme.name, lang]);
+
+  return (
+    <div
+      {...props}
+      lang={lang}
+      data-theme={theme.name}
+      className={cn('mtx-theme', className)}
+      style={{ ...variables, ...style } as React.CSSProperties}
+    >
+      <PortalContainerContext.Provider value={portalContainer}>{children}</PortalContainerContext.Provider>
+    </div>
+  );
+}
+
+/**
+ * The theme's logo and header text, for the configurator's nav bar
+ */
+export function ThemeBrand({ theme, className }: { theme: ConfiguratorTheme; className?: string }) {
+  const { t } = useI18n();
+  const headerText = theme.headerText ?? t('app.title');
+
+  return (
+    <span className={cn('inline-flex items-center gap-3 font-heading', className)}>
+      {theme.logoUrl && (
+        <img src={theme.logoUrl} alt={headerText ? '' : theme.name} className="h-8 w-auto" />
+      )}
+      {headerText && <span>{headerText}</span>}
+    </span>
+  );
+}
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Minus, Copy, Check, Link2 } from 'lucide-react';
+import { Plus, Minus, Copy, Check, Link2, FileText } from 'lucide-react';
 import { Button } from './button';
 import { Badge } from './badge';
 import { Input } from './input';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from './card';
 import { cn } from '@/lib/utils';
 import { parseSkuSegments } from '@/services/sku-generator';
-import { useConfiguratorStore } from '@/store';
+import { sameDimension } from '@/services/units';
+import { useConfiguratorStore, usePriceBreakdown, useSizeUnit, useTheme } from '@/store';
+import { useI18n } from '@/i18n';
 
 interface ProductOption {
   id: number;
@@ -58,7 +60,13 @@ interface CurrentConfigurationProps {
   config: ProductConfig;
   productOptions: ProductOptions;
   onQuantityChange: (quantity: number) => void;
-  onAddToQuote: () => void;
+  // Omitted when the quote cart is turned off (embeds)
+  onAddToQuote?: () => void;
+  // Set while a quote line is reopened; the button then updates that line
+  isEditingQuoteItem?: boolean;
+  onCancelEdit?: () => void;
+  // Prints the one-page spec sheet for this configuration
+  onExportSpecSheet?: (sku: string) => void;
   className?: string;
 }
 
@@ -67,6 +75,9 @@ export function CurrentConfiguration({
   productOptions,
   onQuantityChange,
   onAddToQuote,
+  isEditingQuoteItem = false,
+  onCancelEdit,
+  onExportSpecSheet,
   className
 }: CurrentConfigurationProps) {
   const [generatedSku, setGeneratedSku] = useState<string | null>(null);
@@ -74,6 +85,10 @@ export function CurrentConfiguration({
   const [isLinkCopied, setIsLinkCopied] = useState(false);
   const getGeneratedSKU = useConfiguratorStore((state) => state.getGeneratedSKU);
   const currentProduct = useConfiguratorStore((state) => state.currentProduct);
+  const priceBreakdown = usePriceBreakdown();
+  const { ctaLabels } = useTheme();
+  const sizeUnit = useSizeUnit();
+  const { t, locale, formatPrice, formatSize, localizeOption } = useI18n();
 
   // Generate SKU whenever config or product changes
   useEffect(() => {
@@ -143,8 +158,9 @@ export function CurrentConfiguration({
   };
 
   // Helper function to find option name by ID
-  const getOptionName = (options: ProductOption[], id: string) => {
-    return options.find(option => option.id.toString() === id)?.name || 'N/A';
+  const getOptionName = (field: keyof ProductOptions, id: string) => {
+    const option = productOptions[field].find(option => option.id.toString() === id);
+    return option ? localizeOption(field, option).name : t('configuration.notAvailable');
   };
 
   // Helper function to get SKU code
@@ -177,10 +193,10 @@ export function CurrentConfiguration({
     return (
       <div className="pt-4 border-t border-border">
         <div className="flex flex-col space-y-2">
-          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Accessories</span>
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.accessories')}</span>
           <div className="flex flex-wrap gap-2">
             <div className="flex items-center space-x-2 bg-muted/50 rounded-lg px-3 py-2">
-              <span className="text-sm font-medium text-foreground">{accessory.name}</span>
+              <span className="text-sm font-medium text-foreground">{localizeOption('accessoryOptions', accessory).name}</span>
               <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                 {accessory.sku_code}
               </Badge>
@@ -194,7 +210,7 @@ export function CurrentConfiguration({
   return (
     <Card className={cn("w-full", className)}>
       <CardHeader>
-        <CardTitle className="text-lg font-semibold">Current Configuration</CardTitle>
+        <CardTitle className="text-lg font-semibold">{t('configuration.title')}</CardTitle>
       </CardHeader>
       
       <CardContent className="space-y-4">
@@ -205,30 +221,30 @@ export function CurrentConfiguration({
             {/* Dimensions - Always show */}
             <div className="flex flex-col space-y-1">
               <div className="flex items-center justify-between">
-                <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Dimensions</span>
+                <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.dimensions')}</span>
                 <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                   {getOptionSku(productOptions.sizes,
                     productOptions.sizes.find(s =>
-                      s.width?.toString() === config.width &&
-                      s.height?.toString() === config.height
+                      sameDimension(s.width, config.width) &&
+                      sameDimension(s.height, config.height)
                     )?.id.toString() || ''
                   )}
                 </Badge>
               </div>
-              <span className="text-sm font-semibold text-foreground">{config.width}" × {config.height}"</span>
+              <span className="text-sm font-semibold text-foreground">{formatSize(config.width, config.height, sizeUnit)}</span>
             </div>
 
             {/* Frame Color - Only show if available */}
             {shouldDisplayOption(productOptions.frameColors, config.frameColor) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Frame Color</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.frameColor')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.frameColors, config.frameColor)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.frameColors, config.frameColor)}
+                  {getOptionName('frameColors', config.frameColor)}
                 </span>
               </div>
             )}
@@ -237,13 +253,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.frameThickness, config.frameThickness) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Frame</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.frame')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.frameThickness, config.frameThickness)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.frameThickness, config.frameThickness)}
+                  {getOptionName('frameThickness', config.frameThickness)}
                 </span>
               </div>
             )}
@@ -252,13 +268,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.mountingOptions, config.mounting) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Mounting</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.mounting')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.mountingOptions, config.mounting)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.mountingOptions, config.mounting)}
+                  {getOptionName('mountingOptions', config.mounting)}
                 </span>
               </div>
             )}
@@ -267,13 +283,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.hangingTechniques, config.hangingTechnique) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Hanging Technique</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.hangingTechnique')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.hangingTechniques, config.hangingTechnique)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.hangingTechniques, config.hangingTechnique)}
+                  {getOptionName('hangingTechniques', config.hangingTechnique)}
                 </span>
               </div>
             )}
@@ -282,13 +298,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.colorTemperatures, config.colorTemperature) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Color Temp</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.colorTemp')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.colorTemperatures, config.colorTemperature)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.colorTemperatures, config.colorTemperature)}
+                  {getOptionName('colorTemperatures', config.colorTemperature)}
                 </span>
               </div>
             )}
@@ -300,13 +316,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.mirrorStyles, config.mirrorStyle) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Mirror Style</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.mirrorStyle')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.mirrorStyles, config.mirrorStyle)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.mirrorStyles, config.mirrorStyle)}
+                  {getOptionName('mirrorStyles', config.mirrorStyle)}
                 </span>
               </div>
             )}
@@ -315,13 +331,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.lightingOptions, config.lighting) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Lighting</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.lighting')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.lightingOptions, config.lighting)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.lightingOptions, config.lighting)}
+                  {getOptionName('lightingOptions', config.lighting)}
                 </span>
               </div>
             )}
@@ -330,13 +346,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.mirrorControls, config.mirrorControls) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Controls</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.controls')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.mirrorControls, config.mirrorControls)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.mirrorControls, config.mirrorControls)}
+                  {getOptionName('mirrorControls', config.mirrorControls)}
                 </span>
               </div>
             )}
@@ -345,13 +361,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.lightOutputs, config.lightOutput) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Light Output</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.lightOutput')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.lightOutputs, config.lightOutput)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.lightOutputs, config.lightOutput)}
+                  {getOptionName('lightOutputs', config.lightOutput)}
                 </span>
               </div>
             )}
@@ -360,13 +376,13 @@ export function CurrentConfiguration({
             {shouldDisplayOption(productOptions.drivers, config.driver) && (
               <div className="flex flex-col space-y-1">
                 <div className="flex items-center justify-between">
-                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Driver</span>
+                  <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.driver')}</span>
                   <Badge variant="outline" className="bg-muted text-muted-foreground border-none rounded px-1.5 py-0.5 text-xs font-mono">
                     {getOptionSku(productOptions.drivers, config.driver)}
                   </Badge>
                 </div>
                 <span className="text-sm font-semibold text-foreground truncate">
-                  {getOptionName(productOptions.drivers, config.driver)}
+                  {getOptionName('drivers', config.driver)}
                 </span>
               </div>
             )}
@@ -376,11 +392,50 @@ export function CurrentConfiguration({
         {/* Accessories - Only show if an accessory is selected AND accessory options are available */}
         {renderAccessory()}
 
+        {/* Live Price - Only show once a base price matched */}
+        {priceBreakdown?.isComplete && (
+          <div className="pt-4 border-t border-border">
+            <div className="flex flex-col space-y-2">
+              <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.estimatedPrice')}</span>
+              <div className="space-y-1 text-sm">
+                {[
+                  priceBreakdown.base,
+                  ...priceBreakdown.options,
+                  priceBreakdown.area,
+                  ...priceBreakdown.adjustments,
+                ].map((line) =>
+                  line ? (
+                    <div key={line.ruleId} className="flex items-center justify-between">
+                      <span className="text-muted-foreground truncate">{line.label}</span>
+                      <span className="font-mono text-foreground">{formatPrice(line.amount, priceBreakdown.currency)}</span>
+                    </div>
+                  ) : null
+                )}
+              </div>
+              <div className="flex items-center justify-between pt-2 border-t border-border">
+                <span className="text-sm text-muted-foreground">
+                  {priceBreakdown.quantity} × {formatPrice(priceBreakdown.unitPrice, priceBreakdown.currency)}
+                </span>
+                <span className="text-base font-semibold text-foreground">
+                  {formatPrice(priceBreakdown.total, priceBreakdown.currency)}
+                </span>
+              </div>
+              {priceBreakdown.validTo && (
+                <span className="text-xs text-muted-foreground">
+                  {t('configuration.pricingValidUntil', {
+                    date: new Date(priceBreakdown.validTo).toLocaleDateString(locale),
+                  })}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Product SKU Display */}
         {generatedSku && (
           <div className="pt-4 border-t border-border mt-4">
             <div className="flex flex-col space-y-2">
-              <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Product SKU</span>
+              <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.productSku')}</span>
               <div className="flex items-center justify-between gap-3">
                 <div className="flex-1 bg-muted/50 rounded-lg px-4 py-3 font-mono text-sm font-semibold text-foreground overflow-x-auto">
                   {parseSkuSegments(generatedSku).map((segment, index) => (
@@ -396,7 +451,7 @@ export function CurrentConfiguration({
                     size="icon"
                     onClick={handleCopySku}
                     className="h-10 w-10 border-border hover:bg-muted/80 transition-colors"
-                    title="Copy SKU to clipboard"
+                    title={t('configuration.copySku')}
                   >
                     {isSkuCopied ? (
                       <Check className="w-4 h-4 text-green-600" />
@@ -409,7 +464,7 @@ export function CurrentConfiguration({
                     size="icon"
                     onClick={handleCopyLink}
                     className="h-10 w-10 border-border hover:bg-muted/80 transition-colors"
-                    title="Copy shareable link to clipboard"
+                    title={t('configuration.copyLink')}
                   >
                     {isLinkCopied ? (
                       <Check className="w-4 h-4 text-green-600" />
@@ -417,6 +472,17 @@ export function CurrentConfiguration({
                       <Link2 className="w-4 h-4" />
                     )}
                   </Button>
+                  {onExportSpecSheet && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => onExportSpecSheet(generatedSku)}
+                      className="h-10 w-10 border-border hover:bg-muted/80 transition-colors"
+                      title={t('configuration.printSpecSheet')}
+                    >
+                      <FileText className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -427,7 +493,7 @@ export function CurrentConfiguration({
       <CardFooter className="flex items-center justify-between pt-6 border-t border-border">
         {/* Quantity Controls */}
         <div className="flex items-center space-x-4">
-          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Quantity</span>
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{t('configuration.quantityLabel')}</span>
           <div className="flex items-center space-x-2">
             <Button
               variant="outline"
@@ -459,13 +525,24 @@ export function CurrentConfiguration({
         </div>
 
         {/* Add to Quote Button */}
-        <Button
-          onClick={onAddToQuote}
-          className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-2.5 h-10 font-medium shadow-sm transition-all hover:shadow-md"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add to Quote
-        </Button>
+        <div className="flex items-center gap-2">
+          {isEditingQuoteItem && onCancelEdit && (
+            <Button variant="ghost" onClick={onCancelEdit} className="h-10">
+              {t('cta.cancel')}
+            </Button>
+          )}
+          {onAddToQuote && (
+            <Button
+              onClick={onAddToQuote}
+              className="bg-cta hover:bg-cta-hover text-cta-foreground px-6 py-2.5 h-10 font-medium shadow-sm transition-all hover:shadow-md"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {isEditingQuoteItem
+                ? ctaLabels.updateQuoteLine ?? t('cta.updateQuoteLine')
+                : ctaLabels.addToQuote ?? t('cta.addToQuote')}
+            </Button>
+          )}
+        </div>
       </CardFooter>
     </Card>
   );
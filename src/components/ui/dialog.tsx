@@ -5,12 +5,16 @@ import * as DialogPrimitive from "@radix-ui/react-dialog"
 import { X } from "lucide-react"
 
 import { cn } from "@/lib/utils"
+import { usePortalContainer } from "./portal-container"
 
 const Dialog = DialogPrimitive.Root
 
 const DialogTrigger = DialogPrimitive.Trigger
 
-const DialogPortal = DialogPrimitive.Portal
+function DialogPortal(props: React.ComponentProps<typeof DialogPrimitive.Portal>) {
+  const container = usePortalContainer()
+  return <DialogPrimitive.Portal container={container} {...props} />
+}
 
 const DialogClose = DialogPrimitive.Close
 
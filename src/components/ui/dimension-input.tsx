@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Input } from './input';
+import { cn } from './utils';
+import { fromInches, normalizeDimension, type LengthUnit } from '@/services/units';
+
+interface DimensionInputProps {
+  id?: string;
+  // Canonical inches, as held in the configuration
+  value: string;
+  unit: LengthUnit;
+  unitSymbol: string;
+  invalidMessage: string;
+  // Envelope error for a readable size (min/max, increment), shown under the field
+  error?: string | null;
+  onChange: (inches: string) => void;
+  className?: string;
+}
+
+const toDisplay = (inches: string, unit: LengthUnit) => {
+  const value = Number(inches);
+  return inches && Number.isFinite(value) ? String(fromInches(value, unit)) : inches;
+};
+
+/**
+ * Text field for one custom size dimension. Accepts the unit shown, another unit typed
+ * after the number ("616 mm") and inch fractions ("24 1/4"); every readable entry is
+ * passed on as canonical inches, and the field shows the stored value again on blur.
+ */
+export function DimensionInput({
+  id,
+  value,
+  unit,
+  unitSymbol,
+  invalidMessage,
+  error,
+  onChange,
+  className,
+}: DimensionInputProps) {
+  const [draft, setDraft] = useState(() => toDisplay(value, unit));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(toDisplay(value, unit));
+  }, [value, unit, isEditing]);
+
+  const message = isInvalid ? invalidMessage : error;
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const inches = normalizeDimension(text, { unit });
+    setIsInvalid(text.trim() !== '' && inches === null);
+    if (inches !== null && inches !== value) onChange(inches);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Input
+          id={id}
+          type="text"
+          inputMode="decimal"
+          autoComplete="off"
+          value={draft}
+          onFocus={() => setIsEditing(true)}
+          onBlur={() => {
+            setIsEditing(false);
+            setIsInvalid(false);
+          }}
+          onChange={(e) => handleChange(e.target.value)}
+          aria-invalid={Boolean(message) || undefined}
+          aria-describedby={message && id ? `${id}-error` : undefined}
+          className={cn('pr-14', className)}
+        />
+        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">
+          {unitSymbol}
+        </div>
+      </div>
+      {message && (
+        <p id={id ? `${id}-error` : undefined} className="text-xs text-destructive">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
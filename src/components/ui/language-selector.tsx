@@ -0,0 +1,40 @@
+import { Languages } from 'lucide-react';
+import { SUPPORTED_LOCALES, storeLocale, useI18n } from '@/i18n';
+import { useUIActions } from '@/store';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/**
+ * Language picker for the nav bar. The choice is remembered for the next visit.
+ */
+export function LanguageSelector() {
+  const { t, locale } = useI18n();
+  const { setLocale } = useUIActions();
+  const language = locale.split('-')[0];
+
+  const handleChange = (code: string) => {
+    storeLocale(code);
+    void setLocale(code);
+  };
+
+  return (
+    <Select value={language} onValueChange={handleChange}>
+      <SelectTrigger className="w-36 border-slate-200 bg-white text-sm" aria-label={t('app.language')}>
+        <Languages className="h-4 w-4 text-slate-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map(({ code, label }) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
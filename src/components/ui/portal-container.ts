@@ -0,0 +1,10 @@
+import { createContext, useContext } from "react";
+
+/**
+ * Element overlays (dialogs, sheets, menus, selects, popovers) portal into. ThemeRoot
+ * provides a themed container so overlays keep the configurator's CSS variables;
+ * without a provider Radix falls back to document.body.
+ */
+export const PortalContainerContext = createContext<HTMLElement | null>(null);
+
+export const usePortalContainer = () => useContext(PortalContainerContext);
@@ -0,0 +1,332 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Upload, Trash2 } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { Button } from "./button";
+import { Textarea } from "./textarea";
+import { Alert, AlertDescription } from "./alert";
+import { Spinner } from "./spinner";
+import { SkuConfidenceBadge, SkuSegmentChip } from "./sku-search-input";
+
+import { useAvailableProductLines, useQuoteActions } from "@/store";
+import { useI18n } from "@/i18n";
+import {
+  buildQuoteLineDrafts,
+  createBulkImportRows,
+  getResolvedSegments,
+  getRowConfidence,
+  getSelectedResult,
+  isRowImportable,
+  parseBulkImportRows,
+  parseBulkSkuText,
+  resolveRowSegment,
+  selectRowResult,
+  type BulkImportRow,
+} from "@/services/sku-bulk-import";
+
+interface SkuBulkImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PLACEHOLDER = `SKU,Quantity
+T02d-2436-BK,4
+T23i-3036-S-27,2`;
+
+export function SkuBulkImportDialog({
+  open,
+  onOpenChange,
+}: SkuBulkImportDialogProps): JSX.Element {
+  const availableProductLines = useAvailableProductLines();
+  const { addQuoteItems } = useQuoteActions();
+  const { t } = useI18n();
+
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<BulkImportRow[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const importableCount = useMemo(
+    () => rows.filter(isRowImportable).length,
+    [rows],
+  );
+
+  const reset = () => {
+    setText("");
+    setRows([]);
+    setMessage(null);
+  };
+
+  const updateRow = (rowId: string, update: (row: BulkImportRow) => BulkImportRow) => {
+    setRows((current) =>
+      current.map((row) => (row.id === rowId ? update(row) : row)),
+    );
+  };
+
+  const handleParse = async () => {
+    const entries = parseBulkSkuText(text);
+    if (entries.length === 0) {
+      setMessage(t("bulkImport.noSkus"));
+      return;
+    }
+
+    const pending = createBulkImportRows(entries);
+    setRows(pending);
+    setMessage(null);
+    setIsParsing(true);
+    try {
+      await parseBulkImportRows(pending, (parsed) =>
+        updateRow(parsed.id, () => parsed),
+      );
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setRows([]);
+      setMessage(null);
+    } catch (error) {
+      console.error("Failed to read SKU import file:", error);
+      setMessage(t("quote.unreadableFile"));
+    }
+  };
+
+  const handleAddToQuote = async () => {
+    setIsAdding(true);
+    try {
+      const importable = rows.filter(isRowImportable);
+      const { drafts, skipped } = await buildQuoteLineDrafts(
+        importable,
+        availableProductLines,
+      );
+      addQuoteItems(drafts);
+
+      const remaining = rows.filter(
+        (row) =>
+          !isRowImportable(row) ||
+          skipped.some((skippedRow) => skippedRow.row.id === row.id),
+      );
+      if (remaining.length === 0) {
+        reset();
+        onOpenChange(false);
+        return;
+      }
+
+      // Keep the rows that still need attention
+      setRows(
+        remaining.map((row) => {
+          const reason = skipped.find((skippedRow) => skippedRow.row.id === row.id)?.reason;
+          return reason ? { ...row, status: "error", error: reason } : row;
+        }),
+      );
+      setMessage(
+        `${t("bulkImport.added", { count: drafts.length })} ${t("bulkImport.needAttention", { count: remaining.length })}`,
+      );
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t("bulkImport.title")}</DialogTitle>
+          <DialogDescription>{t("bulkImport.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            placeholder={PLACEHOLDER}
+            rows={6}
+            className="font-mono text-sm"
+          />
+          <div className="flex items-center justify-between gap-3">
+            <label className="inline-flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-600 hover:text-slate-900">
+              <Upload className="h-4 w-4" />
+              {t("bulkImport.uploadCsv")}
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/plain"
+                onChange={handleFile}
+                className="sr-only"
+              />
+            </label>
+            <Button
+              variant="outline"
+              onClick={handleParse}
+              disabled={!text.trim() || isParsing}
+            >
+              {isParsing && <Spinner size="sm" className="mr-2" />}
+              {t("bulkImport.check")}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {rows.length > 0 && (
+          <div className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+            {rows.map((row) => (
+              <BulkImportRowItem
+                key={row.id}
+                row={row}
+                onSelectResult={(resultId) =>
+                  updateRow(row.id, (current) => selectRowResult(current, resultId))
+                }
+                onResolveSegment={(order, optionId) =>
+                  updateRow(row.id, (current) =>
+                    resolveRowSegment(current, order, optionId),
+                  )
+                }
+                onRemove={() =>
+                  setRows((current) => current.filter((candidate) => candidate.id !== row.id))
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t("cta.cancel")}
+          </Button>
+          <Button
+            onClick={handleAddToQuote}
+            disabled={importableCount === 0 || isParsing || isAdding}
+            className="bg-cta text-cta-foreground hover:bg-cta-hover"
+          >
+            {isAdding && <Spinner size="sm" className="mr-2" />}
+            {t("bulkImport.addToQuote", { count: importableCount })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BulkImportRowItemProps {
+  row: BulkImportRow;
+  onSelectResult: (resultId: string) => void;
+  onResolveSegment: (order: number, optionId: string) => void;
+  onRemove: () => void;
+}
+
+function BulkImportRowItem({
+  row,
+  onSelectResult,
+  onResolveSegment,
+  onRemove,
+}: BulkImportRowItemProps): JSX.Element {
+  const { t } = useI18n();
+  const selected = getSelectedResult(row);
+  const segments = getResolvedSegments(row);
+  const ambiguousSegments = selected
+    ? selected.segments.filter((segment) => segment.status === "ambiguous")
+    : [];
+
+  return (
+    <div className="space-y-3 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="truncate font-mono text-sm font-semibold text-slate-900">
+            {row.input}
+          </p>
+          <p className="text-xs text-slate-500">
+            {t("bulkImport.row", { line: row.line, quantity: row.quantity })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {row.status === "pending" ? (
+            <Spinner size="sm" />
+          ) : (
+            <SkuConfidenceBadge confidence={getRowConfidence(row)} />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            className="text-slate-400 hover:text-red-600"
+            title={t("bulkImport.removeRow")}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {row.error && <p className="text-xs text-destructive">{row.error}</p>}
+
+      {row.status === "parsed" && row.results.length > 1 && (
+        <select
+          value={row.selectedResultId ?? ""}
+          onChange={(event) => onSelectResult(event.target.value)}
+          className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm"
+        >
+          <option value="" disabled>
+            {t("bulkImport.chooseProduct", { count: row.results.length })}
+          </option>
+          {row.results.map((result) => (
+            <option key={result.id} value={result.id}>
+              {result.productSku ?? result.productName ?? result.id} ({result.confidence})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {segments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {segments.map((segment) => (
+            <SkuSegmentChip
+              key={`${row.id}-${segment.tableName}-${segment.order}`}
+              segment={segment}
+            />
+          ))}
+        </div>
+      )}
+
+      {ambiguousSegments.map((segment) => (
+        <label
+          key={segment.order}
+          className="flex items-center gap-3 text-xs text-slate-600"
+        >
+          <span className="w-40 shrink-0">{segment.message ?? segment.tableName}</span>
+          <select
+            value={row.resolutions[segment.order] ?? ""}
+            onChange={(event) => onResolveSegment(segment.order, event.target.value)}
+            className="flex-1 rounded-md border border-slate-200 bg-white px-2 py-1 text-sm"
+          >
+            <option value="" disabled>
+              {t("bulkImport.chooseOption")}
+            </option>
+            {segment.options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name ?? option.skuCode} ({option.skuCode})
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import React from 'react';
 import { ProductLine } from '../../services/supabase';
 import { buildFullSku, CurrentConfigLike, SimpleOptions } from '../../utils/sku-builder';
-import { processRules } from '../../services/rules-engine';
+import { resolveAvailabilityModel } from '../../services/availability-pipeline';
+import { getComputeService, hostAvailabilityModel } from '../../services/compute-service';
 
 interface SkuDisplayProps {
   config: CurrentConfigLike | null;
@@ -35,13 +36,18 @@ export const SkuDisplay: React.FC<SkuDisplayProps> = ({ config, options, product
   };
 
   // Evaluate rules to get overrides like product_line_sku_code or accessory_sku_code
-  // Note: processRules is async; for simplicity in this small component, we render once without overrides and then update on resolve
+  // Rules are evaluated by the compute service; we render once without overrides and then update on resolve
   const [computedSku, setComputedSku] = React.useState<string>('');
   React.useEffect(() => {
     let cancelled = false;
     (async () => {
       try {
-        const processed = await processRules(rulesContext);
+        const compute = getComputeService();
+        await hostAvailabilityModel(compute, await resolveAvailabilityModel(productLine.id));
+        const { config: processed } = await compute.request('rules', {
+          productLineId: productLine.id,
+          context: rulesContext,
+        });
 
         // Build effective config by applying ID overrides from processed rules
         const mapNum = (v: any) => (typeof v === 'number' && Number.isFinite(v) ? String(v) : undefined);
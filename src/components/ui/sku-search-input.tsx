@@ -101,6 +101,45 @@ function getConfidenceBadgeStyles(
   }
 }
 
+// Shared with the bulk SKU import so rows read the same as search results
+export function SkuConfidenceBadge({
+  confidence,
+}: {
+  confidence: SkuSearchResult["confidence"];
+}): JSX.Element {
+  return (
+    <Badge
+      className={cn(
+        "rounded-full px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.18em]",
+        getConfidenceBadgeStyles(confidence),
+      )}
+    >
+      {confidence.charAt(0).toUpperCase() + confidence.slice(1)}
+    </Badge>
+  );
+}
+
+export function SkuSegmentChip({
+  segment,
+}: {
+  segment: SkuSegmentMatch;
+}): JSX.Element {
+  const statusStyle = SEGMENT_STATUS_STYLES[segment.status];
+  const value = segment.segment ?? "—";
+
+  return (
+    <Badge
+      className={cn(
+        "flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium",
+        statusStyle.className,
+      )}
+    >
+      {statusStyle.icon}
+      {`${formatTableName(segment.tableName)}: ${value}`}
+    </Badge>
+  );
+}
+
 function buildAiNarrative(result: SkuSearchResult): string {
   const baseLabel = result.productName ?? result.productSku ?? "This configuration";
 
@@ -631,9 +670,6 @@ export function SkuSearchInput({ onApplied }: SkuSearchInputProps): JSX.Element
               </div>
             ) : (
               skuSearchResults.map((result) => {
-                const confidenceLabel =
-                  result.confidence.charAt(0).toUpperCase() +
-                  result.confidence.slice(1);
                 const disableApply = disableApplyForResult(result);
                 const narrative = buildAiNarrative(result);
 
@@ -660,37 +696,18 @@ export function SkuSearchInput({ onApplied }: SkuSearchInputProps): JSX.Element
                             </p>
                           )}
                         </div>
-                        <Badge
-                          className={cn(
-                            "rounded-full px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.18em]",
-                            getConfidenceBadgeStyles(result.confidence),
-                          )}
-                        >
-                          {confidenceLabel}
-                        </Badge>
+                        <SkuConfidenceBadge confidence={result.confidence} />
                       </div>
 
                       <p className="text-sm leading-6 text-slate-600">{narrative}</p>
 
                       <div className="flex flex-wrap gap-2">
-                        {result.segments.map((segment) => {
-                          const statusStyle = SEGMENT_STATUS_STYLES[segment.status];
-                          const value = segment.segment ?? "—";
-                          const label = `${formatTableName(segment.tableName)}: ${value}`;
-
-                          return (
-                            <Badge
-                              key={`${result.id}-${segment.tableName}-${segment.order}-${value}`}
-                              className={cn(
-                                "flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium",
-                                statusStyle.className,
-                              )}
-                            >
-                              {statusStyle.icon}
-                              {label}
-                            </Badge>
-                          );
-                        })}
+                        {result.segments.map((segment) => (
+                          <SkuSegmentChip
+                            key={`${result.id}-${segment.tableName}-${segment.order}-${segment.segment ?? "—"}`}
+                            segment={segment}
+                          />
+                        ))}
                       </div>
 
                       {result.issues.length > 0 && (
@@ -13,7 +13,7 @@ function Switch({
     <SwitchPrimitive.Root
       data-slot="switch"
       className={cn(
-        "peer inline-flex h-[1.15rem] w-8 shrink-0 items-center rounded-full border border-gray-300 transition-all outline-none focus-visible:ring-[3px] focus-visible:ring-amber-500/50 disabled:cursor-not-allowed disabled:opacity-50 data-[state=checked]:bg-amber-500 data-[state=checked]:border-amber-500 data-[state=unchecked]:bg-gray-200",
+        "peer inline-flex h-[1.15rem] w-8 shrink-0 items-center rounded-full border border-gray-300 transition-all outline-none focus-visible:ring-[3px] focus-visible:ring-cta disabled:cursor-not-allowed disabled:opacity-50 data-[state=checked]:bg-cta data-[state=checked]:border-cta data-[state=unchecked]:bg-gray-200",
         className,
       )}
       {...props}
@@ -0,0 +1,114 @@
+/**
+ * Configurator Host Actions
+ *
+ * What a host page can do to an embedded configurator, shared by the <mtx-configurator>
+ * element and the iframe bridge. Everything goes through the store actions the app
+ * itself uses (updateConfiguration, applySkuResult, addToQuote), so an embedded
+ * change behaves exactly like the same change made in the UI.
+ */
+
+import { useConfiguratorStore } from '../store';
+import { parseTheme, resolveTheme, type ConfiguratorTheme } from '../services/theme';
+import type { ProductConfig, QuoteItem } from '../store/types';
+import type { ConfiguratorEventEmitter, ConfiguratorSnapshot } from './embed-options';
+
+// Fields a host may not set; product line changes go through the embed options
+const HOST_LOCKED_FIELDS: Array<keyof ProductConfig> = ['id', 'productLineId', 'productLineName'];
+
+/**
+ * Emit configchange and skuchange as the store changes; returns an unsubscribe function
+ */
+export function watchConfiguratorEvents(emit: ConfiguratorEventEmitter): () => void {
+  let lastSku: string | null = null;
+  let skuRequest = 0;
+
+  const refreshSku = async () => {
+    const request = ++skuRequest;
+    const sku = await useConfiguratorStore.getState().getGeneratedSKU();
+    // A newer configuration has superseded this one
+    if (request !== skuRequest || sku === lastSku) return;
+    lastSku = sku;
+    emit('skuchange', { sku });
+  };
+
+  const unsubscribers = [
+    useConfiguratorStore.subscribe(
+      (state) => state.currentConfig,
+      (config) => {
+        if (!config) return;
+        emit('configchange', { config, productLine: useConfiguratorStore.getState().currentProductLine });
+        void refreshSku();
+      }
+    ),
+    useConfiguratorStore.subscribe(
+      (state) => state.currentProduct,
+      () => void refreshSku()
+    ),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+/**
+ * Apply option selections (option ids, or width/height in inches) to the current configuration
+ */
+export async function applyHostConfig(config: Partial<ProductConfig>): Promise<void> {
+  const { updateConfiguration, recomputeFiltering } = useConfiguratorStore.getState();
+  for (const [field, value] of Object.entries(config) as Array<[keyof ProductConfig, unknown]>) {
+    if (value === undefined || HOST_LOCKED_FIELDS.includes(field)) continue;
+    updateConfiguration(field, field === 'quantity' ? Number(value) : String(value));
+  }
+
+  const { currentConfig, currentProductLine } = useConfiguratorStore.getState();
+  if (currentConfig && currentProductLine) {
+    await recomputeFiltering(currentProductLine, currentConfig);
+  }
+}
+
+/**
+ * Configure from a SKU, preferring an exact match; resolves false when nothing matched
+ */
+export async function applyHostSku(sku: string): Promise<boolean> {
+  const { searchBySku, applySkuResult } = useConfiguratorStore.getState();
+  const results = await searchBySku(sku);
+  const best = results.find((result) => result.confidence === 'exact') ?? results[0];
+  if (!best) return false;
+
+  await applySkuResult(best);
+  return true;
+}
+
+/**
+ * Add the current configuration to the quote as a new line
+ */
+export async function addConfigurationToQuote(emit?: ConfiguratorEventEmitter): Promise<QuoteItem> {
+  const { currentConfig, getGeneratedSKU, addToQuote } = useConfiguratorStore.getState();
+  if (!currentConfig) throw new Error('The configurator has not loaded a configuration yet');
+
+  const sku = await getGeneratedSKU();
+  if (!sku) throw new Error('The current configuration does not resolve to a SKU');
+
+  const itemId = addToQuote(currentConfig, sku);
+  const item = useConfiguratorStore.getState().quoteItems.find((line) => line.id === itemId)!;
+  emit?.('addtoquote', { item, updated: false });
+  return item;
+}
+
+/**
+ * Switch the theme at runtime: a theme object (tokens left out keep the default), or a
+ * theme source string (inline JSON, theme file URL or dealer slug)
+ */
+export async function applyHostTheme(theme: unknown): Promise<ConfiguratorTheme> {
+  const resolved = typeof theme === 'string' ? await resolveTheme(theme) : parseTheme(theme);
+  useConfiguratorStore.getState().setTheme(resolved);
+  return resolved;
+}
+
+export async function getConfiguratorSnapshot(): Promise<ConfiguratorSnapshot> {
+  const { currentConfig, currentProductLine, getGeneratedSKU } = useConfiguratorStore.getState();
+  return {
+    productLineId: currentProductLine?.id ?? null,
+    config: currentConfig ? { ...currentConfig } : null,
+    sku: await getGeneratedSKU(),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Embed Options
+ *
+ * Settings a host page passes to an embedded configurator (as <mtx-configurator>
+ * attributes or embed.html query parameters) and the events it gets back. App reads the options to pick its
+ * initial product line and SKU and to hide features the host has turned off.
+ */
+
+import type { CustomerInfo, ProductConfig, ProductLine, QuoteItem } from '../store/types';
+import { isLengthUnit, type LengthUnit } from '../services/units';
+
+export const CONFIGURATOR_FEATURES = [
+  'sku-search',
+  'bulk-import',
+  'quote',
+  'quote-import',
+  'quote-export',
+  'print',
+  'url-sync',
+] as const;
+
+export type ConfiguratorFeature = (typeof CONFIGURATOR_FEATURES)[number];
+
+export interface ConfiguratorEmbedOptions {
+  // Product line sku_code (e.g. "DEC") or name to open with
+  productLine?: string;
+  sku?: string;
+  locale?: string;
+  // Unit sizes start out entered and shown in, instead of the visitor's last choice
+  units?: LengthUnit;
+  // Theme JSON URL, inline theme JSON or dealer slug (see services/theme.ts)
+  theme?: string;
+  // Features to show; everything is enabled when omitted
+  features?: ConfiguratorFeature[];
+}
+
+export interface ConfiguratorEventMap {
+  ready: { productLine: ProductLine | null };
+  configchange: { config: ProductConfig; productLine: ProductLine | null };
+  skuchange: { sku: string | null };
+  addtoquote: { item: QuoteItem; updated: boolean };
+  // Prices as the server stored them; total is null when no line could be priced
+  quotesubmit: { quoteNumber: string; items: QuoteItem[]; customer: CustomerInfo; total: number | null };
+}
+
+export type ConfiguratorEventType = keyof ConfiguratorEventMap;
+
+export interface ConfiguratorSnapshot {
+  productLineId: number | null;
+  config: ProductConfig | null;
+  sku: string | null;
+}
+
+export type ConfiguratorEventEmitter = <K extends ConfiguratorEventType>(
+  type: K,
+  detail: ConfiguratorEventMap[K]
+) => void;
+
+export interface ConfiguratorEmbed {
+  options: ConfiguratorEmbedOptions;
+  emit: ConfiguratorEventEmitter;
+}
+
+/**
+ * Read options from element attributes or URL parameters, which share the same names
+ */
+export function readEmbedOptions(read: (name: string) => string | null): ConfiguratorEmbedOptions {
+  return {
+    productLine: read('product-line') ?? undefined,
+    sku: read('sku') ?? undefined,
+    locale: read('locale') ?? undefined,
+    units: parseUnits(read('units')),
+    theme: read('theme') ?? undefined,
+    features: parseFeatureList(read('features')),
+  };
+}
+
+/**
+ * Parse a features attribute ("quote print" or "quote,print"); unknown names are ignored
+ */
+export function parseFeatureList(value: string | null): ConfiguratorFeature[] | undefined {
+  if (value === null) return undefined;
+  return value
+    .split(/[\s,]+/)
+    .map((feature) => feature.trim().toLowerCase())
+    .filter((feature): feature is ConfiguratorFeature =>
+      (CONFIGURATOR_FEATURES as readonly string[]).includes(feature)
+    );
+}
+
+export function isFeatureEnabled(
+  options: ConfiguratorEmbedOptions | undefined,
+  feature: ConfiguratorFeature
+): boolean {
+  return !options?.features || options.features.includes(feature);
+}
+
+/**
+ * Find the product line an embed asked for by sku_code, falling back to name
+ */
+export function findEmbedProductLine(
+  productLines: ProductLine[],
+  requested: string | undefined
+): ProductLine | undefined {
+  if (!requested) return undefined;
+  const key = requested.trim().toLowerCase();
+  return (
+    productLines.find((line) => line.sku_code?.toLowerCase() === key) ??
+    productLines.find((line) => line.name.toLowerCase() === key)
+  );
+}
+
+/**
+ * Parse a units attribute ("in", "mm" or "cm"); anything else is ignored
+ */
+export function parseUnits(value: string | null): LengthUnit | undefined {
+  const unit = value?.trim().toLowerCase();
+  return isLengthUnit(unit) ? unit : undefined;
+}
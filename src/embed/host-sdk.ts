@@ -0,0 +1,202 @@
+/**
+ * Configurator Host SDK
+ *
+ * For dealer pages embedding the configurator in an iframe:
+ *
+ *   const iframe = document.querySelector('iframe')!;
+ *   iframe.src = buildConfiguratorFrameUrl('https://configure.example.com/embed.html', { productLine: 'DEC' });
+ *   const configurator = connectConfiguratorFrame({ iframe, origin: 'https://configure.example.com' });
+ *   configurator.on('addtoquote', ({ item }) => cart.add(item.sku, item.quantity));
+ *   await configurator.applySku('T02d-2436');
+ *
+ * The page's origin must be on the configurator's allow-list (VITE_EMBED_ALLOWED_ORIGINS).
+ * Only depends on iframe-protocol.ts and types, so it can be copied into a host project.
+ */
+
+import {
+  EMBED_PROTOCOL_VERSION,
+  createEmbedMessage,
+  isEmbedMessage,
+  type EmbedRequestMap,
+  type EmbedRequestType,
+  type FrameToHostMessage,
+  type HostToFrameMessage,
+} from './iframe-protocol';
+import type {
+  ConfiguratorEmbedOptions,
+  ConfiguratorEventMap,
+  ConfiguratorEventType,
+  ConfiguratorSnapshot,
+} from './embed-options';
+
+export interface ConfiguratorFrameOptions {
+  iframe: HTMLIFrameElement;
+  // Origin the configurator is served from
+  origin: string;
+  // Set the iframe height from the configurator's content height (default true)
+  autoResize?: boolean;
+  handshakeTimeoutMs?: number;
+  requestTimeoutMs?: number;
+}
+
+export interface ConfiguratorFrame {
+  // Resolves with the configurator's state once the handshake completes
+  ready: Promise<ConfiguratorSnapshot>;
+  on<K extends ConfiguratorEventType>(event: K, handler: (detail: ConfiguratorEventMap[K]) => void): () => void;
+  setConfig(config: EmbedRequestMap['setConfig']['params']['config']): Promise<ConfiguratorSnapshot>;
+  applySku(sku: string): Promise<EmbedRequestMap['applySku']['result']>;
+  addToQuote(): Promise<EmbedRequestMap['addToQuote']['result']>;
+  getState(): Promise<ConfiguratorSnapshot>;
+  setTheme(theme: EmbedRequestMap['setTheme']['params']['theme']): Promise<EmbedRequestMap['setTheme']['result']>;
+  destroy(): void;
+}
+
+export class ConfiguratorFrameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfiguratorFrameError';
+  }
+}
+
+const HELLO_INTERVAL_MS = 250;
+
+/**
+ * Build the iframe src for an embed page with its options as query parameters
+ */
+export function buildConfiguratorFrameUrl(embedUrl: string, options: ConfiguratorEmbedOptions = {}): string {
+  const url = new URL(embedUrl, typeof window !== 'undefined' ? window.location.href : undefined);
+  const params: Record<string, string | undefined> = {
+    'product-line': options.productLine,
+    sku: options.sku,
+    locale: options.locale,
+    units: options.units,
+    theme: options.theme,
+    features: options.features?.join(' '),
+  };
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(name, value);
+  }
+  return url.toString();
+}
+
+export function connectConfiguratorFrame({
+  iframe,
+  origin,
+  autoResize = true,
+  handshakeTimeoutMs = 10000,
+  requestTimeoutMs = 15000,
+}: ConfiguratorFrameOptions): ConfiguratorFrame {
+  const handlers = new Map<ConfiguratorEventType, Set<(detail: never) => void>>();
+  const pending = new Map<string, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 0;
+  let connected = false;
+
+  const send = (message: HostToFrameMessage) => {
+    iframe.contentWindow?.postMessage(createEmbedMessage(message), origin);
+  };
+
+  let resolveReady!: (snapshot: ConfiguratorSnapshot) => void;
+  let rejectReady!: (error: Error) => void;
+  const ready = new Promise<ConfiguratorSnapshot>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+  // Callers that never await ready still get errors through their requests
+  ready.catch(() => undefined);
+
+  // The frame may not be listening yet, so keep saying hello until it answers
+  const helloTimer = window.setInterval(() => send({ type: 'hello' }), HELLO_INTERVAL_MS);
+  const handshakeTimer = window.setTimeout(() => {
+    window.clearInterval(helloTimer);
+    rejectReady(new ConfiguratorFrameError(`No handshake from ${origin} within ${handshakeTimeoutMs}ms`));
+  }, handshakeTimeoutMs);
+  send({ type: 'hello' });
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.origin !== origin || event.source !== iframe.contentWindow || !isEmbedMessage(event.data)) return;
+
+    const message = event.data as unknown as FrameToHostMessage;
+    switch (message.type) {
+      case 'welcome':
+        connected = true;
+        window.clearInterval(helloTimer);
+        window.clearTimeout(handshakeTimer);
+        resolveReady(message.snapshot);
+        break;
+      case 'error':
+        if (message.code === 'unsupported_version') {
+          window.clearInterval(helloTimer);
+          window.clearTimeout(handshakeTimer);
+          rejectReady(new ConfiguratorFrameError(message.message));
+        }
+        break;
+      case 'response': {
+        const request = pending.get(message.id);
+        if (!request) break;
+        pending.delete(message.id);
+        if (message.ok) request.resolve(message.result);
+        else request.reject(new ConfiguratorFrameError(message.error));
+        break;
+      }
+      case 'event':
+        handlers.get(message.event)?.forEach((handler) => handler(message.detail as never));
+        break;
+      case 'resize':
+        if (autoResize && Number.isFinite(message.height)) iframe.style.height = `${message.height}px`;
+        break;
+    }
+  };
+  window.addEventListener('message', handleMessage);
+
+  const request = async <K extends EmbedRequestType>(
+    type: K,
+    params: EmbedRequestMap[K]['params']
+  ): Promise<EmbedRequestMap[K]['result']> => {
+    await ready;
+    const id = `request-${++nextRequestId}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        pending.delete(id);
+        reject(new ConfiguratorFrameError(`${type} timed out after ${requestTimeoutMs}ms`));
+      }, requestTimeoutMs);
+
+      pending.set(id, {
+        resolve: (result) => {
+          window.clearTimeout(timer);
+          resolve(result as EmbedRequestMap[K]['result']);
+        },
+        reject: (error) => {
+          window.clearTimeout(timer);
+          reject(error);
+        },
+      });
+      send({ type: 'request', id, request: type, params } as HostToFrameMessage);
+    });
+  };
+
+  return {
+    ready,
+    on: (event, handler) => {
+      const set = handlers.get(event) ?? new Set();
+      set.add(handler as (detail: never) => void);
+      handlers.set(event, set);
+      return () => set.delete(handler as (detail: never) => void);
+    },
+    setConfig: (config) => request('setConfig', { config }),
+    applySku: (sku) => request('applySku', { sku }),
+    addToQuote: () => request('addToQuote', {}),
+    getState: () => request('getState', {}),
+    setTheme: (theme) => request('setTheme', { theme }),
+    destroy: () => {
+      window.removeEventListener('message', handleMessage);
+      window.clearInterval(helloTimer);
+      window.clearTimeout(handshakeTimer);
+      if (!connected) rejectReady(new ConfiguratorFrameError('Configurator frame was destroyed'));
+      pending.forEach(({ reject }) => reject(new ConfiguratorFrameError('Configurator frame was destroyed')));
+      pending.clear();
+    },
+  };
+}
+
+export { EMBED_PROTOCOL_VERSION };
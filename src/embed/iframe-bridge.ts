@@ -0,0 +1,173 @@
+/**
+ * Iframe Bridge
+ *
+ * Frame side of the embed protocol (see iframe-protocol.ts). Answers the host's
+ * handshake when its origin is allow-listed, runs host requests through the shared
+ * host actions and forwards configurator events and content height to the host.
+ */
+
+import {
+  addConfigurationToQuote,
+  applyHostConfig,
+  applyHostSku,
+  applyHostTheme,
+  getConfiguratorSnapshot,
+  watchConfiguratorEvents,
+} from './configurator-host';
+import {
+  EMBED_PROTOCOL_VERSION,
+  createEmbedMessage,
+  isEmbedMessage,
+  isOriginAllowed,
+  type FrameToHostMessage,
+  type HostToFrameMessage,
+} from './iframe-protocol';
+import type { ConfiguratorEventEmitter } from './embed-options';
+
+export interface IframeBridgeOptions {
+  // Host origins allowed to drive the configurator; "*" allows any
+  allowedOrigins: string[];
+}
+
+export interface IframeBridge {
+  // Pass to App as its embed emitter so UI events reach the host
+  emit: ConfiguratorEventEmitter;
+  stop: () => void;
+}
+
+interface HostWindow {
+  source: Window;
+  origin: string;
+}
+
+type HostRequest = Extract<HostToFrameMessage, { type: 'request' }>;
+
+export function startIframeBridge({ allowedOrigins }: IframeBridgeOptions): IframeBridge {
+  let host: HostWindow | null = null;
+  let isReady = false;
+  let lastHeight = 0;
+  let unwatch: (() => void) | null = null;
+  let resizeObserver: ResizeObserver | null = null;
+
+  const post = (message: FrameToHostMessage, to: HostWindow | null = host) => {
+    to?.source.postMessage(createEmbedMessage(message), to.origin);
+  };
+
+  const emit: ConfiguratorEventEmitter = (event, detail) => {
+    if (event === 'ready') isReady = true;
+    post({ type: 'event', event, detail } as FrameToHostMessage);
+  };
+
+  const postHeight = () => {
+    const height = Math.ceil(document.documentElement.scrollHeight);
+    if (height === lastHeight) return;
+    lastHeight = height;
+    post({ type: 'resize', height });
+  };
+
+  const respond = async (id: string, run: () => Promise<unknown>) => {
+    try {
+      post({ type: 'response', id, ok: true, result: await run() });
+    } catch (error) {
+      post({ type: 'response', id, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleRequest = (message: HostRequest) => {
+    switch (message.request) {
+      case 'setConfig':
+        return respond(message.id, async () => {
+          if (!message.params?.config || typeof message.params.config !== 'object') {
+            throw new Error('setConfig needs a config object');
+          }
+          await applyHostConfig(message.params.config);
+          return getConfiguratorSnapshot();
+        });
+      case 'applySku':
+        return respond(message.id, async () => {
+          if (typeof message.params?.sku !== 'string' || !message.params.sku.trim()) {
+            throw new Error('applySku needs a sku');
+          }
+          const applied = await applyHostSku(message.params.sku);
+          return { applied, snapshot: await getConfiguratorSnapshot() };
+        });
+      case 'addToQuote':
+        return respond(message.id, async () => ({ item: await addConfigurationToQuote(emit) }));
+      case 'getState':
+        return respond(message.id, getConfiguratorSnapshot);
+      case 'setTheme':
+        return respond(message.id, async () => {
+          if (!message.params?.theme) throw new Error('setTheme needs a theme');
+          return applyHostTheme(message.params.theme);
+        });
+      default:
+        return respond((message as HostRequest).id, async () => {
+          throw new Error(`Unknown request "${(message as { request?: unknown }).request}"`);
+        });
+    }
+  };
+
+  const connect = async (next: HostWindow) => {
+    host = next;
+    if (!unwatch) {
+      unwatch = watchConfiguratorEvents(emit);
+      if (typeof ResizeObserver !== 'undefined') {
+        resizeObserver = new ResizeObserver(postHeight);
+        resizeObserver.observe(document.documentElement);
+      }
+    }
+
+    post({ type: 'welcome', ready: isReady, snapshot: await getConfiguratorSnapshot() });
+    lastHeight = 0;
+    postHeight();
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (!isEmbedMessage(event.data)) return;
+    if (!isOriginAllowed(event.origin, allowedOrigins)) {
+      if (import.meta.env.DEV) console.warn(`[iframe-bridge] Ignoring message from ${event.origin}; not in the allow-list`);
+      return;
+    }
+
+    const sender: HostWindow = { source: (event.source as Window | null) ?? window.parent, origin: event.origin };
+    if (event.data.version > EMBED_PROTOCOL_VERSION) {
+      post(
+        {
+          type: 'error',
+          code: 'unsupported_version',
+          message: `Host speaks protocol v${event.data.version}; this configurator supports up to v${EMBED_PROTOCOL_VERSION}`,
+        },
+        sender
+      );
+      return;
+    }
+
+    const message = event.data as unknown as HostToFrameMessage;
+    if (message.type === 'hello') {
+      void connect(sender);
+      return;
+    }
+
+    // Requests are only taken from the origin that completed the handshake
+    if (!host || event.origin !== host.origin) return;
+    if (message.type === 'request' && typeof message.id === 'string') {
+      void handleRequest(message);
+    } else {
+      post({ type: 'error', code: 'bad_request', message: `Unknown message type "${event.data.type}"` });
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+
+  return {
+    emit,
+    stop: () => {
+      window.removeEventListener('message', handleMessage);
+      unwatch?.();
+      resizeObserver?.disconnect();
+      unwatch = null;
+      resizeObserver = null;
+      host = null;
+    },
+  };
+}
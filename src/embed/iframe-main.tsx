@@ -0,0 +1,51 @@
+/**
+ * Iframe entry point (embed.html)
+ *
+ * Renders the configurator for dealer sites that embed it in an iframe. Options come
+ * from the query string (same names as the <mtx-configurator> attributes) and the host
+ * page drives it over postMessage through the iframe bridge. The dev server serves
+ * embed.html directly; npm run build emits it as a standalone page in dist/embed
+ * (vite.embed.config.ts), which is deployed next to the library bundle and framed as
+ * <host>/embed/embed.html.
+ */
+
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import { NuqsAdapter } from 'nuqs/adapters/react'
+import App from '../App'
+import '../styles/globals.css'
+import { getEmbedAllowedOrigins, initializeEnvironment } from '../utils/environment'
+import { createSnapshotDataProvider, fetchDataSnapshot, setDataProvider } from '../services/data-provider'
+import { startDataLayer } from '../services/data-layer'
+import { supabase } from '../services/supabase'
+import { readEmbedOptions } from './embed-options'
+import { normalizeOrigin } from './iframe-protocol'
+import { startIframeBridge } from './iframe-bridge'
+
+initializeEnvironment()
+
+if (import.meta.env.VITE_DATA_SNAPSHOT_URL) {
+  setDataProvider(createSnapshotDataProvider(fetchDataSnapshot(import.meta.env.VITE_DATA_SNAPSHOT_URL)))
+} else {
+  startDataLayer(supabase)
+}
+
+const params = new URLSearchParams(window.location.search)
+const options = readEmbedOptions((name) => params.get(name))
+
+const bridge = startIframeBridge({
+  allowedOrigins: getEmbedAllowedOrigins()
+    .map(normalizeOrigin)
+    .filter((origin): origin is string => origin !== null),
+})
+
+const container = document.getElementById('root')
+if (container) {
+  ReactDOM.createRoot(container).render(
+    <React.StrictMode>
+      <NuqsAdapter>
+        <App embed={{ options, emit: bridge.emit }} />
+      </NuqsAdapter>
+    </React.StrictMode>,
+  )
+}
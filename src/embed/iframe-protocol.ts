@@ -0,0 +1,89 @@
+/**
+ * Iframe Embed Protocol
+ *
+ * postMessage protocol between a dealer page (host) and the configurator running in
+ * an iframe (embed.html). Every message is an envelope tagged with the protocol name
+ * and version so unrelated messages on either window are ignored.
+ *
+ * 1. Handshake: the host sends `hello` until the frame answers `welcome`. The frame
+ *    only answers origins on its allow-list and from then on talks to that origin only.
+ * 2. Requests: the host sends `setConfig`, `applySku`, `addToQuote`, `getState` or
+ *    `setTheme` with an id; the frame answers with a `response` carrying the same id.
+ * 3. Events: the frame sends `event` messages (ConfiguratorEventMap) and `resize`
+ *    messages with its content height.
+ *
+ * The envelope carries the sender's protocol version (currently 1). A frame answers a
+ * host speaking a newer version with an `error` message; additive changes (new events
+ * or requests) do not bump the version.
+ *
+ * This module has no runtime dependencies so the host SDK can ship on its own.
+ */
+
+import type { ProductConfig, QuoteItem } from '../store/types';
+import type { ConfiguratorTheme, ThemeInput } from '../services/theme';
+import type { ConfiguratorEventMap, ConfiguratorEventType, ConfiguratorSnapshot } from './embed-options';
+
+export const EMBED_PROTOCOL = 'mtx-configurator';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Requests and what the frame resolves them with
+export interface EmbedRequestMap {
+  setConfig: { params: { config: Partial<ProductConfig> }; result: ConfiguratorSnapshot };
+  applySku: { params: { sku: string }; result: { applied: boolean; snapshot: ConfiguratorSnapshot } };
+  addToQuote: { params: Record<string, never>; result: { item: QuoteItem } };
+  getState: { params: Record<string, never>; result: ConfiguratorSnapshot };
+  // Theme tokens, or a theme JSON URL / dealer slug; resolves with the applied theme
+  setTheme: { params: { theme: ThemeInput | string }; result: ConfiguratorTheme };
+}
+
+export type EmbedRequestType = keyof EmbedRequestMap;
+
+export type HostToFrameMessage =
+  | { type: 'hello' }
+  | {
+      [K in EmbedRequestType]: { type: 'request'; id: string; request: K; params: EmbedRequestMap[K]['params'] };
+    }[EmbedRequestType];
+
+export type FrameToHostMessage =
+  | { type: 'welcome'; ready: boolean; snapshot: ConfiguratorSnapshot }
+  | { type: 'error'; code: 'unsupported_version' | 'bad_request'; message: string }
+  | { type: 'response'; id: string; ok: true; result: unknown }
+  | { type: 'response'; id: string; ok: false; error: string }
+  | {
+      [K in ConfiguratorEventType]: { type: 'event'; event: K; detail: ConfiguratorEventMap[K] };
+    }[ConfiguratorEventType]
+  | { type: 'resize'; height: number };
+
+export type EmbedEnvelope<M> = M & { protocol: typeof EMBED_PROTOCOL; version: number };
+
+export function createEmbedMessage<M extends HostToFrameMessage | FrameToHostMessage>(message: M): EmbedEnvelope<M> {
+  return { ...message, protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION };
+}
+
+export function isEmbedMessage(data: unknown): data is EmbedEnvelope<{ type: string }> {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    (data as { protocol?: unknown }).protocol === EMBED_PROTOCOL &&
+    typeof (data as { type?: unknown }).type === 'string' &&
+    typeof (data as { version?: unknown }).version === 'number'
+  );
+}
+
+/**
+ * Normalise an allow-list entry ("https://dealer.example/", "dealer.example") to an origin;
+ * "*" is kept as a wildcard
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (trimmed === '*') return trimmed;
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.some((allowed) => allowed === '*' || allowed === origin);
+}
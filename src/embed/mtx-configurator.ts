@@ -0,0 +1,173 @@
+/**
+ * <mtx-configurator> Custom Element
+ *
+ * Mounts the configurator into any page:
+ *
+ *   <mtx-configurator product-line="DEC" sku="T02d-2436" features="quote print"></mtx-configurator>
+ *
+ * - Attributes: product-line, sku, locale, units (in, mm or cm), theme, features (space
+ *   or comma separated, see CONFIGURATOR_FEATURES; all features are enabled when absent)
+ * - Events (CustomEvent, bubbling): ready, configchange, skuchange, addtoquote, quotesubmit
+ * - Methods: setConfig(partial), getConfig(), getSku(), reset(), setTheme(theme)
+ *
+ * The element renders into its own light DOM so the bundled stylesheet applies. All
+ * instances share the one configurator store, so a page should host a single element.
+ */
+
+import { StrictMode, createElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { NuqsAdapter } from 'nuqs/adapters/react';
+import App from '../App';
+import { useConfiguratorStore } from '../store';
+import type { ProductConfig } from '../store/types';
+import type { ConfiguratorTheme, ThemeInput } from '../services/theme';
+import { applyHostConfig, applyHostTheme, watchConfiguratorEvents } from './configurator-host';
+import {
+  readEmbedOptions,
+  type ConfiguratorEmbedOptions,
+  type ConfiguratorEventEmitter,
+  type ConfiguratorEventMap,
+} from './embed-options';
+
+export const CONFIGURATOR_TAG_NAME = 'mtx-configurator';
+
+export type MtxConfiguratorEventMap = {
+  [K in keyof ConfiguratorEventMap]: CustomEvent<ConfiguratorEventMap[K]>;
+};
+
+let connectedCount = 0;
+
+export class MtxConfiguratorElement extends HTMLElement {
+  static observedAttributes = ['product-line', 'sku', 'locale', 'units', 'theme', 'features'];
+
+  private root: Root | null = null;
+  private unwatch: (() => void) | null = null;
+
+  get options(): ConfiguratorEmbedOptions {
+    return readEmbedOptions((name) => this.getAttribute(name));
+  }
+
+  connectedCallback(): void {
+    if (this.root) return;
+
+    connectedCount += 1;
+    if (connectedCount > 1) {
+      console.warn(`[${CONFIGURATOR_TAG_NAME}] More than one configurator on the page; they share the same state.`);
+    }
+
+    this.root = createRoot(this);
+    this.render();
+
+    this.unwatch = watchConfiguratorEvents(this.emit);
+  }
+
+  disconnectedCallback(): void {
+    this.unwatch?.();
+    this.unwatch = null;
+    this.root?.unmount();
+    this.root = null;
+    connectedCount -= 1;
+  }
+
+  attributeChangedCallback(): void {
+    if (this.root) this.render();
+  }
+
+  /**
+   * Apply option selections (option ids, or width/height in inches) to the current configuration
+   */
+  setConfig(config: Partial<ProductConfig>): Promise<void> {
+    return applyHostConfig(config);
+  }
+
+  getConfig(): ProductConfig | null {
+    const config = useConfiguratorStore.getState().currentConfig;
+    return config ? { ...config } : null;
+  }
+
+  getSku(): Promise<string | null> {
+    return useConfiguratorStore.getState().getGeneratedSKU();
+  }
+
+  async reset(): Promise<void> {
+    const { resetConfiguration, setCustomSizeEnabled } = useConfiguratorStore.getState();
+    await resetConfiguration();
+    setCustomSizeEnabled(false);
+  }
+
+  /**
+   * Switch the theme without reloading: theme tokens, or a theme JSON URL / dealer slug.
+   * Rejects with a ThemeError when the theme is invalid.
+   */
+  setTheme(theme: ThemeInput | string): Promise<ConfiguratorTheme> {
+    return applyHostTheme(theme);
+  }
+
+  addEventListener<K extends keyof MtxConfiguratorEventMap>(
+    type: K,
+    listener: (this: MtxConfiguratorElement, event: MtxConfiguratorEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof MtxConfiguratorEventMap>(
+    type: K,
+    listener: (this: MtxConfiguratorElement, event: MtxConfiguratorEventMap[K]) => void,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void {
+    super.removeEventListener(type, listener, options);
+  }
+
+  private emit: ConfiguratorEventEmitter = (type, detail) => {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  };
+
+  private render(): void {
+    this.root?.render(
+      createElement(
+        StrictMode,
+        null,
+        createElement(NuqsAdapter, null, createElement(App, { embed: { options: this.options, emit: this.emit } }))
+      )
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mtx-configurator': MtxConfiguratorElement;
+  }
+}
+
+/**
+ * Register the element; safe to call more than once
+ */
+export function defineConfiguratorElement(tagName: string = CONFIGURATOR_TAG_NAME): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // Each registration needs its own constructor
+  customElements.define(
+    tagName,
+    tagName === CONFIGURATOR_TAG_NAME ? MtxConfiguratorElement : class extends MtxConfiguratorElement {}
+  );
+}
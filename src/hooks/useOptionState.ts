@@ -9,11 +9,19 @@
 
 import { useMemo } from 'react';
 import { useAPIState } from '../store';
+import { explainDisabledOption } from '../services/option-explainer';
+import type { DisabledReason } from '../store/types';
 
 export interface OptionState {
   isDisabled: boolean;
   isSelected: boolean;
   isAvailable: boolean;
+  // Why the option is disabled (rules matched / upstream selections); empty when enabled
+  reasons: DisabledReason[];
+  // disabledOptionIds key for the collection, used to ask for enabling changes
+  disabledKey?: string;
+  // Products offering the option under the upstream selections; null when not faceted
+  productCount: number | null;
 }
 
 export interface OptionStateManager {
@@ -31,7 +39,7 @@ export interface OptionStateManager {
  * All state decisions are driven by API data, never hard-coded
  */
 export function useOptionState(currentSelection: Record<string, string>): OptionStateManager {
-  const { disabledOptionIds, productOptions } = useAPIState();
+  const { disabledOptionIds, disabledOptionReasons, productOptions, optionCounts } = useAPIState();
 
   return useMemo(() => {
     // Map collection names to their corresponding disabledOptionIds keys
@@ -117,7 +125,14 @@ export function useOptionState(currentSelection: Record<string, string>): Option
       return {
         isDisabled,
         isSelected,
-        isAvailable: !isDisabled
+        isAvailable: !isDisabled,
+        reasons: isDisabled && disabledKey
+          ? explainDisabledOption(disabledOptionIds, disabledOptionReasons || {}, disabledKey, optionId)
+          : [],
+        disabledKey,
+        productCount: disabledKey && optionCounts[disabledKey]
+          ? optionCounts[disabledKey][optionId] ?? 0
+          : null
       };
     };
 
@@ -165,7 +180,7 @@ export function useOptionState(currentSelection: Record<string, string>): Option
       getOptionState,
       getCollectionState
     };
-  }, [disabledOptionIds, currentSelection, productOptions]);
+  }, [disabledOptionIds, disabledOptionReasons, currentSelection, productOptions, optionCounts]);
 }
 
 /**
@@ -0,0 +1,35 @@
+/**
+ * Internationalization
+ *
+ * Components call useI18n() for the translator of the store's current locale; store
+ * actions and services use getTranslator(state). See translator.ts for message format.
+ */
+
+import { useMemo } from 'react';
+import { useLocale, useOptionTranslations } from '../store';
+import { getTranslator, type Translator } from './translator';
+
+export {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  detectLocale,
+  getStoredLocale,
+  matchLocale,
+  storeLocale,
+} from './locale';
+export {
+  createTranslator,
+  getTranslator,
+  type MessageKey,
+  type MessageParams,
+  type OptionTranslations,
+  type PartialCatalog,
+  type PluralMessage,
+  type Translator,
+} from './translator';
+
+export function useI18n(): Translator {
+  const locale = useLocale();
+  const optionTranslations = useOptionTranslations();
+  return useMemo(() => getTranslator({ locale, optionTranslations }), [locale, optionTranslations]);
+}
@@ -0,0 +1,76 @@
+/**
+ * Locale Detection
+ *
+ * The configurator's locale is, in order: an explicit override (embed locale attribute,
+ * ?locale= parameter), the language the user picked last time (localStorage), the
+ * browser's languages, then English. Any BCP 47 tag whose language has a catalog is
+ * accepted as-is, so "fr-CA" uses the French messages with Canadian number formats.
+ */
+
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import type { PartialCatalog } from './translator';
+
+export const DEFAULT_LOCALE = 'en';
+
+export const SUPPORTED_LOCALES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+] as const;
+
+const CATALOGS: Record<string, PartialCatalog> = { en, es, fr };
+
+const LOCALE_STORAGE_KEY = 'mtx-configurator-locale';
+
+const baseLanguage = (locale: string) => locale.split('-')[0].toLowerCase();
+
+/**
+ * Canonical form of a requested locale when there is a catalog for its language, else null
+ */
+export function matchLocale(requested: string | null | undefined): string | null {
+  if (!requested?.trim()) return null;
+  try {
+    const [canonical] = Intl.getCanonicalLocales(requested.trim().replace(/_/g, '-'));
+    return canonical && CATALOGS[baseLanguage(canonical)] ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getCatalog(locale: string): PartialCatalog {
+  return CATALOGS[locale] ?? CATALOGS[baseLanguage(locale)] ?? {};
+}
+
+export function detectLocale({
+  override,
+  languages = typeof navigator !== 'undefined' ? navigator.languages : [],
+}: { override?: string | null; languages?: readonly string[] } = {}): string {
+  const candidates = [override, getStoredLocale(), ...languages];
+  for (const candidate of candidates) {
+    const match = matchLocale(candidate);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function getStoredLocale(): string | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(LOCALE_STORAGE_KEY) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the language the user picked; pass null to go back to detection
+ */
+export function storeLocale(locale: string | null): void {
+  try {
+    if (locale) localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    else localStorage.removeItem(LOCALE_STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * English messages: the source catalog. Every key lives here; other catalogs may leave
+ * keys out and fall back to these. Placeholders are {name}; plural messages pick a form
+ * by {count} (Intl.PluralRules categories: zero, one, two, few, many, other).
+ */
+export const en = {
+  app: {
+    title: 'Product Configurator',
+    loading: 'Loading Product Configurator',
+    loadingHint: 'Preparing your custom mirror configuration experience...',
+    language: 'Language',
+  },
+  nav: {
+    searchBySku: 'Search by SKU',
+    importSkus: 'Import SKUs',
+    importQuote: 'Import Quote',
+    exportQuote: 'Export Quote',
+    viewDetails: 'View Details',
+  },
+  cta: {
+    addToQuote: 'Add to Quote',
+    updateQuoteLine: 'Update Quote Line',
+    requestQuote: 'Request Quote',
+    submitQuote: 'Submit Quote Request',
+    submitting: 'Submitting…',
+    cancel: 'Cancel',
+    close: 'Close',
+  },
+  collections: {
+    mirror_styles: 'Mirror Style',
+    frame_colors: 'Frame Color',
+    frame_thicknesses: 'Frame Thickness',
+    light_directions: 'Light Direction',
+    mounting_options: 'Orientation',
+    drivers: 'Driver Options',
+    color_temperatures: 'Color Temperature',
+    light_outputs: 'Light Output',
+    sizes: 'Size',
+    accessories: 'Accessories',
+    hanging_techniques: 'Hanging Technique',
+    mirror_controls: 'Mirror Controls',
+  },
+  option: {
+    productCount: {
+      one: '{count} product',
+      other: '{count} products',
+    },
+    whyUnavailable: 'Why is {option} unavailable?',
+    unavailableTitle: 'Why is this unavailable?',
+    noReason: 'No reason was recorded for this option.',
+    toEnable: 'To enable it',
+    checkingAlternatives: 'Checking alternatives…',
+    noEnablingChange: 'No single selection change enables this option.',
+    ruleRequires: 'Rule "{rule}" requires a different option',
+    ruleExcludes: 'Rule "{rule}" excludes this option',
+    sizeAbove: 'Not available for a {dimension} above {length}"',
+    dimensions: {
+      width: 'width',
+      height: 'height',
+      either: 'width or height',
+    },
+    noProducts: 'No products in this product line offer this option',
+    noMatch: 'No products match the selected {selections}',
+    selection: '{field} "{option}"',
+    selectionJoin: ' with ',
+    change: 'Change {field} from "{from}" to "{to}"',
+    fields: {
+      productLineId: 'product line',
+      mirrorStyle: 'mirror style',
+      lighting: 'lighting',
+      frameThickness: 'frame thickness',
+      frameColor: 'frame color',
+      mirrorControls: 'mirror controls',
+      mounting: 'mounting',
+      hangingTechnique: 'hanging technique',
+      driver: 'driver',
+      colorTemperature: 'color temperature',
+      lightOutput: 'light output',
+      accessories: 'accessories',
+      size: 'size',
+    },
+  },
+  size: {
+    customSize: 'Custom Size',
+    width: 'Width ({unit})',
+    height: 'Height ({unit})',
+    units: {
+      in: 'inches',
+      mm: 'millimetres',
+      cm: 'centimetres',
+    },
+    symbols: {
+      in: 'in',
+      mm: 'mm',
+      cm: 'cm',
+    },
+    unitPicker: 'Size units',
+    invalid: 'Enter a length such as 24 1/4, 24.25 or 616 mm',
+    issues: {
+      width_min: 'Width must be at least {length}',
+      width_max: 'Width can be at most {length}',
+      height_min: 'Height must be at least {length}',
+      height_max: 'Height can be at most {length}',
+      increment: 'Use steps of {length}',
+      aspect_min: 'Width must be at least {ratio} times the height',
+      aspect_max: 'Width can be at most {ratio} times the height',
+      requirement: 'Sizes over {length} need different options',
+    },
+    suggestion: 'Nearest valid size: {size}',
+    useSuggestion: 'Use this size',
+  },
+  configuration: {
+    title: 'Current Configuration',
+    dimensions: 'Dimensions',
+    frame: 'Frame',
+    mounting: 'Mounting',
+    colorTemp: 'Color Temp',
+    lighting: 'Lighting',
+    quantity: 'Qty: {quantity}',
+    notAvailable: 'N/A',
+    frameColor: 'Frame Color',
+    hangingTechnique: 'Hanging Technique',
+    mirrorStyle: 'Mirror Style',
+    controls: 'Controls',
+    lightOutput: 'Light Output',
+    driver: 'Driver',
+    accessories: 'Accessories',
+    estimatedPrice: 'Estimated Price',
+    pricingValidUntil: 'Pricing valid until {date}',
+    productSku: 'Product SKU',
+    copySku: 'Copy SKU to clipboard',
+    copyLink: 'Copy shareable link to clipboard',
+    printSpecSheet: 'Print spec sheet',
+    quantityLabel: 'Quantity',
+  },
+  quote: {
+    currentQuote: {
+      one: 'Current Quote ({count} item)',
+      other: 'Current Quote ({count} items)',
+    },
+    items: 'Quote Items ({count})',
+    summary: 'Quote Summary',
+    item: 'Item {index}',
+    quantity: 'Quantity:',
+    editing: 'Editing in configurator',
+    unavailableOptions: 'Some options on this line are no longer available. Re-open it to update.',
+    total: 'Total Estimated Value:',
+    totalDisclaimer: 'Final pricing may vary based on customizations and installation requirements.',
+    priceOnRequest: 'Price on request',
+    unpricedExcluded: 'Lines priced on request are not included.',
+    detail: '{label}: {value}',
+    notSpecified: 'Not specified',
+    empty: 'No items in quote. Please add some configurations first.',
+    sku: 'SKU: {sku}',
+    room: 'Room',
+    roomPlaceholder: 'Room (e.g. Bathroom 2F)',
+    note: 'Note',
+    reopen: 'Re-open in configurator',
+    duplicate: 'Duplicate line',
+    remove: 'Remove line',
+    print: 'Print Quote',
+    preparing: 'Preparing…',
+    exportFailed: "We couldn't export the quote.",
+    importEmpty: 'That file has no quote lines to import.',
+    unrecognisedFormat: 'Unrecognised quote file format',
+    importReplace: {
+      one: 'Replace the {count} line in your quote? Choose Cancel to add the imported lines instead.',
+      other: 'Replace the {count} lines in your quote? Choose Cancel to add the imported lines instead.',
+    },
+    importFailed: "We couldn't import that quote. {reason}",
+    unreadableFile: "We couldn't read that file.",
+    documentFailed: "We couldn't prepare the quote document. Please try again.",
+    submitted: 'Your quote request has been submitted! Your quote number is {quoteNumber}.',
+    printNow: 'Print a copy of the quote now?',
+    submitFailed: "We couldn't submit your quote request. Please try again.",
+  },
+  customer: {
+    title: 'Customer Information',
+    contactTitle: 'Contact Information',
+    name: 'Name',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    email: 'Email',
+    emailAddress: 'Email Address',
+    phone: 'Phone',
+    phoneNumber: 'Phone Number',
+    company: 'Company',
+    projectName: 'Project Name',
+    notes: 'Additional Notes',
+    notesPlaceholder: 'Any specific requirements, installation details, or questions...',
+    required: '{label} *',
+  },
+  adjustment: {
+    reason: {
+      disabled: 'Selection became disabled due to dynamic filtering',
+      unavailable: 'Selection became unavailable due to dynamic filtering',
+    },
+    savedUnavailable: 'Saved selection is no longer available',
+  },
+  bulkImport: {
+    title: 'Import SKUs',
+    description:
+      'Paste a list of SKUs or upload a CSV with SKU and quantity columns. Resolve any ambiguous rows, then add them to the quote together.',
+    uploadCsv: 'Upload CSV',
+    check: 'Check SKUs',
+    noSkus: 'No SKUs found. Paste one SKU per line, optionally followed by a quantity.',
+    added: {
+      one: 'Added {count} line to the quote.',
+      other: 'Added {count} lines to the quote.',
+    },
+    needAttention: {
+      one: '{count} row needs attention.',
+      other: '{count} rows need attention.',
+    },
+    addToQuote: 'Add {count} to Quote',
+    row: 'Line {line} • Qty {quantity}',
+    removeRow: 'Remove row',
+    chooseProduct: 'Choose a product ({count} matches)',
+    chooseOption: 'Choose an option',
+  },
+  document: {
+    quote: 'Quote',
+    draft: 'Draft — not yet submitted',
+    issued: 'Issued {date}',
+    validUntil: 'Valid until {date}',
+    preparedFor: 'Prepared for',
+    total: 'Total {amount}',
+    excludesUnpriced: 'Excludes lines priced on request',
+    terms: 'Terms',
+    pricingValidUntil: 'Pricing is valid until {date}.',
+    specSheet: 'Specification Sheet',
+    productSpecSheet: 'Product spec sheet:',
+    revitFamily: 'Revit family:',
+    generated: 'Generated {date}',
+  },
+};
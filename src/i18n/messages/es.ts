@@ -0,0 +1,227 @@
+import type { PartialCatalog } from '../translator';
+
+export const es: PartialCatalog = {
+  app: {
+    title: 'Configurador de productos',
+    loading: 'Cargando el configurador de productos',
+    loadingHint: 'Preparando la configuración personalizada de su espejo...',
+    language: 'Idioma',
+  },
+  nav: {
+    searchBySku: 'Buscar por SKU',
+    importSkus: 'Importar SKU',
+    importQuote: 'Importar cotización',
+    exportQuote: 'Exportar cotización',
+    viewDetails: 'Ver detalles',
+  },
+  cta: {
+    addToQuote: 'Agregar a la cotización',
+    updateQuoteLine: 'Actualizar línea',
+    requestQuote: 'Solicitar cotización',
+    submitQuote: 'Enviar solicitud de cotización',
+    submitting: 'Enviando…',
+    cancel: 'Cancelar',
+    close: 'Cerrar',
+  },
+  collections: {
+    mirror_styles: 'Estilo de espejo',
+    frame_colors: 'Color del marco',
+    frame_thicknesses: 'Grosor del marco',
+    light_directions: 'Dirección de la luz',
+    mounting_options: 'Orientación',
+    drivers: 'Opciones de controlador',
+    color_temperatures: 'Temperatura de color',
+    light_outputs: 'Intensidad de luz',
+    sizes: 'Tamaño',
+    accessories: 'Accesorios',
+    hanging_techniques: 'Sistema de colgado',
+    mirror_controls: 'Controles del espejo',
+  },
+  option: {
+    productCount: {
+      one: '{count} producto',
+      other: '{count} productos',
+    },
+    whyUnavailable: '¿Por qué {option} no está disponible?',
+    unavailableTitle: '¿Por qué no está disponible?',
+    noReason: 'No se registró ningún motivo para esta opción.',
+    toEnable: 'Para habilitarla',
+    checkingAlternatives: 'Buscando alternativas…',
+    noEnablingChange: 'Ningún cambio de una sola selección habilita esta opción.',
+    ruleRequires: 'La regla "{rule}" exige otra opción',
+    ruleExcludes: 'La regla "{rule}" excluye esta opción',
+    sizeAbove: 'No disponible para un {dimension} superior a {length}"',
+    dimensions: {
+      width: 'ancho',
+      height: 'alto',
+      either: 'ancho o alto',
+    },
+    noProducts: 'Ningún producto de esta línea ofrece esta opción',
+    noMatch: 'Ningún producto coincide con la selección: {selections}',
+    selectionJoin: ' con ',
+    change: '{field}: cambie "{from}" por "{to}"',
+    fields: {
+      productLineId: 'línea de productos',
+      mirrorStyle: 'estilo de espejo',
+      lighting: 'iluminación',
+      frameThickness: 'grosor del marco',
+      frameColor: 'color del marco',
+      mirrorControls: 'controles del espejo',
+      mounting: 'montaje',
+      hangingTechnique: 'técnica de colgado',
+      driver: 'controlador',
+      colorTemperature: 'temperatura de color',
+      lightOutput: 'potencia lumínica',
+      accessories: 'accesorios',
+      size: 'tamaño',
+    },
+  },
+  size: {
+    customSize: 'Tamaño personalizado',
+    width: 'Ancho ({unit})',
+    height: 'Alto ({unit})',
+    units: {
+      in: 'pulgadas',
+      mm: 'milímetros',
+      cm: 'centímetros',
+    },
+    symbols: {
+      in: 'pulg.',
+    },
+    unitPicker: 'Unidades de medida',
+    invalid: 'Ingrese una medida como 24 1/4, 24.25 o 616 mm',
+    issues: {
+      width_min: 'El ancho debe ser de al menos {length}',
+      width_max: 'El ancho puede ser de hasta {length}',
+      height_min: 'La altura debe ser de al menos {length}',
+      height_max: 'La altura puede ser de hasta {length}',
+      increment: 'Use incrementos de {length}',
+      aspect_min: 'El ancho debe ser al menos {ratio} veces la altura',
+      aspect_max: 'El ancho puede ser como máximo {ratio} veces la altura',
+      requirement: 'Los tamaños de más de {length} requieren otras opciones',
+    },
+    suggestion: 'Tamaño válido más cercano: {size}',
+    useSuggestion: 'Usar este tamaño',
+  },
+  configuration: {
+    title: 'Configuración actual',
+    dimensions: 'Dimensiones',
+    frame: 'Marco',
+    mounting: 'Montaje',
+    colorTemp: 'Temp. de color',
+    lighting: 'Iluminación',
+    quantity: 'Cant.: {quantity}',
+    notAvailable: 'N/D',
+    frameColor: 'Color del marco',
+    hangingTechnique: 'Sistema de colgado',
+    mirrorStyle: 'Estilo de espejo',
+    controls: 'Controles',
+    lightOutput: 'Intensidad de luz',
+    driver: 'Controlador',
+    accessories: 'Accesorios',
+    estimatedPrice: 'Precio estimado',
+    pricingValidUntil: 'Precios válidos hasta el {date}',
+    productSku: 'SKU del producto',
+    copySku: 'Copiar SKU al portapapeles',
+    copyLink: 'Copiar enlace para compartir',
+    printSpecSheet: 'Imprimir ficha técnica',
+    quantityLabel: 'Cantidad',
+  },
+  quote: {
+    currentQuote: {
+      one: 'Cotización actual ({count} artículo)',
+      other: 'Cotización actual ({count} artículos)',
+    },
+    items: 'Artículos de la cotización ({count})',
+    summary: 'Resumen de la cotización',
+    item: 'Artículo {index}',
+    quantity: 'Cantidad:',
+    editing: 'Editando en el configurador',
+    unavailableOptions: 'Algunas opciones de esta línea ya no están disponibles. Vuelva a abrirla para actualizarla.',
+    total: 'Valor total estimado:',
+    totalDisclaimer: 'El precio final puede variar según las personalizaciones y los requisitos de instalación.',
+    priceOnRequest: 'Precio a consultar',
+    unpricedExcluded: 'Las líneas con precio a consultar no están incluidas.',
+    notSpecified: 'Sin especificar',
+    empty: 'No hay artículos en la cotización. Agregue primero alguna configuración.',
+    room: 'Ambiente',
+    roomPlaceholder: 'Ambiente (p. ej. Baño 2.º piso)',
+    note: 'Nota',
+    reopen: 'Volver a abrir en el configurador',
+    duplicate: 'Duplicar línea',
+    remove: 'Eliminar línea',
+    print: 'Imprimir cotización',
+    preparing: 'Preparando…',
+    exportFailed: 'No pudimos exportar la cotización.',
+    importEmpty: 'Ese archivo no contiene líneas de cotización para importar.',
+    unrecognisedFormat: 'Formato de archivo de cotización no reconocido',
+    importReplace: {
+      one: '¿Reemplazar la línea de su cotización? Elija Cancelar para agregar las líneas importadas.',
+      other: '¿Reemplazar las {count} líneas de su cotización? Elija Cancelar para agregar las líneas importadas.',
+    },
+    importFailed: 'No pudimos importar esa cotización. {reason}',
+    unreadableFile: 'No pudimos leer ese archivo.',
+    documentFailed: 'No pudimos preparar el documento de la cotización. Inténtelo de nuevo.',
+    submitted: '¡Su solicitud de cotización fue enviada! Su número de cotización es {quoteNumber}.',
+    printNow: '¿Desea imprimir una copia de la cotización ahora?',
+    submitFailed: 'No pudimos enviar su solicitud de cotización. Inténtelo de nuevo.',
+  },
+  customer: {
+    title: 'Información del cliente',
+    contactTitle: 'Información de contacto',
+    name: 'Nombre',
+    firstName: 'Nombre',
+    lastName: 'Apellido',
+    email: 'Correo electrónico',
+    emailAddress: 'Correo electrónico',
+    phone: 'Teléfono',
+    phoneNumber: 'Número de teléfono',
+    company: 'Empresa',
+    projectName: 'Nombre del proyecto',
+    notes: 'Notas adicionales',
+    notesPlaceholder: 'Requisitos específicos, detalles de instalación o preguntas...',
+  },
+  adjustment: {
+    reason: {
+      disabled: 'La selección quedó deshabilitada por el filtrado dinámico',
+      unavailable: 'La selección dejó de estar disponible por el filtrado dinámico',
+    },
+    savedUnavailable: 'La selección guardada ya no está disponible',
+  },
+  bulkImport: {
+    title: 'Importar SKU',
+    description:
+      'Pegue una lista de SKU o cargue un CSV con columnas de SKU y cantidad. Resuelva las filas ambiguas y luego agréguelas juntas a la cotización.',
+    uploadCsv: 'Cargar CSV',
+    check: 'Verificar SKU',
+    noSkus: 'No se encontraron SKU. Pegue un SKU por línea, seguido opcionalmente de una cantidad.',
+    added: {
+      one: 'Se agregó {count} línea a la cotización.',
+      other: 'Se agregaron {count} líneas a la cotización.',
+    },
+    needAttention: {
+      one: '{count} fila requiere atención.',
+      other: '{count} filas requieren atención.',
+    },
+    addToQuote: 'Agregar {count} a la cotización',
+    row: 'Línea {line} • Cant. {quantity}',
+    removeRow: 'Eliminar fila',
+    chooseProduct: 'Elija un producto ({count} coincidencias)',
+    chooseOption: 'Elija una opción',
+  },
+  document: {
+    quote: 'Cotización',
+    draft: 'Borrador: aún no enviado',
+    issued: 'Emitida el {date}',
+    validUntil: 'Válida hasta el {date}',
+    preparedFor: 'Preparada para',
+    total: 'Total {amount}',
+    excludesUnpriced: 'No incluye las líneas con precio a consultar',
+    terms: 'Condiciones',
+    pricingValidUntil: 'Los precios son válidos hasta el {date}.',
+    specSheet: 'Ficha técnica',
+    productSpecSheet: 'Ficha técnica del producto:',
+    revitFamily: 'Familia de Revit:',
+    generated: 'Generada el {date}',
+  },
+};
@@ -0,0 +1,230 @@
+import type { PartialCatalog } from '../translator';
+
+export const fr: PartialCatalog = {
+  app: {
+    title: 'Configurateur de produits',
+    loading: 'Chargement du configurateur de produits',
+    loadingHint: 'Préparation de la configuration de votre miroir sur mesure...',
+    language: 'Langue',
+  },
+  nav: {
+    searchBySku: 'Rechercher par SKU',
+    importSkus: 'Importer des SKU',
+    importQuote: 'Importer un devis',
+    exportQuote: 'Exporter le devis',
+    viewDetails: 'Voir les détails',
+  },
+  cta: {
+    addToQuote: 'Ajouter au devis',
+    updateQuoteLine: 'Mettre à jour la ligne',
+    requestQuote: 'Demander un devis',
+    submitQuote: 'Envoyer la demande de devis',
+    submitting: 'Envoi…',
+    cancel: 'Annuler',
+    close: 'Fermer',
+  },
+  collections: {
+    mirror_styles: 'Style de miroir',
+    frame_colors: 'Couleur du cadre',
+    frame_thicknesses: 'Épaisseur du cadre',
+    light_directions: 'Direction de la lumière',
+    mounting_options: 'Orientation',
+    drivers: 'Options de pilote',
+    color_temperatures: 'Température de couleur',
+    light_outputs: 'Intensité lumineuse',
+    sizes: 'Taille',
+    accessories: 'Accessoires',
+    hanging_techniques: 'Technique de fixation',
+    mirror_controls: 'Commandes du miroir',
+  },
+  option: {
+    productCount: {
+      one: '{count} produit',
+      other: '{count} produits',
+    },
+    whyUnavailable: 'Pourquoi {option} n’est-il pas disponible ?',
+    unavailableTitle: 'Pourquoi cette option est-elle indisponible ?',
+    noReason: 'Aucun motif n’a été enregistré pour cette option.',
+    toEnable: 'Pour l’activer',
+    checkingAlternatives: 'Recherche d’alternatives…',
+    noEnablingChange: 'Aucun changement de sélection unique n’active cette option.',
+    ruleRequires: 'La règle « {rule} » impose une autre option',
+    ruleExcludes: 'La règle « {rule} » exclut cette option',
+    sizeAbove: 'Non disponible pour une {dimension} supérieure à {length}"',
+    dimensions: {
+      width: 'largeur',
+      height: 'hauteur',
+      either: 'largeur ou hauteur',
+    },
+    noProducts: 'Aucun produit de cette gamme ne propose cette option',
+    noMatch: 'Aucun produit ne correspond à la sélection : {selections}',
+    selection: '{field} « {option} »',
+    selectionJoin: ' avec ',
+    change: '{field} : remplacer « {from} » par « {to} »',
+    fields: {
+      productLineId: 'gamme de produits',
+      mirrorStyle: 'style de miroir',
+      lighting: 'éclairage',
+      frameThickness: 'épaisseur du cadre',
+      frameColor: 'couleur du cadre',
+      mirrorControls: 'commandes du miroir',
+      mounting: 'montage',
+      hangingTechnique: 'technique d’accrochage',
+      driver: 'alimentation',
+      colorTemperature: 'température de couleur',
+      lightOutput: 'flux lumineux',
+      accessories: 'accessoires',
+      size: 'taille',
+    },
+  },
+  size: {
+    customSize: 'Taille personnalisée',
+    width: 'Largeur ({unit})',
+    height: 'Hauteur ({unit})',
+    units: {
+      in: 'pouces',
+      mm: 'millimètres',
+      cm: 'centimètres',
+    },
+    symbols: {
+      in: 'po',
+    },
+    unitPicker: 'Unités de mesure',
+    invalid: 'Saisissez une mesure comme 24 1/4, 24,25 ou 616 mm',
+    issues: {
+      width_min: 'La largeur doit être d’au moins {length}',
+      width_max: 'La largeur peut être d’au plus {length}',
+      height_min: 'La hauteur doit être d’au moins {length}',
+      height_max: 'La hauteur peut être d’au plus {length}',
+      increment: 'Utilisez des pas de {length}',
+      aspect_min: 'La largeur doit être d’au moins {ratio} fois la hauteur',
+      aspect_max: 'La largeur peut être d’au plus {ratio} fois la hauteur',
+      requirement: 'Les dimensions de plus de {length} exigent d’autres options',
+    },
+    suggestion: 'Dimension valide la plus proche : {size}',
+    useSuggestion: 'Utiliser cette dimension',
+  },
+  configuration: {
+    title: 'Configuration actuelle',
+    dimensions: 'Dimensions',
+    frame: 'Cadre',
+    mounting: 'Montage',
+    colorTemp: 'Temp. de couleur',
+    lighting: 'Éclairage',
+    quantity: 'Qté : {quantity}',
+    notAvailable: 'N/D',
+    frameColor: 'Couleur du cadre',
+    hangingTechnique: 'Technique de fixation',
+    mirrorStyle: 'Style de miroir',
+    controls: 'Commandes',
+    lightOutput: 'Intensité lumineuse',
+    driver: 'Pilote',
+    accessories: 'Accessoires',
+    estimatedPrice: 'Prix estimé',
+    pricingValidUntil: 'Tarifs valables jusqu’au {date}',
+    productSku: 'SKU du produit',
+    copySku: 'Copier le SKU',
+    copyLink: 'Copier le lien de partage',
+    printSpecSheet: 'Imprimer la fiche technique',
+    quantityLabel: 'Quantité',
+  },
+  quote: {
+    currentQuote: {
+      one: 'Devis en cours ({count} article)',
+      other: 'Devis en cours ({count} articles)',
+    },
+    items: 'Articles du devis ({count})',
+    summary: 'Récapitulatif du devis',
+    item: 'Article {index}',
+    quantity: 'Quantité :',
+    editing: 'En cours de modification',
+    unavailableOptions: 'Certaines options de cette ligne ne sont plus disponibles. Rouvrez-la pour la mettre à jour.',
+    total: 'Valeur totale estimée :',
+    totalDisclaimer: 'Le prix final peut varier selon les personnalisations et les exigences d’installation.',
+    priceOnRequest: 'Prix sur demande',
+    unpricedExcluded: 'Les lignes au prix sur demande ne sont pas incluses.',
+    detail: '{label} : {value}',
+    notSpecified: 'Non précisé',
+    empty: 'Aucun article dans le devis. Ajoutez d’abord une configuration.',
+    sku: 'SKU : {sku}',
+    room: 'Pièce',
+    roomPlaceholder: 'Pièce (ex. salle de bain 2e)',
+    note: 'Remarque',
+    reopen: 'Rouvrir dans le configurateur',
+    duplicate: 'Dupliquer la ligne',
+    remove: 'Supprimer la ligne',
+    print: 'Imprimer le devis',
+    preparing: 'Préparation…',
+    exportFailed: 'Impossible d’exporter le devis.',
+    importEmpty: 'Ce fichier ne contient aucune ligne de devis à importer.',
+    unrecognisedFormat: 'Format de fichier de devis non reconnu',
+    importReplace: {
+      one: 'Remplacer la ligne de votre devis ? Choisissez Annuler pour ajouter plutôt les lignes importées.',
+      other: 'Remplacer les {count} lignes de votre devis ? Choisissez Annuler pour ajouter plutôt les lignes importées.',
+    },
+    importFailed: 'Impossible d’importer ce devis. {reason}',
+    unreadableFile: 'Impossible de lire ce fichier.',
+    documentFailed: 'Impossible de préparer le document du devis. Veuillez réessayer.',
+    submitted: 'Votre demande de devis a été envoyée ! Votre numéro de devis est {quoteNumber}.',
+    printNow: 'Imprimer une copie du devis maintenant ?',
+    submitFailed: 'Impossible d’envoyer votre demande de devis. Veuillez réessayer.',
+  },
+  customer: {
+    title: 'Informations client',
+    contactTitle: 'Coordonnées',
+    name: 'Nom',
+    firstName: 'Prénom',
+    lastName: 'Nom',
+    email: 'Courriel',
+    emailAddress: 'Adresse courriel',
+    phone: 'Téléphone',
+    phoneNumber: 'Numéro de téléphone',
+    company: 'Entreprise',
+    projectName: 'Nom du projet',
+    notes: 'Remarques',
+    notesPlaceholder: 'Exigences particulières, détails d’installation ou questions...',
+  },
+  adjustment: {
+    reason: {
+      disabled: 'La sélection a été désactivée par le filtrage dynamique',
+      unavailable: 'La sélection n’est plus disponible à cause du filtrage dynamique',
+    },
+    savedUnavailable: 'La sélection enregistrée n’est plus disponible',
+  },
+  bulkImport: {
+    title: 'Importer des SKU',
+    description:
+      'Collez une liste de SKU ou téléversez un CSV avec des colonnes SKU et quantité. Résolvez les lignes ambiguës, puis ajoutez-les ensemble au devis.',
+    uploadCsv: 'Téléverser un CSV',
+    check: 'Vérifier les SKU',
+    noSkus: 'Aucun SKU trouvé. Collez un SKU par ligne, éventuellement suivi d’une quantité.',
+    added: {
+      one: '{count} ligne ajoutée au devis.',
+      other: '{count} lignes ajoutées au devis.',
+    },
+    needAttention: {
+      one: '{count} ligne demande votre attention.',
+      other: '{count} lignes demandent votre attention.',
+    },
+    addToQuote: 'Ajouter {count} au devis',
+    row: 'Ligne {line} • Qté {quantity}',
+    removeRow: 'Supprimer la ligne',
+    chooseProduct: 'Choisissez un produit ({count} correspondances)',
+    chooseOption: 'Choisissez une option',
+  },
+  document: {
+    quote: 'Devis',
+    draft: 'Brouillon — pas encore envoyé',
+    issued: 'Émis le {date}',
+    validUntil: 'Valable jusqu’au {date}',
+    preparedFor: 'Préparé pour',
+    total: 'Total {amount}',
+    excludesUnpriced: 'Hors lignes au prix sur demande',
+    terms: 'Conditions',
+    pricingValidUntil: 'Les prix sont valables jusqu’au {date}.',
+    specSheet: 'Fiche technique',
+    productSpecSheet: 'Fiche technique du produit :',
+    revitFamily: 'Famille Revit :',
+    generated: 'Généré le {date}',
+  },
+};
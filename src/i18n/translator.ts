@@ -0,0 +1,162 @@
+/**
+ * Translator
+ *
+ * Looks messages up in a locale's catalog (falling back to English), fills {placeholders},
+ * picks plural forms with Intl.PluralRules, and formats prices, numbers and sizes for the
+ * locale. Option names and descriptions come from the translations loaded for the locale
+ * (services/option-translations.ts) and fall back to the catalog data.
+ */
+
+import { en } from './messages/en';
+import { getCatalog } from './locale';
+import { formatPrice, DEFAULT_CURRENCY } from '../services/pricing-engine';
+import { COLLECTION_TO_FIELD } from '../services/product-options-builder';
+import { UNIT_FRACTION_DIGITS, convertLength, parseLength, type LengthUnit } from '../services/units';
+import type { ProductOption, ProductOptions } from '../store/types';
+
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+type Catalog = typeof en;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string | PluralMessage ? T[K] : DeepPartial<T[K]> };
+
+// Catalogs other than English may translate any subset of the keys
+export type PartialCatalog = DeepPartial<Catalog>;
+
+// Dotted path to a message, e.g. "cta.addToQuote"
+export type MessageKey = {
+  [Section in keyof Catalog & string]: Catalog[Section] extends string | PluralMessage
+    ? Section
+    : {
+        [Key in keyof Catalog[Section] & string]: Catalog[Section][Key] extends string | PluralMessage
+          ? `${Section}.${Key}`
+          : `${Section}.${Key}.${keyof Catalog[Section][Key] & string}`;
+      }[keyof Catalog[Section] & string];
+}[keyof Catalog & string];
+
+export type MessageParams = Record<string, string | number>;
+
+// Localized option text keyed by option collection ("frame_colors") and option id
+export type OptionTranslations = Record<string, Record<string, { name?: string; description?: string }>>;
+
+export interface Translator {
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPrice: (amount: number, currency?: string) => string;
+  // A width × height size given in inches, shown in a unit, e.g. 24 × 36 in or 610 × 914 mm
+  formatSize: (width: number | string, height: number | string, unit?: LengthUnit) => string;
+  // An option with its name and description in this locale
+  localizeOption: <T extends ProductOption>(collection: string, option: T) => T;
+}
+
+const FIELD_TO_COLLECTION = Object.fromEntries(
+  Object.entries(COLLECTION_TO_FIELD).map(([collection, field]) => [field, collection])
+) as Record<keyof ProductOptions, string>;
+
+const INTL_UNITS: Record<LengthUnit, string> = { in: 'inch', mm: 'millimeter', cm: 'centimeter' };
+
+function lookup(catalog: unknown, key: string): string | PluralMessage | undefined {
+  let node = catalog;
+  for (const part of key.split('.')) {
+    if (!node || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  if (typeof node === 'string') return node;
+  if (node && typeof node === 'object' && typeof (node as PluralMessage).other === 'string') {
+    return node as PluralMessage;
+  }
+  return undefined;
+}
+
+export function createTranslator(
+  locale: string,
+  catalog: PartialCatalog = {},
+  optionTranslations: OptionTranslations = {}
+): Translator {
+  const pluralRules = new Intl.PluralRules(locale);
+  const numberFormat = new Intl.NumberFormat(locale);
+
+  const interpolate = (message: string, params: MessageParams = {}) =>
+    message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numberFormat.format(value) : value;
+    });
+
+  const t: Translator['t'] = (key, params) => {
+    const message = lookup(catalog, key) ?? lookup(en, key);
+    if (message === undefined) {
+      if (import.meta.env.DEV) console.warn(`[i18n] Missing message "${key}"`);
+      return key;
+    }
+    if (typeof message === 'string') return interpolate(message, params);
+
+    const count = Number(params?.count ?? 0);
+    const form = (count === 0 && message.zero) || message[pluralRules.select(count)] || message.other;
+    return interpolate(form, params);
+  };
+
+  const formatNumber: Translator['formatNumber'] = (value, options) =>
+    new Intl.NumberFormat(locale, options).format(value);
+
+  const formatSize: Translator['formatSize'] = (width, height, unit = 'in') => {
+    const format = (value: number | string) => {
+      const length = parseLength(String(value), 'in');
+      return length
+        ? formatNumber(convertLength(length.value, length.unit, unit), {
+            maximumFractionDigits: UNIT_FRACTION_DIGITS[unit],
+          })
+        : String(value);
+    };
+    const label = new Intl.NumberFormat(locale, { style: 'unit', unit: INTL_UNITS[unit] })
+      .formatToParts(0)
+      .filter((part) => part.type === 'unit')
+      .map((part) => part.value)
+      .join('');
+    return `${format(width)} × ${format(height)} ${label}`;
+  };
+
+  const localizeOption: Translator['localizeOption'] = (collection, option) => {
+    const translated =
+      optionTranslations[FIELD_TO_COLLECTION[collection as keyof ProductOptions] ?? collection]?.[String(option.id)];
+    if (!translated) return option;
+    return {
+      ...option,
+      name: translated.name ?? option.name,
+      description: translated.description ?? option.description,
+    };
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatPrice: (amount, currency = DEFAULT_CURRENCY) => formatPrice(amount, currency, locale),
+    formatSize,
+    localizeOption,
+  };
+}
+
+let cached: { locale: string; optionTranslations: OptionTranslations; translator: Translator } | null = null;
+
+/**
+ * Translator for a store state's locale; reused while the locale and translations are unchanged
+ */
+export function getTranslator(state: { locale: string; optionTranslations: OptionTranslations }): Translator {
+  if (cached?.locale !== state.locale || cached.optionTranslations !== state.optionTranslations) {
+    cached = {
+      locale: state.locale,
+      optionTranslations: state.optionTranslations,
+      translator: createTranslator(state.locale, getCatalog(state.locale), state.optionTranslations),
+    };
+  }
+  return cached.translator;
+}
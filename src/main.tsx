@@ -4,10 +4,22 @@ import { NuqsAdapter } from 'nuqs/adapters/react'
 import App from './App.tsx'
 import './styles/globals.css'
 import { initializeEnvironment } from './utils/environment'
+import { createSnapshotDataProvider, fetchDataSnapshot, setDataProvider } from './services/data-provider'
+import { startDataLayer } from './services/data-layer'
+import { supabase } from './services/supabase'
+import { defineConfiguratorElement } from './embed/mtx-configurator'
 
 // Initialize environment configuration
 initializeEnvironment()
 
+// Offline mode: serve catalog data from a JSON snapshot instead of Supabase
+if (import.meta.env.VITE_DATA_SNAPSHOT_URL) {
+  setDataProvider(createSnapshotDataProvider(fetchDataSnapshot(import.meta.env.VITE_DATA_SNAPSHOT_URL)))
+} else if (typeof window !== 'undefined') {
+  // Online mode: cache catalog data between visits and follow database changes
+  startDataLayer(supabase)
+}
+
 // For embeddable deployment
 function initializeConfigurator(containerId: string = 'product-configurator') {
   const container = document.getElementById(containerId)
@@ -28,6 +40,9 @@ function initializeConfigurator(containerId: string = 'product-configurator') {
 
 // Auto-initialize if container exists
 if (typeof window !== 'undefined') {
+  // <mtx-configurator> for pages that want attributes, events and an API
+  defineConfiguratorElement()
+
   // For development mode
   if (import.meta.env.DEV) {
     const container = document.getElementById('root')
@@ -42,15 +57,20 @@ if (typeof window !== 'undefined') {
       )
     }
   } else {
-    // For production/embedded mode
+    // For production/embedded mode; pages using <mtx-configurator> have no container
+    const autoInitialize = () => {
+      if (document.getElementById('product-configurator')) initializeConfigurator()
+    }
     if (document.readyState === 'loading') {
-      document.addEventListener('DOMContentLoaded', () => initializeConfigurator())
+      document.addEventListener('DOMContentLoaded', autoInitialize)
     } else {
-      initializeConfigurator()
+      autoInitialize()
     }
   }
 }
 
 // Export for manual initialization
 export { initializeConfigurator }
+export type { MtxConfiguratorElement } from './embed/mtx-configurator'
+export type { ConfiguratorEmbedOptions, ConfiguratorEventMap, ConfiguratorFeature } from './embed/embed-options'
 export default App
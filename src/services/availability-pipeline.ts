@@ -0,0 +1,193 @@
+/**
+ * Availability Pipeline
+ *
+ * The one place option availability is decided. The store, the option explainer and the
+ * legacy sku_index engine all run it, and the SQL function get_option_availability
+ * implements stages 1-3 with the same semantics (held to it by the availability
+ * conformance tests). Stages run in a fixed order:
+ *
+ * 1. Line defaults: the options the product line offers (ProductOptions)
+ * 2. Product overrides: what each product offers, as facet records (sku_index rows, or the
+ *    line defaults with the product's products_options_overrides applied)
+ * 3. Facets: options no product offers under the upstream selections are disabled
+ *    (never mirror styles; see product-availability)
+ * 4. Rule constraints: options a matching rule excludes, and the alternatives to a value
+ *    a rule sets
+ * 5. Size constraints: options a size envelope requirement rules out
+ *
+ * Every option of the line comes back with its state, its product count and the reasons
+ * each stage gave for disabling it.
+ *
+ * The inputs that come from the database (the facet index and the rules) are loaded once
+ * per product line as an availability model, reloaded when the data layer reports they
+ * changed; the store hosts it in the compute service
+ * (see compute-engine), where a recompute only refacets the collections downstream of
+ * what changed.
+ */
+
+import { getRules, type Rule } from './supabase';
+import type { FacetOptions, FacetRecord } from './facet-engine';
+import { createFacetIndex, loadFacetIndex, type FacetIndex } from './facet-index';
+import {
+  computeAvailabilityFromRecords,
+  computeUnavailableOptions,
+  explainUnavailableOptions,
+} from './product-availability';
+import { evaluateRulesForConfig, type RuleImageOverrides } from './rules-ui-integration';
+import { explainDisabledOption, isOptionDisabled, mergeDisabledOptions } from './option-explainer';
+import { computeSizeDisabledOptions, type SizeEnvelope } from './size-envelope';
+import { COLLECTION_TO_FIELD } from './product-options-builder';
+import type {
+  DisabledOptionReasons,
+  DisabledReason,
+  ProductConfig,
+  ProductOption,
+  ProductOptions,
+} from '../store/types';
+
+export interface OptionAvailability {
+  id: number;
+  state: 'available' | 'disabled';
+  // Products offering the option under the upstream selections; null when the
+  // collection is not faceted (no product offers anything in it)
+  count: number | null;
+  // Why the option is disabled, from every stage that disabled it
+  reasons: DisabledReason[];
+}
+
+export interface AvailabilityPipelineInput {
+  productLineId: number;
+  config: ProductConfig;
+  productOptions: ProductOptions;
+  // Facet records, or their index when recomputing repeatedly
+  records: FacetRecord[] | FacetIndex;
+  rules: Rule[];
+  // Size constraints are skipped without an envelope
+  sizeEnvelope?: SizeEnvelope;
+  facets?: FacetOptions;
+}
+
+export interface AvailabilityPipelineResult {
+  // Per collection, every option the line offers, in the line's order
+  options: Record<string, OptionAvailability[]>;
+  // Disabled option ids and reasons in the store's shape (rule-set values under `${collection}_rule_set`)
+  disabledOptionIds: Record<string, number[]>;
+  reasons: DisabledOptionReasons;
+  // Values rules set, by config field
+  setValues: Record<string, number>;
+  imageOverrides: RuleImageOverrides;
+  // Per faceted collection: option id -> products offering it under the upstream selections
+  counts: Record<string, Record<number, number>>;
+  // Products matching every selection
+  matchingProductCount: number;
+}
+
+/**
+ * Run every stage over already-loaded inputs
+ */
+export function runAvailabilityPipeline(input: AvailabilityPipelineInput): AvailabilityPipelineResult {
+  const { productLineId, config, productOptions, records, rules, sizeEnvelope } = input;
+
+  // Stages 1-3: the line's options against what the products offer
+  const availability = computeAvailabilityFromRecords(records, config, {
+    ...input.facets,
+    sizes: productOptions.sizes,
+  });
+  const unavailable = computeUnavailableOptions(availability.availableOptions, productOptions as any);
+  const facetReasons = explainUnavailableOptions(unavailable, availability, config);
+
+  // Stage 4: rules take precedence over availability (they can force values)
+  const rulesResult = evaluateRulesForConfig(rules, config, productLineId);
+  let merged = mergeDisabledOptions(unavailable, facetReasons, rulesResult);
+
+  // Stage 5
+  if (sizeEnvelope) {
+    const sizeResult = computeSizeDisabledOptions(sizeEnvelope, config, productLineId, productOptions);
+    merged = mergeDisabledOptions(merged.disabledOptionIds, merged.reasons, sizeResult);
+  }
+
+  const options: Record<string, OptionAvailability[]> = {};
+  for (const [collection, optionsKey] of Object.entries(COLLECTION_TO_FIELD)) {
+    const counts = availability.counts[collection];
+    options[collection] = (productOptions[optionsKey] as ProductOption[]).map((option) => ({
+      id: option.id,
+      state: isOptionDisabled(merged.disabledOptionIds, collection, option.id) ? 'disabled' : 'available',
+      count: counts ? counts[option.id] ?? 0 : null,
+      reasons: explainDisabledOption(merged.disabledOptionIds, merged.reasons, collection, option.id),
+    }));
+  }
+
+  return {
+    options,
+    disabledOptionIds: merged.disabledOptionIds,
+    reasons: merged.reasons,
+    setValues: rulesResult.setValues,
+    imageOverrides: rulesResult.imageOverrides,
+    counts: availability.counts,
+    matchingProductCount: availability.matchingProductCount,
+  };
+}
+
+export interface AvailabilityModel {
+  productLineId: number;
+  index: FacetIndex;
+  rules: Rule[];
+}
+
+const modelCache = new Map<number, Promise<AvailabilityModel>>();
+const loadedModels = new Map<number, AvailabilityModel>();
+
+/**
+ * The facet index and rules for a product line, loaded once until they change (see
+ * store/data-sync)
+ */
+export function loadAvailabilityModel(productLineId: number): Promise<AvailabilityModel> {
+  let model = modelCache.get(productLineId);
+  if (!model) {
+    model = Promise.all([loadFacetIndex(productLineId), getRules()])
+      .then(([index, rules]) => {
+        const loaded = { productLineId, index, rules };
+        loadedModels.set(productLineId, loaded);
+        return loaded;
+      })
+      .catch((error) => {
+        modelCache.delete(productLineId);
+        throw error;
+      });
+    modelCache.set(productLineId, model);
+  }
+  return model;
+}
+
+/**
+ * The product line's model if it has finished loading
+ */
+export function getLoadedAvailabilityModel(productLineId: number): AvailabilityModel | null {
+  return loadedModels.get(productLineId) ?? null;
+}
+
+/**
+ * Forget one product line's model, or every line's
+ */
+export function clearAvailabilityModelCache(productLineId?: number): void {
+  if (productLineId === undefined) {
+    modelCache.clear();
+    loadedModels.clear();
+  } else {
+    modelCache.delete(productLineId);
+    loadedModels.delete(productLineId);
+  }
+}
+
+/**
+ * The product line's model, loading it when needed. A model that fails to load is
+ * replaced by an empty one (nothing faceted, no rules) and retried on the next call.
+ */
+export async function resolveAvailabilityModel(productLineId: number): Promise<AvailabilityModel> {
+  try {
+    return getLoadedAvailabilityModel(productLineId) ?? (await loadAvailabilityModel(productLineId));
+  } catch (error) {
+    console.error('❌ Failed to load availability model:', error);
+    return { productLineId, index: createFacetIndex([]), rules: [] };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Compute Engine
+ *
+ * Answers compute protocol requests (see compute-protocol) synchronously. The compute
+ * worker runs one engine per worker; the compute service's synchronous fallback runs
+ * one on the calling thread, for Node scripts, tests and browsers without workers.
+ */
+
+import { facetRecordsFromSkuIndex } from './facet-engine';
+import { createFacetIndex, type FacetIndex } from './facet-index';
+import { runAvailabilityPipeline } from './availability-pipeline';
+import { applyRules, buildRuleConstraints } from './rules-engine';
+import { formatSku } from './sku-grammar';
+import { visibleImageLayers } from './image-layers';
+import type { Rule } from './supabase';
+import type {
+  ComputeParams,
+  ComputeRequestMessage,
+  ComputeRequestType,
+  ComputeResponseMessage,
+  ComputeResult,
+} from './compute-protocol';
+
+interface EngineLine {
+  index: FacetIndex;
+  rules: Rule[];
+}
+
+export interface ComputeEngine {
+  handle<K extends ComputeRequestType>(request: K, params: ComputeParams<K>): ComputeResult<K>;
+}
+
+type Handlers = { [K in ComputeRequestType]: (params: ComputeParams<K>) => ComputeResult<K> };
+
+export function createComputeEngine(): ComputeEngine {
+  const lines = new Map<number, EngineLine>();
+
+  const hostedLine = (productLineId: number): EngineLine => {
+    const line = lines.get(productLineId);
+    if (!line) throw new Error(`Product line ${productLineId} is not hosted`);
+    return line;
+  };
+
+  const handlers: Handlers = {
+    hostLine: ({ productLineId, rules, records, skuRows }) => {
+      const index = createFacetIndex(records ?? facetRecordsFromSkuIndex(skuRows ?? []));
+      lines.set(productLineId, { index, rules });
+      return { recordCount: index.records.length };
+    },
+    releaseLine: ({ productLineId }) => ({ released: lines.delete(productLineId) }),
+    availability: ({ productLineId, config, productOptions, sizeEnvelope, facets }) => {
+      const { index, rules } = hostedLine(productLineId);
+      return runAvailabilityPipeline({
+        productLineId,
+        config,
+        productOptions,
+        records: index,
+        rules,
+        sizeEnvelope,
+        facets,
+      });
+    },
+    rules: ({ productLineId, context }) => {
+      const { rules } = hostedLine(productLineId);
+      return { config: applyRules(rules, context), constraints: buildRuleConstraints(rules, context) };
+    },
+    sku: ({ grammar, baseSku, config, productOptions }) => formatSku(grammar, baseSku, config, productOptions),
+    layers: ({ config, images }) => visibleImageLayers(images, config).map((layer) => images.indexOf(layer)),
+  };
+
+  return {
+    handle: (request, params) => (handlers[request] as (params: unknown) => ComputeResult<typeof request>)(params),
+  };
+}
+
+/**
+ * Answer a request message; failures become error responses
+ */
+export function respondToComputeRequest(engine: ComputeEngine, message: ComputeRequestMessage): ComputeResponseMessage {
+  try {
+    return { id: message.id, ok: true, result: engine.handle(message.request, message.params) };
+  } catch (error) {
+    return { id: message.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Compute Protocol
+ *
+ * Messages between the app and the compute worker (compute.worker.ts), which hosts a
+ * product line's facet records (from sku_index rows or option assignments) and rules
+ * and answers availability, rule, SKU and image-layer queries against them.
+ *
+ * 1. Hosting: `hostLine` hands the worker a product line's data; it stays there until
+ *    the line is hosted again or `releaseLine` drops it.
+ * 2. Queries: `availability`, `rules`, `sku` and `layers` carry everything else they
+ *    need in their params.
+ *
+ * Every request carries an id and is answered by one response with the same id. The
+ * synchronous fallback (compute-service) runs the same engine with the same messages,
+ * so everything here must survive structured cloning: plain data, no functions.
+ */
+
+import type { Rule } from './supabase';
+import type { AvailabilityPipelineResult } from './availability-pipeline';
+import type { FacetOptions, FacetRecord } from './facet-engine';
+import type { ConfigurationImage } from './image-layers';
+import type { RuleConstraints } from './rules-engine';
+import type { SizeEnvelope } from './size-envelope';
+import type { SkuIndexEntry } from './sku-coverage';
+import type { SkuConfig, SkuGrammar, SkuOptionLists } from './sku-grammar';
+import type { ProductConfig, ProductOptions } from '../store/types';
+
+export interface HostedLine {
+  productLineId: number;
+  rules: Rule[];
+  // Facet records, or the line's sku_index rows to build them from
+  records?: FacetRecord[];
+  skuRows?: Array<Partial<SkuIndexEntry> & { product_id: number }>;
+}
+
+// Requests and what the engine answers them with
+export interface ComputeRequestMap {
+  hostLine: { params: HostedLine; result: { recordCount: number } };
+  releaseLine: { params: { productLineId: number }; result: { released: boolean } };
+  // The availability pipeline over the hosted line
+  availability: {
+    params: {
+      productLineId: number;
+      config: ProductConfig;
+      productOptions: ProductOptions;
+      sizeEnvelope?: SizeEnvelope;
+      facets?: FacetOptions;
+    };
+    result: AvailabilityPipelineResult;
+  };
+  // The hosted rules applied to a rule context (processRules) and the id constraints
+  // they impose on it (buildRuleConstraints)
+  rules: {
+    params: { productLineId: number; context: Record<string, any> };
+    result: { config: Record<string, any>; constraints: RuleConstraints };
+  };
+  sku: {
+    params: { grammar: SkuGrammar; baseSku: string; config: SkuConfig; productOptions: SkuOptionLists };
+    result: string;
+  };
+  // Positions in `images` of the layers the configuration shows, bottom to top
+  layers: { params: { config: Record<string, any>; images: ConfigurationImage[] }; result: number[] };
+}
+
+export type ComputeRequestType = keyof ComputeRequestMap;
+export type ComputeParams<K extends ComputeRequestType> = ComputeRequestMap[K]['params'];
+export type ComputeResult<K extends ComputeRequestType> = ComputeRequestMap[K]['result'];
+
+export type ComputeRequestMessage = {
+  [K in ComputeRequestType]: { id: number; request: K; params: ComputeParams<K> };
+}[ComputeRequestType];
+
+export type ComputeResponseMessage =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
@@ -0,0 +1,171 @@
+/**
+ * Compute Service
+ *
+ * The app's handle on the compute engine (see compute-protocol). In browsers the engine
+ * runs in a Web Worker (compute.worker.ts); in Node scripts, tests and browsers without
+ * workers it runs synchronously on the calling thread. Both modes answer through
+ * promises, so callers never depend on which one they got.
+ *
+ * The worker script is inlined into the bundle and started from a Blob URL, so it loads
+ * wherever the bundle does, including the UMD build embedded from another origin.
+ * A worker that fails anyway (blob: workers blocked by a CSP, or a response cannot be
+ * cloned) is replaced by the synchronous fallback: the lines it hosted are hosted again
+ * and its pending requests are answered there.
+ */
+
+import ComputeWorker from './compute.worker.ts?worker&inline';
+import { createComputeEngine, type ComputeEngine } from './compute-engine';
+import type { AvailabilityModel } from './availability-pipeline';
+import type {
+  ComputeParams,
+  ComputeRequestMessage,
+  ComputeRequestType,
+  ComputeResponseMessage,
+  ComputeResult,
+  HostedLine,
+} from './compute-protocol';
+
+export interface ComputeService {
+  readonly mode: 'worker' | 'sync';
+  request<K extends ComputeRequestType>(request: K, params: ComputeParams<K>): Promise<ComputeResult<K>>;
+  terminate(): void;
+}
+
+/**
+ * Run the engine on the calling thread
+ */
+export function createSyncComputeService(engine: ComputeEngine = createComputeEngine()): ComputeService {
+  return {
+    mode: 'sync',
+    request: async (request, params) => engine.handle(request, params),
+    terminate: () => {},
+  };
+}
+
+interface PendingRequest {
+  request: ComputeRequestType;
+  params: unknown;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Talk to a compute worker, falling back to the calling thread if it fails
+ */
+export function createWorkerComputeService(worker: Worker): ComputeService {
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+  // Lines the worker hosts, to host them again in the fallback
+  const hostedLines = new Map<number, HostedLine>();
+  let fallback: ComputeService | null = null;
+
+  const fallBack = (reason: unknown) => {
+    if (fallback) return;
+    console.warn('⚠️ Compute worker failed, computing on the main thread:', reason);
+    worker.terminate();
+
+    const sync = createSyncComputeService();
+    fallback = sync;
+    hostedLines.forEach((line) => sync.request('hostLine', line));
+    pending.forEach(({ request, params, resolve, reject }) =>
+      sync.request(request, params as ComputeParams<typeof request>).then(resolve, reject),
+    );
+    pending.clear();
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<ComputeResponseMessage>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+    if (response.ok) entry.resolve(response.result);
+    else entry.reject(new Error(response.error));
+  });
+  worker.addEventListener('error', (event) => {
+    event.preventDefault();
+    fallBack(event.message || 'worker error');
+  });
+  worker.addEventListener('messageerror', () => fallBack('a response could not be deserialized'));
+
+  return {
+    get mode() {
+      return fallback ? 'sync' : 'worker';
+    },
+    request(request, params) {
+      if (request === 'hostLine') {
+        const line = params as HostedLine;
+        hostedLines.set(line.productLineId, line);
+      } else if (request === 'releaseLine') {
+        hostedLines.delete((params as ComputeParams<'releaseLine'>).productLineId);
+      }
+      if (fallback) return fallback.request(request, params);
+
+      return new Promise((resolve, reject) => {
+        const id = ++nextId;
+        pending.set(id, { request, params, resolve, reject });
+        try {
+          worker.postMessage({ id, request, params } as ComputeRequestMessage);
+        } catch (error) {
+          // Params that cannot be cloned are the caller's error, not the worker's
+          pending.delete(id);
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    },
+    terminate() {
+      worker.terminate();
+      pending.forEach(({ reject }) => reject(new Error('Compute service terminated')));
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * A compute service in the best mode the environment supports
+ */
+export function createComputeService(): ComputeService {
+  if (typeof Worker === 'undefined') return createSyncComputeService();
+  try {
+    return createWorkerComputeService(new ComputeWorker());
+  } catch (error) {
+    console.warn('⚠️ Compute worker unavailable, computing on the main thread:', error);
+    return createSyncComputeService();
+  }
+}
+
+let sharedService: ComputeService | null = null;
+
+/**
+ * The app's compute service, started on first use
+ */
+export function getComputeService(): ComputeService {
+  if (!sharedService) sharedService = createComputeService();
+  return sharedService;
+}
+
+const hostedModels = new WeakMap<ComputeService, WeakSet<AvailabilityModel>>();
+
+/**
+ * Host an availability model's line in the service, once per model. Requests are
+ * answered in order, so queries sent after this see the line even before it resolves.
+ */
+export async function hostAvailabilityModel(service: ComputeService, model: AvailabilityModel): Promise<void> {
+  let hosted = hostedModels.get(service);
+  if (!hosted) {
+    hosted = new WeakSet();
+    hostedModels.set(service, hosted);
+  }
+  if (hosted.has(model)) return;
+
+  hosted.add(model);
+  try {
+    await service.request('hostLine', {
+      productLineId: model.productLineId,
+      records: model.index.records,
+      rules: model.rules,
+    });
+  } catch (error) {
+    hosted.delete(model);
+    throw error;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Compute Worker
+ *
+ * Runs a compute engine off the main thread; the compute service starts it and speaks
+ * the compute protocol to it.
+ */
+
+import { createComputeEngine, respondToComputeRequest } from './compute-engine';
+import type { ComputeRequestMessage } from './compute-protocol';
+
+const engine = createComputeEngine();
+
+self.onmessage = (event: MessageEvent<ComputeRequestMessage>) => {
+  self.postMessage(respondToComputeRequest(engine, event.data));
+};
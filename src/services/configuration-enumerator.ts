@@ -0,0 +1,304 @@
+/**
+ * Configuration Space Enumerator
+ *
+ * Walks every combination of a product line's option collections, product by product:
+ * - each product fixes the facets it is defined by (mirror style, frame thickness,
+ *   light direction) and gets its own option lists (products_options_overrides applied)
+ * - rule constraints (buildRuleConstraints) and product-availability facets decide
+ *   which combinations are valid
+ *
+ * Pruning: fields are assigned in a fixed order and a rule's constraints are applied as
+ * soon as every field its condition reads has been assigned. Constraints only tighten as
+ * more rules match, so excluded values are dropped before branching and a subtree is
+ * abandoned as soon as a newly decided rule rejects an earlier choice. Availability is
+ * checked once the availability facets are assigned, memoized per facet combination.
+ */
+
+import { buildRuleConstraints, type RuleConstraints } from './rules-engine';
+import { RULE_FIELDS, buildRuleContext, compileRule } from './rule-compiler';
+import { computeAvailabilityFromProducts } from './product-availability';
+import { formatSku, type SkuGrammar } from './sku-grammar';
+import type { Rule } from './supabase';
+import type { ProductConfig, ProductOption, ProductOptions } from '../store/types';
+
+export type EnumeratedField =
+  | 'mirrorStyle'
+  | 'frameThickness'
+  | 'lighting'
+  | 'frameColor'
+  | 'mounting'
+  | 'hangingTechnique'
+  | 'colorTemperature'
+  | 'lightOutput'
+  | 'driver'
+  | 'size'
+  | 'accessories';
+
+export interface EnumeratedConfiguration {
+  productId: number;
+  sku: string;
+  config: ProductConfig;
+}
+
+export interface EnumerationInput {
+  productLine: { id: number; name: string };
+  products: any[];
+  rules: Rule[];
+  grammar: SkuGrammar;
+  // Option lists for a product (product line defaults with the product's overrides applied)
+  getProductOptions: (productId: number) => Promise<ProductOptions>;
+}
+
+export interface EnumerationOptions {
+  // Stop after this many valid configurations
+  maxConfigurations?: number;
+}
+
+export interface EnumerationStats {
+  products: number;
+  nodesVisited: number;
+  branchesPruned: number;
+  validConfigurations: number;
+  truncated: boolean;
+}
+
+// Field -> option collection / productOptions key, in assignment order.
+// Availability facets come first so invalid facet combinations are cut early.
+const FIELD_SPECS: Array<{ field: EnumeratedField; collection: string; optionsKey: keyof ProductOptions }> = [
+  { field: 'mirrorStyle', collection: 'mirror_styles', optionsKey: 'mirrorStyles' },
+  { field: 'frameThickness', collection: 'frame_thicknesses', optionsKey: 'frameThickness' },
+  { field: 'lighting', collection: 'light_directions', optionsKey: 'lightingOptions' },
+  { field: 'frameColor', collection: 'frame_colors', optionsKey: 'frameColors' },
+  { field: 'mounting', collection: 'mounting_options', optionsKey: 'mountingOptions' },
+  { field: 'hangingTechnique', collection: 'hanging_techniques', optionsKey: 'hangingTechniques' },
+  { field: 'colorTemperature', collection: 'color_temperatures', optionsKey: 'colorTemperatures' },
+  { field: 'lightOutput', collection: 'light_outputs', optionsKey: 'lightOutputs' },
+  { field: 'driver', collection: 'drivers', optionsKey: 'drivers' },
+  { field: 'size', collection: 'sizes', optionsKey: 'sizes' },
+  { field: 'accessories', collection: 'accessories', optionsKey: 'accessoryOptions' },
+];
+
+const AVAILABILITY_FIELDS: EnumeratedField[] = ['mirrorStyle', 'frameThickness', 'lighting'];
+
+// Config field -> canonical rule field
+const CONFIG_TO_RULE_FIELD: Record<string, string> = Object.fromEntries(
+  Object.entries(RULE_FIELDS).map(([field, binding]) => [binding.configField, field]),
+);
+
+const DEFAULT_MAX_CONFIGURATIONS = 1_000_000;
+
+const productFacet = (value: unknown): number | null => {
+  if (value && typeof value === 'object') return typeof (value as any).key === 'number' ? (value as any).key : null;
+  return typeof value === 'number' ? value : null;
+};
+
+/**
+ * The option space of one product: candidate ids per field
+ */
+export interface ProductSpace {
+  product: any;
+  productOptions: ProductOptions;
+  domains: Map<EnumeratedField, string[]>;
+}
+
+export function buildProductSpace(product: any, productOptions: ProductOptions): ProductSpace {
+  const fixed: Partial<Record<EnumeratedField, number | null>> = {
+    mirrorStyle: productFacet(product.mirror_style),
+    frameThickness: productFacet(product.frame_thickness),
+    lighting: productFacet(product.light_direction),
+  };
+
+  const domains = new Map<EnumeratedField, string[]>();
+  for (const spec of FIELD_SPECS) {
+    const fixedValue = fixed[spec.field];
+    if (fixedValue != null) {
+      domains.set(spec.field, [String(fixedValue)]);
+      continue;
+    }
+    const ids = (productOptions[spec.optionsKey] as ProductOption[]).map((option) => String(option.id));
+    if (ids.length === 0) continue;
+    // Accessories are optional add-ons
+    domains.set(spec.field, spec.field === 'accessories' ? ['', ...ids] : ids);
+  }
+
+  return { product, productOptions, domains };
+}
+
+function emptyConfig(productLine: { id: number; name: string }): ProductConfig {
+  return {
+    id: 'enumerated',
+    productLineId: productLine.id,
+    productLineName: productLine.name,
+    mirrorControls: '',
+    frameColor: '',
+    frameThickness: '',
+    mirrorStyle: '',
+    width: '',
+    height: '',
+    mounting: '',
+    hangingTechnique: '',
+    lighting: '',
+    colorTemperature: '',
+    lightOutput: '',
+    driver: '',
+    accessories: '',
+    quantity: 1,
+  };
+}
+
+function assign(config: ProductConfig, field: EnumeratedField, value: string, productOptions: ProductOptions): ProductConfig {
+  if (field !== 'size') return { ...config, [field]: value };
+  const size = productOptions.sizes.find((option) => String(option.id) === value);
+  return { ...config, width: size?.width?.toString() ?? '', height: size?.height?.toString() ?? '' };
+}
+
+function violates(constraints: RuleConstraints, field: EnumeratedField, value: string): boolean {
+  const set = constraints[CONFIG_TO_RULE_FIELD[field]];
+  if (!set || !value) return false;
+  const id = parseInt(value, 10);
+  if (set.allow && set.allow.size > 0 && !set.allow.has(id)) return true;
+  return !!set.deny?.has(id);
+}
+
+/**
+ * Shared validity checks for one product line
+ */
+export function createConfigurationValidator(input: Pick<EnumerationInput, 'productLine' | 'products' | 'rules'>) {
+  const availabilityCache = new Map<string, Record<string, number[]>>();
+
+  const availableOptions = (config: ProductConfig) => {
+    const key = `${config.mirrorStyle}|${config.frameThickness}|${config.lighting}`;
+    let available = availabilityCache.get(key);
+    if (!available) {
+      available = computeAvailabilityFromProducts(input.products, input.productLine.id, config).availableOptions;
+      availabilityCache.set(key, available);
+    }
+    return available;
+  };
+
+  return {
+    ruleConstraints: (rules: Rule[], config: ProductConfig) =>
+      buildRuleConstraints(rules, buildRuleContext(config, input.productLine.id)),
+
+    // Reason the selected availability facets leave no product, or null
+    checkAvailability: (config: ProductConfig): string | null => {
+      const available = availableOptions(config);
+      for (const spec of FIELD_SPECS.filter((candidate) => AVAILABILITY_FIELDS.includes(candidate.field))) {
+        const value = config[spec.field as keyof ProductConfig];
+        const ids = available[spec.collection];
+        if (value && ids && !ids.includes(parseInt(String(value), 10))) {
+          return `${spec.collection} ${value} has no matching products`;
+        }
+      }
+      return null;
+    },
+
+    // Reason a complete configuration is invalid for a product, or null
+    checkConfiguration(space: ProductSpace, selections: Partial<Record<EnumeratedField, string>>): string | null {
+      let config = emptyConfig(input.productLine);
+      for (const spec of FIELD_SPECS) {
+        const value = selections[spec.field] ?? '';
+        const domain = space.domains.get(spec.field);
+        if (value && !domain?.includes(value)) return `${spec.collection} ${value} is not offered`;
+        if (!value && domain && spec.field !== 'accessories') return `${spec.collection} is not selected`;
+        config = assign(config, spec.field, value, space.productOptions);
+      }
+
+      const unavailable = this.checkAvailability(config);
+      if (unavailable) return unavailable;
+
+      const constraints = this.ruleConstraints(input.rules, config);
+      for (const spec of FIELD_SPECS) {
+        const value = selections[spec.field] ?? '';
+        if (violates(constraints, spec.field, value)) return `${spec.collection} ${value} is excluded by rules`;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Enumerate every valid configuration of a product line, calling onConfiguration for each
+ */
+export async function enumerateConfigurations(
+  input: EnumerationInput,
+  onConfiguration: (configuration: EnumeratedConfiguration) => void,
+  options: EnumerationOptions = {},
+): Promise<EnumerationStats> {
+  const maxConfigurations = options.maxConfigurations ?? DEFAULT_MAX_CONFIGURATIONS;
+  const validator = createConfigurationValidator(input);
+  const products = input.products.filter(
+    (product) => product.product_line === input.productLine.id && product.active === true,
+  );
+
+  const stats: EnumerationStats = {
+    products: products.length,
+    nodesVisited: 0,
+    branchesPruned: 0,
+    validConfigurations: 0,
+    truncated: false,
+  };
+
+  for (const product of products) {
+    if (stats.truncated) break;
+
+    const space = buildProductSpace(product, await input.getProductOptions(product.id));
+    const order = FIELD_SPECS.filter((spec) => space.domains.has(spec.field));
+    const position = new Map(order.map((spec, index) => [spec.field, index]));
+    const availabilityDepth = Math.max(0, ...order.map((spec, index) => (AVAILABILITY_FIELDS.includes(spec.field) ? index + 1 : 0)));
+
+    // A rule is decided once every enumerated field its condition reads is assigned
+    const decidedAt = input.rules.map((rule) => {
+      const depths = compileRule(rule).fields.map((field) => {
+        const configField = RULE_FIELDS[field]?.configField;
+        const index = configField ? position.get(configField as EnumeratedField) : undefined;
+        return index === undefined ? 0 : index + 1;
+      });
+      return Math.max(0, ...depths);
+    });
+
+    const visit = (depth: number, config: ProductConfig, selections: Partial<Record<EnumeratedField, string>>) => {
+      if (stats.truncated) return;
+      stats.nodesVisited++;
+
+      const decided = input.rules.filter((_, index) => decidedAt[index] <= depth);
+      const constraints = validator.ruleConstraints(decided, config);
+
+      // A rule decided at this depth may reject an earlier choice
+      if (order.slice(0, depth).some((spec) => violates(constraints, spec.field, selections[spec.field] ?? ''))) {
+        stats.branchesPruned++;
+        return;
+      }
+
+      if (depth === availabilityDepth && depth > 0 && validator.checkAvailability(config)) {
+        stats.branchesPruned++;
+        return;
+      }
+
+      if (depth === order.length) {
+        stats.validConfigurations++;
+        onConfiguration({
+          productId: product.id,
+          sku: formatSku(input.grammar, product.sku_code || '', config, space.productOptions),
+          config,
+        });
+        if (stats.validConfigurations >= maxConfigurations) stats.truncated = true;
+        return;
+      }
+
+      const spec = order[depth];
+      for (const value of space.domains.get(spec.field)!) {
+        // Forward check: skip values the decided rules already exclude
+        if (violates(constraints, spec.field, value)) {
+          stats.branchesPruned++;
+          continue;
+        }
+        visit(depth + 1, assign(config, spec.field, value, space.productOptions), { ...selections, [spec.field]: value });
+      }
+    };
+
+    visit(0, emptyConfig(input.productLine), {});
+  }
+
+  return stats;
+}
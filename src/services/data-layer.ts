@@ -0,0 +1,326 @@
+/**
+ * Data Layer
+ *
+ * One query cache (@tanstack/react-query) for the catalog data the configurator reads
+ * from Supabase: product lines, product options, rules, SKU grammar tables and facet
+ * records. Loaders go through fetchCached, which serves cached data at once and, when
+ * it is older than its stale time, revalidates it in the background
+ * (stale-while-revalidate). Snapshot data providers bypass the cache; their data does
+ * not change.
+ *
+ * Realtime subscriptions to rules, product_lines_default_options and the option tables
+ * invalidate exactly the queries a row change affects, so the next read waits for fresh
+ * data. The Supabase client is passed in (startDataLayer), so this module does not
+ * depend on services/supabase, whose loaders read through it. Both invalidations and background revalidations that brought different data are
+ * announced to subscribeToDataChanges listeners; the store uses them to recompute what
+ * the shopper sees (see store/data-sync).
+ *
+ * The cache can be persisted to localStorage between visits, stamped with
+ * DATA_CACHE_VERSION; a persisted cache from another version is discarded.
+ */
+
+import {
+  QueryClient,
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type Query,
+  type QueryKey,
+} from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { COLLECTION_TO_FIELD, COLLECTION_TO_TABLE } from './product-options-builder';
+import type { ProductOption, ProductOptions } from '@/store/types';
+
+// Bump when the shape of any cached collection changes
+export const DATA_CACHE_VERSION = 1;
+
+const STALE_TIME = 5 * 60 * 1000; // 5 minutes
+const PERSIST_KEY = 'mtx_data_cache';
+const PERSIST_MAX_AGE = 24 * 60 * 60 * 1000; // 1 day
+const PERSIST_DELAY = 1000;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { staleTime: STALE_TIME },
+  },
+});
+
+/**
+ * Query keys, one per collection and product line
+ */
+export const queryKeys = {
+  all: ['catalog'] as const,
+  productLines: () => ['catalog', 'product_lines'] as const,
+  productOptions: (productLineId?: number, productId?: number | null) =>
+    productLineId === undefined
+      ? (['catalog', 'product_options'] as const)
+      : (['catalog', 'product_options', productLineId, productId ?? null] as const),
+  rules: () => ['catalog', 'rules'] as const,
+  skuCodeOrder: () => ['catalog', 'sku_code_order'] as const,
+  skuGenerationRules: () => ['catalog', 'sku_generation_rules'] as const,
+  facetRecords: (productLineId?: number) =>
+    productLineId === undefined
+      ? (['catalog', 'facet_records'] as const)
+      : (['catalog', 'facet_records', productLineId] as const),
+};
+
+export interface CachedQuery<T> {
+  queryKey: QueryKey;
+  queryFn: () => Promise<T>;
+  staleTime?: number;
+  // Left out of the persisted cache (large or cheap to rebuild)
+  persist?: boolean;
+}
+
+/**
+ * Read through the cache. Cached data is returned at once, and revalidated in the
+ * background once stale; invalidated or missing data is fetched and awaited.
+ */
+export async function fetchCached<T>({
+  queryKey,
+  queryFn,
+  staleTime = STALE_TIME,
+  persist = true,
+}: CachedQuery<T>): Promise<T> {
+  const options = { queryKey, queryFn, staleTime, meta: { persist } };
+  const state = queryClient.getQueryState<T>(queryKey);
+
+  if (state?.data !== undefined && !state.isInvalidated) {
+    if (Date.now() - state.dataUpdatedAt >= staleTime && state.fetchStatus === 'idle') {
+      const cached = state.data;
+      queryClient.fetchQuery(options).then(
+        () => {
+          // Structural sharing keeps the cached reference when nothing changed
+          if (queryClient.getQueryData(queryKey) !== cached) {
+            notifyDataChange({ source: 'revalidate', queryKeys: [queryKey] });
+          }
+        },
+        (error) => console.warn('⚠️ Background revalidation failed:', queryKey, error),
+      );
+    }
+    return state.data;
+  }
+
+  return queryClient.fetchQuery(options);
+}
+
+export interface DataChange {
+  source: 'realtime' | 'revalidate';
+  // The table a realtime change came from
+  table?: string;
+  queryKeys: QueryKey[];
+}
+
+type DataChangeListener = (change: DataChange) => void;
+
+const listeners = new Set<DataChangeListener>();
+
+export function subscribeToDataChanges(listener: DataChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyDataChange(change: DataChange): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Data change listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Whether a change touches the named collection for a product line (or for every line
+ * when the change is not tied to one, like rules)
+ */
+export function changeAffects(change: DataChange, collection: string, productLineId?: number): boolean {
+  return change.queryKeys.some(
+    (key) =>
+      key[1] === collection &&
+      (productLineId === undefined || key[2] === undefined || key[2] === productLineId),
+  );
+}
+
+type ChangedRow = Record<string, any>;
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+const OPTION_TABLES = new Map(
+  Object.entries(COLLECTION_TO_TABLE).map(([collection, table]) => [table, COLLECTION_TO_FIELD[collection]]),
+);
+
+const queryOf = (name: string) => (query: Query) => query.queryKey[0] === 'catalog' && query.queryKey[1] === name;
+
+/**
+ * The cached queries a changed row of a table affects
+ */
+function affectedQueries(table: string, rows: ChangedRow[], event: ChangeEvent): Query[] {
+  const cache = queryClient.getQueryCache();
+
+  if (table === 'rules') {
+    return cache.findAll({ queryKey: queryKeys.rules(), exact: true });
+  }
+
+  if (table === 'product_lines_default_options') {
+    const lineIds = rows.map((row) => row.product_lines_id);
+    // A delete only carries the primary key unless the table has a full replica identity
+    const anyLine = lineIds.some((id) => id === undefined || id === null);
+    return cache.findAll({
+      predicate: (query) =>
+        (queryOf('product_options')(query) || queryOf('facet_records')(query)) &&
+        (anyLine || lineIds.includes(query.queryKey[2])),
+    });
+  }
+
+  const field = OPTION_TABLES.get(table);
+  if (field) {
+    // Option rows carry no product line: a new one may belong to any line
+    if (event === 'INSERT') {
+      return cache.findAll({
+        predicate: (query) => queryOf('product_options')(query) || queryOf('facet_records')(query),
+      });
+    }
+
+    const optionIds = new Set(rows.map((row) => row.id).filter((id) => id !== undefined));
+    const optionQueries = cache.findAll({
+      predicate: (query) => {
+        if (!queryOf('product_options')(query)) return false;
+        const options = (query.state.data as ProductOptions | undefined)?.[field] as ProductOption[] | undefined;
+        return options?.some((option) => optionIds.has(option.id)) ?? false;
+      },
+    });
+    // Facet records of the lines offering the option carry it too
+    const lineIds = new Set(optionQueries.map((query) => query.queryKey[2]));
+    return [
+      ...optionQueries,
+      ...cache.findAll({ predicate: (query) => queryOf('facet_records')(query) && lineIds.has(query.queryKey[2]) }),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Invalidate the queries a table change affects and announce them. Returns their keys.
+ */
+export function invalidateTableChange(table: string, rows: ChangedRow[], event: ChangeEvent = 'UPDATE'): QueryKey[] {
+  const queryKeys = affectedQueries(table, rows, event).map((query) => query.queryKey);
+  if (queryKeys.length === 0) return queryKeys;
+
+  queryKeys.forEach((queryKey) => {
+    void queryClient.invalidateQueries({ queryKey, exact: true });
+  });
+  if (import.meta.env?.DEV) {
+    console.log(`🔔 ${table} changed, invalidated:`, queryKeys);
+  }
+  notifyDataChange({ source: 'realtime', table, queryKeys });
+  return queryKeys;
+}
+
+type RealtimeClient = Pick<SupabaseClient, 'channel' | 'removeChannel'>;
+
+/**
+ * Subscribe to row changes of the tables the cache is built from. Returns a function
+ * that unsubscribes.
+ */
+export function startRealtimeInvalidation(client: RealtimeClient): () => void {
+  const tables = ['rules', 'product_lines_default_options', ...OPTION_TABLES.keys()];
+  const channel = client.channel('catalog-changes');
+
+  for (const table of tables) {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+      const rows = [payload.new, payload.old].filter(
+        (row): row is ChangedRow => !!row && Object.keys(row).length > 0,
+      );
+      invalidateTableChange(table, rows, payload.eventType);
+    });
+  }
+  channel.subscribe();
+
+  return () => {
+    void client.removeChannel(channel);
+  };
+}
+
+interface PersistedDataCache {
+  version: number;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+/**
+ * Restore the cache persisted by an earlier visit. Restored data keeps its age, so
+ * anything stale is served once and revalidated.
+ */
+export function restoreDataCache(storage: Storage = localStorage): boolean {
+  try {
+    const raw = storage.getItem(PERSIST_KEY);
+    if (!raw) return false;
+
+    const persisted = JSON.parse(raw) as PersistedDataCache;
+    if (persisted.version !== DATA_CACHE_VERSION || Date.now() - persisted.savedAt > PERSIST_MAX_AGE) {
+      storage.removeItem(PERSIST_KEY);
+      return false;
+    }
+    hydrate(queryClient, persisted.state);
+    return true;
+  } catch (error) {
+    console.warn('Failed to restore the data cache:', error);
+    return false;
+  }
+}
+
+/**
+ * Keep the persisted cache up to date, writing at most once a second. Returns a
+ * function that stops.
+ */
+export function persistDataCache(storage: Storage = localStorage): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timer = null;
+    const state = dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) =>
+        query.state.status === 'success' && !query.state.isInvalidated && query.meta?.persist !== false,
+    });
+    const persisted: PersistedDataCache = { version: DATA_CACHE_VERSION, savedAt: Date.now(), state };
+    try {
+      storage.setItem(PERSIST_KEY, JSON.stringify(persisted));
+    } catch (error) {
+      console.warn('Failed to persist the data cache:', error);
+    }
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    if (!timer) timer = setTimeout(save, PERSIST_DELAY);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Restore the persisted cache, keep it persisted and follow the client's database changes
+ */
+export function startDataLayer(client: RealtimeClient): () => void {
+  restoreDataCache();
+  const stopPersisting = persistDataCache();
+  const stopRealtime = startRealtimeInvalidation(client);
+  return () => {
+    stopPersisting();
+    stopRealtime();
+  };
+}
+
+/**
+ * Drop every cached query, persisted copy included
+ */
+export function clearDataCache(storage: Storage | null = typeof localStorage === 'undefined' ? null : localStorage): void {
+  queryClient.clear();
+  storage?.removeItem(PERSIST_KEY);
+}
@@ -0,0 +1,158 @@
+/**
+ * Configurator Data Provider
+ *
+ * The configurator reads catalog data through getRules / getProducts (supabase),
+ * fetchProductLines / fetchProductOptions (product-options) and fetchSkuCodeOrder /
+ * fetchSkuGenerationRules (sku-generator). Each of those checks for an installed provider first, so the whole
+ * configurator can run against something other than the live Supabase project — in
+ * practice a JSON snapshot exported by scripts/export-data-snapshot.ts.
+ *
+ * With no provider installed (the default) every loader queries Supabase as before.
+ */
+
+import {
+  COLLECTION_TO_FIELD,
+  createEmptyProductOptions,
+  normalizeOption,
+  resolveOptionIds,
+} from './product-options-builder';
+import type { ProductLine, ProductOption, ProductOptions } from '../store/types';
+import type { Rule } from './supabase';
+import type { SkuCodeOrderItem } from './sku-generator';
+import type { SkuGenerationRule } from './sku-grammar';
+import type { SkuIndexEntry } from './sku-coverage';
+
+export interface ConfiguratorDataProvider {
+  name: string;
+  getRules: () => Promise<Rule[]>;
+  getProducts: () => Promise<any[]>;
+  fetchProductLines: () => Promise<ProductLine[]>;
+  fetchProductOptions: (productLineId: number, productId?: number | null) => Promise<ProductOptions>;
+  fetchSkuCodeOrder: () => Promise<SkuCodeOrderItem[]>;
+  fetchSkuGenerationRules: () => Promise<SkuGenerationRule[]>;
+}
+
+export const DATA_SNAPSHOT_VERSION = 1;
+
+/**
+ * Offline copy of the tables the configurator reads
+ */
+export interface DataSnapshot {
+  version: number;
+  generatedAt: string;
+  productLines: Array<{ id: number; name: string | null; sku_code: string | null; active: boolean | null; sort?: number | null }>;
+  products: any[];
+  rules: Rule[];
+  productLineDefaultOptions: Array<{ product_lines_id: number | null; collection: string | null; item: string | null }>;
+  productOptionOverrides: Array<{ products_id: number | null; collection: string | null; item: string | null }>;
+  // Option table rows keyed by collection (frame_colors, drivers, ...)
+  options: Record<string, Record<string, any>[]>;
+  skuCodeOrder: SkuCodeOrderItem[];
+  // Missing in snapshots exported before sku_generation_rules was read
+  skuGenerationRules?: SkuGenerationRule[];
+  // sku_index rows, only exported on request (used by the SKU coverage report)
+  skuIndex?: SkuIndexEntry[];
+}
+
+let activeProvider: ConfiguratorDataProvider | null = null;
+
+/**
+ * Install a provider for all catalog loaders; pass null to go back to Supabase
+ */
+export function setDataProvider(provider: ConfiguratorDataProvider | null): void {
+  activeProvider = provider;
+  if (import.meta.env?.DEV && provider) {
+    console.log(`🗄️ Using ${provider.name} data provider`);
+  }
+}
+
+export function getDataProvider(): ConfiguratorDataProvider | null {
+  return activeProvider;
+}
+
+/**
+ * Validate a parsed snapshot file
+ */
+export function parseDataSnapshot(value: unknown): DataSnapshot {
+  const snapshot = value as Partial<DataSnapshot> | null;
+  if (!snapshot || typeof snapshot !== 'object') {
+    throw new Error('Invalid data snapshot: expected an object');
+  }
+  if (snapshot.version !== DATA_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported data snapshot version ${String(snapshot.version)} (expected ${DATA_SNAPSHOT_VERSION})`);
+  }
+  for (const key of ['productLines', 'products', 'rules', 'productLineDefaultOptions', 'productOptionOverrides', 'skuCodeOrder'] as const) {
+    if (!Array.isArray(snapshot[key])) {
+      throw new Error(`Invalid data snapshot: "${key}" must be an array`);
+    }
+  }
+  if (!snapshot.options || typeof snapshot.options !== 'object') {
+    throw new Error('Invalid data snapshot: "options" must be an object');
+  }
+  return snapshot as DataSnapshot;
+}
+
+/**
+ * Provider that serves everything from a snapshot. Accepts a promise so the browser can
+ * install it before the snapshot has finished downloading.
+ */
+export function createSnapshotDataProvider(source: DataSnapshot | Promise<DataSnapshot>): ConfiguratorDataProvider {
+  const load = Promise.resolve(source);
+  const bySort = (a: Record<string, any>, b: Record<string, any>) => (a.sort ?? 0) - (b.sort ?? 0);
+
+  return {
+    name: 'snapshot',
+
+    getRules: async () => (await load).rules,
+
+    getProducts: async () => (await load).products.filter((product) => product.active === true),
+
+    fetchProductLines: async () =>
+      [...(await load).productLines].sort(bySort).map((line) => ({
+        id: line.id,
+        name: line.name ?? '',
+        sku_code: line.sku_code ?? '',
+        active: line.active ?? true,
+        default_options: [],
+      })),
+
+    fetchProductOptions: async (productLineId, productId) => {
+      const snapshot = await load;
+      const options = createEmptyProductOptions();
+      const grouped = resolveOptionIds(
+        snapshot.productLineDefaultOptions.filter((row) => row.product_lines_id === productLineId),
+        productId ? snapshot.productOptionOverrides.filter((row) => row.products_id === productId) : [],
+      );
+
+      grouped.forEach((ids, collection) => {
+        const field = COLLECTION_TO_FIELD[collection];
+        const rows = snapshot.options[collection];
+        if (!field || !rows || ids.length === 0) return;
+
+        const wanted = new Set(ids);
+        (options[field] as ProductOption[]) = rows
+          .filter((row) => wanted.has(Number(row.id)))
+          .sort(bySort)
+          .map((row) => normalizeOption(row));
+      });
+
+      return options;
+    },
+
+    fetchSkuCodeOrder: async () =>
+      [...(await load).skuCodeOrder].sort((a, b) => a.order - b.order),
+
+    fetchSkuGenerationRules: async () => (await load).skuGenerationRules ?? [],
+  };
+}
+
+/**
+ * Download and validate a snapshot (used by main.tsx when VITE_DATA_SNAPSHOT_URL is set)
+ */
+export async function fetchDataSnapshot(url: string): Promise<DataSnapshot> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load data snapshot from ${url}: ${response.status}`);
+  }
+  return parseDataSnapshot(await response.json());
+}
@@ -0,0 +1,338 @@
+/**
+ * Facet Engine
+ *
+ * Availability and product counts for every option collection, computed from what a
+ * product line actually offers. The offer is a list of facet records:
+ * - one per sku_index row (a concrete combination), when the line has rows there
+ * - otherwise one per product: its own mirror style / frame thickness / light direction
+ *   columns, and for the other collections the product line defaults with the product's
+ *   products_options_overrides applied
+ *
+ * Each collection is narrowed by the selections of the collections upstream of it, and
+ * the option ids left are counted by distinct product. By default a collection is
+ * downstream of every collection before it in the facet order (the configuration_ui
+ * sort order in the app, FACET_FIELDS order otherwise); `dependencies` replaces that for
+ * the collections it lists. Selections never narrow their own collection, so a customer
+ * can always see the alternatives to what they picked.
+ */
+
+import { getProducts, supabase } from './supabase';
+import { getDataProvider } from './data-provider';
+import { fetchCached, queryClient, queryKeys } from './data-layer';
+import { COLLECTION_TO_FIELD, resolveOptionIds, type OptionAssignmentRow } from './product-options-builder';
+import { sameDimension } from './units';
+import type { SkuIndexEntry } from './sku-coverage';
+import type { ProductConfig, ProductOption, ProductOptions } from '../store/types';
+
+export interface FacetField {
+  collection: string;
+  // Config field holding the selection; 'size' is matched from width/height
+  configField: keyof ProductConfig | 'size';
+  skuIndexColumn: keyof SkuIndexEntry;
+  // products column that fixes the value for a product
+  productColumn?: string;
+}
+
+// Every facetable collection, in the default facet order
+export const FACET_FIELDS: FacetField[] = [
+  { collection: 'mirror_styles', configField: 'mirrorStyle', skuIndexColumn: 'mirror_style_id', productColumn: 'mirror_style' },
+  { collection: 'frame_thicknesses', configField: 'frameThickness', skuIndexColumn: 'frame_thickness_id', productColumn: 'frame_thickness' },
+  { collection: 'light_directions', configField: 'lighting', skuIndexColumn: 'light_direction_id', productColumn: 'light_direction' },
+  { collection: 'frame_colors', configField: 'frameColor', skuIndexColumn: 'frame_color_id' },
+  { collection: 'mounting_options', configField: 'mounting', skuIndexColumn: 'mounting_option_id' },
+  { collection: 'hanging_techniques', configField: 'hangingTechnique', skuIndexColumn: 'hanging_technique_id' },
+  { collection: 'color_temperatures', configField: 'colorTemperature', skuIndexColumn: 'color_temperature_id' },
+  { collection: 'light_outputs', configField: 'lightOutput', skuIndexColumn: 'light_output_id' },
+  { collection: 'drivers', configField: 'driver', skuIndexColumn: 'driver_id' },
+  { collection: 'sizes', configField: 'size', skuIndexColumn: 'size_id' },
+  { collection: 'accessories', configField: 'accessories', skuIndexColumn: 'accessory_id' },
+];
+
+const FIELD_BY_COLLECTION = new Map(FACET_FIELDS.map((field) => [field.collection, field]));
+
+export interface FacetRecord {
+  productId: number;
+  // Option ids offered per collection; a collection left out offers nothing
+  values: Record<string, number[]>;
+}
+
+// Selected option ids per collection (several for accessories)
+export type FacetSelections = Record<string, number[]>;
+
+export interface FacetOptions {
+  // Collections in dependency order; unknown collections are ignored and the rest follow
+  order?: string[];
+  // Upstream collections for the collections listed, replacing the order for them
+  dependencies?: Record<string, string[]>;
+}
+
+export interface CollectionFacets {
+  // Collections whose selections narrowed this one
+  upstream: string[];
+  // Option id -> distinct products offering it under the upstream selections
+  counts: Record<number, number>;
+  // Ids offered anywhere in the product line, ascending
+  line: number[];
+  // Ids left by each selected upstream collection on its own, ascending
+  byUpstream: Record<string, number[]>;
+}
+
+export interface FacetResult {
+  // Only collections the records offer something in are faceted
+  collections: Record<string, CollectionFacets>;
+  // Distinct products matching every selection
+  matchingProductCount: number;
+}
+
+const productFacet = (value: unknown): number | null => {
+  if (value && typeof value === 'object') return typeof (value as any).key === 'number' ? (value as any).key : null;
+  return typeof value === 'number' ? value : null;
+};
+
+const toIds = (value: unknown): number[] => {
+  const values = Array.isArray(value) ? value : String(value ?? '').split(',');
+  return values
+    .map((item) => (typeof item === 'number' ? item : parseInt(String(item).trim(), 10)))
+    .filter((id) => Number.isFinite(id));
+};
+
+/**
+ * One record per sku_index row
+ */
+export function facetRecordsFromSkuIndex(rows: Array<Partial<SkuIndexEntry> & { product_id: number }>): FacetRecord[] {
+  return rows.map((row) => {
+    const values: Record<string, number[]> = {};
+    for (const field of FACET_FIELDS) {
+      const id = row[field.skuIndexColumn];
+      if (typeof id === 'number') values[field.collection] = [id];
+    }
+    return { productId: row.product_id, values };
+  });
+}
+
+/**
+ * One record per product: option ids from `optionIds` (defaults with overrides applied),
+ * with the product's own facet columns taking precedence
+ */
+export function facetRecordsFromProducts(
+  products: any[],
+  optionIds: (productId: number) => Map<string, number[]> | undefined = () => undefined,
+): FacetRecord[] {
+  return products.map((product) => {
+    const values: Record<string, number[]> = {};
+    optionIds(product.id)?.forEach((ids, collection) => {
+      if (FIELD_BY_COLLECTION.has(collection)) values[collection] = ids;
+    });
+    for (const field of FACET_FIELDS) {
+      if (!field.productColumn) continue;
+      const id = productFacet(product[field.productColumn]);
+      if (id !== null) values[field.collection] = [id];
+    }
+    return { productId: product.id, values };
+  });
+}
+
+/**
+ * One record per product from the product line defaults, with each product's
+ * products_options_overrides applied (see facetRecordsFromProducts)
+ */
+export function facetRecordsFromAssignments(
+  products: any[],
+  defaultRows: OptionAssignmentRow[],
+  overrideRows: Array<OptionAssignmentRow & { products_id: number | null }>,
+): FacetRecord[] {
+  const overridesByProduct = new Map<number, OptionAssignmentRow[]>();
+  for (const row of overrideRows) {
+    if (row.products_id === null) continue;
+    if (!overridesByProduct.has(row.products_id)) overridesByProduct.set(row.products_id, []);
+    overridesByProduct.get(row.products_id)!.push(row);
+  }
+  return facetRecordsFromProducts(products, (id) => resolveOptionIds(defaultRows, overridesByProduct.get(id)));
+}
+
+/**
+ * The configuration's selections per collection. A size is selected when width and
+ * height match a size preset; custom sizes select nothing.
+ */
+export function facetSelections(config: Partial<ProductConfig>, sizes: ProductOption[] = []): FacetSelections {
+  const selections: FacetSelections = {};
+  for (const field of FACET_FIELDS) {
+    if (field.configField === 'size') {
+      const preset = sizes.find(
+        (size) => sameDimension(size.width, config.width) && sameDimension(size.height, config.height),
+      );
+      if (preset) selections[field.collection] = [preset.id];
+      continue;
+    }
+    const ids = toIds(config[field.configField]);
+    if (ids.length > 0) selections[field.collection] = ids;
+  }
+  return selections;
+}
+
+/**
+ * Upstream collections for each faceted collection
+ */
+export function resolveFacetDependencies(collections: string[], options: FacetOptions = {}): Record<string, string[]> {
+  const faceted = new Set(collections);
+  const order = [...(options.order ?? []), ...FACET_FIELDS.map((field) => field.collection)].filter(
+    (collection, index, all) => faceted.has(collection) && all.indexOf(collection) === index,
+  );
+
+  return Object.fromEntries(
+    order.map((collection, index) => [
+      collection,
+      (options.dependencies?.[collection] ?? order.slice(0, index)).filter(
+        (upstream) => upstream !== collection && faceted.has(upstream),
+      ),
+    ]),
+  );
+}
+
+const matches = (record: FacetRecord, selections: FacetSelections, collections: string[]): boolean =>
+  collections.every((collection) => {
+    const selected = selections[collection];
+    if (!selected || selected.length === 0) return true;
+    const offered = record.values[collection];
+    return !!offered && selected.every((id) => offered.includes(id));
+  });
+
+const offeredIds = (records: FacetRecord[], collection: string): number[] =>
+  Array.from(new Set(records.flatMap((record) => record.values[collection] ?? []))).sort((a, b) => a - b);
+
+/**
+ * Facets and product counts for every collection the records offer something in
+ */
+export function computeFacets(
+  records: FacetRecord[],
+  selections: FacetSelections,
+  options: FacetOptions = {},
+): FacetResult {
+  const faceted = FACET_FIELDS.map((field) => field.collection).filter((collection) =>
+    records.some((record) => (record.values[collection]?.length ?? 0) > 0),
+  );
+  const dependencies = resolveFacetDependencies(faceted, options);
+  const collections: Record<string, CollectionFacets> = {};
+
+  for (const [collection, upstream] of Object.entries(dependencies)) {
+    const scope = records.filter((record) => matches(record, selections, upstream));
+
+    const products = new Map<number, Set<number>>();
+    for (const record of scope) {
+      for (const id of record.values[collection] ?? []) {
+        if (!products.has(id)) products.set(id, new Set());
+        products.get(id)!.add(record.productId);
+      }
+    }
+
+    const byUpstream: Record<string, number[]> = {};
+    for (const selected of upstream) {
+      if (!selections[selected]?.length) continue;
+      byUpstream[selected] = offeredIds(
+        records.filter((record) => matches(record, selections, [selected])),
+        collection,
+      );
+    }
+
+    collections[collection] = {
+      upstream,
+      counts: Object.fromEntries(Array.from(products, ([id, productIds]) => [id, productIds.size])),
+      line: offeredIds(records, collection),
+      byUpstream,
+    };
+  }
+
+  const matching = records.filter((record) => matches(record, selections, faceted));
+  return {
+    collections,
+    matchingProductCount: new Set(matching.map((record) => record.productId)).size,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+const SKU_INDEX_PAGE_SIZE = 1000;
+
+const SKU_INDEX_COLUMNS =
+  'product_id, mirror_style_id, frame_thickness_id, light_direction_id, frame_color_id, mounting_option_id, hanging_technique_id, color_temperature_id, light_output_id, driver_id, size_id, accessory_id';
+
+async function fetchSkuIndexRows(productLineId: number) {
+  const rows: Array<Partial<SkuIndexEntry> & { product_id: number }> = [];
+  for (let from = 0; ; from += SKU_INDEX_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sku_index')
+      .select(SKU_INDEX_COLUMNS)
+      .eq('product_line_id', productLineId)
+      .order('id', { ascending: true })
+      .range(from, from + SKU_INDEX_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < SKU_INDEX_PAGE_SIZE) return rows;
+  }
+}
+
+async function fetchOptionAssignmentRows(productLineId: number, productIds: number[]) {
+  const [defaults, overrides] = await Promise.all([
+    supabase.from('product_lines_default_options').select('collection, item').eq('product_lines_id', productLineId),
+    productIds.length > 0
+      ? supabase.from('products_options_overrides').select('products_id, collection, item').in('products_id', productIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (defaults.error) throw defaults.error;
+  if (overrides.error) throw overrides.error;
+  return { defaults: defaults.data ?? [], overrides: overrides.data ?? [] };
+}
+
+const optionIdsFromProductOptions = (productOptions: ProductOptions): Map<string, number[]> =>
+  new Map(
+    Object.entries(COLLECTION_TO_FIELD).map(([collection, optionsKey]) => [
+      collection,
+      (productOptions[optionsKey] as ProductOption[]).map((option) => option.id),
+    ]),
+  );
+
+async function fetchFacetRecords(productLineId: number): Promise<FacetRecord[]> {
+  const products = (await getProducts()).filter(
+    (product: any) => product.product_line === productLineId && product.active === true,
+  );
+  const productIds = products.map((product: any) => product.id as number);
+
+  // Snapshot providers hand out option lists per product
+  const provider = getDataProvider();
+  if (provider) {
+    const lists = await Promise.all(
+      productIds.map(async (id) => [id, optionIdsFromProductOptions(await provider.fetchProductOptions(productLineId, id))] as const),
+    );
+    const byProduct = new Map(lists);
+    return facetRecordsFromProducts(products, (id) => byProduct.get(id));
+  }
+
+  try {
+    const active = new Set(productIds);
+    const rows = (await fetchSkuIndexRows(productLineId)).filter((row) => active.has(row.product_id));
+    if (rows.length > 0) return facetRecordsFromSkuIndex(rows);
+  } catch (error) {
+    console.warn(`sku_index unavailable for product line ${productLineId}, faceting products instead:`, error);
+  }
+
+  const { defaults, overrides } = await fetchOptionAssignmentRows(productLineId, productIds);
+  return facetRecordsFromAssignments(products, defaults, overrides);
+}
+
+/**
+ * Facet records for a product line, through the data layer. They are not persisted
+ * between visits: a line's records can run to thousands of rows.
+ */
+export function loadFacetRecords(productLineId: number): Promise<FacetRecord[]> {
+  return fetchCached({
+    queryKey: queryKeys.facetRecords(productLineId),
+    queryFn: () => fetchFacetRecords(productLineId),
+    persist: false,
+  });
+}
+
+export function clearFacetRecordCache(): void {
+  queryClient.removeQueries({ queryKey: queryKeys.facetRecords() });
+}
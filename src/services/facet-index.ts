@@ -0,0 +1,178 @@
+/**
+ * Facet Index
+ *
+ * An in-memory index over a product line's facet records, built once per line: one
+ * bitset over the records per offered option. computeFacets answers by scanning every
+ * record; the index answers the same questions with bitset intersections instead, and
+ * memoizes each collection's facet by its upstream selections, so changing one field
+ * only recomputes the collections downstream of it.
+ *
+ * Results are identical to computeFacets (see facet-engine), which stays the reference
+ * implementation.
+ */
+
+import {
+  FACET_FIELDS,
+  loadFacetRecords,
+  resolveFacetDependencies,
+  type CollectionFacets,
+  type FacetOptions,
+  type FacetRecord,
+  type FacetResult,
+  type FacetSelections,
+} from './facet-engine';
+
+type Bitset = Uint32Array;
+
+const createBitset = (size: number): Bitset => new Uint32Array((size + 31) >>> 5);
+
+const setBit = (bits: Bitset, index: number) => {
+  bits[index >>> 5] |= 1 << (index & 31);
+};
+
+const intersect = (a: Bitset, b: Bitset): Bitset => a.map((word, index) => word & b[index]);
+
+const isEmpty = (bits: Bitset): boolean => bits.every((word) => word === 0);
+
+function forEachBit(bits: Bitset, visit: (index: number) => void) {
+  bits.forEach((word, wordIndex) => {
+    while (word !== 0) {
+      const lowest = word & -word;
+      visit((wordIndex << 5) + 31 - Math.clz32(lowest));
+      word ^= lowest;
+    }
+  });
+}
+
+// Memoized facets per index; cleared wholesale past this size
+const MEMO_LIMIT = 2000;
+
+export interface FacetIndex {
+  records: FacetRecord[];
+  // Same result as computeFacets(records, selections, options)
+  facets(selections: FacetSelections, options?: FacetOptions): FacetResult;
+}
+
+/**
+ * Index facet records for repeated faceting
+ */
+export function createFacetIndex(records: FacetRecord[]): FacetIndex {
+  const size = records.length;
+  const everything = createBitset(size);
+  records.forEach((_, index) => setBit(everything, index));
+
+  // collection -> option id -> records offering it, ids ascending
+  const optionBits = new Map<string, Map<number, Bitset>>();
+  for (const { collection } of FACET_FIELDS) {
+    const byOption = new Map<number, Bitset>();
+    records.forEach((record, index) => {
+      for (const id of record.values[collection] ?? []) {
+        if (!byOption.has(id)) byOption.set(id, createBitset(size));
+        setBit(byOption.get(id)!, index);
+      }
+    });
+    if (byOption.size > 0) {
+      optionBits.set(collection, new Map([...byOption].sort(([a], [b]) => a - b)));
+    }
+  }
+  const faceted = FACET_FIELDS.map((field) => field.collection).filter((collection) => optionBits.has(collection));
+
+  // Records are counted by distinct product
+  const productIndex = new Map<number, number>();
+  const productOf = records.map((record) => {
+    if (!productIndex.has(record.productId)) productIndex.set(record.productId, productIndex.size);
+    return productIndex.get(record.productId)!;
+  });
+  const countProducts = (bits: Bitset): number => {
+    const seen = createBitset(productIndex.size);
+    let count = 0;
+    forEachBit(bits, (index) => {
+      const product = productOf[index];
+      if ((seen[product >>> 5] & (1 << (product & 31))) === 0) {
+        setBit(seen, product);
+        count++;
+      }
+    });
+    return count;
+  };
+
+  const memo = new Map<string, unknown>();
+  const remember = <T>(key: string, compute: () => T): T => {
+    if (memo.has(key)) return memo.get(key) as T;
+    if (memo.size >= MEMO_LIMIT) memo.clear();
+    const value = compute();
+    memo.set(key, value);
+    return value;
+  };
+
+  const selectionKey = (selections: FacetSelections, collections: string[]) =>
+    collections.map((collection) => `${collection}=${(selections[collection] ?? []).join(',')}`).join('&');
+
+  // Records offering every id selected in the collection
+  const selectionScope = (selections: FacetSelections, collection: string): Bitset =>
+    remember(`selection:${selectionKey(selections, [collection])}`, () =>
+      (selections[collection] ?? []).reduce(
+        (scope, id) => intersect(scope, optionBits.get(collection)!.get(id) ?? createBitset(size)),
+        everything,
+      ),
+    );
+
+  const scopeOf = (selections: FacetSelections, collections: string[]): Bitset =>
+    remember(`scope:${selectionKey(selections, collections)}`, () =>
+      collections.reduce((scope, collection) => intersect(scope, selectionScope(selections, collection)), everything),
+    );
+
+  const collectionFacets = (collection: string, upstream: string[], selections: FacetSelections): CollectionFacets =>
+    remember(`facets:${collection}:${selectionKey(selections, upstream)}`, () => {
+      const options = optionBits.get(collection)!;
+      const scope = scopeOf(selections, upstream);
+
+      const counts: Record<number, number> = {};
+      options.forEach((bits, id) => {
+        const count = countProducts(intersect(scope, bits));
+        if (count > 0) counts[id] = count;
+      });
+
+      const byUpstream: Record<string, number[]> = {};
+      for (const selected of upstream) {
+        if (!selections[selected]?.length) continue;
+        const selectedScope = selectionScope(selections, selected);
+        byUpstream[selected] = [...options]
+          .filter(([, bits]) => !isEmpty(intersect(selectedScope, bits)))
+          .map(([id]) => id);
+      }
+
+      return { upstream, counts, line: [...options.keys()], byUpstream };
+    });
+
+  return {
+    records,
+    facets(selections, options = {}) {
+      const dependencies = resolveFacetDependencies(faceted, options);
+      const collections: Record<string, CollectionFacets> = {};
+      for (const [collection, upstream] of Object.entries(dependencies)) {
+        collections[collection] = collectionFacets(collection, upstream, selections);
+      }
+      return {
+        collections,
+        matchingProductCount: countProducts(scopeOf(selections, faceted)),
+      };
+    },
+  };
+}
+
+// Indexes follow their records: reloaded records get a new index
+const indexCache = new WeakMap<FacetRecord[], FacetIndex>();
+
+/**
+ * Facet index for a product line, built once per set of facet records
+ */
+export async function loadFacetIndex(productLineId: number): Promise<FacetIndex> {
+  const records = await loadFacetRecords(productLineId);
+  let index = indexCache.get(records);
+  if (!index) {
+    index = createFacetIndex(records);
+    indexCache.set(records, index);
+  }
+  return index;
+}
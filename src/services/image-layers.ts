@@ -0,0 +1,141 @@
+/**
+ * Image Layers
+ *
+ * Which configuration_images layers a configuration shows, and in which order. Each
+ * layer's image_rules is a Directus filter evaluated through the rule compiler against
+ * the configuration; visible layers stack by z_index. Unlike option rules, a comparison on
+ * a field the configuration has not set fails (`_neq`/`_nin` included), so a layer keyed on
+ * "not this driver" stays hidden until a driver is chosen.
+ *
+ * ProductImageLayers renders the result; the compute service answers the same query off
+ * the main thread.
+ */
+
+import { compileCondition, type RulePredicate } from './rule-compiler';
+
+export interface ConfigImageRule {
+  [key: string]: any;
+}
+
+export interface ConfigurationImage {
+  id: string;
+  name: string;
+  image: string; // Supabase storage file ID (directus_files table)
+  z_index: number | string; // API returns as string, convert to number during processing
+  image_rules: ConfigImageRule;
+}
+
+// Predicates are cached per rule object
+const compiledImageRules = new WeakMap<ConfigImageRule, RulePredicate>();
+
+/**
+ * Whether a layer's rules match the configuration (an empty rule always does)
+ */
+export function evaluateImageRule(rule: ConfigImageRule, config: Record<string, any>): boolean {
+  try {
+    // If no rule or empty rule object, always show the layer
+    if (!rule || Object.keys(rule).length === 0) {
+      return true;
+    }
+
+    if (typeof rule !== 'object') {
+      console.error('Rule is not an object, returning false');
+      return false;
+    }
+
+    // Create a normalized config object with standardized field names
+    const normalizedConfig: Record<string, any> = {
+      // Handle product_line mapping - use productLineId if available
+      product_lines: config.productLineId || config.productLine?.id || config.product_lines || null,
+      // Convert string values to their appropriate types - ensure they're numbers
+      frame_thicknesses: parseInt(config.frameThickness) || config.frame_thicknesses || null,
+      mounting_options: parseInt(config.mounting) || config.mounting_options || null,
+      light_directions: parseInt(config.lighting) || config.light_directions || null, // Map lighting to light_directions
+      mirror_styles: parseInt(config.mirrorStyle) || config.mirror_styles || null,
+      mirror_controls: parseInt(config.mirrorControls) || parseInt(config.mirrorControl) || config.mirror_controls || null,
+      // Add missing field mappings
+      frame_colors: parseInt(config.frameColor) || config.frame_colors || null,
+      color_temperatures: parseInt(config.colorTemperature) || config.color_temperatures || null,
+      light_outputs: parseInt(config.lightOutput) || config.light_outputs || null,
+      drivers: parseInt(config.driver) || config.drivers || null,
+      sizes: parseInt(config.size) || config.sizes || null,
+      accessories: config.accessories || [],
+    };
+
+    // Handle NaN values (parseInt returns NaN for invalid strings)
+    Object.keys(normalizedConfig).forEach((key) => {
+      if (typeof normalizedConfig[key] === 'number' && isNaN(normalizedConfig[key])) {
+        normalizedConfig[key] = null;
+      }
+    });
+
+    // Use normalized config with numeric IDs for rule evaluation
+    // Don't override with name mappings as rules expect numeric comparisons
+    const enhancedConfig = { ...config, ...normalizedConfig };
+
+    let predicate = compiledImageRules.get(rule);
+    if (!predicate) {
+      predicate = compileCondition(rule, { caseInsensitiveContains: true, unsetFieldsFail: true });
+      compiledImageRules.set(rule, predicate);
+    }
+    return predicate(enhancedConfig);
+  } catch (error) {
+    console.error('Error evaluating rule:', error);
+    return false;
+  }
+}
+
+/**
+ * A layer's image_rules as an object; null when they are a string that does not parse
+ * (GraphQL may return the JSON as a string)
+ */
+export function parseImageRules(layer: ConfigurationImage): ConfigImageRule | null {
+  if (typeof layer.image_rules !== 'string') return layer.image_rules || {};
+  try {
+    return JSON.parse(layer.image_rules);
+  } catch {
+    return null;
+  }
+}
+
+const zIndexOf = (layer: ConfigurationImage): number =>
+  typeof layer.z_index === 'string' ? parseInt(layer.z_index) : layer.z_index || 0;
+
+// Frost layers sharing a z-index render Bottom, Left, Top, Right
+const FROST_ORDER = ['bottom', 'left', 'top', 'right'];
+
+function compareImageLayers(a: ConfigurationImage, b: ConfigurationImage): number {
+  const zIndexA = zIndexOf(a);
+  const zIndexB = zIndexOf(b);
+  if (zIndexA !== zIndexB) {
+    return zIndexA - zIndexB;
+  }
+
+  const isFrostA = a.name && a.name.toLowerCase().includes('frost');
+  const isFrostB = b.name && b.name.toLowerCase().includes('frost');
+  if (isFrostA && isFrostB) {
+    const orderA = FROST_ORDER.findIndex((dir) => a.name.toLowerCase().includes(dir));
+    const orderB = FROST_ORDER.findIndex((dir) => b.name.toLowerCase().includes(dir));
+    return orderA - orderB;
+  }
+
+  return 0;
+}
+
+/**
+ * The layers the configuration shows, bottom to top. Layers without rules are shown;
+ * layers whose rules do not parse are not.
+ */
+export function visibleImageLayers(
+  images: ConfigurationImage[],
+  config: Record<string, any>,
+): ConfigurationImage[] {
+  return images
+    .filter((layer) => {
+      if (!layer || typeof layer !== 'object') return false;
+      if (!layer.image_rules) return true;
+      const rules = parseImageRules(layer);
+      return rules !== null && evaluateImageRule(rules, config);
+    })
+    .sort(compareImageLayers);
+}
@@ -0,0 +1,266 @@
+/**
+ * Option Explainer Service
+ *
+ * Answers "why is this option disabled?" for the configurator UI. Disabled options come
+ * from three sources, each recording provenance alongside disabledOptionIds:
+ * - rules (rules-ui-integration): the names of the matching rules
+ * - product availability (product-availability): the upstream selections that left zero products
+ * - size envelopes (size-envelope): a requirement the configured size exceeds
+ *
+ * It also answers "what would I need to change?" by relaxing one selection at a time and
+ * re-running the availability pipeline used by recomputeFiltering.
+ */
+
+import { runAvailabilityPipeline } from './availability-pipeline';
+import { facetRecordsFromProducts } from './facet-engine';
+import type { RuleApplicationResult } from './rules-ui-integration';
+import { RULE_FIELDS } from './rule-compiler';
+import { getProducts, getRules, type Rule } from './supabase';
+import { en } from '../i18n/messages/en';
+import type { Translator } from '../i18n/translator';
+import type { DisabledOptionReasons, DisabledReason, ProductConfig, ProductOptions } from '../store/types';
+
+export interface EnablingChange {
+  field: string; // ProductConfig field to change
+  collection: string;
+  fromId: number;
+  toId: number;
+  toName: string;
+}
+
+// disabledOptionIds collection -> productOptions key
+const OPTION_KEYS: Record<string, keyof ProductOptions> = {
+  mirror_styles: 'mirrorStyles',
+  frame_colors: 'frameColors',
+  frame_thicknesses: 'frameThickness',
+  mirror_controls: 'mirrorControls',
+  mounting_options: 'mountingOptions',
+  hanging_techniques: 'hangingTechniques',
+  light_directions: 'lightingOptions',
+  color_temperatures: 'colorTemperatures',
+  light_outputs: 'lightOutputs',
+  drivers: 'drivers',
+  accessories: 'accessoryOptions',
+  sizes: 'sizes',
+};
+
+const CONFIG_FIELD_TO_COLLECTION: Record<string, string> = {
+  ...Object.fromEntries(Object.values(RULE_FIELDS).map((binding) => [binding.configField, binding.collection])),
+  // Availability reports the selected size preset by id
+  size: 'sizes',
+};
+
+/**
+ * Merge product-availability and rule results into disabledOptionIds with reasons.
+ * Rule-set values override everything; direct disabled lists are unioned.
+ */
+export function mergeDisabledOptions(
+  unavailableFromProducts: Record<string, number[]>,
+  productReasons: DisabledOptionReasons,
+  rulesResult: Pick<RuleApplicationResult, 'disabledOptions' | 'reasons'>,
+): { disabledOptionIds: Record<string, number[]>; reasons: DisabledOptionReasons } {
+  const disabledOptionIds: Record<string, number[]> = { ...unavailableFromProducts };
+  const reasons: DisabledOptionReasons = {};
+
+  for (const [key, byOption] of Object.entries(productReasons)) {
+    reasons[key] = { ...byOption };
+  }
+
+  for (const [collection, disabledIds] of Object.entries(rulesResult.disabledOptions)) {
+    if (collection.endsWith('_rule_set')) {
+      disabledOptionIds[collection] = disabledIds;
+    } else {
+      const existing = disabledOptionIds[collection] || [];
+      disabledOptionIds[collection] = Array.from(new Set([...existing, ...disabledIds]));
+    }
+  }
+
+  for (const [key, byOption] of Object.entries(rulesResult.reasons || {})) {
+    const target = (reasons[key] ??= {});
+    for (const [optionId, list] of Object.entries(byOption)) {
+      const id = Number(optionId);
+      target[id] = [...(target[id] || []), ...list];
+    }
+  }
+
+  return { disabledOptionIds, reasons };
+}
+
+/**
+ * Whether an option is disabled, matching useOptionState: a rule-set value disables
+ * every alternative, otherwise the direct disabled list applies
+ */
+export function isOptionDisabled(
+  disabledOptionIds: Record<string, number[]>,
+  collection: string,
+  optionId: number,
+): boolean {
+  const ruleSetIds = disabledOptionIds[`${collection}_rule_set`] || [];
+  if (ruleSetIds.length > 0) return !ruleSetIds.includes(optionId);
+  return (disabledOptionIds[collection] || []).includes(optionId);
+}
+
+/**
+ * Reasons an option is disabled (empty when it is enabled or no provenance was recorded)
+ */
+export function explainDisabledOption(
+  disabledOptionIds: Record<string, number[]>,
+  reasons: DisabledOptionReasons,
+  collection: string,
+  optionId: number,
+): DisabledReason[] {
+  if (!isOptionDisabled(disabledOptionIds, collection, optionId)) return [];
+
+  const ruleSetIds = disabledOptionIds[`${collection}_rule_set`] || [];
+  if (ruleSetIds.length > 0) {
+    return reasons[`${collection}_rule_set`]?.[ruleSetIds[0]] || [];
+  }
+  return reasons[collection]?.[optionId] || [];
+}
+
+/**
+ * Disabled options over loaded products and rules (product facet columns only; see
+ * availability-pipeline)
+ */
+export function computeDisabledOptions(
+  products: any[],
+  rules: Rule[],
+  productLineId: number,
+  config: ProductConfig,
+  productOptions: ProductOptions,
+): { disabledOptionIds: Record<string, number[]>; reasons: DisabledOptionReasons } {
+  const scope = products.filter((product) => product.product_line === productLineId && product.active === true);
+  const { disabledOptionIds, reasons } = runAvailabilityPipeline({
+    productLineId,
+    config,
+    productOptions,
+    records: facetRecordsFromProducts(scope),
+    rules,
+  });
+  return { disabledOptionIds, reasons };
+}
+
+/**
+ * Find single-selection changes that would enable an option.
+ * Each other selected field is relaxed on its own; the first alternative (in display
+ * order) that enables the option is reported per field.
+ */
+export function suggestEnablingChanges(input: {
+  products: any[];
+  rules: Rule[];
+  productLineId: number;
+  config: ProductConfig;
+  productOptions: ProductOptions;
+  collection: string;
+  optionId: number;
+}): EnablingChange[] {
+  const { products, rules, productLineId, config, productOptions, collection, optionId } = input;
+  const changes: EnablingChange[] = [];
+
+  for (const binding of Object.values(RULE_FIELDS)) {
+    if (binding.isArray || binding.collection === collection) continue;
+    const optionsKey = OPTION_KEYS[binding.collection];
+    const current = config[binding.configField as keyof ProductConfig];
+    if (!optionsKey || !current) continue;
+
+    const fromId = parseInt(String(current), 10);
+    const alternatives = (productOptions[optionsKey] as Array<{ id: number; name: string }>) || [];
+
+    for (const alternative of alternatives) {
+      if (alternative.id === fromId) continue;
+      const candidate = { ...config, [binding.configField]: String(alternative.id) };
+      const { disabledOptionIds } = computeDisabledOptions(products, rules, productLineId, candidate, productOptions);
+
+      if (!isOptionDisabled(disabledOptionIds, collection, optionId)) {
+        changes.push({
+          field: binding.configField,
+          collection: binding.collection,
+          fromId,
+          toId: alternative.id,
+          toName: alternative.name,
+        });
+        break;
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Load products and rules, then suggest changes that would enable an option
+ */
+export async function loadEnablingChanges(
+  productLineId: number,
+  config: ProductConfig,
+  productOptions: ProductOptions,
+  collection: string,
+  optionId: number,
+): Promise<EnablingChange[]> {
+  try {
+    const [products, rules] = await Promise.all([getProducts(), getRules()]);
+    return suggestEnablingChanges({ products, rules, productLineId, config, productOptions, collection, optionId });
+  } catch (error) {
+    console.error('❌ Failed to compute enabling changes:', error);
+    return [];
+  }
+}
+
+// Field name for explanations, e.g. "mirror style"; unknown fields are split from camelCase
+function fieldLabel(field: string, t: Translator['t']): string {
+  if (field in en.option.fields) {
+    return t(`option.fields.${field as keyof typeof en.option.fields}`);
+  }
+  return field.replace(/([A-Z])/g, ' $1').toLowerCase().trim();
+}
+
+function optionName(productOptions: ProductOptions | null, configField: string, value: string): string {
+  const optionsKey = OPTION_KEYS[CONFIG_FIELD_TO_COLLECTION[configField]];
+  const options = optionsKey && productOptions ? (productOptions[optionsKey] as Array<{ id: number; name: string }>) : [];
+  return options.find((option) => String(option.id) === value)?.name ?? value;
+}
+
+/**
+ * Human-readable sentence for a disabled reason
+ */
+export function formatDisabledReason(
+  reason: DisabledReason,
+  productOptions: ProductOptions | null,
+  translator: Translator,
+): string {
+  const { t } = translator;
+
+  if (reason.source === 'rule') {
+    return reason.effect === 'set'
+      ? t('option.ruleRequires', { rule: reason.ruleName })
+      : t('option.ruleExcludes', { rule: reason.ruleName });
+  }
+
+  if (reason.source === 'size') {
+    const dimension = t(`option.dimensions.${reason.dimension}`);
+    return t('option.sizeAbove', { dimension, length: reason.above });
+  }
+
+  if (reason.upstream.length === 0) {
+    return t('option.noProducts');
+  }
+
+  const selections = reason.upstream
+    .map(({ field, value }) =>
+      t('option.selection', { field: fieldLabel(field, t), option: optionName(productOptions, field, value) }),
+    )
+    .join(t('option.selectionJoin'));
+  return t('option.noMatch', { selections });
+}
+
+/**
+ * Human-readable hint for an enabling change
+ */
+export function formatEnablingChange(
+  change: EnablingChange,
+  productOptions: ProductOptions | null,
+  translator: Translator,
+): string {
+  const from = optionName(productOptions, change.field, String(change.fromId));
+  return translator.t('option.change', { field: fieldLabel(change.field, translator.t), from, to: change.toName });
+}
@@ -0,0 +1,72 @@
+/**
+ * Option Translations
+ *
+ * Localized option names and descriptions live in directus_translations, one row per
+ * string, keyed "<collection>.<option id>.<name|description>" (e.g. "frame_colors.40.name")
+ * with a Directus language code ("es-ES", "fr-CA"). Options without a row keep the
+ * catalog text, which is English.
+ */
+
+import type { OptionTranslations } from '../i18n/translator';
+
+export interface TranslationRow {
+  key: string;
+  language: string;
+  value: string;
+}
+
+const OPTION_KEY = /^([a-z_]+)\.(\d+)\.(name|description)$/;
+
+/**
+ * Group rows for a locale by collection and option id. A row in the exact locale wins
+ * over one in the bare language, which wins over another region of the language.
+ */
+export function parseOptionTranslations(rows: TranslationRow[], locale: string): OptionTranslations {
+  const language = locale.toLowerCase();
+  const base = language.split('-')[0];
+  const rank = (rowLanguage: string) => {
+    const normalized = rowLanguage.toLowerCase().replace(/_/g, '-');
+    if (normalized === language) return 3;
+    if (normalized === base) return 2;
+    return normalized.split('-')[0] === base ? 1 : 0;
+  };
+
+  const translations: OptionTranslations = {};
+  const ranks = new Map<string, number>();
+
+  for (const row of rows) {
+    const match = OPTION_KEY.exec(row.key);
+    const rowRank = rank(row.language);
+    if (!match || !row.value?.trim() || rowRank === 0 || (ranks.get(row.key) ?? 0) >= rowRank) continue;
+
+    const [, collection, optionId, field] = match;
+    ranks.set(row.key, rowRank);
+    const option = ((translations[collection] ??= {})[optionId] ??= {});
+    option[field as 'name' | 'description'] = row.value.trim();
+  }
+
+  return translations;
+}
+
+/**
+ * Load option translations for a locale; English needs none. Resolves empty (and logs)
+ * when translations cannot be loaded, so options fall back to their catalog text.
+ */
+export async function fetchOptionTranslations(locale: string): Promise<OptionTranslations> {
+  const base = locale.split('-')[0].toLowerCase();
+  if (base === 'en') return {};
+
+  try {
+    const { supabase } = await import('./supabase');
+    const { data, error } = await supabase
+      .from('directus_translations')
+      .select('key, language, value')
+      .ilike('language', `${base}%`);
+
+    if (error) throw error;
+    return parseOptionTranslations(data ?? [], locale);
+  } catch (error) {
+    console.error(`Failed to load option translations for ${locale}:`, error);
+    return {};
+  }
+}
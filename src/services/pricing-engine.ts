@@ -0,0 +1,28 @@
+/**
+ * Pricing Engine
+ *
+ * The engine lives with the edge function so POST /quotes reprices submitted quotes with
+ * exactly the code the configurator shows prices with.
+ */
+
+export {
+  DEFAULT_CURRENCY,
+  normalizePricingRules,
+  buildPricingContext,
+  calculateConfigurationPrice,
+  calculateQuoteTotal,
+  formatPrice,
+} from '../supabase/functions/server/pricing';
+
+export type {
+  PricingType,
+  PriceModifier,
+  PricingRule,
+  PriceLineKind,
+  PriceLineItem,
+  PriceBreakdown,
+  PricingRow,
+  PricingConfig,
+  PricingOptions,
+  PricingInput,
+} from '../supabase/functions/server/pricing';
@@ -1,51 +1,66 @@
 /**
  * Product Availability Service - Dynamic Filtering
  *
- * Computes which options are available based on actual products in the database.
+ * Computes which options are available based on actual products in the database
+ * (the facet stage of availability-pipeline).
  * Follows the facet-style algorithm from CLAUDE.md:
  *
- * 1. Start with all products in the active product_line
- * 2. Compute facet counts by key attributes (mirror_style, light_direction, etc.)
- * 3. When user selects an attribute, filter scope and recompute facets
+ * 1. Start with everything the active product_line offers (sku_index, or products
+ *    with their option assignments; see facet-engine)
+ * 2. Compute facet counts for every collection
+ * 3. When user selects an attribute, filter the scope of downstream collections and
+ *    recompute their facets
  * 4. Disable options with zero matching products
  *
- * GOLDEN RULE: Availability is computed from products table, never hard-coded
+ * GOLDEN RULE: Availability is computed from product data, never hard-coded
  */
 
-import { getProducts } from './supabase';
-import { ProductConfig } from '../store/types';
+import {
+  FACET_FIELDS,
+  computeFacets,
+  facetRecordsFromProducts,
+  facetSelections,
+  loadFacetRecords,
+  type FacetOptions,
+  type FacetRecord,
+} from './facet-engine';
+import type { FacetIndex } from './facet-index';
+import { COLLECTION_TO_FIELD } from './product-options-builder';
+import { ProductConfig, ProductOption, DisabledOptionReasons } from '../store/types';
 
 export interface AvailabilityResult {
   // Maps collection names to arrays of available option IDs
   availableOptions: Record<string, number[]>;
   // Maps collection names to arrays of unavailable option IDs
   unavailableOptions: Record<string, number[]>;
-  // Number of matching products for current selections
+  // Number of products matching every current selection
   matchingProductCount: number;
+  // Per collection: option id -> number of products offering it under the upstream selections
+  counts: Record<string, Record<number, number>>;
+  // Per collection: ids offered anywhere in the product line, and ids left by each
+  // upstream selection applied on its own (keyed by config field)
+  upstreamFacets: Record<string, { line: number[]; byField: Record<string, number[]> }>;
+  // Selected value per upstream config field, as reported in disabled reasons
+  selections: Record<string, string>;
 }
 
-// Map config fields to product table columns
-const CONFIG_TO_PRODUCT_FIELD: Record<string, string> = {
-  mirrorStyle: 'mirror_style',
-  frameThickness: 'frame_thickness',
-  lighting: 'light_direction',
-  // Add other mappings as needed
-};
+export interface AvailabilityOptions extends FacetOptions {
+  // Size presets, to tell which one the configured width/height selects
+  sizes?: ProductOption[];
+}
 
-// Map config fields to collection names for disabled options
-const CONFIG_TO_COLLECTION: Record<string, string> = {
-  // Note: mirror_styles explicitly excluded - they should NEVER be disabled by dynamic filtering
-  // Per CLAUDE.md: "Mirror Styles should not be disabled by dynamic filtering"
-  frameThickness: 'frame_thicknesses',
-  lighting: 'light_directions',
-};
+const emptyAvailability = (matchingProductCount = 0): AvailabilityResult => ({
+  availableOptions: {},
+  unavailableOptions: {},
+  matchingProductCount,
+  counts: {},
+  upstreamFacets: {},
+  selections: {},
+});
 
-// Define dependency chain: fields should only filter by their "upstream" dependencies
-// Mirror Style → Frame Thickness → Light Direction
-const FIELD_DEPENDENCIES: Record<string, string[]> = {
-  frameThickness: ['mirrorStyle'],  // Only filter by mirror style when computing frame thickness availability
-  lighting: ['mirrorStyle', 'frameThickness'],  // Filter by both when computing lighting availability
-};
+const CONFIG_FIELD_BY_COLLECTION: Record<string, string> = Object.fromEntries(
+  FACET_FIELDS.map((field) => [field.collection, field.configField]),
+);
 
 /**
  * Compute available options based on actual product inventory
@@ -53,181 +68,75 @@ const FIELD_DEPENDENCIES: Record<string, string[]> = {
  */
 export async function computeProductAvailability(
   productLineId: number,
-  currentConfig: ProductConfig
+  currentConfig: ProductConfig,
+  options: AvailabilityOptions = {}
 ): Promise<AvailabilityResult> {
   try {
-    // 1. Start scope: all products in the active product_line with active=true
-    const allProducts = await getProducts();
-    let scope = allProducts.filter(
-      (p) => p.product_line === productLineId && p.active === true
-    );
-
-    if (import.meta.env.DEV) {
-      console.log('🔍 Dynamic Filtering: Starting scope', {
-        productLineId,
-        totalProducts: scope.length,
-      });
-    }
-
-    // 2-4. For each field we want to compute availability for,
-    // filter by OTHER selections (not the field itself) and compute facets
-    const availableOptions: Record<string, number[]> = {};
-    const unavailableOptions: Record<string, number[]> = {};
-
-    for (const [configField, collection] of Object.entries(CONFIG_TO_COLLECTION)) {
-      const productField = CONFIG_TO_PRODUCT_FIELD[configField];
-      if (!productField) continue;
-
-      if (import.meta.env.DEV) {
-        console.log(`\n🔍 Computing availability for ${collection}:`, {
-          configField,
-          productField,
-          currentConfigValue: currentConfig[configField as keyof ProductConfig],
-        });
-      }
-
-      // Filter by all OTHER selections (exclude the field we're computing for)
-      const scopeForField = filterProductsBySelections(scope, currentConfig, configField);
-
-      if (import.meta.env.DEV) {
-        console.log(`   After filtering by OTHER selections:`, {
-          matchingProducts: scopeForField.length,
-          productNames: scopeForField.map(p => p.name),
-        });
-      }
-
-      // Compute facets for this specific field
-      const facets = computeFacets(scopeForField);
-
-      if (facets[productField]) {
-        const availableIds = Array.from(facets[productField]);
-        availableOptions[collection] = availableIds;
-
-        if (import.meta.env.DEV) {
-          console.log(`✅ Available ${collection} IDs:`, availableIds);
-          console.log(`   Values in products:`, scopeForField.map(p => ({
-            name: p.name,
-            [productField]: p[productField]
-          })));
-        }
-      } else {
-        if (import.meta.env.DEV) {
-          console.log(`⚠️ No facets found for ${productField}`);
-        }
-      }
-    }
-
-    return {
-      availableOptions,
-      unavailableOptions, // Will be computed by caller
-      matchingProductCount: scope.length,
-    };
+    const records = await loadFacetRecords(productLineId);
+    return computeAvailabilityFromRecords(records, currentConfig, options);
   } catch (error) {
     console.error('❌ Failed to compute product availability:', error);
-    return {
-      availableOptions: {},
-      unavailableOptions: {},
-      matchingProductCount: 0,
-    };
+    return emptyAvailability();
   }
 }
 
 /**
- * Filter products based on current configuration selections
- *
- * @param products - Array of products to filter
- * @param config - Current configuration selections
- * @param fieldToCompute - The field we're computing availability for
- *
- * IMPORTANT: When computing availability for a field, we only filter by its "upstream" dependencies
- * to avoid circular dependencies. For example:
- * - When computing frame_thickness availability, only filter by mirror_style
- * - When computing light_direction availability, filter by mirror_style AND frame_thickness
+ * Pure availability computation over an already-loaded product list
+ * (product facet columns only; see facet-engine for option assignments and sku_index)
  */
-function filterProductsBySelections(
-  products: any[],
-  config: ProductConfig,
-  fieldToCompute?: string
-): any[] {
-  let filtered = products;
-
-  // Determine which fields to filter by based on dependency chain
-  const fieldsToFilterBy = fieldToCompute && FIELD_DEPENDENCIES[fieldToCompute]
-    ? new Set(FIELD_DEPENDENCIES[fieldToCompute])
-    : new Set(Object.keys(CONFIG_TO_PRODUCT_FIELD));
-
-  if (import.meta.env.DEV && fieldToCompute) {
-    console.log(`   For ${fieldToCompute}, filtering by:`, Array.from(fieldsToFilterBy));
-  }
-
-  // Apply each selection as a filter (only for allowed fields)
-  for (const [configField, productField] of Object.entries(CONFIG_TO_PRODUCT_FIELD)) {
-    // Skip fields not in the dependency chain for this computation
-    if (fieldToCompute && !fieldsToFilterBy.has(configField)) {
-      if (import.meta.env.DEV) {
-        console.log(`   ⏭️  Skipping ${configField} (not in dependency chain)`);
-      }
-      continue;
-    }
-
-    const value = config[configField as keyof ProductConfig];
-    if (!value) continue; // Skip unset fields
-
-    const valueId = parseInt(value as string);
-
-    if (import.meta.env.DEV) {
-      console.log(`   🔍 Filtering by ${configField} = ${valueId}`);
-    }
-
-    filtered = filtered.filter((p) => {
-      const productValue = p[productField];
-
-      // Handle JSON object format for frame_thickness
-      if (typeof productValue === 'object' && productValue !== null) {
-        return (productValue as any).key === valueId;
-      }
-
-      // Handle direct ID
-      return productValue === valueId;
-    });
-  }
-
-  return filtered;
+export function computeAvailabilityFromProducts(
+  allProducts: any[],
+  productLineId: number,
+  currentConfig: ProductConfig,
+  options: AvailabilityOptions = {}
+): AvailabilityResult {
+  // Start scope: all products in the active product_line with active=true
+  const scope = allProducts.filter(
+    (p) => p.product_line === productLineId && p.active === true
+  );
+  return computeAvailabilityFromRecords(facetRecordsFromProducts(scope), currentConfig, options);
 }
 
 /**
- * Compute facet counts - which option IDs exist in the product scope
- * Returns a map of { productField -> Set<optionId> }
+ * Availability over facet records (or their index): each collection is narrowed by its
+ * upstream selections, and options no remaining record offers are unavailable
  */
-function computeFacets(products: any[]): Record<string, Set<number>> {
-  const facets: Record<string, Set<number>> = {};
-
-  // Initialize facet sets for each product field
-  for (const productField of Object.values(CONFIG_TO_PRODUCT_FIELD)) {
-    facets[productField] = new Set();
+export function computeAvailabilityFromRecords(
+  source: FacetRecord[] | FacetIndex,
+  currentConfig: ProductConfig,
+  options: AvailabilityOptions = {}
+): AvailabilityResult {
+  const selections = facetSelections(currentConfig, options.sizes);
+  const records = Array.isArray(source) ? source : source.records;
+  const facets = Array.isArray(source)
+    ? computeFacets(source, selections, options)
+    : source.facets(selections, options);
+
+  // unavailableOptions is computed by the caller
+  const result = emptyAvailability(facets.matchingProductCount);
+
+  for (const [collection, facet] of Object.entries(facets.collections)) {
+    result.availableOptions[collection] = Object.keys(facet.counts).map(Number);
+    result.counts[collection] = facet.counts;
+
+    const byField: Record<string, number[]> = {};
+    for (const [upstream, ids] of Object.entries(facet.byUpstream)) {
+      const field = CONFIG_FIELD_BY_COLLECTION[upstream];
+      byField[field] = ids;
+      result.selections[field] = selections[upstream].join(',');
+    }
+    result.upstreamFacets[collection] = { line: facet.line, byField };
   }
 
-  // Scan products and collect unique values for each field
-  for (const product of products) {
-    for (const productField of Object.values(CONFIG_TO_PRODUCT_FIELD)) {
-      const value = product[productField];
-
-      if (value !== null && value !== undefined) {
-        // Handle JSON object format (e.g., frame_thickness)
-        if (typeof value === 'object' && value !== null) {
-          const id = (value as any).key;
-          if (typeof id === 'number') {
-            facets[productField].add(id);
-          }
-        } else if (typeof value === 'number') {
-          // Handle direct ID
-          facets[productField].add(value);
-        }
-      }
-    }
+  if (import.meta.env?.DEV) {
+    console.log('🔍 Dynamic Filtering:', {
+      records: records.length,
+      matchingProducts: facets.matchingProductCount,
+      faceted: Object.keys(facets.collections),
+    });
   }
 
-  return facets;
+  return result;
 }
 
 /**
@@ -243,18 +152,13 @@ export function computeUnavailableOptions(
 ): Record<string, number[]> {
   const unavailable: Record<string, number[]> = {};
 
-  // Map productOptions keys to collection names
   // Note: mirror_styles explicitly excluded - they should NEVER be disabled by dynamic filtering
-  const optionsKeyToCollection: Record<string, string> = {
-    frameThickness: 'frame_thicknesses',
-    lightingOptions: 'light_directions',
-  };
-
-  for (const [optionsKey, collection] of Object.entries(optionsKeyToCollection)) {
-    const options = allOptions[optionsKey];
+  for (const [collection, availableIds] of Object.entries(availableOptions)) {
+    if (collection === 'mirror_styles') continue;
+    const options = allOptions[COLLECTION_TO_FIELD[collection]];
     if (!Array.isArray(options)) continue;
 
-    const available = new Set(availableOptions[collection] || []);
+    const available = new Set(availableIds);
     const unavailableIds = options
       .map((opt) => opt.id)
       .filter((id) => !available.has(id));
@@ -265,4 +169,42 @@ export function computeUnavailableOptions(
   }
 
   return unavailable;
-}
\ No newline at end of file
+}
+
+/**
+ * Explain unavailable options in terms of the upstream selections that removed them.
+ * An option missing from the whole product line has no upstream to blame; when no single
+ * upstream selection removes it, the combination of all of them is reported.
+ */
+export function explainUnavailableOptions(
+  unavailable: Record<string, number[]>,
+  availability: AvailabilityResult,
+  currentConfig: ProductConfig
+): DisabledOptionReasons {
+  const reasons: DisabledOptionReasons = {};
+
+  for (const [collection, ids] of Object.entries(unavailable)) {
+    const facets = availability.upstreamFacets[collection];
+    if (!facets) continue;
+
+    const line = new Set(facets.line);
+    reasons[collection] = {};
+
+    for (const id of ids) {
+      const selected = Object.keys(facets.byField);
+      let blamed = selected.filter((field) => !facets.byField[field].includes(id));
+      if (!line.has(id)) blamed = [];
+      else if (blamed.length === 0) blamed = selected;
+
+      reasons[collection][id] = [{
+        source: 'availability',
+        upstream: blamed.map((field) => ({
+          field,
+          value: availability.selections[field] ?? String(currentConfig[field as keyof ProductConfig]),
+        })),
+      }];
+    }
+  }
+
+  return reasons;
+}
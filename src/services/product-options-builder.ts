@@ -0,0 +1,139 @@
+/**
+ * Product Options Builder
+ *
+ * Pure helpers that turn product_lines_default_options / products_options_overrides rows and
+ * option table rows into ProductOptions. Shared by the Supabase loader (product-options) and
+ * the snapshot data provider, so both produce identical option lists.
+ */
+
+import type { ProductOption, ProductOptions } from '@/store/types';
+
+export const COLLECTION_TO_TABLE: Record<string, string> = {
+  frame_colors: 'frame_colors',
+  frame_thicknesses: 'frame_thicknesses',
+  mirror_styles: 'mirror_styles',
+  mounting_options: 'mounting_options',
+  light_directions: 'light_directions',
+  light_outputs: 'light_outputs',
+  color_temperatures: 'color_temperatures',
+  drivers: 'drivers',
+  sizes: 'sizes',
+  accessories: 'accessories',
+  hanging_techniques: 'hanging_techniques',
+};
+
+export const COLLECTION_TO_FIELD: Record<string, keyof ProductOptions> = {
+  frame_colors: 'frameColors',
+  frame_thicknesses: 'frameThickness',
+  mirror_styles: 'mirrorStyles',
+  mounting_options: 'mountingOptions',
+  hanging_techniques: 'hangingTechniques',
+  light_directions: 'lightingOptions',
+  light_outputs: 'lightOutputs',
+  color_temperatures: 'colorTemperatures',
+  drivers: 'drivers',
+  sizes: 'sizes',
+  accessories: 'accessoryOptions',
+  mirror_controls: 'mirrorControls',
+};
+
+export interface OptionAssignmentRow {
+  collection: string | null;
+  item: string | number | null;
+}
+
+export function createEmptyProductOptions(): ProductOptions {
+  return {
+    mirrorControls: [],
+    frameColors: [],
+    frameThickness: [],
+    mirrorStyles: [],
+    mountingOptions: [],
+    hangingTechniques: [],
+    lightingOptions: [],
+    colorTemperatures: [],
+    lightOutputs: [],
+    drivers: [],
+    accessoryOptions: [],
+    sizes: [],
+  };
+}
+
+export function normalizeCollectionName(collection: string): string {
+  const normalized = collection.toLowerCase();
+  if (normalized === 'hanging_techiques') {
+    return 'hanging_techniques';
+  }
+  return normalized;
+}
+
+export function normalizeOption(row: Record<string, any>): ProductOption {
+  const option: ProductOption = {
+    id: Number(row.id),
+    name: row.name ?? row.code ?? String(row.id),
+    sku_code: row.sku_code ?? row.code ?? String(row.id),
+  };
+
+  if (row.description !== undefined && row.description !== null) {
+    option.description = String(row.description);
+  }
+
+  if (row.hex_code) {
+    option.hex_code = row.hex_code;
+  }
+
+  if (row.width !== undefined && row.width !== null) {
+    const width = Number(row.width);
+    if (!Number.isNaN(width)) option.width = width;
+  }
+
+  if (row.height !== undefined && row.height !== null) {
+    const height = Number(row.height);
+    if (!Number.isNaN(height)) option.height = height;
+  }
+
+  return option;
+}
+
+/**
+ * Group collection/item rows into option ids per collection
+ */
+export function groupOptionIds(rows: OptionAssignmentRow[]): Map<string, number[]> {
+  const grouped = new Map<string, number[]>();
+
+  rows.forEach((record) => {
+    if (!record.collection || record.item === null || record.item === undefined) {
+      return;
+    }
+
+    const collection = normalizeCollectionName(String(record.collection));
+    const id = Number(record.item);
+
+    if (Number.isNaN(id)) {
+      return;
+    }
+
+    if (!grouped.has(collection)) {
+      grouped.set(collection, []);
+    }
+
+    grouped.get(collection)!.push(id);
+  });
+
+  return grouped;
+}
+
+/**
+ * Product line defaults with product overrides applied: a collection with overrides
+ * replaces the defaults for that collection
+ */
+export function resolveOptionIds(
+  defaultRows: OptionAssignmentRow[],
+  overrideRows: OptionAssignmentRow[] = [],
+): Map<string, number[]> {
+  const grouped = groupOptionIds(defaultRows);
+  groupOptionIds(overrideRows).forEach((overrideIds, collection) => {
+    grouped.set(collection, overrideIds);
+  });
+  return grouped;
+}
@@ -1,89 +1,23 @@
 import { supabase } from './supabase';
+import { getDataProvider } from './data-provider';
+import { fetchCached, queryKeys } from './data-layer';
+import {
+  COLLECTION_TO_FIELD,
+  COLLECTION_TO_TABLE,
+  createEmptyProductOptions,
+  groupOptionIds,
+  normalizeOption,
+} from './product-options-builder';
 import type { ProductLine, ProductOption, ProductOptions } from '@/store/types';
 
-const COLLECTION_TO_TABLE: Record<string, string> = {
-  frame_colors: 'frame_colors',
-  frame_thicknesses: 'frame_thicknesses',
-  mirror_styles: 'mirror_styles',
-  mounting_options: 'mounting_options',
-  light_directions: 'light_directions',
-  light_outputs: 'light_outputs',
-  color_temperatures: 'color_temperatures',
-  drivers: 'drivers',
-  sizes: 'sizes',
-  accessories: 'accessories',
-  hanging_techniques: 'hanging_techniques',
-};
-
-const COLLECTION_TO_FIELD: Record<string, keyof ProductOptions> = {
-  frame_colors: 'frameColors',
-  frame_thicknesses: 'frameThickness',
-  mirror_styles: 'mirrorStyles',
-  mounting_options: 'mountingOptions',
-  hanging_techniques: 'hangingTechniques',
-  light_directions: 'lightingOptions',
-  light_outputs: 'lightOutputs',
-  color_temperatures: 'colorTemperatures',
-  drivers: 'drivers',
-  sizes: 'sizes',
-  accessories: 'accessoryOptions',
-  mirror_controls: 'mirrorControls',
-};
-
-function createEmptyProductOptions(): ProductOptions {
-  return {
-    mirrorControls: [],
-    frameColors: [],
-    frameThickness: [],
-    mirrorStyles: [],
-    mountingOptions: [],
-    hangingTechniques: [],
-    lightingOptions: [],
-    colorTemperatures: [],
-    lightOutputs: [],
-    drivers: [],
-    accessoryOptions: [],
-    sizes: [],
-  };
-}
-
-function normalizeCollectionName(collection: string): string {
-  const normalized = collection.toLowerCase();
-  if (normalized === 'hanging_techiques') {
-    return 'hanging_techniques';
-  }
-  return normalized;
-}
-
-function normalizeOption(row: Record<string, any>): ProductOption {
-  const option: ProductOption = {
-    id: Number(row.id),
-    name: row.name ?? row.code ?? String(row.id),
-    sku_code: row.sku_code ?? row.code ?? String(row.id),
-  };
-
-  if (row.description !== undefined && row.description !== null) {
-    option.description = String(row.description);
-  }
-
-  if (row.hex_code) {
-    option.hex_code = row.hex_code;
-  }
-
-  if (row.width !== undefined && row.width !== null) {
-    const width = Number(row.width);
-    if (!Number.isNaN(width)) option.width = width;
-  }
-
-  if (row.height !== undefined && row.height !== null) {
-    const height = Number(row.height);
-    if (!Number.isNaN(height)) option.height = height;
-  }
+export async function fetchProductLines(): Promise<ProductLine[]> {
+  const provider = getDataProvider();
+  if (provider) return provider.fetchProductLines();
 
-  return option;
+  return fetchCached({ queryKey: queryKeys.productLines(), queryFn: loadProductLines });
 }
 
-export async function fetchProductLines(): Promise<ProductLine[]> {
+async function loadProductLines(): Promise<ProductLine[]> {
   const { data, error } = await supabase
     .from('product_lines')
     .select('id, name, sku_code, active')
@@ -105,6 +39,19 @@ export async function fetchProductLines(): Promise<ProductLine[]> {
 export async function fetchProductOptions(
   productLineId: number,
   productId?: number | null
+): Promise<ProductOptions> {
+  const provider = getDataProvider();
+  if (provider) return provider.fetchProductOptions(productLineId, productId);
+
+  return fetchCached({
+    queryKey: queryKeys.productOptions(productLineId, productId),
+    queryFn: () => loadProductOptions(productLineId, productId),
+  });
+}
+
+async function loadProductOptions(
+  productLineId: number,
+  productId?: number | null
 ): Promise<ProductOptions> {
   const options = createEmptyProductOptions();
 
@@ -118,25 +65,7 @@ export async function fetchProductOptions(
       .eq('products_id', productId);
 
     if (!overrideError && overrideData && overrideData.length > 0) {
-      productOverrides = new Map<string, number[]>();
-      overrideData.forEach((record) => {
-        if (!record.collection || record.item === null || record.item === undefined) {
-          return;
-        }
-
-        const collection = normalizeCollectionName(String(record.collection));
-        const id = Number(record.item);
-
-        if (Number.isNaN(id)) {
-          return;
-        }
-
-        if (!productOverrides!.has(collection)) {
-          productOverrides!.set(collection, []);
-        }
-
-        productOverrides!.get(collection)!.push(id);
-      });
+      productOverrides = groupOptionIds(overrideData);
       console.log(`✅ Product overrides found for ${productOverrides.size} collections`);
     } else {
       console.log('ℹ️  No product overrides found');
@@ -153,26 +82,7 @@ export async function fetchProductOptions(
     throw new Error(`Failed to load product line defaults: ${error.message}`);
   }
 
-  const grouped = new Map<string, number[]>();
-
-  (data ?? []).forEach((record) => {
-    if (!record.collection || record.item === null || record.item === undefined) {
-      return;
-    }
-
-    const collection = normalizeCollectionName(String(record.collection));
-    const id = Number(record.item);
-
-    if (Number.isNaN(id)) {
-      return;
-    }
-
-    if (!grouped.has(collection)) {
-      grouped.set(collection, []);
-    }
-
-    grouped.get(collection)!.push(id);
-  });
+  const grouped = groupOptionIds(data ?? []);
 
   // Apply product overrides: replace defaults for collections with overrides
   if (productOverrides) {
@@ -0,0 +1,279 @@
+/**
+ * Quote Document
+ *
+ * Builds the printable quote and single-configuration spec sheet from the quote cart.
+ * Everything here is plain data; src/components/QuoteDocument.tsx lays it out for
+ * the browser's print dialog (which also saves it as a PDF).
+ *
+ * Lines are described from their stored configuration and product line options, so
+ * a reopened or restored cart prints the same text it shows on screen.
+ */
+
+import { selectProductImage, constructProductAssetUrl } from './image-selector';
+import { quoteValidUntil } from './quote-lifecycle';
+import { sameDimension } from './units';
+import type {
+  CustomerInfo,
+  DecoProduct,
+  MountingOption,
+  ProductConfig,
+  ProductLine,
+  ProductOption,
+  ProductOptions,
+  QuoteItem,
+} from '../store/types';
+
+export interface QuoteDocumentOption {
+  label: string;
+  name: string;
+  skuCode: string;
+}
+
+export interface QuoteDocumentLine {
+  id: string;
+  productName: string;
+  sku: string;
+  description: string;
+  options: QuoteDocumentOption[];
+  imageUrl: string | null;
+  config: ProductConfig;
+  quantity: number;
+  unitPrice: number | null;
+  lineTotal: number | null;
+  customSize: boolean;
+  note: string;
+  room: string;
+}
+
+export interface QuoteDocument {
+  // Null until the quote has been submitted and numbered
+  quoteNumber: string | null;
+  issuedAt: string;
+  validUntil: string | null;
+  customer: CustomerInfo;
+  lines: QuoteDocumentLine[];
+  total: number;
+  // Lines without a price snapshot are left out of the total
+  hasUnpricedLines: boolean;
+  terms: string[];
+}
+
+export interface SpecSheet {
+  productName: string;
+  productLineName: string;
+  sku: string;
+  description: string;
+  options: QuoteDocumentOption[];
+  imageUrl: string | null;
+  config: ProductConfig;
+  specSheetUrl: string | null;
+  revitUrl: string | null;
+  issuedAt: string;
+}
+
+// Writes a width × height given in inches, e.g. in the customer's unit and locale
+export type SizeFormatter = (width: string, height: string) => string;
+
+// Per-line lookups the document builder needs; see loadQuoteDocumentData
+export interface QuoteDocumentData {
+  productOptionsByLine: Record<number, ProductOptions | null>;
+  productsByItem: Record<string, DecoProduct | null>;
+}
+
+export const QUOTE_DOCUMENT_TERMS = [
+  'Prices are in USD and exclude applicable taxes, freight and installation.',
+  'Lead times are confirmed at order acknowledgement.',
+  'Orders are subject to approval of final drawings and dimensions.',
+];
+
+const CUSTOM_SIZE_TERM = 'Custom sizes are made to order and are non-returnable.';
+
+// Order and labels follow the Current Configuration summary
+const OPTION_FIELDS: Array<{ label: string; field: keyof ProductConfig; options: keyof ProductOptions }> = [
+  { label: 'Mirror Style', field: 'mirrorStyle', options: 'mirrorStyles' },
+  { label: 'Frame Color', field: 'frameColor', options: 'frameColors' },
+  { label: 'Frame', field: 'frameThickness', options: 'frameThickness' },
+  { label: 'Mounting', field: 'mounting', options: 'mountingOptions' },
+  { label: 'Hanging Technique', field: 'hangingTechnique', options: 'hangingTechniques' },
+  { label: 'Lighting', field: 'lighting', options: 'lightingOptions' },
+  { label: 'Color Temperature', field: 'colorTemperature', options: 'colorTemperatures' },
+  { label: 'Light Output', field: 'lightOutput', options: 'lightOutputs' },
+  { label: 'Driver', field: 'driver', options: 'drivers' },
+  { label: 'Mirror Controls', field: 'mirrorControls', options: 'mirrorControls' },
+  { label: 'Accessories', field: 'accessories', options: 'accessoryOptions' },
+];
+
+const findOption = (options: ProductOption[] | undefined, id: string | number) =>
+  options?.find((option) => option.id.toString() === String(id));
+
+/**
+ * One-line summary of a configuration, as shown in the quote cart
+ */
+export function summarizeConfiguration(
+  config: ProductConfig,
+  productOptions: ProductOptions | null,
+  formatSize?: SizeFormatter,
+): string {
+  if (!productOptions) return '';
+
+  const frameThickness = findOption(productOptions.frameThickness, config.frameThickness)?.name;
+  const mounting = findOption(productOptions.mountingOptions, config.mounting)?.name;
+  const size = formatSize ? formatSize(config.width, config.height) : `${config.width}"×${config.height}"`;
+
+  return `${config.productLineName} ${frameThickness || ''} ${mounting || ''} ${size}`;
+}
+
+/**
+ * The selected options of a configuration with their names and SKU codes, starting
+ * with its dimensions
+ */
+export function describeConfiguration(
+  config: ProductConfig,
+  productOptions: ProductOptions | null,
+  formatSize: SizeFormatter = (width, height) => `${width}" × ${height}"`,
+): QuoteDocumentOption[] {
+  const size = productOptions?.sizes.find(
+    (option) => sameDimension(option.width, config.width) && sameDimension(option.height, config.height),
+  );
+  const described: QuoteDocumentOption[] = [
+    { label: 'Dimensions', name: formatSize(config.width, config.height), skuCode: size?.sku_code ?? '' },
+  ];
+  if (!productOptions) return described;
+
+  for (const { label, field, options } of OPTION_FIELDS) {
+    const value = config[field];
+    if (value === '' || value === null || value === undefined) continue;
+
+    const option = findOption(productOptions[options], value as string);
+    if (option) {
+      described.push({ label, name: option.name, skuCode: option.sku_code ?? '' });
+    }
+  }
+  return described;
+}
+
+function productImageFor(product: DecoProduct | null, config: ProductConfig, productOptions: ProductOptions | null) {
+  const mountingOption = findOption(productOptions?.mountingOptions, config.mounting) as MountingOption | undefined;
+  return selectProductImage(product, mountingOption).primaryImage;
+}
+
+// Product names in the catalog are SKU codes; documents name the product by its line and style
+function productNameFor(config: ProductConfig, productLine: Pick<ProductLine, 'name'>, productOptions: ProductOptions | null) {
+  const mirrorStyle = findOption(productOptions?.mirrorStyles, config.mirrorStyle)?.name;
+  return mirrorStyle ? `${productLine.name} ${mirrorStyle}` : productLine.name;
+}
+
+/**
+ * Assemble the printable quote for the current cart
+ */
+export function buildQuoteDocument(
+  quoteItems: QuoteItem[],
+  customerInfo: CustomerInfo,
+  data: QuoteDocumentData,
+  options: { quoteNumber?: string | null; issuedAt?: Date; terms?: string[]; formatSize?: SizeFormatter } = {},
+): QuoteDocument {
+  const lines = quoteItems.map((item): QuoteDocumentLine => {
+    const productOptions = data.productOptionsByLine[item.productLine.id] ?? null;
+    const product = data.productsByItem[item.id] ?? null;
+
+    return {
+      id: item.id,
+      productName: productNameFor(item.config, item.productLine, productOptions),
+      sku: item.sku,
+      description: summarizeConfiguration(item.config, productOptions, options.formatSize).replace(/\s+/g, ' ').trim(),
+      options: describeConfiguration(item.config, productOptions, options.formatSize),
+      imageUrl: productImageFor(product, item.config, productOptions),
+      config: item.config,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: item.unitPrice === null ? null : item.unitPrice * item.quantity,
+      customSize: item.customSize,
+      note: item.note,
+      room: item.room,
+    };
+  });
+
+  const terms = [...(options.terms ?? QUOTE_DOCUMENT_TERMS)];
+  if (lines.some((line) => line.customSize)) terms.push(CUSTOM_SIZE_TERM);
+
+  return {
+    quoteNumber: options.quoteNumber ?? null,
+    issuedAt: (options.issuedAt ?? new Date()).toISOString(),
+    validUntil: quoteValidUntil(quoteItems),
+    customer: { ...customerInfo },
+    lines,
+    total: lines.reduce((total, line) => total + (line.lineTotal ?? 0), 0),
+    hasUnpricedLines: lines.some((line) => line.lineTotal === null),
+    terms,
+  };
+}
+
+/**
+ * Assemble the one-page spec sheet for a single configuration, linking the
+ * product's spec sheet PDF and Revit family when it has them
+ */
+export function buildSpecSheet(input: {
+  config: ProductConfig;
+  productLine: Pick<ProductLine, 'name'>;
+  product: DecoProduct | null;
+  sku: string;
+  productOptions: ProductOptions | null;
+  issuedAt?: Date;
+  formatSize?: SizeFormatter;
+}): SpecSheet {
+  const { config, productLine, product, sku, productOptions, formatSize } = input;
+
+  return {
+    productName: productNameFor(config, productLine, productOptions),
+    productLineName: productLine.name,
+    sku,
+    description: summarizeConfiguration(config, productOptions, formatSize).replace(/\s+/g, ' ').trim(),
+    options: describeConfiguration(config, productOptions, formatSize),
+    imageUrl: productImageFor(product, config, productOptions),
+    config,
+    specSheetUrl: constructProductAssetUrl(product?.spec_sheet),
+    revitUrl: constructProductAssetUrl(product?.revit_file),
+    issuedAt: (input.issuedAt ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Load the product line options and matching product for every quote line. Lines
+ * whose lookups fail still print, without an image or option names.
+ */
+export async function loadQuoteDocumentData(quoteItems: QuoteItem[]): Promise<QuoteDocumentData> {
+  const [{ fetchProductOptions }, { findBestMatchingProduct }] = await Promise.all([
+    import('./product-options'),
+    import('./product-matcher'),
+  ]);
+
+  const productOptionsByLine: QuoteDocumentData['productOptionsByLine'] = {};
+  for (const productLineId of new Set(quoteItems.map((item) => item.productLine.id))) {
+    try {
+      productOptionsByLine[productLineId] = await fetchProductOptions(productLineId);
+    } catch (error) {
+      console.error(`❌ Failed to load options for product line ${productLineId}:`, error);
+      productOptionsByLine[productLineId] = null;
+    }
+  }
+
+  const productsByItem: QuoteDocumentData['productsByItem'] = {};
+  for (const item of quoteItems) {
+    const productOptions = productOptionsByLine[item.productLine.id];
+    const mirrorStyle = findOption(productOptions?.mirrorStyles, item.config.mirrorStyle);
+    const lightDirection = findOption(productOptions?.lightingOptions, item.config.lighting);
+    const frameThickness = findOption(productOptions?.frameThickness, item.config.frameThickness);
+
+    productsByItem[item.id] =
+      mirrorStyle && lightDirection
+        ? await findBestMatchingProduct({
+            productLineId: item.productLine.id,
+            mirrorStyleId: mirrorStyle.id,
+            lightDirectionId: lightDirection.id,
+            frameThicknessId: frameThickness?.id,
+          })
+        : null;
+  }
+
+  return { productOptionsByLine, productsByItem };
+}
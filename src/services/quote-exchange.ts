@@ -0,0 +1,573 @@
+/**
+ * Quote Exchange
+ *
+ * Exports the quote cart to files and loads them back. Formats are pluggable: each
+ * one serializes a QuoteExchangeDocument and parses it back, so anything exported
+ * can be re-imported into the quote cart. Built in:
+ *
+ * - csv: one row per quote line with each SKU segment, as the SKU grammar reads it, in
+ *   its own column, plus the option ids needed to rebuild the configuration
+ * - json: a versioned schema ("mtx-quote") that is kept stable across app releases
+ * - erp: fixed-width records (HDR / LIN / CFG / NTE / TRL) for the ERP order import
+ *
+ * Imported lines are sanitized like persisted ones (see store/persistence.ts).
+ */
+
+import { z } from 'zod';
+import { sanitizePersistedState } from '../store/persistence';
+import { loadSkuGrammar } from './sku-generator';
+import { parseSku, type SkuGrammar, type SkuOptionLists } from './sku-grammar';
+import { loadQuoteDocumentData } from './quote-document';
+import { calculateQuoteTotal } from './pricing-engine';
+import { formatCsvRow, splitCsvLine, splitCsvRecords } from '../utils/csv';
+import type { CustomerInfo, ProductConfig, QuoteItem } from '../store/types';
+
+export interface QuoteExchangeDocument {
+  exportedAt: string;
+  customerInfo: CustomerInfo | null;
+  items: QuoteItem[];
+  // SKU segments by line id (see loadQuoteSkuSegments); lines without an entry export none
+  skuSegments?: Record<string, string[]>;
+}
+
+export interface QuoteExchangeFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (document: QuoteExchangeDocument) => string;
+  // Throws QuoteImportError when the text is not a valid export in this format
+  parse: (text: string) => QuoteExchangeDocument;
+}
+
+export class QuoteImportError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line !== undefined ? `Line ${line}: ${message}` : message);
+    this.name = 'QuoteImportError';
+  }
+}
+
+// Selection fields carried by every format, in a fixed order
+const CONFIG_FIELDS = [
+  'mirrorStyle',
+  'frameColor',
+  'frameThickness',
+  'mounting',
+  'hangingTechnique',
+  'lighting',
+  'colorTemperature',
+  'lightOutput',
+  'driver',
+  'mirrorControls',
+  'accessories',
+  'width',
+  'height',
+] as const satisfies ReadonlyArray<keyof ProductConfig>;
+
+type ConfigField = (typeof CONFIG_FIELDS)[number];
+
+const snakeCase = (field: string) => field.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+
+function buildItem(input: {
+  sku: string;
+  quantity: number;
+  unitPrice: number | null;
+  priceValidTo: string | null;
+  customSize: boolean;
+  note: string;
+  room: string;
+  productLine: { id: number; name: string; skuCode?: string };
+  selections: Partial<Record<ConfigField, string>>;
+}): QuoteItem {
+  const config = {
+    id: '',
+    productLineId: input.productLine.id,
+    productLineName: input.productLine.name,
+    quantity: input.quantity,
+  } as ProductConfig;
+  for (const field of CONFIG_FIELDS) {
+    config[field] = input.selections[field] ?? '';
+  }
+
+  return {
+    id: '',
+    sku: input.sku,
+    config,
+    productLine: { id: input.productLine.id, name: input.productLine.name, sku_code: input.productLine.skuCode ?? '', active: true },
+    quantity: input.quantity,
+    unitPrice: input.unitPrice,
+    priceValidTo: input.priceValidTo,
+    customSize: input.customSize,
+    note: input.note,
+    room: input.room,
+    addedAt: '',
+    updatedAt: '',
+  };
+}
+
+const parseNumber = (value: string | undefined, line: number, column: string): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new QuoteImportError(`${column} "${value}" is not a number`, line);
+  return parsed;
+};
+
+// --- CSV ---
+
+const CSV_LEADING_COLUMNS = ['line', 'sku'];
+const CSV_TRAILING_COLUMNS = [
+  'quantity',
+  'unit_price',
+  'line_total',
+  'price_valid_to',
+  'custom_size',
+  'product_line_id',
+  'product_line_name',
+  'room',
+  'note',
+  ...CONFIG_FIELDS.map(snakeCase),
+];
+
+export const csvQuoteFormat: QuoteExchangeFormat = {
+  id: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv',
+
+  serialize: ({ items, skuSegments = {} }) => {
+    const segmentsOf = (item: QuoteItem) => skuSegments[item.id] ?? [];
+    const segmentCount = Math.max(1, ...items.map((item) => segmentsOf(item).length));
+    const segmentColumns = Array.from({ length: segmentCount }, (_, index) => `sku_segment_${index + 1}`);
+
+    const rows = items.map((item, index) => {
+      const segments = segmentsOf(item);
+      return formatCsvRow([
+        index + 1,
+        item.sku,
+        ...segmentColumns.map((_, segmentIndex) => segments[segmentIndex] ?? ''),
+        item.quantity,
+        item.unitPrice,
+        item.unitPrice === null ? null : item.unitPrice * item.quantity,
+        item.priceValidTo,
+        item.customSize,
+        item.productLine.id,
+        item.productLine.name,
+        item.room,
+        item.note,
+        ...CONFIG_FIELDS.map((field) => item.config[field]),
+      ]);
+    });
+
+    return [formatCsvRow([...CSV_LEADING_COLUMNS, ...segmentColumns, ...CSV_TRAILING_COLUMNS]), ...rows].join('\r\n');
+  },
+
+  parse: (text) => {
+    const records = splitCsvRecords(text.replace(/^\uFEFF/, ''));
+    const header = splitCsvLine(records[0] ?? '').map((cell) => cell.toLowerCase());
+    const missing = ['sku', 'quantity', 'product_line_id', 'product_line_name'].filter(
+      (column) => !header.includes(column)
+    );
+    if (missing.length > 0) {
+      throw new QuoteImportError(`CSV is missing required columns: ${missing.join(', ')}`, 1);
+    }
+
+    const items: QuoteItem[] = [];
+    records.slice(1).forEach((record, index) => {
+      if (record.trim() === '') return;
+      const line = index + 2;
+      const cells = splitCsvLine(record);
+      const cell = (column: string) => {
+        const position = header.indexOf(column);
+        return position >= 0 ? cells[position] ?? '' : '';
+      };
+
+      const productLineId = parseNumber(cell('product_line_id'), line, 'product_line_id');
+      if (!cell('sku') || productLineId === null) {
+        throw new QuoteImportError('Each row needs a sku and product_line_id', line);
+      }
+
+      items.push(
+        buildItem({
+          sku: cell('sku'),
+          quantity: parseNumber(cell('quantity'), line, 'quantity') ?? 1,
+          unitPrice: parseNumber(cell('unit_price'), line, 'unit_price'),
+          priceValidTo: cell('price_valid_to') || null,
+          customSize: cell('custom_size').toLowerCase() === 'true',
+          note: cell('note'),
+          room: cell('room'),
+          productLine: { id: productLineId, name: cell('product_line_name') },
+          selections: Object.fromEntries(CONFIG_FIELDS.map((field) => [field, cell(snakeCase(field))])),
+        })
+      );
+    });
+
+    return { exportedAt: new Date().toISOString(), customerInfo: null, items };
+  },
+};
+
+// --- Versioned JSON ---
+
+export const QUOTE_JSON_SCHEMA = 'mtx-quote';
+export const QUOTE_JSON_VERSION = 1;
+
+const quoteJsonItemSchema = z.object({
+  sku: z.string().min(1),
+  quantity: z.number().int().positive(),
+  unitPrice: z.number().nullable(),
+  priceValidTo: z.string().nullable(),
+  customSize: z.boolean(),
+  note: z.string(),
+  room: z.string(),
+  productLine: z.object({ id: z.number(), name: z.string(), skuCode: z.string().optional() }),
+  selections: z.record(z.string()),
+});
+
+const quoteJsonSchema = z.object({
+  schema: z.literal(QUOTE_JSON_SCHEMA),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  customer: z
+    .object({ name: z.string(), email: z.string(), company: z.string(), phone: z.string() })
+    .nullable(),
+  items: z.array(quoteJsonItemSchema),
+  total: z.number(),
+});
+
+export const jsonQuoteFormat: QuoteExchangeFormat = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+
+  serialize: ({ exportedAt, customerInfo, items }) =>
+    JSON.stringify(
+      {
+        schema: QUOTE_JSON_SCHEMA,
+        version: QUOTE_JSON_VERSION,
+        exportedAt,
+        customer: customerInfo,
+        items: items.map((item) => ({
+          sku: item.sku,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          priceValidTo: item.priceValidTo,
+          customSize: item.customSize,
+          note: item.note,
+          room: item.room,
+          productLine: { id: item.productLine.id, name: item.productLine.name, skuCode: item.productLine.sku_code },
+          selections: Object.fromEntries(CONFIG_FIELDS.map((field) => [field, item.config[field]])),
+        })),
+        total: calculateQuoteTotal(items),
+      },
+      null,
+      2
+    ),
+
+  parse: (text) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new QuoteImportError('File is not valid JSON');
+    }
+
+    const version = (raw as { version?: unknown } | null)?.version;
+    if (typeof version === 'number' && version > QUOTE_JSON_VERSION) {
+      throw new QuoteImportError(`Quote was exported by a newer version (schema v${version})`);
+    }
+
+    const result = quoteJsonSchema.safeParse(raw);
+    if (!result.success) {
+      throw new QuoteImportError(
+        `Invalid quote file: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`
+      );
+    }
+
+    return {
+      exportedAt: result.data.exportedAt,
+      customerInfo: result.data.customer,
+      items: result.data.items.map((item) => buildItem(item)),
+    };
+  },
+};
+
+// --- Fixed-width ERP records ---
+
+type FieldSpec = readonly [name: string, width: number, align?: 'right'];
+
+// Every record starts with its 3-character type; widths are in characters
+const ERP_RECORDS = {
+  HDR: [['version', 2, 'right'], ['date', 8], ['name', 40], ['company', 40], ['email', 60], ['phone', 20]],
+  LIN: [['line', 4, 'right'], ['sku', 40], ['quantity', 5, 'right'], ['unitPriceCents', 11, 'right'], ['priceValidTo', 8], ['custom', 1], ['productLineId', 6, 'right'], ['productLineName', 30], ['room', 30]],
+  CFG: [['line', 4, 'right'], ['field', 20], ['value', 20]],
+  NTE: [['line', 4, 'right'], ['note', 120]],
+  TRL: [['lines', 5, 'right'], ['totalCents', 13, 'right']],
+} as const satisfies Record<string, readonly FieldSpec[]>;
+
+type ErpRecordType = keyof typeof ERP_RECORDS;
+
+export const ERP_FORMAT_VERSION = 1;
+
+// Free-text fields are cut to fit; identifiers that do not fit are an export error
+const TRUNCATED_ERP_FIELDS = new Set(['name', 'company', 'email', 'phone', 'productLineName', 'room', 'note']);
+
+function erpRecord(type: ErpRecordType, values: Record<string, string | number | null>): string {
+  return (
+    type +
+    ERP_RECORDS[type]
+      .map(([name, width, align]: FieldSpec) => {
+        const value = String(values[name] ?? '').replace(/[\r\n]+/g, ' ');
+        if (value.length > width && !TRUNCATED_ERP_FIELDS.has(name)) {
+          throw new Error(`ERP export: ${name} "${value}" is longer than ${width} characters`);
+        }
+        const fitted = value.slice(0, width);
+        // Empty numbers stay blank so "no price" does not read back as zero
+        return align === 'right' && fitted ? fitted.padStart(width, '0') : fitted.padEnd(width, ' ');
+      })
+      .join('')
+  );
+}
+
+function readErpRecord(record: string, lineNumber: number): { type: ErpRecordType; values: Record<string, string> } {
+  const type = record.slice(0, 3) as ErpRecordType;
+  const fields: readonly FieldSpec[] | undefined = ERP_RECORDS[type];
+  if (!fields) throw new QuoteImportError(`Unknown record type "${record.slice(0, 3)}"`, lineNumber);
+
+  const expectedLength = 3 + fields.reduce((total, [, width]) => total + width, 0);
+  // Trailing spaces are often stripped in transit; pad back rather than reject
+  const padded = record.padEnd(expectedLength, ' ');
+  if (padded.length !== expectedLength) {
+    throw new QuoteImportError(`${type} record is ${record.length} characters, expected ${expectedLength}`, lineNumber);
+  }
+
+  const values: Record<string, string> = {};
+  let offset = 3;
+  for (const [name, width] of fields) {
+    values[name] = padded.slice(offset, offset + width).trim();
+    offset += width;
+  }
+  return { type, values };
+}
+
+const toErpDate = (value: string | null) => (value ? value.slice(0, 10).replace(/-/g, '') : '');
+const fromErpDate = (value: string) =>
+  /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T00:00:00.000Z` : null;
+const toCents = (value: number | null) => (value === null ? '' : Math.round(value * 100));
+
+export const erpQuoteFormat: QuoteExchangeFormat = {
+  id: 'erp',
+  label: 'ERP order (fixed width)',
+  extension: 'txt',
+  mimeType: 'text/plain',
+
+  serialize: ({ exportedAt, customerInfo, items }) => {
+    const records = [
+      erpRecord('HDR', {
+        version: ERP_FORMAT_VERSION,
+        date: toErpDate(exportedAt),
+        name: customerInfo?.name ?? '',
+        company: customerInfo?.company ?? '',
+        email: customerInfo?.email ?? '',
+        phone: customerInfo?.phone ?? '',
+      }),
+    ];
+
+    items.forEach((item, index) => {
+      const line = index + 1;
+      records.push(
+        erpRecord('LIN', {
+          line,
+          sku: item.sku,
+          quantity: item.quantity,
+          unitPriceCents: toCents(item.unitPrice),
+          priceValidTo: toErpDate(item.priceValidTo),
+          custom: item.customSize ? 'Y' : 'N',
+          productLineId: item.productLine.id,
+          productLineName: item.productLine.name,
+          room: item.room,
+        })
+      );
+      for (const field of CONFIG_FIELDS) {
+        if (item.config[field]) records.push(erpRecord('CFG', { line, field, value: item.config[field] }));
+      }
+      if (item.note) records.push(erpRecord('NTE', { line, note: item.note }));
+    });
+
+    records.push(erpRecord('TRL', { lines: items.length, totalCents: toCents(calculateQuoteTotal(items)) }));
+    return records.join('\r\n');
+  },
+
+  parse: (text) => {
+    const records = text.split(/\r\n|\n|\r/).filter((record) => record.trim() !== '');
+    if (records.length === 0 || !records[0].startsWith('HDR')) {
+      throw new QuoteImportError('ERP file must start with an HDR record', 1);
+    }
+
+    const header = readErpRecord(records[0], 1).values;
+    if (Number(header.version) > ERP_FORMAT_VERSION) {
+      throw new QuoteImportError(`ERP file version ${Number(header.version)} is not supported`, 1);
+    }
+
+    const lines = new Map<number, { values: Record<string, string>; selections: Partial<Record<ConfigField, string>>; note: string }>();
+    let trailer: Record<string, string> | null = null;
+
+    records.slice(1).forEach((record, index) => {
+      const lineNumber = index + 2;
+      if (trailer) throw new QuoteImportError('Records found after the TRL record', lineNumber);
+
+      const { type, values } = readErpRecord(record, lineNumber);
+      const quoteLine = Number(values.line);
+      switch (type) {
+        case 'LIN':
+          lines.set(quoteLine, { values, selections: {}, note: '' });
+          break;
+        case 'CFG':
+        case 'NTE': {
+          const target = lines.get(quoteLine);
+          if (!target) throw new QuoteImportError(`${type} record refers to unknown line ${quoteLine}`, lineNumber);
+          if (type === 'NTE') {
+            target.note = values.note;
+          } else if ((CONFIG_FIELDS as readonly string[]).includes(values.field)) {
+            target.selections[values.field as ConfigField] = values.value;
+          }
+          break;
+        }
+        case 'TRL':
+          trailer = values;
+          break;
+        default:
+          throw new QuoteImportError(`Unexpected ${type} record`, lineNumber);
+      }
+    });
+
+    if (!trailer) throw new QuoteImportError('ERP file has no TRL record');
+    if (Number((trailer as Record<string, string>).lines) !== lines.size) {
+      throw new QuoteImportError(
+        `TRL record counts ${Number((trailer as Record<string, string>).lines)} lines but the file has ${lines.size}`
+      );
+    }
+
+    return {
+      exportedAt: fromErpDate(header.date) ?? new Date().toISOString(),
+      customerInfo: { name: header.name, company: header.company, email: header.email, phone: header.phone },
+      items: [...lines.values()].map(({ values, selections, note }) =>
+        buildItem({
+          sku: values.sku,
+          quantity: Number(values.quantity) || 1,
+          unitPrice: values.unitPriceCents ? Number(values.unitPriceCents) / 100 : null,
+          priceValidTo: fromErpDate(values.priceValidTo),
+          customSize: values.custom === 'Y',
+          note,
+          room: values.room,
+          productLine: { id: Number(values.productLineId), name: values.productLineName },
+          selections,
+        })
+      ),
+    };
+  },
+};
+
+// --- Registry ---
+
+const formats = new Map<string, QuoteExchangeFormat>(
+  [csvQuoteFormat, jsonQuoteFormat, erpQuoteFormat].map((format) => [format.id, format])
+);
+
+export function registerQuoteExchangeFormat(format: QuoteExchangeFormat): void {
+  formats.set(format.id, format);
+}
+
+export function getQuoteExchangeFormats(): QuoteExchangeFormat[] {
+  return [...formats.values()];
+}
+
+export function getQuoteExchangeFormat(id: string): QuoteExchangeFormat | undefined {
+  return formats.get(id);
+}
+
+/**
+ * Pick the format for an imported file by extension, falling back to its contents
+ */
+export function detectQuoteExchangeFormat(fileName: string, text: string): QuoteExchangeFormat | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const byExtension = getQuoteExchangeFormats().filter((format) => format.extension === extension);
+  if (byExtension.length === 1) return byExtension[0];
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return formats.get('json');
+  if (trimmed.startsWith('HDR')) return formats.get('erp');
+  return byExtension[0] ?? formats.get('csv');
+}
+
+/**
+ * Split a SKU into the product base and one code per grammar segment ('' where the
+ * segment is absent), so every line's columns line up. Null when the grammar cannot
+ * read the SKU unambiguously.
+ */
+export function readSkuSegments(
+  grammar: SkuGrammar,
+  sku: string,
+  baseSku: string,
+  productOptions: SkuOptionLists
+): string[] | null {
+  const parsed = parseSku(grammar, sku, baseSku, productOptions);
+  if (!parsed || parsed.ambiguous) return null;
+
+  const codes = grammar.segments
+    .filter((segment) => !segment.encodedInBase)
+    .map((segment) => parsed.segments.find((parsedSegment) => parsedSegment.table === segment.table)?.code ?? '');
+  return [baseSku, ...codes];
+}
+
+/**
+ * Read every line's SKU with the SKU grammar and the line's product and options
+ */
+export async function loadQuoteSkuSegments(quoteItems: QuoteItem[]): Promise<Record<string, string[]>> {
+  const [grammar, { productOptionsByLine, productsByItem }] = await Promise.all([
+    loadSkuGrammar(),
+    loadQuoteDocumentData(quoteItems),
+  ]);
+
+  const segments: Record<string, string[]> = {};
+  for (const item of quoteItems) {
+    const baseSku = productsByItem[item.id]?.sku_code;
+    const productOptions = productOptionsByLine[item.productLine.id];
+    const read = baseSku && productOptions ? readSkuSegments(grammar, item.sku, baseSku, productOptions) : null;
+    if (read) segments[item.id] = read;
+  }
+  return segments;
+}
+
+export function exportQuote(
+  formatId: string,
+  quoteItems: QuoteItem[],
+  customerInfo: CustomerInfo,
+  now: Date = new Date(),
+  skuSegments?: Record<string, string[]>
+): { content: string; fileName: string; mimeType: string } {
+  const format = formats.get(formatId);
+  if (!format) throw new Error(`Unknown quote export format "${formatId}"`);
+
+  const content = format.serialize({ exportedAt: now.toISOString(), customerInfo, items: quoteItems, skuSegments });
+  return {
+    content,
+    fileName: `quote-${now.toISOString().slice(0, 10)}.${format.extension}`,
+    mimeType: format.mimeType,
+  };
+}
+
+/**
+ * Parse an exported quote into sanitized lines, ready for importQuoteItems
+ */
+export function importQuote(text: string, format: QuoteExchangeFormat): QuoteExchangeDocument {
+  const parsed = format.parse(text);
+  const { quoteItems, customerInfo } = sanitizePersistedState({
+    quoteItems: parsed.items.map((item) => ({ ...item, config: { ...item.config, quantity: item.quantity } })),
+    customerInfo: parsed.customerInfo ?? undefined,
+  });
+  if (quoteItems.length !== parsed.items.length) {
+    throw new QuoteImportError(`${parsed.items.length - quoteItems.length} line(s) in the file are incomplete`);
+  }
+
+  return { exportedAt: parsed.exportedAt, customerInfo: parsed.customerInfo ? customerInfo : null, items: quoteItems };
+}
@@ -0,0 +1,34 @@
+/**
+ * Quote Lifecycle
+ *
+ * The quote state machine lives with the edge function that enforces it; the app uses
+ * the same definitions to label statuses and offer only legal transitions.
+ */
+
+import type { QuoteStatus } from '../supabase/functions/server/quote_lifecycle';
+
+export {
+  QUOTE_STATUSES,
+  QUOTE_TRANSITIONS,
+  EXPIRABLE_QUOTE_STATUSES,
+  SYSTEM_ACTOR,
+  isQuoteStatus,
+  normalizeQuoteStatus,
+  canTransitionQuote,
+  isFinalQuoteStatus,
+  describeIllegalTransition,
+  isQuoteExpired,
+  quoteValidUntil,
+  type QuoteStatus,
+} from '../supabase/functions/server/quote_lifecycle';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  under_review: 'Under review',
+  priced: 'Priced',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
@@ -0,0 +1,211 @@
+/**
+ * Quote Submission
+ *
+ * Builds the payload the edge function's POST /quotes route stores as a quotes row
+ * plus one quote_items row per configured product. The submission key identifies a
+ * single submission: retrying with the same key returns the quote created by the
+ * first attempt rather than a duplicate.
+ *
+ * Also wraps the routes that reload a quote and move it through its lifecycle
+ * (see ./quote-lifecycle).
+ */
+
+import { quoteValidUntil, type QuoteStatus } from './quote-lifecycle';
+import { sameDimension } from './units';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import type { CustomerInfo, ProductConfig, ProductOption, QuoteItem } from '../store/types';
+
+const QUOTES_URL = `https://${projectId}.supabase.co/functions/v1/make-server-8bb96920/quotes`;
+
+export interface QuoteSubmissionItem {
+  sku: string;
+  quantity: number;
+  // The cart's price snapshot; the edge function reprices every line before storing it
+  unitPrice: number | null;
+  isCustom: boolean;
+  note: string;
+  room: string;
+  configuration: ProductConfig;
+}
+
+export interface QuoteSubmission {
+  submissionKey: string;
+  customerInfo: CustomerInfo;
+  productLine?: string;
+  // Earliest pricing valid_to of the items; the quote expires after it
+  validUntil: string | null;
+  // Save without submitting; the quote starts as a draft
+  draft?: boolean;
+  quoteItems: QuoteSubmissionItem[];
+}
+
+export interface SubmittedQuoteItem {
+  id: number;
+  sku: string;
+  quantity: number;
+  unitPrice: number | null;
+  lineTotal: number | null;
+  isCustom: boolean;
+  note: string | null;
+  room: string | null;
+  configuration: ProductConfig | null;
+}
+
+export interface QuoteStatusChange {
+  fromStatus: QuoteStatus | null;
+  toStatus: QuoteStatus;
+  actor: string;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface SubmittedQuote {
+  id: number;
+  quoteNumber: string;
+  status: QuoteStatus;
+  statusChangedAt: string | null;
+  validUntil: string | null;
+  customerInfo: {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+    projectName: string | null;
+    notes: string | null;
+  };
+  totalPrice: number | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  items: SubmittedQuoteItem[];
+  history: QuoteStatusChange[];
+}
+
+export interface QuoteSubmissionResult {
+  quoteId: number;
+  quoteNumber: string;
+  // Secret that reloads this quote through fetchQuote; keep it with the quote number
+  accessToken: string;
+  totalPrice: number | null;
+  quote: SubmittedQuote;
+  // True when the submission key matched an earlier submission
+  duplicate: boolean;
+}
+
+export interface QuoteSubmissionOptions {
+  submissionKey: string;
+  draft?: boolean;
+  productLine?: string;
+}
+
+export function createSubmissionKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function isCustomSize(config: Pick<ProductConfig, 'width' | 'height'>, sizes: ProductOption[] = []): boolean {
+  if (!config.width || !config.height) return false;
+  return !sizes.some(
+    (size) => sameDimension(size.width, config.width) && sameDimension(size.height, config.height)
+  );
+}
+
+/**
+ * Map quote cart items to the submission payload, trimming customer fields
+ */
+export function buildQuoteSubmission(
+  items: QuoteItem[],
+  customerInfo: CustomerInfo,
+  options: QuoteSubmissionOptions
+): QuoteSubmission {
+  return {
+    submissionKey: options.submissionKey,
+    customerInfo: {
+      name: customerInfo.name.trim(),
+      email: customerInfo.email.trim(),
+      company: customerInfo.company.trim(),
+      phone: customerInfo.phone.trim(),
+    },
+    productLine: options.productLine,
+    validUntil: quoteValidUntil(items),
+    ...(options.draft ? { draft: true } : {}),
+    quoteItems: items.map((item) => ({
+      sku: item.sku,
+      quantity: item.quantity || 1,
+      unitPrice: item.unitPrice,
+      isCustom: item.customSize,
+      note: item.note,
+      room: item.room,
+      configuration: item.config,
+    })),
+  };
+}
+
+async function quotesRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${QUOTES_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${publicAnonKey}`,
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const details = Array.isArray(errorData.details) ? `: ${errorData.details.join('; ')}` : '';
+    throw new Error(`${errorData.error || `HTTP ${response.status}: ${response.statusText}`}${details}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Submit a quote; resubmitting the same submission key returns the original quote
+ */
+export async function submitQuote(submission: QuoteSubmission): Promise<QuoteSubmissionResult> {
+  return quotesRequest<QuoteSubmissionResult>('', {
+    method: 'POST',
+    body: JSON.stringify(submission),
+  });
+}
+
+/**
+ * Reload a submitted quote by id or quote number (Q-000123) with the access token
+ * returned when it was submitted
+ */
+export async function fetchQuote(quoteId: number | string, accessToken: string): Promise<SubmittedQuote> {
+  const { quote } = await quotesRequest<{ quote: SubmittedQuote }>(
+    `/${encodeURIComponent(String(quoteId))}?token=${encodeURIComponent(accessToken)}`
+  );
+  return quote;
+}
+
+export interface QuoteTransitionRequest {
+  to: QuoteStatus;
+  note?: string;
+  // New pricing validity, accepted when moving to priced or sent
+  validUntil?: string;
+}
+
+/**
+ * Move a quote to another status; rejected with the server's reason when the
+ * transition is not allowed from the quote's current status. Needs a staff user's
+ * session access token, and the server records that user as the actor.
+ */
+export async function transitionQuote(
+  quoteId: number | string,
+  request: QuoteTransitionRequest,
+  staffAccessToken: string
+): Promise<SubmittedQuote> {
+  const { quote } = await quotesRequest<{ quote: SubmittedQuote }>(
+    `/${encodeURIComponent(String(quoteId))}/transition`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Authorization': `Bearer ${staffAccessToken}` },
+    }
+  );
+  return quote;
+}
@@ -0,0 +1,344 @@
+/**
+ * Rule Analyzer
+ *
+ * Static checks for the `rules` table, run per product line over the option space defined
+ * by `product_lines_default_options`. Only the fields a rule's `if_this` references are
+ * enumerated, so the search stays small; the enumeration is capped per line and the
+ * report says which lines were truncated.
+ *
+ * Reported problems:
+ * - invalid:       if_this / then_that fails schema validation (error)
+ * - contradiction: matching rules produce an allow set that is entirely denied (error)
+ * - zero_options:  matching rules leave a collection with no options offered by the line (error)
+ * - unreachable:   if_this never matches in a line the rule is scoped to with product_line,
+ *                  or, for unscoped rules, in any line (warning)
+ * - shadowed:      a higher-priority rule always matches alongside and sets the same fields (warning)
+ * - truncated:     a line's enumeration hit the cap, so unreachable rules are not checked there (warning)
+ *
+ * Used by scripts/rules-analyze.ts; kept pure so it can be tested against fixtures.
+ */
+
+import { buildRuleConstraints, applyConstraintsToIds } from './rules-engine';
+import { RULE_FIELDS, compileRule, flattenActions, type CompiledRule, type ConditionNode } from './rule-compiler';
+import type { Rule } from './supabase';
+
+export type RuleIssueKind = 'invalid' | 'contradiction' | 'zero_options' | 'unreachable' | 'shadowed' | 'truncated';
+export type RuleIssueSeverity = 'error' | 'warning';
+
+export interface RuleIssue {
+  kind: RuleIssueKind;
+  severity: RuleIssueSeverity;
+  ruleIds: string[];
+  ruleNames: string[];
+  productLineId: number | null;
+  field?: string;
+  message: string;
+  // One configuration (rule context) that triggers the issue
+  example?: Record<string, unknown>;
+}
+
+export interface RuleAnalysisReport {
+  generatedAt: string;
+  summary: {
+    rules: number;
+    productLines: number;
+    contextsEvaluated: number;
+    truncatedProductLines: number[];
+    errors: number;
+    warnings: number;
+  };
+  issues: RuleIssue[];
+}
+
+export interface DefaultOptionRow {
+  product_lines_id: number | null;
+  collection: string | null;
+  item: string | null;
+}
+
+export interface RuleAnalysisInput {
+  rules: Rule[];
+  defaultOptions: DefaultOptionRow[];
+  productLines?: Array<{ id: number; name?: string | null }>;
+}
+
+export interface RuleAnalysisOptions {
+  maxContextsPerLine?: number;
+}
+
+const DEFAULT_MAX_CONTEXTS = 50_000;
+
+const COLLECTION_TO_RULE_FIELD: Record<string, string> = Object.fromEntries(
+  Object.entries(RULE_FIELDS).map(([field, binding]) => [binding.collection, field]),
+);
+
+const priorityOf = (rule: Rule): number => rule.priority ?? Number.POSITIVE_INFINITY;
+
+// Fields a rule assigns with _eq / _in / _neq / _nin at the top level
+const actionFields = (compiled: CompiledRule<Rule>, ops?: string[]): Set<string> =>
+  new Set(
+    flattenActions(compiled.actions)
+      .filter((action) => action.path.length === 1 && (!ops || ops.includes(action.op)))
+      .map((action) => action.field),
+  );
+
+// Lines a condition restricts itself to with a top-level product_line _eq / _in; null when unscoped
+function lineScopeOf(condition: ConditionNode): number[] | null {
+  const parts = condition.kind === 'and' ? condition.children : [condition];
+  let scope: number[] | null = null;
+  for (const part of parts) {
+    if (part.kind !== 'compare' || part.field !== 'product_line' || part.path.length !== 1) continue;
+    if (part.op !== '_eq' && part.op !== '_in') continue;
+    const ids = (Array.isArray(part.operand) ? part.operand : [part.operand])
+      .map((id) => parseInt(String(id), 10))
+      .filter(Number.isFinite);
+    scope = scope ? scope.filter((id) => ids.includes(id)) : ids;
+  }
+  return scope;
+}
+
+/**
+ * Option ids per rule field for each product line
+ */
+export function buildLineOptionSpace(defaultOptions: DefaultOptionRow[]): Map<number, Record<string, number[]>> {
+  const space = new Map<number, Record<string, number[]>>();
+
+  for (const row of defaultOptions) {
+    if (row.product_lines_id == null || !row.collection || row.item == null) continue;
+    const field = COLLECTION_TO_RULE_FIELD[row.collection];
+    if (!field) continue;
+    const id = parseInt(row.item, 10);
+    if (!Number.isFinite(id)) continue;
+
+    const line = space.get(row.product_lines_id) ?? {};
+    line[field] = Array.from(new Set([...(line[field] ?? []), id]));
+    space.set(row.product_lines_id, line);
+  }
+
+  return space;
+}
+
+/**
+ * Analyze rules for conflicts and dead rules
+ */
+export function analyzeRules(input: RuleAnalysisInput, options: RuleAnalysisOptions = {}): RuleAnalysisReport {
+  const maxContexts = options.maxContextsPerLine ?? DEFAULT_MAX_CONTEXTS;
+  const issues = new Map<string, RuleIssue>();
+  const addIssue = (issue: RuleIssue) => {
+    const key = [issue.kind, issue.productLineId, issue.field, [...issue.ruleIds].sort().join(',')].join('|');
+    if (!issues.has(key)) issues.set(key, issue);
+  };
+
+  const compiled = input.rules.map((rule) => compileRule(rule));
+  const valid = compiled.filter((entry) => {
+    if (!entry.error) return true;
+    addIssue({
+      kind: 'invalid',
+      severity: 'error',
+      ruleIds: [entry.rule.id],
+      ruleNames: [entry.rule.name ?? entry.rule.id],
+      productLineId: null,
+      message: entry.error,
+    });
+    return false;
+  });
+
+  const optionSpace = buildLineOptionSpace(input.defaultOptions);
+  const lineIds = Array.from(
+    new Set([...(input.productLines ?? []).map((line) => line.id), ...optionSpace.keys()]),
+  ).sort((a, b) => a - b);
+
+  // Only fields that some condition reads need to vary
+  const conditionFields = Array.from(
+    new Set(valid.flatMap((entry) => entry.fields).filter((field) => field !== 'product_line')),
+  ).sort();
+
+  // Lines each rule matched in
+  const reach = new Map<string, Set<number>>();
+  // Rules that matched in every context where a given rule matched
+  const alwaysWith = new Map<string, Set<string>>();
+  const truncatedLines: number[] = [];
+  let contextsEvaluated = 0;
+
+  for (const lineId of lineIds) {
+    const lineOptions = optionSpace.get(lineId) ?? {};
+    const domains = conditionFields.map((field): Array<number | number[] | undefined> => {
+      const ids = lineOptions[field] ?? [];
+      if (RULE_FIELDS[field]?.isArray) return [undefined, ...ids.map((id) => [id])];
+      return ids.length > 0 ? ids : [undefined];
+    });
+
+    const total = domains.reduce((product, domain) => product * domain.length, 1);
+    const limit = Math.min(total, maxContexts);
+    if (total > maxContexts) {
+      truncatedLines.push(lineId);
+      addIssue({
+        kind: 'truncated',
+        severity: 'warning',
+        ruleIds: [],
+        ruleNames: [],
+        productLineId: lineId,
+        message: `Product line ${lineId} has ${total} option combinations; only the first ${limit} were checked, so unreachable rules are not reported for it`,
+      });
+    }
+
+    const cursor = domains.map(() => 0);
+    for (let n = 0; n < limit; n++) {
+      const context: Record<string, unknown> = { product_line: lineId };
+      conditionFields.forEach((field, index) => {
+        context[field] = domains[index][cursor[index]];
+      });
+      contextsEvaluated++;
+
+      const matched = valid.filter((entry) => entry.matches(context));
+      const matchedIds = new Set(matched.map((entry) => entry.rule.id));
+
+      for (const entry of matched) {
+        reach.set(entry.rule.id, (reach.get(entry.rule.id) ?? new Set()).add(lineId));
+        const previous = alwaysWith.get(entry.rule.id);
+        alwaysWith.set(
+          entry.rule.id,
+          previous ? new Set([...previous].filter((id) => matchedIds.has(id))) : new Set(matchedIds),
+        );
+      }
+
+      if (matched.length > 0) {
+        checkConstraints(lineId, lineOptions, context, matched, addIssue);
+      }
+
+      // Advance the odometer
+      for (let index = cursor.length - 1; index >= 0; index--) {
+        cursor[index]++;
+        if (cursor[index] < domains[index].length) break;
+        cursor[index] = 0;
+      }
+    }
+  }
+
+  for (const entry of valid) {
+    const id = entry.rule.id;
+    const name = entry.rule.name ?? id;
+    const reachedLines = reach.get(id) ?? new Set<number>();
+    const scope = entry.rule.if_this ? lineScopeOf(entry.condition) : null;
+
+    // With a truncated search we can't prove a rule is dead in that line
+    if (scope) {
+      for (const lineId of scope) {
+        if (reachedLines.has(lineId) || truncatedLines.includes(lineId)) continue;
+        addIssue({
+          kind: 'unreachable',
+          severity: 'warning',
+          ruleIds: [id],
+          ruleNames: [name],
+          productLineId: lineId,
+          message: `Rule "${name}" does not match any configuration in product line ${lineId}`,
+        });
+      }
+    } else if (reachedLines.size === 0 && truncatedLines.length === 0) {
+      addIssue({
+        kind: 'unreachable',
+        severity: 'warning',
+        ruleIds: [id],
+        ruleNames: [name],
+        productLineId: null,
+        message: entry.rule.if_this
+          ? `Rule "${name}" does not match any configuration in any product line`
+          : `Rule "${name}" has no if_this conditions and never applies`,
+      });
+    }
+    if (reachedLines.size === 0) continue;
+
+    const sets = actionFields(entry, ['_eq']);
+    if (sets.size === 0) continue;
+
+    const shadow = valid
+      .filter(
+        (other) =>
+          other.rule.id !== id &&
+          priorityOf(other.rule) < priorityOf(entry.rule) &&
+          alwaysWith.get(id)?.has(other.rule.id),
+      )
+      .sort((a, b) => priorityOf(a.rule) - priorityOf(b.rule))
+      .find((other) => {
+        const otherSets = actionFields(other, ['_eq']);
+        return [...sets].every((field) => otherSets.has(field));
+      });
+
+    if (shadow) {
+      addIssue({
+        kind: 'shadowed',
+        severity: 'warning',
+        ruleIds: [id, shadow.rule.id],
+        ruleNames: [name, shadow.rule.name ?? shadow.rule.id],
+        productLineId: null,
+        field: [...sets].join(','),
+        message: `Rule "${name}" is shadowed by higher-priority rule "${shadow.rule.name ?? shadow.rule.id}", which always matches with it and sets ${[...sets].join(', ')}`,
+      });
+    }
+  }
+
+  const list = Array.from(issues.values());
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      rules: input.rules.length,
+      productLines: lineIds.length,
+      contextsEvaluated,
+      truncatedProductLines: truncatedLines,
+      errors: list.filter((issue) => issue.severity === 'error').length,
+      warnings: list.filter((issue) => issue.severity === 'warning').length,
+    },
+    issues: list,
+  };
+}
+
+function checkConstraints(
+  lineId: number,
+  lineOptions: Record<string, number[]>,
+  context: Record<string, unknown>,
+  matched: CompiledRule<Rule>[],
+  addIssue: (issue: RuleIssue) => void,
+): void {
+  const constraints = buildRuleConstraints(
+    matched.map((entry) => entry.rule),
+    context,
+  );
+
+  for (const [field, set] of Object.entries(constraints)) {
+    const involved = matched.filter((entry) => actionFields(entry).has(field));
+    const ruleIds = involved.map((entry) => entry.rule.id);
+    const ruleNames = involved.map((entry) => entry.rule.name ?? entry.rule.id);
+
+    const allowed = set.allow ? [...set.allow].filter((id) => !set.deny?.has(id)) : null;
+    if (allowed && allowed.length === 0) {
+      addIssue({
+        kind: 'contradiction',
+        severity: 'error',
+        ruleIds,
+        ruleNames,
+        productLineId: lineId,
+        field,
+        message: `Rules ${ruleNames.map((name) => `"${name}"`).join(', ')} leave no allowed value for ${field} (allow [${[...set.allow!].join(', ')}], deny [${[...(set.deny ?? [])].join(', ')}])`,
+        example: context,
+      });
+      continue;
+    }
+
+    const offered = lineOptions[field] ?? [];
+    if (offered.length === 0) continue;
+
+    const remaining = applyConstraintsToIds({ [field]: offered }, { [field]: set }, () => offered)[field];
+    if (remaining.length === 0) {
+      addIssue({
+        kind: 'zero_options',
+        severity: 'error',
+        ruleIds,
+        ruleNames,
+        productLineId: lineId,
+        field,
+        message: `Rules ${ruleNames.map((name) => `"${name}"`).join(', ')} leave ${field} with no options in product line ${lineId}`,
+        example: context,
+      });
+    }
+  }
+}
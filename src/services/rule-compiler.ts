@@ -0,0 +1,43 @@
+/**
+ * Rule Compiler
+ *
+ * The compiler lives with the edge function, which prices quotes through it; the app
+ * evaluates rules, pricing conditions and image layers with the same code.
+ */
+
+export {
+  RULE_FIELDS,
+  RULE_FIELD_ALIASES,
+  ACTION_OVERRIDE_PATHS,
+  RuleParseError,
+  ruleFieldConditionSchema,
+  ruleFilterSchema,
+  canonicalRuleField,
+  buildRuleContext,
+  parseCondition,
+  parseActions,
+  flattenActions,
+  resolveActions,
+  conditionFields,
+  compileConditionNode,
+  compileCondition,
+  compileRule,
+} from '../supabase/functions/server/rule_compiler';
+
+export type {
+  RuleScalar,
+  RuleFieldCondition,
+  RuleFilter,
+  RuleOperator,
+  RuleConfigField,
+  RuleFieldBinding,
+  ConditionNode,
+  ActionOperator,
+  ActionNode,
+  AssignAction,
+  RuleContext,
+  RulePredicate,
+  CompileOptions,
+  RuleSource,
+  CompiledRule,
+} from '../supabase/functions/server/rule_compiler';
@@ -0,0 +1,255 @@
+/**
+ * Rule Simulator
+ *
+ * Evaluates a proposed rule (or rules) against a data snapshot without touching Supabase.
+ * For every product line, each combination of the options that rules and product
+ * availability read is run through the disabled-option pipeline twice — with the
+ * snapshot's rules and with the proposed rules applied — and the options whose
+ * availability flips are reported.
+ *
+ * Used by scripts/rules-simulate.ts.
+ */
+
+import { computeDisabledOptions, isOptionDisabled } from './option-explainer';
+import { COLLECTION_TO_FIELD } from './product-options-builder';
+import { RULE_FIELDS, compileRule } from './rule-compiler';
+import { createSnapshotDataProvider, type DataSnapshot } from './data-provider';
+import type { Rule } from './supabase';
+import type { ProductConfig, ProductOption, ProductOptions } from '../store/types';
+
+export interface AvailabilityChange {
+  collection: string;
+  optionId: number;
+  optionName: string;
+  change: 'disabled' | 'enabled';
+  // Number of evaluated configurations where the option flips
+  contexts: number;
+  example: Record<string, string>;
+}
+
+export interface ProductLineSimulation {
+  productLineId: number;
+  productLineName: string;
+  contextsEvaluated: number;
+  contextsChanged: number;
+  truncated: boolean;
+  changes: AvailabilityChange[];
+}
+
+export interface RuleSimulationReport {
+  generatedAt: string;
+  snapshotGeneratedAt: string;
+  proposed: Array<{ id: string; name: string | null }>;
+  replaced: string[];
+  summary: {
+    productLines: number;
+    contextsEvaluated: number;
+    contextsChanged: number;
+    changes: number;
+  };
+  productLines: ProductLineSimulation[];
+}
+
+export interface RuleSimulationOptions {
+  maxContextsPerLine?: number;
+}
+
+const DEFAULT_MAX_CONTEXTS = 20_000;
+
+// Selections product availability filters by when faceting products alone (their facet columns)
+const AVAILABILITY_FIELDS = ['mirrorStyle', 'frameThickness', 'lighting'];
+
+/**
+ * Merge proposed rules into the current set. A proposed rule whose id matches an existing
+ * rule replaces it; rules without an id are added.
+ */
+export function applyProposedRules(
+  rules: Rule[],
+  proposed: Array<Partial<Rule>>,
+): { rules: Rule[]; proposed: Rule[]; replaced: string[] } {
+  const normalized: Rule[] = proposed.map((rule, index) => ({
+    id: rule.id ?? `proposed-${index + 1}`,
+    name: rule.name ?? null,
+    priority: rule.priority ?? null,
+    if_this: rule.if_this ?? null,
+    then_that: rule.then_that ?? null,
+  }));
+
+  for (const rule of normalized) {
+    const { error } = compileRule(rule);
+    if (error) throw new Error(`Proposed rule "${rule.name ?? rule.id}" is invalid: ${error}`);
+  }
+
+  const ids = new Set(normalized.map((rule) => rule.id));
+  const replaced = rules.filter((rule) => ids.has(rule.id)).map((rule) => rule.id);
+
+  return {
+    rules: [...rules.filter((rule) => !ids.has(rule.id)), ...normalized],
+    proposed: normalized,
+    replaced,
+  };
+}
+
+function emptyConfig(productLineId: number, productLineName: string): ProductConfig {
+  return {
+    id: 'simulation',
+    productLineId,
+    productLineName,
+    mirrorControls: '',
+    frameColor: '',
+    frameThickness: '',
+    mirrorStyle: '',
+    width: '',
+    height: '',
+    mounting: '',
+    hangingTechnique: '',
+    lighting: '',
+    colorTemperature: '',
+    lightOutput: '',
+    driver: '',
+    accessories: '',
+    quantity: 1,
+  };
+}
+
+function disabledSet(
+  disabledOptionIds: Record<string, number[]>,
+  productOptions: ProductOptions,
+): Set<string> {
+  const disabled = new Set<string>();
+  for (const [collection, field] of Object.entries(COLLECTION_TO_FIELD)) {
+    if (field === 'sizes') continue;
+    for (const option of productOptions[field] as ProductOption[]) {
+      if (isOptionDisabled(disabledOptionIds, collection, option.id)) {
+        disabled.add(`${collection}:${option.id}`);
+      }
+    }
+  }
+  return disabled;
+}
+
+/**
+ * Diff availability with and without the proposed rules across the snapshot
+ */
+export async function simulateRuleChange(
+  snapshot: DataSnapshot,
+  proposedRules: Array<Partial<Rule>>,
+  options: RuleSimulationOptions = {},
+): Promise<RuleSimulationReport> {
+  const maxContexts = options.maxContextsPerLine ?? DEFAULT_MAX_CONTEXTS;
+  const provider = createSnapshotDataProvider(snapshot);
+  const before = snapshot.rules;
+  const { rules: after, proposed, replaced } = applyProposedRules(before, proposedRules);
+
+  // Selections any rule (old or new) reads, plus the ones availability filters by
+  const varied = new Set(AVAILABILITY_FIELDS);
+  for (const rule of [...before, ...proposed]) {
+    for (const field of compileRule(rule).fields) {
+      const binding = RULE_FIELDS[field];
+      if (binding && !binding.isArray && field !== 'product_line') varied.add(binding.configField);
+    }
+  }
+
+  const optionsKeyFor = (configField: string) => {
+    const binding = Object.values(RULE_FIELDS).find((candidate) => candidate.configField === configField);
+    return binding ? COLLECTION_TO_FIELD[binding.collection] : undefined;
+  };
+
+  const productLines: ProductLineSimulation[] = [];
+
+  for (const line of await provider.fetchProductLines()) {
+    const productOptions = await provider.fetchProductOptions(line.id);
+    const nameOf = (collection: string, id: number) =>
+      (productOptions[COLLECTION_TO_FIELD[collection]] as ProductOption[]).find((option) => option.id === id)?.name ?? String(id);
+
+    // Only fields the line offers options for; an unset field stays ''
+    const fields = Array.from(varied).filter((field) => {
+      const key = optionsKeyFor(field);
+      return key && (productOptions[key] as ProductOption[]).length > 0;
+    });
+    const domains = fields.map((field) => (productOptions[optionsKeyFor(field)!] as ProductOption[]).map((option) => String(option.id)));
+
+    const total = domains.reduce((product, domain) => product * domain.length, 1);
+    const limit = Math.min(total, maxContexts);
+    const changes = new Map<string, AvailabilityChange>();
+    let contextsChanged = 0;
+
+    const cursor = domains.map(() => 0);
+    for (let n = 0; n < limit; n++) {
+      const config = emptyConfig(line.id, line.name);
+      const example: Record<string, string> = {};
+      fields.forEach((field, index) => {
+        (config as any)[field] = domains[index][cursor[index]];
+        example[field] = domains[index][cursor[index]];
+      });
+
+      const beforeDisabled = disabledSet(
+        computeDisabledOptions(snapshot.products, before, line.id, config, productOptions).disabledOptionIds,
+        productOptions,
+      );
+      const afterDisabled = disabledSet(
+        computeDisabledOptions(snapshot.products, after, line.id, config, productOptions).disabledOptionIds,
+        productOptions,
+      );
+
+      let changed = false;
+      const record = (key: string, change: AvailabilityChange['change']) => {
+        changed = true;
+        const id = `${change}|${key}`;
+        const existing = changes.get(id);
+        if (existing) {
+          existing.contexts++;
+          return;
+        }
+        const [collection, optionId] = key.split(':');
+        changes.set(id, {
+          collection,
+          optionId: Number(optionId),
+          optionName: nameOf(collection, Number(optionId)),
+          change,
+          contexts: 1,
+          example,
+        });
+      };
+
+      afterDisabled.forEach((key) => {
+        if (!beforeDisabled.has(key)) record(key, 'disabled');
+      });
+      beforeDisabled.forEach((key) => {
+        if (!afterDisabled.has(key)) record(key, 'enabled');
+      });
+      if (changed) contextsChanged++;
+
+      for (let index = cursor.length - 1; index >= 0; index--) {
+        cursor[index]++;
+        if (cursor[index] < domains[index].length) break;
+        cursor[index] = 0;
+      }
+    }
+
+    productLines.push({
+      productLineId: line.id,
+      productLineName: line.name,
+      contextsEvaluated: limit,
+      contextsChanged,
+      truncated: total > maxContexts,
+      changes: Array.from(changes.values()).sort(
+        (a, b) => a.collection.localeCompare(b.collection) || a.optionId - b.optionId,
+      ),
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    snapshotGeneratedAt: snapshot.generatedAt,
+    proposed: proposed.map((rule) => ({ id: rule.id, name: rule.name })),
+    replaced,
+    summary: {
+      productLines: productLines.length,
+      contextsEvaluated: productLines.reduce((sum, line) => sum + line.contextsEvaluated, 0),
+      contextsChanged: productLines.reduce((sum, line) => sum + line.contextsChanged, 0),
+      changes: productLines.reduce((sum, line) => sum + line.changes.length, 0),
+    },
+    productLines,
+  };
+}
@@ -10,8 +10,16 @@
  * - Rules make other options in the same table visible but disabled
  */
 
-import { evaluateRuleConditions } from "./rules-engine";
-import { getRules } from "./supabase";
+import { collectActionConstraints, evaluateRuleConditions } from "./rules-engine";
+import {
+  RULE_FIELDS,
+  buildRuleContext,
+  compileRule,
+  resolveActions,
+  type ActionNode,
+} from "./rule-compiler";
+import { getRules, type Rule } from "./supabase";
+import type { DisabledOptionReasons } from "../store/types";
 
 export interface RuleDisabledOptions {
   [collection: string]: number[];
@@ -26,6 +34,7 @@ export interface RuleApplicationResult {
   disabledOptions: RuleDisabledOptions;
   setValues: Record<string, number>; // Values that rules want to set
   imageOverrides: RuleImageOverrides; // Image UUIDs that rules want to set
+  reasons: DisabledOptionReasons; // Which rules disabled each option (keys mirror disabledOptions)
 }
 
 /**
@@ -49,245 +58,156 @@ export async function applyRulesComplete(
 ): Promise<RuleApplicationResult> {
   try {
     const rules = await getRules();
-    const disabledOptions: RuleDisabledOptions = {};
-    const setValues: Record<string, number> = {}; // Track values that rules want to set
-    const imageOverrides: RuleImageOverrides = {}; // Track image overrides from rules
+    return evaluateRulesForConfig(rules, currentConfig, productLineId);
+  } catch (error) {
+    console.error("Failed to apply rules for disabled options:", error);
+    return { disabledOptions: {}, setValues: {}, imageOverrides: {}, reasons: {} };
+  }
+}
 
-    // Build rule evaluation context
-    const ruleContext = {
-      product_line: productLineId,
-      mirror_style: currentConfig.mirrorStyle
-        ? parseInt(currentConfig.mirrorStyle)
-        : undefined,
-      light_direction: currentConfig.lighting
-        ? parseInt(currentConfig.lighting)
-        : undefined,
-      frame_thickness: currentConfig.frameThickness
-        ? parseInt(currentConfig.frameThickness)
-        : undefined,
-      mounting: currentConfig.mounting
-        ? parseInt(currentConfig.mounting)
-        : undefined,
-      hanging_techniques: currentConfig.hangingTechnique
-        ? parseInt(currentConfig.hangingTechnique)
-        : undefined,
-      driver: currentConfig.driver ? parseInt(currentConfig.driver) : undefined,
-      frame_color: currentConfig.frameColor
-        ? parseInt(currentConfig.frameColor)
-        : undefined,
-      color_temperature: currentConfig.colorTemperature
-        ? parseInt(currentConfig.colorTemperature)
-        : undefined,
-      light_output: currentConfig.lightOutput
-        ? parseInt(currentConfig.lightOutput)
-        : undefined,
-      accessories: Array.isArray(currentConfig.accessories)
-        ? currentConfig.accessories.map((a: any) => parseInt(a))
-        : undefined,
-    };
+/**
+ * Pure rule application over an already-loaded rule list
+ */
+export function evaluateRulesForConfig(
+  rules: Rule[],
+  currentConfig: Record<string, any>,
+  productLineId: number,
+): RuleApplicationResult {
+  const disabledOptions: RuleDisabledOptions = {};
+  const setValues: Record<string, number> = {}; // Track values that rules want to set
+  const imageOverrides: RuleImageOverrides = {}; // Track image overrides from rules
+  const reasons: DisabledOptionReasons = {};
+
+  // Build rule evaluation context
+  const ruleContext = buildRuleContext(currentConfig, productLineId);
+
+  if (import.meta.env?.DEV) {
+    console.log("⚙️ Evaluating rules for UI disabled options:", ruleContext);
+    console.log(`⚙️ Found ${rules.length} rules to evaluate`);
+  }
 
-    if (import.meta.env.DEV) {
-      console.log("⚙️ Evaluating rules for UI disabled options:", ruleContext);
-      console.log(`⚙️ Found ${rules.length} rules to evaluate`);
+  // Process rules to find which options should be disabled
+  for (const rule of rules) {
+    if (import.meta.env?.DEV) {
+      console.log(`⚙️ Checking rule: "${rule.name}"`);
+      console.log(`  Conditions:`, rule.if_this);
     }
 
-    // Process rules to find which options should be disabled
-    for (const rule of rules) {
-      if (import.meta.env.DEV) {
-        console.log(`⚙️ Checking rule: "${rule.name}"`);
-        console.log(`  Conditions:`, rule.if_this);
+    if (evaluateRuleConditions(rule, ruleContext)) {
+      if (import.meta.env?.DEV) {
+        console.log(
+          `✅ Rule "${rule.name}" MATCHED - extracting disabled options`,
+        );
+        console.log(`  Actions:`, rule.then_that);
       }
 
-      if (evaluateRuleConditions(rule, ruleContext)) {
-        if (import.meta.env.DEV) {
-          console.log(
-            `✅ Rule "${rule.name}" MATCHED - extracting disabled options`,
-          );
-          console.log(`  Actions:`, rule.then_that);
-        }
-
-        const actions = rule.then_that;
-        if (actions && typeof actions === "object") {
-          // Extract both disabled options and set values from rule actions
-          extractRuleActionsResults(actions, disabledOptions, setValues, imageOverrides);
-        }
-      } else {
-        if (import.meta.env.DEV) {
-          console.log(`❌ Rule "${rule.name}" did not match`);
-        }
+      // Extract both disabled options and set values from rule actions
+      const { actions } = compileRule(rule);
+      extractRuleActionsResults(rule, actions, ruleContext, disabledOptions, setValues, imageOverrides, reasons);
+    } else {
+      if (import.meta.env?.DEV) {
+        console.log(`❌ Rule "${rule.name}" did not match`);
       }
     }
+  }
 
-    if (import.meta.env.DEV) {
-      if (Object.keys(disabledOptions).length > 0) {
-        console.log("⚙️ Rules disabled options:", disabledOptions);
-      }
-      if (Object.keys(setValues).length > 0) {
-        console.log("⚙️ Rules set values:", setValues);
-      }
+  if (import.meta.env?.DEV) {
+    if (Object.keys(disabledOptions).length > 0) {
+      console.log("⚙️ Rules disabled options:", disabledOptions);
+    }
+    if (Object.keys(setValues).length > 0) {
+      console.log("⚙️ Rules set values:", setValues);
     }
-
-    return { disabledOptions, setValues, imageOverrides };
-  } catch (error) {
-    console.error("Failed to apply rules for disabled options:", error);
-    return { disabledOptions: {}, setValues: {}, imageOverrides: {} };
   }
+
+  return { disabledOptions, setValues, imageOverrides, reasons };
 }
 
 /**
  * Extract both disabled options and set values from rule actions
- * When a rule sets a value (_eq), it both SETS that value and disables alternatives
+ * When a rule sets a value (_eq), it both SETS that value and disables alternatives.
+ * An _or group allows the union of its branches (as in buildRuleConstraints): every value
+ * it allows stays enabled, and a value is only SET when exactly one is allowed.
  * Also extracts product image overrides from product.vertical_image and product.horizontal_image
  */
 function extractRuleActionsResults(
-  actions: any,
+  rule: Rule,
+  actions: ActionNode,
+  context: Record<string, unknown>,
   disabledOptions: RuleDisabledOptions,
   setValues: Record<string, number>,
   imageOverrides: RuleImageOverrides,
-  path: string[] = [],
+  reasons: DisabledOptionReasons,
 ): void {
-  if (!actions || typeof actions !== "object") return;
-
-  // Handle _and arrays
-  if (actions._and && Array.isArray(actions._and)) {
-    for (const item of actions._and) {
-      extractRuleActionsResults(item, disabledOptions, setValues, imageOverrides, path);
+  const addReason = (key: string, optionId: number, effect: "set" | "exclude") => {
+    const byOption = (reasons[key] ??= {});
+    const list = (byOption[optionId] ??= []);
+    if (!list.some((reason) => reason.source === "rule" && reason.ruleId === rule.id)) {
+      list.push({ source: "rule", ruleId: rule.id, ruleName: rule.name ?? rule.id, effect });
     }
-    return;
-  }
-
-  // Handle _or arrays (less common in rules)
-  if (actions._or && Array.isArray(actions._or)) {
-    for (const item of actions._or) {
-      extractRuleActionsResults(item, disabledOptions, setValues, imageOverrides, path);
-    }
-    return;
-  }
-
-  // Handle product image overrides (e.g., product.vertical_image._eq)
-  if (actions.product && typeof actions.product === "object") {
-    const productActions = actions.product;
-    if (productActions.vertical_image && typeof productActions.vertical_image === "object") {
-      const verticalImageValue = (productActions.vertical_image as any)._eq;
-      if (verticalImageValue) {
-        imageOverrides.vertical_image = verticalImageValue;
-        if (import.meta.env.DEV) {
-          console.log(`⚙️ Rule sets vertical_image = ${verticalImageValue}`);
-        }
+  };
+
+  // Handle product image overrides (e.g., product.vertical_image._eq) from the applied branch
+  for (const action of resolveActions(actions, context)) {
+    if (action.field !== "product") continue;
+    const [, imageField] = action.path;
+    if (
+      action.op === "_eq" &&
+      action.value &&
+      (imageField === "vertical_image" || imageField === "horizontal_image")
+    ) {
+      imageOverrides[imageField] = action.value as string;
+      if (import.meta.env?.DEV) {
+        console.log(`⚙️ Rule sets ${imageField} = ${action.value}`);
       }
     }
-    if (productActions.horizontal_image && typeof productActions.horizontal_image === "object") {
-      const horizontalImageValue = (productActions.horizontal_image as any)._eq;
-      if (horizontalImageValue) {
-        imageOverrides.horizontal_image = horizontalImageValue;
-        if (import.meta.env.DEV) {
-          console.log(`⚙️ Rule sets horizontal_image = ${horizontalImageValue}`);
-        }
-      }
-    }
-    // Don't return - continue processing other fields
   }
 
-  // Handle field assignments
-  for (const [key, value] of Object.entries(actions)) {
-    if (key.startsWith("_")) continue; // Skip operators
-    if (key === "product") continue; // Already handled above
-
-    if (value && typeof value === "object") {
-      // Handle both _eq (sets value) and _neq (excludes value) operators
-      const collectionMapping: Record<string, string> = {
-        mirror_style: "mirror_styles",
-        light_direction: "light_directions",
-        frame_thickness: "frame_thicknesses",
-        mounting_option: "mounting_options", // Note: mounting_option in rules maps to mounting_options
-        mounting: "mounting_options",
-        hanging_techniques: "hanging_techniques",
-        frame_color: "frame_colors",
-        color_temperature: "color_temperatures",
-        light_output: "light_outputs",
-        driver: "drivers",
-        accessory: "accessories",
-      };
-
-      const collection = collectionMapping[key];
-      if (collection) {
-        if ((value as any)._eq !== undefined) {
-          // Rule sets a specific value - both SET the value AND disable alternatives
-          const setValue = (value as any)._eq;
+  for (const [field, constraint] of Object.entries(collectActionConstraints(actions))) {
+    const binding = RULE_FIELDS[field];
+    if (!binding || field === "product_line") continue;
+    const collection = binding.collection;
 
-          if (import.meta.env.DEV) {
-            console.log(
-              `⚙️ Rule sets ${key} = ${setValue}, will set value and disable alternatives in ${collection}`,
-            );
-          }
+    if (constraint.allow?.size) {
+      // Rule sets the value - disable every alternative to the allowed value(s)
+      const allowed = [...constraint.allow];
 
-          // Store the value that should be SET
-          const configFieldMapping: Record<string, string> = {
-            mirror_style: "mirrorStyle",
-            light_direction: "lighting",
-            frame_thickness: "frameThickness",
-            mounting_option: "mounting",
-            mounting: "mounting",
-            hanging_techniques: "hangingTechnique",
-            frame_color: "frameColor",
-            color_temperature: "colorTemperature",
-            light_output: "lightOutput",
-            driver: "driver",
-          };
-
-          const configField = configFieldMapping[key];
-          if (configField) {
-            setValues[configField] = setValue;
-          }
-
-          if (!disabledOptions[collection]) {
-            disabledOptions[collection] = [];
-          }
-
-          // Store the rule-set value so we can disable alternatives
-          disabledOptions[`${collection}_rule_set`] = [setValue];
-        } else if ((value as any)._neq !== undefined) {
-          // Rule excludes a specific value - disable just that value
-          const excludeValue = (value as any)._neq;
+      if (import.meta.env?.DEV) {
+        console.log(
+          `⚙️ Rule allows ${field} [${allowed.join(", ")}], will disable alternatives in ${collection}`,
+        );
+      }
 
-          if (import.meta.env.DEV) {
-            console.log(
-              `⚙️ Rule excludes ${key} = ${excludeValue}, will disable this option in ${collection}`,
-            );
-          }
+      // Store the value that should be SET (array fields are never forced)
+      if (allowed.length === 1 && !binding.isArray) {
+        setValues[binding.configField] = allowed[0];
+      }
 
-          if (!disabledOptions[collection]) {
-            disabledOptions[collection] = [];
-          }
+      if (!disabledOptions[collection]) {
+        disabledOptions[collection] = [];
+      }
 
-          // Add the excluded value to direct disabled list
-          disabledOptions[collection].push(excludeValue);
-        } else if ((value as any)._nin !== undefined) {
-          // Rule excludes multiple values - disable all values in the array
-          const excludeValues = (value as any)._nin;
+      // Store the rule-set values so we can disable alternatives
+      disabledOptions[`${collection}_rule_set`] = allowed;
+      allowed.forEach((value) => addReason(`${collection}_rule_set`, value, "set"));
+    }
 
-          if (import.meta.env.DEV) {
-            console.log(
-              `⚙️ Rule excludes ${key} NOT IN [${excludeValues.join(", ")}], will disable these options in ${collection}`,
-            );
-          }
+    if (constraint.deny?.size) {
+      // Rule excludes one or more values - disable just those values
+      const excludeValues = [...constraint.deny];
 
-          if (!disabledOptions[collection]) {
-            disabledOptions[collection] = [];
-          }
+      if (import.meta.env?.DEV) {
+        console.log(
+          `⚙️ Rule excludes ${field} [${excludeValues.join(", ")}], will disable in ${collection}`,
+        );
+      }
 
-          // Add all excluded values to direct disabled list
-          if (Array.isArray(excludeValues)) {
-            disabledOptions[collection].push(...excludeValues);
-          }
-        }
+      if (!disabledOptions[collection]) {
+        disabledOptions[collection] = [];
       }
-    } else if (value && typeof value === "object") {
-      // Recurse into nested objects
-      extractRuleActionsResults(value, disabledOptions, setValues, [
-        ...path,
-        key,
-      ]);
+
+      disabledOptions[collection].push(...excludeValues);
+      excludeValues.forEach((value) => addReason(collection, value, "exclude"));
     }
   }
 }
@@ -303,8 +223,8 @@ export function isOptionDisabledByRules(
   // Check if this collection has a rule-set value
   const ruleSetKey = `${collection}_rule_set`;
   if (ruleDisabledOptions[ruleSetKey]) {
-    const setValue = ruleDisabledOptions[ruleSetKey][0];
-    return optionId !== setValue; // Disable everything except the set value
+    // Disable everything except the set value(s)
+    return !ruleDisabledOptions[ruleSetKey].includes(optionId);
   }
 
   // Check direct disabled list
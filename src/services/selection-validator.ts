@@ -1,4 +1,4 @@
-import { ProductConfig, ProductLine } from '../store/types';
+import { ProductConfig, ProductLine, ProductOptions } from '../store/types';
 import { fetchProductOptions } from './product-options';
 
 export interface ValidationResult {
@@ -7,6 +7,13 @@ export interface ValidationResult {
   adjustedConfig: ProductConfig | null;
 }
 
+export interface SelectionValidationOptions {
+  // Also flag selections that are not among the offered options (e.g. restored from an
+  // older session); checked against these options instead of the product line defaults
+  requireOffered?: boolean;
+  productOptions?: ProductOptions;
+}
+
 export interface InvalidSelection {
   field: keyof ProductConfig;
   collection: string;
@@ -39,23 +46,77 @@ const FIELD_TO_OPTIONS_KEY: Record<string, string> = {
   lightOutput: 'lightOutputs',
 };
 
+/**
+ * Selections whose option id is not offered in productOptions. Collections with no
+ * options are skipped since the product line does not use them.
+ */
+export function findUnavailableSelections(
+  config: ProductConfig,
+  productOptions: ProductOptions,
+): InvalidSelection[] {
+  const unavailable: InvalidSelection[] = [];
+
+  for (const [field, collection] of Object.entries(FIELD_TO_COLLECTION_MAP)) {
+    const currentValue = config[field as keyof ProductConfig];
+    if (!currentValue) continue;
+
+    const options = (productOptions as any)[FIELD_TO_OPTIONS_KEY[field]];
+    if (!Array.isArray(options) || options.length === 0) continue;
+
+    if (!options.some((option: any) => option.id.toString() === currentValue.toString())) {
+      unavailable.push({
+        field: field as keyof ProductConfig,
+        collection,
+        currentValue: currentValue as string,
+        suggestedValue: null,
+        reason: 'unavailable',
+      });
+    }
+  }
+
+  return unavailable;
+}
+
 export async function validateCurrentSelections(
   config: ProductConfig,
   productLine: ProductLine,
   disabledOptionIds: Record<string, number[]>,
+  options: SelectionValidationOptions = {},
 ): Promise<ValidationResult> {
   const invalidSelections: InvalidSelection[] = [];
   const adjustedConfig: ProductConfig = { ...config };
   let hasAdjustments = false;
 
   // Load product options dynamically
-  const productOptions = await fetchProductOptions(productLine.id);
+  const productOptions = options.productOptions ?? await fetchProductOptions(productLine.id);
+
+  const unavailableFields = new Set<string>();
+  if (options.requireOffered) {
+    for (const selection of findUnavailableSelections(config, productOptions)) {
+      const suggestedValue = await getFirstAvailableOption(
+        selection.collection,
+        FIELD_TO_OPTIONS_KEY[selection.field],
+        productOptions,
+        disabledOptionIds
+      );
+
+      invalidSelections.push({ ...selection, suggestedValue });
+      unavailableFields.add(selection.field);
+      // Options that no longer exist are dropped when nothing can replace them
+      (adjustedConfig as any)[selection.field] = suggestedValue ?? '';
+      hasAdjustments = true;
+
+      if (import.meta.env.DEV) {
+        console.log(`🔄 Auto-adjusting ${selection.field}: ${selection.currentValue} → ${suggestedValue ?? '(none)'} (unavailable)`);
+      }
+    }
+  }
 
   // Check each field that maps to a collection
   for (const [field, collection] of Object.entries(FIELD_TO_COLLECTION_MAP)) {
     const currentValue = config[field as keyof ProductConfig];
 
-    if (!currentValue) continue; // Skip unset fields
+    if (!currentValue || unavailableFields.has(field)) continue; // Skip unset and already replaced fields
 
     const disabledIds = disabledOptionIds[collection] || [];
     const ruleSetKey = `${collection}_rule_set`;
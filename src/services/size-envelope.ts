@@ -0,0 +1,375 @@
+/**
+ * Size Envelopes
+ *
+ * Limits on custom sizes, read from the `size_envelopes` table: min/max width and
+ * height, an aspect-ratio range (width / height), the size increment and size-dependent
+ * requirements such as "above 60\" wide the driver must be X". A product line has one
+ * row with mirror_style null; a row for a mirror style overrides it column by column
+ * (null columns inherit) and adds its requirements to the line's.
+ *
+ * Requirements are Directus filters evaluated with the rule compiler, against the same
+ * context as rules. recomputeFiltering disables the options an exceeded requirement
+ * rules out (so selection validation moves off them like any rule-disabled option),
+ * and validateSize reports whatever still fails together with the nearest valid size.
+ *
+ * Everything except fetchSizeEnvelopes is pure; all lengths are inches.
+ */
+
+import { z } from 'zod';
+import {
+  RULE_FIELDS,
+  buildRuleContext,
+  compileConditionNode,
+  conditionFields,
+  parseCondition,
+  ruleFilterSchema,
+  type RuleFilter,
+  type RulePredicate,
+} from './rule-compiler';
+import { COLLECTION_TO_FIELD } from './product-options-builder';
+import { DEFAULT_SIZE_INCREMENT, formatCanonicalInches, parseLength } from './units';
+import { getSizeIncrement } from '../utils/environment';
+import type { SizeEnvelopeRow } from './supabase';
+import type { DisabledOptionReasons, ProductConfig, ProductOptions } from '../store/types';
+
+export type SizeDimension = 'width' | 'height';
+
+export interface SizeRequirement {
+  // 'either' applies when the width or the height is above the threshold
+  dimension: SizeDimension | 'either';
+  above: number;
+  requires: RuleFilter;
+  // Shown instead of the generic message when set
+  message: string | null;
+  // Rule fields the filter reads, and the compiled filter
+  fields: string[];
+  matches: RulePredicate;
+}
+
+export interface SizeEnvelope {
+  minWidth: number | null;
+  maxWidth: number | null;
+  minHeight: number | null;
+  maxHeight: number | null;
+  minAspectRatio: number | null;
+  maxAspectRatio: number | null;
+  increment: number;
+  requirements: SizeRequirement[];
+}
+
+export type SizeIssueCode =
+  | 'width_min'
+  | 'width_max'
+  | 'height_min'
+  | 'height_max'
+  | 'aspect_min'
+  | 'aspect_max'
+  | 'increment'
+  | 'requirement';
+
+export interface SizeIssue {
+  code: SizeIssueCode;
+  // Input the issue belongs to; null for issues about the size as a whole
+  dimension: SizeDimension | null;
+  limit: number;
+  message?: string | null;
+}
+
+export interface SizeValidation {
+  valid: boolean;
+  issues: SizeIssue[];
+  // Closest size that passes every check, in canonical inches; null when valid or none exists
+  suggestion: { width: string; height: string } | null;
+}
+
+type SizeConfig = Partial<Record<keyof ProductConfig, unknown>>;
+
+const requirementSchema = z.object({
+  dimension: z.enum(['width', 'height', 'either']),
+  above: z.coerce.number().positive(),
+  requires: ruleFilterSchema,
+  message: z.string().nullish(),
+});
+
+const ENVELOPE_COLUMNS = {
+  minWidth: 'min_width',
+  maxWidth: 'max_width',
+  minHeight: 'min_height',
+  maxHeight: 'max_height',
+  minAspectRatio: 'min_aspect_ratio',
+  maxAspectRatio: 'max_aspect_ratio',
+} as const satisfies Record<string, keyof SizeEnvelopeRow>;
+
+// Float tolerance for limits and increments (sizes are stored to 4 decimals)
+const EPSILON = 1e-6;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+function parseRequirements(row: SizeEnvelopeRow): SizeRequirement[] {
+  const list = Array.isArray(row.requirements) ? row.requirements : [];
+  const requirements: SizeRequirement[] = [];
+  for (const entry of list) {
+    const parsed = requirementSchema.safeParse(entry);
+    if (!parsed.success) {
+      console.warn(`Ignoring invalid requirement on size envelope ${row.id}:`, parsed.error.issues);
+      continue;
+    }
+    const { dimension, above, requires, message } = parsed.data;
+    try {
+      const condition = parseCondition(requires);
+      requirements.push({
+        dimension,
+        above,
+        requires,
+        message: message ?? null,
+        fields: conditionFields(condition),
+        matches: compileConditionNode(condition),
+      });
+    } catch (error) {
+      console.warn(`Ignoring invalid requirement on size envelope ${row.id}:`, error);
+    }
+  }
+  return requirements;
+}
+
+/**
+ * Envelope for a mirror style within a product line. Without rows, sizes are only
+ * held to the size increment.
+ */
+export function resolveSizeEnvelope(rows: SizeEnvelopeRow[], mirrorStyleId?: unknown): SizeEnvelope {
+  const styleId = toNumber(mirrorStyleId);
+  const lineRow = rows.find((row) => row.mirror_style === null);
+  const styleRow = styleId !== null ? rows.find((row) => row.mirror_style === styleId) : undefined;
+  const layers = [styleRow, lineRow].filter((row): row is SizeEnvelopeRow => row !== undefined);
+
+  const pick = (column: keyof SizeEnvelopeRow): number | null => {
+    for (const row of layers) {
+      const value = toNumber(row[column]);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  const envelope = Object.fromEntries(
+    Object.entries(ENVELOPE_COLUMNS).map(([key, column]) => [key, pick(column)]),
+  ) as Omit<SizeEnvelope, 'increment' | 'requirements'>;
+  const increment = pick('increment');
+
+  return {
+    ...envelope,
+    increment: increment !== null && increment > 0 ? increment : getSizeIncrement() ?? DEFAULT_SIZE_INCREMENT,
+    requirements: [lineRow, styleRow].flatMap((row) => (row ? parseRequirements(row) : [])),
+  };
+}
+
+const exceeds = (requirement: SizeRequirement, width: number, height: number): boolean => {
+  const threshold = requirement.above + EPSILON;
+  switch (requirement.dimension) {
+    case 'width':
+      return width > threshold;
+    case 'height':
+      return height > threshold;
+    case 'either':
+      return width > threshold || height > threshold;
+  }
+};
+
+const onIncrement = (value: number, increment: number): boolean =>
+  Math.abs(value / increment - Math.round(value / increment)) * increment < EPSILON;
+
+function collectIssues(
+  envelope: SizeEnvelope,
+  width: number,
+  height: number,
+  context: Record<string, unknown>,
+): SizeIssue[] {
+  const issues: SizeIssue[] = [];
+  const limits: Array<[SizeDimension, number, number | null, number | null]> = [
+    ['width', width, envelope.minWidth, envelope.maxWidth],
+    ['height', height, envelope.minHeight, envelope.maxHeight],
+  ];
+
+  for (const [dimension, value, min, max] of limits) {
+    if (min !== null && value < min - EPSILON) issues.push({ code: `${dimension}_min`, dimension, limit: min });
+    if (max !== null && value > max + EPSILON) issues.push({ code: `${dimension}_max`, dimension, limit: max });
+    if (!onIncrement(value, envelope.increment)) issues.push({ code: 'increment', dimension, limit: envelope.increment });
+  }
+
+  const ratio = width / height;
+  if (envelope.minAspectRatio !== null && ratio < envelope.minAspectRatio - EPSILON) {
+    issues.push({ code: 'aspect_min', dimension: null, limit: envelope.minAspectRatio });
+  }
+  if (envelope.maxAspectRatio !== null && ratio > envelope.maxAspectRatio + EPSILON) {
+    issues.push({ code: 'aspect_max', dimension: null, limit: envelope.maxAspectRatio });
+  }
+
+  for (const requirement of envelope.requirements) {
+    if (exceeds(requirement, width, height) && !requirement.matches(context)) {
+      issues.push({
+        code: 'requirement',
+        dimension: requirement.dimension === 'either' ? null : requirement.dimension,
+        limit: requirement.above,
+        message: requirement.message,
+      });
+    }
+  }
+
+  return issues;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Closest size (by total change in inches) that passes every check of the envelope,
+ * keeping the current option selections. Returns null when the envelope cannot be met.
+ */
+export function nearestValidSize(
+  envelope: SizeEnvelope,
+  width: number,
+  height: number,
+  context: Record<string, unknown>,
+): { width: number; height: number } | null {
+  const { increment } = envelope;
+
+  // Requirements the selections do not meet cap the size at their threshold
+  let maxWidth = envelope.maxWidth ?? Infinity;
+  let maxHeight = envelope.maxHeight ?? Infinity;
+  for (const requirement of envelope.requirements) {
+    if (requirement.matches(context)) continue;
+    if (requirement.dimension !== 'height') maxWidth = Math.min(maxWidth, requirement.above);
+    if (requirement.dimension !== 'width') maxHeight = Math.min(maxHeight, requirement.above);
+  }
+  const minWidth = Math.max(envelope.minWidth ?? 0, increment);
+  const minHeight = Math.max(envelope.minHeight ?? 0, increment);
+
+  const w = clamp(width, minWidth, maxWidth);
+  const h = clamp(height, minHeight, maxHeight);
+
+  // Bring the ratio into range by moving either side; both are tried below
+  const targets: Array<[number, number]> = [[w, h]];
+  const { minAspectRatio, maxAspectRatio } = envelope;
+  for (const ratio of [minAspectRatio, maxAspectRatio]) {
+    if (ratio === null || ratio <= 0) continue;
+    targets.push([clamp(h * ratio, minWidth, maxWidth), h], [w, clamp(w / ratio, minHeight, maxHeight)]);
+  }
+
+  const snaps = (value: number): number[] => {
+    const steps = value / increment;
+    return [Math.floor(steps), Math.ceil(steps)].map((step) => Number((step * increment).toFixed(6)));
+  };
+
+  let best: { width: number; height: number; distance: number } | null = null;
+  for (const [targetWidth, targetHeight] of targets) {
+    for (const candidateWidth of snaps(targetWidth)) {
+      for (const candidateHeight of snaps(targetHeight)) {
+        if (candidateWidth <= 0 || candidateHeight <= 0) continue;
+        if (collectIssues(envelope, candidateWidth, candidateHeight, context).length > 0) continue;
+        const distance = Math.abs(candidateWidth - width) + Math.abs(candidateHeight - height);
+        if (!best || distance < best.distance - EPSILON) {
+          best = { width: candidateWidth, height: candidateHeight, distance };
+        }
+      }
+    }
+  }
+
+  return best && { width: best.width, height: best.height };
+}
+
+/**
+ * Check the configured width and height against an envelope. Sizes that are missing or
+ * unreadable are left to the size inputs and count as valid here.
+ */
+export function validateSize(
+  envelope: SizeEnvelope,
+  config: SizeConfig,
+  productLineId: number,
+): SizeValidation {
+  const width = parseLength(String(config.width ?? ''))?.value;
+  const height = parseLength(String(config.height ?? ''))?.value;
+  if (width === undefined || height === undefined) {
+    return { valid: true, issues: [], suggestion: null };
+  }
+
+  const context = buildRuleContext(config, productLineId);
+  const issues = collectIssues(envelope, width, height, context);
+  if (issues.length === 0) {
+    return { valid: true, issues, suggestion: null };
+  }
+
+  const nearest = nearestValidSize(envelope, width, height, context);
+  return {
+    valid: false,
+    issues,
+    suggestion: nearest && {
+      width: formatCanonicalInches(nearest.width),
+      height: formatCanonicalInches(nearest.height),
+    },
+  };
+}
+
+/**
+ * Options ruled out by the requirements the configured size exceeds, in the shape of
+ * disabledOptionIds with reasons. Each option is tried in place of the current
+ * selection; a field is left alone when none of its options would meet the requirement,
+ * so validateSize can report it instead of every option going grey.
+ */
+export function computeSizeDisabledOptions(
+  envelope: SizeEnvelope,
+  config: SizeConfig,
+  productLineId: number,
+  productOptions: ProductOptions | null,
+): { disabledOptions: Record<string, number[]>; reasons: DisabledOptionReasons } {
+  const disabledOptions: Record<string, number[]> = {};
+  const reasons: DisabledOptionReasons = {};
+
+  const width = parseLength(String(config.width ?? ''))?.value;
+  const height = parseLength(String(config.height ?? ''))?.value;
+  if (!productOptions || width === undefined || height === undefined) return { disabledOptions, reasons };
+
+  for (const requirement of envelope.requirements) {
+    if (!exceeds(requirement, width, height)) continue;
+
+    for (const field of requirement.fields) {
+      const binding = RULE_FIELDS[field];
+      const optionsKey = binding && !binding.isArray ? COLLECTION_TO_FIELD[binding.collection] : undefined;
+      if (!binding || !optionsKey) continue;
+
+      const failing = productOptions[optionsKey]
+        .map((option) => option.id)
+        .filter((id) => !requirement.matches(buildRuleContext({ ...config, [binding.configField]: id }, productLineId)));
+      if (failing.length === 0 || failing.length === productOptions[optionsKey].length) continue;
+
+      disabledOptions[binding.collection] = Array.from(new Set([...(disabledOptions[binding.collection] || []), ...failing]));
+      const byOption = (reasons[binding.collection] ??= {});
+      for (const id of failing) {
+        (byOption[id] ??= []).push({ source: 'size', dimension: requirement.dimension, above: requirement.above });
+      }
+    }
+  }
+
+  return { disabledOptions, reasons };
+}
+
+/**
+ * Envelope rows for a product line (the line row and its mirror-style rows).
+ * Sizes stay unrestricted when they cannot be loaded.
+ */
+export async function fetchSizeEnvelopes(productLineId: number): Promise<SizeEnvelopeRow[]> {
+  try {
+    const { supabase } = await import('./supabase');
+    const { data, error } = await supabase
+      .from('size_envelopes')
+      .select('*')
+      .eq('product_line', productLineId)
+      .eq('active', true);
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error(`Failed to load size envelopes for product line ${productLineId}:`, error);
+    return [];
+  }
+}
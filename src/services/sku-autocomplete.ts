@@ -6,35 +6,11 @@ import type {
 import type { SkuCodeOrderItem } from "./sku-generator";
 import { fetchSkuCodeOrder, TABLE_TO_OPTIONS_FIELD } from "./sku-generator";
 import { fetchProductOptions } from "./product-options";
+import { queryClient, queryKeys } from "./data-layer";
 import { getSkuSuggestions } from "./sku-suggestions";
 
 const MAX_SEGMENT_SUGGESTIONS = 20;
 
-interface ProductOptionsCacheKey {
-  productLineId: number;
-  productId?: number;
-}
-
-function createCacheKey(key: ProductOptionsCacheKey): string {
-  return `${key.productLineId}:${key.productId ?? "*"}`;
-}
-
-const productOptionsCache = new Map<string, ProductOptions>();
-
-async function loadProductOptions(
-  productLineId: number,
-  productId?: number,
-): Promise<ProductOptions> {
-  const cacheKey = createCacheKey({ productLineId, productId });
-  if (productOptionsCache.has(cacheKey)) {
-    return productOptionsCache.get(cacheKey)!;
-  }
-
-  const options = await fetchProductOptions(productLineId, productId);
-  productOptionsCache.set(cacheKey, options);
-  return options;
-}
-
 export interface BaseSkuSuggestion extends SkuSuggestion {}
 
 export interface SkuAutocompleteContext {
@@ -68,7 +44,7 @@ export async function createSkuAutocompleteContext(
 
   const [skuOrder, productOptions] = await Promise.all([
     fetchSkuCodeOrder(),
-    loadProductOptions(base.productLineId, base.productId),
+    fetchProductOptions(base.productLineId, base.productId),
   ]);
 
   const segmentOrder = skuOrder
@@ -190,5 +166,5 @@ export function getSegmentSuggestionsForContext(
 }
 
 export function resetProductOptionsCache(): void {
-  productOptionsCache.clear();
+  queryClient.removeQueries({ queryKey: queryKeys.productOptions() });
 }
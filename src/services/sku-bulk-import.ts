@@ -0,0 +1,355 @@
+/**
+ * Bulk SKU Import
+ *
+ * Turns a pasted list or CSV export of SKUs into quote lines. Each row goes through
+ * the same parser as the SKU search box (parseSkuToConfiguration); rows whose product
+ * or segments are ambiguous stay in the import until the user picks a product and an
+ * option for each ambiguous segment.
+ *
+ * Row helpers are pure and return updated copies so the import dialog can keep the
+ * rows in React state.
+ */
+
+import { computeConfidence } from "./sku-parser";
+import { findConfigFieldForTable } from "./sku-grammar";
+import { splitCsvLine, splitCsvRecords } from "@/utils/csv";
+import type {
+  DecoProduct,
+  ProductConfig,
+  ProductLine,
+  ProductOptions,
+  QuoteLineDraft,
+  SkuParseResponse,
+  SkuSearchConfidence,
+  SkuSearchResult,
+  SkuSegmentMatch,
+} from "@/store/types";
+
+export const MAX_IMPORT_QUANTITY = 100;
+
+export interface BulkSkuEntry {
+  // 1-based line in the pasted text or file
+  line: number;
+  sku: string;
+  quantity: number;
+  error: string | null;
+}
+
+export interface BulkImportRow {
+  id: string;
+  line: number;
+  input: string;
+  quantity: number;
+  status: "pending" | "parsed" | "error";
+  error: string | null;
+  results: SkuSearchResult[];
+  selectedResultId: string | null;
+  // Option ids picked for ambiguous segments, keyed by segment order
+  resolutions: Record<number, string>;
+}
+
+export interface SkippedImportRow {
+  row: BulkImportRow;
+  reason: string;
+}
+
+const SKU_HEADERS = ["sku", "sku code", "part", "part number", "item", "product"];
+const QUANTITY_HEADERS = ["qty", "quantity", "count", "units"];
+
+function detectDelimiter(lines: string[]): string | null {
+  for (const delimiter of ["\t", ",", ";"]) {
+    if (lines.some((line) => line.includes(delimiter))) return delimiter;
+  }
+  return null;
+}
+
+function splitRow(line: string, delimiter: string | null): string[] {
+  if (delimiter) return splitCsvLine(line, delimiter);
+  // Plain pasted lists: "SKU" or "SKU 3"
+  return line.trim().split(/\s+/);
+}
+
+function parseQuantity(value: string | undefined): { quantity: number; error: string | null } {
+  if (value === undefined || value.trim() === "") return { quantity: 1, error: null };
+
+  const quantity = Number(value.trim());
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { quantity: 1, error: `Invalid quantity "${value.trim()}".` };
+  }
+  if (quantity > MAX_IMPORT_QUANTITY) {
+    return { quantity: MAX_IMPORT_QUANTITY, error: `Quantity ${quantity} exceeds the maximum of ${MAX_IMPORT_QUANTITY}.` };
+  }
+  return { quantity, error: null };
+}
+
+/**
+ * Read SKU and quantity columns from pasted text or a CSV/TSV file. A header row is
+ * recognised by its column names; without one the first column is the SKU and the
+ * second the quantity.
+ */
+export function parseBulkSkuText(text: string): BulkSkuEntry[] {
+  const lines = splitCsvRecords(text);
+  const delimiter = detectDelimiter(lines);
+
+  let skuColumn = 0;
+  let quantityColumn = 1;
+  let startLine = 0;
+
+  const firstLine = lines.findIndex((line) => line.trim() !== "");
+  if (firstLine >= 0) {
+    const header = splitRow(lines[firstLine], delimiter).map((cell) => cell.toLowerCase());
+    const headerSku = header.findIndex((cell) => SKU_HEADERS.includes(cell));
+    if (headerSku >= 0) {
+      skuColumn = headerSku;
+      quantityColumn = header.findIndex((cell) => QUANTITY_HEADERS.includes(cell));
+      startLine = firstLine + 1;
+    }
+  }
+
+  const entries: BulkSkuEntry[] = [];
+  for (let index = startLine; index < lines.length; index++) {
+    if (lines[index].trim() === "") continue;
+
+    const cells = splitRow(lines[index], delimiter);
+    const sku = (cells[skuColumn] ?? "").trim();
+    if (!sku) continue;
+
+    const { quantity, error } = parseQuantity(quantityColumn >= 0 ? cells[quantityColumn] : undefined);
+    entries.push({ line: index + 1, sku, quantity, error });
+  }
+  return entries;
+}
+
+export function createBulkImportRows(entries: BulkSkuEntry[]): BulkImportRow[] {
+  return entries.map((entry) => ({
+    id: `import-${entry.line}`,
+    line: entry.line,
+    input: entry.sku,
+    quantity: entry.quantity,
+    status: entry.error ? "error" : "pending",
+    error: entry.error,
+    results: [],
+    selectedResultId: null,
+    resolutions: {},
+  }));
+}
+
+/**
+ * Attach a parser response to a row, preselecting its product when only one
+ * candidate (or only one exact candidate) matched
+ */
+export function applyParseResponse(row: BulkImportRow, response: SkuParseResponse): BulkImportRow {
+  const exactResults = response.results.filter((result) => result.confidence === "exact");
+  const selected =
+    response.results.length === 1 ? response.results[0] : exactResults.length === 1 ? exactResults[0] : null;
+
+  return {
+    ...row,
+    status: response.results.length > 0 ? "parsed" : "error",
+    error: response.results.length > 0 ? null : response.errors[0] ?? "No SKU matches found.",
+    results: response.results,
+    selectedResultId: selected?.id ?? null,
+    resolutions: {},
+  };
+}
+
+/**
+ * Parse every pending row, reusing responses for repeated SKUs. onRow is called as
+ * each row completes so the dialog can show progress.
+ */
+export async function parseBulkImportRows(
+  rows: BulkImportRow[],
+  onRow?: (row: BulkImportRow) => void,
+): Promise<BulkImportRow[]> {
+  const { parseSkuToConfiguration } = await import("./sku-parser");
+  const responses = new Map<string, Promise<SkuParseResponse>>();
+
+  const parsed: BulkImportRow[] = [];
+  for (const row of rows) {
+    if (row.status !== "pending") {
+      parsed.push(row);
+      continue;
+    }
+
+    const key = row.input.toUpperCase();
+    if (!responses.has(key)) responses.set(key, parseSkuToConfiguration(row.input));
+
+    let next: BulkImportRow;
+    try {
+      next = applyParseResponse(row, await responses.get(key)!);
+    } catch (error) {
+      next = {
+        ...row,
+        status: "error",
+        error: error instanceof Error ? error.message : "Failed to parse SKU.",
+      };
+    }
+    parsed.push(next);
+    onRow?.(next);
+  }
+  return parsed;
+}
+
+export function getSelectedResult(row: BulkImportRow): SkuSearchResult | null {
+  return row.results.find((result) => result.id === row.selectedResultId) ?? null;
+}
+
+/**
+ * The selected result's segments with the user's picks for ambiguous segments applied
+ */
+export function getResolvedSegments(row: BulkImportRow): SkuSegmentMatch[] {
+  const result = getSelectedResult(row);
+  if (!result) return [];
+
+  return result.segments.map((segment) => {
+    const optionId = row.resolutions[segment.order];
+    const option = optionId ? segment.options.find((candidate) => candidate.id === optionId) : undefined;
+    return option
+      ? { ...segment, status: "exact", options: [option], message: undefined }
+      : segment;
+  });
+}
+
+export function getRowConfidence(row: BulkImportRow): SkuSearchConfidence {
+  if (row.status !== "parsed") return "invalid";
+  // Several candidate products and none picked yet
+  if (!getSelectedResult(row)) return "ambiguous";
+  return computeConfidence(getResolvedSegments(row));
+}
+
+// Same bar as applying a single search result: partial rows are allowed, the
+// configurator fills unspecified options as usual
+export function isRowImportable(row: BulkImportRow): boolean {
+  const confidence = getRowConfidence(row);
+  return confidence === "exact" || confidence === "partial";
+}
+
+export function selectRowResult(row: BulkImportRow, resultId: string): BulkImportRow {
+  return { ...row, selectedResultId: resultId, resolutions: {} };
+}
+
+export function resolveRowSegment(row: BulkImportRow, order: number, optionId: string): BulkImportRow {
+  return { ...row, resolutions: { ...row.resolutions, [order]: optionId } };
+}
+
+function emptyConfig(productLine: ProductLine, quantity: number): ProductConfig {
+  return {
+    id: "",
+    productLineId: productLine.id,
+    productLineName: productLine.name,
+    mirrorControls: "",
+    frameColor: "",
+    frameThickness: "",
+    mirrorStyle: "",
+    width: "",
+    height: "",
+    mounting: "",
+    hangingTechnique: "",
+    lighting: "",
+    colorTemperature: "",
+    lightOutput: "",
+    driver: "",
+    accessories: "",
+    quantity,
+  };
+}
+
+function buildRowConfig(
+  row: BulkImportRow,
+  result: SkuSearchResult,
+  productLine: ProductLine,
+  productOptions: ProductOptions,
+): ProductConfig {
+  const config = emptyConfig(productLine, row.quantity);
+
+  Object.entries(result.configuration).forEach(([field, value]) => {
+    if (value !== undefined && value !== null && field !== "quantity") {
+      (config as unknown as Record<string, unknown>)[field] = value;
+    }
+  });
+
+  for (const segment of result.segments) {
+    const optionId = row.resolutions[segment.order];
+    if (!optionId) continue;
+
+    if (segment.tableName === "sizes") {
+      const size = productOptions.sizes.find((option) => String(option.id) === optionId);
+      if (size?.width != null) config.width = String(size.width);
+      if (size?.height != null) config.height = String(size.height);
+      continue;
+    }
+
+    const field = findConfigFieldForTable(segment.tableName);
+    if (field) (config as unknown as Record<string, unknown>)[field] = optionId;
+  }
+
+  return config;
+}
+
+/**
+ * Build quote lines for every importable row, with the canonical SKU generated from
+ * the resolved configuration. Rows that cannot be built are returned with a reason.
+ */
+export async function buildQuoteLineDrafts(
+  rows: BulkImportRow[],
+  productLines: ProductLine[],
+): Promise<{ drafts: QuoteLineDraft[]; skipped: SkippedImportRow[] }> {
+  const [{ fetchProductOptions }, { getProductById }, { generateSku }] = await Promise.all([
+    import("./product-options"),
+    import("./supabase"),
+    import("./sku-generator"),
+  ]);
+
+  const optionsCache = new Map<string, Promise<ProductOptions>>();
+  const productCache = new Map<number, Promise<DecoProduct | null>>();
+
+  const drafts: QuoteLineDraft[] = [];
+  const skipped: SkippedImportRow[] = [];
+
+  for (const row of rows) {
+    const result = getSelectedResult(row);
+    if (!result || !isRowImportable(row)) {
+      skipped.push({ row, reason: row.error ?? "SKU is not fully resolved." });
+      continue;
+    }
+
+    const productLine = productLines.find((line) => line.id === result.productLineId);
+    if (!productLine) {
+      skipped.push({ row, reason: "SKU refers to a product line that is not available in this session." });
+      continue;
+    }
+
+    try {
+      const optionsKey = `${productLine.id}:${result.productId ?? "*"}`;
+      if (!optionsCache.has(optionsKey)) {
+        optionsCache.set(optionsKey, fetchProductOptions(productLine.id, result.productId));
+      }
+      if (result.productId !== undefined && !productCache.has(result.productId)) {
+        productCache.set(
+          result.productId,
+          getProductById(result.productId).then((product) => (product as DecoProduct) ?? null),
+        );
+      }
+
+      const productOptions = await optionsCache.get(optionsKey)!;
+      const product = result.productId !== undefined ? await productCache.get(result.productId)! : null;
+      const config = buildRowConfig(row, result, productLine, productOptions);
+
+      let sku = row.input;
+      if (product) {
+        try {
+          sku = (await generateSku(product, config, productOptions)) || row.input;
+        } catch (error) {
+          console.error(`SKU generation failed for import line ${row.line}:`, error);
+        }
+      }
+
+      drafts.push({ config, sku, productLine, product, productOptions });
+    } catch (error) {
+      console.error(`Failed to import SKU on line ${row.line}:`, error);
+      skipped.push({ row, reason: error instanceof Error ? error.message : "Failed to load product data." });
+    }
+  }
+
+  return { drafts, skipped };
+}
@@ -0,0 +1,229 @@
+/**
+ * SKU Coverage Report
+ *
+ * Compares the configurations the enumerator considers valid against sku_index:
+ * - valid_missing: a valid configuration whose generated SKU has no sku_index row
+ * - present_invalid: a sku_index row whose configuration is not valid (option not
+ *   offered, excluded by a rule, no matching product) or whose sku_code differs from
+ *   the SKU generateSku would produce for it
+ *
+ * Used by scripts/sku-coverage.ts.
+ */
+
+import {
+  buildProductSpace,
+  createConfigurationValidator,
+  enumerateConfigurations,
+  type EnumeratedField,
+  type EnumerationInput,
+  type EnumerationOptions,
+  type ProductSpace,
+} from './configuration-enumerator';
+import { formatSku } from './sku-grammar';
+import type { Tables } from '../types/database';
+import type { ProductConfig } from '../store/types';
+
+export type SkuIndexEntry = Omit<Tables<'sku_index'>, 'id' | 'created_at'>;
+
+export interface SkuCoverageIssue {
+  kind: 'valid_missing' | 'present_invalid';
+  sku: string;
+  productId: number;
+  reason: string;
+  selections: Partial<Record<EnumeratedField, string>>;
+}
+
+export interface SkuCoverageReport {
+  generatedAt: string;
+  productLine: { id: number; name: string };
+  summary: {
+    products: number;
+    nodesVisited: number;
+    branchesPruned: number;
+    validConfigurations: number;
+    indexEntries: number;
+    validMissing: number;
+    presentInvalid: number;
+    truncated: boolean;
+  };
+  validMissing: SkuCoverageIssue[];
+  presentInvalid: SkuCoverageIssue[];
+}
+
+export interface SkuCoverageOptions extends EnumerationOptions {
+  // Issues listed per kind; the summary always has the full counts
+  maxExamples?: number;
+}
+
+const DEFAULT_MAX_EXAMPLES = 50;
+
+const INDEX_COLUMNS: Record<EnumeratedField, keyof SkuIndexEntry> = {
+  mirrorStyle: 'mirror_style_id',
+  frameThickness: 'frame_thickness_id',
+  lighting: 'light_direction_id',
+  frameColor: 'frame_color_id',
+  mounting: 'mounting_option_id',
+  hangingTechnique: 'hanging_technique_id',
+  colorTemperature: 'color_temperature_id',
+  lightOutput: 'light_output_id',
+  driver: 'driver_id',
+  size: 'size_id',
+  accessories: 'accessory_id',
+};
+
+function selectionsFromConfig(config: ProductConfig, space: ProductSpace): Partial<Record<EnumeratedField, string>> {
+  const selections: Partial<Record<EnumeratedField, string>> = {};
+  for (const field of space.domains.keys()) {
+    if (field === 'size') {
+      const size = space.productOptions.sizes.find(
+        (option) => option.width?.toString() === config.width && option.height?.toString() === config.height,
+      );
+      if (size) selections.size = String(size.id);
+    } else if (config[field]) {
+      selections[field] = String(config[field]);
+    }
+  }
+  return selections;
+}
+
+function selectionsFromEntry(entry: SkuIndexEntry, space: ProductSpace): Partial<Record<EnumeratedField, string>> {
+  const selections: Partial<Record<EnumeratedField, string>> = {};
+  for (const [field, column] of Object.entries(INDEX_COLUMNS) as Array<[EnumeratedField, keyof SkuIndexEntry]>) {
+    const value = entry[column];
+    const domain = space.domains.get(field);
+    if (value != null) {
+      selections[field] = String(value);
+    } else if (domain?.length === 1) {
+      // A single offered option (e.g. the product's own mirror style) is implied
+      selections[field] = domain[0];
+    }
+  }
+  return selections;
+}
+
+function configFromSelections(
+  input: EnumerationInput,
+  space: ProductSpace,
+  selections: Partial<Record<EnumeratedField, string>>,
+): ProductConfig {
+  const size = space.productOptions.sizes.find((option) => String(option.id) === selections.size);
+  return {
+    id: 'sku-index',
+    productLineId: input.productLine.id,
+    productLineName: input.productLine.name,
+    mirrorControls: '',
+    frameColor: selections.frameColor ?? '',
+    frameThickness: selections.frameThickness ?? '',
+    mirrorStyle: selections.mirrorStyle ?? '',
+    width: size?.width?.toString() ?? '',
+    height: size?.height?.toString() ?? '',
+    mounting: selections.mounting ?? '',
+    hangingTechnique: selections.hangingTechnique ?? '',
+    lighting: selections.lighting ?? '',
+    colorTemperature: selections.colorTemperature ?? '',
+    lightOutput: selections.lightOutput ?? '',
+    driver: selections.driver ?? '',
+    accessories: selections.accessories ?? '',
+    quantity: 1,
+  };
+}
+
+/**
+ * Enumerate a product line and diff the valid configurations against its sku_index rows
+ */
+export async function buildSkuCoverageReport(
+  input: EnumerationInput,
+  skuIndex: SkuIndexEntry[],
+  options: SkuCoverageOptions = {},
+): Promise<SkuCoverageReport> {
+  const maxExamples = options.maxExamples ?? DEFAULT_MAX_EXAMPLES;
+  const entries = skuIndex.filter((entry) => entry.product_line_id === input.productLine.id);
+  const indexedSkus = new Set(entries.map((entry) => entry.sku_code));
+
+  const spaces = new Map<number, ProductSpace>();
+  const spaceFor = async (product: any) => {
+    let space = spaces.get(product.id);
+    if (!space) {
+      space = buildProductSpace(product, await input.getProductOptions(product.id));
+      spaces.set(product.id, space);
+    }
+    return space;
+  };
+
+  const validMissing: SkuCoverageIssue[] = [];
+  let validMissingCount = 0;
+  const missing: Array<{ productId: number; sku: string; config: ProductConfig }> = [];
+
+  const stats = await enumerateConfigurations(
+    input,
+    (configuration) => {
+      if (indexedSkus.has(configuration.sku)) return;
+      validMissingCount++;
+      if (missing.length < maxExamples) missing.push(configuration);
+    },
+    options,
+  );
+
+  const productsById = new Map(
+    input.products
+      .filter((product) => product.product_line === input.productLine.id && product.active === true)
+      .map((product) => [product.id, product]),
+  );
+
+  for (const configuration of missing) {
+    const space = await spaceFor(productsById.get(configuration.productId));
+    validMissing.push({
+      kind: 'valid_missing',
+      sku: configuration.sku,
+      productId: configuration.productId,
+      reason: 'valid configuration has no sku_index row',
+      selections: selectionsFromConfig(configuration.config, space),
+    });
+  }
+
+  const validator = createConfigurationValidator(input);
+  const presentInvalid: SkuCoverageIssue[] = [];
+  let presentInvalidCount = 0;
+
+  for (const entry of entries) {
+    const product = productsById.get(entry.product_id);
+    let reason: string | null;
+    let selections: Partial<Record<EnumeratedField, string>> = {};
+
+    if (!product) {
+      reason = `product ${entry.product_id} is not an active product of this line`;
+    } else {
+      const space = await spaceFor(product);
+      selections = selectionsFromEntry(entry, space);
+      reason = validator.checkConfiguration(space, selections);
+      if (!reason) {
+        const expected = formatSku(
+          input.grammar,
+          product.sku_code || '',
+          configFromSelections(input, space, selections),
+          space.productOptions,
+        );
+        if (expected !== entry.sku_code) reason = `sku_code differs from generated SKU ${expected}`;
+      }
+    }
+
+    if (!reason) continue;
+    presentInvalidCount++;
+    if (presentInvalid.length < maxExamples) {
+      presentInvalid.push({ kind: 'present_invalid', sku: entry.sku_code, productId: entry.product_id, reason, selections });
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    productLine: input.productLine,
+    summary: {
+      ...stats,
+      indexEntries: entries.length,
+      validMissing: validMissingCount,
+      presentInvalid: presentInvalidCount,
+    },
+    validMissing,
+    presentInvalid,
+  };
+}
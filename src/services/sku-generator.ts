@@ -1,4 +1,13 @@
 import { supabase } from "./supabase";
+import { getDataProvider } from "./data-provider";
+import { fetchCached, queryClient, queryKeys } from "./data-layer";
+import {
+  DEFAULT_SKU_SEPARATOR,
+  buildSkuGrammar,
+  formatSku,
+  type SkuGenerationRule,
+  type SkuGrammar,
+} from "./sku-grammar";
 import type { ProductConfig, ProductOptions, DecoProduct } from "@/store/types";
 
 export interface SkuCodeOrderItem {
@@ -7,51 +16,24 @@ export interface SkuCodeOrderItem {
   sku_code_item: string;
 }
 
-// Mapping from ProductConfig fields to database table names
-export const CONFIG_FIELD_TO_TABLE: Record<string, string> = {
-  frameColor: "frame_colors",
-  frameThickness: "frame_thicknesses",
-  mirrorStyle: "mirror_styles",
-  mounting: "mounting_options",
-  hangingTechnique: "hanging_techniques",
-  lighting: "light_directions",
-  colorTemperature: "color_temperatures",
-  lightOutput: "light_outputs",
-  driver: "drivers",
-  accessories: "accessories",
-};
-
-// Mapping from database table names to ProductOptions fields
-export const TABLE_TO_OPTIONS_FIELD: Record<string, keyof ProductOptions> = {
-  frame_colors: "frameColors",
-  frame_thicknesses: "frameThickness",
-  mirror_styles: "mirrorStyles",
-  mounting_options: "mountingOptions",
-  hanging_techniques: "hangingTechniques",
-  light_directions: "lightingOptions",
-  color_temperatures: "colorTemperatures",
-  light_outputs: "lightOutputs",
-  drivers: "drivers",
-  accessories: "accessoryOptions",
-  sizes: "sizes",
-};
-
-// Cache for sku_code_order data
-let skuOrderCache: SkuCodeOrderItem[] | null = null;
-let skuOrderCacheTimestamp: number = 0;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// Table mappings live with the SKU grammar; re-exported for existing callers
+export {
+  CONFIG_FIELD_TO_TABLE,
+  TABLE_TO_OPTIONS_FIELD,
+  findConfigFieldForTable,
+} from "./sku-grammar";
 
 /**
  * Fetch the SKU code order from the database
  */
 export async function fetchSkuCodeOrder(): Promise<SkuCodeOrderItem[]> {
-  const now = Date.now();
+  const provider = getDataProvider();
+  if (provider) return provider.fetchSkuCodeOrder();
 
-  // Return cached data if still valid
-  if (skuOrderCache && now - skuOrderCacheTimestamp < CACHE_DURATION) {
-    return skuOrderCache;
-  }
+  return fetchCached({ queryKey: queryKeys.skuCodeOrder(), queryFn: loadSkuCodeOrder });
+}
 
+async function loadSkuCodeOrder(): Promise<SkuCodeOrderItem[]> {
   const { data, error } = await supabase
     .from("sku_code_order")
     .select("id, order, sku_code_item")
@@ -62,93 +44,48 @@ export async function fetchSkuCodeOrder(): Promise<SkuCodeOrderItem[]> {
     throw new Error(`Failed to fetch SKU code order: ${error.message}`);
   }
 
-  const items: SkuCodeOrderItem[] = (data ?? []).map((row) => ({
+  return (data ?? []).map((row) => ({
     id: row.id,
     order: row.order ?? 0,
     sku_code_item: row.sku_code_item ?? "",
   }));
-
-  // Update cache
-  skuOrderCache = items;
-  skuOrderCacheTimestamp = now;
-
-  return items;
 }
 
 /**
- * Find the matching ProductConfig field for a given database table name
+ * Fetch the active SKU generation rules (separators and segment templates)
  */
-export function findConfigFieldForTable(
-  tableName: string,
-): keyof ProductConfig | null {
-  // Reverse lookup: find the config field that maps to this table
-  for (const [configField, table] of Object.entries(CONFIG_FIELD_TO_TABLE)) {
-    if (table === tableName) {
-      return configField as keyof ProductConfig;
-    }
-  }
+export async function fetchSkuGenerationRules(): Promise<SkuGenerationRule[]> {
+  const provider = getDataProvider();
+  if (provider) return provider.fetchSkuGenerationRules();
 
-  // Special case for sizes - handled differently since it's computed from width/height
-  if (tableName === "sizes") {
-    return "width"; // Marker to handle size specially
-  }
-
-  return null;
+  return fetchCached({ queryKey: queryKeys.skuGenerationRules(), queryFn: loadSkuGenerationRules });
 }
 
-/**
- * Get the SKU code for a selected option
- */
-function getOptionSkuCode(
-  tableName: string,
-  selectedId: string,
-  productOptions: ProductOptions,
-  config: ProductConfig,
-): string | null {
-  // Special handling for sizes
-  if (tableName === "sizes") {
-    // Find size option that matches current width and height
-    const matchingSize = productOptions.sizes.find((size) => {
-      return (
-        size.width?.toString() === config.width &&
-        size.height?.toString() === config.height
-      );
-    });
-
-    // If preset size found, use its SKU code
-    if (matchingSize?.sku_code) {
-      return matchingSize.sku_code;
-    }
+async function loadSkuGenerationRules(): Promise<SkuGenerationRule[]> {
+  // sku_generation_rules is not in the generated client types yet
+  const { data, error } = await (supabase as any)
+    .from("sku_generation_rules")
+    .select("attribute_code, rule_order, separator, sku_segment_template, is_active")
+    .eq("is_active", true)
+    .order("rule_order", { ascending: true });
 
-    // Generate custom size SKU code if not found in presets
-    // Format: width and height concatenated (e.g., 24.25 x 44 → "24.2544")
-    if (config.width && config.height) {
-      const width = config.width.toString();
-      const height = config.height.toString();
-      return `${width}${height}`;
-    }
-
-    return null;
-  }
-
-  // Get the appropriate options array
-  const optionsField = TABLE_TO_OPTIONS_FIELD[tableName];
-  if (!optionsField) {
-    console.warn(`No options field mapping for table: ${tableName}`);
-    return null;
+  if (error) {
+    console.error("Failed to fetch sku_generation_rules:", error);
+    throw new Error(`Failed to fetch SKU generation rules: ${error.message}`);
   }
 
-  const options = productOptions[optionsField];
-  if (!options || !Array.isArray(options)) {
-    console.warn(
-      `Options not found or not an array for field: ${optionsField}`,
-    );
-    return null;
-  }
+  return (data ?? []) as SkuGenerationRule[];
+}
 
-  // Find the option with matching ID
-  const option = options.find((opt) => opt.id.toString() === selectedId);
-  return option?.sku_code ?? null;
+/**
+ * Load the SKU grammar shared by generation and parsing
+ */
+export async function loadSkuGrammar(): Promise<SkuGrammar> {
+  const [skuOrder, generationRules] = await Promise.all([
+    fetchSkuCodeOrder(),
+    fetchSkuGenerationRules(),
+  ]);
+  return buildSkuGrammar(skuOrder, generationRules);
 }
 
 /**
@@ -158,7 +95,9 @@ function getOptionSkuCode(
  * 1. Start with product.sku_code
  * 2. For each sku_code_order entry (ascending), append option sku_code
  * 3. Skip frame_thicknesses (already encoded in product base)
- * 4. Separate segments with "-"
+ * 4. Separate segments with "-" (or the separators from sku_generation_rules)
+ *
+ * The format itself is described by the SKU grammar (see sku-grammar.ts).
  */
 export async function generateSku(
   product: DecoProduct,
@@ -178,72 +117,14 @@ export async function generateSku(
   }
 
   try {
-    // Fetch the SKU code order
-    const skuOrder = await fetchSkuCodeOrder();
+    const grammar = await loadSkuGrammar();
 
     if (import.meta.env.DEV) {
       console.log("🏷️ Starting SKU generation with base:", sku);
-      console.log("📋 SKU order items:", skuOrder);
+      console.log("📋 SKU grammar segments:", grammar.segments);
     }
 
-    // Process each item in order (skip order:0 which is the product itself)
-    for (const orderItem of skuOrder) {
-      if (orderItem.order === 0) {
-        continue; // Skip products entry
-      }
-
-      const tableName = orderItem.sku_code_item;
-      if (!tableName) continue;
-
-      // IMPORTANT: Skip frame_thicknesses as documented in CLAUDE.md
-      if (tableName === "frame_thicknesses") {
-        if (import.meta.env.DEV) {
-          console.log(
-            `⏭️  Skipping ${tableName} (encoded in product base SKU)`,
-          );
-        }
-        continue;
-      }
-
-      // Find corresponding config field
-      const configField = findConfigFieldForTable(tableName);
-      if (!configField) {
-        if (import.meta.env.DEV) {
-          console.warn(`⚠️  No config field mapping for table: ${tableName}`);
-        }
-        continue;
-      }
-
-      // Get the selected ID from config
-      const selectedId = config[configField];
-      if (!selectedId || selectedId === "") {
-        if (import.meta.env.DEV) {
-          console.log(`⏭️  Skipping ${tableName}: no selection`);
-        }
-        continue;
-      }
-
-      // Get the SKU code for this option
-      const optionSkuCode = getOptionSkuCode(
-        tableName,
-        String(selectedId),
-        productOptions,
-        config,
-      );
-
-      if (optionSkuCode) {
-        sku += `-${optionSkuCode}`;
-        if (import.meta.env.DEV) {
-          console.log(`✅ Added ${tableName}: ${optionSkuCode} → ${sku}`);
-        }
-      } else {
-        if (import.meta.env.DEV) {
-          console.warn(
-            `⚠️  No SKU code found for ${tableName} ID: ${selectedId}`,
-          );
-        }
-      }
-    }
+    sku = formatSku(grammar, sku, config, productOptions);
 
     if (import.meta.env.DEV) {
       console.log("🏷️ Final SKU:", sku);
@@ -261,16 +142,19 @@ export async function generateSku(
  * Parse a SKU string into individual segments
  * Useful for displaying SKU with visual separation
  */
-export function parseSkuSegments(sku: string): string[] {
+export function parseSkuSegments(
+  sku: string,
+  separator: string = DEFAULT_SKU_SEPARATOR,
+): string[] {
   if (!sku) return [];
-  return sku.split("-").filter((segment) => segment.length > 0);
+  return sku.split(separator).filter((segment) => segment.length > 0);
 }
 
 /**
- * Clear the SKU code order cache
+ * Clear the cached SKU code order and generation rules
  * Useful for testing or after data updates
  */
 export function clearSkuOrderCache(): void {
-  skuOrderCache = null;
-  skuOrderCacheTimestamp = 0;
+  queryClient.removeQueries({ queryKey: queryKeys.skuCodeOrder() });
+  queryClient.removeQueries({ queryKey: queryKeys.skuGenerationRules() });
 }
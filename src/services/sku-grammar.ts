@@ -0,0 +1,446 @@
+/**
+ * SKU Grammar
+ *
+ * One declarative description of the SKU format, used both to generate SKUs and to
+ * parse them back into a configuration:
+ * - segment order comes from sku_code_order (order 0 is the product base)
+ * - sku_generation_rules rows customize it: a row whose attribute_code names a
+ *   sku_code_order table sets that segment's separator and sku_segment_template;
+ *   a row without an attribute_code sets the default separator
+ *
+ * Templates use {sku_code} (the option's code), {width} and {height} (sizes, in
+ * canonical inches: rounded to the size increment, no trailing zeros).
+ * A segment whose option is not selected (or has no code) is left out entirely,
+ * so parsing backtracks over optional segments instead of splitting on separators.
+ */
+
+import type { SkuCodeOrderItem } from "./sku-generator";
+import type { ProductConfig, ProductOption, ProductOptions } from "@/store/types";
+import { normalizeDimension, sameDimension } from "./units";
+
+export const DEFAULT_SKU_SEPARATOR = "-";
+export const DEFAULT_SEGMENT_TEMPLATE = "{sku_code}";
+
+// Frame thickness is encoded in the product base SKU (see CLAUDE.md)
+const ENCODED_IN_BASE = new Set(["frame_thicknesses"]);
+
+// Joins several accessories inside the accessories segment
+const ACCESSORY_JOINER = "+";
+
+export const CONFIG_FIELD_TO_TABLE: Record<string, string> = {
+  frameColor: "frame_colors",
+  frameThickness: "frame_thicknesses",
+  mirrorStyle: "mirror_styles",
+  mounting: "mounting_options",
+  hangingTechnique: "hanging_techniques",
+  lighting: "light_directions",
+  colorTemperature: "color_temperatures",
+  lightOutput: "light_outputs",
+  driver: "drivers",
+  accessories: "accessories",
+};
+
+export const TABLE_TO_OPTIONS_FIELD: Record<string, keyof ProductOptions> = {
+  frame_colors: "frameColors",
+  frame_thicknesses: "frameThickness",
+  mirror_styles: "mirrorStyles",
+  mounting_options: "mountingOptions",
+  hanging_techniques: "hangingTechniques",
+  light_directions: "lightingOptions",
+  color_temperatures: "colorTemperatures",
+  light_outputs: "lightOutputs",
+  drivers: "drivers",
+  accessories: "accessoryOptions",
+  sizes: "sizes",
+};
+
+/**
+ * Find the matching ProductConfig field for a given database table name
+ */
+export function findConfigFieldForTable(
+  tableName: string,
+): keyof ProductConfig | null {
+  for (const [configField, table] of Object.entries(CONFIG_FIELD_TO_TABLE)) {
+    if (table === tableName) {
+      return configField as keyof ProductConfig;
+    }
+  }
+
+  if (tableName === "sizes") {
+    return "width"; // Marker to handle size specially
+  }
+
+  return null;
+}
+
+// Option lists a SKU is rendered from; callers may hold only some collections
+export type SkuOptionLists = Partial<ProductOptions>;
+
+// Selections a SKU is rendered from; accessories may hold several ids
+export type SkuConfig = Partial<Omit<ProductConfig, "accessories">> & {
+  accessories?: string | string[];
+};
+
+export interface SkuGenerationRule {
+  attribute_code: string | null;
+  rule_order: number;
+  separator: string | null;
+  sku_segment_template: string | null;
+  is_active: boolean | null;
+}
+
+export interface SkuGrammarSegment {
+  // sku_code_order.order
+  order: number;
+  table: string;
+  // Placed before the segment; "" glues it to the previous one
+  separator: string;
+  template: string;
+  // Not written to the SKU; the product base already carries it
+  encodedInBase: boolean;
+}
+
+export interface SkuGrammar {
+  separator: string;
+  segments: SkuGrammarSegment[];
+}
+
+/**
+ * Build the grammar from sku_code_order and (optionally) sku_generation_rules
+ */
+export function buildSkuGrammar(
+  skuOrder: SkuCodeOrderItem[],
+  generationRules: SkuGenerationRule[] = [],
+): SkuGrammar {
+  const rules = generationRules
+    .filter((rule) => rule.is_active !== false)
+    .sort((a, b) => a.rule_order - b.rule_order);
+
+  const defaultRule = rules.find((rule) => !rule.attribute_code);
+  const separator = defaultRule?.separator ?? DEFAULT_SKU_SEPARATOR;
+
+  const segments = [...skuOrder]
+    .sort((a, b) => a.order - b.order)
+    .filter((item) => item.order !== 0 && item.sku_code_item)
+    .map((item) => {
+      const rule = rules.find(
+        (candidate) => candidate.attribute_code === item.sku_code_item,
+      );
+      return {
+        order: item.order,
+        table: item.sku_code_item,
+        separator: rule?.separator ?? separator,
+        template: rule?.sku_segment_template || DEFAULT_SEGMENT_TEMPLATE,
+        encodedInBase: ENCODED_IN_BASE.has(item.sku_code_item),
+      };
+    });
+
+  return { separator, segments };
+}
+
+function renderTemplate(
+  template: string,
+  values: { sku_code?: string | null; width?: unknown; height?: unknown },
+): string | null {
+  let missing = false;
+  const rendered = template.replace(/\{(sku_code|width|height)\}/g, (_, key: string) => {
+    const value = values[key as keyof typeof values];
+    if (value === undefined || value === null || value === "") {
+      missing = true;
+      return "";
+    }
+    return String(value);
+  });
+  return missing || !rendered ? null : rendered;
+}
+
+function optionsFor(
+  productOptions: SkuOptionLists,
+  table: string,
+): ProductOption[] {
+  const field = TABLE_TO_OPTIONS_FIELD[table];
+  return field ? ((productOptions[field] as ProductOption[]) ?? []) : [];
+}
+
+function findSizePreset(
+  productOptions: SkuOptionLists,
+  config: SkuConfig,
+): ProductOption | undefined {
+  return optionsFor(productOptions, "sizes").find(
+    (size) =>
+      sameDimension(size.width, config.width) &&
+      sameDimension(size.height, config.height),
+  );
+}
+
+// Values that cannot be read as a length are kept as they are
+function canonicalDimension(value: string | undefined): string | undefined {
+  return value ? (normalizeDimension(value) ?? value) : value;
+}
+
+export interface SkuSegmentValue {
+  table: string;
+  separator: string;
+  code: string;
+}
+
+export interface FormatSkuOptions {
+  // Code used for a table regardless of the selection (rule SKU overrides)
+  codeOverrides?: Partial<Record<string, string>>;
+  // Code used for a table when nothing is selected
+  fallbackCodes?: Partial<Record<string, string>>;
+}
+
+/**
+ * Render the SKU segments (after the base) a configuration produces
+ */
+export function renderSkuSegments(
+  grammar: SkuGrammar,
+  config: SkuConfig,
+  productOptions: SkuOptionLists,
+  options: FormatSkuOptions = {},
+): SkuSegmentValue[] {
+  const values: SkuSegmentValue[] = [];
+
+  for (const segment of grammar.segments) {
+    if (segment.encodedInBase) continue;
+
+    const { table } = segment;
+    let code: string | null = options.codeOverrides?.[table] || null;
+
+    if (!code && table === "sizes") {
+      const preset = findSizePreset(productOptions, config);
+      const width = canonicalDimension(config.width);
+      const height = canonicalDimension(config.height);
+      code = renderTemplate(segment.template, {
+        sku_code: preset?.sku_code,
+        width,
+        height,
+      });
+      // Custom sizes: width and height concatenated (e.g., 24 1/4 x 44.0 → "24.2544")
+      if (!code && !preset && width && height) {
+        code = `${width}${height}`;
+      }
+    } else if (!code) {
+      const field = findConfigFieldForTable(table);
+      const selected = field ? (config as Record<string, unknown>)[field] : undefined;
+      const ids = (Array.isArray(selected) ? selected : [selected])
+        .filter((id) => id !== undefined && id !== null && id !== "")
+        .map(String);
+      const codes = ids
+        .map((id) =>
+          optionsFor(productOptions, table).find(
+            (option) => option.id.toString() === id,
+          ),
+        )
+        .map((option) =>
+          option ? renderTemplate(segment.template, { sku_code: option.sku_code }) : null,
+        )
+        .filter((rendered): rendered is string => Boolean(rendered));
+      code = codes.length > 0 ? codes.join(ACCESSORY_JOINER) : null;
+    }
+
+    code = code || options.fallbackCodes?.[table] || null;
+    if (code) {
+      values.push({ table, separator: segment.separator, code });
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Generate a SKU: the product base followed by the rendered segments
+ */
+export function formatSku(
+  grammar: SkuGrammar,
+  baseSku: string,
+  config: SkuConfig,
+  productOptions: SkuOptionLists,
+  options: FormatSkuOptions = {},
+): string {
+  return renderSkuSegments(grammar, config, productOptions, options).reduce(
+    (sku, segment) =>
+      sku ? `${sku}${segment.separator}${segment.code}` : segment.code,
+    baseSku,
+  );
+}
+
+export interface SkuParseSegment {
+  table: string;
+  code: string;
+  optionId: string | null;
+}
+
+export interface ParsedSku {
+  // Selections read from the segments (base-encoded facets come from the product)
+  config: Partial<ProductConfig>;
+  segments: SkuParseSegment[];
+  // More than one reading of the SKU exists; config holds the first one
+  ambiguous: boolean;
+}
+
+interface SegmentCandidate {
+  text: string;
+  segment: SkuParseSegment;
+  apply: Partial<ProductConfig>;
+}
+
+const NUMBER_PATTERN = "(\\d+(?:\\.\\d+)?)";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function segmentCandidates(
+  segment: SkuGrammarSegment,
+  productOptions: SkuOptionLists,
+): SegmentCandidate[] {
+  const { table } = segment;
+  const field = table === "sizes" ? null : findConfigFieldForTable(table);
+  if (table !== "sizes" && !field) return [];
+
+  const candidates: SegmentCandidate[] = [];
+  for (const option of optionsFor(productOptions, table)) {
+    const text = renderTemplate(segment.template, {
+      sku_code: option.sku_code,
+      width: option.width,
+      height: option.height,
+    });
+    if (!text) continue;
+
+    candidates.push({
+      text,
+      segment: { table, code: text, optionId: String(option.id) },
+      apply: field
+        ? { [field]: String(option.id) }
+        : {
+            width: option.width?.toString() ?? "",
+            height: option.height?.toString() ?? "",
+          },
+    });
+  }
+  return candidates;
+}
+
+// Custom sizes are only readable when the template spells out width and height
+function customSizeMatch(
+  segment: SkuGrammarSegment,
+  separator: string,
+  sku: string,
+  position: number,
+): SegmentCandidate[] {
+  if (segment.table !== "sizes" || segment.template.includes("{sku_code}")) {
+    return [];
+  }
+  const pattern = new RegExp(
+    "^" +
+      escapeRegExp(separator) +
+      escapeRegExp(segment.template)
+        .replace("\\{width\\}", NUMBER_PATTERN)
+        .replace("\\{height\\}", NUMBER_PATTERN),
+  );
+  const match = pattern.exec(sku.slice(position));
+  if (!match) return [];
+  const text = match[0].slice(separator.length);
+  return [
+    {
+      text,
+      segment: { table: "sizes", code: text, optionId: null },
+      apply: { width: match[1], height: match[2] },
+    },
+  ];
+}
+
+/**
+ * Parse a SKU generated from the grammar for a known product base.
+ * Returns null when the SKU does not start with the base or no reading consumes it all.
+ */
+export function parseSku(
+  grammar: SkuGrammar,
+  sku: string,
+  baseSku: string,
+  productOptions: SkuOptionLists,
+): ParsedSku | null {
+  if (!sku.startsWith(baseSku)) return null;
+
+  const segments = grammar.segments.filter((segment) => !segment.encodedInBase);
+  const candidates = segments.map((segment) => segmentCandidates(segment, productOptions));
+
+  // solutions(position, index): readings of sku[position..] from segment index on, capped at 2
+  const memo = new Map<string, { count: number; path: SegmentCandidate[] }>();
+  const solve = (position: number, index: number): { count: number; path: SegmentCandidate[] } => {
+    if (index === segments.length) {
+      return position === sku.length ? { count: 1, path: [] } : { count: 0, path: [] };
+    }
+    const key = `${position}:${index}`;
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const segment = segments[index];
+    const separator = position === 0 ? "" : segment.separator;
+    let result: { count: number; path: SegmentCandidate[] } = { count: 0, path: [] };
+
+    const presets = candidates[index].filter((candidate) =>
+      sku.startsWith(separator + candidate.text, position),
+    );
+    // A preset size rendered the same way wins over reading it as a custom size
+    const options = [
+      ...presets,
+      ...customSizeMatch(segment, separator, sku, position).filter(
+        (custom) => !presets.some((preset) => preset.text === custom.text),
+      ),
+    ];
+
+    for (const candidate of options) {
+      const rest = solve(position + separator.length + candidate.text.length, index + 1);
+      if (rest.count === 0) continue;
+      if (result.count === 0) result = { count: 0, path: [candidate, ...rest.path] };
+      result.count = Math.min(2, result.count + rest.count);
+      if (result.count >= 2) break;
+    }
+
+    // The segment may be absent (nothing selected)
+    if (result.count < 2) {
+      const skipped = solve(position, index + 1);
+      if (skipped.count > 0) {
+        if (result.count === 0) result = { count: 0, path: skipped.path };
+        result.count = Math.min(2, result.count + skipped.count);
+      }
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  const { count, path } = solve(baseSku.length, 0);
+  if (count === 0) return null;
+
+  return {
+    config: path.reduce<Partial<ProductConfig>>(
+      (config, candidate) => ({ ...config, ...candidate.apply }),
+      {},
+    ),
+    segments: path.map((candidate) => candidate.segment),
+    ambiguous: count > 1,
+  };
+}
+
+/**
+ * Products whose base SKU code starts the given SKU (followed by a separator or the end)
+ */
+export function matchSkuBase<P extends { sku_code?: string | null }>(
+  grammar: SkuGrammar,
+  sku: string,
+  products: P[],
+): P[] {
+  const separators = new Set(grammar.segments.map((segment) => segment.separator));
+  return products.filter((product) => {
+    const base = product.sku_code;
+    if (!base || !sku.startsWith(base)) return false;
+    if (sku.length === base.length) return true;
+    return Array.from(separators).some((separator) =>
+      separator ? sku.startsWith(separator, base.length) : true,
+    );
+  });
+}
@@ -1,10 +1,14 @@
 import { supabase } from "./supabase";
 import {
-  fetchSkuCodeOrder,
+  loadSkuGrammar,
   findConfigFieldForTable,
   TABLE_TO_OPTIONS_FIELD,
-  type SkuCodeOrderItem,
 } from "./sku-generator";
+import {
+  DEFAULT_SKU_SEPARATOR,
+  parseSku,
+  type SkuGrammarSegment,
+} from "./sku-grammar";
 import { fetchProductOptions } from "./product-options";
 import type {
   ProductConfig,
@@ -35,15 +39,6 @@ interface InternalSegmentOption extends SkuSegmentOption {
   raw: ProductOption;
 }
 
-const productOptionsCache = new Map<string, ProductOptions>();
-
-function makeProductOptionsCacheKey(
-  productLineId: number,
-  productId?: number | null,
-): string {
-  return `${productLineId}:${productId ?? "*"}`;
-}
-
 async function getProductOptionsForProduct(
   productLineId: number | null,
   productId?: number | null,
@@ -52,17 +47,7 @@ async function getProductOptionsForProduct(
     return null;
   }
 
-  const cacheKey = makeProductOptionsCacheKey(productLineId, productId ?? null);
-  if (productOptionsCache.has(cacheKey)) {
-    return productOptionsCache.get(cacheKey)!;
-  }
-
-  const options = await fetchProductOptions(
-    productLineId,
-    productId ?? undefined,
-  );
-  productOptionsCache.set(cacheKey, options);
-  return options;
+  return fetchProductOptions(productLineId, productId ?? undefined);
 }
 
 function mapOptionsToInternal(
@@ -106,12 +91,15 @@ function normalizeSegment(segment: string | null | undefined): string | null {
   return trimmed.length > 0 ? trimmed : null;
 }
 
-export function splitSkuInput(input: string): string[] {
+export function splitSkuInput(
+  input: string,
+  separator: string = DEFAULT_SKU_SEPARATOR,
+): string[] {
   if (!input) {
     return [];
   }
 
-  return input.split("-").map((segment) => segment.trim());
+  return input.split(separator).map((segment) => segment.trim());
 }
 
 export function computeConfidence(
@@ -160,7 +148,7 @@ function extractFrameThicknessId(frameValue: unknown): number | null {
   return null;
 }
 
-function buildBaseConfiguration(product: ProductRow): Partial<ProductConfig> {
+export function buildBaseConfiguration(product: ProductRow): Partial<ProductConfig> {
   const config: Partial<ProductConfig> = {};
 
   if (product.product_line !== null && product.product_line !== undefined) {
@@ -252,20 +240,20 @@ function applyOptionToConfiguration(
 }
 
 function buildSegmentMatch(
-  orderItem: SkuCodeOrderItem,
+  grammarSegment: Pick<SkuGrammarSegment, "order" | "table">,
   segment: string | null,
   status: SkuSegmentStatus,
   options: InternalSegmentOption[],
   message?: string,
 ): SkuSegmentMatch {
   const field =
-    orderItem.order === 0
+    grammarSegment.order === 0
       ? "productBase"
-      : findConfigFieldForTable(orderItem.sku_code_item || "");
+      : findConfigFieldForTable(grammarSegment.table || "");
 
   return {
-    order: orderItem.order ?? 0,
-    tableName: orderItem.sku_code_item || "products",
+    order: grammarSegment.order ?? 0,
+    tableName: grammarSegment.table || "products",
     field: field ?? undefined,
     segment,
     status,
@@ -278,6 +266,25 @@ function buildSegmentMatch(
   };
 }
 
+function buildSearchResult(candidate: {
+  product: ProductRow;
+  segments: SkuSegmentMatch[];
+  config: Partial<ProductConfig>;
+  issues: string[];
+}): SkuSearchResult {
+  return {
+    id: `product-${candidate.product.id}`,
+    productId: candidate.product.id,
+    productLineId: candidate.product.product_line,
+    productSku: candidate.product.sku_code ?? undefined,
+    productName: candidate.product.name ?? undefined,
+    configuration: candidate.config,
+    segments: candidate.segments,
+    issues: candidate.issues,
+    confidence: computeConfidence(candidate.segments),
+  };
+}
+
 function describeTable(tableName: string): string {
   return tableName.replace(/_/g, " ");
 }
@@ -299,26 +306,22 @@ export async function parseSkuToConfiguration(
     return response;
   }
 
-  const segments = splitSkuInput(trimmed);
-  response.segments = segments;
-
-  const skuOrder = await fetchSkuCodeOrder();
-  if (!skuOrder.length) {
+  const grammar = await loadSkuGrammar();
+  if (!grammar.segments.length) {
     response.errors.push("SKU code order data is empty.");
     return response;
   }
 
+  const segments = splitSkuInput(trimmed, grammar.separator);
+  response.segments = segments;
+
   const baseSegment = normalizeSegment(segments[0]);
   if (!baseSegment) {
     response.errors.push("SKU must include a product base segment.");
     return response;
   }
 
-  const baseOrderItem = skuOrder.find((item) => item.order === 0) ?? {
-    id: "products",
-    order: 0,
-    sku_code_item: "products",
-  };
+  const baseGrammarSegment = { order: 0, table: "products" };
 
   const limit = options?.limit ?? DEFAULT_RESULT_LIMIT;
   const productMatches = await fetchProductMatches(baseSegment, limit, options);
@@ -380,7 +383,7 @@ export async function parseSkuToConfiguration(
     product,
     segments: [
       buildSegmentMatch(
-        baseOrderItem,
+        baseGrammarSegment,
         baseSegment,
         baseStatus,
         baseOptions,
@@ -403,20 +406,59 @@ export async function parseSkuToConfiguration(
       candidate.product.product_line,
       candidate.product.id,
     );
-    let segmentIndex = 1; // base consumed
-    let noMoreSegments = false;
 
-    for (const orderItem of skuOrder) {
-      if (orderItem.order === 0) {
-        continue;
+    // A complete SKU is read with the grammar, which handles omitted segments
+    const parsed =
+      productOptions && candidate.product.sku_code
+        ? parseSku(grammar, trimmed, candidate.product.sku_code, productOptions)
+        : null;
+
+    if (parsed && !parsed.ambiguous) {
+      for (const grammarSegment of grammar.segments) {
+        const match = parsed.segments.find(
+          (parsedSegment) => parsedSegment.table === grammarSegment.table,
+        );
+        const options = getAvailableOptionsForTable(
+          productOptions,
+          grammarSegment.table,
+        ).filter((option) => option.id === match?.optionId);
+
+        candidate.segments.push(
+          grammarSegment.encodedInBase
+            ? buildSegmentMatch(
+                grammarSegment,
+                null,
+                "skipped",
+                [],
+                "Frame thickness encoded in product base segment.",
+              )
+            : match
+              ? buildSegmentMatch(grammarSegment, match.code, "exact", options)
+              : buildSegmentMatch(
+                  grammarSegment,
+                  null,
+                  "skipped",
+                  [],
+                  "Segment not present in SKU.",
+                ),
+        );
       }
+      Object.assign(candidate.config, parsed.config);
+      response.results.push(buildSearchResult(candidate));
+      continue;
+    }
+
+    // Partial input: match segment by segment in grammar order
+    let segmentIndex = 1; // base consumed
+    let noMoreSegments = false;
 
-      const tableName = orderItem.sku_code_item || "";
+    for (const grammarSegment of grammar.segments) {
+      const tableName = grammarSegment.table;
 
-      if (tableName === "frame_thicknesses") {
+      if (grammarSegment.encodedInBase) {
         candidate.segments.push(
           buildSegmentMatch(
-            orderItem,
+            grammarSegment,
             null,
             "skipped",
             [],
@@ -429,7 +471,7 @@ export async function parseSkuToConfiguration(
       if (noMoreSegments) {
         candidate.segments.push(
           buildSegmentMatch(
-            orderItem,
+            grammarSegment,
             null,
             "missing",
             [],
@@ -443,7 +485,7 @@ export async function parseSkuToConfiguration(
       if (rawSegment === undefined) {
         candidate.segments.push(
           buildSegmentMatch(
-            orderItem,
+            grammarSegment,
             null,
             "missing",
             [],
@@ -458,7 +500,7 @@ export async function parseSkuToConfiguration(
       if (!normalized) {
         candidate.segments.push(
           buildSegmentMatch(
-            orderItem,
+            grammarSegment,
             null,
             "missing",
             [],
@@ -478,7 +520,7 @@ export async function parseSkuToConfiguration(
       if (!availableOptions.length) {
         candidate.segments.push(
           buildSegmentMatch(
-            orderItem,
+            grammarSegment,
             null,
             "skipped",
             [],
@@ -523,7 +565,7 @@ export async function parseSkuToConfiguration(
 
       candidate.segments.push(
         buildSegmentMatch(
-          orderItem,
+          grammarSegment,
           normalized,
           status,
           optionsForSegment,
@@ -542,21 +584,7 @@ export async function parseSkuToConfiguration(
       candidate.issues.push("Input contains more segments than expected.");
     }
 
-    const confidence = computeConfidence(candidate.segments);
-
-    const result: SkuSearchResult = {
-      id: `product-${candidate.product.id}`,
-      productId: candidate.product.id,
-      productLineId: candidate.product.product_line,
-      productSku: candidate.product.sku_code ?? undefined,
-      productName: candidate.product.name ?? undefined,
-      configuration: candidate.config,
-      segments: candidate.segments,
-      issues: candidate.issues,
-      confidence,
-    };
-
-    response.results.push(result);
+    response.results.push(buildSearchResult(candidate));
   }
 
   return response;
@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../../supabase';
+import type { Tables as AppTables } from '../types/database';
+import { getDataProvider } from './data-provider';
+import { fetchCached, queryKeys } from './data-layer';
 
 // Initialize Supabase client
 const resolvedSupabaseUrl = (typeof import.meta !== 'undefined' && import.meta.env?.VITE_SUPABASE_URL)
@@ -47,6 +50,9 @@ const PRODUCT_FIELDS = `
 
 // Get all active products with asset metadata
 export async function getProducts() {
+  const provider = getDataProvider();
+  if (provider) return provider.getProducts();
+
   const { data, error } = await supabase
     .from('products')
     .select(PRODUCT_FIELDS)
@@ -107,12 +113,34 @@ export async function getSkuCodeOrder() {
 
 // Get all rules
 export async function getRules() {
-  const { data, error } = await supabase.from('rules').select('*');
+  const provider = getDataProvider();
+  if (provider) return provider.getRules();
+
+  return fetchCached({
+    queryKey: queryKeys.rules(),
+    queryFn: async () => {
+      const { data, error } = await supabase.from('rules').select('*');
+      if (error) {
+        console.error('Error fetching rules:', error);
+        throw error;
+      }
+      return data;
+    },
+  });
+}
+
+// Get active pricing rows
+export async function getPricingRules(): Promise<ConfigurationPricing[]> {
+  const { data, error } = await supabase
+    .from('configuration_pricing')
+    .select('*')
+    .eq('is_active', true)
+    .order('priority', { ascending: true, nullsFirst: false });
   if (error) {
-    console.error('Error fetching rules:', error);
+    console.error('Error fetching pricing rules:', error);
     throw error;
   }
-  return data;
+  return data || [];
 }
 
 // Get configuration UI settings
@@ -131,3 +159,5 @@ export async function getConfigurationUI() {
 
 export type Rule = Database['public']['Tables']['rules']['Row'];
 export type ConfigurationUI = Database['public']['Tables']['configuration_ui']['Row'];
+export type ConfigurationPricing = Database['public']['Tables']['configuration_pricing']['Row'];
+export type SizeEnvelopeRow = AppTables<'size_envelopes'>;
@@ -0,0 +1,251 @@
+/**
+ * Configurator Theme
+ *
+ * White-label tokens for dealers: colors, corner radius, fonts, logo, header text and
+ * call-to-action labels. A theme is loaded at init from a JSON file, inline JSON or a
+ * dealer slug (a `dealer_themes` record) and can be swapped at runtime through the
+ * store's setTheme. Any token a theme leaves out falls back to DEFAULT_THEME, the
+ * Matrix branding.
+ *
+ * Tokens reach the UI as CSS variables set on the configurator root (see
+ * components/ThemeRoot.tsx), never on :root, so an embed does not restyle its host page.
+ */
+
+import { z } from 'zod';
+
+export interface ThemeColors {
+  background: string;
+  foreground: string;
+  primary: string;
+  primaryForeground: string;
+  accent: string;
+  accentForeground: string;
+  muted: string;
+  mutedForeground: string;
+  border: string;
+  destructive: string;
+  // Call-to-action buttons (Add to Quote, Request Quote, ...)
+  cta: string;
+  ctaForeground: string;
+  ctaHover: string;
+}
+
+export interface ThemeCtaLabels {
+  addToQuote: string;
+  updateQuoteLine: string;
+  requestQuote: string;
+  submitQuote: string;
+}
+
+export interface ConfiguratorTheme {
+  name: string;
+  colors: ThemeColors;
+  radius: string;
+  fonts: { body: string; heading: string };
+  logoUrl: string | null;
+  // Null shows the localized app title; an empty string hides the text
+  headerText: string | null;
+  // Dealer wording for the CTAs; labels left out use the localized defaults
+  ctaLabels: Partial<ThemeCtaLabels>;
+}
+
+export class ThemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeError';
+  }
+}
+
+const SYSTEM_FONTS =
+  'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"';
+
+export const DEFAULT_THEME: ConfiguratorTheme = {
+  name: 'matrix',
+  colors: {
+    background: '#ffffff',
+    foreground: 'oklch(0.145 0 0)',
+    primary: '#030213',
+    primaryForeground: 'oklch(1 0 0)',
+    accent: '#e9ebef',
+    accentForeground: '#030213',
+    muted: '#ececf0',
+    mutedForeground: '#717182',
+    border: 'rgba(0, 0, 0, 0.1)',
+    destructive: '#d4183d',
+    cta: '#f59e0b',
+    ctaForeground: '#ffffff',
+    ctaHover: '#d97706',
+  },
+  radius: '0.625rem',
+  fonts: { body: SYSTEM_FONTS, heading: SYSTEM_FONTS },
+  logoUrl: null,
+  headerText: null,
+  ctaLabels: {},
+};
+
+// CSS variable each color token sets; card and popover surfaces follow the background
+const COLOR_VARIABLES: Record<keyof ThemeColors, string[]> = {
+  background: ['--background', '--card', '--popover'],
+  foreground: ['--foreground', '--card-foreground', '--popover-foreground'],
+  primary: ['--primary'],
+  primaryForeground: ['--primary-foreground'],
+  accent: ['--accent'],
+  accentForeground: ['--accent-foreground'],
+  muted: ['--muted'],
+  mutedForeground: ['--muted-foreground'],
+  border: ['--border'],
+  destructive: ['--destructive'],
+  cta: ['--cta'],
+  ctaForeground: ['--cta-foreground'],
+  ctaHover: ['--cta-hover'],
+};
+
+// Values end up in a style attribute, so only plain color, length and font syntax is accepted
+const cssColor = z
+  .string()
+  .trim()
+  .max(64)
+  .regex(/^[#\w\s(),.%/+-]+$/, 'Not a CSS color')
+  .refine((value) => !/url\s*\(/i.test(value), 'Not a CSS color');
+const cssLength = z
+  .string()
+  .trim()
+  .regex(/^(0|\d*\.?\d+(px|rem|em|%))$/, 'Not a CSS length');
+const fontFamily = z
+  .string()
+  .trim()
+  .max(200)
+  .regex(/^[\w\s"',-]+$/, 'Not a font-family list');
+const label = z.string().trim().min(1).max(60);
+
+const logoUrl = z
+  .string()
+  .trim()
+  .max(2048)
+  .refine((value) => {
+    try {
+      return ['http:', 'https:'].includes(new URL(value, 'https://relative.invalid').protocol);
+    } catch {
+      return false;
+    }
+  }, 'Logo URL must be http(s) or relative');
+
+const themeInputSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  colors: z
+    .object(
+      Object.fromEntries(Object.keys(DEFAULT_THEME.colors).map((key) => [key, cssColor.optional()])) as Record<
+        keyof ThemeColors,
+        z.ZodOptional<typeof cssColor>
+      >
+    )
+    .optional(),
+  radius: cssLength.optional(),
+  fonts: z.object({ body: fontFamily.optional(), heading: fontFamily.optional() }).optional(),
+  logoUrl: logoUrl.nullable().optional(),
+  headerText: z.string().trim().max(80).nullable().optional(),
+  ctaLabels: z
+    .object({
+      addToQuote: label.optional(),
+      updateQuoteLine: label.optional(),
+      requestQuote: label.optional(),
+      submitQuote: label.optional(),
+    })
+    .optional(),
+});
+
+export type ThemeInput = z.infer<typeof themeInputSchema>;
+
+/**
+ * Validate a theme document and fill what it leaves out from the base theme.
+ * Throws ThemeError listing every invalid token.
+ */
+export function parseTheme(input: unknown, base: ConfiguratorTheme = DEFAULT_THEME): ConfiguratorTheme {
+  const result = themeInputSchema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'theme'}: ${issue.message}`);
+    throw new ThemeError(`Invalid theme. ${issues.join('; ')}`);
+  }
+
+  const theme = result.data;
+  return {
+    name: theme.name ?? base.name,
+    colors: { ...base.colors, ...stripUndefined(theme.colors) },
+    radius: theme.radius ?? base.radius,
+    fonts: { ...base.fonts, ...stripUndefined(theme.fonts) },
+    logoUrl: theme.logoUrl === undefined ? base.logoUrl : theme.logoUrl,
+    headerText: theme.headerText === undefined ? base.headerText : theme.headerText,
+    ctaLabels: { ...base.ctaLabels, ...stripUndefined(theme.ctaLabels) },
+  };
+}
+
+function stripUndefined<T extends object>(value: T | undefined): Partial<T> {
+  if (!value) return {};
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+/**
+ * CSS custom properties for a theme, keyed by variable name
+ */
+export function themeToCssVariables(theme: ConfiguratorTheme): Record<string, string> {
+  const variables: Record<string, string> = {
+    '--radius': theme.radius,
+    '--font-body': theme.fonts.body,
+    '--font-heading': theme.fonts.heading,
+  };
+  for (const [token, names] of Object.entries(COLOR_VARIABLES) as Array<[keyof ThemeColors, string[]]>) {
+    for (const name of names) variables[name] = theme.colors[token];
+  }
+  return variables;
+}
+
+/**
+ * Resolve a theme source: inline JSON, a URL to a JSON theme file, or a dealer slug
+ * looked up in dealer_themes. Throws when the source cannot be loaded or is invalid.
+ */
+export async function resolveTheme(source: string): Promise<ConfiguratorTheme> {
+  const trimmed = source.trim();
+  if (trimmed.startsWith('{')) return parseTheme(JSON.parse(trimmed));
+  if (isDealerSlug(trimmed)) return parseTheme(await fetchDealerTheme(trimmed));
+  return parseTheme(await fetchThemeFile(trimmed));
+}
+
+/**
+ * Theme for init: like resolveTheme, but falls back to the default theme (and logs)
+ * so a bad theme never keeps the configurator from loading
+ */
+export async function loadTheme(source: string | undefined): Promise<ConfiguratorTheme> {
+  if (!source?.trim()) return DEFAULT_THEME;
+
+  try {
+    return await resolveTheme(source);
+  } catch (error) {
+    console.error(`Failed to load theme "${source}", using the default theme:`, error);
+    return DEFAULT_THEME;
+  }
+}
+
+// "acme-bath" is a dealer; anything with a slash or an extension is a theme file
+const isDealerSlug = (source: string) => /^[a-z0-9][a-z0-9_-]*$/i.test(source);
+
+async function fetchThemeFile(url: string): Promise<unknown> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new ThemeError(`Theme file ${url} returned ${response.status}`);
+  }
+  return response.json();
+}
+
+async function fetchDealerTheme(slug: string): Promise<unknown> {
+  const { supabase } = await import('./supabase');
+  const { data, error } = await supabase
+    .from('dealer_themes')
+    .select('theme')
+    .eq('slug', slug)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ThemeError(`No active theme for dealer "${slug}"`);
+  return data.theme;
+}
@@ -0,0 +1,155 @@
+/**
+ * Length Units
+ *
+ * Sizes are stored and encoded in SKUs in inches ("24.25"). Customers may enter a custom
+ * size in inches, millimetres or centimetres, with inch fractions ("24 1/4\"", "24-1/4 in",
+ * "24¼"); input is converted to inches and rounded to the size increment before it
+ * reaches the configuration, so the same size always produces the same SKU.
+ */
+
+import { getSizeIncrement } from '../utils/environment';
+
+export type LengthUnit = 'in' | 'mm' | 'cm';
+
+export const LENGTH_UNITS: readonly LengthUnit[] = ['in', 'mm', 'cm'];
+
+// Smallest custom size step, in inches, when VITE_SIZE_INCREMENT is not set
+export const DEFAULT_SIZE_INCREMENT = 0.25;
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { in: 25.4, mm: 1, cm: 10 };
+
+// Digits shown for each unit; inches keep eighths (0.125)
+export const UNIT_FRACTION_DIGITS: Record<LengthUnit, number> = { in: 3, mm: 0, cm: 1 };
+
+const UNIT_SUFFIXES: [RegExp, LengthUnit][] = [
+  [/(?:"|''|″|in\.?|inch(?:es)?)$/, 'in'],
+  [/(?:mm|millimet(?:er|re)s?)$/, 'mm'],
+  [/(?:cm|centimet(?:er|re)s?)$/, 'cm'],
+];
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '¼': '1/4',
+  '½': '1/2',
+  '¾': '3/4',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+// "24", "24.25", "24,25", "1/2", "24 1/4", "24-1/4"
+const NUMBER = /^(?:(\d+(?:[.,]\d+)?|[.,]\d+)|(?:(\d+)[\s-]+)?(\d+)\s*\/\s*(\d+))$/;
+
+const LENGTH_UNIT_STORAGE_KEY = 'mtx-configurator-size-unit';
+
+export function isLengthUnit(value: unknown): value is LengthUnit {
+  return typeof value === 'string' && (LENGTH_UNITS as readonly string[]).includes(value);
+}
+
+/**
+ * Read a length typed by a customer. A unit written after the number wins over the
+ * default unit. Returns null for anything that is not a positive, finite length.
+ */
+export function parseLength(input: string | number, defaultUnit: LengthUnit = 'in'): { value: number; unit: LengthUnit } | null {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input > 0 ? { value: input, unit: defaultUnit } : null;
+  }
+
+  let text = input.trim().toLowerCase();
+  for (const [glyph, fraction] of Object.entries(VULGAR_FRACTIONS)) {
+    text = text.replace(glyph, ` ${fraction}`);
+  }
+
+  let unit = defaultUnit;
+  for (const [suffix, suffixUnit] of UNIT_SUFFIXES) {
+    if (suffix.test(text)) {
+      unit = suffixUnit;
+      text = text.replace(suffix, '');
+      break;
+    }
+  }
+
+  const match = NUMBER.exec(text.trim());
+  if (!match) return null;
+
+  const [, decimal, whole, numerator, denominator] = match;
+  let value: number;
+  if (decimal !== undefined) {
+    value = Number(decimal.replace(',', '.'));
+  } else {
+    const top = Number(numerator);
+    const bottom = Number(denominator);
+    // A mixed number's fraction is a proper fraction ("24 5/4" is a typo, not 25 1/4)
+    if (bottom === 0 || (whole !== undefined && top >= bottom)) return null;
+    value = Number(whole ?? 0) + top / bottom;
+  }
+
+  return Number.isFinite(value) && value > 0 ? { value, unit } : null;
+}
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  return from === to ? value : (value * MM_PER_UNIT[from]) / MM_PER_UNIT[to];
+}
+
+export function roundToIncrement(value: number, increment: number): number {
+  if (!(increment > 0)) return value;
+  // toFixed trims binary noise such as 24.250000000000004
+  return Number((Math.round(value / increment) * increment).toFixed(6));
+}
+
+/**
+ * Inches as written in the configuration and the SKU: no trailing zeros ("24", "24.25")
+ */
+export function formatCanonicalInches(inches: number): string {
+  return String(Number(inches.toFixed(4)));
+}
+
+/**
+ * Convert a typed length to the canonical inch string, rounded to the size increment.
+ * Returns null when the input cannot be read.
+ */
+export function normalizeDimension(
+  input: string | number,
+  { unit = 'in', increment = getSizeIncrement() ?? DEFAULT_SIZE_INCREMENT }: { unit?: LengthUnit; increment?: number } = {}
+): string | null {
+  const length = parseLength(input, unit);
+  if (!length) return null;
+  return formatCanonicalInches(roundToIncrement(convertLength(length.value, length.unit, 'in'), increment));
+}
+
+/**
+ * Whether two inch values (as stored on sizes or in a configuration) are the same length
+ */
+export function sameDimension(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || a === '' || b === null || b === undefined || b === '') return false;
+  const left = parseLength(String(a));
+  const right = parseLength(String(b));
+  return Boolean(left && right && Math.abs(left.value - right.value) < 1e-6);
+}
+
+/**
+ * Inches shown in another unit, rounded to what that unit displays
+ */
+export function fromInches(inches: number, unit: LengthUnit): number {
+  return Number(convertLength(inches, 'in', unit).toFixed(UNIT_FRACTION_DIGITS[unit]));
+}
+
+export function getStoredLengthUnit(): LengthUnit | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LENGTH_UNIT_STORAGE_KEY) : null;
+    return isLengthUnit(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the unit the user picked for sizes
+ */
+export function storeLengthUnit(unit: LengthUnit): void {
+  try {
+    localStorage.setItem(LENGTH_UNIT_STORAGE_KEY, unit);
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Data Sync
+ *
+ * Keeps the loaded product line current when the data layer reports a change to its
+ * catalog data (a realtime row change, or a background revalidation that brought new
+ * data): the availability model is reloaded, the product options are refetched when
+ * they changed, and availability is recomputed for the current configuration.
+ */
+
+import type { StoreApi } from "zustand";
+import type { ConfiguratorStore } from "./types";
+import { changeAffects, subscribeToDataChanges, type DataChange } from "../services/data-layer";
+import { clearAvailabilityModelCache } from "../services/availability-pipeline";
+import { fetchProductOptions } from "../services/product-options";
+
+export async function applyDataChange(store: StoreApi<ConfiguratorStore>, change: DataChange): Promise<void> {
+  const { currentProductLine, currentProduct } = store.getState();
+  if (!currentProductLine) return;
+
+  const lineId = currentProductLine.id;
+  const rulesChanged = changeAffects(change, "rules");
+  const optionsChanged = changeAffects(change, "product_options", lineId);
+  const recordsChanged = changeAffects(change, "facet_records", lineId);
+  if (!rulesChanged && !optionsChanged && !recordsChanged) return;
+
+  // Rules are shared by every line; records belong to one
+  clearAvailabilityModelCache(rulesChanged ? undefined : lineId);
+
+  if (optionsChanged) {
+    const options = await fetchProductOptions(lineId, currentProduct?.id);
+    // The shopper may have moved to another line meanwhile
+    if (store.getState().currentProductLine?.id !== lineId) return;
+    store.getState().setProductOptions(options);
+  }
+
+  const { currentConfig, recomputeFiltering } = store.getState();
+  if (currentConfig) {
+    await recomputeFiltering(currentProductLine, currentConfig);
+  }
+}
+
+/**
+ * Apply data layer changes to the store. Returns a function that unsubscribes.
+ */
+export function subscribeToDataSync(store: StoreApi<ConfiguratorStore>): () => void {
+  return subscribeToDataChanges((change) => {
+    applyDataChange(store, change).catch((error) => {
+      console.error("❌ Failed to apply a data change:", error);
+    });
+  });
+}
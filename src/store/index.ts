@@ -4,28 +4,45 @@
  * Combines all slices with middleware for the MTX Product Configurator.
  * This store maintains the same functionality as the original useState patterns
  * while providing centralized state management and performance optimizations.
+ * The quote cart, customer info and in-progress configuration are persisted
+ * (see ./persistence), and the loaded product line follows catalog data changes
+ * (see ./data-sync).
  */
 
 import { create } from "zustand";
-import { devtools, subscribeWithSelector } from "zustand/middleware";
+import { devtools, persist, subscribeWithSelector } from "zustand/middleware";
 import { useMemo } from "react";
 
 import { ConfiguratorStore } from "./types";
+import {
+  calculateConfigurationPrice,
+  type PriceBreakdown,
+} from "../services/pricing-engine";
+import {
+  resolveSizeEnvelope,
+  validateSize,
+  type SizeValidation,
+} from "../services/size-envelope";
 import { createConfigurationSlice } from "./slices/configurationSlice";
 import { createUISlice } from "./slices/uiSlice";
 import { createAPISlice } from "./slices/apiSlice";
 import { createQuoteSlice } from "./slices/quoteSlice";
+import { persistOptions, subscribeToCrossTabSync } from "./persistence";
+import { subscribeToDataSync } from "./data-sync";
 
 // Create the main store with all middleware
 export const useConfiguratorStore = create<ConfiguratorStore>()(
   devtools(
-    subscribeWithSelector((set, get) => ({
-      // Combine all slices
-      ...createConfigurationSlice(set, get),
-      ...createUISlice(set, get),
-      ...createAPISlice(set, get),
-      ...createQuoteSlice(set, get),
-    })),
+    persist(
+      subscribeWithSelector((set, get) => ({
+        // Combine all slices
+        ...createConfigurationSlice(set, get),
+        ...createUISlice(set, get),
+        ...createAPISlice(set, get),
+        ...createQuoteSlice(set, get),
+      })),
+      persistOptions,
+    ),
     {
       name: "MTX Product Configurator", // DevTools name
       enabled: import.meta.env.DEV, // Only enable in development
@@ -33,6 +50,9 @@ export const useConfiguratorStore = create<ConfiguratorStore>()(
   ),
 );
 
+subscribeToCrossTabSync(useConfiguratorStore);
+subscribeToDataSync(useConfiguratorStore);
+
 // Individual selector hooks to avoid infinite loops
 export const useCurrentConfig = () =>
   useConfiguratorStore((state) => state.currentConfig);
@@ -90,6 +110,11 @@ export const useCanScrollLeft = () =>
   useConfiguratorStore((state) => state.canScrollLeft);
 export const useCanScrollRight = () =>
   useConfiguratorStore((state) => state.canScrollRight);
+export const useTheme = () => useConfiguratorStore((state) => state.theme);
+export const useLocale = () => useConfiguratorStore((state) => state.locale);
+export const useSizeUnit = () => useConfiguratorStore((state) => state.sizeUnit);
+export const useOptionTranslations = () =>
+  useConfiguratorStore((state) => state.optionTranslations);
 
 export const useUIState = () => {
   const showQuoteForm = useShowQuoteForm();
@@ -130,6 +155,8 @@ export const useConfigurationUI = () =>
   useConfiguratorStore((state) => state.configurationUI);
 export const useDisabledOptionIds = () =>
   useConfiguratorStore((state) => state.disabledOptionIds);
+export const useDisabledOptionReasons = () =>
+  useConfiguratorStore((state) => state.disabledOptionReasons);
 export const useIsLoadingApp = () =>
   useConfiguratorStore((state) => state.isLoadingApp);
 export const useIsLoadingProductLine = () =>
@@ -140,17 +167,78 @@ export const useError = () => useConfiguratorStore((state) => state.error);
 
 export const useRuleImageOverrides = () =>
   useConfiguratorStore((state) => state.ruleImageOverrides);
+export const usePricingRules = () =>
+  useConfiguratorStore((state) => state.pricingRules);
+export const useSizeEnvelopes = () =>
+  useConfiguratorStore((state) => state.sizeEnvelopes);
+export const useOptionCounts = () =>
+  useConfiguratorStore((state) => state.optionCounts);
+
+// Price selector - returns null until pricing rules and a configuration are available
+export const selectPriceBreakdown = (
+  state: ConfiguratorStore,
+): PriceBreakdown | null => {
+  if (!state.currentConfig || !state.pricingRules) return null;
+  return calculateConfigurationPrice(state.pricingRules, {
+    config: state.currentConfig,
+    product: state.currentProduct,
+    productOptions: state.productOptions,
+  });
+};
+
+// Memoized on its inputs so components re-render only when the price can change
+export const usePriceBreakdown = () => {
+  const currentConfig = useCurrentConfig();
+  const currentProduct = useCurrentProduct();
+  const productOptions = useProductOptions();
+  const pricingRules = usePricingRules();
+
+  return useMemo(
+    () =>
+      currentConfig && pricingRules
+        ? calculateConfigurationPrice(pricingRules, {
+            config: currentConfig,
+            product: currentProduct,
+            productOptions,
+          })
+        : null,
+    [currentConfig, currentProduct, productOptions, pricingRules],
+  );
+};
+
+// Custom size checked against the envelope for the selected mirror style; null while
+// a preset size is in use (presets are valid by definition)
+export const useSizeValidation = (): SizeValidation | null => {
+  const currentConfig = useCurrentConfig();
+  const currentProductLine = useCurrentProductLine();
+  const useCustomSize = useUseCustomSize();
+  const sizeEnvelopes = useSizeEnvelopes();
+
+  return useMemo(
+    () =>
+      currentConfig && currentProductLine && useCustomSize
+        ? validateSize(
+            resolveSizeEnvelope(sizeEnvelopes, currentConfig.mirrorStyle),
+            currentConfig,
+            currentProductLine.id,
+          )
+        : null,
+    [currentConfig, currentProductLine, useCustomSize, sizeEnvelopes],
+  );
+};
 
 export const useAPIState = () => {
   const productOptions = useProductOptions();
   const availableProductLines = useAvailableProductLines();
   const configurationUI = useConfigurationUI();
   const disabledOptionIds = useDisabledOptionIds();
+  const disabledOptionReasons = useDisabledOptionReasons();
   const isLoadingApp = useIsLoadingApp();
   const isLoadingProductLine = useIsLoadingProductLine();
   const isComputingAvailability = useIsComputingAvailability();
   const error = useError();
   const ruleImageOverrides = useRuleImageOverrides();
+  const optionCounts = useOptionCounts();
 
   return useMemo(
     () => ({
@@ -158,41 +246,49 @@ export const useAPIState = () => {
       availableProductLines,
       configurationUI,
       disabledOptionIds,
+      disabledOptionReasons,
       isLoadingApp,
       isLoadingProductLine,
       isComputingAvailability,
       error,
       ruleImageOverrides,
+      optionCounts,
     }),
     [
       productOptions,
       availableProductLines,
       configurationUI,
       disabledOptionIds,
+      disabledOptionReasons,
       isLoadingApp,
       isLoadingProductLine,
       isComputingAvailability,
       error,
       ruleImageOverrides,
+      optionCounts,
     ],
   );
 };
 
 export const useQuoteItems = () =>
   useConfiguratorStore((state) => state.quoteItems);
+export const useEditingQuoteItemId = () =>
+  useConfiguratorStore((state) => state.editingQuoteItemId);
 export const useCustomerInfo = () =>
   useConfiguratorStore((state) => state.customerInfo);
 
 export const useQuoteState = () => {
   const quoteItems = useQuoteItems();
+  const editingQuoteItemId = useEditingQuoteItemId();
   const customerInfo = useCustomerInfo();
 
   return useMemo(
     () => ({
       quoteItems,
+      editingQuoteItemId,
       customerInfo,
     }),
-    [quoteItems, customerInfo],
+    [quoteItems, editingQuoteItemId, customerInfo],
   );
 };
 
@@ -276,6 +372,9 @@ export const useUIActions = () => {
   const setCustomSizeEnabled = useConfiguratorStore(
     (state) => state.setCustomSizeEnabled,
   );
+  const setTheme = useConfiguratorStore((state) => state.setTheme);
+  const setLocale = useConfiguratorStore((state) => state.setLocale);
+  const setSizeUnit = useConfiguratorStore((state) => state.setSizeUnit);
 
   return useMemo(
     () => ({
@@ -287,6 +386,9 @@ export const useUIActions = () => {
       setScrollState,
       toggleCustomSize,
       setCustomSizeEnabled,
+      setTheme,
+      setLocale,
+      setSizeUnit,
     }),
     [
       toggleQuoteForm,
@@ -297,6 +399,9 @@ export const useUIActions = () => {
       setScrollState,
       toggleCustomSize,
       setCustomSizeEnabled,
+      setTheme,
+      setLocale,
+      setSizeUnit,
     ],
   );
 };
@@ -329,6 +434,9 @@ export const useAPIActions = () => {
   const recomputeFiltering = useConfiguratorStore(
     (state) => state.recomputeFiltering,
   );
+  const loadPricingRules = useConfiguratorStore(
+    (state) => state.loadPricingRules,
+  );
 
   return useMemo(
     () => ({
@@ -343,6 +451,7 @@ export const useAPIActions = () => {
       clearError,
       loadProductLineOptions,
       recomputeFiltering,
+      loadPricingRules,
     }),
     [
       setProductOptions,
@@ -356,12 +465,27 @@ export const useAPIActions = () => {
       clearError,
       loadProductLineOptions,
       recomputeFiltering,
+      loadPricingRules,
     ],
   );
 };
 
 export const useQuoteActions = () => {
   const addToQuote = useConfiguratorStore((state) => state.addToQuote);
+  const addQuoteItems = useConfiguratorStore((state) => state.addQuoteItems);
+  const importQuoteItems = useConfiguratorStore((state) => state.importQuoteItems);
+  const repriceQuoteItems = useConfiguratorStore((state) => state.repriceQuoteItems);
+  const updateQuoteItem = useConfiguratorStore((state) => state.updateQuoteItem);
+  const reopenQuoteItem = useConfiguratorStore((state) => state.reopenQuoteItem);
+  const cancelQuoteItemEdit = useConfiguratorStore(
+    (state) => state.cancelQuoteItemEdit,
+  );
+  const duplicateQuoteItem = useConfiguratorStore(
+    (state) => state.duplicateQuoteItem,
+  );
+  const updateQuoteItemDetails = useConfiguratorStore(
+    (state) => state.updateQuoteItemDetails,
+  );
   const removeFromQuote = useConfiguratorStore(
     (state) => state.removeFromQuote,
   );
@@ -382,6 +506,14 @@ export const useQuoteActions = () => {
   return useMemo(
     () => ({
       addToQuote,
+      addQuoteItems,
+      importQuoteItems,
+      repriceQuoteItems,
+      updateQuoteItem,
+      reopenQuoteItem,
+      cancelQuoteItemEdit,
+      duplicateQuoteItem,
+      updateQuoteItemDetails,
       removeFromQuote,
       updateQuoteItemQuantity,
       clearQuote,
@@ -391,6 +523,14 @@ export const useQuoteActions = () => {
     }),
     [
       addToQuote,
+      addQuoteItems,
+      importQuoteItems,
+      repriceQuoteItems,
+      updateQuoteItem,
+      reopenQuoteItem,
+      cancelQuoteItemEdit,
+      duplicateQuoteItem,
+      updateQuoteItemDetails,
       removeFromQuote,
       updateQuoteItemQuantity,
       clearQuote,
@@ -410,6 +550,8 @@ export const useGenerateProductName = () =>
   useConfiguratorStore((state) => state.generateProductName);
 export const useGetTotalItems = () =>
   useConfiguratorStore((state) => state.getTotalItems);
+export const useGetQuoteTotal = () =>
+  useConfiguratorStore((state) => state.getQuoteTotal);
 export const useGetQuoteDescription = () =>
   useConfiguratorStore((state) => state.getQuoteDescription);
 
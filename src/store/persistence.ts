@@ -0,0 +1,236 @@
+/**
+ * Store Persistence
+ *
+ * Saves the quote cart, customer info and the in-progress configuration to
+ * localStorage so a refresh or a new session picks up where the user left off.
+ *
+ * - The stored shape is versioned; PERSIST_MIGRATIONS upgrades older versions one
+ *   step at a time and anything newer than STORE_VERSION is discarded
+ * - Restored data is sanitized (malformed quote lines are dropped); the configuration
+ *   is not applied directly but held in pendingConfigurationRestore until its product
+ *   line's options are loaded, then validated (see restorePendingConfiguration)
+ * - Other tabs receive quote cart and customer info changes through the storage event;
+ *   each tab keeps its own in-progress configuration
+ */
+
+import type { PersistOptions } from "zustand/middleware";
+import type { StoreApi } from "zustand";
+import type {
+  ConfiguratorStore,
+  CustomerInfo,
+  PendingConfigurationRestore,
+  ProductConfig,
+  QuoteItem,
+} from "./types";
+
+export const STORE_STORAGE_KEY = "mtx-configurator";
+export const STORE_VERSION = 1;
+
+export interface PersistedStoreState {
+  quoteItems: QuoteItem[];
+  customerInfo: CustomerInfo;
+  configuration: PendingConfigurationRestore | null;
+}
+
+type PersistedState = Record<string, unknown>;
+
+const emptyCustomerInfo = (): CustomerInfo => ({
+  name: "",
+  email: "",
+  company: "",
+  phone: "",
+});
+
+// Each entry upgrades the stored state from version `n - 1` to version `n`
+export const PERSIST_MIGRATIONS: Record<number, (state: PersistedState) => PersistedState> = {};
+
+/**
+ * Upgrade a stored state written by `version` to STORE_VERSION
+ */
+export function migratePersistedState(persisted: unknown, version: number): PersistedStoreState {
+  if (version > STORE_VERSION || !persisted || typeof persisted !== "object") {
+    // Written by a newer app version (or garbage); start fresh rather than guess
+    return sanitizePersistedState(null);
+  }
+
+  let state = persisted as PersistedState;
+  for (let next = version + 1; next <= STORE_VERSION; next++) {
+    const migration = PERSIST_MIGRATIONS[next];
+    if (migration) state = migration(state);
+  }
+  return sanitizePersistedState(state);
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const CONFIG_STRING_FIELDS: Array<keyof ProductConfig> = [
+  "id",
+  "productLineName",
+  "mirrorControls",
+  "frameColor",
+  "frameThickness",
+  "mirrorStyle",
+  "width",
+  "height",
+  "mounting",
+  "hangingTechnique",
+  "lighting",
+  "colorTemperature",
+  "lightOutput",
+  "driver",
+  "accessories",
+];
+
+function sanitizeConfig(value: unknown): ProductConfig | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (!isFiniteNumber(raw.productLineId)) return null;
+
+  const config = { productLineId: raw.productLineId } as ProductConfig;
+  for (const field of CONFIG_STRING_FIELDS) {
+    const fieldValue = raw[field];
+    (config as any)[field] = isString(fieldValue) ? fieldValue : isFiniteNumber(fieldValue) ? String(fieldValue) : "";
+  }
+  config.quantity = isFiniteNumber(raw.quantity) ? Math.max(1, Math.min(100, Math.round(raw.quantity))) : 1;
+  return config;
+}
+
+function sanitizeQuoteItem(value: unknown): QuoteItem | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const config = sanitizeConfig(raw.config);
+  const productLine = raw.productLine as Record<string, unknown> | undefined;
+  if (!config || !isString(raw.id) || !isString(raw.sku) || !raw.sku) return null;
+  if (!productLine || !isFiniteNumber(productLine.id) || !isString(productLine.name)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: raw.id,
+    sku: raw.sku,
+    config,
+    productLine: {
+      id: productLine.id,
+      name: productLine.name,
+      sku_code: isString(productLine.sku_code) ? productLine.sku_code : "",
+      active: productLine.active !== false,
+    },
+    quantity: isFiniteNumber(raw.quantity) ? Math.max(1, Math.min(100, Math.round(raw.quantity))) : config.quantity,
+    unitPrice: isFiniteNumber(raw.unitPrice) ? raw.unitPrice : null,
+    priceValidTo: isString(raw.priceValidTo) ? raw.priceValidTo : null,
+    customSize: raw.customSize === true,
+    note: isString(raw.note) ? raw.note : "",
+    room: isString(raw.room) ? raw.room : "",
+    addedAt: isString(raw.addedAt) ? raw.addedAt : now,
+    updatedAt: isString(raw.updatedAt) ? raw.updatedAt : now,
+    ...(Array.isArray(raw.unavailableOptions) && raw.unavailableOptions.every(isString)
+      ? { unavailableOptions: raw.unavailableOptions as string[] }
+      : {}),
+  };
+}
+
+/**
+ * Coerce a restored state into the current shape, dropping anything malformed
+ */
+export function sanitizePersistedState(value: unknown): PersistedStoreState {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+
+  const quoteItems = (Array.isArray(raw.quoteItems) ? raw.quoteItems : [])
+    .map(sanitizeQuoteItem)
+    .filter((item): item is QuoteItem => item !== null);
+
+  const customer = (raw.customerInfo && typeof raw.customerInfo === "object" ? raw.customerInfo : {}) as Record<
+    string,
+    unknown
+  >;
+  const customerInfo = emptyCustomerInfo();
+  for (const field of Object.keys(customerInfo) as Array<keyof CustomerInfo>) {
+    if (isString(customer[field])) customerInfo[field] = customer[field] as string;
+  }
+
+  const storedConfiguration = raw.configuration as Record<string, unknown> | null | undefined;
+  const config = sanitizeConfig(storedConfiguration?.config);
+  const configuration =
+    config && isFiniteNumber(storedConfiguration?.productLineId) && storedConfiguration.productLineId === config.productLineId
+      ? { config, productLineId: config.productLineId, useCustomSize: storedConfiguration.useCustomSize === true }
+      : null;
+
+  return { quoteItems, customerInfo, configuration };
+}
+
+export function partializeStore(state: ConfiguratorStore): PersistedStoreState {
+  // Until the restored configuration has been applied, keep it rather than the
+  // defaults the configurator starts with
+  const configuration =
+    state.pendingConfigurationRestore ??
+    (state.currentConfig && state.currentProductLine
+      ? {
+          config: state.currentConfig,
+          productLineId: state.currentProductLine.id,
+          useCustomSize: state.useCustomSize,
+        }
+      : null);
+
+  return {
+    quoteItems: state.quoteItems,
+    customerInfo: state.customerInfo,
+    configuration,
+  };
+}
+
+export function mergePersistedState(persisted: unknown, current: ConfiguratorStore): ConfiguratorStore {
+  const restored = sanitizePersistedState(persisted);
+  return {
+    ...current,
+    quoteItems: restored.quoteItems,
+    customerInfo: restored.customerInfo,
+    pendingConfigurationRestore: restored.configuration,
+  };
+}
+
+export const persistOptions: PersistOptions<ConfiguratorStore, PersistedStoreState> = {
+  name: STORE_STORAGE_KEY,
+  version: STORE_VERSION,
+  partialize: partializeStore,
+  migrate: migratePersistedState,
+  merge: mergePersistedState,
+};
+
+/**
+ * Apply quote cart and customer info changes written by other tabs. Unchanged
+ * values are skipped so two open tabs do not keep rewriting each other's state.
+ */
+export function subscribeToCrossTabSync(store: StoreApi<ConfiguratorStore>): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORE_STORAGE_KEY || !event.newValue) return;
+
+    let stored: { state?: unknown; version?: number };
+    try {
+      stored = JSON.parse(event.newValue);
+    } catch {
+      return;
+    }
+
+    const { quoteItems, customerInfo } = migratePersistedState(stored.state, stored.version ?? 0);
+    const state = store.getState();
+    // Compare in the sanitized shape so key order does not count as a change
+    const local = sanitizePersistedState({ quoteItems: state.quoteItems, customerInfo: state.customerInfo });
+    const quoteChanged = JSON.stringify(quoteItems) !== JSON.stringify(local.quoteItems);
+    const customerChanged = JSON.stringify(customerInfo) !== JSON.stringify(local.customerInfo);
+    if (!quoteChanged && !customerChanged) return;
+
+    store.setState({
+      ...(quoteChanged ? { quoteItems } : {}),
+      ...(customerChanged ? { customerInfo } : {}),
+      ...(quoteChanged && !quoteItems.some((item) => item.id === state.editingQuoteItemId)
+        ? { editingQuoteItemId: null }
+        : {}),
+    });
+  };
+
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
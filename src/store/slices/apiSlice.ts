@@ -4,6 +4,7 @@ import {
   ProductConfig,
   ProductLine,
   ConfigurationUIItem,
+  DisabledOptionReasons,
   StoreSet,
   StoreGet,
 } from '../types';
@@ -23,12 +24,19 @@ const emptyProductOptions: ProductOptions = {
   sizes: [],
 };
 
+// Bumped by every recomputeFiltering call
+let recomputeGeneration = 0;
+
 export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
   productOptions: null,
   availableProductLines: [],
   configurationUI: [],
   disabledOptionIds: {},
+  disabledOptionReasons: {},
   ruleImageOverrides: {},
+  pricingRules: null,
+  sizeEnvelopes: [],
+  optionCounts: {},
   isLoadingApp: true,
   isLoadingProductLine: false,
   isComputingAvailability: false,
@@ -55,10 +63,11 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
     }));
   },
 
-  setDisabledOptions: (disabled: Record<string, number[]>) => {
+  setDisabledOptions: (disabled: Record<string, number[]>, reasons: DisabledOptionReasons = {}) => {
     set((state) => ({
       ...state,
       disabledOptionIds: disabled,
+      disabledOptionReasons: reasons,
     }));
   },
 
@@ -120,16 +129,30 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
       setError(null);
 
       const { fetchProductOptions } = await import('../../services/product-options');
-      const options = await fetchProductOptions(productLine.id);
+      const { fetchSizeEnvelopes } = await import('../../services/size-envelope');
+      const [options, sizeEnvelopes] = await Promise.all([
+        fetchProductOptions(productLine.id),
+        fetchSizeEnvelopes(productLine.id),
+      ]);
 
       setProductOptions(options);
       setDisabledOptions({});
+      set((state) => ({
+        ...state,
+        sizeEnvelopes,
+        optionCounts: {},
+      }));
 
       const { setCurrentProductLine, resetConfiguration, setRuleImageOverrides } = get();
       setRuleImageOverrides({}); // Clear any previous image overrides
       setCurrentProductLine(productLine);
       await resetConfiguration();
 
+      // Pricing rows are shared across product lines; load them once
+      if (get().pricingRules === null) {
+        void get().loadPricingRules();
+      }
+
       if (import.meta.env.DEV) {
         console.log(`✓ Loaded product options for ${productLine.name}`);
       }
@@ -154,20 +177,41 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
   ) => {
     const { setComputingAvailability, setDisabledOptions, updateConfiguration, validateAndAdjustSelections, productOptions } = get();
 
-    try {
-      setComputingAvailability(true);
+    // Only the latest recompute applies results; older ones stop at their next await
+    const generation = ++recomputeGeneration;
+    const isStale = () => generation !== recomputeGeneration;
 
+    try {
       // Import once at the start
-      const { computeProductAvailability, computeUnavailableOptions } = await import(
-        '../../services/product-availability'
+      const { getLoadedAvailabilityModel, resolveAvailabilityModel } = await import(
+        '../../services/availability-pipeline'
+      );
+      const { getComputeService, hostAvailabilityModel } = await import(
+        '../../services/compute-service'
       );
-      const { applyRulesComplete } = await import(
-        '../../services/rules-ui-integration'
+      const { resolveSizeEnvelope } = await import(
+        '../../services/size-envelope'
       );
 
       // Iterative recomputation: Keep adjusting until config is stable
       // This ensures that when a selection becomes invalid due to dynamic filtering,
       // we auto-adjust it and then recompute with the new value
+      // Facets follow the order the configurator shows its sections in
+      const facetOrder = [...get().configurationUI]
+        .sort((a, b) => a.sort - b.sort)
+        .map((item) => item.collection);
+
+      // The facet index and rules are loaded once per product line and hosted by the
+      // compute service; after that a recompute needs no database round trip and no spinner
+      let model = getLoadedAvailabilityModel(productLine.id);
+      if (!model) {
+        setComputingAvailability(true);
+        model = await resolveAvailabilityModel(productLine.id);
+      }
+      const compute = getComputeService();
+      await hostAvailabilityModel(compute, model);
+      if (isStale()) return;
+
       const MAX_ITERATIONS = 3;
       let iteration = 0;
       let configStabilized = false;
@@ -180,56 +224,40 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
           console.log(`🔄 Iteration ${iteration}: Recomputing with adjusted config`);
         }
 
-        // Step 1: Compute product availability (dynamic filtering)
-        const availability = await computeProductAvailability(productLine.id, currentConfig);
-
-        // Convert available options to disabled options (unavailable = disabled)
-        const unavailableFromProducts = productOptions
-          ? computeUnavailableOptions(availability.availableOptions, productOptions as any)
-          : {};
+        // Steps 1-3: Availability pipeline (line defaults, product overrides, facets,
+        // rules, size envelope), keeping why each option was disabled
+        const availability = await compute.request('availability', {
+          productLineId: productLine.id,
+          config: currentConfig,
+          productOptions: productOptions ?? emptyProductOptions,
+          sizeEnvelope: resolveSizeEnvelope(get().sizeEnvelopes, currentConfig.mirrorStyle),
+          facets: { order: facetOrder },
+        });
+        if (isStale()) return;
+        set((state) => ({
+          ...state,
+          optionCounts: availability.counts,
+        }));
 
         if (import.meta.env.DEV) {
           console.log('🔍 Product Availability:', {
             iteration,
             matchingProducts: availability.matchingProductCount,
-            unavailable: unavailableFromProducts,
+            disabled: availability.disabledOptionIds,
           });
         }
 
-        // Step 2: Apply rules
-        const rulesResult = await applyRulesComplete(currentConfig, productLine.id);
-
-        // Step 3: Merge disabled options from both sources
-        // Rules take precedence over availability (rules can force values)
-        const mergedDisabled: Record<string, number[]> = { ...unavailableFromProducts };
-
-        for (const [collection, disabledIds] of Object.entries(rulesResult.disabledOptions)) {
-          if (collection.endsWith('_rule_set')) {
-            // Rule-set values override everything
-            mergedDisabled[collection] = disabledIds;
-          } else {
-            // Merge direct disabled lists (union of both sources)
-            const existing = mergedDisabled[collection] || [];
-            mergedDisabled[collection] = Array.from(
-              new Set([...existing, ...disabledIds])
-            );
-          }
-        }
-
-        if (import.meta.env.DEV) {
-          console.log('⚙️ Merged Disabled Options:', mergedDisabled);
-        }
-
-        // Apply merged disabled options
-        setDisabledOptions(mergedDisabled);
+        // Apply disabled options
+        setDisabledOptions(availability.disabledOptionIds, availability.reasons);
 
         // Step 3.5: Apply rule image overrides
         const { setRuleImageOverrides } = get();
-        if (rulesResult.imageOverrides && (rulesResult.imageOverrides.vertical_image || rulesResult.imageOverrides.horizontal_image)) {
+        const { imageOverrides, setValues } = availability;
+        if (imageOverrides.vertical_image || imageOverrides.horizontal_image) {
           if (import.meta.env.DEV) {
-            console.log('⚙️ Applying rule image overrides:', rulesResult.imageOverrides);
+            console.log('⚙️ Applying rule image overrides:', imageOverrides);
           }
-          setRuleImageOverrides(rulesResult.imageOverrides);
+          setRuleImageOverrides(imageOverrides);
         } else {
           // Clear image overrides if no rules set them
           setRuleImageOverrides({});
@@ -237,12 +265,12 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
 
         // Step 4: Apply rule-set values to configuration automatically
         let ruleChangedConfig = false;
-        if (rulesResult.setValues && Object.keys(rulesResult.setValues).length > 0) {
+        if (Object.keys(setValues).length > 0) {
           if (import.meta.env.DEV) {
-            console.log('⚙️ Applying rule-set values to configuration:', rulesResult.setValues);
+            console.log('⚙️ Applying rule-set values to configuration:', setValues);
           }
 
-          for (const [field, value] of Object.entries(rulesResult.setValues)) {
+          for (const [field, value] of Object.entries(setValues)) {
             updateConfiguration(field as any, value.toString());
           }
           ruleChangedConfig = true;
@@ -252,6 +280,7 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
         // This is the key fix: validate WITHIN the loop, not just at the end
         const configBeforeValidation = get().currentConfig;
         await validateAndAdjustSelections();
+        if (isStale()) return;
         const configAfterValidation = get().currentConfig;
 
         // Check if anything changed (either by rules or by validation)
@@ -282,8 +311,32 @@ export const createAPISlice = (set: StoreSet, get: StoreGet): APISlice => ({
     } catch (error) {
       console.error('❌ Failed to recompute filtering:', error);
     } finally {
-      setComputingAvailability(false);
+      if (!isStale()) setComputingAvailability(false);
     }
   },
-});
 
+  loadPricingRules: async () => {
+    try {
+      const { getPricingRules } = await import('../../services/supabase');
+      const { normalizePricingRules } = await import('../../services/pricing-engine');
+      const rows = await getPricingRules();
+      const pricingRules = normalizePricingRules(rows);
+
+      set((state) => ({
+        ...state,
+        pricingRules,
+      }));
+
+      if (import.meta.env.DEV) {
+        console.log(`✓ Loaded ${pricingRules.length} pricing rules`);
+      }
+    } catch (error) {
+      // Pricing is informational; the configurator keeps working without it
+      console.error('❌ Failed to load pricing rules:', error);
+      set((state) => ({
+        ...state,
+        pricingRules: [],
+      }));
+    }
+  },
+});
@@ -16,8 +16,24 @@ import {
   DecoProduct,
   AdjustmentNotification,
   SkuSearchResult,
+  ProductOptions,
 } from "../types";
 import { generateSku } from "@/services/sku-generator";
+import { getTranslator } from "@/i18n/translator";
+
+// Option list holding each selection's display name
+const DISPLAY_NAME_OPTIONS: Partial<
+  Record<keyof ProductConfig, keyof ProductOptions>
+> = {
+  mirrorStyle: "mirrorStyles",
+  lighting: "lightingOptions",
+  frameColor: "frameColors",
+  frameThickness: "frameThickness",
+  mounting: "mountingOptions",
+  colorTemperature: "colorTemperatures",
+  lightOutput: "lightOutputs",
+  driver: "drivers",
+};
 
 export const createConfigurationSlice = (
   set: StoreSet,
@@ -35,6 +51,7 @@ export const createConfigurationSlice = (
     skuSearchResults: [],
     isSearchingSku: false,
     skuSearchError: null,
+    pendingConfigurationRestore: null,
     // Actions
     updateConfiguration: (field: keyof ProductConfig, value: any) => {
       set((state) => {
@@ -347,64 +364,19 @@ export const createConfigurationSlice = (
             if (adjustment.suggestedValue) {
               // Get display names for the values
               const { productOptions } = get();
+              const translator = getTranslator(get());
               const getDisplayName = (
                 field: keyof ProductConfig,
                 value: string,
               ): string => {
-                if (!productOptions) return value;
-
-                switch (field) {
-                  case "mirrorStyle":
-                    return (
-                      productOptions.mirrorStyles.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "lighting":
-                    return (
-                      productOptions.lightingOptions.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "frameColor":
-                    return (
-                      productOptions.frameColors.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "frameThickness":
-                    return (
-                      productOptions.frameThickness.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "mounting":
-                    return (
-                      productOptions.mountingOptions.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "colorTemperature":
-                    return (
-                      productOptions.colorTemperatures.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "lightOutput":
-                    return (
-                      productOptions.lightOutputs.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  case "driver":
-                    return (
-                      productOptions.drivers.find(
-                        (opt) => opt.id.toString() === value,
-                      )?.name || value
-                    );
-                  default:
-                    return value;
-                }
+                const optionsKey = DISPLAY_NAME_OPTIONS[field];
+                if (!productOptions || !optionsKey) return value;
+                const option = productOptions[optionsKey].find(
+                  (opt) => opt.id.toString() === value,
+                );
+                return option
+                  ? translator.localizeOption(optionsKey, option).name
+                  : value;
               };
 
               const oldDisplayName = getDisplayName(
@@ -420,7 +392,7 @@ export const createConfigurationSlice = (
                 field: adjustment.field,
                 oldValue: oldDisplayName,
                 newValue: newDisplayName,
-                reason: `Selection became ${adjustment.reason} due to dynamic filtering`,
+                reason: translator.t(`adjustment.reason.${adjustment.reason}`),
                 timestamp: Date.now(),
               });
             }
@@ -649,5 +621,84 @@ export const createConfigurationSlice = (
         isSearchingSku: false,
       }));
     },
+
+    // Applies the configuration saved by a previous session once its product line's
+    // options are loaded. Options that are no longer offered are replaced with the
+    // first available one (or cleared); rule conflicts are then resolved by the usual
+    // filtering pass.
+    restorePendingConfiguration: async () => {
+      const {
+        pendingConfigurationRestore: pending,
+        currentProductLine,
+        currentConfig,
+        productOptions,
+        recomputeFiltering,
+        setCustomSizeEnabled,
+        addAdjustmentNotification,
+      } = get();
+      if (!pending) return false;
+
+      set((state) => ({ ...state, pendingConfigurationRestore: null }));
+
+      if (
+        !currentProductLine ||
+        !currentConfig ||
+        !productOptions ||
+        pending.productLineId !== currentProductLine.id
+      ) {
+        return false;
+      }
+
+      // Start from the freshly reset configuration so fields added since the
+      // configuration was saved keep their defaults
+      const restored: ProductConfig = {
+        ...currentConfig,
+        ...pending.config,
+        id: currentConfig.id,
+        productLineId: currentProductLine.id,
+        productLineName: currentProductLine.name,
+      };
+
+      // A preset size that is no longer offered falls back to the default size
+      const sizeOffered = productOptions.sizes.some(
+        (size) =>
+          size.width?.toString() === restored.width &&
+          size.height?.toString() === restored.height,
+      );
+      if (!pending.useCustomSize && !sizeOffered) {
+        restored.width = currentConfig.width;
+        restored.height = currentConfig.height;
+      }
+
+      const { validateCurrentSelections } = await import(
+        "../../services/selection-validator"
+      );
+      const validation = await validateCurrentSelections(
+        restored,
+        currentProductLine,
+        {},
+        { requireOffered: true, productOptions },
+      );
+      const config = validation.adjustedConfig ?? restored;
+
+      validation.invalidSelections.forEach((selection) => {
+        addAdjustmentNotification({
+          field: selection.field,
+          oldValue: selection.currentValue,
+          newValue: selection.suggestedValue ?? "",
+          reason: getTranslator(get()).t("adjustment.savedUnavailable"),
+          timestamp: Date.now(),
+        });
+      });
+
+      set((state) => ({ ...state, currentConfig: config }));
+      setCustomSizeEnabled(pending.useCustomSize);
+      await recomputeFiltering(currentProductLine, config);
+      return true;
+    },
+
+    discardPendingConfiguration: () => {
+      set((state) => ({ ...state, pendingConfigurationRestore: null }));
+    },
   };
 };
@@ -4,102 +4,399 @@
  * Manages quote-related state including quote items, customer information,
  * and quote management actions. This slice handles all functionality related
  * to building and managing product quotes.
+ *
+ * Each quote line keeps its full configuration and product line. A line can be
+ * reopened in the configurator (editingQuoteItemId) and written back in place with
+ * updateQuoteItem, keeping its id, note and room tag.
  */
 
-import { QuoteSlice, ProductConfig, CustomerInfo, StoreSet, StoreGet } from '../types';
+import {
+  QuoteSlice,
+  QuoteItem,
+  QuoteItemDetails,
+  QuoteLineDraft,
+  ProductConfig,
+  CustomerInfo,
+  StoreSet,
+  StoreGet,
+} from '../types';
+import { calculateConfigurationPrice, calculateQuoteTotal } from '../../services/pricing-engine';
+import { isCustomSize } from '../../services/quote-submission';
+import { summarizeConfiguration } from '../../services/quote-document';
+import { getTranslator } from '../../i18n/translator';
 
-export const createQuoteSlice = (set: StoreSet, get: StoreGet): QuoteSlice => ({
-  // State
-  quoteItems: [],
-  customerInfo: {
-    name: "",
-    email: "",
-    company: "",
-    phone: "",
-  },
+const clampQuantity = (quantity: number) => Math.max(1, Math.min(100, quantity || 1));
 
-  // Actions
-  addToQuote: (config: ProductConfig) => {
-    set((state) => ({
-      ...state,
-      quoteItems: [
-        ...state.quoteItems,
-        config, // Use the config as-is, including the id that was passed in
-      ],
-    }));
-  },
+const createQuoteItemId = () =>
+  `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
-  removeFromQuote: (configId: string) => {
-    set((state) => ({
-      ...state,
-      quoteItems: state.quoteItems.filter((item) => item.id !== configId),
-    }));
-  },
+const emptyCustomerInfo = (): CustomerInfo => ({
+  name: "",
+  email: "",
+  company: "",
+  phone: "",
+});
 
-  updateQuoteItemQuantity: (configId: string, quantity: number) => {
-    set((state) => ({
-      ...state,
-      quoteItems: state.quoteItems.map((item) =>
-        item.id === configId
-          ? { ...item, quantity: Math.max(1, Math.min(100, quantity)) }
-          : item
-      ),
-    }));
-  },
+export const createQuoteSlice = (set: StoreSet, get: StoreGet): QuoteSlice => {
+  // Snapshot the unit price so later pricing changes don't alter existing quote lines.
+  // Without a base price the breakdown only holds option add-ons, so the line is left
+  // unpriced (price on request) rather than under-priced.
+  // Lines built outside the configurator pass their own product and options.
+  const snapshotLine = (
+    config: ProductConfig,
+    context: Pick<QuoteLineDraft, 'product' | 'productOptions'> = {
+      product: get().currentProduct,
+      productOptions: get().productOptions,
+    }
+  ) => {
+    const { pricingRules } = get();
+    const productOptions = context.productOptions ?? null;
+    const breakdown = pricingRules
+      ? calculateConfigurationPrice(pricingRules, {
+          config,
+          product: context.product ?? null,
+          productOptions,
+        })
+      : null;
 
-  clearQuote: () => {
-    set((state) => ({
-      ...state,
-      quoteItems: [],
-    }));
-  },
+    const priced = breakdown?.isComplete ? breakdown : null;
 
-  updateCustomerInfo: (field: keyof CustomerInfo, value: string) => {
-    set((state) => ({
-      ...state,
-      customerInfo: {
-        ...state.customerInfo,
-        [field]: value,
-      },
-    }));
-  },
+    return {
+      unitPrice: priced?.unitPrice ?? null,
+      priceValidTo: priced?.validTo ?? null,
+      customSize: productOptions ? isCustomSize(config, productOptions.sizes) : false,
+    };
+  };
 
-  setCustomerInfo: (info: CustomerInfo) => {
+  const updateLine = (itemId: string, update: (item: QuoteItem) => QuoteItem) => {
     set((state) => ({
       ...state,
-      customerInfo: info,
+      quoteItems: state.quoteItems.map((item) => (item.id === itemId ? update(item) : item)),
     }));
-  },
+  };
 
-  resetCustomerInfo: () => {
-    set((state) => ({
-      ...state,
-      customerInfo: {
-        name: "",
-        email: "",
-        company: "",
-        phone: "",
-      },
-    }));
-  },
-
-  // Computed functions
-  getTotalItems: () => {
-    const { quoteItems } = get();
-    return quoteItems.reduce((total, item) => total + (item.quantity || 1), 0);
-  },
-
-  getQuoteDescription: (config: ProductConfig) => {
-    const { productOptions } = get();
-    if (!productOptions) return "";
-
-    const frameThickness = productOptions.frameThickness.find(
-      (c) => c.id.toString() === config.frameThickness
-    )?.name;
-    const mounting = productOptions.mountingOptions.find(
-      (m) => m.id.toString() === config.mounting
-    )?.name;
-
-    return `${config.productLineName} ${frameThickness || ""} ${mounting || ""} ${config.width}"×${config.height}"`;
-  },
-});
\ No newline at end of file
+  return {
+    // State
+    quoteItems: [],
+    editingQuoteItemId: null,
+    customerInfo: emptyCustomerInfo(),
+
+    // Actions
+    addToQuote: (config: ProductConfig, sku: string, details: QuoteItemDetails = {}) => {
+      const { currentProductLine } = get();
+      const now = new Date().toISOString();
+      const item: QuoteItem = {
+        id: createQuoteItemId(),
+        sku,
+        config: { ...config },
+        productLine: currentProductLine ?? {
+          id: config.productLineId,
+          name: config.productLineName,
+          sku_code: "",
+          active: true,
+        },
+        quantity: clampQuantity(config.quantity),
+        ...snapshotLine(config),
+        note: details.note?.trim() ?? "",
+        room: details.room?.trim() ?? "",
+        addedAt: now,
+        updatedAt: now,
+      };
+
+      set((state) => ({
+        ...state,
+        quoteItems: [...state.quoteItems, item],
+      }));
+      return item.id;
+    },
+
+    addQuoteItems: (lines: QuoteLineDraft[]) => {
+      const now = new Date().toISOString();
+      const items = lines.map(
+        (line): QuoteItem => ({
+          id: createQuoteItemId(),
+          sku: line.sku,
+          config: { ...line.config },
+          productLine: line.productLine,
+          quantity: clampQuantity(line.config.quantity),
+          ...snapshotLine(line.config, line),
+          note: line.details?.note?.trim() ?? "",
+          room: line.details?.room?.trim() ?? "",
+          addedAt: now,
+          updatedAt: now,
+        })
+      );
+
+      set((state) => ({
+        ...state,
+        quoteItems: [...state.quoteItems, ...items],
+      }));
+      return items.map((item) => item.id);
+    },
+
+    // Prices in an exported quote file are not trusted: lines load unpriced and callers
+    // reprice them (repriceQuoteItems) and flag retired options (revalidateQuoteItems)
+    importQuoteItems: (items: QuoteItem[], options: { replace?: boolean } = {}) => {
+      const now = new Date().toISOString();
+      const imported = items.map((item) => ({
+        ...item,
+        id: createQuoteItemId(),
+        config: { ...item.config },
+        unitPrice: null,
+        priceValidTo: null,
+        addedAt: now,
+        updatedAt: now,
+      }));
+
+      set((state) => ({
+        ...state,
+        quoteItems: options.replace ? imported : [...state.quoteItems, ...imported],
+        editingQuoteItemId: options.replace ? null : state.editingQuoteItemId,
+      }));
+      return imported.map((item) => item.id);
+    },
+
+    updateQuoteItem: (itemId: string, config: ProductConfig, sku: string) => {
+      const { currentProductLine } = get();
+      const snapshot = snapshotLine(config);
+
+      updateLine(itemId, (item) => ({
+        ...item,
+        sku,
+        config: { ...config },
+        unavailableOptions: undefined,
+        productLine: currentProductLine ?? item.productLine,
+        quantity: clampQuantity(config.quantity),
+        ...snapshot,
+        updatedAt: new Date().toISOString(),
+      }));
+      set((state) => ({
+        ...state,
+        editingQuoteItemId: state.editingQuoteItemId === itemId ? null : state.editingQuoteItemId,
+      }));
+    },
+
+    reopenQuoteItem: async (itemId: string) => {
+      const item = get().quoteItems.find((line) => line.id === itemId);
+      if (!item) return false;
+
+      const { currentProductLine, availableProductLines, loadProductLineOptions, setCurrentProductLine } = get();
+      const productLine =
+        availableProductLines.find((line) => line.id === item.productLine.id) ?? item.productLine;
+
+      try {
+        if (currentProductLine?.id !== productLine.id) {
+          // Loads the line's options and resets the configuration before it is restored
+          await loadProductLineOptions(productLine);
+        } else {
+          setCurrentProductLine(productLine);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to reopen quote line ${itemId}:`, error);
+        return false;
+      }
+
+      const { updateConfiguration, setCustomSizeEnabled } = get();
+      if (!get().currentConfig) return false;
+
+      (Object.keys(item.config) as Array<keyof ProductConfig>).forEach((field) => {
+        updateConfiguration(field, item.config[field]);
+      });
+      updateConfiguration("quantity", item.quantity);
+      setCustomSizeEnabled(item.customSize);
+
+      set((state) => ({
+        ...state,
+        editingQuoteItemId: itemId,
+      }));
+
+      const { currentConfig, recomputeFiltering } = get();
+      if (currentConfig) {
+        await recomputeFiltering(productLine, currentConfig);
+      }
+      return true;
+    },
+
+    cancelQuoteItemEdit: () => {
+      set((state) => ({
+        ...state,
+        editingQuoteItemId: null,
+      }));
+    },
+
+    duplicateQuoteItem: (itemId: string) => {
+      const index = get().quoteItems.findIndex((item) => item.id === itemId);
+      if (index < 0) return null;
+
+      const now = new Date().toISOString();
+      const source = get().quoteItems[index];
+      const copy: QuoteItem = {
+        ...source,
+        id: createQuoteItemId(),
+        config: { ...source.config },
+        addedAt: now,
+        updatedAt: now,
+      };
+
+      set((state) => ({
+        ...state,
+        quoteItems: [
+          ...state.quoteItems.slice(0, index + 1),
+          copy,
+          ...state.quoteItems.slice(index + 1),
+        ],
+      }));
+      return copy.id;
+    },
+
+    updateQuoteItemDetails: (itemId: string, details: QuoteItemDetails) => {
+      updateLine(itemId, (item) => ({
+        ...item,
+        note: details.note !== undefined ? details.note : item.note,
+        room: details.room !== undefined ? details.room : item.room,
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    // Prices lines the configurator did not price itself, e.g. imported ones, against their
+    // own product line options and matching product. Lines changed meanwhile are skipped.
+    repriceQuoteItems: async (itemIds: string[]) => {
+      const lines = get().quoteItems.filter((item) => itemIds.includes(item.id));
+      if (lines.length === 0) return;
+
+      const { loadQuoteDocumentData } = await import('../../services/quote-document');
+      const { productOptionsByLine, productsByItem } = await loadQuoteDocumentData(lines);
+
+      const repriced = new Map(
+        lines.map((line) => [
+          line.id,
+          {
+            updatedAt: line.updatedAt,
+            ...snapshotLine(line.config, {
+              product: productsByItem[line.id] ?? null,
+              productOptions: productOptionsByLine[line.productLine.id] ?? null,
+            }),
+          },
+        ])
+      );
+
+      set((state) => ({
+        ...state,
+        quoteItems: state.quoteItems.map((item) => {
+          const line = repriced.get(item.id);
+          if (!line || line.updatedAt !== item.updatedAt) return item;
+          return { ...item, unitPrice: line.unitPrice, priceValidTo: line.priceValidTo, customSize: line.customSize };
+        }),
+      }));
+    },
+
+    // Flags lines whose options are no longer offered by their product line, e.g. after
+    // a saved quote is restored; the line keeps its SKU and price until it is re-opened
+    revalidateQuoteItems: async () => {
+      const { quoteItems } = get();
+      if (quoteItems.length === 0) return;
+
+      const [{ fetchProductOptions }, { findUnavailableSelections }] = await Promise.all([
+        import('../../services/product-options'),
+        import('../../services/selection-validator'),
+      ]);
+
+      const unavailableByLine = new Map<string, string[]>();
+      const productLineIds = [...new Set(quoteItems.map((item) => item.productLine.id))];
+      for (const productLineId of productLineIds) {
+        try {
+          const productOptions = await fetchProductOptions(productLineId);
+          quoteItems
+            .filter((item) => item.productLine.id === productLineId)
+            .forEach((item) => {
+              const fields = findUnavailableSelections(item.config, productOptions).map((selection) => selection.field);
+              if (fields.length > 0) unavailableByLine.set(item.id, fields);
+            });
+        } catch (error) {
+          console.error(`❌ Failed to revalidate quote lines for product line ${productLineId}:`, error);
+          return;
+        }
+      }
+
+      const changed = get().quoteItems.some(
+        (item) => (item.unavailableOptions ?? []).join() !== (unavailableByLine.get(item.id) ?? []).join()
+      );
+      if (!changed) return;
+
+      set((state) => ({
+        ...state,
+        quoteItems: state.quoteItems.map((item) => ({
+          ...item,
+          unavailableOptions: unavailableByLine.get(item.id),
+        })),
+      }));
+    },
+
+    removeFromQuote: (itemId: string) => {
+      set((state) => ({
+        ...state,
+        quoteItems: state.quoteItems.filter((item) => item.id !== itemId),
+        editingQuoteItemId: state.editingQuoteItemId === itemId ? null : state.editingQuoteItemId,
+      }));
+    },
+
+    updateQuoteItemQuantity: (itemId: string, quantity: number) => {
+      updateLine(itemId, (item) => ({
+        ...item,
+        quantity: clampQuantity(quantity),
+        config: { ...item.config, quantity: clampQuantity(quantity) },
+      }));
+    },
+
+    clearQuote: () => {
+      set((state) => ({
+        ...state,
+        quoteItems: [],
+        editingQuoteItemId: null,
+      }));
+    },
+
+    updateCustomerInfo: (field: keyof CustomerInfo, value: string) => {
+      set((state) => ({
+        ...state,
+        customerInfo: {
+          ...state.customerInfo,
+          [field]: value,
+        },
+      }));
+    },
+
+    setCustomerInfo: (info: CustomerInfo) => {
+      set((state) => ({
+        ...state,
+        customerInfo: info,
+      }));
+    },
+
+    resetCustomerInfo: () => {
+      set((state) => ({
+        ...state,
+        customerInfo: emptyCustomerInfo(),
+      }));
+    },
+
+    // Computed functions
+    getTotalItems: () => {
+      const { quoteItems } = get();
+      return quoteItems.reduce((total, item) => total + (item.quantity || 1), 0);
+    },
+
+    getQuoteTotal: () => {
+      const { quoteItems } = get();
+      return calculateQuoteTotal(quoteItems);
+    },
+
+    getQuoteDescription: (config: ProductConfig) => {
+      const { productOptions, sizeUnit } = get();
+      const { formatSize } = getTranslator(get());
+      return summarizeConfiguration(config, productOptions, (width, height) =>
+        formatSize(width, height, sizeUnit),
+      );
+    },
+  };
+};
@@ -7,8 +7,10 @@
  */
 
 import { UISlice, StoreSet, StoreGet } from '../types';
+import { DEFAULT_THEME } from '../../services/theme';
+import { DEFAULT_LOCALE, matchLocale } from '../../i18n/locale';
 
-export const createUISlice = (set: StoreSet, _get: StoreGet): UISlice => ({
+export const createUISlice = (set: StoreSet, get: StoreGet): UISlice => ({
   // State
   showQuoteForm: false,
   showFloatingBar: false,
@@ -17,6 +19,10 @@ export const createUISlice = (set: StoreSet, _get: StoreGet): UISlice => ({
   useCustomSize: false,
   canScrollLeft: false,
   canScrollRight: false,
+  theme: DEFAULT_THEME,
+  locale: DEFAULT_LOCALE,
+  optionTranslations: {},
+  sizeUnit: 'in',
 
   // Actions
   toggleQuoteForm: () => {
@@ -77,4 +83,38 @@ export const createUISlice = (set: StoreSet, _get: StoreGet): UISlice => ({
       useCustomSize: enabled,
     }));
   },
+
+  setTheme: (theme) => {
+    set((state) => ({
+      ...state,
+      theme,
+    }));
+  },
+
+  setSizeUnit: (sizeUnit) => {
+    set((state) => ({
+      ...state,
+      sizeUnit,
+    }));
+  },
+
+  setLocale: async (requested) => {
+    const locale = matchLocale(requested) ?? DEFAULT_LOCALE;
+    if (locale === get().locale) return;
+
+    set((state) => ({
+      ...state,
+      locale,
+      optionTranslations: {},
+    }));
+
+    const { fetchOptionTranslations } = await import('../../services/option-translations');
+    const optionTranslations = await fetchOptionTranslations(locale);
+    // Another switch may have happened while loading
+    if (get().locale !== locale) return;
+    set((state) => ({
+      ...state,
+      optionTranslations,
+    }));
+  },
 });
@@ -6,6 +6,11 @@
  */
 
 import type { Database } from "../../supabase";
+import type { PricingRule } from "../services/pricing-engine";
+import type { ConfiguratorTheme } from "../services/theme";
+import type { OptionTranslations } from "../i18n/translator";
+import type { LengthUnit } from "../services/units";
+import type { SizeEnvelopeRow } from "../services/supabase";
 
 // ProductLine type fetched from Supabase product_lines table
 export interface ProductLine {
@@ -124,6 +129,41 @@ export interface SkuSuggestion {
   productLineId: number | null;
 }
 
+// One line of the quote cart. The full configuration and product line are kept so the
+// line can be reopened in the configurator and updated in place.
+export interface QuoteItem {
+  id: string; // Line id; stays the same when the line is edited
+  sku: string;
+  config: ProductConfig;
+  productLine: ProductLine;
+  quantity: number;
+  unitPrice: number | null; // Price snapshot, refreshed when the line is edited
+  priceValidTo: string | null; // When the pricing behind unitPrice lapses
+  customSize: boolean;
+  note: string;
+  room: string; // Free-text room tag, e.g. "Bathroom 2F"
+  addedAt: string;
+  updatedAt: string;
+  // Config fields whose options are no longer offered (set when a saved quote is restored)
+  unavailableOptions?: string[];
+}
+
+export interface QuoteItemDetails {
+  note?: string;
+  room?: string;
+}
+
+// A line resolved outside the configurator (e.g. by the bulk SKU import), priced
+// against its own product rather than the one currently configured
+export interface QuoteLineDraft {
+  config: ProductConfig;
+  sku: string;
+  productLine: ProductLine;
+  product?: DecoProduct | null;
+  productOptions?: ProductOptions | null;
+  details?: QuoteItemDetails;
+}
+
 export interface CustomerInfo {
   name: string;
   email: string;
@@ -175,6 +215,13 @@ export interface AdjustmentNotification {
   timestamp: number;
 }
 
+// A configuration restored from storage, applied once its product line is loaded
+export interface PendingConfigurationRestore {
+  config: ProductConfig;
+  productLineId: number;
+  useCustomSize: boolean;
+}
+
 // Configuration Slice Types
 export interface ConfigurationSlice {
   // State
@@ -188,6 +235,7 @@ export interface ConfigurationSlice {
   skuSearchResults: SkuSearchResult[];
   isSearchingSku: boolean;
   skuSearchError: string | null;
+  pendingConfigurationRestore: PendingConfigurationRestore | null;
 
   // Actions
   updateConfiguration: (field: keyof ProductConfig, value: any) => void;
@@ -203,6 +251,8 @@ export interface ConfigurationSlice {
   searchBySku: (query: string) => Promise<SkuSearchResult[]>;
   applySkuResult: (result: SkuSearchResult) => Promise<void>;
   clearSkuSearch: () => void;
+  restorePendingConfiguration: () => Promise<boolean>;
+  discardPendingConfiguration: () => void;
 
   // Computed (implemented as functions that can access get())
   isConfigurationValid: () => boolean;
@@ -223,6 +273,15 @@ export interface UISlice {
   canScrollLeft: boolean;
   canScrollRight: boolean;
 
+  // Dealer branding (not persisted; loaded at init)
+  theme: ConfiguratorTheme;
+
+  // Language (BCP 47 tag) and the option names/descriptions loaded for it
+  locale: string;
+  optionTranslations: OptionTranslations;
+  // Unit custom sizes are entered and dimensions shown in (stored sizes stay in inches)
+  sizeUnit: LengthUnit;
+
   // Actions
   toggleQuoteForm: () => void;
   setQuoteFormVisible: (visible: boolean) => void;
@@ -232,8 +291,37 @@ export interface UISlice {
   setScrollState: (left: boolean, right: boolean) => void;
   toggleCustomSize: () => void;
   setCustomSizeEnabled: (enabled: boolean) => void;
+  setTheme: (theme: ConfiguratorTheme) => void;
+  // Switch language (unsupported locales fall back to English) and load its option translations
+  setLocale: (locale: string) => Promise<void>;
+  setSizeUnit: (unit: LengthUnit) => void;
 }
 
+// Why an option is disabled: a matching rule, upstream selections that left no products,
+// or a size requirement
+export type DisabledReason =
+  | {
+      source: 'rule';
+      ruleId: string;
+      ruleName: string;
+      effect: 'set' | 'exclude'; // set: the rule forces another value; exclude: _neq / _nin
+    }
+  | {
+      source: 'availability';
+      // Upstream selections (see facet-engine) that remove the option; empty when the
+      // product line has no products with it at all
+      upstream: Array<{ field: string; value: string }>;
+    }
+  | {
+      source: 'size';
+      // A size envelope requirement the configured size exceeds (see services/size-envelope)
+      dimension: 'width' | 'height' | 'either';
+      above: number;
+    };
+
+// Mirrors disabledOptionIds: key -> option id -> reasons
+export type DisabledOptionReasons = Record<string, Record<number, DisabledReason[]>>;
+
 // API Slice Types
 export interface APISlice {
   // Data
@@ -241,7 +329,11 @@ export interface APISlice {
   availableProductLines: ProductLine[];
   configurationUI: ConfigurationUIItem[];
   disabledOptionIds: Record<string, number[]>;
+  disabledOptionReasons: DisabledOptionReasons;
   ruleImageOverrides: { vertical_image?: string; horizontal_image?: string };
+  pricingRules: PricingRule[] | null; // null until configuration_pricing has been loaded
+  sizeEnvelopes: SizeEnvelopeRow[]; // size_envelopes rows for the current product line
+  optionCounts: Record<string, Record<number, number>>; // collection -> option id -> matching products
 
   // Loading States
   isLoadingApp: boolean;
@@ -255,7 +347,10 @@ export interface APISlice {
   setProductOptions: (options: ProductOptions) => void;
   setAvailableProductLines: (lines: ProductLine[]) => void;
   setConfigurationUI: (configUI: ConfigurationUIItem[]) => void;
-  setDisabledOptions: (disabled: Record<string, number[]>) => void;
+  setDisabledOptions: (
+    disabled: Record<string, number[]>,
+    reasons?: DisabledOptionReasons,
+  ) => void;
   setRuleImageOverrides: (overrides: {
     vertical_image?: string;
     horizontal_image?: string;
@@ -275,18 +370,29 @@ export interface APISlice {
     productLine: ProductLine,
     config: ProductConfig,
   ) => Promise<void>;
+  loadPricingRules: () => Promise<void>;
 }
 
 // Quote Slice Types
 export interface QuoteSlice {
   // State
-  quoteItems: ProductConfig[];
+  quoteItems: QuoteItem[];
+  editingQuoteItemId: string | null; // Line currently reopened in the configurator
   customerInfo: CustomerInfo;
 
   // Actions
-  addToQuote: (config: ProductConfig) => void;
-  removeFromQuote: (configId: string) => void;
-  updateQuoteItemQuantity: (configId: string, quantity: number) => void;
+  addToQuote: (config: ProductConfig, sku: string, details?: QuoteItemDetails) => string;
+  addQuoteItems: (lines: QuoteLineDraft[]) => string[];
+  importQuoteItems: (items: QuoteItem[], options?: { replace?: boolean }) => string[];
+  updateQuoteItem: (itemId: string, config: ProductConfig, sku: string) => void;
+  reopenQuoteItem: (itemId: string) => Promise<boolean>;
+  cancelQuoteItemEdit: () => void;
+  duplicateQuoteItem: (itemId: string) => string | null;
+  updateQuoteItemDetails: (itemId: string, details: QuoteItemDetails) => void;
+  repriceQuoteItems: (itemIds: string[]) => Promise<void>;
+  revalidateQuoteItems: () => Promise<void>;
+  removeFromQuote: (itemId: string) => void;
+  updateQuoteItemQuantity: (itemId: string, quantity: number) => void;
   clearQuote: () => void;
   updateCustomerInfo: (field: keyof CustomerInfo, value: string) => void;
   setCustomerInfo: (info: CustomerInfo) => void;
@@ -294,6 +400,7 @@ export interface QuoteSlice {
 
   // Computed
   getTotalItems: () => number;
+  getQuoteTotal: () => number;
   getQuoteDescription: (config: ProductConfig) => string;
 }
 
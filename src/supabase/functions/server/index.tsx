@@ -3,6 +3,15 @@ import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js";
 import * as kv from "./kv_store.tsx";
+import {
+  EXPIRABLE_QUOTE_STATUSES,
+  SYSTEM_ACTOR,
+  describeIllegalTransition,
+  isQuoteExpired,
+  normalizeQuoteStatus,
+} from "./quote_lifecycle.tsx";
+// The pricing engine the app shows prices with, so stored quote prices never come from the client
+import { calculateConfigurationPrice, normalizePricingRules } from "./pricing.tsx";
 const app = new Hono();
 
 // Initialize Supabase client for direct database access with unlimited query settings
@@ -676,31 +685,500 @@ app.get("/make-server-8bb96920/skus/all", async (c) => {
 });
 
 // Quote endpoints
-app.post("/make-server-8bb96920/quotes", async (c) => {
+//
+// A submitted quote becomes one `quotes` row plus one `quote_items` row per configured
+// product. Clients send a `submissionKey` with each submission; a retry with the same
+// key returns the quote created by the first attempt instead of creating another one.
+// Line prices, the total and valid_until are computed here from configuration_pricing;
+// the unitPrice and validUntil a client sends are only validated.
+//
+// Status changes follow the lifecycle in ./quote_lifecycle.tsx and are recorded in
+// quote_status_history. Open quotes expire once their pricing valid_until passes.
+// Only staff may change a status: callers send their session JWT as a Bearer token and
+// need a staff role in their app_metadata, which only the service role can set. Reading
+// a quote takes either a staff session or the access token returned at submission.
+
+const STAFF_ROLES = ['staff', 'admin'];
+
+// The user whose session JWT the request carries, or null
+const getSessionUser = async (c) => {
+  const token = /^Bearer\s+(.+)$/i.exec(c.req.header('Authorization') || '')?.[1];
+  if (!token) return null;
+  // The anon key is a valid JWT but not a user session, so getUser rejects it too
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data?.user ?? null;
+};
+
+const isStaff = (user) => !!user && STAFF_ROLES.includes(user.app_metadata?.role);
+
+// Rejects callers without a staff session; the verified user is available as c.get('staffUser')
+const requireStaff = async (c, next) => {
+  const user = await getSessionUser(c);
+  if (!user) {
+    return c.json({ error: 'Sign in to manage quotes' }, 401);
+  }
+  if (!isStaff(user)) {
+    return c.json({ error: 'Only staff can manage quotes' }, 403);
+  }
+  c.set('staffUser', user);
+  await next();
+};
+
+const staffActor = (user) => user.email || user.id;
+
+const formatQuoteNumber = (id) => `Q-${String(id).padStart(6, '0')}`;
+
+// Accepts a numeric id or a quote number (Q-000123)
+const parseQuoteId = (value) => {
+  const match = /^(?:Q-)?(\d+)$/i.exec(value.trim());
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const customerNameFrom = (customerInfo) => {
+  const fullName = [customerInfo.firstName, customerInfo.lastName]
+    .filter((part) => typeof part === 'string' && part.trim())
+    .map((part) => part.trim())
+    .join(' ');
+  return fullName || (typeof customerInfo.name === 'string' ? customerInfo.name.trim() : '');
+};
+
+const isValidTimestamp = (value) => typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const validateQuoteSubmission = (body) => {
+  const errors = [];
+  const { quoteItems, customerInfo, submissionKey, validUntil } = body || {};
+
+  if (!customerInfo || typeof customerInfo !== 'object') {
+    errors.push('customerInfo is required');
+  } else {
+    if (!customerNameFrom(customerInfo)) errors.push('customerInfo.name is required');
+    if (typeof customerInfo.email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(customerInfo.email.trim())) {
+      errors.push('customerInfo.email must be a valid email address');
+    }
+  }
+
+  if (submissionKey !== undefined && (typeof submissionKey !== 'string' || !submissionKey.trim())) {
+    errors.push('submissionKey must be a non-empty string');
+  }
+
+  if (validUntil != null && !isValidTimestamp(validUntil)) {
+    errors.push('validUntil must be an ISO timestamp');
+  }
+
+  if (!Array.isArray(quoteItems) || quoteItems.length === 0) {
+    errors.push('quoteItems must contain at least one item');
+  } else {
+    quoteItems.forEach((item, index) => {
+      const sku = item?.sku ?? item?.product ?? item?.id;
+      if (typeof sku !== 'string' || !sku.trim()) errors.push(`quoteItems[${index}].sku is required`);
+      const quantity = item?.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        errors.push(`quoteItems[${index}].quantity must be a positive integer`);
+      }
+      const price = item?.unitPrice ?? item?.price ?? null;
+      if (price !== null && (typeof price !== 'number' || !Number.isFinite(price) || price < 0)) {
+        errors.push(`quoteItems[${index}].unitPrice must be a non-negative number`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// Legacy payloads send { id, product, configuration, price }; current clients send
+// { sku, quantity, unitPrice, isCustom, note, room, configuration }
+const toQuoteItemRow = (quoteId, item, index) => ({
+  quote_id: String(quoteId),
+  product_variant_id: String(item.sku ?? item.product ?? item.id).trim(),
+  quantity: item.quantity ?? 1,
+  price: item.unitPrice ?? item.price ?? null,
+  is_custom: item.isCustom === true,
+  note: typeof item.note === 'string' && item.note.trim() ? item.note.trim() : null,
+  room: typeof item.room === 'string' && item.room.trim() ? item.room.trim() : null,
+  custom_details: JSON.stringify(item.configuration ?? {}),
+  sort: index,
+});
+
+const fromQuoteItemRow = (row) => {
+  let configuration = null;
   try {
-    const { quoteItems, customerInfo } = await c.req.json();
-    
-    const quoteId = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Calculate total
-    const totalPrice = quoteItems.reduce((sum, item) => sum + (item.price || 0), 0);
-    
-    const quoteData = {
-      quoteId,
-      customerInfo,
-      items: quoteItems,
-      totalPrice,
-      createdAt: new Date().toISOString(),
-      status: 'pending'
-    };
-    
-    await kv.set(quoteId, quoteData);
-    
-    console.log(`Quote created with ID: ${quoteId}, Total: $${totalPrice}`);
-    return c.json({ quoteId, totalPrice, message: 'Quote created successfully' });
+    configuration = row.custom_details ? JSON.parse(row.custom_details) : null;
+  } catch {
+    // Rows written before quote submission stored free-text details
+    configuration = { details: row.custom_details };
+  }
+  return {
+    id: row.id,
+    sku: row.product_variant_id,
+    quantity: row.quantity ?? 1,
+    unitPrice: row.price,
+    lineTotal: row.price != null ? row.price * (row.quantity ?? 1) : null,
+    isCustom: row.is_custom === true,
+    note: row.note,
+    room: row.room,
+    configuration,
+  };
+};
+
+const quoteTotalFrom = (quoteItems) => {
+  const priced = quoteItems.filter((item) => (item.unitPrice ?? item.price) != null);
+  if (priced.length === 0) return null;
+  return priced.reduce((sum, item) => sum + (item.unitPrice ?? item.price) * (item.quantity ?? 1), 0);
+};
+
+// Prices every submitted line from configuration_pricing, ignoring the unitPrice the
+// client sent. The product comes from sku_index, so product-specific base prices apply;
+// lines without a configuration or a base price are left unpriced (price on request).
+// Returns the repriced lines and the earliest valid_to of the pricing applied.
+const repriceQuoteItems = async (quoteItems, now = new Date()) => {
+  const { data: pricingRows, error: pricingError } = await supabase
+    .from('configuration_pricing')
+    .select('*')
+    .eq('is_active', true);
+  if (pricingError) throw pricingError;
+  const rules = normalizePricingRules(pricingRows || []);
+
+  const skus = [...new Set(quoteItems.map((item) => String(item.sku ?? item.product ?? item.id).trim()))];
+  const { data: indexRows, error: indexError } = await supabase
+    .from('sku_index')
+    .select('sku_code, product_id')
+    .in('sku_code', skus);
+  if (indexError) throw indexError;
+
+  const productIds = [...new Set((indexRows || []).map((row) => row.product_id))];
+  const { data: products, error: productsError } = productIds.length > 0
+    ? await supabase.from('products').select('id, name').in('id', productIds)
+    : { data: [], error: null };
+  if (productsError) throw productsError;
+
+  const productBySku = new Map(
+    (indexRows || []).map((row) => [row.sku_code, (products || []).find((product) => product.id === row.product_id) ?? null]),
+  );
+
+  let validUntil = null;
+  const items = quoteItems.map((item) => {
+    const configuration = item.configuration;
+    if (!configuration || typeof configuration !== 'object' || !configuration.productLineId) {
+      return { ...item, unitPrice: null, price: null };
+    }
+
+    const sku = String(item.sku ?? item.product ?? item.id).trim();
+    const breakdown = calculateConfigurationPrice(
+      rules,
+      { config: { ...configuration, quantity: item.quantity ?? 1 }, product: productBySku.get(sku) ?? null },
+      now,
+    );
+    if (!breakdown.isComplete) return { ...item, unitPrice: null, price: null };
+
+    if (breakdown.validTo && (!validUntil || breakdown.validTo < validUntil)) validUntil = breakdown.validTo;
+    return { ...item, unitPrice: breakdown.unitPrice, price: breakdown.unitPrice };
+  });
+
+  return { items, validUntil };
+};
+
+const loadQuote = async (id) => {
+  const { data: quote, error: quoteError } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (quoteError) throw quoteError;
+  if (!quote) return null;
+
+  const { data: items, error: itemsError } = await supabase
+    .from('quote_items')
+    .select('*')
+    .eq('quote_id', String(id))
+    .order('sort', { ascending: true });
+  if (itemsError) throw itemsError;
+
+  const { data: history, error: historyError } = await supabase
+    .from('quote_status_history')
+    .select('*')
+    .eq('quote_id', id)
+    .order('created_at', { ascending: true });
+  if (historyError) throw historyError;
+
+  return {
+    id: quote.id,
+    quoteNumber: quote.quote_number ?? formatQuoteNumber(quote.id),
+    status: normalizeQuoteStatus(quote.status) ?? quote.status,
+    statusChangedAt: quote.status_changed_at,
+    validUntil: quote.valid_until,
+    customerInfo: {
+      name: quote.customer_name,
+      email: quote.customer_email,
+      phone: quote.customer_phone,
+      company: quote.customer_company,
+      projectName: quote.project_name,
+      notes: quote.notes,
+    },
+    totalPrice: quote.total_price,
+    createdAt: quote.date_created,
+    updatedAt: quote.date_updated,
+    items: (items || []).map(fromQuoteItemRow),
+    history: (history || []).map((row) => ({
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actor: row.actor,
+      note: row.note,
+      createdAt: row.created_at,
+    })),
+  };
+};
+
+const recordStatusChange = async (quoteId, fromStatus, toStatus, actor, note, at) => {
+  const { error } = await supabase.from('quote_status_history').insert({
+    quote_id: quoteId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    actor,
+    note: note || null,
+    created_at: at,
+  });
+  if (error) throw error;
+};
+
+// Moves a quote from `fromStatus` (its raw stored value) to `toStatus`. The update only
+// applies while the row still has `fromStatus`, so concurrent transitions cannot both
+// win; returns false when another change got there first.
+const transitionQuote = async (quoteId, fromStatus, toStatus, actor, note, changes = {}) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ ...changes, status: toStatus, status_changed_at: now, date_updated: now })
+    .eq('id', quoteId)
+    .eq('status', fromStatus)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  await recordStatusChange(quoteId, normalizeQuoteStatus(fromStatus) ?? fromStatus, toStatus, actor, note, now);
+  return true;
+};
+
+const expiryNote = (validUntil) => `Pricing valid until ${validUntil} has passed`;
+
+// Expires the quote when its pricing window has closed; returns true when it did
+const expireQuoteIfStale = async (quoteRow, now = new Date()) => {
+  if (!isQuoteExpired({ status: quoteRow.status, validUntil: quoteRow.valid_until }, now)) return false;
+  return transitionQuote(quoteRow.id, quoteRow.status, 'expired', SYSTEM_ACTOR, expiryNote(quoteRow.valid_until));
+};
+
+const findQuoteBySubmissionKey = async (submissionKey) => {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('id, access_token')
+    .eq('submission_key', submissionKey)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Only the submitter gets the access token: the first response, or a retry with the same submission key
+const quoteResponse = (quote, accessToken, duplicate) => ({
+  quoteId: quote.id,
+  quoteNumber: quote.quoteNumber,
+  accessToken,
+  totalPrice: quote.totalPrice,
+  quote,
+  duplicate,
+  message: duplicate ? 'Quote already submitted' : 'Quote created successfully',
+});
+
+const createQuote = async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    const errors = validateQuoteSubmission(body);
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid quote submission', details: errors }, 400);
+    }
+
+    const { customerInfo } = body;
+    const submissionKey = body.submissionKey?.trim() || null;
+    const status = body.draft === true ? 'draft' : 'submitted';
+
+    if (submissionKey) {
+      const existing = await findQuoteBySubmissionKey(submissionKey);
+      if (existing) {
+        console.log(`Quote submission ${submissionKey} already stored as quote ${existing.id}`);
+        return c.json(quoteResponse(await loadQuote(existing.id), existing.access_token, true));
+      }
+    }
+
+    const { items: quoteItems, validUntil } = await repriceQuoteItems(body.quoteItems);
+
+    const now = new Date().toISOString();
+    const { data: quoteRow, error: quoteError } = await supabase
+      .from('quotes')
+      .insert({
+        customer_name: customerNameFrom(customerInfo),
+        customer_email: customerInfo.email.trim(),
+        customer_phone: customerInfo.phone?.trim() || null,
+        customer_company: customerInfo.company?.trim() || null,
+        project_name: customerInfo.projectName?.trim() || null,
+        notes: customerInfo.notes?.trim() || null,
+        status,
+        status_changed_at: now,
+        valid_until: validUntil,
+        submission_key: submissionKey,
+        total_price: quoteTotalFrom(quoteItems),
+        date_created: now,
+        date_updated: now,
+      })
+      .select('id, access_token')
+      .single();
+
+    if (quoteError) {
+      // A concurrent retry inserted the same submission key first
+      if (quoteError.code === '23505' && submissionKey) {
+        const existing = await findQuoteBySubmissionKey(submissionKey);
+        if (existing) return c.json(quoteResponse(await loadQuote(existing.id), existing.access_token, true));
+      }
+      throw quoteError;
+    }
+
+    try {
+      const { error: itemsError } = await supabase
+        .from('quote_items')
+        .insert(quoteItems.map((item, index) => toQuoteItemRow(quoteRow.id, item, index)));
+      if (itemsError) throw itemsError;
+
+      await recordStatusChange(
+        quoteRow.id,
+        null,
+        status,
+        customerInfo.email.trim(),
+        status === 'draft' ? 'Draft created' : 'Quote submitted',
+        now,
+      );
+    } catch (error) {
+      // Remove the header row so a retry with the same submission key starts over
+      await supabase.from('quote_items').delete().eq('quote_id', String(quoteRow.id));
+      await supabase.from('quotes').delete().eq('id', quoteRow.id);
+      throw error;
+    }
+
+    const quote = await loadQuote(quoteRow.id);
+    console.log(`Quote ${quote.quoteNumber} created with ${quote.items.length} item(s), Total: $${quote.totalPrice ?? 0}`);
+    return c.json(quoteResponse(quote, quoteRow.access_token, false), 201);
   } catch (error) {
     console.error('Error creating quote:', error);
-    return c.json({ error: 'Failed to create quote' }, 500);
+    return c.json({ error: 'Failed to create quote', details: error.message }, 500);
+  }
+};
+
+app.post("/make-server-8bb96920/quotes", createQuote);
+
+// Query: ?token=<accessToken from submission>, or a staff session instead
+app.get("/make-server-8bb96920/quotes/:id", async (c) => {
+  try {
+    const id = parseQuoteId(c.req.param('id'));
+    if (id === null) {
+      return c.json({ error: 'Invalid quote id' }, 400);
+    }
+
+    const { data: quoteRow, error: quoteError } = await supabase
+      .from('quotes')
+      .select('id, status, valid_until, access_token')
+      .eq('id', id)
+      .maybeSingle();
+    if (quoteError) throw quoteError;
+
+    // Unreadable quotes look missing so ids cannot be probed
+    const token = c.req.query('token');
+    const readable = !!quoteRow && ((!!token && token === quoteRow.access_token) || isStaff(await getSessionUser(c)));
+    if (!readable) {
+      return c.json({ error: 'Quote not found' }, 404);
+    }
+
+    await expireQuoteIfStale(quoteRow);
+    return c.json({ quote: await loadQuote(id) });
+  } catch (error) {
+    console.error(`Error loading quote ${c.req.param('id')}:`, error);
+    return c.json({ error: 'Failed to load quote', details: error.message }, 500);
+  }
+});
+
+// Body: { to, note?, validUntil? }. validUntil may be set when pricing a quote; the
+// actor recorded is the signed-in staff user.
+app.post("/make-server-8bb96920/quotes/:id/transition", requireStaff, async (c) => {
+  try {
+    const id = parseQuoteId(c.req.param('id'));
+    if (id === null) {
+      return c.json({ error: 'Invalid quote id' }, 400);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const { to, note, validUntil } = body || {};
+    const actor = staffActor(c.get('staffUser'));
+    const errors = [];
+    if (typeof to !== 'string' || !to) errors.push('to is required');
+    if (note != null && typeof note !== 'string') errors.push('note must be a string');
+    if (validUntil != null && !isValidTimestamp(validUntil)) errors.push('validUntil must be an ISO timestamp');
+    if (validUntil != null && !['priced', 'sent'].includes(to)) {
+      errors.push('validUntil can only be set when a quote is priced or sent');
+    }
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid transition', details: errors }, 400);
+    }
+
+    const { data: quoteRow, error: quoteError } = await supabase
+      .from('quotes')
+      .select('id, status, valid_until')
+      .eq('id', id)
+      .maybeSingle();
+    if (quoteError) throw quoteError;
+    if (!quoteRow) {
+      return c.json({ error: 'Quote not found' }, 404);
+    }
+
+    // A lapsed quote expires before any other change is considered
+    if (to !== 'expired' && await expireQuoteIfStale(quoteRow)) {
+      return c.json({ error: 'Quote has expired', quote: await loadQuote(id) }, 409);
+    }
+
+    const illegal = describeIllegalTransition(quoteRow.status, to);
+    if (illegal) {
+      return c.json({ error: illegal, quote: await loadQuote(id) }, 409);
+    }
+
+    const changes = validUntil ? { valid_until: new Date(validUntil).toISOString() } : {};
+    const applied = await transitionQuote(id, quoteRow.status, to, actor, note?.trim(), changes);
+    if (!applied) {
+      return c.json({ error: 'Quote status changed concurrently, reload and retry', quote: await loadQuote(id) }, 409);
+    }
+
+    console.log(`Quote ${formatQuoteNumber(id)} moved from ${quoteRow.status} to ${to} by ${actor}`);
+    return c.json({ quote: await loadQuote(id) });
+  } catch (error) {
+    console.error(`Error transitioning quote ${c.req.param('id')}:`, error);
+    return c.json({ error: 'Failed to change quote status', details: error.message }, 500);
+  }
+});
+
+// Expires every open quote whose pricing valid_until has passed; meant for a scheduled job
+app.post("/make-server-8bb96920/quotes/expire", async (c) => {
+  try {
+    const now = new Date();
+    const { data: staleQuotes, error } = await supabase
+      .from('quotes')
+      .select('id, status, valid_until')
+      .in('status', EXPIRABLE_QUOTE_STATUSES)
+      .lt('valid_until', now.toISOString());
+    if (error) throw error;
+
+    const expired = [];
+    for (const quoteRow of staleQuotes || []) {
+      if (await expireQuoteIfStale(quoteRow, now)) expired.push(formatQuoteNumber(quoteRow.id));
+    }
+
+    console.log(`Expired ${expired.length} stale quote(s)`);
+    return c.json({ expired, count: expired.length });
+  } catch (error) {
+    console.error('Error expiring quotes:', error);
+    return c.json({ error: 'Failed to expire quotes', details: error.message }, 500);
   }
 });
 
@@ -748,39 +1226,33 @@ app.post("/make-server-8bb96920/configurations/save", async (c) => {
   }
 });
 
-app.post("/make-server-8bb96920/quotes/create", async (c) => {
-  try {
-    const { quoteItems, customerInfo } = await c.req.json();
-    
-    const quoteId = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Calculate total
-    const totalPrice = quoteItems.reduce((sum, item) => sum + (item.price || 0), 0);
-    
-    const quoteData = {
-      quoteId,
-      customerInfo,
-      items: quoteItems,
-      totalPrice,
-      createdAt: new Date().toISOString(),
-      status: 'pending'
-    };
-    
-    await kv.set(quoteId, quoteData);
-    
-    console.log(`Quote created with ID: ${quoteId}, Total: $${totalPrice}`);
-    return c.json({ quoteId, totalPrice, message: 'Quote created successfully' });
-  } catch (error) {
-    console.error('Error creating quote:', error);
-    return c.json({ error: 'Failed to create quote' }, 500);
-  }
-});
+app.post("/make-server-8bb96920/quotes/create", createQuote);
 
 // Analytics endpoints
 app.get("/make-server-8bb96920/analytics", async (c) => {
   try {
     // Get all quote data
-    const allQuotes = await kv.getByPrefix('quote_');
+    const { data: quoteRows, error: quotesError } = await supabase
+      .from('quotes')
+      .select('id, status, total_price, date_created');
+    if (quotesError) throw quotesError;
+
+    const { data: quoteItemRows, error: quoteItemsError } = await supabase
+      .from('quote_items')
+      .select('quote_id');
+    if (quoteItemsError) throw quoteItemsError;
+
+    const itemCounts = {};
+    (quoteItemRows || []).forEach((row) => {
+      itemCounts[row.quote_id] = (itemCounts[row.quote_id] || 0) + 1;
+    });
+
+    const allQuotes = (quoteRows || []).map((row) => ({
+      status: row.status,
+      totalPrice: row.total_price,
+      createdAt: row.date_created,
+      itemCount: itemCounts[String(row.id)] || 0
+    }));
     
     // Get all configuration data
     const allConfigs = await kv.getByPrefix('config_');
@@ -837,7 +1309,7 @@ app.get("/make-server-8bb96920/analytics", async (c) => {
         },
         metrics: {
           conversionRate: totalConfigurations > 0 ? (totalQuotes / totalConfigurations * 100).toFixed(2) : 0,
-          averageItemsPerQuote: totalQuotes > 0 ? (allQuotes.reduce((sum, quote) => sum + (quote.items?.length || 0), 0) / totalQuotes).toFixed(1) : 0
+          averageItemsPerQuote: totalQuotes > 0 ? (allQuotes.reduce((sum, quote) => sum + quote.itemCount, 0) / totalQuotes).toFixed(1) : 0
         }
       }
     });
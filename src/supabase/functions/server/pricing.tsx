@@ -0,0 +1,410 @@
+/**
+ * Pricing Engine
+ *
+ * Turns a ProductConfig into an itemized price using the rows of the
+ * `configuration_pricing` table. Each row prices one entity:
+ *
+ * - entity_type `product_line` / `product` with pricing_type `base` sets the base price
+ *   (a product-specific base always wins over the product line base)
+ * - entity_type = an option collection (e.g. `frame_colors`, `drivers`) with pricing_type
+ *   `fixed` adds a flat modifier when that option is selected
+ * - pricing_type `area` charges per square inch/foot of the configured width × height
+ * - pricing_type `percentage` adjusts the running subtotal (discounts are negative percents)
+ *
+ * `entity_id` may be `*` to match any entity of that type. Rows are only applied while
+ * `now` falls inside [valid_from, valid_to] and their optional `conditions` (Directus
+ * filter format, same context as rules) match. Lower `priority` wins, nulls last.
+ *
+ * The engine is pure: rows are loaded separately (see getPricingRules in services/supabase)
+ * so the store can recompute the price synchronously on every configuration change.
+ * It lives with the edge function, whose POST /quotes reprices submitted quotes with it;
+ * the app re-exports it from services/pricing-engine.
+ */
+
+import { buildRuleContext, compileCondition, type RuleConfigField, type RulePredicate } from './rule_compiler.tsx';
+
+export type PricingType = 'base' | 'fixed' | 'area' | 'percentage';
+
+export interface PriceModifier {
+  amount?: number;
+  percent?: number;
+  rate?: number;
+  unit?: 'sq_in' | 'sq_ft';
+  included_area?: number;
+  minimum?: number;
+}
+
+export interface PricingRule {
+  id: string;
+  entityType: string;
+  entityId: string;
+  pricingType: PricingType;
+  modifier: PriceModifier;
+  conditions: Record<string, any> | null;
+  priority: number | null;
+  validFrom: Date | null;
+  validTo: Date | null;
+}
+
+export type PriceLineKind = 'base' | 'option' | 'area' | 'adjustment';
+
+export interface PriceLineItem {
+  ruleId: string;
+  kind: PriceLineKind;
+  entityType: string;
+  entityId: string;
+  label: string;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  currency: string;
+  base: PriceLineItem | null;
+  options: PriceLineItem[];
+  area: PriceLineItem | null;
+  adjustments: PriceLineItem[];
+  unitPrice: number;
+  quantity: number;
+  total: number;
+  // Latest valid_from / earliest valid_to across the rows that were applied
+  validFrom: string | null;
+  validTo: string | null;
+  // False when no base price matched; option modifiers alone are not a real price
+  isComplete: boolean;
+}
+
+// A configuration_pricing row as stored
+export interface PricingRow {
+  id: string;
+  entity_type: string;
+  entity_id: string;
+  pricing_type: string;
+  price_modifier: unknown;
+  conditions: unknown;
+  priority: number | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  is_active: boolean | null;
+}
+
+// The ProductConfig / ProductOptions shape the engine reads
+export type PricingConfig = Partial<Record<RuleConfigField, unknown>> & {
+  productLineId: number;
+  productLineName?: string;
+  width?: string | number;
+  height?: string | number;
+  quantity?: number;
+};
+
+type PricedOptionsKey =
+  | 'mirrorStyles'
+  | 'frameColors'
+  | 'frameThickness'
+  | 'mirrorControls'
+  | 'mountingOptions'
+  | 'hangingTechniques'
+  | 'lightingOptions'
+  | 'colorTemperatures'
+  | 'lightOutputs'
+  | 'drivers'
+  | 'accessoryOptions';
+
+interface PricedOption {
+  id: number | string;
+  name: string;
+}
+
+export type PricingOptions = { [K in PricedOptionsKey]?: PricedOption[] };
+
+export interface PricingInput {
+  config: PricingConfig;
+  product?: { id: number | string; name: string | null } | null;
+  productOptions?: PricingOptions | null;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Option collections that can carry `fixed` modifiers, with the config field holding the selected id
+const PRICED_COLLECTIONS: Record<string, { field: RuleConfigField; optionsKey: PricedOptionsKey }> = {
+  mirror_styles: { field: 'mirrorStyle', optionsKey: 'mirrorStyles' },
+  frame_colors: { field: 'frameColor', optionsKey: 'frameColors' },
+  frame_thicknesses: { field: 'frameThickness', optionsKey: 'frameThickness' },
+  mirror_controls: { field: 'mirrorControls', optionsKey: 'mirrorControls' },
+  mounting_options: { field: 'mounting', optionsKey: 'mountingOptions' },
+  hanging_techniques: { field: 'hangingTechnique', optionsKey: 'hangingTechniques' },
+  light_directions: { field: 'lighting', optionsKey: 'lightingOptions' },
+  color_temperatures: { field: 'colorTemperature', optionsKey: 'colorTemperatures' },
+  light_outputs: { field: 'lightOutput', optionsKey: 'lightOutputs' },
+  drivers: { field: 'driver', optionsKey: 'drivers' },
+  accessories: { field: 'accessories', optionsKey: 'accessoryOptions' },
+};
+
+const PRICING_TYPES: PricingType[] = ['base', 'fixed', 'area', 'percentage'];
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toDate = (value: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Normalize raw configuration_pricing rows into PricingRules.
+ * Rows with an unknown pricing_type are dropped with a dev warning.
+ */
+export function normalizePricingRules(rows: PricingRow[]): PricingRule[] {
+  const rules: PricingRule[] = [];
+
+  for (const row of rows) {
+    if (row.is_active === false) continue;
+
+    const pricingType = row.pricing_type as PricingType;
+    if (!PRICING_TYPES.includes(pricingType)) {
+      if (import.meta.env?.DEV) {
+        console.warn(`⚠️ Skipping pricing row ${row.id}: unknown pricing_type "${row.pricing_type}"`);
+      }
+      continue;
+    }
+
+    const raw = (row.price_modifier && typeof row.price_modifier === 'object' && !Array.isArray(row.price_modifier)
+      ? row.price_modifier
+      : { amount: row.price_modifier }) as Record<string, unknown>;
+
+    rules.push({
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: String(row.entity_id),
+      pricingType,
+      modifier: {
+        amount: toNumber(raw.amount),
+        percent: toNumber(raw.percent),
+        rate: toNumber(raw.rate),
+        unit: raw.unit === 'sq_ft' ? 'sq_ft' : 'sq_in',
+        included_area: toNumber(raw.included_area),
+        minimum: toNumber(raw.minimum),
+      },
+      conditions: row.conditions && typeof row.conditions === 'object'
+        ? (row.conditions as Record<string, any>)
+        : null,
+      priority: row.priority,
+      validFrom: toDate(row.valid_from),
+      validTo: toDate(row.valid_to),
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Build the condition context for pricing rows.
+ * Uses the same snake_case keys as rule evaluation so `conditions` can be authored like rules.
+ */
+export function buildPricingContext(input: PricingInput): Record<string, any> {
+  const { config, product } = input;
+
+  return {
+    ...buildRuleContext(config, config.productLineId),
+    product: product?.id,
+    width: toNumber(config.width),
+    height: toNumber(config.height),
+    quantity: config.quantity,
+  };
+}
+
+const isWithinWindow = (rule: PricingRule, now: Date): boolean =>
+  (!rule.validFrom || rule.validFrom <= now) && (!rule.validTo || rule.validTo >= now);
+
+const compiledConditions = new WeakMap<PricingRule, RulePredicate>();
+
+const conditionsMatch = (rule: PricingRule, context: Record<string, any>): boolean => {
+  if (!rule.conditions || Object.keys(rule.conditions).length === 0) return true;
+  let predicate = compiledConditions.get(rule);
+  if (!predicate) {
+    predicate = compileCondition(rule.conditions);
+    compiledConditions.set(rule, predicate);
+  }
+  return predicate(context);
+};
+
+const byPriority = (a: PricingRule, b: PricingRule): number => {
+  const pa = a.priority ?? Number.POSITIVE_INFINITY;
+  const pb = b.priority ?? Number.POSITIVE_INFINITY;
+  return pa - pb;
+};
+
+const findOptionName = (options: PricedOption[] | undefined, id: string): string | undefined =>
+  options?.find((option) => option.id.toString() === id)?.name;
+
+/**
+ * Compute the itemized price for a configuration.
+ *
+ * @param rules Normalized pricing rules (see normalizePricingRules)
+ * @param input Configuration plus optional product/options used for matching and labels
+ * @param now Evaluation instant for the valid_from/valid_to window
+ */
+export function calculateConfigurationPrice(
+  rules: PricingRule[],
+  input: PricingInput,
+  now: Date = new Date(),
+): PriceBreakdown {
+  const { config, product, productOptions } = input;
+  const context = buildPricingContext(input);
+
+  const applicable = rules
+    .filter((rule) => isWithinWindow(rule, now) && conditionsMatch(rule, context))
+    .sort(byPriority);
+
+  const matchesEntity = (rule: PricingRule): boolean => {
+    if (rule.entityType === 'product_line') {
+      return rule.entityId === '*' || rule.entityId === String(config.productLineId);
+    }
+    if (rule.entityType === 'product') {
+      return !!product && (rule.entityId === '*' || rule.entityId === String(product.id));
+    }
+    const priced = PRICED_COLLECTIONS[rule.entityType];
+    if (!priced) return false;
+    const selected = String(config[priced.field] ?? '');
+    return selected !== '' && (rule.entityId === '*' || rule.entityId === selected);
+  };
+
+  const matched = applicable.filter(matchesEntity);
+  const applied: PricingRule[] = [];
+
+  // Base price: product-specific rows outrank product line rows regardless of priority
+  const baseRule =
+    matched.find((rule) => rule.pricingType === 'base' && rule.entityType === 'product') ??
+    matched.find((rule) => rule.pricingType === 'base' && rule.entityType === 'product_line');
+
+  let base: PriceLineItem | null = null;
+  if (baseRule) {
+    applied.push(baseRule);
+    base = {
+      ruleId: baseRule.id,
+      kind: 'base',
+      entityType: baseRule.entityType,
+      entityId: baseRule.entityId,
+      label: product?.name || config.productLineName || 'Base price',
+      amount: roundCurrency(baseRule.modifier.amount ?? 0),
+    };
+  }
+
+  // Option modifiers: one row per selected option, highest priority wins
+  const options: PriceLineItem[] = [];
+  const pricedEntities = new Set<string>();
+  for (const rule of matched) {
+    if (rule.pricingType !== 'fixed') continue;
+    const priced = PRICED_COLLECTIONS[rule.entityType];
+    if (!priced) continue;
+    if (pricedEntities.has(rule.entityType)) continue;
+    pricedEntities.add(rule.entityType);
+    applied.push(rule);
+
+    const selected = String(config[priced.field]);
+    options.push({
+      ruleId: rule.id,
+      kind: 'option',
+      entityType: rule.entityType,
+      entityId: selected,
+      label: findOptionName(productOptions?.[priced.optionsKey], selected) ?? rule.entityType,
+      amount: roundCurrency(rule.modifier.amount ?? 0),
+    });
+  }
+
+  // Area pricing: only when both dimensions are known
+  let area: PriceLineItem | null = null;
+  const width = toNumber(config.width);
+  const height = toNumber(config.height);
+  const areaRule = matched.find((rule) => rule.pricingType === 'area');
+  if (areaRule && width !== undefined && height !== undefined) {
+    applied.push(areaRule);
+    const squareInches = width * height;
+    const measured = areaRule.modifier.unit === 'sq_ft' ? squareInches / 144 : squareInches;
+    const billable = Math.max(0, measured - (areaRule.modifier.included_area ?? 0));
+    const amount = Math.max(areaRule.modifier.minimum ?? 0, billable * (areaRule.modifier.rate ?? 0));
+    area = {
+      ruleId: areaRule.id,
+      kind: 'area',
+      entityType: areaRule.entityType,
+      entityId: areaRule.entityId,
+      label: `${width}" × ${height}"`,
+      amount: roundCurrency(amount),
+    };
+  }
+
+  let subtotal =
+    (base?.amount ?? 0) +
+    options.reduce((sum, line) => sum + line.amount, 0) +
+    (area?.amount ?? 0);
+
+  // Percentage adjustments compound in priority order on the running subtotal
+  const adjustments: PriceLineItem[] = [];
+  for (const rule of matched) {
+    if (rule.pricingType !== 'percentage' || rule.modifier.percent === undefined) continue;
+    applied.push(rule);
+    const amount = roundCurrency((subtotal * rule.modifier.percent) / 100);
+    subtotal += amount;
+    adjustments.push({
+      ruleId: rule.id,
+      kind: 'adjustment',
+      entityType: rule.entityType,
+      entityId: rule.entityId,
+      label: `${rule.modifier.percent > 0 ? '+' : ''}${rule.modifier.percent}%`,
+      amount,
+    });
+  }
+
+  const validFrom = applied.reduce<Date | null>(
+    (latest, rule) => (rule.validFrom && (!latest || rule.validFrom > latest) ? rule.validFrom : latest),
+    null,
+  );
+  const validTo = applied.reduce<Date | null>(
+    (earliest, rule) => (rule.validTo && (!earliest || rule.validTo < earliest) ? rule.validTo : earliest),
+    null,
+  );
+
+  const unitPrice = roundCurrency(Math.max(0, subtotal));
+  const quantity = Math.max(1, config.quantity || 1);
+
+  return {
+    currency: DEFAULT_CURRENCY,
+    base,
+    options,
+    area,
+    adjustments,
+    unitPrice,
+    quantity,
+    total: roundCurrency(unitPrice * quantity),
+    validFrom: validFrom ? validFrom.toISOString() : null,
+    validTo: validTo ? validTo.toISOString() : null,
+    isComplete: base !== null,
+  };
+}
+
+/**
+ * Sum quote lines using their price snapshots; lines without a price (price on request)
+ * are left out
+ */
+export function calculateQuoteTotal(
+  items: Array<{ unitPrice?: number | null; quantity?: number }>,
+): number {
+  return roundCurrency(
+    items.reduce(
+      (sum, item) => (item.unitPrice == null ? sum : sum + item.unitPrice * (item.quantity || 1)),
+      0,
+    ),
+  );
+}
+
+/**
+ * Format a price for display; components pass their locale through the translator
+ */
+export function formatPrice(amount: number, currency: string = DEFAULT_CURRENCY, locale: string = 'en-US'): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
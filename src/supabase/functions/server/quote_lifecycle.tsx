@@ -0,0 +1,105 @@
+/**
+ * Quote lifecycle
+ *
+ * The states a quote moves through and the transitions between them. Shared by the
+ * edge function (which enforces them) and the app (re-exported from
+ * src/services/quote-lifecycle.ts), so this module must stay dependency-free.
+ *
+ *   draft → submitted → under_review → priced → sent → accepted
+ *                            ↑            │        │
+ *                            └────────────┴────────┘ (revision)
+ *
+ * Any open quote can be rejected, and expires once its pricing valid_until passes.
+ * accepted, rejected and expired are final.
+ */
+
+export const QUOTE_STATUSES = [
+  'draft',
+  'submitted',
+  'under_review',
+  'priced',
+  'sent',
+  'accepted',
+  'rejected',
+  'expired',
+] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, readonly QuoteStatus[]> = {
+  draft: ['submitted', 'rejected'],
+  submitted: ['under_review', 'rejected', 'expired'],
+  under_review: ['priced', 'rejected', 'expired'],
+  priced: ['sent', 'under_review', 'rejected', 'expired'],
+  sent: ['accepted', 'rejected', 'under_review', 'expired'],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+// Statuses whose pricing can lapse; drafts have not been priced against yet
+export const EXPIRABLE_QUOTE_STATUSES: readonly QuoteStatus[] = ['submitted', 'under_review', 'priced', 'sent'];
+
+// Statuses written before the lifecycle existed
+const LEGACY_QUOTE_STATUSES: Record<string, QuoteStatus> = {
+  pending: 'submitted',
+};
+
+export const SYSTEM_ACTOR = 'system';
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === 'string' && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export function normalizeQuoteStatus(value: string | null | undefined): QuoteStatus | null {
+  if (!value) return null;
+  if (isQuoteStatus(value)) return value;
+  return LEGACY_QUOTE_STATUSES[value] ?? null;
+}
+
+export function canTransitionQuote(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to);
+}
+
+export function isFinalQuoteStatus(status: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Why `from → to` is not allowed, or null when it is
+ */
+export function describeIllegalTransition(from: string | null, to: string): string | null {
+  if (!isQuoteStatus(to)) return `Unknown quote status "${to}"`;
+  const current = normalizeQuoteStatus(from);
+  if (!current) return `Quote has unknown status "${from}"`;
+  if (canTransitionQuote(current, to)) return null;
+  if (isFinalQuoteStatus(current)) return `Quote is ${current} and can no longer change status`;
+  return `Cannot move a quote from ${current} to ${to} (allowed: ${QUOTE_TRANSITIONS[current].join(', ')})`;
+}
+
+/**
+ * True when an open quote's pricing window has closed
+ */
+export function isQuoteExpired(
+  quote: { status: string | null; validUntil: string | null },
+  now: Date = new Date(),
+): boolean {
+  const status = normalizeQuoteStatus(quote.status);
+  if (!status || !EXPIRABLE_QUOTE_STATUSES.includes(status) || !quote.validUntil) return false;
+  const validUntil = new Date(quote.validUntil);
+  return !Number.isNaN(validUntil.getTime()) && validUntil < now;
+}
+
+/**
+ * Earliest pricing valid_to across quote lines; a quote is only as fresh as its stalest price
+ */
+export function quoteValidUntil(items: Array<{ priceValidTo?: string | null }>): string | null {
+  let earliest: Date | null = null;
+  for (const item of items) {
+    if (!item.priceValidTo) continue;
+    const validTo = new Date(item.priceValidTo);
+    if (Number.isNaN(validTo.getTime())) continue;
+    if (!earliest || validTo < earliest) earliest = validTo;
+  }
+  return earliest ? earliest.toISOString() : null;
+}
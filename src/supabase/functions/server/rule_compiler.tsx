@@ -0,0 +1,627 @@
+/**
+ * Rule Compiler
+ *
+ * Rules are stored as Directus filter JSON (`if_this` / `then_that`). This module:
+ *
+ * 1. Validates that JSON with zod schemas
+ * 2. Parses it into a typed AST (ConditionNode / ActionNode)
+ * 3. Compiles conditions into predicate functions, resolving field aliases,
+ *    nested paths and array semantics once at compile time instead of on every evaluation
+ *
+ * Array-valued fields (accessories) only support explicit membership operators
+ * (`_contains_any`, `_contains_all`). Legacy `_eq`/`_in`/`_neq`/`_nin` on those fields are
+ * rewritten into membership checks while parsing, so the AST always says what it means.
+ *
+ * The rules engine, rules-ui-integration, pricing conditions and image-layer visibility
+ * all evaluate through this compiler. It lives with the edge function because POST /quotes
+ * prices through it too, so it only imports zod (mapped to npm:zod by ./deno.json).
+ */
+
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Raw JSON schema
+// ---------------------------------------------------------------------------
+
+export type RuleScalar = string | number | boolean | null;
+
+export type RuleFieldCondition =
+  | RuleScalar
+  | { [key: string]: RuleScalar | RuleScalar[] | RuleFieldCondition };
+
+export interface RuleFilter {
+  _and?: RuleFilter[];
+  _or?: RuleFilter[];
+  [field: string]: RuleFieldCondition | RuleFilter[] | undefined;
+}
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const scalarListSchema = z.array(scalarSchema);
+
+const OPERATOR_SCHEMAS = {
+  _eq: scalarSchema,
+  _neq: scalarSchema,
+  _gt: scalarSchema,
+  _gte: scalarSchema,
+  _lt: scalarSchema,
+  _lte: scalarSchema,
+  _in: scalarListSchema,
+  _nin: scalarListSchema,
+  _contains: scalarSchema,
+  _ncontains: scalarSchema,
+  _contains_any: scalarListSchema,
+  _contains_all: scalarListSchema,
+  _empty: z.boolean(),
+  _nempty: z.boolean(),
+  _null: z.boolean(),
+  _nnull: z.boolean(),
+} as const;
+
+export type RuleOperator = keyof typeof OPERATOR_SCHEMAS;
+
+const isRuleOperator = (key: string): key is RuleOperator => key in OPERATOR_SCHEMAS;
+
+export const ruleFieldConditionSchema: z.ZodType<RuleFieldCondition> = z.lazy(() =>
+  z.union([
+    scalarSchema,
+    z.record(z.string(), z.unknown()).superRefine((value, ctx) => {
+      for (const [key, operand] of Object.entries(value)) {
+        const schema = isRuleOperator(key) ? OPERATOR_SCHEMAS[key] : key.startsWith('_') ? null : ruleFieldConditionSchema;
+        if (!schema) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown operator "${key}"` });
+          continue;
+        }
+        const result = schema.safeParse(operand);
+        if (!result.success) {
+          for (const issue of result.error.issues) {
+            ctx.addIssue({ ...issue, path: [key, ...issue.path] });
+          }
+        }
+      }
+    }),
+  ]) as z.ZodType<RuleFieldCondition>,
+);
+
+export const ruleFilterSchema: z.ZodType<RuleFilter> = z.lazy(() =>
+  z.record(z.string(), z.unknown()).superRefine((value, ctx) => {
+    for (const [key, operand] of Object.entries(value)) {
+      const schema = key === '_and' || key === '_or'
+        ? z.array(ruleFilterSchema)
+        : key.startsWith('_') ? null : ruleFieldConditionSchema;
+      if (!schema) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown logical operator "${key}"` });
+        continue;
+      }
+      const result = schema.safeParse(operand);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [key, ...issue.path] });
+        }
+      }
+    }
+  }),
+) as z.ZodType<RuleFilter>;
+
+// ---------------------------------------------------------------------------
+// Field bindings
+// ---------------------------------------------------------------------------
+
+// The ProductConfig fields rules read, spelled out so the edge function needs none of the app's types
+export type RuleConfigField =
+  | 'productLineId'
+  | 'mirrorStyle'
+  | 'lighting'
+  | 'frameThickness'
+  | 'frameColor'
+  | 'mirrorControls'
+  | 'mounting'
+  | 'hangingTechnique'
+  | 'driver'
+  | 'colorTemperature'
+  | 'lightOutput'
+  | 'accessories';
+
+export interface RuleFieldBinding {
+  configField: RuleConfigField;
+  collection: string;
+  isArray?: boolean;
+}
+
+// Canonical rule fields, the config field they read from and the option collection they constrain
+export const RULE_FIELDS: Record<string, RuleFieldBinding> = {
+  product_line: { configField: 'productLineId', collection: 'product_lines' },
+  mirror_style: { configField: 'mirrorStyle', collection: 'mirror_styles' },
+  light_direction: { configField: 'lighting', collection: 'light_directions' },
+  frame_thickness: { configField: 'frameThickness', collection: 'frame_thicknesses' },
+  frame_color: { configField: 'frameColor', collection: 'frame_colors' },
+  mirror_controls: { configField: 'mirrorControls', collection: 'mirror_controls' },
+  mounting: { configField: 'mounting', collection: 'mounting_options' },
+  hanging_techniques: { configField: 'hangingTechnique', collection: 'hanging_techniques' },
+  driver: { configField: 'driver', collection: 'drivers' },
+  color_temperature: { configField: 'colorTemperature', collection: 'color_temperatures' },
+  light_output: { configField: 'lightOutput', collection: 'light_outputs' },
+  accessories: { configField: 'accessories', collection: 'accessories', isArray: true },
+};
+
+// Legacy field names found in stored rules
+export const RULE_FIELD_ALIASES: Record<string, string> = {
+  mounting_option: 'mounting',
+  accessory: 'accessories',
+};
+
+export const canonicalRuleField = (field: string): string => RULE_FIELD_ALIASES[field] ?? field;
+
+/**
+ * Build the snake_case evaluation context for a configuration.
+ * Selected ids become numbers; array fields become number arrays.
+ */
+export function buildRuleContext(
+  config: Partial<Record<RuleConfigField, unknown>>,
+  productLineId: number,
+): Record<string, number | number[] | undefined> {
+  const toId = (value: unknown): number | undefined => {
+    if (value === null || value === undefined || value === '') return undefined;
+    const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const context: Record<string, number | number[] | undefined> = {};
+  for (const [field, binding] of Object.entries(RULE_FIELDS)) {
+    if (field === 'product_line') continue;
+    const raw = config[binding.configField];
+    if (binding.isArray) {
+      const values = Array.isArray(raw) ? raw : raw ? [raw] : [];
+      const ids = values.map(toId).filter((id): id is number => id !== undefined);
+      context[field] = ids.length > 0 ? ids : undefined;
+    } else {
+      context[field] = toId(raw);
+    }
+  }
+  context.product_line = productLineId;
+  return context;
+}
+
+// ---------------------------------------------------------------------------
+// AST
+// ---------------------------------------------------------------------------
+
+export type ConditionNode =
+  | { kind: 'always' }
+  | { kind: 'and'; children: ConditionNode[] }
+  | { kind: 'or'; children: ConditionNode[] }
+  | { kind: 'not'; child: ConditionNode }
+  | { kind: 'compare'; field: string; path: string[]; op: RuleOperator; operand: RuleScalar | RuleScalar[] };
+
+export type ActionOperator = '_eq' | '_neq' | '_in' | '_nin';
+
+export type ActionNode =
+  | { kind: 'all'; children: ActionNode[] }
+  | { kind: 'any'; children: ActionNode[] }
+  | { kind: 'assign'; field: string; path: string[]; op: ActionOperator; value: RuleScalar | RuleScalar[] };
+
+export interface AssignAction {
+  field: string;
+  path: string[];
+  op: ActionOperator;
+  value: RuleScalar | RuleScalar[];
+}
+
+export class RuleParseError extends Error {
+  constructor(message: string, public readonly issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = 'RuleParseError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const arrayFieldRewrite = (
+  field: string,
+  path: string[],
+  op: RuleOperator,
+  operand: RuleScalar | RuleScalar[],
+): ConditionNode | null => {
+  const values = Array.isArray(operand) ? operand : [operand];
+  const containsAny: ConditionNode = { kind: 'compare', field, path, op: '_contains_any', operand: values };
+  switch (op) {
+    case '_eq':
+    case '_in':
+      return containsAny;
+    case '_neq':
+    case '_nin':
+      return { kind: 'not', child: containsAny };
+    default:
+      return null;
+  }
+};
+
+function parseFieldCondition(field: string, path: string[], condition: unknown, nodes: ConditionNode[]): void {
+  if (!isPlainObject(condition)) {
+    // Shorthand `{ field: value }` means equality
+    parseFieldCondition(field, path, { _eq: condition }, nodes);
+    return;
+  }
+
+  const binding = RULE_FIELDS[field];
+  const isArrayField = path.length === 1 && binding?.isArray === true;
+
+  for (const [key, operand] of Object.entries(condition)) {
+    if (isRuleOperator(key)) {
+      const value = operand as RuleScalar | RuleScalar[];
+      const rewritten = isArrayField ? arrayFieldRewrite(field, path, key, value) : null;
+      nodes.push(rewritten ?? { kind: 'compare', field, path, op: key, operand: value });
+    } else {
+      parseFieldCondition(field, [...path, key], operand, nodes);
+    }
+  }
+}
+
+function toConditionNode(filter: RuleFilter): ConditionNode {
+  const nodes: ConditionNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    if (key === '_and' || key === '_or') {
+      const children = (value as RuleFilter[]).map(toConditionNode);
+      nodes.push({ kind: key === '_and' ? 'and' : 'or', children });
+      continue;
+    }
+    const field = canonicalRuleField(key);
+    parseFieldCondition(field, [field], value, nodes);
+  }
+
+  if (nodes.length === 0) return { kind: 'always' };
+  return nodes.length === 1 ? nodes[0] : { kind: 'and', children: nodes };
+}
+
+/**
+ * Validate and parse an `if_this` filter into a ConditionNode.
+ * Null/empty filters parse to `always`; the caller decides whether that means "match".
+ */
+export function parseCondition(filter: unknown): ConditionNode {
+  if (filter === null || filter === undefined) return { kind: 'always' };
+  const result = ruleFilterSchema.safeParse(filter);
+  if (!result.success) {
+    throw new RuleParseError(
+      `Invalid rule filter: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+      result.error.issues,
+    );
+  }
+  return toConditionNode(result.data);
+}
+
+// Nested action paths are overrides read by name, not option constraints
+export const ACTION_OVERRIDE_PATHS = ['product.vertical_image', 'product.horizontal_image', 'product_line.sku_code'];
+
+function assertActionPath(path: string[]): void {
+  if (path.length > 1 && !ACTION_OVERRIDE_PATHS.includes(path.join('.'))) {
+    throw new RuleParseError(`Invalid rule actions: unsupported nested path "${path.join('.')}"`);
+  }
+}
+
+function toActionNodes(actions: Record<string, unknown>, path: string[]): ActionNode[] {
+  const nodes: ActionNode[] = [];
+
+  for (const [key, value] of Object.entries(actions)) {
+    if ((key === '_and' || key === '_or') && Array.isArray(value)) {
+      const children = value
+        .filter(isPlainObject)
+        .map((item): ActionNode => ({ kind: 'all', children: toActionNodes(item, path) }));
+      nodes.push({ kind: key === '_and' ? 'all' : 'any', children });
+      continue;
+    }
+    if (key.startsWith('_')) continue;
+
+    const segment = path.length === 0 ? canonicalRuleField(key) : key;
+    const nextPath = [...path, segment];
+
+    if (!isPlainObject(value)) {
+      assertActionPath(nextPath);
+      nodes.push({ kind: 'assign', field: nextPath[0], path: nextPath, op: '_eq', value: value as RuleScalar });
+      continue;
+    }
+
+    const operators = (['_eq', '_neq', '_in', '_nin'] as const).filter((op) => value[op] !== undefined);
+    if (operators.length > 0) {
+      assertActionPath(nextPath);
+      for (const op of operators) {
+        nodes.push({ kind: 'assign', field: nextPath[0], path: nextPath, op, value: value[op] as RuleScalar | RuleScalar[] });
+      }
+    } else {
+      nodes.push(...toActionNodes(value, nextPath));
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse a `then_that` object into an ActionNode tree.
+ */
+export function parseActions(actions: unknown): ActionNode {
+  if (actions === null || actions === undefined) return { kind: 'all', children: [] };
+  if (!isPlainObject(actions)) {
+    throw new RuleParseError('Invalid rule actions: then_that must be an object');
+  }
+  return { kind: 'all', children: toActionNodes(actions, []) };
+}
+
+/**
+ * Every assignment an action tree mentions, across all `_or` branches.
+ * For analysis (which fields a rule touches); use resolveActions to apply a rule.
+ */
+export function flattenActions(node: ActionNode): AssignAction[] {
+  if (node.kind === 'assign') {
+    return [{ field: node.field, path: node.path, op: node.op, value: node.value }];
+  }
+  return node.children.flatMap(flattenActions);
+}
+
+/**
+ * The assignments a rule applies. An `_or` group applies one branch: the first whose
+ * `_eq` assignments the context already holds, otherwise the first branch.
+ */
+export function resolveActions(node: ActionNode, context: Record<string, unknown> = {}): AssignAction[] {
+  if (node.kind === 'assign') {
+    return [{ field: node.field, path: node.path, op: node.op, value: node.value }];
+  }
+  if (node.kind === 'all') {
+    return node.children.flatMap((child) => resolveActions(child, context));
+  }
+
+  const branches = node.children.map((child) => resolveActions(child, context));
+  const holds = (actions: AssignAction[]) =>
+    actions.every((action) => action.op !== '_eq' || action.path.length > 1 || String(context[action.field]) === String(action.value));
+  return branches.find(holds) ?? branches[0] ?? [];
+}
+
+/**
+ * Root fields referenced by a condition (canonical names)
+ */
+export function conditionFields(node: ConditionNode): string[] {
+  const fields = new Set<string>();
+  const visit = (current: ConditionNode) => {
+    switch (current.kind) {
+      case 'compare':
+        fields.add(current.field);
+        break;
+      case 'not':
+        visit(current.child);
+        break;
+      case 'and':
+      case 'or':
+        current.children.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return Array.from(fields);
+}
+
+// ---------------------------------------------------------------------------
+// Compilation
+// ---------------------------------------------------------------------------
+
+export type RuleContext = Record<string, unknown>;
+export type RulePredicate = (context: RuleContext) => boolean;
+
+export interface CompileOptions {
+  // Image rules historically matched `_contains` case-insensitively
+  caseInsensitiveContains?: boolean;
+  // Image rules historically failed every comparison on an unset field, `_neq`/`_nin` included
+  unsetFieldsFail?: boolean;
+}
+
+// Operators that ask whether a field is set, so they still apply under unsetFieldsFail
+const PRESENCE_OPERATORS = new Set<RuleOperator>(['_empty', '_nempty', '_null', '_nnull']);
+
+const isEmptyValue = (value: unknown): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+};
+
+// Relation objects compare by id; everything else compares as-is
+const comparable = (value: unknown): unknown =>
+  isPlainObject(value) && 'id' in value ? value.id : value;
+
+// Ordering operators compare numbers; empty values and non-numeric text give NaN
+const numberOf = (value: unknown): number =>
+  value === null || value === undefined || value === '' ? Number.NaN : Number(value);
+
+const textOf = (value: unknown): string => {
+  if (isPlainObject(value) && 'name' in value) return String(value.name);
+  return String(value);
+};
+
+// Field-path resolution is fixed at compile time: nested walk, then flattened fallback
+// (e.g. product_line.sku_code → product_line_sku_code)
+function createAccessor(path: string[]): (context: RuleContext) => unknown {
+  if (path.length === 1) {
+    const [key] = path;
+    return (context) => context?.[key];
+  }
+  const flatKey = path.join('_');
+  return (context) => {
+    let value: unknown = context;
+    for (const part of path) {
+      value = isPlainObject(value) ? value[part] : undefined;
+    }
+    return value === undefined ? context?.[flatKey] : value;
+  };
+}
+
+function compileCompare(
+  node: Extract<ConditionNode, { kind: 'compare' }>,
+  options: CompileOptions,
+): RulePredicate {
+  const read = createAccessor(node.path);
+  const operand = node.operand;
+  const list = Array.isArray(operand) ? operand : [operand];
+  const fold = (text: string) => (options.caseInsensitiveContains ? text.toLowerCase() : text);
+
+  const contains = (value: unknown, needle: RuleScalar | RuleScalar[]): boolean => {
+    if (value === null || value === undefined) return false;
+    const target = fold(String(needle));
+    const haystack = Array.isArray(value) ? value : [value];
+    return haystack.some((item) => fold(textOf(item)).includes(target));
+  };
+
+  // NaN on either side never matches
+  const ordered = (test: (value: number, bound: number) => boolean): RulePredicate => {
+    const bound = numberOf(operand);
+    return (context) => {
+      const value = numberOf(comparable(read(context)));
+      return !Number.isNaN(value) && !Number.isNaN(bound) && test(value, bound);
+    };
+  };
+
+  const members = (value: unknown): unknown[] =>
+    (Array.isArray(value) ? value : value === null || value === undefined ? [] : [value]).map(comparable);
+
+  switch (node.op) {
+    case '_eq':
+      return (context) => comparable(read(context)) == operand;
+    case '_neq':
+      return (context) => comparable(read(context)) != operand;
+    case '_in':
+      return (context) => {
+        const value = comparable(read(context));
+        return list.some((candidate) => candidate == value);
+      };
+    case '_nin':
+      return (context) => {
+        const value = comparable(read(context));
+        return !list.some((candidate) => candidate == value);
+      };
+    case '_gt':
+      return ordered((value, bound) => value > bound);
+    case '_gte':
+      return ordered((value, bound) => value >= bound);
+    case '_lt':
+      return ordered((value, bound) => value < bound);
+    case '_lte':
+      return ordered((value, bound) => value <= bound);
+    case '_contains':
+      return (context) => contains(read(context), operand);
+    case '_ncontains':
+      return (context) => !contains(read(context), operand);
+    case '_contains_any':
+      return (context) => {
+        const values = members(read(context));
+        return list.some((candidate) => values.some((value) => value == candidate));
+      };
+    case '_contains_all':
+      return (context) => {
+        const values = members(read(context));
+        return list.every((candidate) => values.some((value) => value == candidate));
+      };
+    case '_empty':
+      return (context) => isEmptyValue(read(context)) === operand;
+    case '_nempty':
+      return (context) => isEmptyValue(read(context)) !== operand;
+    case '_null':
+      return (context) => (read(context) == null) === operand;
+    case '_nnull':
+      return (context) => (read(context) == null) !== operand;
+  }
+}
+
+/**
+ * Compile a parsed condition into a predicate
+ */
+export function compileConditionNode(node: ConditionNode, options: CompileOptions = {}): RulePredicate {
+  switch (node.kind) {
+    case 'always':
+      return () => true;
+    case 'not': {
+      const child = compileConditionNode(node.child, options);
+      return (context) => !child(context);
+    }
+    case 'and': {
+      const children = node.children.map((child) => compileConditionNode(child, options));
+      return (context) => children.every((predicate) => predicate(context));
+    }
+    case 'or': {
+      const children = node.children.map((child) => compileConditionNode(child, options));
+      return (context) => children.some((predicate) => predicate(context));
+    }
+    case 'compare': {
+      const predicate = compileCompare(node, options);
+      if (!options.unsetFieldsFail || PRESENCE_OPERATORS.has(node.op)) return predicate;
+      const read = createAccessor(node.path);
+      return (context) => read(context) != null && predicate(context);
+    }
+  }
+}
+
+/**
+ * Parse and compile a raw filter. Invalid filters compile to a predicate that never matches.
+ */
+export function compileCondition(filter: unknown, options: CompileOptions = {}): RulePredicate {
+  try {
+    return compileConditionNode(parseCondition(filter), options);
+  } catch (error) {
+    console.warn('Failed to compile rule filter:', error);
+    return () => false;
+  }
+}
+
+export interface RuleSource {
+  id?: string;
+  name?: string | null;
+  priority?: number | null;
+  if_this: unknown;
+  then_that: unknown;
+}
+
+export interface CompiledRule<R extends RuleSource = RuleSource> {
+  rule: R;
+  condition: ConditionNode;
+  actions: ActionNode;
+  fields: string[];
+  matches: RulePredicate;
+  error: string | null;
+}
+
+const compiledRules = new WeakMap<object, CompiledRule<any>>();
+
+/**
+ * Compile a stored rule. Results are cached per rule object.
+ * Rules without conditions never match (a rule must say when it applies).
+ */
+export function compileRule<R extends RuleSource>(rule: R): CompiledRule<R> {
+  const cached = compiledRules.get(rule);
+  if (cached) return cached;
+
+  let compiled: CompiledRule<R>;
+  try {
+    const condition = parseCondition(rule.if_this);
+    const hasConditions = rule.if_this !== null && rule.if_this !== undefined;
+    const predicate = compileConditionNode(condition);
+    compiled = {
+      rule,
+      condition,
+      actions: parseActions(rule.then_that),
+      fields: conditionFields(condition),
+      matches: hasConditions ? predicate : () => false,
+      error: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Failed to compile rule "${rule.name}":`, message);
+    compiled = {
+      rule,
+      condition: { kind: 'always' },
+      actions: { kind: 'all', children: [] },
+      fields: [],
+      matches: () => false,
+      error: message,
+    };
+  }
+
+  compiledRules.set(rule, compiled);
+  return compiled;
+}
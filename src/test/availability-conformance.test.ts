@@ -0,0 +1,262 @@
+/**
+ * @vitest-environment node
+ * Availability conformance
+ *
+ * Runs the fixture in fixtures/availability-conformance through the TS availability
+ * pipeline and through the SQL function get_option_availability, and asserts both give
+ * every option the same state and count.
+ *
+ * The SQL half runs in a throwaway in-memory Postgres (PGlite): the catalog tables
+ * (fixtures/catalog-schema.sql) and the availability migration are applied to an empty
+ * database, seeded with the fixture, and dropped with it.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { runAvailabilityPipeline } = await import("@/services/availability-pipeline");
+const { FACET_FIELDS, facetRecordsFromAssignments, facetRecordsFromSkuIndex, facetSelections } = await import(
+  "@/services/facet-engine"
+);
+const { COLLECTION_TO_FIELD, createEmptyProductOptions, groupOptionIds, normalizeOption } = await import(
+  "@/services/product-options-builder"
+);
+import type { AvailabilityPipelineResult } from "@/services/availability-pipeline";
+import type { ProductConfig, ProductOption } from "@/store/types";
+import {
+  ACCESSORY,
+  DRIVER,
+  LINE,
+  PRODUCT,
+  SIZE,
+  STYLE,
+  THICKNESS,
+  conformanceCases,
+  defaultOptionRows,
+  optionRows,
+  overrideRows,
+  productLineRows,
+  productRows,
+  skuIndexRows,
+  type ConformanceCase,
+} from "./fixtures/availability-conformance";
+
+const baseConfig = {
+  id: "conformance",
+  productLineId: 0,
+  productLineName: "",
+  mirrorStyle: "",
+  frameThickness: "",
+  lighting: "",
+  frameColor: "",
+  mounting: "",
+  hangingTechnique: "",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "",
+  mirrorControls: "",
+  accessories: "",
+  width: "",
+  height: "",
+  quantity: 1,
+} as ProductConfig;
+
+// Stages 1 and 2 as the app loads them (product-options, facet-engine), over the fixture rows
+function pipelineInput(testCase: ConformanceCase) {
+  const { productLineId } = testCase;
+  const products = productRows.filter((product) => product.product_line === productLineId && product.active);
+  const active = new Set(products.map((product) => product.id));
+  const skuRows = skuIndexRows.filter((row) => row.product_line_id === productLineId && active.has(row.product_id));
+  const lineDefaults = defaultOptionRows.filter((row) => row.product_lines_id === productLineId);
+
+  const productOptions = createEmptyProductOptions();
+  groupOptionIds(lineDefaults).forEach((ids, collection) => {
+    const key = COLLECTION_TO_FIELD[collection];
+    if (!key) return;
+    (productOptions[key] as ProductOption[]) = optionRows[collection]
+      .filter((row) => ids.includes(row.id))
+      .map((row) => normalizeOption(row));
+  });
+
+  return {
+    productLineId,
+    config: { ...baseConfig, productLineId, ...testCase.config },
+    productOptions,
+    records:
+      skuRows.length > 0
+        ? facetRecordsFromSkuIndex(skuRows)
+        : facetRecordsFromAssignments(products, lineDefaults, overrideRows.filter((row) => active.has(row.products_id))),
+    rules: testCase.rules ?? [],
+    facets: { order: testCase.order },
+  };
+}
+
+interface OptionRow {
+  collection: string;
+  id: number;
+  state: string;
+  count: number | null;
+}
+
+const byCollectionAndId = (a: OptionRow, b: OptionRow) =>
+  a.collection.localeCompare(b.collection) || a.id - b.id;
+
+// The part of the result the SQL function reproduces
+const facetStage = (result: AvailabilityPipelineResult): OptionRow[] =>
+  FACET_FIELDS.flatMap(({ collection }) =>
+    result.options[collection].map(({ id, state, count }) => ({ collection, id, state, count })),
+  ).sort(byCollectionAndId);
+
+const run = (testCase: ConformanceCase) => runAvailabilityPipeline(pipelineInput(testCase));
+
+const counts = (result: AvailabilityPipelineResult, collection: string) =>
+  Object.fromEntries(result.options[collection].map((option) => [option.id, option.count]));
+
+const disabled = (result: AvailabilityPipelineResult, collection: string) =>
+  result.options[collection].filter((option) => option.state === "disabled").map((option) => option.id);
+
+const caseNamed = (name: string) => conformanceCases.find((testCase) => testCase.name === name)!;
+
+describe("availability pipeline over the conformance fixture", () => {
+  it("facets sku_index rows of active products against the line defaults", () => {
+    const all = run(caseNamed("indexed line without selections"));
+
+    expect(counts(all, "drivers")).toEqual({ [DRIVER.standard]: 2, [DRIVER.dimmable]: 1, [DRIVER.legacy]: 0 });
+    expect(disabled(all, "drivers")).toEqual([DRIVER.legacy]);
+    // Mirror styles are never disabled by availability; unfaceted collections have no counts
+    expect(all.options.mirror_styles.find((option) => option.id === STYLE.oval)).toMatchObject({ state: "available", count: 0 });
+    expect(all.options.frame_colors.map((option) => option.count)).toEqual([null, null]);
+
+    const dimmable = run(caseNamed("indexed line with a driver selected below the mirror style"));
+    expect(counts(dimmable, "drivers")).toMatchObject({ [DRIVER.standard]: 1, [DRIVER.dimmable]: 1 });
+    expect(disabled(dimmable, "sizes")).toEqual([SIZE.small]);
+    expect(dimmable.options.sizes[0].reasons).toEqual([
+      {
+        source: "availability",
+        upstream: [{ field: "driver", value: String(DRIVER.dimmable) }],
+      },
+    ]);
+  });
+
+  it("follows the facet order", () => {
+    const sizesFirst = run(caseNamed("indexed line with sizes ordered first"));
+
+    expect(counts(sizesFirst, "sizes")).toEqual({ [SIZE.small]: 2, [SIZE.large]: 2 });
+    expect(disabled(sizesFirst, "drivers")).toEqual([DRIVER.dimmable, DRIVER.legacy]);
+  });
+
+  it("applies product overrides and product columns over the line defaults", () => {
+    const all = run(caseNamed("assigned line without selections"));
+
+    expect(counts(all, "drivers")).toEqual({ [DRIVER.standard]: 3, [DRIVER.dimmable]: 2 });
+    expect(counts(all, "frame_thicknesses")).toEqual({ [THICKNESS.thin]: 2, [THICKNESS.wide]: 2 });
+    expect(counts(all, "hanging_techniques")).toEqual({ 990371: 3 });
+
+    const accessories = run(caseNamed("assigned line with overrides and several accessories"));
+    expect(counts(accessories, "accessories")).toEqual({ [ACCESSORY.defogger]: 1, [ACCESSORY.nightLight]: 2 });
+    expect(accessories.matchingProductCount).toBe(1);
+  });
+
+  it("applies rules after the facets", () => {
+    const ruled = run(caseNamed("indexed line with a rule excluding a driver"));
+
+    expect(counts(ruled, "drivers")).toMatchObject({ [DRIVER.standard]: 1, [DRIVER.dimmable]: 1 });
+    expect(disabled(ruled, "drivers")).toEqual([DRIVER.standard, DRIVER.legacy]);
+  });
+});
+
+const root = resolve(__dirname, "../..");
+const sqlFile = (path: string) => readFileSync(resolve(root, path), "utf8");
+
+// Parents before children
+const SEED: Array<[string, Array<Record<string, any>>]> = [
+  ...Object.entries(optionRows),
+  ["product_lines", productLineRows],
+  ["products", productRows],
+  ["product_lines_default_options", defaultOptionRows],
+  ["products_options_overrides", overrideRows],
+  ["sku_index", skuIndexRows],
+];
+
+async function seed(db: PGlite, table: string, rows: Array<Record<string, any>>) {
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    const values = columns.map((column) => {
+      const value = row[column];
+      return value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+    });
+    await db.query(
+      `insert into ${table} (${columns.join(", ")}) values (${columns.map((_, i) => `$${i + 1}`).join(", ")})`,
+      values,
+    );
+  }
+}
+
+// The SQL function implements stages 1-3 only; rule-driven cases stay TS-only
+const sqlCases = conformanceCases.filter((testCase) => !testCase.rules?.length);
+
+describe("get_option_availability conformance", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(sqlFile("src/test/fixtures/catalog-schema.sql"));
+    await db.exec(sqlFile("supabase/migrations/20251024_add_option_availability.sql"));
+    for (const [table, rows] of SEED) await seed(db, table, rows);
+  }, 60_000);
+
+  afterAll(() => db?.close());
+
+  it("leaves rule-driven cases to the TS pipeline", () => {
+    expect(sqlCases.length).toBe(conformanceCases.length - 1);
+  });
+
+  it.each(sqlCases)("$name", async (testCase) => {
+    const input = pipelineInput(testCase);
+    const { rows } = await db.query<{
+      collection_name: string;
+      option_id: number;
+      availability_state: string;
+      product_count: number | null;
+    }>("select * from get_option_availability($1, $2, $3)", [
+      testCase.productLineId,
+      JSON.stringify(facetSelections(input.config, input.productOptions.sizes)),
+      testCase.order ?? null,
+    ]);
+
+    const options = rows.map((row) => ({
+      collection: row.collection_name,
+      id: row.option_id,
+      state: row.availability_state,
+      count: row.product_count,
+    }));
+    expect(options.sort(byCollectionAndId)).toEqual(facetStage(runAvailabilityPipeline(input)));
+  });
+
+  it("keeps listing products in get_dynamic_options_with_ui", async () => {
+    await db.query(
+      "insert into configuration_ui (id, collection, ui_type, sort) values ('p', 'products', 'cards', 1), ('d', 'drivers', 'buttons', 2)",
+    );
+    const { rows } = await db.query<{ collection_name: string; option_id: number; availability_state: string; sku_count: number }>(
+      "select * from get_dynamic_options_with_ui($1, $2)",
+      [LINE.indexed, JSON.stringify({ driver_id: DRIVER.dimmable })],
+    );
+
+    const products = rows.filter((row) => row.collection_name === "products");
+    expect(products.find((row) => row.option_id === PRODUCT.squareIndexed)).toMatchObject({
+      availability_state: "available",
+      sku_count: 1,
+    });
+    expect(products.find((row) => row.option_id === PRODUCT.roundIndexed)).toMatchObject({
+      availability_state: "hidden",
+      sku_count: 0,
+    });
+    expect(rows.filter((row) => row.collection_name === "drivers").map((row) => row.option_id)).toEqual(
+      Object.values(DRIVER),
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { createComputeEngine, respondToComputeRequest } = await import("@/services/compute-engine");
+const { createSyncComputeService, createWorkerComputeService } = await import("@/services/compute-service");
+const { runAvailabilityPipeline } = await import("@/services/availability-pipeline");
+const { facetRecordsFromSkuIndex } = await import("@/services/facet-engine");
+const { buildSkuGrammar } = await import("@/services/sku-grammar");
+import type { ComputeRequestMessage } from "@/services/compute-protocol";
+import type { ConfigurationImage } from "@/services/image-layers";
+import type { Rule } from "@/services/supabase";
+import type { ProductConfig, ProductOptions } from "@/store/types";
+import { DRIVER, LINE, PRODUCT, STYLE, skuIndexRows } from "./fixtures/availability-conformance";
+
+const option = (id: number, sku_code = String(id)) => ({ id, name: sku_code, sku_code }) as any;
+
+const productOptions = {
+  mirrorControls: [],
+  frameColors: [],
+  frameThickness: [],
+  mirrorStyles: Object.values(STYLE).map((id) => option(id)),
+  mountingOptions: [],
+  hangingTechniques: [],
+  lightingOptions: [],
+  colorTemperatures: [],
+  lightOutputs: [],
+  drivers: Object.values(DRIVER).map((id) => option(id)),
+  accessoryOptions: [],
+  sizes: [],
+} as unknown as ProductOptions;
+
+// Square mirrors never get the legacy driver and are always lit from direction 7
+const rules = [
+  {
+    id: "r1",
+    name: "No legacy driver on square mirrors",
+    if_this: { mirror_style: { _eq: STYLE.square } },
+    then_that: { driver: { _neq: DRIVER.legacy } },
+  },
+  {
+    id: "r2",
+    name: "Square mirrors are lit from direction 7",
+    if_this: { mirror_style: { _eq: STYLE.square } },
+    then_that: { light_direction: { _eq: 7 } },
+  },
+] as unknown as Rule[];
+
+const skuRows = skuIndexRows.filter((row) => row.product_id !== PRODUCT.retiredIndexed);
+const config = { productLineId: LINE.indexed, mirrorStyle: String(STYLE.square), driver: "" } as ProductConfig;
+const line = { productLineId: LINE.indexed, rules, skuRows };
+
+const layer = (id: string, name: string, z_index: number | string, image_rules: any = {}): ConfigurationImage => ({
+  id,
+  name,
+  image: `${id}.svg`,
+  z_index,
+  image_rules,
+});
+
+// A Worker that runs an engine on cloned messages, the way a real worker would
+class FakeWorker extends EventTarget {
+  engine = createComputeEngine();
+  terminate = vi.fn();
+
+  postMessage(message: ComputeRequestMessage) {
+    const request = structuredClone(message);
+    setTimeout(() => {
+      const data = structuredClone(respondToComputeRequest(this.engine, request));
+      this.dispatchEvent(new MessageEvent("message", { data }));
+    });
+  }
+}
+
+describe("compute engine", () => {
+  it("runs the availability pipeline over the hosted line", async () => {
+    const compute = createSyncComputeService();
+    await expect(compute.request("hostLine", line)).resolves.toEqual({ recordCount: 4 });
+
+    const params = { productLineId: LINE.indexed, config, productOptions, facets: { order: ["sizes"] } };
+    const result = await compute.request("availability", params);
+
+    expect(result).toEqual(
+      runAvailabilityPipeline({ ...params, records: facetRecordsFromSkuIndex(skuRows), rules }),
+    );
+    expect(result.disabledOptionIds.drivers).toEqual([DRIVER.legacy]);
+  });
+
+  it("rejects queries for lines it does not host", async () => {
+    const compute = createSyncComputeService();
+    await compute.request("hostLine", line);
+    await expect(compute.request("releaseLine", { productLineId: LINE.indexed })).resolves.toEqual({ released: true });
+
+    await expect(
+      compute.request("rules", { productLineId: LINE.indexed, context: { mirror_style: STYLE.square } }),
+    ).rejects.toThrow(`Product line ${LINE.indexed} is not hosted`);
+  });
+
+  it("applies the hosted rules and collects their constraints", async () => {
+    const compute = createSyncComputeService();
+    await compute.request("hostLine", line);
+
+    const { config: processed, constraints } = await compute.request("rules", {
+      productLineId: LINE.indexed,
+      context: { mirror_style: STYLE.square },
+    });
+
+    expect(processed).toEqual({ mirror_style: STYLE.square, light_direction: 7 });
+    expect(constraints.driver.deny).toEqual(new Set([DRIVER.legacy]));
+  });
+
+  it("formats SKUs and orders visible image layers", async () => {
+    const compute = createSyncComputeService();
+    const grammar = buildSkuGrammar([
+      { id: "z", order: 1, sku_code_item: "sizes" },
+      { id: "d", order: 2, sku_code_item: "drivers" },
+    ]);
+
+    await expect(
+      compute.request("sku", {
+        grammar,
+        baseSku: "T02d",
+        config: { width: "24", height: "36", driver: String(DRIVER.dimmable) },
+        productOptions: { drivers: [option(DRIVER.dimmable, "D")] },
+      }),
+    ).resolves.toBe("T02d-2436-D");
+
+    const images = [
+      layer("frost-top", "Frost Top", 5),
+      layer("square-only", "Square frame", 3, { mirror_styles: { _eq: STYLE.square } }),
+      layer("frost-bottom", "Frost Bottom", "5"),
+      layer("round-only", "Round frame", 3, { mirror_styles: { _eq: STYLE.round } }),
+      layer("broken", "Broken rules", 1, "{not json"),
+      layer("base", "Base", 0),
+    ];
+    await expect(compute.request("layers", { config, images })).resolves.toEqual([5, 1, 2, 0]);
+  });
+});
+
+describe("worker compute service", () => {
+  it("answers through the worker with cloned results", async () => {
+    const worker = new FakeWorker();
+    const compute = createWorkerComputeService(worker as unknown as Worker);
+    await compute.request("hostLine", line);
+
+    const { constraints } = await compute.request("rules", {
+      productLineId: LINE.indexed,
+      context: { mirror_style: STYLE.square },
+    });
+
+    expect(compute.mode).toBe("worker");
+    expect(constraints.driver.deny).toEqual(new Set([DRIVER.legacy]));
+    await expect(compute.request("releaseLine", { productLineId: 1 })).resolves.toEqual({ released: false });
+    await expect(
+      compute.request("availability", { productLineId: 1, config, productOptions }),
+    ).rejects.toThrow("Product line 1 is not hosted");
+  });
+
+  it("falls back to the calling thread when the worker fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const worker = new FakeWorker();
+    // The worker hosts the line, then dies before answering the next request
+    const compute = createWorkerComputeService(worker as unknown as Worker);
+    await compute.request("hostLine", line);
+    worker.postMessage = vi.fn();
+
+    const pending = compute.request("rules", { productLineId: LINE.indexed, context: { mirror_style: STYLE.square } });
+    worker.dispatchEvent(new ErrorEvent("error", { message: "worker script failed", cancelable: true }));
+
+    await expect(pending).resolves.toMatchObject({ config: { light_direction: 7 } });
+    expect(compute.mode).toBe("sync");
+    expect(worker.terminate).toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Compute worker failed"), "worker script failed");
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { createSnapshotDataProvider } = await import("@/services/data-provider");
+const { enumerateConfigurations } = await import("@/services/configuration-enumerator");
+const { buildSkuCoverageReport } = await import("@/services/sku-coverage");
+const { buildSkuGrammar } = await import("@/services/sku-grammar");
+import type { DataSnapshot } from "@/services/data-provider";
+import type { EnumerationInput } from "@/services/configuration-enumerator";
+import type { SkuIndexEntry } from "@/services/sku-coverage";
+
+const snapshot: DataSnapshot = {
+  version: 1,
+  generatedAt: "2025-06-01T00:00:00.000Z",
+  productLines: [{ id: 5, name: "Deco", sku_code: "D", active: true }],
+  products: [
+    { id: 1, product_line: 5, active: true, sku_code: "D01", mirror_style: 1, light_direction: 20 },
+    { id: 2, product_line: 5, active: true, sku_code: "D02", mirror_style: 2, light_direction: 20 },
+    { id: 3, product_line: 5, active: false, sku_code: "D03", mirror_style: 1, light_direction: 20 },
+  ],
+  rules: [
+    {
+      id: "r1",
+      name: "White frames only with standard drivers",
+      priority: null,
+      if_this: { frame_color: { _eq: 41 } },
+      then_that: { driver: { _eq: 30 } },
+    },
+  ],
+  productLineDefaultOptions: [
+    { product_lines_id: 5, collection: "mirror_styles", item: "1" },
+    { product_lines_id: 5, collection: "mirror_styles", item: "2" },
+    { product_lines_id: 5, collection: "light_directions", item: "20" },
+    { product_lines_id: 5, collection: "frame_colors", item: "40" },
+    { product_lines_id: 5, collection: "frame_colors", item: "41" },
+    { product_lines_id: 5, collection: "drivers", item: "30" },
+    { product_lines_id: 5, collection: "drivers", item: "31" },
+  ],
+  // Product 2 only ships with the standard driver
+  productOptionOverrides: [{ products_id: 2, collection: "drivers", item: "30" }],
+  options: {
+    mirror_styles: [
+      { id: 1, name: "Round", sku_code: "01" },
+      { id: 2, name: "Oval", sku_code: "02" },
+    ],
+    light_directions: [{ id: 20, name: "Direct", sku_code: "d" }],
+    frame_colors: [
+      { id: 40, name: "Black", sku_code: "BK" },
+      { id: 41, name: "White", sku_code: "WH" },
+    ],
+    drivers: [
+      { id: 30, name: "Standard", sku_code: "S" },
+      { id: 31, name: "Dimmable", sku_code: "D" },
+    ],
+  },
+  skuCodeOrder: [
+    { id: "p", order: 0, sku_code_item: "products" },
+    { id: "f", order: 1, sku_code_item: "frame_colors" },
+    { id: "d", order: 2, sku_code_item: "drivers" },
+  ],
+};
+
+const provider = createSnapshotDataProvider(snapshot);
+const input: EnumerationInput = {
+  productLine: { id: 5, name: "Deco" },
+  products: snapshot.products,
+  rules: snapshot.rules,
+  grammar: buildSkuGrammar(snapshot.skuCodeOrder),
+  getProductOptions: (productId) => provider.fetchProductOptions(5, productId),
+};
+
+const indexEntry = (
+  sku_code: string,
+  product_id: number,
+  frame_color_id: number,
+  driver_id: number,
+): SkuIndexEntry => ({
+  sku_code,
+  product_id,
+  product_line_id: 5,
+  frame_color_id,
+  driver_id,
+  mirror_style_id: null,
+  light_direction_id: null,
+  frame_thickness_id: null,
+  mounting_option_id: null,
+  hanging_technique_id: null,
+  color_temperature_id: null,
+  light_output_id: null,
+  size_id: null,
+  accessory_id: null,
+});
+
+describe("configuration enumerator", () => {
+  it("enumerates valid configurations per product with overrides and rules applied", async () => {
+    const skus: string[] = [];
+    const stats = await enumerateConfigurations(input, (configuration) => skus.push(configuration.sku));
+
+    expect(skus).toEqual(["D01-BK-S", "D01-BK-D", "D01-WH-S", "D02-BK-S", "D02-WH-S"]);
+    expect(stats).toMatchObject({ products: 2, validConfigurations: 5, truncated: false });
+    // Dimmable is dropped under a white frame before it is visited
+    expect(stats.branchesPruned).toBe(1);
+  });
+
+  it("stops at the configuration cap", async () => {
+    const stats = await enumerateConfigurations(input, () => {}, { maxConfigurations: 2 });
+
+    expect(stats).toMatchObject({ validConfigurations: 2, truncated: true });
+  });
+});
+
+describe("SKU coverage report", () => {
+  it("reports valid configurations missing from sku_index and invalid index rows", async () => {
+    const report = await buildSkuCoverageReport(input, [
+      indexEntry("D01-BK-S", 1, 40, 30),
+      indexEntry("D01-BK-D", 1, 40, 31),
+      indexEntry("D01-WH-S", 1, 41, 30),
+      indexEntry("D02-BK-S", 1, 40, 30),
+      indexEntry("D01-WH-D", 1, 41, 31),
+      indexEntry("D02-BK-D", 2, 40, 31),
+    ]);
+
+    expect(report.summary).toMatchObject({ indexEntries: 6, validMissing: 1, presentInvalid: 3 });
+    expect(report.validMissing.map((issue) => issue.sku)).toEqual(["D02-WH-S"]);
+    expect(report.validMissing[0].selections).toEqual({ mirrorStyle: "2", lighting: "20", frameColor: "41", driver: "30" });
+    expect(report.presentInvalid.map((issue) => [issue.sku, issue.reason])).toEqual([
+      ["D02-BK-S", "sku_code differs from generated SKU D01-BK-S"],
+      ["D01-WH-D", "drivers 31 is excluded by rules"],
+      ["D02-BK-D", "drivers 31 is not offered"],
+    ]);
+  });
+});
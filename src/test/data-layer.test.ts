@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const {
+  DATA_CACHE_VERSION,
+  clearDataCache,
+  fetchCached,
+  persistDataCache,
+  queryClient,
+  queryKeys,
+  restoreDataCache,
+  startRealtimeInvalidation,
+  subscribeToDataChanges,
+} = await import("@/services/data-layer");
+const { applyDataChange } = await import("@/store/data-sync");
+import type { DataChange } from "@/services/data-layer";
+import type { ProductOptions } from "@/store/types";
+
+const optionsWith = (frameColorIds: number[]) =>
+  ({ frameColors: frameColorIds.map((id) => ({ id, name: `Color ${id}` })) }) as unknown as ProductOptions;
+
+// A Supabase client whose channel hands its postgres_changes handlers to the test
+function createRealtimeClient() {
+  const handlers = new Map<string, (payload: unknown) => void>();
+  const channel = {
+    on: vi.fn((_type: string, filter: { table: string }, handler: (payload: unknown) => void) => {
+      handlers.set(filter.table, handler);
+      return channel;
+    }),
+    subscribe: vi.fn(() => channel),
+  };
+  const client = { channel: vi.fn(() => channel), removeChannel: vi.fn(async () => "ok") };
+  const emit = (
+    table: string,
+    row: Record<string, unknown>,
+    old: Record<string, unknown> = {},
+    eventType: "INSERT" | "UPDATE" | "DELETE" = "UPDATE",
+  ) => handlers.get(table)?.({ table, eventType, new: row, old });
+  return { client, channel, handlers, emit };
+}
+
+describe("data layer", () => {
+  beforeEach(() => {
+    clearDataCache();
+  });
+
+  it("serves cached data and revalidates it in the background once stale", async () => {
+    const changes: DataChange[] = [];
+    const unsubscribe = subscribeToDataChanges((change) => changes.push(change));
+    const queryFn = vi.fn().mockResolvedValueOnce(["old rule"]).mockResolvedValueOnce(["new rule"]);
+
+    await expect(fetchCached({ queryKey: queryKeys.rules(), queryFn, staleTime: 0 })).resolves.toEqual(["old rule"]);
+    // Stale: answered from the cache while the fresh rules load
+    await expect(fetchCached({ queryKey: queryKeys.rules(), queryFn, staleTime: 0 })).resolves.toEqual(["old rule"]);
+
+    await vi.waitFor(() => expect(changes).toHaveLength(1));
+    expect(changes[0]).toEqual({ source: "revalidate", queryKeys: [queryKeys.rules()] });
+    expect(queryClient.getQueryData(queryKeys.rules())).toEqual(["new rule"]);
+    expect(queryFn).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("stays quiet when a revalidation brings the same data", async () => {
+    const changes: DataChange[] = [];
+    const unsubscribe = subscribeToDataChanges((change) => changes.push(change));
+    const queryFn = vi.fn(async () => [{ id: 1, name: "Line" }]);
+
+    await fetchCached({ queryKey: queryKeys.productLines(), queryFn, staleTime: 0 });
+    await fetchCached({ queryKey: queryKeys.productLines(), queryFn, staleTime: 0 });
+
+    await vi.waitFor(() => expect(queryFn).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(queryClient.isFetching()).toBe(0));
+    expect(changes).toEqual([]);
+    unsubscribe();
+  });
+
+  it("invalidates exactly the queries a realtime row change affects", async () => {
+    const { client, channel, handlers, emit } = createRealtimeClient();
+    const changes: DataChange[] = [];
+    const unsubscribe = subscribeToDataChanges((change) => changes.push(change));
+    const stop = startRealtimeInvalidation(client as any);
+
+    queryClient.setQueryData(queryKeys.rules(), []);
+    queryClient.setQueryData(queryKeys.productOptions(1), optionsWith([11, 12]));
+    queryClient.setQueryData(queryKeys.productOptions(1, 7), optionsWith([12]));
+    queryClient.setQueryData(queryKeys.productOptions(2), optionsWith([21]));
+    queryClient.setQueryData(queryKeys.facetRecords(1), []);
+    queryClient.setQueryData(queryKeys.facetRecords(2), []);
+    const invalidated = () =>
+      queryClient
+        .getQueryCache()
+        .findAll({ predicate: (query) => query.state.isInvalidated })
+        .map((query) => query.queryKey);
+
+    expect(channel.subscribe).toHaveBeenCalled();
+    expect([...handlers.keys()]).toEqual(expect.arrayContaining(["rules", "product_lines_default_options", "frame_colors", "sizes"]));
+
+    // Color 11 is only offered by line 1's defaults
+    emit("frame_colors", { id: 11, name: "Renamed" });
+    expect(invalidated()).toEqual([queryKeys.productOptions(1), queryKeys.facetRecords(1)]);
+    expect(changes.at(-1)).toEqual({
+      source: "realtime",
+      table: "frame_colors",
+      queryKeys: [queryKeys.productOptions(1), queryKeys.facetRecords(1)],
+    });
+
+    emit("product_lines_default_options", { product_lines_id: 2, collection: "sizes", item: "40" });
+    expect(invalidated()).toEqual(
+      expect.arrayContaining([queryKeys.productOptions(2), queryKeys.facetRecords(2)]),
+    );
+    expect(invalidated()).toHaveLength(4);
+
+    emit("rules", { id: "r1" });
+    expect(invalidated()).toHaveLength(5);
+    expect(queryClient.getQueryState(queryKeys.rules())?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.productOptions(1, 7))?.isInvalidated).toBe(false);
+
+    // A change no cached query depends on is not announced
+    const announced = changes.length;
+    emit("frame_colors", { id: 99 });
+    expect(changes).toHaveLength(announced);
+
+    stop();
+    expect(client.removeChannel).toHaveBeenCalledWith(channel);
+    unsubscribe();
+  });
+
+  it("invalidates every line's options and records when an option row is inserted", () => {
+    const { client, emit } = createRealtimeClient();
+    const stop = startRealtimeInvalidation(client as any);
+
+    queryClient.setQueryData(queryKeys.rules(), []);
+    queryClient.setQueryData(queryKeys.productOptions(1), optionsWith([11]));
+    queryClient.setQueryData(queryKeys.productOptions(2), optionsWith([21]));
+    queryClient.setQueryData(queryKeys.facetRecords(2), []);
+
+    // No cached options contain the new color yet
+    emit("frame_colors", { id: 30, name: "New" }, {}, "INSERT");
+
+    expect(queryClient.getQueryState(queryKeys.productOptions(1))?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.productOptions(2))?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.facetRecords(2))?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.rules())?.isInvalidated).toBe(false);
+    stop();
+  });
+
+  it("invalidates the lines offering a deleted option row", () => {
+    const { client, emit } = createRealtimeClient();
+    const stop = startRealtimeInvalidation(client as any);
+
+    queryClient.setQueryData(queryKeys.productOptions(1), optionsWith([11]));
+    queryClient.setQueryData(queryKeys.productOptions(2), optionsWith([21]));
+    queryClient.setQueryData(queryKeys.facetRecords(1), []);
+    queryClient.setQueryData(queryKeys.facetRecords(2), []);
+
+    // A delete only carries the primary key
+    emit("frame_colors", {}, { id: 21 }, "DELETE");
+
+    expect(queryClient.getQueryState(queryKeys.productOptions(2))?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.facetRecords(2))?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(queryKeys.productOptions(1))?.isInvalidated).toBe(false);
+    expect(queryClient.getQueryState(queryKeys.facetRecords(1))?.isInvalidated).toBe(false);
+    stop();
+  });
+
+  it("waits for fresh data once a query was invalidated", async () => {
+    const { client, emit } = createRealtimeClient();
+    const stop = startRealtimeInvalidation(client as any);
+    const queryFn = vi.fn().mockResolvedValueOnce(["old rule"]).mockResolvedValueOnce(["new rule"]);
+
+    await fetchCached({ queryKey: queryKeys.rules(), queryFn });
+    emit("rules", { id: "r1" });
+
+    await expect(fetchCached({ queryKey: queryKeys.rules(), queryFn })).resolves.toEqual(["new rule"]);
+    stop();
+  });
+
+  describe("persistence", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      localStorage.clear();
+    });
+
+    it("restores the persisted cache, without facet records", async () => {
+      vi.useFakeTimers();
+      const stop = persistDataCache(localStorage);
+      await fetchCached({ queryKey: queryKeys.rules(), queryFn: async () => ["rule"] });
+      await fetchCached({ queryKey: queryKeys.facetRecords(1), queryFn: async () => [], persist: false });
+      vi.advanceTimersByTime(1000);
+      stop();
+
+      queryClient.clear();
+      expect(restoreDataCache(localStorage)).toBe(true);
+      expect(queryClient.getQueryData(queryKeys.rules())).toEqual(["rule"]);
+      expect(queryClient.getQueryData(queryKeys.facetRecords(1))).toBeUndefined();
+    });
+
+    it("discards a cache persisted by another version", () => {
+      localStorage.setItem(
+        "mtx_data_cache",
+        JSON.stringify({ version: DATA_CACHE_VERSION + 1, savedAt: Date.now(), state: { queries: [], mutations: [] } }),
+      );
+
+      expect(restoreDataCache(localStorage)).toBe(false);
+      expect(localStorage.getItem("mtx_data_cache")).toBeNull();
+    });
+  });
+});
+
+describe("data sync", () => {
+  const storeWith = (lineId: number) => {
+    const state = {
+      currentProductLine: { id: lineId, name: "Line" },
+      currentProduct: null,
+      currentConfig: { productLineId: lineId },
+      setProductOptions: vi.fn(),
+      recomputeFiltering: vi.fn(async () => {}),
+    };
+    return { state, store: { getState: () => state } as any };
+  };
+
+  it("recomputes the current line when its rules change", async () => {
+    const { state, store } = storeWith(1);
+
+    await applyDataChange(store, { source: "realtime", table: "rules", queryKeys: [queryKeys.rules()] });
+
+    expect(state.recomputeFiltering).toHaveBeenCalledWith(state.currentProductLine, state.currentConfig);
+    expect(state.setProductOptions).not.toHaveBeenCalled();
+  });
+
+  it("ignores changes to other product lines", async () => {
+    const { state, store } = storeWith(1);
+
+    await applyDataChange(store, {
+      source: "realtime",
+      table: "product_lines_default_options",
+      queryKeys: [queryKeys.productOptions(2), queryKeys.facetRecords(2)],
+    });
+
+    expect(state.recomputeFiltering).not.toHaveBeenCalled();
+  });
+});
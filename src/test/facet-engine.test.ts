@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+const tables = vi.hoisted(() => ({}) as Record<string, any[]>);
+vi.mock("@/services/supabase", () => ({
+  getProducts: async () => tables.products ?? [],
+  supabase: {
+    from: (table: string) => {
+      let rows = tables[table] ?? [];
+      const query: any = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter((row) => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          rows = rows.filter((row) => values.includes(row[column]));
+          return query;
+        },
+        order: () => query,
+        range: (from: number, to: number) => {
+          rows = rows.slice(from, to + 1);
+          return query;
+        },
+        then: (resolve: (result: unknown) => void) => resolve({ data: rows, error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+const {
+  clearFacetRecordCache,
+  computeFacets,
+  facetRecordsFromProducts,
+  facetRecordsFromSkuIndex,
+  facetSelections,
+  loadFacetRecords,
+} = await import("@/services/facet-engine");
+const { computeProductAvailability, computeUnavailableOptions, explainUnavailableOptions } = await import(
+  "@/services/product-availability"
+);
+const { formatDisabledReason } = await import("@/services/option-explainer");
+const { createTranslator } = await import("@/i18n/translator");
+import type { ProductConfig, ProductOptions } from "@/store/types";
+
+const translator = createTranslator("en");
+
+const sku = (productId: number, mirrorStyle: number, driver: number, size: number) => ({
+  product_id: productId,
+  product_line_id: 5,
+  mirror_style_id: mirrorStyle,
+  driver_id: driver,
+  size_id: size,
+  accessory_id: null,
+});
+
+// Round mirrors (1) only take the standard driver; square mirrors (2) take both
+const skuRows = [
+  sku(10, 1, 30, 100),
+  sku(10, 1, 30, 101),
+  sku(11, 2, 30, 100),
+  sku(11, 2, 31, 101),
+  sku(12, 2, 31, 101),
+];
+
+const sizes = [
+  { id: 100, name: "24 x 36", sku_code: "2436", width: 24, height: 36 },
+  { id: 101, name: "30 x 40", sku_code: "3040", width: 30, height: 40 },
+];
+
+const config = {
+  id: "c",
+  productLineId: 5,
+  productLineName: "Line",
+  mirrorStyle: "1",
+  frameThickness: "",
+  lighting: "",
+  frameColor: "",
+  mounting: "",
+  hangingTechnique: "",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "30",
+  mirrorControls: "",
+  accessories: "",
+  width: "30",
+  height: "40.0",
+  quantity: 1,
+} as ProductConfig;
+
+afterEach(() => {
+  for (const table of Object.keys(tables)) delete tables[table];
+  clearFacetRecordCache();
+});
+
+describe("computeFacets", () => {
+  const records = facetRecordsFromSkuIndex(skuRows);
+
+  it("counts products per option under the upstream selections only", () => {
+    const result = computeFacets(records, facetSelections(config, sizes));
+
+    expect(result.collections.mirror_styles).toMatchObject({ upstream: [], counts: { 1: 1, 2: 2 } });
+    expect(result.collections.drivers).toMatchObject({
+      upstream: ["mirror_styles"],
+      counts: { 30: 1 },
+      line: [30, 31],
+      byUpstream: { mirror_styles: [30] },
+    });
+    expect(result.collections.sizes.counts).toEqual({ 100: 1, 101: 1 });
+    expect(result.matchingProductCount).toBe(1);
+    // sku_index has no frame thickness column values for this line
+    expect(result.collections.frame_thicknesses).toBeUndefined();
+  });
+
+  it("follows the configured order and explicit dependencies", () => {
+    const selections = facetSelections({ ...config, mirrorStyle: "", driver: "31" }, sizes);
+
+    const driverFirst = computeFacets(records, selections, { order: ["drivers", "mirror_styles"] });
+    expect(driverFirst.collections.mirror_styles).toMatchObject({ upstream: ["drivers"], counts: { 2: 2 } });
+    expect(driverFirst.collections.drivers.upstream).toEqual([]);
+
+    const independent = computeFacets(records, selections, {
+      order: ["drivers", "mirror_styles"],
+      dependencies: { mirror_styles: [] },
+    });
+    expect(independent.collections.mirror_styles.counts).toEqual({ 1: 1, 2: 2 });
+  });
+});
+
+describe("facet records", () => {
+  it("selects size presets by dimension and reads accessory lists", () => {
+    expect(facetSelections({ ...config, accessories: "7,8" }, sizes)).toEqual({
+      mirror_styles: [1],
+      drivers: [30],
+      sizes: [101],
+      accessories: [7, 8],
+    });
+    expect(facetSelections({ ...config, width: "31" }, sizes).sizes).toBeUndefined();
+  });
+
+  it("lets a product's facet columns win over its option assignments", () => {
+    const products = [{ id: 10, mirror_style: 1, frame_thickness: { key: 4 }, light_direction: null }];
+    const assignments = new Map([
+      ["mirror_styles", [1, 2]],
+      ["drivers", [30, 31]],
+      ["mirror_controls", [9]],
+    ]);
+
+    expect(facetRecordsFromProducts(products, () => assignments)).toEqual([
+      { productId: 10, values: { mirror_styles: [1], frame_thicknesses: [4], drivers: [30, 31] } },
+    ]);
+  });
+
+  it("loads sku_index for active products and falls back to product option assignments", async () => {
+    tables.products = [
+      { id: 10, product_line: 5, active: true, mirror_style: 1 },
+      { id: 11, product_line: 5, active: true, mirror_style: 2 },
+      { id: 12, product_line: 5, active: false, mirror_style: 2 },
+    ];
+    tables.sku_index = skuRows;
+
+    expect((await loadFacetRecords(5)).map((record) => record.productId)).toEqual([10, 10, 11, 11]);
+
+    clearFacetRecordCache();
+    tables.sku_index = [];
+    tables.product_lines_default_options = [
+      { product_lines_id: 5, collection: "drivers", item: "30" },
+      { product_lines_id: 5, collection: "drivers", item: "31" },
+    ];
+    tables.products_options_overrides = [{ products_id: 10, collection: "drivers", item: "30" }];
+
+    expect(await loadFacetRecords(5)).toEqual([
+      { productId: 10, values: { drivers: [30], mirror_styles: [1] } },
+      { productId: 11, values: { drivers: [30, 31], mirror_styles: [2] } },
+    ]);
+  });
+});
+
+describe("computeProductAvailability", () => {
+  it("disables options of every faceted collection and explains them", async () => {
+    tables.products = [10, 11, 12].map((id) => ({ id, product_line: 5, active: true }));
+    tables.sku_index = skuRows;
+    const productOptions = {
+      mirrorStyles: [],
+      drivers: [
+        { id: 30, name: "Standard", sku_code: "S" },
+        { id: 31, name: "Dimmable", sku_code: "D" },
+      ],
+      sizes,
+    } as unknown as ProductOptions;
+
+    const availability = await computeProductAvailability(5, { ...config, mirrorStyle: "2", driver: "31" }, { sizes });
+    expect(availability.counts.drivers).toEqual({ 30: 1, 31: 2 });
+
+    const round = await computeProductAvailability(5, config, { sizes });
+    const unavailable = computeUnavailableOptions(round.availableOptions, productOptions as any);
+    expect(unavailable).toEqual({ drivers: [31] });
+
+    const reasons = explainUnavailableOptions(unavailable, round, config);
+    expect(reasons.drivers[31]).toEqual([{ source: "availability", upstream: [{ field: "mirrorStyle", value: "1" }] }]);
+
+    // With sizes ordered first, the driver is blamed on the selected size preset
+    const small = { ...config, width: "24", height: "36" };
+    const bySize = await computeProductAvailability(5, small, { sizes, order: ["sizes", "drivers"] });
+    const sizeReasons = explainUnavailableOptions(
+      computeUnavailableOptions(bySize.availableOptions, productOptions as any),
+      bySize,
+      small,
+    );
+    expect(formatDisabledReason(sizeReasons.drivers[31][0], productOptions, translator)).toBe(
+      'No products match the selected size "24 x 36"',
+    );
+  });
+});
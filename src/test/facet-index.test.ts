@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {}, getRules: async () => [] }));
+
+// The store's availability model loads its facet index through this; tests resolve the loads by hand
+const loads = vi.hoisted(() => ({
+  pending: [] as Array<(index: unknown) => void>,
+}));
+
+vi.mock("@/services/facet-index", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/facet-index")>()),
+  loadFacetIndex: () => new Promise((resolve) => loads.pending.push(resolve)),
+}));
+
+const { createFacetIndex } = await import("@/services/facet-index");
+const { clearAvailabilityModelCache } = await import("@/services/availability-pipeline");
+const { computeFacets, facetRecordsFromAssignments, facetRecordsFromSkuIndex } = await import(
+  "@/services/facet-engine"
+);
+const { useConfiguratorStore } = await import("@/store");
+import type { FacetRecord, FacetSelections } from "@/services/facet-engine";
+import type { ProductConfig, ProductLine, ProductOptions } from "@/store/types";
+import {
+  ACCESSORY,
+  DRIVER,
+  LINE,
+  SIZE,
+  STYLE,
+  THICKNESS,
+  defaultOptionRows,
+  overrideRows,
+  productRows,
+  skuIndexRows,
+} from "./fixtures/availability-conformance";
+
+const indexedRecords = facetRecordsFromSkuIndex(skuIndexRows);
+const assignedProducts = productRows.filter((product) => product.product_line === LINE.assigned);
+const assignedRecords = facetRecordsFromAssignments(
+  assignedProducts,
+  defaultOptionRows.filter((row) => row.product_lines_id === LINE.assigned),
+  overrideRows,
+);
+
+// Every single-option selection and every pair of them across collections
+function selectionsFor(records: FacetRecord[]): FacetSelections[] {
+  const singles = records.flatMap((record) =>
+    Object.entries(record.values).flatMap(([collection, ids]) => ids.map((id) => ({ [collection]: [id] }))),
+  );
+  return [
+    {},
+    ...singles,
+    ...singles.flatMap((a) => singles.filter((b) => Object.keys(b)[0] !== Object.keys(a)[0]).map((b) => ({ ...a, ...b }))),
+    // An id nothing offers
+    { drivers: [1] },
+  ];
+}
+
+describe("facet index", () => {
+  it.each([
+    ["sku_index records", indexedRecords],
+    ["assigned records", assignedRecords],
+  ])("facets %s exactly like computeFacets", (_, records) => {
+    const index = createFacetIndex(records);
+
+    for (const order of [undefined, ["sizes", "drivers"], ["accessories", "frame_thicknesses"]]) {
+      for (const selections of selectionsFor(records)) {
+        expect(index.facets(selections, { order })).toEqual(computeFacets(records, selections, { order }));
+      }
+    }
+    expect(
+      index.facets(
+        { frame_thicknesses: [THICKNESS.wide], accessories: [ACCESSORY.defogger, ACCESSORY.nightLight] },
+        { dependencies: { accessories: ["frame_thicknesses"] } },
+      ),
+    ).toEqual(
+      computeFacets(
+        records,
+        { frame_thicknesses: [THICKNESS.wide], accessories: [ACCESSORY.defogger, ACCESSORY.nightLight] },
+        { dependencies: { accessories: ["frame_thicknesses"] } },
+      ),
+    );
+  });
+
+  it("only recomputes the collections downstream of a changed selection", () => {
+    const index = createFacetIndex(indexedRecords);
+    const before = index.facets({ mirror_styles: [STYLE.square], drivers: [DRIVER.standard] });
+    const after = index.facets({ mirror_styles: [STYLE.square], drivers: [DRIVER.dimmable] });
+
+    expect(after.collections.mirror_styles).toBe(before.collections.mirror_styles);
+    expect(after.collections.drivers).toBe(before.collections.drivers);
+    expect(after.collections.sizes).not.toBe(before.collections.sizes);
+    expect(after.collections.sizes.counts).toEqual({ [SIZE.large]: 1 });
+    expect(before.collections.sizes.counts).toEqual({ [SIZE.small]: 1 });
+  });
+
+  it("facets nothing without records", () => {
+    expect(createFacetIndex([]).facets({ drivers: [DRIVER.standard] })).toEqual({
+      collections: {},
+      matchingProductCount: 0,
+    });
+  });
+});
+
+describe("recomputeFiltering", () => {
+  const productLine = { id: 5, name: "Deco", sku_code: "DEC", active: true } as ProductLine;
+  const option = (id: number) => ({ id, name: String(id), sku_code: String(id) }) as any;
+  const productOptions = {
+    mirrorControls: [],
+    frameColors: [],
+    frameThickness: [],
+    mirrorStyles: [option(1), option(2)],
+    mountingOptions: [],
+    hangingTechniques: [],
+    lightingOptions: [],
+    colorTemperatures: [],
+    lightOutputs: [],
+    drivers: [option(30), option(31)],
+    accessoryOptions: [],
+    sizes: [],
+  } as unknown as ProductOptions;
+  // Round mirrors only come with the standard driver
+  const index = createFacetIndex([
+    { productId: 1, values: { mirror_styles: [1], drivers: [30] } },
+    { productId: 2, values: { mirror_styles: [2], drivers: [30, 31] } },
+  ]);
+  const config = (mirrorStyle: string) => ({ productLineId: 5, mirrorStyle, driver: "" }) as ProductConfig;
+
+  const setDisabledOptions = vi.fn((disabled: Record<string, number[]>) =>
+    useConfiguratorStore.setState({ disabledOptions: disabled }),
+  );
+  const setComputingAvailability = vi.fn((computing: boolean) =>
+    useConfiguratorStore.setState({ isComputingAvailability: computing }),
+  );
+
+  beforeEach(() => {
+    clearAvailabilityModelCache();
+    loads.pending.length = 0;
+    setDisabledOptions.mockClear();
+    setComputingAvailability.mockClear();
+    useConfiguratorStore.setState({
+      productOptions,
+      configurationUI: [],
+      currentConfig: config("2"),
+      disabledOptions: {},
+      isComputingAvailability: false,
+      setDisabledOptions,
+      setComputingAvailability,
+      validateAndAdjustSelections: vi.fn(async () => {}),
+    });
+  });
+
+  it("never applies a recompute that a later one has superseded", async () => {
+    const { recomputeFiltering } = useConfiguratorStore.getState();
+    const round = recomputeFiltering(productLine, config("1"));
+    const square = recomputeFiltering(productLine, config("2"));
+    // Both wait for the one model load
+    await vi.waitFor(() => expect(loads.pending).toHaveLength(1));
+    expect(useConfiguratorStore.getState().isComputingAvailability).toBe(true);
+
+    loads.pending[0](index);
+    await Promise.all([round, square]);
+
+    expect(setDisabledOptions).toHaveBeenCalledTimes(1);
+    expect(useConfiguratorStore.getState().disabledOptions).toEqual({});
+    expect(useConfiguratorStore.getState().isComputingAvailability).toBe(false);
+  });
+
+  it("recomputes without reloading once the model is loaded", async () => {
+    const { recomputeFiltering } = useConfiguratorStore.getState();
+    const first = recomputeFiltering(productLine, config("2"));
+    await vi.waitFor(() => expect(loads.pending).toHaveLength(1));
+    loads.pending[0](index);
+    await first;
+    setComputingAvailability.mockClear();
+
+    await recomputeFiltering(productLine, config("1"));
+
+    expect(useConfiguratorStore.getState().disabledOptions).toEqual({ drivers: [31] });
+    expect(loads.pending).toHaveLength(1);
+    expect(setComputingAvailability).not.toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Availability conformance fixture
+ *
+ * Catalog rows and selection cases run through both the TS availability pipeline and the
+ * SQL function get_option_availability (see availability-conformance.test.ts). Ids sit
+ * far above production ids so the rows never collide with real catalog data.
+ */
+
+import type { Rule } from "../../services/supabase";
+import type { ProductConfig } from "../../store/types";
+
+export const LINE = { indexed: 990001, assigned: 990002 };
+
+export const PRODUCT = {
+  roundIndexed: 990101,
+  squareIndexed: 990102,
+  retiredIndexed: 990103,
+  roundAssigned: 990201,
+  squareAssigned: 990202,
+  squarePlain: 990203,
+};
+
+export const STYLE = { round: 990301, square: 990302, oval: 990303 };
+export const DRIVER = { standard: 990311, dimmable: 990312, legacy: 990313 };
+export const SIZE = { small: 990321, large: 990322 };
+export const FRAME_COLOR = { black: 990331, white: 990332 };
+export const THICKNESS = { thin: 990341, wide: 990342 };
+export const OUTPUT = { standard: 990351, high: 990352 };
+export const ACCESSORY = { defogger: 990361, nightLight: 990362 };
+export const HANGING = { cleat: 990371 };
+
+const named = (ids: Record<string, number>) =>
+  Object.entries(ids).map(([name, id]) => ({ id, name, sku_code: name.slice(0, 2).toUpperCase() }));
+
+// Option table rows by collection
+export const optionRows: Record<string, Array<Record<string, any>>> = {
+  mirror_styles: named(STYLE),
+  drivers: named(DRIVER),
+  sizes: [
+    { id: SIZE.small, name: "24 x 36", sku_code: "2436", width: 24, height: 36 },
+    { id: SIZE.large, name: "30 x 40", sku_code: "3040", width: 30, height: 40 },
+  ],
+  frame_colors: named(FRAME_COLOR),
+  frame_thicknesses: named(THICKNESS),
+  light_outputs: named(OUTPUT),
+  accessories: named(ACCESSORY),
+  hanging_techniques: named(HANGING),
+};
+
+export const productLineRows = [
+  { id: LINE.indexed, name: "Conformance indexed", sku_code: "CI", active: true },
+  { id: LINE.assigned, name: "Conformance assigned", sku_code: "CA", active: true },
+];
+
+export const productRows = [
+  { id: PRODUCT.roundIndexed, product_line: LINE.indexed, active: true, mirror_style: STYLE.round, sku_code: "CI1" },
+  { id: PRODUCT.squareIndexed, product_line: LINE.indexed, active: true, mirror_style: STYLE.square, sku_code: "CI2" },
+  { id: PRODUCT.retiredIndexed, product_line: LINE.indexed, active: false, mirror_style: STYLE.square, sku_code: "CI3" },
+  {
+    id: PRODUCT.roundAssigned,
+    product_line: LINE.assigned,
+    active: true,
+    mirror_style: STYLE.round,
+    frame_thickness: { key: THICKNESS.thin },
+    sku_code: "CA1",
+  },
+  {
+    id: PRODUCT.squareAssigned,
+    product_line: LINE.assigned,
+    active: true,
+    mirror_style: STYLE.square,
+    frame_thickness: THICKNESS.wide,
+    sku_code: "CA2",
+  },
+  { id: PRODUCT.squarePlain, product_line: LINE.assigned, active: true, mirror_style: STYLE.square, sku_code: "CA3" },
+];
+
+const defaults = (lineId: number, collection: string, ids: number[]) =>
+  ids.map((id) => ({ product_lines_id: lineId, collection, item: String(id) }));
+
+export const defaultOptionRows = [
+  ...defaults(LINE.indexed, "mirror_styles", Object.values(STYLE)),
+  ...defaults(LINE.indexed, "drivers", Object.values(DRIVER)),
+  ...defaults(LINE.indexed, "sizes", Object.values(SIZE)),
+  // Not in sku_index: offered, but not faceted
+  ...defaults(LINE.indexed, "frame_colors", Object.values(FRAME_COLOR)),
+  ...defaults(LINE.assigned, "mirror_styles", [STYLE.round, STYLE.square]),
+  ...defaults(LINE.assigned, "frame_thicknesses", Object.values(THICKNESS)),
+  ...defaults(LINE.assigned, "drivers", [DRIVER.standard, DRIVER.dimmable]),
+  ...defaults(LINE.assigned, "light_outputs", Object.values(OUTPUT)),
+  ...defaults(LINE.assigned, "accessories", Object.values(ACCESSORY)),
+  // The misspelled collection name the product options loader also accepts
+  ...defaults(LINE.assigned, "hanging_techiques", [HANGING.cleat]),
+  { product_lines_id: LINE.assigned, collection: "drivers", item: "not an id" },
+];
+
+export const overrideRows = [
+  { products_id: PRODUCT.roundAssigned, collection: "drivers", item: String(DRIVER.standard) },
+  { products_id: PRODUCT.squareAssigned, collection: "accessories", item: String(ACCESSORY.nightLight) },
+  { products_id: PRODUCT.squarePlain, collection: "light_outputs", item: String(OUTPUT.high) },
+  // Overrides of a product in another line never apply
+  { products_id: PRODUCT.roundIndexed, collection: "drivers", item: String(DRIVER.legacy) },
+];
+
+const sku = (productId: number, style: number, driver: number, size: number, code: string) => ({
+  product_id: productId,
+  product_line_id: LINE.indexed,
+  mirror_style_id: style,
+  driver_id: driver,
+  size_id: size,
+  sku_code: code,
+});
+
+export const skuIndexRows = [
+  sku(PRODUCT.roundIndexed, STYLE.round, DRIVER.standard, SIZE.small, "CI-1"),
+  sku(PRODUCT.roundIndexed, STYLE.round, DRIVER.standard, SIZE.large, "CI-2"),
+  sku(PRODUCT.squareIndexed, STYLE.square, DRIVER.standard, SIZE.small, "CI-3"),
+  sku(PRODUCT.squareIndexed, STYLE.square, DRIVER.dimmable, SIZE.large, "CI-4"),
+  // Inactive products never count
+  sku(PRODUCT.retiredIndexed, STYLE.square, DRIVER.legacy, SIZE.large, "CI-5"),
+];
+
+export interface ConformanceCase {
+  name: string;
+  productLineId: number;
+  config: Partial<ProductConfig>;
+  // Facet order (configuration_ui collections)
+  order?: string[];
+  // Rules applied by the TS pipeline; the SQL function does not apply rules, so cases
+  // with rules are not compared against it
+  rules?: Rule[];
+}
+
+export const conformanceCases: ConformanceCase[] = [
+  { name: "indexed line without selections", productLineId: LINE.indexed, config: {} },
+  {
+    name: "indexed line narrowed by mirror style",
+    productLineId: LINE.indexed,
+    config: { mirrorStyle: String(STYLE.round) },
+  },
+  {
+    name: "indexed line with a driver selected below the mirror style",
+    productLineId: LINE.indexed,
+    config: { mirrorStyle: String(STYLE.square), driver: String(DRIVER.dimmable) },
+  },
+  {
+    name: "indexed line with sizes ordered first",
+    productLineId: LINE.indexed,
+    config: { mirrorStyle: String(STYLE.round), width: "24", height: "36" },
+    order: ["sizes", "drivers"],
+  },
+  { name: "assigned line without selections", productLineId: LINE.assigned, config: {} },
+  {
+    name: "assigned line with overrides and several accessories",
+    productLineId: LINE.assigned,
+    config: {
+      mirrorStyle: String(STYLE.square),
+      accessories: `${ACCESSORY.defogger},${ACCESSORY.nightLight}`,
+    },
+  },
+  {
+    name: "assigned line with drivers ordered before frame thickness",
+    productLineId: LINE.assigned,
+    config: { frameThickness: String(THICKNESS.wide), driver: String(DRIVER.dimmable) },
+    order: ["drivers", "frame_thicknesses"],
+  },
+  {
+    name: "indexed line with a rule excluding a driver",
+    productLineId: LINE.indexed,
+    config: { mirrorStyle: String(STYLE.square) },
+    rules: [
+      {
+        id: "conformance-rule",
+        name: "No standard driver on square mirrors",
+        if_this: { mirror_style: { _eq: STYLE.square } },
+        then_that: { driver: { _neq: DRIVER.standard } },
+      } as unknown as Rule,
+    ],
+  },
+];
@@ -0,0 +1,85 @@
+-- Catalog tables the availability migration reads, with the columns of the generated
+-- client types (supabase.ts). The availability conformance tests create them in a
+-- throwaway PGlite database before applying the migration.
+
+create table product_lines (
+  id integer primary key,
+  name text,
+  sku_code text,
+  description text,
+  image text,
+  active boolean,
+  sort integer,
+  date_updated timestamptz
+);
+
+create table products (
+  id integer primary key,
+  name text,
+  sku_code text,
+  description text,
+  product_line integer references product_lines (id),
+  mirror_style integer,
+  light_direction integer,
+  frame_thickness jsonb,
+  active boolean,
+  sort integer,
+  vertical_image text,
+  horizontal_image text,
+  spec_sheet text,
+  revit_file text,
+  webflow_id text
+);
+
+create table product_lines_default_options (
+  id serial primary key,
+  product_lines_id integer references product_lines (id),
+  collection text,
+  item text
+);
+
+create table products_options_overrides (
+  id serial primary key,
+  products_id integer references products (id),
+  collection text,
+  item text
+);
+
+create table sku_index (
+  id serial primary key,
+  sku_code text not null,
+  product_id integer not null references products (id),
+  product_line_id integer references product_lines (id),
+  mirror_style_id integer,
+  frame_thickness_id integer,
+  light_direction_id integer,
+  frame_color_id integer,
+  mounting_option_id integer,
+  hanging_technique_id integer,
+  color_temperature_id integer,
+  light_output_id integer,
+  driver_id integer,
+  size_id integer,
+  accessory_id integer,
+  created_at timestamptz default now()
+);
+
+create table configuration_ui (
+  id text primary key,
+  collection text,
+  ui_type text,
+  sort integer,
+  date_updated timestamptz
+);
+
+create table mirror_styles (id integer primary key, name text, sku_code text, description text, active boolean, sort integer);
+create table frame_thicknesses (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table light_directions (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table frame_colors (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table mounting_options (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table hanging_techniques (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table color_temperatures (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table light_outputs (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table drivers (id integer primary key, name text, sku_code text, active boolean, sort integer);
+create table sizes (id integer primary key, name text, sku_code text, width text, height text, active boolean, sort integer);
+create table accessories (id integer primary key, name text, sku_code text, active boolean, sort integer);
@@ -3,6 +3,8 @@
  * Generated from actual database queries to ensure tests match reality
  */
 
+import { DATA_SNAPSHOT_VERSION, type DataSnapshot } from "../../services/data-provider";
+
 // Real product lines from your Supabase
 export const realProductLines = [
   {
@@ -60,3 +62,26 @@ export const realProducts = [
   }
   // Add more real products...
 ];
+
+// The same data in the offline snapshot format served by the snapshot data provider
+export const realDataSnapshot: DataSnapshot = {
+  version: DATA_SNAPSHOT_VERSION,
+  generatedAt: "2025-01-01T00:00:00.000Z",
+  productLines: realProductLines.map(({ id, name, sku_code, active }) => ({ id, name, sku_code, active })),
+  products: realProducts,
+  rules: realRules.map((rule) => ({ ...rule, id: String(rule.id) })),
+  productLineDefaultOptions: realProductLines.flatMap((line) =>
+    line.default_options.map((option) => ({
+      product_lines_id: line.id,
+      collection: option.collection,
+      item: String(option.item),
+    })),
+  ),
+  productOptionOverrides: [],
+  options: {
+    mirror_styles: [{ id: 1, name: "Full Frame Edge", sku_code: "01", sort: 1 }],
+    light_directions: [{ id: 2, name: "Indirect", sku_code: "i", sort: 1 }],
+    frame_colors: [{ id: 1, name: "Black Metal", sku_code: "BK", hex_code: "#000000", sort: 1 }],
+  },
+  skuCodeOrder: [],
+};
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+const translationRows = vi.hoisted(() => [] as { key: string; language: string; value: string }[]);
+vi.mock("@/services/supabase", () => ({
+  supabase: {
+    from: () => {
+      let prefix = "";
+      const query = {
+        select: () => query,
+        ilike: (_column: string, pattern: string) => {
+          prefix = pattern.replace("%", "");
+          return Promise.resolve({
+            data: translationRows.filter((row) => row.language.startsWith(prefix)),
+            error: null,
+          });
+        },
+      };
+      return query;
+    },
+  },
+}));
+
+const { createTranslator, detectLocale, matchLocale, storeLocale } = await import("@/i18n");
+const { getCatalog } = await import("@/i18n/locale");
+const { parseOptionTranslations } = await import("@/services/option-translations");
+const { useConfiguratorStore } = await import("@/store");
+
+const frameColor = { id: 40, name: "Matte Black", sku_code: "MB", description: "Powder coated" };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  translationRows.length = 0;
+  localStorage.clear();
+});
+
+describe("createTranslator", () => {
+  it("interpolates, pluralizes and falls back to English for missing keys", () => {
+    const fr = createTranslator("fr", getCatalog("fr"));
+    const en = createTranslator("en", getCatalog("en"));
+
+    expect(en.t("quote.currentQuote", { count: 1 })).toBe("Current Quote (1 item)");
+    expect(en.t("quote.currentQuote", { count: 3 })).toBe("Current Quote (3 items)");
+    // French treats 0 and 1 as singular
+    expect(fr.t("quote.currentQuote", { count: 0 })).toBe("Devis en cours (0 article)");
+    expect(fr.t("quote.items", { count: 1200 })).toBe("Articles du devis (1 200)");
+
+    const es = createTranslator("es", getCatalog("es"));
+    expect(es.t("customer.required", { label: es.t("customer.email") })).toBe("Correo electrónico *");
+  });
+
+  it("returns the key when no catalog has the message", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const translator = createTranslator("en", getCatalog("en"));
+
+    expect(translator.t("app.missing" as never)).toBe("app.missing");
+  });
+
+  it("formats prices, numbers and sizes for the locale", () => {
+    const de = createTranslator("de-DE");
+    const fr = createTranslator("fr-CA", getCatalog("fr-CA"));
+
+    expect(de.formatPrice(1234.5, "EUR")).toBe("1.234,50 €");
+    expect(de.formatNumber(0.25)).toBe("0,25");
+    expect(createTranslator("en").formatSize(24, "36.5")).toBe("24 × 36.5 in");
+    expect(fr.formatSize(24.25, 36)).toBe("24,25 × 36 po");
+  });
+
+  it("localizes option names and descriptions by collection and id", () => {
+    const translator = createTranslator("es", getCatalog("es"), {
+      frame_colors: { "40": { name: "Negro mate" } },
+    });
+
+    expect(translator.localizeOption("frameColors", frameColor)).toEqual({
+      ...frameColor,
+      name: "Negro mate",
+    });
+    expect(translator.localizeOption("frame_colors", frameColor).name).toBe("Negro mate");
+    expect(translator.localizeOption("mirrorStyles", { ...frameColor, id: 1 })).toEqual({ ...frameColor, id: 1 });
+  });
+});
+
+describe("detectLocale", () => {
+  it("prefers the override, then the stored choice, then the browser languages", () => {
+    expect(detectLocale({ override: "fr_CA", languages: ["es-MX"] })).toBe("fr-CA");
+    expect(detectLocale({ override: "ja", languages: ["de-DE", "es-MX"] })).toBe("es-MX");
+
+    storeLocale("fr");
+    expect(detectLocale({ languages: ["es-MX"] })).toBe("fr");
+
+    storeLocale(null);
+    expect(detectLocale({ languages: ["de-DE"] })).toBe("en");
+    expect(matchLocale("not a locale")).toBeNull();
+  });
+});
+
+describe("option translations", () => {
+  it("ranks the exact locale over the bare language over another region", () => {
+    const translations = parseOptionTranslations(
+      [
+        { key: "frame_colors.40.name", language: "es-ES", value: "Negro mate" },
+        { key: "frame_colors.40.name", language: "es", value: "Negro" },
+        { key: "frame_colors.40.name", language: "es-MX", value: "Negro mate (MX)" },
+        { key: "frame_colors.40.description", language: "es-ES", value: " Con pintura en polvo " },
+        { key: "frame_colors.41.name", language: "fr", value: "Blanc" },
+        { key: "ui.title", language: "es", value: "Configurador" },
+      ],
+      "es-MX"
+    );
+
+    expect(translations).toEqual({
+      frame_colors: { "40": { name: "Negro mate (MX)", description: "Con pintura en polvo" } },
+    });
+  });
+
+  it("loads translations when the store switches language", async () => {
+    translationRows.push({ key: "frame_colors.40.name", language: "es", value: "Negro mate" });
+
+    await useConfiguratorStore.getState().setLocale("es-mx");
+
+    expect(useConfiguratorStore.getState()).toMatchObject({
+      locale: "es-MX",
+      optionTranslations: { frame_colors: { "40": { name: "Negro mate" } } },
+    });
+
+    await useConfiguratorStore.getState().setLocale("xx");
+    expect(useConfiguratorStore.getState()).toMatchObject({ locale: "en", optionTranslations: {} });
+  });
+});
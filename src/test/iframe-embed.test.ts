@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { startIframeBridge } = await import("@/embed/iframe-bridge");
+const { buildConfiguratorFrameUrl, connectConfiguratorFrame } = await import("@/embed/host-sdk");
+const { createEmbedMessage, normalizeOrigin } = await import("@/embed/iframe-protocol");
+const { readEmbedOptions } = await import("@/embed/embed-options");
+const { useConfiguratorStore } = await import("@/store");
+import type { ProductConfig, SkuSearchResult } from "@/store/types";
+
+const HOST_ORIGIN = "https://dealer.example";
+const FRAME_ORIGIN = "https://configure.example";
+
+const config: ProductConfig = {
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "",
+  accessories: "",
+  quantity: 1,
+};
+
+/**
+ * Both sides run in the one jsdom window: messages the host sends to the iframe arrive
+ * on the window from HOST_ORIGIN, and the frame's replies to window.parent arrive from
+ * the iframe's window at FRAME_ORIGIN.
+ */
+function wireFrame(hostOrigin: string = HOST_ORIGIN) {
+  const iframe = document.createElement("iframe");
+  document.body.appendChild(iframe);
+  const frameWindow = iframe.contentWindow!;
+
+  vi.spyOn(frameWindow, "postMessage").mockImplementation((data: unknown) => {
+    window.dispatchEvent(new MessageEvent("message", { data, origin: hostOrigin }));
+  });
+  const toHost = vi.spyOn(window, "postMessage").mockImplementation((data: unknown, targetOrigin?: unknown) => {
+    if (targetOrigin !== hostOrigin) return;
+    window.dispatchEvent(new MessageEvent("message", { data, origin: FRAME_ORIGIN, source: frameWindow }));
+  });
+
+  return { iframe, toHost };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  useConfiguratorStore.setState({
+    currentConfig: config,
+    currentProductLine: { id: 1, name: "Deco", sku_code: "DEC", active: true },
+    quoteItems: [],
+    recomputeFiltering: vi.fn(async () => {}),
+    getGeneratedSKU: async () => {
+      const { currentConfig } = useConfiguratorStore.getState();
+      return `T02d-${currentConfig?.width}${currentConfig?.height}-${currentConfig?.frameColor}`;
+    },
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("iframe embed protocol", () => {
+  it("handshakes, runs host requests through the store and reports events", async () => {
+    const bridge = startIframeBridge({ allowedOrigins: [HOST_ORIGIN] });
+    const { iframe } = wireFrame();
+    const configurator = connectConfiguratorFrame({ iframe, origin: FRAME_ORIGIN });
+
+    const skus: Array<string | null> = [];
+    configurator.on("skuchange", ({ sku }) => skus.push(sku));
+    const addedToQuote = vi.fn();
+    configurator.on("addtoquote", addedToQuote);
+
+    await expect(configurator.ready).resolves.toMatchObject({ productLineId: 1, sku: "T02d-2436-40" });
+
+    await expect(configurator.setConfig({ frameColor: "41" })).resolves.toMatchObject({ sku: "T02d-2436-41" });
+    await vi.waitFor(() => expect(skus).toEqual(["T02d-2436-41"]));
+
+    const match = { confidence: "exact", configuration: { width: "30", height: "36" } } as unknown as SkuSearchResult;
+    useConfiguratorStore.setState({
+      searchBySku: vi.fn(async (query: string) => (query === "T02d-3036" ? [match] : [])),
+      applySkuResult: vi.fn(async (result: SkuSearchResult) =>
+        useConfiguratorStore.setState((state) => ({
+          currentConfig: { ...state.currentConfig!, ...(result.configuration as Partial<ProductConfig>) },
+        })),
+      ),
+    });
+    await expect(configurator.applySku("T02d-3036")).resolves.toMatchObject({
+      applied: true,
+      snapshot: { sku: "T02d-3036-41" },
+    });
+    await expect(configurator.applySku("nope")).resolves.toMatchObject({ applied: false });
+
+    const { item } = await configurator.addToQuote();
+    expect(item).toMatchObject({ sku: "T02d-3036-41", quantity: 1 });
+    expect(useConfiguratorStore.getState().quoteItems).toHaveLength(1);
+    expect(addedToQuote).toHaveBeenCalledWith({ item, updated: false });
+
+    // UI events from App go through the bridge's emitter
+    const submitted = vi.fn();
+    configurator.on("quotesubmit", submitted);
+    bridge.emit("quotesubmit", {
+      quoteNumber: "Q-7",
+      items: [],
+      customer: { name: "", email: "", company: "", phone: "" },
+      total: 0,
+    });
+    expect(submitted.mock.calls[0][0].quoteNumber).toBe("Q-7");
+
+    await expect(configurator.setConfig(null as unknown as Partial<ProductConfig>)).rejects.toThrow(
+      "setConfig needs a config object",
+    );
+
+    configurator.destroy();
+    bridge.stop();
+  });
+
+  it("ignores hosts that are not on the allow-list", async () => {
+    const bridge = startIframeBridge({ allowedOrigins: ["https://other.example"] });
+    const { iframe, toHost } = wireFrame();
+    const configurator = connectConfiguratorFrame({ iframe, origin: FRAME_ORIGIN, handshakeTimeoutMs: 50 });
+
+    await expect(configurator.ready).rejects.toThrow(`No handshake from ${FRAME_ORIGIN} within 50ms`);
+    expect(toHost).not.toHaveBeenCalled();
+
+    configurator.destroy();
+    bridge.stop();
+  });
+
+  it("rejects hosts speaking a newer protocol version", () => {
+    const bridge = startIframeBridge({ allowedOrigins: ["*"] });
+    const { toHost } = wireFrame();
+
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: { ...createEmbedMessage({ type: "hello" }), version: 2 },
+        origin: HOST_ORIGIN,
+      }),
+    );
+
+    expect(toHost).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "error", code: "unsupported_version" }),
+      HOST_ORIGIN,
+    );
+    bridge.stop();
+  });
+
+  it("passes embed options through the frame URL", () => {
+    const url = buildConfiguratorFrameUrl(`${FRAME_ORIGIN}/embed.html`, {
+      productLine: "DEC",
+      sku: "T02d-2436",
+      units: "mm",
+      features: ["quote", "print"],
+    });
+    const params = new URL(url).searchParams;
+
+    expect(readEmbedOptions((name) => params.get(name))).toEqual({
+      productLine: "DEC",
+      sku: "T02d-2436",
+      locale: undefined,
+      units: "mm",
+      theme: undefined,
+      features: ["quote", "print"],
+    });
+    expect(normalizeOrigin("dealer.example/")).toBe("https://dealer.example");
+    expect(normalizeOrigin("http://localhost:5173/path")).toBe("http://localhost:5173");
+  });
+});
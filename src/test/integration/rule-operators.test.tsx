@@ -11,7 +11,8 @@ vi.mock('../../services/supabase', () => ({
 }));
 
 // Mock the rules engine
-vi.mock('../../services/rules-engine', () => ({
+vi.mock('../../services/rules-engine', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/rules-engine')>()),
   evaluateRuleConditions: vi.fn(),
 }));
 
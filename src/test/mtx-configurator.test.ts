@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { act } from "react";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const renderedProps = vi.fn();
+vi.mock("@/App", () => ({
+  default: (props: unknown) => {
+    renderedProps(props);
+    return null;
+  },
+}));
+
+const { defineConfiguratorElement, CONFIGURATOR_TAG_NAME } = await import("@/embed/mtx-configurator");
+const { findEmbedProductLine, isFeatureEnabled, parseFeatureList } = await import("@/embed/embed-options");
+const { useConfiguratorStore } = await import("@/store");
+import type { ConfiguratorEmbed } from "@/embed/embed-options";
+import type { ProductConfig } from "@/store/types";
+
+const config: ProductConfig = {
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "",
+  accessories: "",
+  quantity: 1,
+};
+
+const lastEmbed = () => (renderedProps.mock.calls.at(-1)?.[0] as { embed: ConfiguratorEmbed }).embed;
+
+const mount = async (attributes: Record<string, string>) => {
+  const element = document.createElement(CONFIGURATOR_TAG_NAME);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+  await act(async () => {
+    document.body.appendChild(element);
+  });
+  return element;
+};
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  defineConfiguratorElement();
+  // Registering twice is a no-op
+  defineConfiguratorElement();
+});
+
+describe("embed options", () => {
+  it("parses features and matches product lines by code or name", () => {
+    const options = { features: parseFeatureList("quote, print bogus") };
+    expect(options.features).toEqual(["quote", "print"]);
+    expect(isFeatureEnabled(options, "print")).toBe(true);
+    expect(isFeatureEnabled(options, "sku-search")).toBe(false);
+    expect(isFeatureEnabled(undefined, "sku-search")).toBe(true);
+
+    const lines = [
+      { id: 1, name: "Deco", sku_code: "DEC", active: true },
+      { id: 2, name: "Polished", sku_code: "P", active: true },
+    ];
+    expect(findEmbedProductLine(lines, "dec")?.id).toBe(1);
+    expect(findEmbedProductLine(lines, "Polished")?.id).toBe(2);
+    expect(findEmbedProductLine(lines, undefined)).toBeUndefined();
+  });
+});
+
+describe("<mtx-configurator>", () => {
+  it("renders the app with its attributes and re-renders when they change", async () => {
+    const element = await mount({ "product-line": "DEC", sku: "T02d-2436", theme: "dark", features: "quote print" });
+
+    expect(lastEmbed().options).toEqual({
+      productLine: "DEC",
+      sku: "T02d-2436",
+      locale: undefined,
+      theme: "dark",
+      features: ["quote", "print"],
+    });
+
+    await act(async () => {
+      element.setAttribute("sku", "T02d-3036");
+    });
+    expect(lastEmbed().options.sku).toBe("T02d-3036");
+
+    await act(async () => element.remove());
+  });
+
+  it("emits typed events and drives the store through its API", async () => {
+    const recomputeFiltering = vi.fn(async () => {});
+    useConfiguratorStore.setState({
+      currentConfig: config,
+      currentProductLine: { id: 1, name: "Deco", sku_code: "DEC", active: true },
+      recomputeFiltering,
+      getGeneratedSKU: async () => {
+        const { currentConfig } = useConfiguratorStore.getState();
+        return `T02d-${currentConfig?.width}${currentConfig?.height}-${currentConfig?.frameColor}`;
+      },
+    });
+
+    const element = await mount({});
+    const configChanges: ProductConfig[] = [];
+    const skus: Array<string | null> = [];
+    element.addEventListener("configchange", (event) => configChanges.push(event.detail.config));
+    element.addEventListener("skuchange", (event) => skus.push(event.detail.sku));
+
+    await element.setConfig({ frameColor: "41", productLineId: 9, width: 30 as unknown as string });
+    await vi.waitFor(() => expect(skus.at(-1)).toBe("T02d-3036-41"));
+
+    expect(element.getConfig()).toMatchObject({ productLineId: 1, frameColor: "41", width: "30" });
+    expect(configChanges.at(-1)).toMatchObject({ frameColor: "41", width: "30" });
+    expect(recomputeFiltering).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), element.getConfig());
+    await expect(element.getSku()).resolves.toBe("T02d-3036-41");
+
+    // The emitter App receives dispatches bubbling DOM events
+    const onSubmit = vi.fn();
+    document.body.addEventListener("quotesubmit", onSubmit);
+    lastEmbed().emit("quotesubmit", {
+      quoteNumber: "Q-1",
+      items: [],
+      customer: { name: "", email: "", company: "", phone: "" },
+      total: 0,
+    });
+    expect(onSubmit.mock.calls[0][0].detail.quoteNumber).toBe("Q-1");
+
+    document.body.removeEventListener("quotesubmit", onSubmit);
+    await act(async () => element.remove());
+  });
+});
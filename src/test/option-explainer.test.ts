@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const {
+  computeDisabledOptions,
+  explainDisabledOption,
+  formatDisabledReason,
+  formatEnablingChange,
+  suggestEnablingChanges,
+} = await import("@/services/option-explainer");
+const { createTranslator } = await import("@/i18n/translator");
+const { getCatalog } = await import("@/i18n/locale");
+import type { Rule } from "@/services/supabase";
+import type { ProductConfig, ProductOptions } from "@/store/types";
+
+const translator = createTranslator("en");
+
+const option = (id: number, name: string) => ({ id, name, sku_code: String(id) }) as any;
+
+const productOptions = {
+  mirrorControls: [],
+  frameColors: [],
+  frameThickness: [option(10, "Thin"), option(11, "Wide")],
+  mirrorStyles: [option(1, "Round"), option(2, "Square")],
+  mountingOptions: [],
+  hangingTechniques: [],
+  lightingOptions: [option(20, "Direct"), option(21, "Indirect")],
+  colorTemperatures: [],
+  lightOutputs: [],
+  drivers: [option(30, "Standard"), option(31, "Dimmable")],
+  accessoryOptions: [],
+  sizes: [],
+} as unknown as ProductOptions;
+
+// Round mirrors only come thin and direct-lit; square mirrors come in everything
+const products = [
+  { id: 1, product_line: 5, active: true, mirror_style: 1, frame_thickness: { key: 10 }, light_direction: 20 },
+  { id: 2, product_line: 5, active: true, mirror_style: 2, frame_thickness: { key: 10 }, light_direction: 20 },
+  { id: 3, product_line: 5, active: true, mirror_style: 2, frame_thickness: { key: 11 }, light_direction: 21 },
+];
+
+const rules: Rule[] = [
+  {
+    id: "r1",
+    name: "Dimmable needs direct light",
+    priority: 1,
+    if_this: { driver: { _eq: 31 } },
+    then_that: { light_direction: { _eq: 20 } },
+  },
+];
+
+const config = {
+  id: "c",
+  productLineId: 5,
+  productLineName: "Line",
+  mirrorControls: "",
+  frameColor: "",
+  frameThickness: "10",
+  mirrorStyle: "1",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "20",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "30",
+  accessories: "",
+  quantity: 1,
+} as ProductConfig;
+
+describe("option explainer", () => {
+  it("blames the upstream selection that leaves no products", () => {
+    const { disabledOptionIds, reasons } = computeDisabledOptions(products, rules, 5, config, productOptions);
+
+    expect(disabledOptionIds.frame_thicknesses).toEqual([11]);
+    expect(explainDisabledOption(disabledOptionIds, reasons, "frame_thicknesses", 11)).toEqual([
+      { source: "availability", upstream: [{ field: "mirrorStyle", value: "1" }] },
+    ]);
+    expect(formatDisabledReason(reasons.frame_thicknesses[11][0], productOptions, translator)).toBe(
+      'No products match the selected mirror style "Round"',
+    );
+  });
+
+  it("names the rule that forces another value", () => {
+    const dimmable = { ...config, mirrorStyle: "2", frameThickness: "", driver: "31" };
+    const { disabledOptionIds, reasons } = computeDisabledOptions(products, rules, 5, dimmable, productOptions);
+
+    expect(disabledOptionIds.light_directions_rule_set).toEqual([20]);
+    const explanation = explainDisabledOption(disabledOptionIds, reasons, "light_directions", 21);
+    expect(explanation).toEqual([
+      { source: "rule", ruleId: "r1", ruleName: "Dimmable needs direct light", effect: "set" },
+    ]);
+    expect(formatDisabledReason(explanation[0], productOptions, translator)).toMatch(/Dimmable needs direct light/);
+    expect(explainDisabledOption(disabledOptionIds, reasons, "light_directions", 20)).toEqual([]);
+  });
+
+  it("suggests single-selection changes that enable the option", () => {
+    const changes = suggestEnablingChanges({
+      products,
+      rules,
+      productLineId: 5,
+      config: { ...config, mirrorStyle: "2", frameThickness: "", driver: "31" },
+      productOptions,
+      collection: "light_directions",
+      optionId: 21,
+    });
+
+    // Switching the mirror style alone still leaves the dimmable rule in force
+    expect(changes).toEqual([
+      { field: "driver", collection: "drivers", fromId: 31, toId: 30, toName: "Standard" },
+    ]);
+  });
+
+  it("phrases reasons and hints in the translator's locale", () => {
+    const fr = createTranslator("fr", getCatalog("fr"));
+
+    expect(formatDisabledReason({ source: "size", dimension: "either", above: 60.5 }, productOptions, fr)).toBe(
+      'Non disponible pour une largeur ou hauteur supérieure à 60,5"',
+    );
+    expect(
+      formatEnablingChange(
+        { field: "driver", collection: "drivers", fromId: 31, toId: 30, toName: "Standard" },
+        productOptions,
+        fr,
+      ),
+    ).toBe("alimentation : remplacer « Dimmable » par « Standard »");
+  });
+});
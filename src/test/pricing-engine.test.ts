@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizePricingRules,
+  calculateConfigurationPrice,
+  calculateQuoteTotal,
+} from "@/services/pricing-engine";
+import type { ConfigurationPricing } from "@/services/supabase";
+import type { ProductConfig } from "@/store/types";
+
+function row(overrides: Partial<ConfigurationPricing>): ConfigurationPricing {
+  return {
+    id: "row",
+    conditions: null,
+    created_at: null,
+    updated_at: null,
+    entity_id: "*",
+    entity_type: "product_line",
+    is_active: true,
+    price_modifier: { amount: 0 },
+    pricing_type: "base",
+    priority: null,
+    valid_from: null,
+    valid_to: null,
+    ...overrides,
+  };
+}
+
+const config: ProductConfig = {
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "7",
+  frameThickness: "",
+  mirrorStyle: "",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "3",
+  accessories: "",
+  quantity: 2,
+};
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+describe("pricing engine", () => {
+  it("itemizes base, option, area and percentage lines", () => {
+    const rules = normalizePricingRules([
+      row({ id: "base", entity_id: "1", price_modifier: { amount: 500 } }),
+      row({ id: "color", entity_type: "frame_colors", entity_id: "7", pricing_type: "fixed", price_modifier: { amount: 40 } }),
+      row({ id: "driver", entity_type: "drivers", entity_id: "3", pricing_type: "fixed", price_modifier: { amount: 60 } }),
+      row({ id: "area", pricing_type: "area", price_modifier: { rate: 0.5, included_area: 600 } }),
+      row({ id: "promo", pricing_type: "percentage", price_modifier: { percent: -10 } }),
+    ]);
+
+    const price = calculateConfigurationPrice(rules, { config }, now);
+
+    expect(price.base?.amount).toBe(500);
+    expect(price.options.map((line) => line.ruleId)).toEqual(["color", "driver"]);
+    // 24 × 36 = 864 sq in, 264 billable at $0.50
+    expect(price.area?.amount).toBe(132);
+    expect(price.adjustments[0].amount).toBe(-73.2);
+    expect(price.unitPrice).toBe(658.8);
+    expect(price.total).toBe(1317.6);
+    expect(price.isComplete).toBe(true);
+  });
+
+  it("prefers product bases and respects priority between duplicates", () => {
+    const rules = normalizePricingRules([
+      row({ id: "line", entity_id: "1", price_modifier: { amount: 500 }, priority: 1 }),
+      row({ id: "product", entity_type: "product", entity_id: "42", price_modifier: { amount: 650 }, priority: 5 }),
+      row({ id: "color-low", entity_type: "frame_colors", entity_id: "7", pricing_type: "fixed", price_modifier: { amount: 10 }, priority: 9 }),
+      row({ id: "color-high", entity_type: "frame_colors", entity_id: "7", pricing_type: "fixed", price_modifier: { amount: 25 }, priority: 2 }),
+    ]);
+
+    const price = calculateConfigurationPrice(
+      rules,
+      { config, product: { id: 42, name: "T42" } },
+      now,
+    );
+
+    expect(price.base?.ruleId).toBe("product");
+    expect(price.options).toHaveLength(1);
+    expect(price.options[0].ruleId).toBe("color-high");
+    expect(price.unitPrice).toBe(675);
+  });
+
+  it("ignores rows outside their validity window and reports the window", () => {
+    const rules = normalizePricingRules([
+      row({ id: "expired", price_modifier: { amount: 400 }, valid_to: "2025-01-01T00:00:00Z", priority: 1 }),
+      row({
+        id: "current",
+        price_modifier: { amount: 450 },
+        valid_from: "2025-05-01T00:00:00Z",
+        valid_to: "2025-12-31T00:00:00Z",
+        priority: 2,
+      }),
+    ]);
+
+    const price = calculateConfigurationPrice(rules, { config }, now);
+
+    expect(price.base?.ruleId).toBe("current");
+    expect(price.validTo).toBe("2025-12-31T00:00:00.000Z");
+  });
+
+  it("drops inactive rows and rows with unknown pricing types", () => {
+    const rules = normalizePricingRules([
+      row({ id: "inactive", is_active: false }),
+      row({ id: "bogus", pricing_type: "bundle" }),
+      row({ id: "ok" }),
+    ]);
+
+    expect(rules.map((rule) => rule.id)).toEqual(["ok"]);
+  });
+
+  it("applies rows only when their conditions match", () => {
+    const rules = normalizePricingRules([
+      row({ id: "base", price_modifier: { amount: 500 } }),
+      row({
+        id: "wide-surcharge",
+        entity_type: "drivers",
+        pricing_type: "fixed",
+        price_modifier: { amount: 75 },
+        conditions: { width: { _gt: 40 } },
+      }),
+    ]);
+
+    expect(calculateConfigurationPrice(rules, { config }, now).unitPrice).toBe(500);
+    expect(
+      calculateConfigurationPrice(rules, { config: { ...config, width: "48" } }, now).unitPrice,
+    ).toBe(575);
+  });
+
+  it("marks the price incomplete when no base matches", () => {
+    const rules = normalizePricingRules([
+      row({ id: "other-line", entity_id: "99", price_modifier: { amount: 500 } }),
+    ]);
+
+    const price = calculateConfigurationPrice(rules, { config }, now);
+
+    expect(price.isComplete).toBe(false);
+    expect(price.unitPrice).toBe(0);
+  });
+
+  it("sums quote totals from unit price snapshots", () => {
+    expect(
+      calculateQuoteTotal([
+        { unitPrice: 100.1, quantity: 3 },
+        { unitPrice: null, quantity: 5 },
+        { unitPrice: 20 },
+      ]),
+    ).toBe(320.3);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+vi.mock("@/services/quote-document", () => ({
+  loadQuoteDocumentData: vi.fn(async () => ({ productOptionsByLine: {}, productsByItem: {} })),
+}));
+
+const { createQuoteSlice } = await import("@/store/slices/quoteSlice");
+const { calculateQuoteTotal, normalizePricingRules } = await import("@/services/pricing-engine");
+import type { ConfigurationPricing } from "@/services/supabase";
+import type { ConfiguratorStore, ProductConfig, ProductLine, ProductOptions } from "@/store/types";
+
+const deco: ProductLine = { id: 1, name: "Deco", sku_code: "T", active: true };
+const polished: ProductLine = { id: 2, name: "Polished", sku_code: "P", active: true };
+
+const options = (sizes: ProductOptions["sizes"]): ProductOptions => ({
+  mirrorControls: [],
+  frameColors: [],
+  frameThickness: [],
+  mirrorStyles: [],
+  mountingOptions: [],
+  lightingOptions: [],
+  colorTemperatures: [],
+  lightOutputs: [],
+  drivers: [],
+  accessoryOptions: [],
+  sizes,
+});
+
+const config = (overrides: Partial<ProductConfig> = {}): ProductConfig => ({
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "20",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "30",
+  accessories: "",
+  quantity: 2,
+  ...overrides,
+});
+
+// Minimal store around the quote slice; only the state and actions it touches
+function createStore() {
+  let state = {} as ConfiguratorStore;
+  const set = (partial: any) => {
+    state = { ...state, ...(typeof partial === "function" ? partial(state) : partial) };
+  };
+  const get = () => state;
+
+  const loadProductLineOptions = vi.fn(async (line: ProductLine) => {
+    set({ currentProductLine: line, currentConfig: config({ productLineId: line.id, productLineName: line.name }) });
+  });
+
+  state = {
+    pricingRules: null,
+    currentProduct: null,
+    currentProductLine: deco,
+    currentConfig: config({ frameColor: "41" }),
+    productOptions: options([{ id: 1, name: "24x36", sku_code: "2436", width: 24, height: 36 }]),
+    availableProductLines: [deco, polished],
+    useCustomSize: false,
+    loadProductLineOptions,
+    setCurrentProductLine: (line: ProductLine) => set({ currentProductLine: line }),
+    updateConfiguration: (field: keyof ProductConfig, value: unknown) =>
+      set((s: ConfiguratorStore) => ({ currentConfig: s.currentConfig && { ...s.currentConfig, [field]: value } })),
+    setCustomSizeEnabled: (enabled: boolean) => set({ useCustomSize: enabled }),
+    recomputeFiltering: vi.fn(async () => {}),
+  } as unknown as ConfiguratorStore;
+
+  set(createQuoteSlice(set, get));
+  return { get, set, loadProductLineOptions };
+}
+
+describe("quote cart", () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it("keeps the full configuration and product line on each line", () => {
+    const id = store.get().addToQuote(config({ width: "30", height: "30" }), "T02d-3030-BK", { room: " Bathroom 2F " });
+    const [item] = store.get().quoteItems;
+
+    expect(item).toMatchObject({
+      id,
+      sku: "T02d-3030-BK",
+      productLine: deco,
+      quantity: 2,
+      customSize: true,
+      room: "Bathroom 2F",
+      note: "",
+      unitPrice: null,
+    });
+    expect(item.config.width).toBe("30");
+  });
+
+  it("leaves lines without a base price unpriced and out of the total", () => {
+    const pricing = (id: string, overrides: Partial<ConfigurationPricing>) =>
+      ({
+        id,
+        conditions: null,
+        created_at: null,
+        updated_at: null,
+        entity_type: "product_line",
+        entity_id: "1",
+        is_active: true,
+        pricing_type: "base",
+        price_modifier: { amount: 500 },
+        priority: null,
+        valid_from: null,
+        valid_to: null,
+        ...overrides,
+      }) as ConfigurationPricing;
+    // Deco has a base price, Polished only the frame color add-on
+    store.set({
+      pricingRules: normalizePricingRules([
+        pricing("deco", {}),
+        pricing("color", { entity_type: "frame_colors", entity_id: "40", pricing_type: "fixed", price_modifier: { amount: 40 } }),
+      ]),
+    });
+
+    store.get().addToQuote(config(), "T1");
+    store.get().addToQuote(config({ productLineId: 2, productLineName: "Polished" }), "P1");
+    const [priced, unpriced] = store.get().quoteItems;
+
+    expect(priced.unitPrice).toBe(540);
+    expect(unpriced).toMatchObject({ unitPrice: null, priceValidTo: null });
+    expect(calculateQuoteTotal(store.get().quoteItems)).toBe(1080);
+  });
+
+  it("duplicates a line next to the original with a new id", () => {
+    const first = store.get().addToQuote(config(), "A");
+    const last = store.get().addToQuote(config(), "B");
+    const copy = store.get().duplicateQuoteItem(first);
+
+    expect(store.get().quoteItems.map((item) => item.id)).toEqual([first, copy, last]);
+    expect(store.get().quoteItems[1].sku).toBe("A");
+    expect(store.get().duplicateQuoteItem("missing")).toBeNull();
+  });
+
+  it("edits notes and room tags per line", () => {
+    const id = store.get().addToQuote(config(), "A");
+    store.get().updateQuoteItemDetails(id, { note: "Match vanity" });
+    store.get().updateQuoteItemDetails(id, { room: "Kitchen" });
+
+    expect(store.get().quoteItems[0]).toMatchObject({ note: "Match vanity", room: "Kitchen" });
+  });
+
+  it("reopens a line in the configurator and updates it in place", async () => {
+    const first = store.get().addToQuote(config(), "A", { note: "keep me" });
+    const second = store.get().addToQuote(config({ frameColor: "42" }), "B");
+
+    expect(await store.get().reopenQuoteItem(first)).toBe(true);
+    expect(store.get().editingQuoteItemId).toBe(first);
+    expect(store.get().currentConfig).toMatchObject({ frameColor: "40", quantity: 2 });
+    expect(store.get().loadProductLineOptions).not.toHaveBeenCalled();
+
+    store.get().updateQuoteItem(first, { ...store.get().currentConfig!, frameColor: "43", quantity: 5 }, "A2");
+
+    const [updated, untouched] = store.get().quoteItems;
+    expect(updated).toMatchObject({ id: first, sku: "A2", quantity: 5, note: "keep me" });
+    expect(updated.config.frameColor).toBe("43");
+    expect(untouched.id).toBe(second);
+    expect(store.get().editingQuoteItemId).toBeNull();
+  });
+
+  it("loads the line's product line before restoring its configuration", async () => {
+    store.get().setCurrentProductLine(polished);
+    const id = store.get().addToQuote(config({ productLineId: 2, productLineName: "Polished", driver: "31" }), "P1");
+    store.get().setCurrentProductLine(deco);
+
+    expect(await store.get().reopenQuoteItem(id)).toBe(true);
+    expect(store.loadProductLineOptions).toHaveBeenCalledWith(polished);
+    expect(store.get().currentProductLine).toBe(polished);
+    expect(store.get().currentConfig).toMatchObject({ productLineId: 2, driver: "31" });
+  });
+
+  it("adds resolved lines with their own product line and options", () => {
+    const ids = store.get().addQuoteItems([
+      {
+        config: config({ productLineId: 2, productLineName: "Polished", width: "30", height: "30", quantity: 4 }),
+        sku: "P1-3030",
+        productLine: polished,
+        productOptions: options([{ id: 7, name: "30x30", sku_code: "3030", width: 30, height: 30 }]),
+      },
+      { config: config(), sku: "T02d-2436-BK", productLine: deco, details: { room: "Lobby" } },
+    ]);
+
+    expect(store.get().quoteItems.map((item) => item.id)).toEqual(ids);
+    expect(store.get().quoteItems[0]).toMatchObject({ productLine: polished, quantity: 4, customSize: false });
+    // Without options to compare against, a line is not flagged as a custom size
+    expect(store.get().quoteItems[1]).toMatchObject({ productLine: deco, room: "Lobby", customSize: false });
+  });
+
+  it("drops the prices of imported lines and reprices them from the pricing rules", async () => {
+    store.set({
+      pricingRules: normalizePricingRules([
+        {
+          id: "deco",
+          conditions: null,
+          created_at: null,
+          updated_at: null,
+          entity_type: "product_line",
+          entity_id: "1",
+          is_active: true,
+          pricing_type: "base",
+          price_modifier: { amount: 500 },
+          priority: null,
+          valid_from: null,
+          valid_to: null,
+        },
+      ]),
+    });
+    const [id] = store.get().importQuoteItems([
+      {
+        id: "file-1",
+        sku: "T1",
+        config: config(),
+        productLine: deco,
+        quantity: 2,
+        unitPrice: 1,
+        priceValidTo: "2020-01-01T00:00:00.000Z",
+        customSize: false,
+        note: "",
+        room: "",
+        addedAt: "2020-01-01T00:00:00.000Z",
+        updatedAt: "2020-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    expect(store.get().quoteItems[0]).toMatchObject({ id, unitPrice: null, priceValidTo: null });
+
+    await store.get().repriceQuoteItems([id]);
+    expect(store.get().quoteItems[0].unitPrice).toBe(500);
+  });
+
+  it("stops editing when the reopened line is removed", async () => {
+    const id = store.get().addToQuote(config(), "A");
+    await store.get().reopenQuoteItem(id);
+    store.get().removeFromQuote(id);
+
+    expect(store.get().quoteItems).toEqual([]);
+    expect(store.get().editingQuoteItemId).toBeNull();
+  });
+});
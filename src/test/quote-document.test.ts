@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { buildQuoteDocument, buildSpecSheet, describeConfiguration, QUOTE_DOCUMENT_TERMS } = await import(
+  "@/services/quote-document"
+);
+import type { DecoProduct, ProductConfig, ProductOptions, QuoteItem } from "@/store/types";
+
+const config = (overrides: Partial<ProductConfig> = {}): ProductConfig => ({
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "5",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "7",
+  hangingTechnique: "",
+  lighting: "20",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "",
+  accessories: "",
+  quantity: 1,
+  ...overrides,
+});
+
+const line = (overrides: Partial<QuoteItem> = {}): QuoteItem => ({
+  id: "line-1",
+  sku: "T02d-2436-BK",
+  config: config(),
+  productLine: { id: 1, name: "Deco", sku_code: "T", active: true },
+  quantity: 2,
+  unitPrice: 450,
+  priceValidTo: "2026-12-31T00:00:00.000Z",
+  customSize: false,
+  note: "",
+  room: "",
+  addedAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const productOptions = {
+  mirrorControls: [],
+  frameColors: [{ id: 40, name: "Black", sku_code: "BK" }],
+  frameThickness: [{ id: 5, name: "Thin Frame", sku_code: "" }],
+  mirrorStyles: [{ id: 2, name: "Oval", sku_code: "02" }],
+  mountingOptions: [{ id: 7, name: "Vertical", sku_code: "" }],
+  hangingTechniques: [],
+  lightingOptions: [{ id: 20, name: "Direct", sku_code: "d" }],
+  colorTemperatures: [],
+  lightOutputs: [],
+  drivers: [],
+  accessoryOptions: [],
+  sizes: [{ id: 9, name: "24x36", sku_code: "2436", width: 24, height: 36 }],
+} as unknown as ProductOptions;
+
+const product = {
+  id: 11,
+  name: "T02d",
+  vertical_image: "vertical-file",
+  horizontal_image: null,
+  spec_sheet: "spec-file",
+  revit_file: null,
+} as unknown as DecoProduct;
+
+const customerInfo = { name: "Ada", email: "ada@example.com", company: "Lovelace Hotels", phone: "" };
+
+describe("quote document", () => {
+  it("describes each line from its configuration and product", () => {
+    const document = buildQuoteDocument(
+      [line({ note: "Left of vanity", room: "Suite 4" })],
+      customerInfo,
+      { productOptionsByLine: { 1: productOptions }, productsByItem: { "line-1": product } },
+      { quoteNumber: "Q-000042", issuedAt: new Date("2026-03-01T00:00:00.000Z") },
+    );
+
+    expect(document).toMatchObject({
+      quoteNumber: "Q-000042",
+      issuedAt: "2026-03-01T00:00:00.000Z",
+      validUntil: "2026-12-31T00:00:00.000Z",
+      customer: customerInfo,
+      total: 900,
+      hasUnpricedLines: false,
+      terms: QUOTE_DOCUMENT_TERMS,
+    });
+    expect(document.lines[0]).toMatchObject({
+      productName: "Deco Oval",
+      sku: "T02d-2436-BK",
+      description: 'Deco Thin Frame Vertical 24"×36"',
+      quantity: 2,
+      unitPrice: 450,
+      lineTotal: 900,
+      note: "Left of vanity",
+      room: "Suite 4",
+    });
+    expect(document.lines[0].imageUrl).toMatch(/\/vertical-file$/);
+  });
+
+  it("leaves unpriced lines out of the total and adds custom size terms", () => {
+    const document = buildQuoteDocument(
+      [line(), line({ id: "line-2", unitPrice: null, customSize: true })],
+      customerInfo,
+      { productOptionsByLine: {}, productsByItem: {} },
+    );
+
+    expect(document.quoteNumber).toBeNull();
+    expect(document.total).toBe(900);
+    expect(document.hasUnpricedLines).toBe(true);
+    expect(document.lines[1]).toMatchObject({ productName: "Deco", lineTotal: null, imageUrl: null });
+    expect(document.terms).toContain("Custom sizes are made to order and are non-returnable.");
+  });
+
+  it("lists the selected options with their SKU codes", () => {
+    expect(describeConfiguration(config(), productOptions)).toEqual([
+      { label: "Dimensions", name: '24" × 36"', skuCode: "2436" },
+      { label: "Mirror Style", name: "Oval", skuCode: "02" },
+      { label: "Frame Color", name: "Black", skuCode: "BK" },
+      { label: "Frame", name: "Thin Frame", skuCode: "" },
+      { label: "Mounting", name: "Vertical", skuCode: "" },
+      { label: "Lighting", name: "Direct", skuCode: "d" },
+    ]);
+  });
+});
+
+describe("spec sheet", () => {
+  it("links the product's spec sheet and Revit files when present", () => {
+    const sheet = buildSpecSheet({
+      config: config(),
+      productLine: { name: "Deco" },
+      product,
+      sku: "T02d-2436-BK",
+      productOptions,
+    });
+
+    expect(sheet).toMatchObject({ productName: "Deco Oval", sku: "T02d-2436-BK", revitUrl: null });
+    expect(sheet.specSheetUrl).toMatch(/\/assets\/spec-file$/);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/services/supabase', () => ({ supabase: {} }));
+
+const {
+  csvQuoteFormat,
+  jsonQuoteFormat,
+  erpQuoteFormat,
+  detectQuoteExchangeFormat,
+  exportQuote,
+  importQuote,
+  readSkuSegments,
+  QuoteImportError,
+} = await import('@/services/quote-exchange');
+const { buildSkuGrammar } = await import('@/services/sku-grammar');
+import type { CustomerInfo, ProductOption, QuoteItem } from '@/store/types';
+
+const customer: CustomerInfo = {
+  name: 'Dana Reyes',
+  email: 'dana@example.com',
+  company: 'Reyes, Hart & Co',
+  phone: '555-0100',
+};
+
+const item = (overrides: Partial<QuoteItem> = {}): QuoteItem => ({
+  id: 'line-1',
+  sku: 'T02d-2436-BK-27',
+  config: {
+    id: 'config-1',
+    productLineId: 1,
+    productLineName: 'Deco',
+    mirrorControls: '',
+    frameColor: '40',
+    frameThickness: '',
+    mirrorStyle: '2',
+    width: '24',
+    height: '36',
+    mounting: '',
+    hangingTechnique: '',
+    lighting: '5',
+    colorTemperature: '7',
+    lightOutput: '',
+    driver: '',
+    accessories: '',
+    quantity: 2,
+  },
+  productLine: { id: 1, name: 'Deco', sku_code: 'T', active: true },
+  quantity: 2,
+  unitPrice: 412.5,
+  priceValidTo: '2026-12-31T00:00:00.000Z',
+  customSize: false,
+  note: 'Mount "above" vanity, centred',
+  room: 'Bath 2F',
+  addedAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const items = [
+  item(),
+  item({
+    id: 'line-2',
+    sku: 'T02d-3048-WH',
+    config: { ...item().config, frameColor: '41', lighting: '', colorTemperature: '', width: '30', height: '48', quantity: 1 },
+    quantity: 1,
+    unitPrice: null,
+    priceValidTo: null,
+    customSize: true,
+    note: '',
+    room: '',
+  }),
+];
+
+// What should survive a round trip, regardless of format
+const portable = (lines: QuoteItem[]) =>
+  lines.map(({ sku, quantity, unitPrice, customSize, note, room, config, productLine }) => ({
+    sku,
+    quantity,
+    unitPrice,
+    customSize,
+    note,
+    room,
+    productLineId: productLine.id,
+    selections: [config.mirrorStyle, config.frameColor, config.width, config.height, config.lighting, config.colorTemperature],
+  }));
+
+describe('quote exchange formats', () => {
+  it.each([csvQuoteFormat, jsonQuoteFormat, erpQuoteFormat])('round-trips a quote through $id', (format) => {
+    const { content, fileName } = exportQuote(format.id, items, customer, new Date('2026-10-19T12:00:00Z'));
+    expect(fileName).toBe(`quote-2026-10-19.${format.extension}`);
+
+    const imported = importQuote(content, format);
+    expect(portable(imported.items)).toEqual(portable(items));
+    expect(imported.items[1].priceValidTo).toBeNull();
+    if (format.id !== 'csv') expect(imported.customerInfo).toEqual(customer);
+  });
+
+  it('writes one CSV column per SKU segment the grammar reads', () => {
+    const grammar = buildSkuGrammar([
+      { id: 'p', order: 0, sku_code_item: 'products' },
+      { id: 'z', order: 1, sku_code_item: 'sizes' },
+      { id: 'f', order: 2, sku_code_item: 'frame_colors' },
+      { id: 'c', order: 3, sku_code_item: 'color_temperatures' },
+    ]);
+    const option = (id: number, sku_code: string, extra: Partial<ProductOption> = {}): ProductOption => ({ id, name: sku_code, sku_code, ...extra });
+    const productOptions = {
+      sizes: [option(1, '2436', { width: 24, height: 36 }), option(2, '3048', { width: 30, height: 48 })],
+      frameColors: [option(40, 'BK'), option(41, 'WH'), option(42, 'B-K')],
+      colorTemperatures: [option(7, '27')],
+    };
+    const skuSegments = Object.fromEntries(
+      items.map((line) => [line.id, readSkuSegments(grammar, line.sku, 'T02d', productOptions)!])
+    );
+
+    // Codes may contain the separator; absent segments stay empty so columns line up
+    expect(readSkuSegments(grammar, 'T02d-2436-B-K', 'T02d', productOptions)).toEqual(['T02d', '2436', 'B-K', '']);
+    expect(readSkuSegments(grammar, 'T02d-2436-XX', 'T02d', productOptions)).toBeNull();
+
+    const [header, first, second] = csvQuoteFormat
+      .serialize({ exportedAt: '', customerInfo: null, items, skuSegments })
+      .split('\r\n');
+
+    expect(header.startsWith('line,sku,sku_segment_1,sku_segment_2,sku_segment_3,sku_segment_4,quantity,unit_price,line_total')).toBe(true);
+    expect(first.startsWith('1,T02d-2436-BK-27,T02d,2436,BK,27,2,412.5,825,')).toBe(true);
+    expect(second.startsWith('2,T02d-3048-WH,T02d,3048,WH,,1,,,')).toBe(true);
+  });
+
+  it('writes fixed-width ERP records with a trailer', () => {
+    const records = erpQuoteFormat
+      .serialize({ exportedAt: '2026-10-19T12:00:00Z', customerInfo: customer, items })
+      .split('\r\n');
+
+    expect(records.map((record) => record.slice(0, 3))).toEqual([
+      'HDR',
+      'LIN', 'CFG', 'CFG', 'CFG', 'CFG', 'CFG', 'CFG', 'NTE',
+      'LIN', 'CFG', 'CFG', 'CFG', 'CFG',
+      'TRL',
+    ]);
+    expect(records[0].slice(3, 13)).toBe('0120261019');
+    expect(records[1].slice(3, 7 + 40)).toBe('0001T02d-2436-BK-27'.padEnd(44));
+    expect(records[records.length - 1]).toBe('TRL00002' + '82500'.padStart(13, '0'));
+  });
+
+  it('rejects malformed files with a located error', () => {
+    const erp = erpQuoteFormat.serialize({ exportedAt: '2026-10-19T12:00:00Z', customerInfo: customer, items });
+    const truncated = erp.split('\r\n').slice(0, -1).join('\n');
+    expect(() => erpQuoteFormat.parse(truncated)).toThrow('ERP file has no TRL record');
+    expect(() => erpQuoteFormat.parse(erp.replace('TRL00002', 'TRL00003'))).toThrow(
+      'TRL record counts 3 lines but the file has 2'
+    );
+    expect(() => erpQuoteFormat.parse(erp.replace('\r\nNTE', '\r\nXYZ'))).toThrow('Line 9: Unknown record type "XYZ"');
+
+    expect(() => csvQuoteFormat.parse('sku,quantity\nT02d,1')).toThrow(QuoteImportError);
+    expect(() => jsonQuoteFormat.parse('{"schema":"mtx-quote","version":2}')).toThrow(
+      'Quote was exported by a newer version (schema v2)'
+    );
+    expect(() => jsonQuoteFormat.parse('{"schema":"mtx-quote","version":1,"items":[]}')).toThrow(/Invalid quote file: exportedAt/);
+  });
+
+  it('writes formula-like text as text and reads it back unchanged', () => {
+    const risky = [item({ note: '=HYPERLINK("http://evil")', room: '@Lobby' }), item({ id: 'line-2', note: '-10% agreed', room: '+1 floor' })];
+    const csv = csvQuoteFormat.serialize({ exportedAt: '', customerInfo: null, items: risky });
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(csv).toContain(",'@Lobby,");
+    expect(csv).toContain(",'+1 floor,'-10% agreed,");
+    expect(csvQuoteFormat.parse(csv).items.map(({ note, room }) => [note, room])).toEqual([
+      ['=HYPERLINK("http://evil")', '@Lobby'],
+      ['-10% agreed', '+1 floor'],
+    ]);
+  });
+
+  it('trims unquoted CSV cells and keeps whitespace inside quotes', () => {
+    const csv = ['sku,quantity,product_line_id,product_line_name,note', ' T1 , 2 ,1, "Deco" ,"  indented  "'].join('\n');
+
+    expect(csvQuoteFormat.parse(csv).items[0]).toMatchObject({ sku: 'T1', quantity: 2, note: '  indented  ' });
+  });
+
+  it('detects the format from the file name or its contents', () => {
+    expect(detectQuoteExchangeFormat('quote.csv', '')?.id).toBe('csv');
+    expect(detectQuoteExchangeFormat('quote.txt', 'HDR01...')?.id).toBe('erp');
+    expect(detectQuoteExchangeFormat('download', '  {"schema":"mtx-quote"}')?.id).toBe('json');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  QUOTE_STATUSES,
+  QUOTE_TRANSITIONS,
+  canTransitionQuote,
+  describeIllegalTransition,
+  isQuoteExpired,
+  normalizeQuoteStatus,
+  quoteValidUntil,
+} from "@/services/quote-lifecycle";
+
+const now = new Date("2026-01-15T12:00:00.000Z");
+
+describe("quote lifecycle", () => {
+  it("only transitions to known statuses and never out of final ones", () => {
+    for (const status of QUOTE_STATUSES) {
+      for (const next of QUOTE_TRANSITIONS[status]) {
+        expect(QUOTE_STATUSES).toContain(next);
+        expect(next).not.toBe(status);
+      }
+    }
+    expect(QUOTE_TRANSITIONS.accepted).toEqual([]);
+    expect(QUOTE_TRANSITIONS.rejected).toEqual([]);
+    expect(QUOTE_TRANSITIONS.expired).toEqual([]);
+  });
+
+  it("follows the review path and allows revisions", () => {
+    expect(canTransitionQuote("draft", "submitted")).toBe(true);
+    expect(canTransitionQuote("submitted", "under_review")).toBe(true);
+    expect(canTransitionQuote("priced", "sent")).toBe(true);
+    expect(canTransitionQuote("sent", "under_review")).toBe(true);
+    expect(canTransitionQuote("submitted", "sent")).toBe(false);
+    expect(canTransitionQuote("draft", "expired")).toBe(false);
+  });
+
+  it("explains illegal transitions", () => {
+    expect(describeIllegalTransition("priced", "sent")).toBeNull();
+    expect(describeIllegalTransition("pending", "under_review")).toBeNull();
+    expect(describeIllegalTransition("submitted", "accepted")).toBe(
+      "Cannot move a quote from submitted to accepted (allowed: under_review, rejected, expired)"
+    );
+    expect(describeIllegalTransition("accepted", "sent")).toBe("Quote is accepted and can no longer change status");
+    expect(describeIllegalTransition("sent", "archived")).toBe('Unknown quote status "archived"');
+    expect(describeIllegalTransition("on hold", "sent")).toBe('Quote has unknown status "on hold"');
+  });
+
+  it("maps the legacy pending status to submitted", () => {
+    expect(normalizeQuoteStatus("pending")).toBe("submitted");
+    expect(normalizeQuoteStatus("sent")).toBe("sent");
+    expect(normalizeQuoteStatus("on hold")).toBeNull();
+  });
+
+  it("expires open quotes once their pricing window has passed", () => {
+    const lapsed = "2026-01-01T00:00:00.000Z";
+    expect(isQuoteExpired({ status: "sent", validUntil: lapsed }, now)).toBe(true);
+    expect(isQuoteExpired({ status: "pending", validUntil: lapsed }, now)).toBe(true);
+    expect(isQuoteExpired({ status: "sent", validUntil: "2026-02-01T00:00:00.000Z" }, now)).toBe(false);
+    expect(isQuoteExpired({ status: "sent", validUntil: null }, now)).toBe(false);
+    expect(isQuoteExpired({ status: "draft", validUntil: lapsed }, now)).toBe(false);
+    expect(isQuoteExpired({ status: "accepted", validUntil: lapsed }, now)).toBe(false);
+  });
+
+  it("takes the quote validity from the earliest pricing valid_to", () => {
+    expect(
+      quoteValidUntil([
+        { priceValidTo: "2026-06-30T00:00:00.000Z" },
+        { priceValidTo: null },
+        { priceValidTo: "2026-03-31T00:00:00.000Z" },
+      ])
+    ).toBe("2026-03-31T00:00:00.000Z");
+    expect(quoteValidUntil([{ priceValidTo: null }, {}])).toBeNull();
+  });
+});
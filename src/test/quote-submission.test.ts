@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { buildQuoteSubmission, createSubmissionKey, isCustomSize } from "@/services/quote-submission";
+import type { CustomerInfo, ProductConfig, ProductOption, QuoteItem } from "@/store/types";
+
+const sizes: ProductOption[] = [
+  { id: 1, name: "24x36", sku_code: "2436", width: 24, height: 36 },
+  { id: 2, name: "30x40", sku_code: "3040", width: 30, height: 40 },
+];
+
+const config = (overrides: Partial<ProductConfig>): ProductConfig => ({
+  id: "T02d-2436-BK",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "20",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "30",
+  accessories: "",
+  quantity: 1,
+  ...overrides,
+});
+
+const line = (overrides: Partial<QuoteItem>): QuoteItem => ({
+  id: "line-1",
+  sku: "T02d-2436-BK",
+  config: config({}),
+  productLine: { id: 1, name: "Deco", sku_code: "T", active: true },
+  quantity: 1,
+  unitPrice: null,
+  priceValidTo: null,
+  customSize: false,
+  note: "",
+  room: "",
+  addedAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const customerInfo: CustomerInfo = {
+  name: " Ada Lovelace ",
+  email: "ada@example.com ",
+  company: "",
+  phone: " 555-0100",
+};
+
+describe("quote submission", () => {
+  it("maps quote lines to SKU, quantity, price snapshot, custom flag, note and room", () => {
+    const items = [
+      line({ unitPrice: 450, priceValidTo: "2026-03-31T00:00:00.000Z", room: "Bathroom 2F" }),
+      line({
+        id: "line-2",
+        sku: "T02d-3142-BK",
+        config: config({ id: "config-2", width: "31", height: "42", quantity: 3 }),
+        quantity: 3,
+        customSize: true,
+        priceValidTo: "2026-02-28T00:00:00.000Z",
+        note: "Match existing vanity",
+      }),
+    ];
+
+    const submission = buildQuoteSubmission(items, customerInfo, {
+      submissionKey: "key-1",
+      productLine: "Deco",
+    });
+
+    expect(submission.submissionKey).toBe("key-1");
+    expect(submission.validUntil).toBe("2026-02-28T00:00:00.000Z");
+    expect(submission.draft).toBeUndefined();
+    expect(submission.customerInfo).toEqual({
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+      company: "",
+      phone: "555-0100",
+    });
+    expect(submission.quoteItems.map(({ sku, quantity, unitPrice, isCustom, note, room }) => ({ sku, quantity, unitPrice, isCustom, note, room }))).toEqual([
+      { sku: "T02d-2436-BK", quantity: 1, unitPrice: 450, isCustom: false, note: "", room: "Bathroom 2F" },
+      { sku: "T02d-3142-BK", quantity: 3, unitPrice: null, isCustom: true, note: "Match existing vanity", room: "" },
+    ]);
+    expect(submission.quoteItems[1].configuration).toBe(items[1].config);
+  });
+
+  it("treats sizes as preset only when they match an offered size", () => {
+    expect(isCustomSize({ width: "30", height: "40" }, sizes)).toBe(false);
+    expect(isCustomSize({ width: "40", height: "30" }, sizes)).toBe(true);
+    expect(isCustomSize({ width: "", height: "" }, sizes)).toBe(false);
+  });
+
+  it("creates distinct submission keys", () => {
+    expect(createSubmissionKey()).not.toBe(createSubmissionKey());
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { analyzeRules, buildLineOptionSpace } = await import("@/services/rule-analyzer");
+import type { Rule } from "@/services/supabase";
+
+const defaultOptions = [
+  { product_lines_id: 1, collection: "light_directions", item: "1" },
+  { product_lines_id: 1, collection: "light_directions", item: "2" },
+  { product_lines_id: 1, collection: "drivers", item: "3" },
+  { product_lines_id: 1, collection: "drivers", item: "4" },
+  { product_lines_id: 1, collection: "mirror_styles", item: "5" },
+  { product_lines_id: 1, collection: "mirror_styles", item: "6" },
+];
+
+function rule(id: string, overrides: Partial<Rule>): Rule {
+  return { id, name: id, priority: null, if_this: null, then_that: null, ...overrides };
+}
+
+const kinds = (rules: Rule[]) =>
+  analyzeRules({ rules, defaultOptions }).issues.map((issue) => [issue.kind, ...issue.ruleIds]);
+
+describe("rule analyzer", () => {
+  it("maps default options to rule fields per product line", () => {
+    expect(buildLineOptionSpace(defaultOptions).get(1)).toEqual({
+      light_direction: [1, 2],
+      driver: [3, 4],
+      mirror_style: [5, 6],
+    });
+  });
+
+  it("reports a clean rule set with no issues", () => {
+    const report = analyzeRules({
+      rules: [rule("a", { if_this: { mirror_style: { _eq: 5 } }, then_that: { driver: { _eq: 3 } } })],
+      defaultOptions,
+    });
+
+    expect(report.issues).toEqual([]);
+    expect(report.summary).toMatchObject({ errors: 0, warnings: 0, productLines: 1 });
+  });
+
+  it("flags overlapping rules that allow and deny the same value", () => {
+    const report = analyzeRules({
+      rules: [
+        rule("set", { if_this: { mirror_style: { _eq: 5 } }, then_that: { light_direction: { _eq: 2 } } }),
+        rule("deny", { if_this: { product_line: { _eq: 1 } }, then_that: { light_direction: { _neq: 2 } } }),
+      ],
+      defaultOptions,
+    });
+
+    expect(report.summary.errors).toBe(1);
+    expect(report.issues[0]).toMatchObject({
+      kind: "contradiction",
+      field: "light_direction",
+      productLineId: 1,
+      example: { product_line: 1, mirror_style: 5 },
+    });
+    expect(report.issues[0].ruleIds.sort()).toEqual(["deny", "set"]);
+  });
+
+  it("flags rules that leave a collection without options in the line", () => {
+    expect(
+      kinds([rule("none", { if_this: { product_line: { _eq: 1 } }, then_that: { driver: { _nin: [3, 4] } } })]),
+    ).toEqual([["zero_options", "none"]]);
+
+    expect(
+      kinds([rule("foreign", { if_this: { driver: { _eq: 4 } }, then_that: { mirror_style: { _eq: 99 } } })]),
+    ).toEqual([["zero_options", "foreign"]]);
+  });
+
+  it("flags rules that can never match", () => {
+    expect(
+      kinds([
+        rule("impossible", {
+          if_this: { _and: [{ driver: { _eq: 3 } }, { driver: { _eq: 4 } }] },
+          then_that: { mirror_style: { _eq: 5 } },
+        }),
+        rule("other-line", { if_this: { product_line: { _eq: 9 } }, then_that: {} }),
+        rule("no-conditions", { then_that: { driver: { _eq: 3 } } }),
+      ]),
+    ).toEqual([
+      ["unreachable", "impossible"],
+      ["unreachable", "other-line"],
+      ["unreachable", "no-conditions"],
+    ]);
+  });
+
+  it("flags rules shadowed by a broader higher-priority rule", () => {
+    expect(
+      kinds([
+        rule("broad", { priority: 1, if_this: { product_line: { _eq: 1 } }, then_that: { driver: { _eq: 3 } } }),
+        rule("narrow", { priority: 5, if_this: { mirror_style: { _eq: 6 } }, then_that: { driver: { _eq: 3 } } }),
+      ]),
+    ).toEqual([["shadowed", "narrow", "broad"]]);
+  });
+
+  it("reports invalid rules and skips unreachable checks when truncated", () => {
+    const report = analyzeRules(
+      {
+        rules: [
+          rule("broken", { if_this: { driver: { _in: "x" } }, then_that: {} }),
+          rule("dead", { if_this: { _and: [{ driver: { _eq: 3 } }, { driver: { _eq: 4 } }] }, then_that: {} }),
+          rule("wide", { if_this: { mirror_style: { _eq: 5 } }, then_that: {} }),
+        ],
+        defaultOptions,
+      },
+      { maxContextsPerLine: 2 },
+    );
+
+    expect(report.summary.truncatedProductLines).toEqual([1]);
+    expect(report.summary.contextsEvaluated).toBe(2);
+    expect(report.issues.map((issue) => issue.kind)).toEqual(["invalid", "truncated"]);
+    expect(report.issues[1]).toMatchObject({ severity: "warning", productLineId: 1 });
+  });
+
+  it("reports unreachable rules per product line and skips only truncated lines", () => {
+    const impossible = { _and: [{ driver: { _eq: 3 } }, { driver: { _eq: 4 } }] };
+    const report = analyzeRules(
+      {
+        rules: [
+          rule("dead-in-1", { if_this: { product_line: { _eq: 1 }, ...impossible }, then_that: {} }),
+          rule("dead-in-2", { if_this: { product_line: { _eq: 2 }, ...impossible }, then_that: {} }),
+          rule("both-lines", { if_this: { product_line: { _in: [1, 2] }, driver: { _eq: 3 } }, then_that: {} }),
+        ],
+        defaultOptions: [
+          ...defaultOptions,
+          ...[7, 8, 9, 10, 11, 12].map((id) => ({ product_lines_id: 2, collection: "drivers", item: String(id) })),
+          { product_lines_id: 3, collection: "drivers", item: "7" },
+        ],
+      },
+      { maxContextsPerLine: 4 },
+    );
+
+    expect(report.summary.truncatedProductLines).toEqual([2]);
+    expect(report.issues.map((issue) => [issue.kind, issue.productLineId, ...issue.ruleIds])).toEqual([
+      ["truncated", 2],
+      ["unreachable", 1, "dead-in-1"],
+    ]);
+    expect(report.issues[0].message).toMatch(/Product line 2 has 6 option combinations/);
+  });
+});
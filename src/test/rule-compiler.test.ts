@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  RuleParseError,
+  buildRuleContext,
+  compileCondition,
+  compileRule,
+  flattenActions,
+  parseActions,
+  parseCondition,
+  resolveActions,
+} from "@/services/rule-compiler";
+import { evaluateImageRule } from "@/services/image-layers";
+import type { Rule } from "@/services/supabase";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { applyRuleActions, buildRuleConstraints } = await import("@/services/rules-engine");
+const { evaluateRulesForConfig } = await import("@/services/rules-ui-integration");
+
+describe("rule compiler", () => {
+  describe("parsing", () => {
+    it("resolves aliases and nested paths into compare nodes", () => {
+      expect(parseCondition({ mounting_option: { _eq: 3 } })).toEqual({
+        kind: "compare",
+        field: "mounting",
+        path: ["mounting"],
+        op: "_eq",
+        operand: 3,
+      });
+
+      expect(parseCondition({ product_line: { sku_code: { _eq: "T" } } })).toMatchObject({
+        kind: "compare",
+        field: "product_line",
+        path: ["product_line", "sku_code"],
+      });
+    });
+
+    it("rewrites legacy operators on array fields into explicit membership", () => {
+      expect(parseCondition({ accessory: { _nin: [4, 5] } })).toEqual({
+        kind: "not",
+        child: {
+          kind: "compare",
+          field: "accessories",
+          path: ["accessories"],
+          op: "_contains_any",
+          operand: [4, 5],
+        },
+      });
+    });
+
+    it("rejects unknown operators and mistyped operands", () => {
+      expect(() => parseCondition({ driver: { _like: 1 } })).toThrow(RuleParseError);
+      expect(() => parseCondition({ driver: { _in: 4 } })).toThrow(RuleParseError);
+      expect(() => parseCondition({ _xor: [] })).toThrow(RuleParseError);
+    });
+
+    it("parses then_that into assignments and keeps _or structure", () => {
+      const actions = parseActions({
+        driver: { _eq: 4 },
+        _or: [{ color_temperature: { _nin: [1, 2] } }],
+        product: { vertical_image: { _eq: "uuid" } },
+      });
+
+      expect(actions.kind).toBe("all");
+      expect(flattenActions(actions)).toEqual([
+        { field: "driver", path: ["driver"], op: "_eq", value: 4 },
+        { field: "color_temperature", path: ["color_temperature"], op: "_nin", value: [1, 2] },
+        { field: "product", path: ["product", "vertical_image"], op: "_eq", value: "uuid" },
+      ]);
+    });
+    it("only accepts nested action paths that are overrides", () => {
+      expect(() => parseActions({ product_line: { sku_code: "L" } })).not.toThrow();
+      expect(() => parseActions({ driver: { name: { _eq: "x" } } })).toThrow(/unsupported nested path "driver.name"/);
+      expect(compileRule({ name: "nested", if_this: { driver: { _eq: 1 } }, then_that: { product: { sku: "x" } } }).error)
+        .toMatch(/product.sku/);
+    });
+  });
+
+  describe("evaluation", () => {
+    it("compares loosely so string ids match numeric operands", () => {
+      const predicate = compileCondition({ driver: { _in: [2, 4] } });
+      expect(predicate({ driver: "4" })).toBe(true);
+      expect(predicate({ driver: 3 })).toBe(false);
+    });
+
+    it("orders numerically and never matches values that are not numbers", () => {
+      const wide = compileCondition({ width: { _gt: "9" } });
+      expect(wide({ width: "10" })).toBe(true);
+      expect(wide({ width: 9 })).toBe(false);
+      expect(wide({ width: "wide" })).toBe(false);
+      expect(compileCondition({ width: { _lte: 30 } })({})).toBe(false);
+      expect(compileCondition({ width: { _lt: "x" } })({ width: 1 })).toBe(false);
+    });
+
+    it("combines _and / _or with sibling fields", () => {
+      const predicate = compileCondition({
+        product_line: { _eq: 1 },
+        _or: [{ driver: { _eq: 2 } }, { frame_color: { _neq: 5 } }],
+      });
+      expect(predicate({ product_line: 1, driver: 2, frame_color: 5 })).toBe(true);
+      expect(predicate({ product_line: 1, driver: 3, frame_color: 5 })).toBe(false);
+      expect(predicate({ product_line: 2, driver: 2 })).toBe(false);
+    });
+
+    it("supports _contains_any / _contains_all on array fields", () => {
+      const any = compileCondition({ accessories: { _contains_any: [1, 9] } });
+      const all = compileCondition({ accessories: { _contains_all: [1, 2] } });
+
+      expect(any({ accessories: [2, 9] })).toBe(true);
+      expect(any({ accessories: [] })).toBe(false);
+      expect(all({ accessories: [1, 2, 3] })).toBe(true);
+      expect(all({ accessories: [1] })).toBe(false);
+    });
+
+    it("falls back to flattened keys for nested paths", () => {
+      const predicate = compileCondition({ product_line: { sku_code: { _eq: "L" } } });
+      expect(predicate({ product_line: 3, product_line_sku_code: "L" })).toBe(true);
+    });
+
+    it("handles emptiness and case-insensitive contains", () => {
+      expect(compileCondition({ driver: { _empty: true } })({})).toBe(true);
+      expect(compileCondition({ driver: { _nempty: true } })({ driver: 1 })).toBe(true);
+
+      const contains = compileCondition(
+        { frame_thicknesses: { _contains: "thin" } },
+        { caseInsensitiveContains: true },
+      );
+      expect(contains({ frame_thicknesses: { id: 1, name: "Thin Frame" } })).toBe(true);
+    });
+
+    it("fails comparisons on unset fields for image rules only", () => {
+      const notDriver = { driver: { _neq: 3 } };
+      expect(compileCondition(notDriver)({})).toBe(true);
+      expect(compileCondition(notDriver, { unsetFieldsFail: true })({})).toBe(false);
+      expect(compileCondition({ driver: { _null: true } }, { unsetFieldsFail: true })({})).toBe(true);
+
+      expect(evaluateImageRule({ drivers: { _neq: 3 } }, {})).toBe(false);
+      expect(evaluateImageRule({ drivers: { _nin: [3] } }, { driver: "4" })).toBe(true);
+      expect(evaluateImageRule({ drivers: { _nin: [3] } }, { driver: "3" })).toBe(false);
+    });
+
+    it("never matches invalid filters", () => {
+      expect(compileCondition({ driver: { _bogus: 1 } })({ driver: 1 })).toBe(false);
+    });
+  });
+
+  describe("compiled rules", () => {
+    it("caches per rule object and never matches rules without conditions", () => {
+      const rule = { name: "r", if_this: null, then_that: { driver: { _eq: 1 } } };
+      const compiled = compileRule(rule);
+
+      expect(compileRule(rule)).toBe(compiled);
+      expect(compiled.matches({})).toBe(false);
+    });
+
+    it("reports referenced fields and parse errors", () => {
+      const compiled = compileRule({
+        name: "ok",
+        if_this: { _and: [{ driver: { _eq: 1 } }, { mounting_option: { _in: [2] } }] },
+        then_that: {},
+      });
+      expect(compiled.fields.sort()).toEqual(["driver", "mounting"]);
+
+      const broken = compileRule({ name: "broken", if_this: { driver: { _in: "x" } }, then_that: {} });
+      expect(broken.error).toMatch(/Invalid rule filter/);
+      expect(broken.matches({ driver: 1 })).toBe(false);
+    });
+  });
+
+  it("builds the snake_case rule context from a configuration", () => {
+    expect(
+      buildRuleContext(
+        { mirrorStyle: "3", lighting: "", driver: "7", accessories: "12" },
+        18,
+      ),
+    ).toMatchObject({
+      product_line: 18,
+      mirror_style: 3,
+      light_direction: undefined,
+      driver: 7,
+      accessories: [12],
+    });
+  });
+
+  describe("_or actions", () => {
+    const rule = {
+      id: "or",
+      name: "Either driver",
+      if_this: { mirror_style: { _eq: 5 } },
+      then_that: {
+        _or: [{ driver: { _eq: 3 } }, { driver: { _eq: 4 }, product: { vertical_image: { _eq: "four" } } }],
+        frame_color: { _neq: 9 },
+      },
+    } as unknown as Rule;
+
+    it("applies one branch, keeping the one the configuration already holds", () => {
+      const { actions } = compileRule(rule);
+
+      expect(resolveActions(actions).map((action) => action.value)).toEqual([3, 9]);
+      expect(resolveActions(actions, { driver: "4" }).map((action) => action.value)).toEqual([4, "four", 9]);
+      expect(applyRuleActions(rule, { mirror_style: 5 })).toMatchObject({ driver: 3 });
+      expect(applyRuleActions(rule, { mirror_style: 5, driver: 4 })).toMatchObject({ driver: 4 });
+    });
+
+    it("allows every branch's values without forcing one", () => {
+      const result = evaluateRulesForConfig([rule], { mirrorStyle: "5", driver: "4" }, 1);
+
+      expect(result.setValues).toEqual({});
+      expect(result.disabledOptions).toMatchObject({ drivers_rule_set: [3, 4], frame_colors: [9] });
+      expect(result.imageOverrides).toEqual({ vertical_image: "four" });
+      expect(buildRuleConstraints([rule], { mirror_style: 5 }).driver?.allow).toEqual(new Set([3, 4]));
+    });
+
+    it("still forces a value when a single one is allowed", () => {
+      const single = { ...rule, then_that: { _or: [{ driver: { _eq: 3 } }] } } as unknown as Rule;
+      const result = evaluateRulesForConfig([single], { mirrorStyle: "5" }, 1);
+
+      expect(result.setValues).toEqual({ driver: 3 });
+      expect(result.disabledOptions.drivers_rule_set).toEqual([3]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { createSnapshotDataProvider, parseDataSnapshot, setDataProvider } = await import("@/services/data-provider");
+const { fetchSkuCodeOrder } = await import("@/services/sku-generator");
+const { applyProposedRules, simulateRuleChange } = await import("@/services/rule-simulator");
+import { realDataSnapshot } from "./fixtures/real-data-snapshot";
+import type { DataSnapshot } from "@/services/data-provider";
+
+const snapshot: DataSnapshot = {
+  version: 1,
+  generatedAt: "2025-06-01T00:00:00.000Z",
+  productLines: [{ id: 5, name: "Deco", sku_code: "D", active: true }],
+  products: [
+    { id: 1, product_line: 5, active: true, mirror_style: 1, light_direction: 20 },
+    { id: 2, product_line: 5, active: true, mirror_style: 1, light_direction: 21 },
+  ],
+  rules: [],
+  productLineDefaultOptions: [
+    { product_lines_id: 5, collection: "mirror_styles", item: "1" },
+    { product_lines_id: 5, collection: "light_directions", item: "20" },
+    { product_lines_id: 5, collection: "light_directions", item: "21" },
+    { product_lines_id: 5, collection: "drivers", item: "30" },
+    { product_lines_id: 5, collection: "drivers", item: "31" },
+  ],
+  productOptionOverrides: [],
+  options: {
+    mirror_styles: [{ id: 1, name: "Round", sku_code: "01" }],
+    light_directions: [
+      { id: 21, name: "Indirect", sku_code: "i", sort: 2 },
+      { id: 20, name: "Direct", sku_code: "d", sort: 1 },
+    ],
+    drivers: [
+      { id: 30, name: "Standard", sku_code: "S" },
+      { id: 31, name: "Dimmable", sku_code: "D" },
+    ],
+  },
+  skuCodeOrder: [
+    { id: "b", order: 2, sku_code_item: "mirror_styles" },
+    { id: "a", order: 1, sku_code_item: "product_lines" },
+  ],
+};
+
+describe("snapshot data provider", () => {
+  afterEach(() => setDataProvider(null));
+
+  it("builds product options from defaults in sort order", async () => {
+    const options = await createSnapshotDataProvider(snapshot).fetchProductOptions(5);
+
+    expect(options.lightingOptions.map((option) => option.name)).toEqual(["Direct", "Indirect"]);
+    expect(options.drivers).toHaveLength(2);
+    expect(options.frameColors).toEqual([]);
+  });
+
+  it("serves the existing fixture snapshot", async () => {
+    const provider = createSnapshotDataProvider(parseDataSnapshot(realDataSnapshot));
+
+    expect((await provider.fetchProductLines())[0]).toMatchObject({ id: 1, name: "Backlit Mirrors" });
+    expect((await provider.fetchProductOptions(1)).frameColors[0]).toMatchObject({ name: "Black Metal", hex_code: "#000000" });
+  });
+
+  it("routes the catalog loaders through the installed provider", async () => {
+    setDataProvider(createSnapshotDataProvider(snapshot));
+
+    expect((await fetchSkuCodeOrder()).map((item) => item.id)).toEqual(["a", "b"]);
+  });
+
+  it("rejects snapshots with an unknown version", () => {
+    expect(() => parseDataSnapshot({ ...snapshot, version: 99 })).toThrow(/version 99/);
+  });
+});
+
+describe("rule simulator", () => {
+  const forceDirect = {
+    name: "Dimmable needs direct light",
+    if_this: { driver: { _eq: 31 } },
+    then_that: { light_direction: { _eq: 20 } },
+  };
+
+  it("reports options a proposed rule disables", async () => {
+    const report = await simulateRuleChange(snapshot, [forceDirect]);
+    const [line] = report.productLines;
+
+    // mirror style × lighting × driver
+    expect(line.contextsEvaluated).toBe(4);
+    expect(line.contextsChanged).toBe(2);
+    expect(line.changes).toEqual([
+      {
+        collection: "light_directions",
+        optionId: 21,
+        optionName: "Indirect",
+        change: "disabled",
+        contexts: 2,
+        example: { mirrorStyle: "1", lighting: "20", driver: "31" },
+      },
+    ]);
+    expect(report.proposed).toEqual([{ id: "proposed-1", name: "Dimmable needs direct light" }]);
+  });
+
+  it("reports options re-enabled when a rule is replaced", async () => {
+    const current = { ...snapshot, rules: [{ id: "r1", priority: null, ...forceDirect }] };
+    const report = await simulateRuleChange(current, [
+      { id: "r1", name: "Relaxed", if_this: { driver: { _eq: 99 } }, then_that: {} },
+    ]);
+
+    expect(report.replaced).toEqual(["r1"]);
+    expect(report.productLines[0].changes.map((change) => [change.change, change.optionId])).toEqual([
+      ["enabled", 21],
+    ]);
+  });
+
+  it("rejects invalid proposed rules", () => {
+    expect(() => applyProposedRules([], [{ if_this: { driver: { _in: "x" } } }])).toThrow(/invalid/);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { computeSizeDisabledOptions, resolveSizeEnvelope, validateSize } = await import("@/services/size-envelope");
+const { createEmptyProductOptions } = await import("@/services/product-options-builder");
+const { formatDisabledReason } = await import("@/services/option-explainer");
+const { createTranslator } = await import("@/i18n/translator");
+import type { SizeEnvelopeRow } from "@/services/supabase";
+
+const translator = createTranslator("en");
+
+const row = (overrides: Partial<SizeEnvelopeRow>): SizeEnvelopeRow => ({
+  id: 1,
+  product_line: 7,
+  mirror_style: null,
+  min_width: null,
+  max_width: null,
+  min_height: null,
+  max_height: null,
+  min_aspect_ratio: null,
+  max_aspect_ratio: null,
+  increment: null,
+  requirements: [],
+  active: true,
+  created_at: "2025-10-23T00:00:00Z",
+  updated_at: "2025-10-23T00:00:00Z",
+  ...overrides,
+});
+
+const largeDriver = { dimension: "width", above: 60, requires: { driver: { _eq: 3 } } };
+
+const rows = [
+  row({ min_width: 18, max_width: 72, min_height: 18, max_height: 60, increment: 0.5, requirements: [largeDriver] }),
+  row({ id: 2, mirror_style: 4, max_width: 48, min_aspect_ratio: 0.5, max_aspect_ratio: 2 }),
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("resolveSizeEnvelope", () => {
+  it("layers a mirror style row over the product line row", () => {
+    expect(resolveSizeEnvelope(rows, "4")).toMatchObject({
+      minWidth: 18,
+      maxWidth: 48,
+      maxHeight: 60,
+      minAspectRatio: 0.5,
+      increment: 0.5,
+      requirements: [{ dimension: "width", above: 60, fields: ["driver"] }],
+    });
+    expect(resolveSizeEnvelope(rows, "9")).toMatchObject({ maxWidth: 72, minAspectRatio: null });
+  });
+
+  it("leaves sizes open without rows and drops invalid requirements", () => {
+    vi.stubEnv("VITE_SIZE_INCREMENT", "0.125");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(resolveSizeEnvelope([])).toMatchObject({ minWidth: null, maxWidth: null, increment: 0.125, requirements: [] });
+    expect(resolveSizeEnvelope([row({ requirements: [{ dimension: "depth", above: 60, requires: {} }] })]).requirements).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe("validateSize", () => {
+  const envelope = resolveSizeEnvelope(rows);
+
+  it("reports each limit on the input it belongs to and suggests the nearest valid size", () => {
+    expect(validateSize(envelope, { width: "80", height: "12.25", driver: "3" }, 7)).toEqual({
+      valid: false,
+      issues: [
+        { code: "width_max", dimension: "width", limit: 72 },
+        { code: "height_min", dimension: "height", limit: 18 },
+        { code: "increment", dimension: "height", limit: 0.5 },
+      ],
+      suggestion: { width: "72", height: "18" },
+    });
+    expect(validateSize(envelope, { width: "36", height: "48", driver: "3" }, 7)).toEqual({
+      valid: true,
+      issues: [],
+      suggestion: null,
+    });
+  });
+
+  it("keeps the aspect ratio in range by moving the side that changes least", () => {
+    const styleEnvelope = resolveSizeEnvelope(rows, 4);
+
+    expect(validateSize(styleEnvelope, { width: "48", height: "20" }, 7)).toMatchObject({
+      issues: [{ code: "aspect_max", dimension: null, limit: 2 }],
+      suggestion: { width: "48", height: "24" },
+    });
+  });
+
+  it("evaluates size requirements against the selected options", () => {
+    expect(validateSize(envelope, { width: "66", height: "36", driver: "2" }, 7)).toEqual({
+      valid: false,
+      issues: [{ code: "requirement", dimension: "width", limit: 60, message: null }],
+      suggestion: { width: "60", height: "36" },
+    });
+    expect(validateSize(envelope, { width: "66", height: "36", driver: "3" }, 7).valid).toBe(true);
+    // Unreadable sizes are the size inputs' concern
+    expect(validateSize(envelope, { width: "wide", height: "36" }, 7).valid).toBe(true);
+  });
+});
+
+describe("computeSizeDisabledOptions", () => {
+  const envelope = resolveSizeEnvelope(rows);
+  const productOptions = {
+    ...createEmptyProductOptions(),
+    drivers: [
+      { id: 2, name: "Standard", sku_code: "S" },
+      { id: 3, name: "High output", sku_code: "H" },
+    ],
+  };
+
+  it("disables the options a requirement rules out above its threshold", () => {
+    const result = computeSizeDisabledOptions(envelope, { width: "66", height: "36", driver: "2" }, 7, productOptions);
+
+    expect(result).toEqual({
+      disabledOptions: { drivers: [2] },
+      reasons: { drivers: { 2: [{ source: "size", dimension: "width", above: 60 }] } },
+    });
+    expect(formatDisabledReason(result.reasons.drivers[2][0], productOptions, translator)).toBe('Not available for a width above 60"');
+    expect(computeSizeDisabledOptions(envelope, { width: "60", height: "36", driver: "2" }, 7, productOptions)).toEqual({
+      disabledOptions: {},
+      reasons: {},
+    });
+  });
+
+  it("leaves a field alone when none of its options meet the requirement", () => {
+    const standardOnly = { ...productOptions, drivers: [productOptions.drivers[0]] };
+
+    expect(computeSizeDisabledOptions(envelope, { width: "66", height: "36", driver: "2" }, 7, standardOnly)).toEqual({
+      disabledOptions: {},
+      reasons: {},
+    });
+  });
+});
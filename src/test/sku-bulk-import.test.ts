@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({
+  supabase: {},
+  getProductById: vi.fn(async (id: number) => ({ id, name: "T02d", sku_code: "T02d" })),
+}));
+
+vi.mock("@/services/sku-parser", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/sku-parser")>()),
+  parseSkuToConfiguration: vi.fn(),
+}));
+
+vi.mock("@/services/sku-generator", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/sku-generator")>()),
+  generateSku: vi.fn(async (_product: unknown, config: { width: string; height: string; frameColor: string }) =>
+    `T02d-${config.width}${config.height}-${config.frameColor}`,
+  ),
+}));
+
+const {
+  parseBulkSkuText,
+  createBulkImportRows,
+  parseBulkImportRows,
+  getRowConfidence,
+  isRowImportable,
+  resolveRowSegment,
+  selectRowResult,
+  buildQuoteLineDrafts,
+} = await import("@/services/sku-bulk-import");
+const { parseSkuToConfiguration } = await import("@/services/sku-parser");
+import type { SkuParseResponse, SkuSearchResult, SkuSegmentMatch } from "@/store/types";
+
+const segment = (overrides: Partial<SkuSegmentMatch>): SkuSegmentMatch => ({
+  order: 1,
+  tableName: "frame_colors",
+  field: "frameColor",
+  segment: "BK",
+  status: "exact",
+  options: [{ id: "40", name: "Black", skuCode: "BK" }],
+  ...overrides,
+});
+
+const result = (overrides: Partial<SkuSearchResult> = {}): SkuSearchResult => ({
+  id: "product-11",
+  productId: 11,
+  productLineId: 1,
+  productSku: "T02d",
+  productName: "T02d",
+  configuration: { productLineId: 1, mirrorStyle: "2", width: "24", height: "36", frameColor: "40" },
+  segments: [segment({})],
+  issues: [],
+  confidence: "exact",
+  ...overrides,
+});
+
+const response = (results: SkuSearchResult[], errors: string[] = []): SkuParseResponse => ({
+  query: "",
+  segments: [],
+  results,
+  warnings: [],
+  errors,
+});
+
+describe("bulk SKU text parsing", () => {
+  it("reads SKU and quantity columns by header", () => {
+    const entries = parseBulkSkuText('Qty,Part Number,Notes\n4,T02d-2436-BK,"lobby, east"\n\n2,"T23i-3036-S",\n');
+
+    expect(entries).toEqual([
+      { line: 2, sku: "T02d-2436-BK", quantity: 4, error: null },
+      { line: 4, sku: "T23i-3036-S", quantity: 2, error: null },
+    ]);
+  });
+
+  it("accepts pasted lists with optional quantities", () => {
+    expect(parseBulkSkuText("T02d-2436-BK 3\nT02d-3036-WH\nT02d-1818 x")).toEqual([
+      { line: 1, sku: "T02d-2436-BK", quantity: 3, error: null },
+      { line: 2, sku: "T02d-3036-WH", quantity: 1, error: null },
+      { line: 3, sku: "T02d-1818", quantity: 1, error: 'Invalid quantity "x".' },
+    ]);
+    expect(parseBulkSkuText("T02d\t500")[0].error).toBe("Quantity 500 exceeds the maximum of 100.");
+  });
+});
+
+describe("bulk SKU rows", () => {
+  it("parses each distinct SKU once and flags rows without matches", async () => {
+    const parse = vi.mocked(parseSkuToConfiguration);
+    parse.mockReset();
+    parse.mockImplementation(async (query) =>
+      query.startsWith("T02d") ? response([result()]) : response([], ['No products found matching base segment "ZZ".']),
+    );
+
+    const rows = await parseBulkImportRows(
+      createBulkImportRows(parseBulkSkuText("T02d-2436-BK\nt02d-2436-bk 2\nZZ-1\nT02d x")),
+    );
+
+    expect(parse).toHaveBeenCalledTimes(2);
+    expect(rows.map(getRowConfidence)).toEqual(["exact", "exact", "invalid", "invalid"]);
+    expect(rows[2].error).toBe('No products found matching base segment "ZZ".');
+    expect(rows[3].error).toBe('Invalid quantity "x".');
+  });
+
+  it("needs a product and an option for every ambiguous segment before import", async () => {
+    const ambiguous = segment({
+      order: 2,
+      tableName: "sizes",
+      field: "width",
+      segment: "24",
+      status: "ambiguous",
+      options: [
+        { id: "5", name: "24x36", skuCode: "2436" },
+        { id: "6", name: "24x48", skuCode: "2448" },
+      ],
+    });
+    vi.mocked(parseSkuToConfiguration).mockResolvedValueOnce(
+      response([
+        result({ segments: [segment({}), ambiguous], confidence: "ambiguous" }),
+        result({ id: "product-12", productId: 12, confidence: "ambiguous" }),
+      ]),
+    );
+
+    let [row] = await parseBulkImportRows(createBulkImportRows(parseBulkSkuText("T02d-24-BK")));
+    expect(getRowConfidence(row)).toBe("ambiguous");
+    expect(row.selectedResultId).toBeNull();
+
+    row = selectRowResult(row, "product-11");
+    expect(isRowImportable(row)).toBe(false);
+
+    row = resolveRowSegment(row, 2, "6");
+    expect(getRowConfidence(row)).toBe("exact");
+    expect(isRowImportable(row)).toBe(true);
+  });
+
+  it("builds quote lines from resolved rows with generated SKUs", async () => {
+    const { fetchProductOptions } = await import("@/services/product-options");
+    vi.mocked(fetchProductOptions).mockResolvedValueOnce({
+      mirrorControls: [],
+      frameColors: [],
+      frameThickness: [],
+      mirrorStyles: [],
+      mountingOptions: [],
+      hangingTechniques: [],
+      lightingOptions: [],
+      colorTemperatures: [],
+      lightOutputs: [],
+      drivers: [],
+      accessoryOptions: [],
+      sizes: [{ id: 6, name: "24x48", sku_code: "2448", width: 24, height: 48 }],
+    });
+
+    const [row] = createBulkImportRows([{ line: 1, sku: "T02d-24-BK", quantity: 3, error: null }]);
+    const resolved = resolveRowSegment(
+      {
+        ...row,
+        status: "parsed",
+        results: [
+          result({
+            segments: [
+              segment({}),
+              segment({ order: 2, tableName: "sizes", status: "ambiguous", options: [{ id: "6", name: "24x48", skuCode: "2448" }] }),
+            ],
+          }),
+        ],
+        selectedResultId: "product-11",
+      },
+      2,
+      "6",
+    );
+    const orphan = { ...resolved, id: "import-2", results: [result({ productLineId: 9 })] };
+
+    const { drafts, skipped } = await buildQuoteLineDrafts([resolved, orphan], [
+      { id: 1, name: "Deco", sku_code: "T", active: true },
+    ]);
+
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({
+      sku: "T02d-2448-40",
+      productLine: { id: 1 },
+      config: { productLineId: 1, productLineName: "Deco", mirrorStyle: "2", width: "24", height: "48", quantity: 3 },
+    });
+    expect(skipped).toEqual([
+      { row: orphan, reason: "SKU refers to a product line that is not available in this session." },
+    ]);
+  });
+});
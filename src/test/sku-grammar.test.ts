@@ -0,0 +1,301 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { buildSkuGrammar, formatSku, parseSku, matchSkuBase } = await import("@/services/sku-grammar");
+const { createSnapshotDataProvider } = await import("@/services/data-provider");
+const { enumerateConfigurations } = await import("@/services/configuration-enumerator");
+const { buildFullSku } = await import("@/utils/sku-builder");
+const { buildBaseConfiguration } = await import("@/services/sku-parser");
+import type { SkuGenerationRule, SkuGrammar } from "@/services/sku-grammar";
+import type { DataSnapshot } from "@/services/data-provider";
+import type { ProductConfig, ProductOption, ProductOptions } from "@/store/types";
+
+const skuOrder = [
+  { id: "p", order: 0, sku_code_item: "products" },
+  { id: "z", order: 1, sku_code_item: "sizes" },
+  { id: "t", order: 2, sku_code_item: "frame_thicknesses" },
+  { id: "o", order: 3, sku_code_item: "light_outputs" },
+  { id: "c", order: 4, sku_code_item: "color_temperatures" },
+  { id: "d", order: 5, sku_code_item: "drivers" },
+  { id: "m", order: 6, sku_code_item: "mounting_options" },
+  { id: "f", order: 7, sku_code_item: "frame_colors" },
+  { id: "a", order: 8, sku_code_item: "accessories" },
+];
+
+const rule = (attribute_code: string | null, separator: string | null, sku_segment_template: string | null = null): SkuGenerationRule => ({
+  attribute_code,
+  rule_order: 1,
+  separator,
+  sku_segment_template,
+  is_active: true,
+});
+
+const option = (id: number, sku_code: string, extra: Partial<ProductOption> = {}): ProductOption => ({
+  id,
+  name: sku_code,
+  sku_code,
+  ...extra,
+});
+
+// Fields a SKU carries; mirror style, light direction and frame thickness come from its product base
+const SKU_FIELDS = [
+  "mirrorStyle",
+  "lighting",
+  "frameThickness",
+  "width",
+  "height",
+  "lightOutput",
+  "colorTemperature",
+  "driver",
+  "mounting",
+  "frameColor",
+  "accessories",
+] as const;
+
+const pick = (config: Partial<ProductConfig>) =>
+  Object.fromEntries(SKU_FIELDS.filter((field) => config[field]).map((field) => [field, config[field]]));
+
+describe("SKU grammar", () => {
+  it("builds segments from sku_code_order and sku_generation_rules", () => {
+    const grammar = buildSkuGrammar(skuOrder, [
+      rule(null, "_"),
+      rule("sizes", "", "{width}x{height}"),
+      { ...rule("drivers", "."), is_active: false },
+    ]);
+
+    expect(grammar.separator).toBe("_");
+    expect(grammar.segments.map((segment) => segment.table)[0]).toBe("sizes");
+    expect(grammar.segments[0]).toMatchObject({ separator: "", template: "{width}x{height}" });
+    expect(grammar.segments.find((segment) => segment.table === "drivers")).toMatchObject({ separator: "_" });
+    expect(grammar.segments.find((segment) => segment.table === "frame_thicknesses")?.encodedInBase).toBe(true);
+  });
+
+  it("leaves unselected segments out and parses around them", () => {
+    const grammar = buildSkuGrammar(skuOrder);
+    const productOptions = {
+      sizes: [option(1, "2436", { width: 24, height: 36 })],
+      drivers: [option(30, "S")],
+      frameColors: [option(40, "BK")],
+    };
+    const config = { width: "24", height: "36", frameColor: "40" };
+
+    const sku = formatSku(grammar, "T01", config, productOptions);
+    expect(sku).toBe("T01-2436-BK");
+    expect(parseSku(grammar, sku, "T01", productOptions)).toMatchObject({
+      config,
+      ambiguous: false,
+      segments: [
+        { table: "sizes", code: "2436", optionId: "1" },
+        { table: "frame_colors", code: "BK", optionId: "40" },
+      ],
+    });
+    expect(parseSku(grammar, "T01-2436-XX", "T01", productOptions)).toBeNull();
+    expect(parseSku(grammar, "T02-2436", "T01", productOptions)).toBeNull();
+  });
+
+  it("reads option codes that contain the separator", () => {
+    const grammar = buildSkuGrammar(skuOrder);
+    const productOptions = { drivers: [option(30, "DALI-2")], frameColors: [option(40, "2")] };
+
+    const parsed = parseSku(grammar, "T01-DALI-2-2", "T01", productOptions);
+    expect(parsed?.config).toEqual({ driver: "30", frameColor: "40" });
+  });
+
+  it("parses custom sizes when the template spells out width and height", () => {
+    const grammar = buildSkuGrammar(skuOrder, [rule("sizes", "-", "{width}x{height}")]);
+
+    const sku = formatSku(grammar, "T01", { width: "24.5", height: "40" }, { sizes: [] });
+    expect(sku).toBe("T01-24.5x40");
+    expect(parseSku(grammar, sku, "T01", { sizes: [] })?.config).toEqual({ width: "24.5", height: "40" });
+  });
+
+  it("flags SKUs with more than one reading", () => {
+    const grammar = buildSkuGrammar(skuOrder);
+    // "S" is both a driver and a mounting code; either segment may be absent
+    const productOptions = { drivers: [option(30, "S")], mountingOptions: [option(50, "S")] };
+
+    expect(parseSku(grammar, "T01-S", "T01", productOptions)?.ambiguous).toBe(true);
+  });
+
+  it("matches product bases followed by a separator", () => {
+    const grammar = buildSkuGrammar(skuOrder);
+    const products = [{ sku_code: "T01" }, { sku_code: "T011" }, { sku_code: "T0" }];
+
+    expect(matchSkuBase(grammar, "T01-BK", products)).toEqual([{ sku_code: "T01" }]);
+  });
+
+  it("keeps the display SKU format of buildFullSku", () => {
+    const options = {
+      mirrorControls: [],
+      frameColors: [option(40, "BK")],
+      frameThickness: [],
+      mirrorStyles: [option(2, "02")],
+      mountingOptions: [option(50, "W")],
+      lightingOptions: [option(20, "d")],
+      colorTemperatures: [option(60, "30")],
+      lightOutputs: [option(70, "LO")],
+      drivers: [option(30, "S")],
+      accessoryOptions: [option(80, "NL"), option(81, "TL")],
+      sizes: [option(1, "2436", { width: 24, height: 36 })],
+    };
+    const config = {
+      productLineId: 1,
+      mirrorControls: "",
+      frameColor: "40",
+      frameThickness: "",
+      mirrorStyle: "2",
+      width: "24",
+      height: "36",
+      mounting: "50",
+      lighting: "20",
+      colorTemperature: "60",
+      lightOutput: "70",
+      driver: "30",
+      accessories: ["80", "81"],
+    };
+    const productLine = { id: 1, name: "Tech", sku_code: "T" } as any;
+
+    expect(buildFullSku(config, options, productLine).sku).toBe("T02d-2436-LO-30-S-W-BK-NL+TL");
+    expect(
+      buildFullSku({ ...config, accessories: [] }, options, productLine, { driverSkuOverride: "D", accessoryFallback: "NA" }).sku
+    ).toBe("T02d-2436-LO-30-D-W-BK-NA");
+  });
+});
+
+describe("SKU grammar round trip", () => {
+  const snapshot: DataSnapshot = {
+    version: 1,
+    generatedAt: "2025-06-01T00:00:00.000Z",
+    productLines: [{ id: 5, name: "Deco", sku_code: "D", active: true }],
+    products: [
+      { id: 1, product_line: 5, active: true, sku_code: "D01", mirror_style: 1, light_direction: 20, frame_thickness: { key: 90 } },
+      { id: 2, product_line: 5, active: true, sku_code: "D02", mirror_style: 2, light_direction: 20, frame_thickness: { key: 91 } },
+    ],
+    rules: [
+      {
+        id: "r1",
+        name: "White frames only with standard drivers",
+        priority: null,
+        if_this: { frame_color: { _eq: 41 } },
+        then_that: { driver: { _eq: 30 } },
+      },
+    ],
+    productLineDefaultOptions: [
+      ...[1, 2].map((item) => ({ product_lines_id: 5, collection: "mirror_styles", item: String(item) })),
+      { product_lines_id: 5, collection: "light_directions", item: "20" },
+      ...[90, 91].map((item) => ({ product_lines_id: 5, collection: "frame_thicknesses", item: String(item) })),
+      ...[40, 41, 42].map((item) => ({ product_lines_id: 5, collection: "frame_colors", item: String(item) })),
+      ...[30, 31].map((item) => ({ product_lines_id: 5, collection: "drivers", item: String(item) })),
+      ...[50, 51].map((item) => ({ product_lines_id: 5, collection: "mounting_options", item: String(item) })),
+      ...[60, 61].map((item) => ({ product_lines_id: 5, collection: "color_temperatures", item: String(item) })),
+      ...[10, 11, 12].map((item) => ({ product_lines_id: 5, collection: "sizes", item: String(item) })),
+      ...[80, 81].map((item) => ({ product_lines_id: 5, collection: "accessories", item: String(item) })),
+    ],
+    productOptionOverrides: [{ products_id: 2, collection: "drivers", item: "30" }],
+    options: {
+      mirror_styles: [option(1, "01"), option(2, "02")],
+      light_directions: [option(20, "d")],
+      frame_thicknesses: [option(90, "W"), option(91, "N")],
+      // Codes sharing prefixes and containing the separator
+      frame_colors: [option(40, "B"), option(41, "BK"), option(42, "B-K")],
+      drivers: [option(30, "S"), option(31, "SD")],
+      mounting_options: [option(50, "V"), option(51, "H")],
+      color_temperatures: [option(60, "27"), option(61, "30")],
+      sizes: [option(10, "2436", { width: 24, height: 36 }), option(11, "3036", { width: 30, height: 36 }), option(12, "243", { width: 24, height: 3 })],
+      accessories: [option(80, "NL"), option(81, "TL")],
+    },
+    skuCodeOrder: skuOrder,
+  };
+
+  const grammars: Array<[string, SkuGrammar]> = [
+    ["default grammar", buildSkuGrammar(skuOrder)],
+    [
+      "custom separators and templates",
+      buildSkuGrammar(skuOrder, [
+        rule(null, "_"),
+        rule("sizes", "", "{width}x{height}"),
+        rule("drivers", ".", "DRV{sku_code}"),
+      ]),
+    ],
+  ];
+
+  it.each(grammars)("parse(generate(config)) == config for every enumerable configuration (%s)", async (_, grammar) => {
+    const provider = createSnapshotDataProvider(snapshot);
+    const optionsByProduct = new Map<number, ProductOptions>();
+    for (const product of snapshot.products) {
+      optionsByProduct.set(product.id, await provider.fetchProductOptions(5, product.id));
+    }
+
+    const failures: string[] = [];
+    const stats = await enumerateConfigurations(
+      {
+        productLine: { id: 5, name: "Deco" },
+        products: snapshot.products,
+        rules: snapshot.rules,
+        grammar,
+        getProductOptions: async (productId) => optionsByProduct.get(productId)!,
+      },
+      ({ productId, sku, config }) => {
+        // Only the SKU is known: its base picks the product, which supplies the base-encoded facets
+        const [product, ...others] = matchSkuBase(grammar, sku, snapshot.products);
+        const parsed =
+          product && others.length === 0
+            ? parseSku(grammar, sku, product.sku_code, optionsByProduct.get(product.id)!)
+            : null;
+        const read = parsed && { ...buildBaseConfiguration(product), ...parsed.config };
+        if (!read || parsed.ambiguous || product.id !== productId || JSON.stringify(pick(read)) !== JSON.stringify(pick(config))) {
+          failures.push(sku);
+        }
+      },
+    );
+
+    // Color/driver pairs: 5 for product 1 (white excludes dimmable), 3 for product 2 (standard only);
+    // each × 2 mountings × 2 temperatures × 3 sizes × 3 accessory choices
+    expect(stats.validConfigurations).toBe(5 * 36 + 3 * 36);
+    expect(failures).toEqual([]);
+  });
+
+  it("reads back a configuration that regenerates the same SKU for random catalogs", () => {
+    // Small deterministic PRNG so failures reproduce
+    let seed = 1234567;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const randomCode = () =>
+      Array.from({ length: 1 + Math.floor(random() * 3) }, () => "AB1-"[Math.floor(random() * 4)]).join("");
+
+    const collections: Array<[keyof ProductOptions, keyof ProductConfig]> = [
+      ["lightOutputs", "lightOutput"],
+      ["drivers", "driver"],
+      ["mountingOptions", "mounting"],
+      ["frameColors", "frameColor"],
+    ];
+
+    for (let run = 0; run < 200; run++) {
+      const grammar = buildSkuGrammar(skuOrder, random() < 0.5 ? [rule("drivers", "")] : []);
+      const productOptions: Partial<ProductOptions> = {};
+      const config: Partial<ProductConfig> = {};
+      let id = 1;
+
+      for (const [key, field] of collections) {
+        const codes = Array.from(new Set(Array.from({ length: 1 + Math.floor(random() * 3) }, randomCode)));
+        const options = codes.filter((code) => !code.startsWith("-") && !code.endsWith("-")).map((code) => option(id++, code));
+        productOptions[key] = options;
+        if (options.length > 0 && random() < 0.7) {
+          (config as Record<string, string>)[field] = String(options[Math.floor(random() * options.length)].id);
+        }
+      }
+
+      const sku = formatSku(grammar, "X", config, productOptions);
+      const parsed = parseSku(grammar, sku, "X", productOptions);
+
+      expect(parsed, sku).not.toBeNull();
+      expect(formatSku(grammar, "X", parsed!.config, productOptions), sku).toBe(sku);
+      if (!parsed!.ambiguous) {
+        expect(pick(parsed!.config), sku).toEqual(pick(config));
+      }
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore } from "zustand/vanilla";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const {
+  STORE_STORAGE_KEY,
+  STORE_VERSION,
+  migratePersistedState,
+  mergePersistedState,
+  partializeStore,
+  sanitizePersistedState,
+  subscribeToCrossTabSync,
+} = await import("@/store/persistence");
+const { validateCurrentSelections } = await import("@/services/selection-validator");
+import type { ConfiguratorStore, ProductConfig, ProductOptions, QuoteItem } from "@/store/types";
+
+const config = (overrides: Partial<ProductConfig> = {}): ProductConfig => ({
+  id: "config-1",
+  productLineId: 1,
+  productLineName: "Deco",
+  mirrorControls: "",
+  frameColor: "40",
+  frameThickness: "",
+  mirrorStyle: "2",
+  width: "24",
+  height: "36",
+  mounting: "",
+  hangingTechnique: "",
+  lighting: "20",
+  colorTemperature: "",
+  lightOutput: "",
+  driver: "30",
+  accessories: "",
+  quantity: 1,
+  ...overrides,
+});
+
+const line = (overrides: Partial<QuoteItem> = {}): QuoteItem => ({
+  id: "line-1",
+  sku: "T02d-2436-BK",
+  config: config(),
+  productLine: { id: 1, name: "Deco", sku_code: "T", active: true },
+  quantity: 2,
+  unitPrice: 450,
+  priceValidTo: null,
+  customSize: false,
+  note: "",
+  room: "Bathroom 2F",
+  addedAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const customerInfo = { name: "Ada", email: "ada@example.com", company: "", phone: "" };
+
+describe("store persistence", () => {
+  it("restores state written by the current version", () => {
+    const restored = migratePersistedState({ quoteItems: [line()], customerInfo }, STORE_VERSION);
+
+    expect(STORE_VERSION).toBe(1);
+    expect(restored.quoteItems).toEqual([line()]);
+    expect(restored.customerInfo).toEqual(customerInfo);
+  });
+
+  it("discards state written by a newer version", () => {
+    const restored = migratePersistedState({ quoteItems: [line()], customerInfo }, STORE_VERSION + 1);
+
+    expect(restored).toEqual({
+      quoteItems: [],
+      customerInfo: { name: "", email: "", company: "", phone: "" },
+      configuration: null,
+    });
+  });
+
+  it("drops malformed quote lines and fills missing fields", () => {
+    const restored = sanitizePersistedState({
+      quoteItems: [line(), { id: "broken" }, line({ id: "line-2", note: undefined as any, quantity: 500 })],
+      customerInfo: { name: "Ada", email: 42 },
+      configuration: { config: config({ frameColor: 41 as any }), productLineId: 1, useCustomSize: true },
+    });
+
+    expect(restored.quoteItems.map((item) => item.id)).toEqual(["line-1", "line-2"]);
+    expect(restored.quoteItems[1]).toMatchObject({ note: "", quantity: 100 });
+    expect(restored.customerInfo).toEqual({ name: "Ada", email: "", company: "", phone: "" });
+    expect(restored.configuration).toMatchObject({ productLineId: 1, useCustomSize: true, config: { frameColor: "41" } });
+  });
+
+  it("holds the restored configuration until it is applied", () => {
+    const current = {
+      quoteItems: [],
+      customerInfo: { name: "", email: "", company: "", phone: "" },
+      pendingConfigurationRestore: null,
+      currentConfig: config({ frameColor: "99" }),
+      currentProductLine: { id: 1, name: "Deco", sku_code: "T", active: true },
+      useCustomSize: false,
+    } as unknown as ConfiguratorStore;
+    const saved = { config: config(), productLineId: 1, useCustomSize: false };
+
+    const merged = mergePersistedState({ quoteItems: [line()], customerInfo, configuration: saved }, current);
+
+    expect(merged.currentConfig?.frameColor).toBe("99");
+    expect(merged.pendingConfigurationRestore).toEqual(saved);
+    expect(merged.quoteItems).toHaveLength(1);
+    // The defaults the configurator starts with must not overwrite the saved configuration
+    expect(partializeStore(merged).configuration).toEqual(saved);
+    expect(partializeStore({ ...merged, pendingConfigurationRestore: null }).configuration?.config.frameColor).toBe("99");
+  });
+
+  it("applies quote cart changes from other tabs", () => {
+    const store = createStore<ConfiguratorStore>(() => ({
+      quoteItems: [line()],
+      customerInfo,
+      editingQuoteItemId: "line-1",
+    }) as unknown as ConfiguratorStore);
+    const unsubscribe = subscribeToCrossTabSync(store);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const write = (state: unknown) =>
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: STORE_STORAGE_KEY, newValue: JSON.stringify({ state, version: STORE_VERSION }) }),
+      );
+
+    // Same cart, different configuration: nothing to apply
+    write({ quoteItems: [line()], customerInfo, configuration: null });
+    expect(listener).not.toHaveBeenCalled();
+
+    write({ quoteItems: [line({ id: "line-2" })], customerInfo, configuration: null });
+    expect(store.getState().quoteItems.map((item) => item.id)).toEqual(["line-2"]);
+    expect(store.getState().editingQuoteItemId).toBeNull();
+
+    unsubscribe();
+    write({ quoteItems: [], customerInfo, configuration: null });
+    expect(store.getState().quoteItems).toHaveLength(1);
+  });
+});
+
+describe("restored selection validation", () => {
+  const productOptions = {
+    mirrorControls: [],
+    frameColors: [
+      { id: 40, name: "Black", sku_code: "BK" },
+      { id: 41, name: "White", sku_code: "WH" },
+    ],
+    frameThickness: [],
+    mirrorStyles: [{ id: 2, name: "Oval", sku_code: "02" }],
+    mountingOptions: [],
+    lightingOptions: [{ id: 20, name: "Direct", sku_code: "d" }],
+    colorTemperatures: [],
+    lightOutputs: [],
+    drivers: [],
+    accessoryOptions: [],
+    sizes: [],
+  } as ProductOptions;
+  const productLine = { id: 1, name: "Deco", sku_code: "T", active: true };
+
+  it("replaces options that are no longer offered", async () => {
+    const result = await validateCurrentSelections(
+      config({ frameColor: "45", lighting: "21" }),
+      productLine,
+      { frame_colors: [40] },
+      { requireOffered: true, productOptions },
+    );
+
+    expect(result.invalidSelections.map(({ field, suggestedValue, reason }) => [field, suggestedValue, reason])).toEqual([
+      ["frameColor", "41", "unavailable"],
+      ["lighting", "20", "unavailable"],
+    ]);
+    expect(result.adjustedConfig).toMatchObject({ frameColor: "41", lighting: "20", driver: "30" });
+  });
+
+  it("only checks offered options when asked to", async () => {
+    const result = await validateCurrentSelections(config({ frameColor: "45" }), productLine, {}, { productOptions });
+
+    expect(result.isValid).toBe(true);
+  });
+});
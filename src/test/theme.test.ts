@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+
+const dealerThemes = vi.hoisted(() => new Map<string, unknown>());
+vi.mock("@/services/supabase", () => ({
+  supabase: {
+    from: () => {
+      let slug = "";
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          if (column === "slug") slug = String(value);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: dealerThemes.has(slug) ? { theme: dealerThemes.get(slug) } : null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  },
+}));
+
+const { DEFAULT_THEME, ThemeError, loadTheme, parseTheme, themeToCssVariables } = await import("@/services/theme");
+const { ThemeRoot } = await import("@/components/ThemeRoot");
+const { usePortalContainer } = await import("@/components/ui/portal-container");
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  dealerThemes.clear();
+  document.body.innerHTML = "";
+});
+
+describe("configurator theme", () => {
+  it("fills tokens a theme leaves out from the default", () => {
+    const theme = parseTheme({
+      name: "acme",
+      colors: { cta: "#2563eb", ctaHover: "rgb(29 78 216)" },
+      fonts: { heading: '"Playfair Display", serif' },
+      logoUrl: "/dealers/acme.svg",
+      ctaLabels: { addToQuote: "Add to Cart" },
+    });
+
+    expect(theme).toMatchObject({
+      name: "acme",
+      colors: { ...DEFAULT_THEME.colors, cta: "#2563eb", ctaHover: "rgb(29 78 216)" },
+      fonts: { body: DEFAULT_THEME.fonts.body, heading: '"Playfair Display", serif' },
+      logoUrl: "/dealers/acme.svg",
+      headerText: DEFAULT_THEME.headerText,
+      ctaLabels: { addToQuote: "Add to Cart" },
+    });
+    expect(themeToCssVariables(theme)).toMatchObject({
+      "--cta": "#2563eb",
+      "--cta-hover": "rgb(29 78 216)",
+      "--card": DEFAULT_THEME.colors.background,
+      "--radius": DEFAULT_THEME.radius,
+      "--font-heading": '"Playfair Display", serif',
+    });
+  });
+
+  it("rejects values that could inject CSS or script", () => {
+    expect(() =>
+      parseTheme({
+        colors: { primary: "red; background: url(https://evil.example/x.png)" },
+        radius: "calc(100vw)",
+        logoUrl: "javascript:alert(1)",
+      }),
+    ).toThrow(ThemeError);
+
+    expect(() => parseTheme({ colors: { primary: "url(x.png)" } })).toThrow("colors.primary: Not a CSS color");
+    expect(() => parseTheme({ logoUrl: "javascript:alert(1)" })).toThrow(
+      "logoUrl: Logo URL must be http(s) or relative",
+    );
+  });
+
+  it("loads themes from dealer records, theme files and inline JSON", async () => {
+    dealerThemes.set("acme-bath", { name: "acme-bath", headerText: "Acme Bath Mirrors" });
+    await expect(loadTheme("acme-bath")).resolves.toMatchObject({ headerText: "Acme Bath Mirrors" });
+
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify({ colors: { cta: "#16a34a" } }), { status: 200 }));
+    await expect(loadTheme("https://cdn.example/themes/green.json")).resolves.toMatchObject({
+      colors: { cta: "#16a34a" },
+    });
+    expect(fetchMock).toHaveBeenCalledWith("https://cdn.example/themes/green.json", expect.anything());
+
+    await expect(loadTheme('{ "radius": "0" }')).resolves.toMatchObject({ radius: "0" });
+  });
+
+  it("falls back to the default theme when a theme cannot be loaded", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(loadTheme(undefined)).resolves.toBe(DEFAULT_THEME);
+    await expect(loadTheme("unknown-dealer")).resolves.toBe(DEFAULT_THEME);
+    await expect(loadTheme('{ "colors": { "cta": "url(x)" } }')).resolves.toBe(DEFAULT_THEME);
+    expect(logged).toHaveBeenCalledTimes(2);
+  });
+
+  it("scopes variables to the configurator root and its overlay container", async () => {
+    const host = document.createElement("div");
+    document.body.appendChild(host);
+    const root = createRoot(host);
+    let overlayContainer: HTMLElement | null = null;
+    const Overlay = () => {
+      overlayContainer = usePortalContainer();
+      return null;
+    };
+
+    const render = (theme = DEFAULT_THEME) =>
+      act(async () => root.render(createElement(ThemeRoot, { theme, lang: "fr" }, createElement(Overlay))));
+
+    await render();
+    const themed = host.firstElementChild as HTMLElement;
+    expect(themed.classList.contains("mtx-theme")).toBe(true);
+    expect(themed.style.getPropertyValue("--cta")).toBe(DEFAULT_THEME.colors.cta);
+    expect(overlayContainer).not.toBeNull();
+    expect(overlayContainer!.parentElement).toBe(document.body);
+    expect(overlayContainer!.lang).toBe("fr");
+
+    // Switching themes at runtime updates both without a reload
+    await render(parseTheme({ name: "acme", colors: { cta: "#2563eb" } }));
+    expect(themed.style.getPropertyValue("--cta")).toBe("#2563eb");
+    expect(overlayContainer!.style.getPropertyValue("--cta")).toBe("#2563eb");
+    expect(overlayContainer!.dataset.theme).toBe("acme");
+
+    // Nothing is set on the host page
+    expect(document.documentElement.style.getPropertyValue("--cta")).toBe("");
+    expect(document.body.style.getPropertyValue("--cta")).toBe("");
+
+    const container = overlayContainer!;
+    await act(async () => root.unmount());
+    expect(container.isConnected).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/services/supabase", () => ({ supabase: {} }));
+
+const { convertLength, normalizeDimension, parseLength, sameDimension } = await import("@/services/units");
+const { buildSkuGrammar, formatSku } = await import("@/services/sku-grammar");
+const { createTranslator } = await import("@/i18n");
+const { describeConfiguration } = await import("@/services/quote-document");
+import type { ProductConfig } from "@/store/types";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseLength", () => {
+  it.each([
+    ["24", { value: 24, unit: "in" }],
+    ["24.25", { value: 24.25, unit: "in" }],
+    ['24 1/4"', { value: 24.25, unit: "in" }],
+    ["24-1/4 in", { value: 24.25, unit: "in" }],
+    ["24¼", { value: 24.25, unit: "in" }],
+    ["3/8", { value: 0.375, unit: "in" }],
+    ["616 mm", { value: 616, unit: "mm" }],
+    ["61,6cm", { value: 61.6, unit: "cm" }],
+    ["2 Inches", { value: 2, unit: "in" }],
+  ])("reads %s", (input, expected) => {
+    expect(parseLength(input)).toEqual(expected);
+  });
+
+  it("uses the default unit when none is written and rejects unreadable lengths", () => {
+    expect(parseLength("616", "mm")).toEqual({ value: 616, unit: "mm" });
+    expect(parseLength("24 in", "mm")).toEqual({ value: 24, unit: "in" });
+    for (const input of ["", "abc", "24 5/4", "1/0", "0", "-3", "24 ft"]) {
+      expect(parseLength(input)).toBeNull();
+    }
+  });
+});
+
+describe("normalizeDimension", () => {
+  it("converts to canonical inches rounded to the size increment", () => {
+    expect(convertLength(25.4, "mm", "in")).toBe(1);
+    expect(normalizeDimension("616 mm")).toBe("24.25");
+    expect(normalizeDimension("61.6", { unit: "cm" })).toBe("24.25");
+    expect(normalizeDimension("24.0")).toBe("24");
+    expect(normalizeDimension("24 1/8", { increment: 0.125 })).toBe("24.125");
+    expect(normalizeDimension("24 1/8", { increment: 0.5 })).toBe("24");
+    expect(normalizeDimension("wide")).toBeNull();
+  });
+
+  it("takes the increment from VITE_SIZE_INCREMENT", () => {
+    vi.stubEnv("VITE_SIZE_INCREMENT", "1");
+    expect(normalizeDimension("24 3/4")).toBe("25");
+
+    vi.stubEnv("VITE_SIZE_INCREMENT", "not a number");
+    expect(normalizeDimension("24 3/4")).toBe("24.75");
+  });
+
+  it("compares stored lengths by value", () => {
+    expect(sameDimension(24, "24.0")).toBe(true);
+    expect(sameDimension("24.25", "24 1/4")).toBe(true);
+    expect(sameDimension("24", "")).toBe(false);
+  });
+});
+
+describe("sizes in SKUs and documents", () => {
+  const skuOrder = [
+    { id: "p", order: 0, sku_code_item: "products" },
+    { id: "z", order: 1, sku_code_item: "sizes" },
+  ];
+
+  it("encodes custom sizes in canonical inches and matches presets by value", () => {
+    const grammar = buildSkuGrammar(skuOrder);
+    const sizes = [{ id: 1, name: "24 x 36", sku_code: "2436", width: 24, height: 36 }];
+
+    expect(formatSku(grammar, "T01", { width: "24.250", height: "44.0" }, { sizes: [] })).toBe("T01-24.2544");
+    expect(formatSku(grammar, "T01", { width: "24.0", height: "36" }, { sizes })).toBe("T01-2436");
+  });
+
+  it("shows sizes in the chosen unit", () => {
+    const en = createTranslator("en");
+    const config = { width: "24.25", height: "36" } as ProductConfig;
+
+    expect(en.formatSize("24.25", "36", "mm")).toBe("616 × 914 mm");
+    expect(createTranslator("fr").formatSize(24.25, 36, "cm")).toBe("61,6 × 91,4 cm");
+    expect(describeConfiguration(config, null, (width, height) => en.formatSize(width, height, "cm"))[0]).toEqual({
+      label: "Dimensions",
+      name: "61.6 × 91.4 cm",
+      skuCode: "",
+    });
+  });
+});
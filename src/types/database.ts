@@ -316,6 +316,36 @@ export type Database = {
         }
         Relationships: []
       }
+      dealer_themes: {
+        Row: {
+          active: boolean
+          created_at: string
+          dealer_name: string | null
+          id: number
+          slug: string
+          theme: Json
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          dealer_name?: string | null
+          id?: never
+          slug: string
+          theme?: Json
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          dealer_name?: string | null
+          id?: never
+          slug?: string
+          theme?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       diagnostic_results: {
         Row: {
           id: number
@@ -2747,10 +2777,12 @@ export type Database = {
           custom_details: string | null
           id: number
           is_custom: boolean | null
+          note: string | null
           price: number | null
           product_variant_id: string | null
           quantity: number | null
           quote_id: string | null
+          room: string | null
           sort: number | null
           webflow_id: string | null
         }
@@ -2758,10 +2790,12 @@ export type Database = {
           custom_details?: string | null
           id?: number
           is_custom?: boolean | null
+          note?: string | null
           price?: number | null
           product_variant_id?: string | null
           quantity?: number | null
           quote_id?: string | null
+          room?: string | null
           sort?: number | null
           webflow_id?: string | null
         }
@@ -2769,17 +2803,58 @@ export type Database = {
           custom_details?: string | null
           id?: number
           is_custom?: boolean | null
+          note?: string | null
           price?: number | null
           product_variant_id?: string | null
           quantity?: number | null
           quote_id?: string | null
+          room?: string | null
           sort?: number | null
           webflow_id?: string | null
         }
         Relationships: []
       }
+      quote_status_history: {
+        Row: {
+          actor: string
+          created_at: string
+          from_status: string | null
+          id: number
+          note: string | null
+          quote_id: number
+          to_status: string
+        }
+        Insert: {
+          actor: string
+          created_at?: string
+          from_status?: string | null
+          id?: never
+          note?: string | null
+          quote_id: number
+          to_status: string
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          from_status?: string | null
+          id?: never
+          note?: string | null
+          quote_id?: number
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_status_history_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quotes: {
         Row: {
+          customer_company: string | null
           customer_email: string | null
           customer_name: string | null
           customer_phone: string | null
@@ -2787,10 +2862,17 @@ export type Database = {
           date_updated: string | null
           id: number
           notes: string | null
+          project_name: string | null
+          quote_number: string | null
           status: string | null
+          status_changed_at: string | null
+          submission_key: string | null
+          total_price: number | null
+          valid_until: string | null
           webflow_id: string | null
         }
         Insert: {
+          customer_company?: string | null
           customer_email?: string | null
           customer_name?: string | null
           customer_phone?: string | null
@@ -2798,10 +2880,16 @@ export type Database = {
           date_updated?: string | null
           id?: number
           notes?: string | null
+          project_name?: string | null
           status?: string | null
+          status_changed_at?: string | null
+          submission_key?: string | null
+          total_price?: number | null
+          valid_until?: string | null
           webflow_id?: string | null
         }
         Update: {
+          customer_company?: string | null
           customer_email?: string | null
           customer_name?: string | null
           customer_phone?: string | null
@@ -2809,7 +2897,12 @@ export type Database = {
           date_updated?: string | null
           id?: number
           notes?: string | null
+          project_name?: string | null
           status?: string | null
+          status_changed_at?: string | null
+          submission_key?: string | null
+          total_price?: number | null
+          valid_until?: string | null
           webflow_id?: string | null
         }
         Relationships: []
@@ -2838,6 +2931,72 @@ export type Database = {
         }
         Relationships: []
       }
+      size_envelopes: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: number
+          increment: number | null
+          max_aspect_ratio: number | null
+          max_height: number | null
+          max_width: number | null
+          min_aspect_ratio: number | null
+          min_height: number | null
+          min_width: number | null
+          mirror_style: number | null
+          product_line: number
+          requirements: Json
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: never
+          increment?: number | null
+          max_aspect_ratio?: number | null
+          max_height?: number | null
+          max_width?: number | null
+          min_aspect_ratio?: number | null
+          min_height?: number | null
+          min_width?: number | null
+          mirror_style?: number | null
+          product_line: number
+          requirements?: Json
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: never
+          increment?: number | null
+          max_aspect_ratio?: number | null
+          max_height?: number | null
+          max_width?: number | null
+          min_aspect_ratio?: number | null
+          min_height?: number | null
+          min_width?: number | null
+          mirror_style?: number | null
+          product_line?: number
+          requirements?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "size_envelopes_mirror_style_fkey"
+            columns: ["mirror_style"]
+            isOneToOne: false
+            referencedRelation: "mirror_styles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "size_envelopes_product_line_fkey"
+            columns: ["product_line"]
+            isOneToOne: false
+            referencedRelation: "product_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sizes: {
         Row: {
           active: boolean | null
@@ -1,4 +1,9 @@
-import { COLLECTION_MAPPINGS, type CollectionKey, type ConfiguratorOption } from '../../types/database'
+import {
+  FACET_FIELDS,
+  computeFacets,
+  facetRecordsFromSkuIndex,
+  type FacetSelections
+} from '../../services/facet-engine'
 import type { Database } from '../../types/database'
 import type { ConfigurationState } from '../supabase/directClientSimplified'
 
@@ -7,7 +12,7 @@ export type SkuIndexRow = Database['public']['Tables']['sku_index']['Row']
 export interface FilterContext {
   productLineId: number
   skuRows: SkuIndexRow[]
-  optionMetadata: Record<CollectionKey, ConfiguratorOption[] | any[]>
+  optionMetadata: Record<string, any[]>
   totalSkus: number
 }
 
@@ -20,21 +25,25 @@ export interface FilterResult {
   availableProducts: any[]
 }
 
+// Selection keys (collection, `${collection}_id` or sku_index column) -> sku_index column
 const COLUMN_LOOKUP: Record<string, string> = (() => {
   const lookup: Record<string, string> = {
+    products: 'product_id',
     productId: 'product_id',
     product_id: 'product_id'
   }
 
-  Object.entries(COLLECTION_MAPPINGS).forEach(([collection, meta]) => {
-    lookup[collection] = meta.column
-    lookup[`${collection}_id`] = meta.column
-    lookup[meta.column] = meta.column
+  FACET_FIELDS.forEach(field => {
+    lookup[field.collection] = field.skuIndexColumn
+    lookup[`${field.collection}_id`] = field.skuIndexColumn
+    lookup[field.skuIndexColumn] = field.skuIndexColumn
   })
 
   return lookup
 })()
 
+const COLLECTION_BY_COLUMN = new Map(FACET_FIELDS.map(field => [field.skuIndexColumn as string, field.collection]))
+
 const normalizeSelections = (selections: ConfigurationState = {}): [string, number][] => {
   const entries: [string, number][] = []
 
@@ -67,70 +76,60 @@ const normalizeSelections = (selections: ConfigurationState = {}): [string, numb
   return entries
 }
 
-const buildOptionIdSets = (skuRows: SkuIndexRow[]) => {
-  const optionSets: Record<CollectionKey, Set<number>> = {} as any
-
-  Object.keys(COLLECTION_MAPPINGS).forEach(collection => {
-    optionSets[collection as CollectionKey] = new Set<number>()
-  })
-
-  skuRows.forEach(sku => {
-    Object.entries(COLLECTION_MAPPINGS).forEach(([collection, meta]) => {
-      const value = (sku as any)[meta.column]
-      if (typeof value === 'number' && !Number.isNaN(value)) {
-        optionSets[collection as CollectionKey].add(value)
-      }
-    })
-  })
-
-  return optionSets
-}
-
+/**
+ * Options left by the selections, faceted the same way as the configurator store
+ * (see availability-pipeline): a selected product scopes the SKUs, and every other
+ * selection narrows only the collections downstream of it
+ */
 export const filterOptions = (
   context: FilterContext,
   selections: ConfigurationState
 ): FilterResult => {
   const normalizedSelections = normalizeSelections(selections)
 
-  const activeSkus = normalizedSelections.length === 0
-    ? context.skuRows
-    : context.skuRows.filter(sku =>
-        normalizedSelections.every(([column, value]) => (sku as any)[column] === value)
-      )
+  const productSelection = normalizedSelections.find(([column]) => column === 'product_id')
+  const scopedSkus = productSelection
+    ? context.skuRows.filter(sku => sku.product_id === productSelection[1])
+    : context.skuRows
 
-  const optionSets = buildOptionIdSets(activeSkus)
+  const facetSelections: FacetSelections = {}
+  normalizedSelections.forEach(([column, value]) => {
+    const collection = COLLECTION_BY_COLUMN.get(column)
+    if (collection) {
+      facetSelections[collection] = [value]
+    }
+  })
+
+  const facets = computeFacets(facetRecordsFromSkuIndex(scopedSkus), facetSelections)
 
   const options: Record<string, any[]> = {}
 
-  Object.entries(COLLECTION_MAPPINGS).forEach(([collection]) => {
-    const ids = optionSets[collection as CollectionKey]
-    const metadata = context.optionMetadata[collection as CollectionKey] || []
+  FACET_FIELDS.forEach(({ collection }) => {
+    const counts = facets.collections[collection]?.counts ?? {}
+    const metadata = context.optionMetadata[collection] || []
 
-    if (!ids || ids.size === 0) {
-      options[collection] = []
-      return
-    }
-
-    const filteredOptions = Array.isArray(metadata)
-      ? metadata.filter(option => ids.has((option as any).id))
+    options[collection] = Array.isArray(metadata)
+      ? metadata.filter(option => counts[(option as any).id] > 0)
       : []
-
-    options[collection] = filteredOptions
   })
 
-  const productIds = optionSets.products || new Set<number>()
+  const activeSkus = normalizedSelections.length === 0
+    ? context.skuRows
+    : context.skuRows.filter(sku =>
+        normalizedSelections.every(([column, value]) => (sku as any)[column] === value)
+      )
+
+  const productIds = new Set(activeSkus.map(sku => sku.product_id))
   const productMetadata = context.optionMetadata.products || []
   const availableProducts = Array.isArray(productMetadata)
     ? productMetadata.filter(product => productIds.has(product.id))
     : []
 
-  const uniqueProductCount = availableProducts.length
-
   return {
     options,
     remainingSkus: activeSkus.length,
     totalSkus: context.totalSkus,
-    productCount: uniqueProductCount,
+    productCount: availableProducts.length,
     matchingSkus: activeSkus,
     availableProducts
   }
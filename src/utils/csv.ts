@@ -0,0 +1,85 @@
+/**
+ * CSV Utilities
+ * Minimal RFC 4180 reading and writing for the quote import/export paths
+ */
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Undo the quote escapeCsvCell puts in front of formula-like text
+const unescapeFormula = (text: string): string =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+/**
+ * Split one CSV line into cells, honouring double-quoted cells. Unquoted cells are
+ * trimmed; quoted ones keep their whitespace.
+ */
+export function splitCsvLine(line: string, delimiter: string = ','): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  let cellQuoted = false;
+
+  const pushCell = () => {
+    cells.push(unescapeFormula(cellQuoted ? current : current.trim()));
+    current = '';
+    cellQuoted = false;
+  };
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else {
+        // Whitespace before the opening quote is not part of the cell
+        if (!quoted && !cellQuoted && current.trim() === '') current = '';
+        cellQuoted = true;
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      pushCell();
+    } else if (quoted || !cellQuoted || char.trim() !== '') {
+      // Whitespace after the closing quote is dropped too
+      current += char;
+    }
+  }
+  pushCell();
+  return cells;
+}
+
+/**
+ * Split CSV text into lines, keeping line breaks that sit inside quoted cells
+ */
+export function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') quoted = !quoted;
+
+    if (!quoted && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  records.push(current);
+  return records;
+}
+
+// Free text that looks like a formula is prefixed with ' so spreadsheets show it as text
+function escapeCsvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(cells: Array<string | number | boolean | null | undefined>): string {
+  return cells.map(escapeCsvCell).join(',');
+}
@@ -185,6 +185,35 @@ export function validateEnvironment(): boolean {
   return true;
 }
 
+/**
+ * Host origins allowed to drive the iframe embed (embed.html), from a comma-separated
+ * VITE_EMBED_ALLOWED_ORIGINS; defaults to this app's own origin
+ */
+export function getEmbedAllowedOrigins(): string[] {
+  const configured = (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map((origin: string) => origin.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [window.location.origin];
+}
+
+/**
+ * Theme the configurator loads when the page does not pick one: a theme JSON URL or a
+ * dealer slug from VITE_THEME (see services/theme.ts)
+ */
+export function getDefaultThemeSource(): string | undefined {
+  return import.meta.env.VITE_THEME || undefined;
+}
+
+/**
+ * Step, in inches, custom sizes are rounded to from VITE_SIZE_INCREMENT (e.g. 0.125);
+ * undefined when unset or not a positive number (see services/units.ts)
+ */
+export function getSizeIncrement(): number | undefined {
+  const increment = Number(import.meta.env.VITE_SIZE_INCREMENT);
+  return increment > 0 ? increment : undefined;
+}
+
 /**
  * Get environment-specific feature flags
  */
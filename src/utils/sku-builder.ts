@@ -1,4 +1,11 @@
 import { ProductLine } from '../services/supabase';
+import {
+  buildSkuGrammar,
+  formatSku,
+  renderSkuSegments,
+  type FormatSkuOptions,
+  type SkuGrammar,
+} from '../services/sku-grammar';
 
 // Minimal shape we need from App's types
 export interface SimpleOption { id: number; name: string; sku_code: string; width?: number; height?: number }
@@ -52,98 +59,57 @@ export interface SkuOverrides {
   frameColorSkuOverride?: string;
 }
 
-function findById(options: SimpleOption[], idStr?: string): SimpleOption | undefined {
-  if (!idStr) return undefined;
-  const id = parseInt(idStr, 10);
-  if (!Number.isFinite(id)) return undefined;
-  return options.find(o => o.id === id);
-}
-
-function getSizeSkuCode(opts: SimpleOption[], width: string, height: string): string | undefined {
-  if (!width || !height) return undefined;
-  const w = Number(width), h = Number(height);
-  if (!Number.isFinite(w) || !Number.isFinite(h)) return undefined;
-  const preset = opts.find(s => (s.width ? Number(s.width) : NaN) === w && (s.height ? Number(s.height) : NaN) === h);
-
-  // If preset found, use its SKU code
-  if (preset?.sku_code) {
-    return preset.sku_code;
-  }
-
-  // Generate custom size SKU code: width and height concatenated (e.g., 24.25 x 44 → "24.2544")
-  return `${width}${height}`;
-}
-
-// Builds the full, human-readable SKU string per template
+// The display SKU template, expressed as a grammar so it is parsed with the same rules:
 // {product_line}{mirror_style}{light_direction}-{size}-{light_output}-{color_temperature}-{driver}-{mounting_option}-{hanging_teqnique}-{frame_color}-{accessories}
 // Unknown/unavailable sets are omitted.
+export const FULL_SKU_GRAMMAR: SkuGrammar = buildSkuGrammar(
+  [
+    'mirror_styles',
+    'light_directions',
+    'sizes',
+    'light_outputs',
+    'color_temperatures',
+    'drivers',
+    'mounting_options',
+    'hanging_techniques',
+    'frame_colors',
+    'accessories',
+  ].map((table, index) => ({ id: table, order: index + 1, sku_code_item: table })),
+  [
+    { attribute_code: 'mirror_styles', rule_order: 1, separator: '', sku_segment_template: null, is_active: true },
+    { attribute_code: 'light_directions', rule_order: 2, separator: '', sku_segment_template: null, is_active: true },
+  ]
+);
+
+// Builds the full, human-readable SKU string from the product line code and a grammar
+// (FULL_SKU_GRAMMAR unless the loaded sku_code_order grammar is passed in).
+// parts holds the base and each rendered segment keyed by table name.
 export function buildFullSku(
   config: CurrentConfigLike,
   options: SimpleOptions,
   productLine: ProductLine | null,
-  overrides?: SkuOverrides
+  overrides?: SkuOverrides,
+  grammar: SkuGrammar = FULL_SKU_GRAMMAR
 ): BuildSkuResult {
+  const base = overrides?.productLineSkuOverride || productLine?.sku_code || '';
+  const formatOptions: FormatSkuOptions = {
+    codeOverrides: {
+      mirror_styles: overrides?.mirrorStyleSkuOverride,
+      light_directions: overrides?.lightDirectionSkuOverride,
+      sizes: overrides?.sizeSkuOverride,
+      light_outputs: overrides?.lightOutputSkuOverride,
+      color_temperatures: overrides?.colorTemperatureSkuOverride,
+      drivers: overrides?.driverSkuOverride,
+      mounting_options: overrides?.mountingSkuOverride,
+      frame_colors: overrides?.frameColorSkuOverride,
+    },
+    fallbackCodes: { accessories: overrides?.accessoryFallback },
+  };
+
+  const segments = renderSkuSegments(grammar, config, options, formatOptions);
   const parts: Record<string, string> = {};
+  if (base) parts.base = base;
+  for (const segment of segments) parts[segment.table] = segment.code;
 
-  // product line + core
-  const pl = overrides?.productLineSkuOverride || productLine?.sku_code || '';
-  const mirrorStyle = overrides?.mirrorStyleSkuOverride || findById(options.mirrorStyles, config.mirrorStyle)?.sku_code || '';
-  const lightDir = overrides?.lightDirectionSkuOverride || findById(options.lightingOptions, config.lighting)?.sku_code || '';
-  const core = [pl, mirrorStyle, lightDir].join('');
-  if (core) parts.core = core;
-
-  // size from preset if available
-  const sizeCode = overrides?.sizeSkuOverride || getSizeSkuCode(options.sizes, config.width, config.height);
-  if (sizeCode) parts.size = sizeCode;
-
-  const lightOutput = overrides?.lightOutputSkuOverride || findById(options.lightOutputs, config.lightOutput)?.sku_code;
-  if (lightOutput) parts.light_output = lightOutput;
-
-  const colorTemp = overrides?.colorTemperatureSkuOverride || findById(options.colorTemperatures, config.colorTemperature)?.sku_code;
-  if (colorTemp) parts.color_temperature = colorTemp;
-
-  const driver = overrides?.driverSkuOverride || findById(options.drivers, config.driver)?.sku_code;
-  if (driver) parts.driver = driver;
-
-  const mounting = overrides?.mountingSkuOverride || findById(options.mountingOptions, config.mounting)?.sku_code;
-  if (mounting) parts.mounting_option = mounting;
-
-  // No dedicated hanging technique collection in current schema; omit unless later added
-  // const hanging = ...
-
-  const frameColor = overrides?.frameColorSkuOverride || findById(options.frameColors, config.frameColor)?.sku_code;
-  if (frameColor) parts.frame_color = frameColor;
-
-  // accessories: join multiple by '+' inside the segment, but omit segment entirely if none
-  if (Array.isArray(config.accessories) && config.accessories.length > 0) {
-    const codes: string[] = [];
-    for (const idStr of config.accessories) {
-      const id = parseInt(idStr, 10);
-      const found = options.accessoryOptions.find(a => a.id === id)?.sku_code;
-      if (found) codes.push(found);
-    }
-    if (codes.length > 0) parts.accessories = codes.join('+');
-  } else if (overrides?.accessoryFallback) {
-    parts.accessories = overrides.accessoryFallback;
-  }
-
-  // Assemble with '-' between optional segments, but only include present ones
-  const ordered: Array<keyof typeof parts> = [
-    'core',
-    'size',
-    'light_output',
-    'color_temperature',
-    'driver',
-    'mounting_option',
-    // 'hanging_teqnique', // reserved
-    'frame_color',
-    'accessories',
-  ];
-
-  const sku = ordered
-    .map(k => parts[k])
-    .filter(Boolean)
-    .join('-');
-
-  return { sku, parts };
+  return { sku: formatSku(grammar, base, config, options, formatOptions), parts };
 }
@@ -1,5 +1,6 @@
 import { projectId, publicAnonKey } from './info';
 import { simplifiedDirectSupabaseClient } from './directClientSimplified';
+import { fetchQuote, submitQuote, type QuoteSubmission } from '../../services/quote-submission';
 
 const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-8bb96920`;
 
@@ -48,17 +49,13 @@ class SupabaseClient {
   }
 
   // Quote management
-  async createQuote(quoteItems: QuoteItem[], customerInfo: CustomerInfo) {
-    console.log('Creating quote with items:', quoteItems, 'and customer info:', customerInfo);
-    
-    return this.request<ApiResponse<{ quoteId: string; quote: any }>>('/quotes', {
-      method: 'POST',
-      body: JSON.stringify({ quoteItems, customerInfo }),
-    });
+  async createQuote(submission: QuoteSubmission) {
+    console.log('Creating quote with items:', submission.quoteItems, 'and customer info:', submission.customerInfo);
+    return submitQuote(submission);
   }
 
-  async getQuote(quoteId: string) {
-    return this.request<ApiResponse<{ quote: any }>>(`/quotes/${quoteId}`);
+  async getQuote(quoteId: number | string, accessToken: string) {
+    return { quote: await fetchQuote(quoteId, accessToken) };
   }
 
   async getAllQuotes() {
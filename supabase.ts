@@ -105,6 +105,51 @@ export type Database = {
         }
         Relationships: []
       }
+      configuration_pricing: {
+        Row: {
+          conditions: Json | null
+          created_at: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          is_active: boolean | null
+          price_modifier: Json
+          pricing_type: string
+          priority: number | null
+          updated_at: string | null
+          valid_from: string | null
+          valid_to: string | null
+        }
+        Insert: {
+          conditions?: Json | null
+          created_at?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          is_active?: boolean | null
+          price_modifier: Json
+          pricing_type: string
+          priority?: number | null
+          updated_at?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+        }
+        Update: {
+          conditions?: Json | null
+          created_at?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          is_active?: boolean | null
+          price_modifier?: Json
+          pricing_type?: string
+          priority?: number | null
+          updated_at?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+        }
+        Relationships: []
+      }
       configuration_ui: {
         Row: {
           collection: string | null
@@ -129,6 +174,36 @@ export type Database = {
         }
         Relationships: []
       }
+      dealer_themes: {
+        Row: {
+          active: boolean
+          created_at: string
+          dealer_name: string | null
+          id: number
+          slug: string
+          theme: Json
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          dealer_name?: string | null
+          id?: never
+          slug: string
+          theme?: Json
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          dealer_name?: string | null
+          id?: never
+          slug?: string
+          theme?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       directus_access: {
         Row: {
           id: string
@@ -2341,6 +2416,72 @@ export type Database = {
           },
         ]
       }
+      size_envelopes: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: number
+          increment: number | null
+          max_aspect_ratio: number | null
+          max_height: number | null
+          max_width: number | null
+          min_aspect_ratio: number | null
+          min_height: number | null
+          min_width: number | null
+          mirror_style: number | null
+          product_line: number
+          requirements: Json
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: never
+          increment?: number | null
+          max_aspect_ratio?: number | null
+          max_height?: number | null
+          max_width?: number | null
+          min_aspect_ratio?: number | null
+          min_height?: number | null
+          min_width?: number | null
+          mirror_style?: number | null
+          product_line: number
+          requirements?: Json
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: never
+          increment?: number | null
+          max_aspect_ratio?: number | null
+          max_height?: number | null
+          max_width?: number | null
+          min_aspect_ratio?: number | null
+          min_height?: number | null
+          min_width?: number | null
+          mirror_style?: number | null
+          product_line?: number
+          requirements?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "size_envelopes_mirror_style_fkey"
+            columns: ["mirror_style"]
+            isOneToOne: false
+            referencedRelation: "mirror_styles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "size_envelopes_product_line_fkey"
+            columns: ["product_line"]
+            isOneToOne: false
+            referencedRelation: "product_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sizes: {
         Row: {
           active: boolean | null
@@ -0,0 +1,25 @@
+-- Quote submission columns
+-- The edge function's /quotes routes now write quotes and quote_items rows instead of
+-- kv_store_8bb96920 entries. This migration:
+-- 1. Adds a human-facing quote number derived from the row id (Q-000123)
+-- 2. Adds a unique submission key so retried submissions resolve to the same quote
+-- 3. Stores the company, project and total price snapshot with the quote
+-- 4. Indexes quote_items by quote for reloading a quote with its lines
+
+alter table quotes
+  add column if not exists quote_number text
+    generated always as ('Q-' || lpad(id::text, 6, '0')) stored,
+  add column if not exists submission_key text,
+  add column if not exists customer_company text,
+  add column if not exists project_name text,
+  add column if not exists total_price numeric;
+
+create unique index if not exists quotes_quote_number_key on quotes (quote_number);
+create unique index if not exists quotes_submission_key_key on quotes (submission_key);
+
+create index if not exists quote_items_quote_id_idx on quote_items (quote_id);
+
+comment on column quotes.submission_key is 'Client-generated key; a retried submission with the same key returns the existing quote';
+comment on column quote_items.product_variant_id is 'SKU of the configured product';
+comment on column quote_items.custom_details is 'JSON snapshot of the submitted configuration';
+comment on column quote_items.price is 'Unit price snapshot taken when the item was added to the quote';
@@ -0,0 +1,46 @@
+-- Quote lifecycle
+-- Replaces the free-text quotes.status with the states enforced by the edge function
+-- (see src/supabase/functions/server/quote_lifecycle.tsx). This migration:
+-- 1. Maps the legacy 'pending' status to 'submitted'
+-- 2. Constrains quotes.status to the lifecycle states
+-- 3. Adds the pricing validity window used for auto-expiry and the last status change time
+-- 4. Creates quote_status_history, one row per status change with its actor
+
+update quotes set status = 'submitted' where status = 'pending' or status is null;
+
+alter table quotes
+  alter column status set default 'submitted',
+  add column if not exists status_changed_at timestamptz,
+  add column if not exists valid_until timestamptz;
+
+update quotes set status_changed_at = coalesce(date_updated::timestamptz, date_created::timestamptz)
+where status_changed_at is null;
+
+-- not valid: rows carrying other legacy statuses are left alone; the edge function
+-- refuses to transition them until they are corrected
+alter table quotes
+  add constraint quotes_status_check check (
+    status in ('draft', 'submitted', 'under_review', 'priced', 'sent', 'accepted', 'rejected', 'expired')
+  ) not valid;
+
+create index if not exists quotes_expiry_idx on quotes (valid_until)
+  where status in ('submitted', 'under_review', 'priced', 'sent');
+
+create table if not exists quote_status_history (
+  id bigint generated always as identity primary key,
+  quote_id integer not null references quotes (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor text not null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quote_status_history_quote_id_idx on quote_status_history (quote_id, created_at);
+
+-- Existing quotes start their audit trail at their current status
+insert into quote_status_history (quote_id, from_status, to_status, actor, note, created_at)
+select q.id, null, q.status, 'migration', 'Status before lifecycle tracking',
+       coalesce(q.status_changed_at, now())
+from quotes q
+where not exists (select 1 from quote_status_history h where h.quote_id = q.id);
@@ -0,0 +1,7 @@
+-- Quote item notes and room tags
+-- Quote cart lines carry a free-text note and a room tag (e.g. "Bathroom 2F") that are
+-- submitted with each quote_items row.
+
+alter table quote_items
+  add column if not exists note text,
+  add column if not exists room text;
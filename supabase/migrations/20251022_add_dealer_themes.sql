@@ -0,0 +1,22 @@
+-- Dealer themes
+-- White-label theme per dealer, loaded by the configurator at init when it is given a
+-- dealer slug (<mtx-configurator theme="acme-bath">, embed.html?theme=acme-bath).
+-- `theme` holds the same JSON as a theme file (see src/services/theme.ts); tokens left
+-- out fall back to the default theme.
+
+create table if not exists dealer_themes (
+  id bigint generated always as identity primary key,
+  slug text not null unique,
+  dealer_name text,
+  theme jsonb not null default '{}'::jsonb,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table dealer_themes enable row level security;
+
+-- Themes are public branding; writes go through the service role
+create policy "Active dealer themes are readable"
+  on dealer_themes for select
+  using (active);
@@ -0,0 +1,36 @@
+-- Size envelopes
+-- Limits on custom width/height per product line, optionally narrowed for one mirror
+-- style (mirror_style null = every style in the line). A style row overrides the line
+-- row column by column; null columns inherit. Dimensions are inches, aspect ratios are
+-- width / height, and `increment` is the custom size step.
+--
+-- `requirements` lists size-dependent rules, evaluated with the same conditions as
+-- rules.if_this (see src/services/size-envelope.ts), e.g. a larger driver above 60":
+--   [{"dimension": "width", "above": 60, "requires": {"driver": {"_eq": 3}}}]
+
+create table if not exists size_envelopes (
+  id bigint generated always as identity primary key,
+  product_line integer not null references product_lines (id) on delete cascade,
+  mirror_style integer references mirror_styles (id) on delete cascade,
+  min_width numeric,
+  max_width numeric,
+  min_height numeric,
+  max_height numeric,
+  min_aspect_ratio numeric,
+  max_aspect_ratio numeric,
+  increment numeric,
+  requirements jsonb not null default '[]'::jsonb,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (product_line, mirror_style)
+);
+
+create index if not exists size_envelopes_product_line_idx on size_envelopes (product_line);
+
+alter table size_envelopes enable row level security;
+
+-- Envelopes are catalog data; writes go through the service role
+create policy "Active size envelopes are readable"
+  on size_envelopes for select
+  using (active);
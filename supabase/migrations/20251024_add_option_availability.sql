@@ -0,0 +1,342 @@
+-- Option availability
+-- get_option_availability is the database side of the app's availability pipeline
+-- (src/services/availability-pipeline.ts) and implements its first three stages with the
+-- same semantics; the availability conformance tests run one fixture through both.
+--
+-- 1. Line defaults: the options product_lines_default_options lists for the line
+-- 2. Product overrides: one record per sku_index row of the line's active products, or,
+--    when there are none, one per active product: the line defaults with the product's
+--    products_options_overrides applied (per collection), and its own mirror_style /
+--    frame_thickness / light_direction columns taking precedence
+-- 3. Facets: each collection is narrowed by the selections of the faceted collections
+--    before it (p_order first, then the default order); options no remaining record
+--    offers are disabled, except mirror styles. Counts are distinct products.
+--
+-- Rule and size constraints (stages 4 and 5) are not applied here: an option a rule or
+-- a size envelope rules out still comes back 'available'. Rule conditions are evaluated
+-- by the app's rules engine (src/services/rule-compiler.ts) and have no SQL counterpart,
+-- so the conformance tests only compare cases without rules, and callers that need the
+-- final availability run the app pipeline. p_selections maps collections to selected
+-- option ids, e.g.
+--   {"mirror_styles": [2], "accessories": [7, 8]}
+--
+-- get_dynamic_options_with_ui is rebuilt on top of it. Its per-collection queries
+-- covered products, sizes and frame colors only and narrowed every collection by every
+-- other selection; it now returns every option collection in configuration_ui. Products
+-- are returned as before: every product, 'available' with the number of the line's
+-- sku_index rows matching the selections, or 'hidden' when none match.
+
+create or replace function get_option_availability(
+  p_product_line_id integer,
+  p_selections jsonb default '{}'::jsonb,
+  p_order text[] default null
+)
+returns table (
+  collection_name text,
+  option_id integer,
+  availability_state text, -- 'available', 'disabled'
+  product_count integer    -- products offering the option under the upstream selections; null when the collection is not faceted
+)
+language sql
+stable
+as $$
+  with facet_fields (collection, position) as (
+    values
+      ('mirror_styles', 1), ('frame_thicknesses', 2), ('light_directions', 3),
+      ('frame_colors', 4), ('mounting_options', 5), ('hanging_techniques', 6),
+      ('color_temperatures', 7), ('light_outputs', 8), ('drivers', 9),
+      ('sizes', 10), ('accessories', 11)
+  ),
+  line_products as (
+    select
+      p.id,
+      p.mirror_style,
+      p.light_direction,
+      -- frame_thickness holds an id or a {"key": id} relation
+      case
+        when jsonb_typeof(p.frame_thickness) = 'number' then (p.frame_thickness #>> '{}')::integer
+        when jsonb_typeof(p.frame_thickness -> 'key') = 'number' then (p.frame_thickness ->> 'key')::integer
+      end as frame_thickness
+    from products p
+    where p.product_line = p_product_line_id
+      and p.active is true
+  ),
+  assignments as (
+    select
+      'default'::text as source,
+      null::integer as product_id,
+      case lower(d.collection) when 'hanging_techiques' then 'hanging_techniques' else lower(d.collection) end as collection,
+      d.item::integer as option_id
+    from product_lines_default_options d
+    where d.product_lines_id = p_product_line_id
+      and d.item ~ '^[0-9]+$'
+    union all
+    select
+      'override',
+      o.products_id,
+      case lower(o.collection) when 'hanging_techiques' then 'hanging_techniques' else lower(o.collection) end,
+      o.item::integer
+    from products_options_overrides o
+    join line_products p on p.id = o.products_id
+    where o.item ~ '^[0-9]+$'
+  ),
+  -- Stage 1
+  line_options as (
+    select distinct a.collection, a.option_id
+    from assignments a
+    join facet_fields f on f.collection = a.collection
+    where a.source = 'default'
+  ),
+  -- Stage 2
+  line_skus as (
+    select si.*
+    from sku_index si
+    join line_products p on p.id = si.product_id
+    where si.product_line_id = p_product_line_id
+  ),
+  sku_records as (
+    select si.id::bigint as record_id, si.product_id, v.collection, v.option_id
+    from line_skus si
+    cross join lateral (
+      values
+        ('mirror_styles', si.mirror_style_id), ('frame_thicknesses', si.frame_thickness_id),
+        ('light_directions', si.light_direction_id), ('frame_colors', si.frame_color_id),
+        ('mounting_options', si.mounting_option_id), ('hanging_techniques', si.hanging_technique_id),
+        ('color_temperatures', si.color_temperature_id), ('light_outputs', si.light_output_id),
+        ('drivers', si.driver_id), ('sizes', si.size_id), ('accessories', si.accessory_id)
+    ) as v (collection, option_id)
+    where v.option_id is not null
+  ),
+  product_columns as (
+    select p.id as product_id, v.collection, v.option_id
+    from line_products p
+    cross join lateral (
+      values
+        ('mirror_styles', p.mirror_style), ('frame_thicknesses', p.frame_thickness),
+        ('light_directions', p.light_direction)
+    ) as v (collection, option_id)
+    where v.option_id is not null
+  ),
+  product_assignments as (
+    -- A collection with overrides replaces the line defaults for that product
+    select p.id as product_id, d.collection, d.option_id
+    from line_products p
+    cross join assignments d
+    where d.source = 'default'
+      and not exists (
+        select 1 from assignments o
+        where o.source = 'override' and o.product_id = p.id and o.collection = d.collection
+      )
+    union all
+    select o.product_id, o.collection, o.option_id
+    from assignments o
+    where o.source = 'override'
+  ),
+  product_records as (
+    select a.product_id::bigint as record_id, a.product_id, a.collection, a.option_id
+    from product_assignments a
+    join facet_fields f on f.collection = a.collection
+    where not exists (
+      select 1 from product_columns c
+      where c.product_id = a.product_id and c.collection = a.collection
+    )
+    union all
+    select c.product_id::bigint, c.product_id, c.collection, c.option_id
+    from product_columns c
+  ),
+  records as (
+    select * from sku_records
+    union all
+    select * from product_records where not exists (select 1 from line_skus)
+  ),
+  -- Stage 3
+  faceted as (
+    select
+      f.collection,
+      row_number() over (order by array_position(p_order, f.collection) nulls last, f.position) as rank
+    from facet_fields f
+    where exists (select 1 from records r where r.collection = f.collection)
+  ),
+  selections as (
+    select s.key as collection, v.option_id::integer as option_id
+    from jsonb_each(p_selections) s
+    cross join lateral jsonb_array_elements_text(
+      case jsonb_typeof(s.value) when 'array' then s.value else jsonb_build_array(s.value) end
+    ) as v (option_id)
+  ),
+  -- Records failing a faceted collection's selection
+  excluded as (
+    select distinct r.record_id, s.collection
+    from (select distinct record_id from records) r
+    cross join selections s
+    join faceted f on f.collection = s.collection
+    where not exists (
+      select 1 from records o
+      where o.record_id = r.record_id and o.collection = s.collection and o.option_id = s.option_id
+    )
+  ),
+  counts as (
+    select f.collection, r.option_id, count(distinct r.product_id)::integer as product_count
+    from faceted f
+    join records r on r.collection = f.collection
+    where not exists (
+      select 1
+      from excluded e
+      join faceted u on u.collection = e.collection
+      where e.record_id = r.record_id and u.rank < f.rank
+    )
+    group by f.collection, r.option_id
+  )
+  select
+    l.collection,
+    l.option_id,
+    case
+      when f.collection is not null and l.collection <> 'mirror_styles' and c.product_count is null then 'disabled'
+      else 'available'
+    end,
+    case when f.collection is null then null else coalesce(c.product_count, 0) end
+  from line_options l
+  left join faceted f on f.collection = l.collection
+  left join counts c on c.collection = l.collection and c.option_id = l.option_id
+  order by l.collection, l.option_id;
+$$;
+
+-- The return columns are unchanged; sku_count now holds the product count
+create or replace function get_dynamic_options_with_ui(
+  p_product_line_id integer,
+  p_current_selections jsonb default '{}'::jsonb
+)
+returns table (
+  collection_name text,
+  option_id integer,
+  option_name text,
+  option_sku_code text,
+  option_metadata jsonb,
+  availability_state text, -- 'available', 'disabled', 'hidden' (products)
+  sku_count integer,       -- products offering the option under the upstream selections; matching sku_index rows for products
+  is_forced boolean,       -- true if this is the only available option for this collection
+  selection_priority integer, -- lower number = higher priority for selection
+  ui_type text,
+  ui_sort integer,
+  ui_id text
+)
+language plpgsql
+stable
+as $$
+declare
+  rec record;
+  v_order text[];
+  v_selections jsonb;
+begin
+  select array_agg(cui.collection order by cui.sort asc nulls last)
+  into v_order
+  from configuration_ui cui;
+
+  -- Accept the legacy `<column>_id` keys alongside collection names
+  select coalesce(jsonb_object_agg(coalesce(m.collection, s.key), s.value), '{}'::jsonb)
+  into v_selections
+  from jsonb_each(p_current_selections) s
+  left join (
+    values
+      ('mirror_style_id', 'mirror_styles'), ('frame_thickness_id', 'frame_thicknesses'),
+      ('light_direction_id', 'light_directions'), ('frame_color_id', 'frame_colors'),
+      ('mounting_option_id', 'mounting_options'), ('hanging_technique_id', 'hanging_techniques'),
+      ('color_temperature_id', 'color_temperatures'), ('light_output_id', 'light_outputs'),
+      ('driver_id', 'drivers'), ('size_id', 'sizes'), ('accessory_id', 'accessories')
+  ) as m (key, collection) on m.key = s.key;
+
+  for rec in
+    select cui.collection, cui.ui_type, cui.sort, cui.id
+    from configuration_ui cui
+    where cui.collection in (
+      'products', 'mirror_styles', 'frame_thicknesses', 'light_directions', 'frame_colors',
+      'mounting_options', 'hanging_techniques', 'color_temperatures', 'light_outputs',
+      'drivers', 'sizes', 'accessories'
+    )
+    order by cui.sort asc nulls last
+  loop
+    if rec.collection = 'products' then
+      -- A product's sku_index rows of the line match when every selected collection has
+      -- one of its selected ids
+      return query
+      with matching as (
+        select si.product_id, count(*)::integer as cnt
+        from sku_index si
+        cross join lateral (
+          select jsonb_build_object(
+            'mirror_styles', si.mirror_style_id, 'frame_thicknesses', si.frame_thickness_id,
+            'light_directions', si.light_direction_id, 'frame_colors', si.frame_color_id,
+            'mounting_options', si.mounting_option_id, 'hanging_techniques', si.hanging_technique_id,
+            'color_temperatures', si.color_temperature_id, 'light_outputs', si.light_output_id,
+            'drivers', si.driver_id, 'sizes', si.size_id, 'accessories', si.accessory_id
+          ) as ids
+        ) r
+        where si.product_line_id = p_product_line_id
+          and not exists (
+            select 1
+            from jsonb_each(v_selections) s
+            where r.ids ? s.key
+              and not exists (
+                select 1
+                from jsonb_array_elements_text(
+                  case jsonb_typeof(s.value) when 'array' then s.value else jsonb_build_array(s.value) end
+                ) as v (option_id)
+                where v.option_id = r.ids ->> s.key
+              )
+          )
+        group by si.product_id
+      )
+      select
+        'products'::text,
+        p.id,
+        p.name::text,
+        p.sku_code::text,
+        jsonb_build_object(
+          'active', p.active,
+          'sort', p.sort,
+          'description', coalesce(p.description, ''),
+          'product_line', p.product_line
+        ),
+        case when m.cnt > 0 then 'available' else 'hidden' end::text,
+        coalesce(m.cnt, 0),
+        (select count(*) from matching) = 1,
+        coalesce(p.sort, 999)::integer,
+        rec.ui_type::text,
+        rec.sort::integer,
+        rec.id::text
+      from products p
+      left join matching m on m.product_id = p.id;
+      continue;
+    end if;
+
+    return query execute format(
+      $query$
+        select
+          a.collection_name,
+          a.option_id,
+          o.name::text,
+          o.sku_code::text,
+          to_jsonb(o) - 'id' - 'name' - 'sku_code',
+          a.availability_state,
+          coalesce(a.product_count, 0),
+          count(*) filter (where a.availability_state = 'available') over () = 1,
+          coalesce((to_jsonb(o) ->> 'sort')::integer, 999),
+          $1::text,
+          $2::integer,
+          $3::text
+        from get_option_availability($4, $5, $6) a
+        join %I o on o.id = a.option_id
+        where a.collection_name = $7
+      $query$,
+      rec.collection
+    )
+    using rec.ui_type, rec.sort, rec.id::text, p_product_line_id, v_selections, v_order, rec.collection;
+  end loop;
+end;
+$$;
+
+comment on function get_option_availability(integer, jsonb, text[]) is
+'Stages 1-3 of the app availability pipeline (line defaults, product overrides, facets): state and product count for every option the product line offers.';
+
+comment on function get_dynamic_options_with_ui(integer, jsonb) is
+'Options from get_option_availability with their option rows and configuration_ui information, in configuration_ui order.';
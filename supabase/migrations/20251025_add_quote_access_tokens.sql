@@ -0,0 +1,12 @@
+-- Quote access tokens
+-- GET /quotes/:id used to return any quote, customer details included, to anyone who
+-- guessed its sequential id. This migration:
+-- 1. Gives every quote an unguessable access token, returned to the submitter by POST /quotes
+-- 2. Indexes it; the edge function only returns a quote for its token or to staff
+
+alter table quotes
+  add column if not exists access_token uuid not null default gen_random_uuid();
+
+create unique index if not exists quotes_access_token_key on quotes (access_token);
+
+comment on column quotes.access_token is 'Secret returned at submission; required to read the quote without a staff session';
@@ -38,6 +38,11 @@ export default {
   				DEFAULT: 'var(--destructive)',
   				foreground: 'var(--destructive-foreground)'
   			},
+  			cta: {
+  				DEFAULT: 'var(--cta)',
+  				foreground: 'var(--cta-foreground)',
+  				hover: 'var(--cta-hover)'
+  			},
   			border: 'var(--border)',
   			input: 'var(--input)',
   			ring: 'var(--ring)',
@@ -49,6 +54,9 @@ export default {
   				'5': 'var(--chart-5)'
   			}
   		},
+  		fontFamily: {
+  			heading: 'var(--font-heading)'
+  		},
   		borderRadius: {
   			sm: 'calc(var(--radius) - 4px)',
   			md: 'calc(var(--radius) - 2px)',
@@ -48,6 +48,14 @@ export default defineConfig({
     sourcemap: false,
     minify: "esbuild",
   },
+  worker: {
+    // The compute worker is a single classic script, like the library bundle
+    rollupOptions: {
+      output: {
+        inlineDynamicImports: true,
+      },
+    },
+  },
   define: {
     "process.env.NODE_ENV": JSON.stringify(
       process.env.NODE_ENV || "production",
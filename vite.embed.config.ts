@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import { resolve } from "path";
+import libraryConfig from "./vite.config";
+
+// Iframe embed build (npm run build:embed): embed.html as a standalone page in
+// dist/embed. Dealers frame dist/embed/embed.html from wherever the configurator is
+// hosted; assets are referenced relatively, so the folder can be served under any path.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const { build: _libraryBuild, test: _test, server: _server, ...shared } = libraryConfig;
+
+export default defineConfig({
+  ...shared,
+  base: "./",
+  build: {
+    outDir: "dist/embed",
+    emptyOutDir: true,
+    rollupOptions: {
+      input: resolve(__dirname, "embed.html"),
+    },
+    cssCodeSplit: false,
+    sourcemap: false,
+    minify: "esbuild",
+  },
+});